@@ -0,0 +1,37 @@
+import { getSession } from '@/lib/auth'
+import { notFound, redirect } from 'next/navigation'
+import { getReconciliationState } from '@/lib/actions/reconciliations'
+import { ReconcileAccount } from '@/components/reconcile-account'
+import { formatMoney } from '@/lib/utils/money'
+import Link from 'next/link'
+
+export default async function ReconcilePage({ params }: { params: Promise<{ id: string }> }) {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const { id } = await params
+  const state = await getReconciliationState(id)
+  if (!state) notFound()
+
+  const last = state.lastReconciliation
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/accounts" className="text-sm text-muted-foreground hover:underline">
+          ← Accounts
+        </Link>
+        <h1 className="text-2xl font-bold">Reconcile {state.account.name}</h1>
+        <p className="text-muted-foreground">
+          {last
+            ? `Last reconciled to ${formatMoney(last.statement_balance_cents)} on ${new Date(`${last.statement_date}T00:00:00`).toLocaleDateString()}.`
+            : 'Not reconciled yet.'}{' '}
+          Check off the transactions on your statement until the difference is zero.
+          Reconciled transactions are locked from edits.
+        </p>
+      </div>
+
+      <ReconcileAccount key={last?.id ?? 'first'} state={state} />
+    </main>
+  )
+}
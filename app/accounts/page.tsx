@@ -0,0 +1,28 @@
+import { getSession } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { getAccounts } from '@/lib/actions/accounts'
+import { AccountManagement } from '@/components/account-management'
+import Link from 'next/link'
+
+export default async function AccountsPage() {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const accounts = await getAccounts()
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/" className="text-sm text-muted-foreground hover:underline">
+          ← Dashboard
+        </Link>
+        <h1 className="text-2xl font-bold">Accounts</h1>
+        <p className="text-muted-foreground">
+          Where your money is kept. Transactions without an account go to the default one.
+        </p>
+      </div>
+
+      <AccountManagement accounts={accounts} />
+    </main>
+  )
+}
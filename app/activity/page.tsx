@@ -0,0 +1,66 @@
+import { getSession } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { getActivityFeed } from '@/lib/actions/audit'
+import { getAccounts } from '@/lib/actions/accounts'
+import { getCategories } from '@/lib/actions/categories'
+import { getMembers } from '@/lib/actions/members'
+import { ActivityLog } from '@/components/activity-log'
+import { Button } from '@/components/ui/button'
+
+export default async function ActivityPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ before?: string }>
+}) {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const { before: beforeParam } = await searchParams
+  const before = beforeParam && /^\d+$/.test(beforeParam) ? Number(beforeParam) : undefined
+
+  const [feed, accounts, categories, members] = await Promise.all([
+    getActivityFeed(before),
+    getAccounts(),
+    getCategories({ includeArchived: true }),
+    getMembers(),
+  ])
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/settings" className="text-sm text-muted-foreground hover:underline">
+          ← Settings
+        </Link>
+        <h1 className="text-2xl font-bold">Activity</h1>
+        <p className="text-muted-foreground">
+          Every change to transactions, budgets, categories and keywords, newest first.
+          Deleted transactions can be restored from here.
+        </p>
+      </div>
+
+      <ActivityLog
+        entries={feed.entries}
+        accounts={accounts}
+        categories={categories}
+        members={members}
+        showHistoryLinks
+      />
+
+      {(before !== undefined || feed.nextBefore !== null) && (
+        <div className="flex justify-between mt-4">
+          {before !== undefined ? (
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/activity">← Newest</Link>
+            </Button>
+          ) : <span />}
+          {feed.nextBefore !== null && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/activity?before=${feed.nextBefore}`}>Older →</Link>
+            </Button>
+          )}
+        </div>
+      )}
+    </main>
+  )
+}
@@ -1,10 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
-import { hashPin, verifyPin, getSession } from '@/lib/auth'
+import {
+  hashPin,
+  verifyPin,
+  getSession,
+  getSessionMemberId,
+  findMemberByPin,
+  getClientIp,
+  checkAuthRateLimit,
+  recordAuthFailure,
+} from '@/lib/auth'
 
 // Ensure this route is dynamic
 export const dynamic = 'force-dynamic'
 
+// Doesn't say whether the current PIN was wrong or the new one is taken
+const REJECTED_MESSAGE = 'Check your current PIN, or choose a different new PIN'
+
 export async function POST(request: NextRequest) {
   try {
     const householdId = await getSession()
@@ -12,6 +24,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    // Sessions from before household members existed have no member to update
+    const memberId = await getSessionMemberId()
+    if (!memberId) {
+      return NextResponse.json({ error: 'Sign in again to change your PIN' }, { status: 401 })
+    }
+
+    // Both PIN checks below count against the sign-in rate limit
+    const ip = getClientIp(request.headers)
+    const rateLimit = await checkAuthRateLimit(ip)
+    if (rateLimit.blocked) {
+      return NextResponse.json(
+        { error: `Too many attempts. Try again in ${rateLimit.waitSeconds} seconds.` },
+        { status: 429 }
+      )
+    }
+
     let body: unknown
     try {
       body = await request.json()
@@ -29,29 +57,33 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'New PIN must be 4-6 digits' }, { status: 400 })
     }
 
-    // Get household
-    const { data: household } = await supabaseAdmin
-      .from('households')
+    // Get the signed-in member
+    const { data: member } = await supabaseAdmin
+      .from('household_members')
       .select('pin_hash')
-      .eq('id', householdId)
+      .eq('id', memberId)
+      .eq('household_id', householdId)
       .single()
 
-    if (!household) {
-      return NextResponse.json({ error: 'Household not found' }, { status: 404 })
+    if (!member) {
+      return NextResponse.json({ error: 'Household member not found' }, { status: 404 })
     }
 
-    // Verify current PIN
-    const isValid = await verifyPin(currentPin, household.pin_hash)
-    if (!isValid) {
-      return NextResponse.json({ error: 'Current PIN is incorrect' }, { status: 401 })
+    // Verify current PIN. A PIN signs in its member, so no two members can
+    // share one.
+    const isValid = await verifyPin(currentPin, member.pin_hash)
+    if (!isValid || await findMemberByPin(householdId, newPin, memberId)) {
+      await recordAuthFailure(ip)
+      return NextResponse.json({ error: REJECTED_MESSAGE }, { status: 400 })
     }
 
     // Hash and update new PIN
     const newPinHash = await hashPin(newPin)
     const { error } = await supabaseAdmin
-      .from('households')
-      .update({ pin_hash: newPinHash })
-      .eq('id', householdId)
+      .from('household_members')
+      .update({ pin_hash: newPinHash, updated_at: new Date().toISOString() })
+      .eq('id', memberId)
+      .eq('household_id', householdId)
 
     if (error) {
       return NextResponse.json({ error: 'Failed to update PIN' }, { status: 500 })
@@ -69,9 +69,32 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create session
+    // The PIN belongs to the household's first member
     const householdData = household as HouseholdRow
-    await createSession(householdData.id)
+    const { data: member, error: memberError } = await supabaseAdmin
+      .from('household_members')
+      .insert({
+        household_id: householdData.id,
+        name: 'Member 1',
+        pin_hash: pinHash,
+      })
+      .select('id')
+      .single()
+
+    if (memberError || !member) {
+      console.error('Household member creation error:', memberError)
+      return NextResponse.json(
+        {
+          error: 'Failed to create household member',
+          details: memberError?.message || 'Unknown error',
+          code: memberError?.code
+        },
+        { status: 500 }
+      )
+    }
+
+    // Create session
+    await createSession(householdData.id, member.id)
 
     return NextResponse.json({ success: true })
   } catch (error: unknown) {
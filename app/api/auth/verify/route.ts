@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
-import { verifyPin, createSession } from '@/lib/auth'
+import {
+  findMemberByPin,
+  createSession,
+  getClientIp,
+  checkAuthRateLimit,
+  recordAuthFailure,
+  clearAuthAttempts,
+} from '@/lib/auth'
 import type { Database } from '@/lib/types'
 
 type HouseholdRow = Database['public']['Tables']['households']['Row']
@@ -8,69 +15,12 @@ type HouseholdRow = Database['public']['Tables']['households']['Row']
 // Ensure this route is dynamic
 export const dynamic = 'force-dynamic'
 
-/**
- * Check rate limit using database-backed auth_attempts table.
- * Works correctly on serverless (Vercel) unlike in-memory rate limiting.
- */
-async function checkRateLimit(ip: string): Promise<{ blocked: boolean; waitSeconds: number }> {
-  try {
-    const { data, error } = await supabaseAdmin.rpc('check_auth_rate_limit', {
-      p_ip_address: ip,
-    })
-
-    if (error) {
-      console.error('Rate limit check error:', error)
-      // Fail open - allow request but log the error
-      return { blocked: false, waitSeconds: 0 }
-    }
-
-    const result = data?.[0]
-    if (!result) {
-      return { blocked: false, waitSeconds: 0 }
-    }
-
-    return {
-      blocked: result.is_blocked,
-      waitSeconds: result.wait_seconds || 0,
-    }
-  } catch (error) {
-    console.error('Rate limit check exception:', error)
-    return { blocked: false, waitSeconds: 0 }
-  }
-}
-
-/**
- * Record a failed auth attempt in the database.
- */
-async function recordFailedAttempt(ip: string): Promise<void> {
-  try {
-    await supabaseAdmin.rpc('record_auth_failure', {
-      p_ip_address: ip,
-    })
-  } catch (error) {
-    console.error('Failed to record auth failure:', error)
-  }
-}
-
-/**
- * Clear auth attempts on successful login.
- */
-async function clearAuthAttempts(ip: string): Promise<void> {
-  try {
-    await supabaseAdmin.rpc('clear_auth_attempts', {
-      p_ip_address: ip,
-    })
-  } catch (error) {
-    console.error('Failed to clear auth attempts:', error)
-  }
-}
-
 export async function POST(request: NextRequest) {
   try {
-    const ip = request.headers.get('x-forwarded-for') ?? request.headers.get('cf-connecting-ip') ?? 'unknown'
+    const ip = getClientIp(request.headers)
 
     // Check rate limiting (persistent via Supabase)
-    const rateLimit = await checkRateLimit(ip)
+    const rateLimit = await checkAuthRateLimit(ip)
     if (rateLimit.blocked) {
       return NextResponse.json(
         { error: `Too many attempts. Try again in ${rateLimit.waitSeconds} seconds.` },
@@ -113,13 +63,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Verify PIN
+    // Each member signs in with their own PIN
     const householdData = household as HouseholdRow
-    const isValid = await verifyPin(pin, householdData.pin_hash)
+    const memberId = await findMemberByPin(householdData.id, pin)
 
-    if (!isValid) {
+    if (!memberId) {
       // Record failed attempt (persistent)
-      await recordFailedAttempt(ip)
+      await recordAuthFailure(ip)
 
       return NextResponse.json(
         { error: 'Incorrect PIN' },
@@ -131,7 +81,7 @@ export async function POST(request: NextRequest) {
     await clearAuthAttempts(ip)
 
     // Create session
-    await createSession(householdData.id)
+    await createSession(householdData.id, memberId)
 
     return NextResponse.json({ success: true })
   } catch (error: unknown) {
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { createHouseholdBackup, restoreHouseholdBackup } from '@/lib/actions/backup'
+
+// Ensure this route is dynamic
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/backup
+ * Download the whole household as a JSON archive.
+ */
+export async function GET() {
+  const session = await getSession()
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const backup = await createHouseholdBackup()
+    const date = backup.exportedAt.slice(0, 10)
+
+    return new NextResponse(JSON.stringify(backup, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="household-backup-${date}.json"`,
+      },
+    })
+  } catch (error) {
+    console.error('Backup error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create backup'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/backup
+ * Restore a JSON archive into this (empty) household. A route rather than a
+ * server action, so large archives aren't held to the action body limit.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession()
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  let archive: unknown
+  try {
+    archive = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Backup file is not valid JSON' }, { status: 400 })
+  }
+
+  try {
+    const result = await restoreHouseholdBackup(archive)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to restore backup'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { exportMonthlyReport, exportYearSummary } from '@/lib/actions/exports'
+import { EXPORT_CONTENT_TYPES } from '@/lib/utils/export'
+
+/**
+ * GET /api/export/reports?month=YYYY-MM or ?year=YYYY
+ * Download a month's report or a year's summary as CSV.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession()
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const month = request.nextUrl.searchParams.get('month')
+  const year = request.nextUrl.searchParams.get('year')
+
+  if (!(month && /^\d{4}-(0[1-9]|1[0-2])$/.test(month)) && !(year && /^\d{4}$/.test(year))) {
+    return NextResponse.json({ error: 'Pass a month (YYYY-MM) or a year (YYYY)' }, { status: 400 })
+  }
+
+  try {
+    const content = month
+      ? await exportMonthlyReport(month)
+      : await exportYearSummary(Number(year))
+    const filename = month ? `budget-report-${month}.csv` : `budget-summary-${year}.csv`
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES.csv,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Report export error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to export report'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
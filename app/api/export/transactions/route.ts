@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { exportTransactions } from '@/lib/actions/exports'
+import { getHouseholdTimezone } from '@/lib/actions/settings'
+import { getCurrentDate } from '@/lib/utils/date'
+import { EXPORT_CONTENT_TYPES } from '@/lib/utils/export'
+import { parseTransactionSearchParams } from '@/lib/utils/transaction-search'
+
+/**
+ * GET /api/export/transactions?format=csv|json
+ * Download every transaction matching the transaction list's filters
+ * (same query parameters as /transactions).
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession()
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const params = Object.fromEntries(request.nextUrl.searchParams)
+  const format = params.format === 'json' ? 'json' : 'csv'
+  // Export from the first page on, whatever page the list was showing
+  const filters = { ...parseTransactionSearchParams(params), cursor: undefined }
+
+  try {
+    const [content, timezone] = await Promise.all([
+      exportTransactions(filters, format),
+      getHouseholdTimezone(),
+    ])
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="transactions-${getCurrentDate(timezone)}.${format}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Transaction export error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to export transactions'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -1,15 +1,24 @@
 import { getSession } from '@/lib/auth'
 import { redirect } from 'next/navigation'
 import { getCategories } from '@/lib/actions/categories'
-import { getMonthlyBudgets, copyBudgetFromPreviousMonth, autoRolloverIfNeeded } from '@/lib/actions/budgets'
+import {
+  getMonthlyBudgets,
+  copyBudgetFromPreviousMonth,
+  autoRolloverIfNeeded,
+  getReadyToAssign,
+  getBudgetMoves,
+} from '@/lib/actions/budgets'
 import { CategoryForm } from '@/components/category-form'
-import { CategoryDeleteButton } from '@/components/category-delete-button'
-import { BudgetAmountInput } from '@/components/budget-amount-input'
+import { BudgetCategoryGroups } from '@/components/budget-category-groups'
+import { MoveBudgetMoneyForm } from '@/components/move-budget-money-form'
+import { ReadyToAssignCard } from '@/components/ready-to-assign-card'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import Link from 'next/link'
 import { getCurrentMonth } from '@/lib/utils/date'
 import { getHouseholdTimezone } from '@/lib/actions/settings'
+import { applyGoalBudgets } from '@/lib/actions/goals'
+import { buildCategoryGroups } from '@/lib/utils/category-groups'
 
 export default async function BudgetPage() {
   const session = await getSession()
@@ -21,12 +30,22 @@ export default async function BudgetPage() {
   // Auto-rollover budget from previous month if enabled and needed
   await autoRolloverIfNeeded(currentMonth)
 
-  const [categories, budgets] = await Promise.all([
+  // Budget this month's savings goal contributions
+  await applyGoalBudgets(currentMonth)
+
+  const [categories, budgets, readyToAssign, moves] = await Promise.all([
     getCategories(),
     getMonthlyBudgets(currentMonth),
+    getReadyToAssign(currentMonth),
+    getBudgetMoves(currentMonth),
   ])
 
-  const budgetMap = new Map(budgets.map((b) => [b.category_id, b]))
+  const groups = buildCategoryGroups(categories)
+  // Only top-level categories can hold subcategories
+  const groupOptions = categories
+    .filter((category) => !category.parent_id)
+    .map((category) => ({ id: category.id, name: category.name }))
+  const budgetAmounts = Object.fromEntries(budgets.map((b) => [b.category_id, b.budgeted_amount]))
   const totalBudgeted = budgets.reduce((sum, b) => sum + b.budgeted_amount, 0)
 
   async function handleCopyFromPrevious() {
@@ -52,62 +71,50 @@ export default async function BudgetPage() {
               Copy Last Month
             </Button>
           </form>
-          <CategoryForm trigger={<Button>+ Category</Button>} />
+          {readyToAssign && (
+            <MoveBudgetMoneyForm
+              month={currentMonth}
+              categories={categories}
+              budgets={budgetAmounts}
+              trigger={<Button variant="outline">Move Money</Button>}
+            />
+          )}
+          <CategoryForm
+            groups={groupOptions}
+            trigger={<Button>+ Category</Button>}
+          />
         </div>
       </div>
 
-      <Card className="mb-6">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-lg">Total Budgeted</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-3xl font-bold">${totalBudgeted.toFixed(2)}</p>
-        </CardContent>
-      </Card>
+      {readyToAssign ? (
+        <ReadyToAssignCard
+          status={readyToAssign}
+          moves={moves}
+          categoryNames={new Map(categories.map((category) => [category.id, category.name]))}
+        />
+      ) : (
+        <Card className="mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Total Budgeted</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">${totalBudgeted.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+      )}
 
       {categories.length === 0 ? (
         <p className="text-center text-muted-foreground py-8">
           No categories yet. Create your first one!
         </p>
       ) : (
-        <div className="space-y-2">
-          {categories.map((category) => {
-            const budget = budgetMap.get(category.id)
-            return (
-              <Card key={category.id}>
-                <CardContent className="flex items-center justify-between py-3">
-                  <div className="flex items-center gap-2">
-                    <div
-                      className="w-3 h-3 rounded-full"
-                      style={{ backgroundColor: category.color }}
-                    />
-                    <span className="font-medium">{category.name}</span>
-                    <CategoryForm
-                      category={category}
-                      trigger={
-                        <button className="text-muted-foreground hover:text-foreground transition-colors">
-                          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                            <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" />
-                            <path d="m15 5 4 4" />
-                          </svg>
-                        </button>
-                      }
-                    />
-                    <CategoryDeleteButton
-                      categoryId={category.id}
-                      categoryName={category.name}
-                    />
-                  </div>
-                  <BudgetAmountInput
-                    categoryId={category.id}
-                    month={currentMonth}
-                    initialAmount={budget?.budgeted_amount ?? 0}
-                  />
-                </CardContent>
-              </Card>
-            )
-          })}
-        </div>
+        <BudgetCategoryGroups
+          groups={groups}
+          groupOptions={groupOptions}
+          budgets={budgetAmounts}
+          month={currentMonth}
+          assignment={readyToAssign}
+        />
       )}
     </main>
   )
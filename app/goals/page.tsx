@@ -0,0 +1,33 @@
+import { getSession } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { getCategories } from '@/lib/actions/categories'
+import { getSavingsGoals } from '@/lib/actions/goals'
+import { SavingsGoalManagement } from '@/components/savings-goal-management'
+import Link from 'next/link'
+
+export default async function GoalsPage() {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const [goals, categories] = await Promise.all([
+    getSavingsGoals(),
+    getCategories(),
+  ])
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/" className="text-sm text-muted-foreground hover:underline">
+          ← Dashboard
+        </Link>
+        <h1 className="text-2xl font-bold">Savings Goals</h1>
+        <p className="text-muted-foreground">
+          What to put aside each month to reach each goal on time. Money added here and
+          spending in a goal&apos;s savings category both count toward it.
+        </p>
+      </div>
+
+      <SavingsGoalManagement goals={goals} categories={categories} />
+    </main>
+  )
+}
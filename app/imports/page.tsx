@@ -0,0 +1,28 @@
+import { getSession } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { getImportBatches } from '@/lib/actions/import-batches'
+import { ImportHistory } from '@/components/import-history'
+import Link from 'next/link'
+
+export default async function ImportsPage() {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const batches = await getImportBatches()
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/transactions" className="text-sm text-muted-foreground hover:underline">
+          ← Transactions
+        </Link>
+        <h1 className="text-2xl font-bold">Import History</h1>
+        <p className="text-muted-foreground">
+          Undo an import to remove every transaction it added.
+        </p>
+      </div>
+
+      <ImportHistory batches={batches} />
+    </main>
+  )
+}
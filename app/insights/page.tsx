@@ -1,6 +1,7 @@
 import { getSession } from '@/lib/auth'
 import { redirect } from 'next/navigation'
 import { getMerchantInsights, getRecurringCharges } from '@/lib/actions/insights'
+import { getSubscriptions } from '@/lib/actions/subscriptions'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { MerchantTable } from '@/components/insights/merchant-table'
@@ -12,13 +13,14 @@ export default async function InsightsPage() {
   const session = await getSession()
   if (!session) redirect('/')
 
-  const [merchantInsights, recurringCharges] = await Promise.all([
+  const [merchantInsights, recurringCharges, subscriptions] = await Promise.all([
     getMerchantInsights(),
     getRecurringCharges(),
+    getSubscriptions(),
   ])
 
   const totalMerchantSpend = merchantInsights.reduce((sum, m) => sum + m.totalSpent, 0)
-  const totalRecurringMonthly = recurringCharges
+  const totalRecurringMonthly = [...subscriptions, ...recurringCharges]
     .filter(r => r.isActive)
     .reduce((sum, r) => sum + r.estimatedMonthlyCost, 0)
 
@@ -60,13 +62,27 @@ export default async function InsightsPage() {
         </Card>
       </div>
 
+      {/* Subscriptions Section */}
+      {subscriptions.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold mb-3 text-foreground">Subscriptions</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {subscriptions.map((subscription) => (
+              <RecurringCard key={subscription.id} charge={subscription} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recurring Charges Section */}
       <div className="mb-6">
         <h2 className="text-lg font-semibold mb-3 text-foreground">Detected Recurring Charges</h2>
         {recurringCharges.length === 0 ? (
           <Card>
             <CardContent className="py-8 text-center text-muted-foreground">
-              No recurring charges detected yet. Keep adding transactions to detect patterns.
+              {subscriptions.length > 0
+                ? 'No new recurring charges detected.'
+                : 'No recurring charges detected yet. Keep adding transactions to detect patterns.'}
             </CardContent>
           </Card>
         ) : (
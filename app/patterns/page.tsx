@@ -0,0 +1,39 @@
+import { getSession } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { getCategories } from '@/lib/actions/categories'
+import { getMerchantPatterns } from '@/lib/actions/csv-import'
+import { getMerchantAliases } from '@/lib/actions/merchant-aliases'
+import { MerchantPatternManagement } from '@/components/merchant-pattern-management'
+import { MerchantAliasManagement } from '@/components/merchant-alias-management'
+import Link from 'next/link'
+
+export default async function PatternsPage() {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const [patterns, categories, aliases] = await Promise.all([
+    getMerchantPatterns(),
+    getCategories(),
+    getMerchantAliases(),
+  ])
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/settings" className="text-sm text-muted-foreground hover:underline">
+          ← Settings
+        </Link>
+        <h1 className="text-2xl font-bold">Learned Merchants</h1>
+        <p className="text-muted-foreground">
+          Categories learned from your transactions. Suggestions use the category a merchant
+          was filed under most often.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <MerchantAliasManagement aliases={aliases} />
+        <MerchantPatternManagement patterns={patterns} categories={categories} />
+      </div>
+    </main>
+  )
+}
@@ -1,11 +1,12 @@
 import { getSession } from '@/lib/auth'
 import { redirect } from 'next/navigation'
-import { getMonthlyReport, getMultiMonthTrend, getForecast, getYearSummary } from '@/lib/actions/reports'
+import { getMonthlyReport, getMultiMonthTrend, getForecast, getYearSummary, type CategoryReport } from '@/lib/actions/reports'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { SpendingTimelineChart } from '@/components/reports/spending-timeline-chart'
 import { CategoryBreakdownChart } from '@/components/reports/category-breakdown-chart'
 import { TrendChart } from '@/components/reports/trend-chart'
+import { RolloverHistory } from '@/components/rollover-history'
 import Link from 'next/link'
 import { getCurrentMonth, getLastNMonths } from '@/lib/utils/date'
 import { getHouseholdTimezone } from '@/lib/actions/settings'
@@ -35,14 +36,66 @@ export default async function ReportsPage() {
     year: 'numeric',
   })
 
+  const categoriesById = new Map(monthlyReport.categories.map((cat) => [cat.categoryId, cat]))
+
+  const renderCategoryRow = (cat: CategoryReport, isSubcategory = false) => (
+    <tr key={cat.categoryId} className="border-b border-border">
+      <td className={`py-2 px-2 ${isSubcategory ? 'pl-8' : ''}`}>
+        <div className="flex items-center gap-2">
+          <div
+            className="w-3 h-3 rounded-full"
+            style={{ backgroundColor: cat.categoryColor }}
+          />
+          <span>{cat.categoryName}</span>
+        </div>
+      </td>
+      <td className="text-right py-2 px-2">${cat.budgeted.toFixed(2)}</td>
+      <td className={`text-right py-2 px-2 ${cat.carryover < 0 ? 'text-destructive' : ''}`}>
+        {cat.rolloverHistory.length > 0 ? (
+          <RolloverHistory
+            categoryName={cat.categoryName}
+            history={cat.rolloverHistory}
+            trigger={
+              <button type="button" className="hover:underline">
+                {cat.carryover < 0 ? '-' : ''}${Math.abs(cat.carryover).toFixed(2)}
+              </button>
+            }
+          />
+        ) : (
+          '—'
+        )}
+      </td>
+      <td className="text-right py-2 px-2">${cat.spent.toFixed(2)}</td>
+      <td className={`text-right py-2 px-2 ${cat.remaining < 0 ? 'text-destructive' : ''}`}>
+        ${cat.remaining.toFixed(2)}
+      </td>
+      <td className="text-right py-2 px-2">{cat.percentUsed.toFixed(0)}%</td>
+      <td className="text-center py-2 px-2">
+        {cat.percentUsed >= 100 ? '🔴' : cat.percentUsed >= 75 ? '🟡' : '🟢'}
+      </td>
+    </tr>
+  )
+
   return (
     <main className="container mx-auto p-4 max-w-6xl">
       <div className="mb-6">
         <Link href="/" className="text-sm text-muted-foreground hover:underline">
           ← Dashboard
         </Link>
-        <h1 className="text-2xl font-bold">Budget Reports</h1>
-        <p className="text-muted-foreground">{monthName}</p>
+        <div className="flex items-end justify-between gap-2">
+          <div>
+            <h1 className="text-2xl font-bold">Budget Reports</h1>
+            <p className="text-muted-foreground">{monthName}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/export/reports?month=${currentMonth}`}>Export CSV</a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/reports/print?month=${currentMonth}`}>Printable report</Link>
+            </Button>
+          </div>
+        </div>
       </div>
 
       {/* Overview Cards */}
@@ -125,7 +178,9 @@ export default async function ReportsPage() {
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         <SpendingTimelineChart data={monthlyReport.transactionsByDay} />
-        <CategoryBreakdownChart data={monthlyReport.categories} />
+        <CategoryBreakdownChart
+          data={monthlyReport.groups.map((group) => ({ ...group, categoryName: group.groupName }))}
+        />
       </div>
 
       <div className="mb-6">
@@ -144,6 +199,7 @@ export default async function ReportsPage() {
                 <tr className="border-b border-border">
                   <th className="text-left py-2 px-2 font-semibold">Category</th>
                   <th className="text-right py-2 px-2 font-semibold">Budgeted</th>
+                  <th className="text-right py-2 px-2 font-semibold">Carried Over</th>
                   <th className="text-right py-2 px-2 font-semibold">Spent</th>
                   <th className="text-right py-2 px-2 font-semibold">Remaining</th>
                   <th className="text-right py-2 px-2 font-semibold">% Used</th>
@@ -151,28 +207,38 @@ export default async function ReportsPage() {
                 </tr>
               </thead>
               <tbody>
-                {monthlyReport.categories.map((cat) => (
-                  <tr key={cat.categoryId} className="border-b border-border">
-                    <td className="py-2 px-2">
-                      <div className="flex items-center gap-2">
-                        <div
-                          className="w-3 h-3 rounded-full"
-                          style={{ backgroundColor: cat.categoryColor }}
-                        />
-                        <span>{cat.categoryName}</span>
-                      </div>
-                    </td>
-                    <td className="text-right py-2 px-2">${cat.budgeted.toFixed(2)}</td>
-                    <td className="text-right py-2 px-2">${cat.spent.toFixed(2)}</td>
-                    <td className={`text-right py-2 px-2 ${cat.remaining < 0 ? 'text-destructive' : ''}`}>
-                      ${cat.remaining.toFixed(2)}
-                    </td>
-                    <td className="text-right py-2 px-2">{cat.percentUsed.toFixed(0)}%</td>
-                    <td className="text-center py-2 px-2">
-                      {cat.percentUsed >= 100 ? '🔴' : cat.percentUsed >= 75 ? '🟡' : '🟢'}
-                    </td>
-                  </tr>
-                ))}
+                {monthlyReport.groups.map((group) => {
+                  const rows = group.categoryIds
+                    .map((id) => categoriesById.get(id))
+                    .filter((cat): cat is CategoryReport => !!cat)
+                  if (group.categoryIds.length === 1 && group.categoryIds[0] === group.groupId) {
+                    return rows.map((cat) => renderCategoryRow(cat))
+                  }
+
+                  return [
+                    <tr key={`group-${group.groupId}`} className="border-b border-border bg-muted/50 font-semibold">
+                      <td className="py-2 px-2">
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: group.groupColor }} />
+                          <span>{group.groupName} total</span>
+                        </div>
+                      </td>
+                      <td className="text-right py-2 px-2">${group.budgeted.toFixed(2)}</td>
+                      <td className={`text-right py-2 px-2 ${group.carryover < 0 ? 'text-destructive' : ''}`}>
+                        {group.carryover !== 0 ? `${group.carryover < 0 ? '-' : ''}$${Math.abs(group.carryover).toFixed(2)}` : '—'}
+                      </td>
+                      <td className="text-right py-2 px-2">${group.spent.toFixed(2)}</td>
+                      <td className={`text-right py-2 px-2 ${group.remaining < 0 ? 'text-destructive' : ''}`}>
+                        ${group.remaining.toFixed(2)}
+                      </td>
+                      <td className="text-right py-2 px-2">{group.percentUsed.toFixed(0)}%</td>
+                      <td className="text-center py-2 px-2">
+                        {group.percentUsed >= 100 ? '🔴' : group.percentUsed >= 75 ? '🟡' : '🟢'}
+                      </td>
+                    </tr>,
+                    ...rows.map((cat) => renderCategoryRow(cat, cat.categoryId !== group.groupId)),
+                  ]
+                })}
               </tbody>
             </table>
           </div>
@@ -208,7 +274,12 @@ export default async function ReportsPage() {
       {/* Year Summary */}
       <Card className="mb-6">
         <CardHeader>
-          <CardTitle>{currentYear} Year-End Summary</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle>{currentYear} Year-End Summary</CardTitle>
+            <Button variant="ghost" size="sm" asChild>
+              <a href={`/api/export/reports?year=${currentYear}`}>Export CSV</a>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
@@ -269,6 +340,28 @@ export default async function ReportsPage() {
               </div>
             </div>
           )}
+
+          {yearSummary.goalSavings.length > 0 && (
+            <div className="border-t pt-4 mt-4">
+              <div className="flex justify-between mb-2">
+                <p className="font-semibold">Saved Toward Goals (YTD)</p>
+                <span className="font-semibold text-green-600 dark:text-green-400">
+                  ${yearSummary.totalGoalSavings.toFixed(2)}
+                </span>
+              </div>
+              <div className="space-y-2">
+                {yearSummary.goalSavings.map((goal) => (
+                  <div key={goal.name} className="flex items-center justify-between">
+                    <span>{goal.name}</span>
+                    <span className="font-semibold">
+                      ${goal.saved.toFixed(2)}
+                      <span className="text-sm font-normal text-muted-foreground"> of ${goal.targetAmount.toFixed(2)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
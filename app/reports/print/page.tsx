@@ -0,0 +1,137 @@
+import { getSession } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { getMonthlyReport, getYearSummary } from '@/lib/actions/reports'
+import { getHouseholdTimezone } from '@/lib/actions/settings'
+import { PrintButton } from '@/components/reports/print-button'
+import { Button } from '@/components/ui/button'
+import { formatMonth, getCurrentMonth } from '@/lib/utils/date'
+import { dollarsToCents, formatMoney } from '@/lib/utils/money'
+
+const money = (dollars: number) => formatMoney(dollarsToCents(dollars))
+
+/**
+ * A plain report for printing or saving as a PDF from the browser.
+ */
+export default async function PrintableReportPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ month?: string }>
+}) {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const { month: monthParam } = await searchParams
+  const timezone = await getHouseholdTimezone()
+  const month = monthParam && /^\d{4}-(0[1-9]|1[0-2])$/.test(monthParam)
+    ? monthParam
+    : getCurrentMonth(timezone)
+  const year = Number(month.slice(0, 4))
+
+  const [report, summary] = await Promise.all([
+    getMonthlyReport(month),
+    getYearSummary(year),
+  ])
+
+  return (
+    <main className="container mx-auto p-4 max-w-4xl print:max-w-none print:p-0 text-sm">
+      <div className="flex items-center justify-between mb-6 print:hidden">
+        <Link href="/reports" className="text-sm text-muted-foreground hover:underline">
+          ← Reports
+        </Link>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/export/reports?month=${month}`}>Month CSV</a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/export/reports?year=${year}`}>Year CSV</a>
+          </Button>
+          <PrintButton />
+        </div>
+      </div>
+
+      <h1 className="text-2xl font-bold">Budget Report: {formatMonth(month)}</h1>
+
+      <table className="w-full mt-4 mb-8">
+        <tbody>
+          {[
+            ['Total Budgeted', money(report.totalBudgeted)],
+            ['Carried Over', money(report.totalCarryover)],
+            ['Income', money(report.totalIncome)],
+            ['Spent', money(report.totalSpent)],
+            ['Remaining', money(report.totalRemaining)],
+            ['Net Cash Flow', money(report.netCashFlow)],
+            ['Savings Rate', `${report.savingsRate.toFixed(1)}%`],
+          ].map(([label, value]) => (
+            <tr key={label} className="border-b border-border">
+              <td className="py-1">{label}</td>
+              <td className="py-1 text-right font-medium">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2 className="text-lg font-semibold mb-2">Categories</h2>
+      <table className="w-full mb-8">
+        <thead>
+          <tr className="border-b border-border">
+            <th className="text-left py-1">Category</th>
+            <th className="text-right py-1">Budgeted</th>
+            <th className="text-right py-1">Carried Over</th>
+            <th className="text-right py-1">Spent</th>
+            <th className="text-right py-1">Remaining</th>
+            <th className="text-right py-1">% Used</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.categories.map((cat) => (
+            <tr key={cat.categoryId} className="border-b border-border">
+              <td className={`py-1 ${cat.parentId ? 'pl-4' : ''}`}>{cat.categoryName}</td>
+              <td className="py-1 text-right">{money(cat.budgeted)}</td>
+              <td className="py-1 text-right">{money(cat.carryover)}</td>
+              <td className="py-1 text-right">{money(cat.spent)}</td>
+              <td className="py-1 text-right">{money(cat.remaining)}</td>
+              <td className="py-1 text-right">{cat.percentUsed.toFixed(0)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2 className="text-lg font-semibold mb-2 break-before-page">{year} Summary</h2>
+      <table className="w-full mb-8">
+        <tbody>
+          {[
+            ['Total Budgeted', money(summary.totalBudgeted)],
+            ['Total Spent', money(summary.totalSpent)],
+            ['Total Saved', money(summary.totalSaved)],
+            ['Average Monthly Spend', money(summary.averageMonthlySpend)],
+            ['Highest Spend Month', `${formatMonth(summary.highestSpendMonth.month)} (${money(summary.highestSpendMonth.amount)})`],
+            ['Lowest Spend Month', `${formatMonth(summary.lowestSpendMonth.month)} (${money(summary.lowestSpendMonth.amount)})`],
+            ['Saved Toward Goals', money(summary.totalGoalSavings)],
+          ].map(([label, value]) => (
+            <tr key={label} className="border-b border-border">
+              <td className="py-1">{label}</td>
+              <td className="py-1 text-right font-medium">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {summary.categoryTotals.length > 0 && (
+        <>
+          <h3 className="font-semibold mb-2">Spending by Category</h3>
+          <table className="w-full mb-8">
+            <tbody>
+              {summary.categoryTotals.map((cat) => (
+                <tr key={cat.name} className="border-b border-border">
+                  <td className="py-1">{cat.name}</td>
+                  <td className="py-1 text-right">{money(cat.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,33 @@
+import { getSession } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { getCategories } from '@/lib/actions/categories'
+import { getScheduledTransactions } from '@/lib/actions/scheduled-transactions'
+import { ScheduledTransactionManagement } from '@/components/scheduled-transaction-management'
+import Link from 'next/link'
+
+export default async function ScheduledPage() {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const [schedules, categories] = await Promise.all([
+    getScheduledTransactions(),
+    getCategories(),
+  ])
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/" className="text-sm text-muted-foreground hover:underline">
+          ← Dashboard
+        </Link>
+        <h1 className="text-2xl font-bold">Scheduled Transactions</h1>
+        <p className="text-muted-foreground">
+          Recurring bills and income. Due items are added on the day they fall due in your
+          household&apos;s timezone, or wait on the dashboard for you to confirm them.
+        </p>
+      </div>
+
+      <ScheduledTransactionManagement schedules={schedules} categories={categories} />
+    </main>
+  )
+}
@@ -2,25 +2,45 @@ import { getSession } from '@/lib/auth'
 import { redirect } from 'next/navigation'
 import { getCategories } from '@/lib/actions/categories'
 import { getAllKeywords } from '@/lib/actions/keywords'
+import { getRules } from '@/lib/actions/rules'
+import { getMembers, getCurrentMember } from '@/lib/actions/members'
 import { CategoryForm } from '@/components/category-form'
 import { ChangePinForm } from '@/components/change-pin-form'
 import { ThemeToggle } from '@/components/theme-toggle'
 import { AutoRolloverToggle } from '@/components/auto-rollover-toggle'
+import { ZeroBasedToggle } from '@/components/zero-based-toggle'
 import { KeywordManagement } from '@/components/keyword-management'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { TimezoneSelector } from '@/components/timezone-selector'
+import { BackupRestore } from '@/components/backup-restore'
+import { MemberManagement } from '@/components/member-management'
+import { CategoryArchiveButton } from '@/components/category-archive-button'
+import { Badge } from '@/components/ui/badge'
+import { buildCategoryGroups } from '@/lib/utils/category-groups'
 import Link from 'next/link'
 
 export default async function SettingsPage() {
   const session = await getSession()
   if (!session) redirect('/')
 
-  const [categories, keywordsByCategory] = await Promise.all([
-    getCategories(),
+  const [allCategories, keywordsByCategory, rules, members, currentMember] = await Promise.all([
+    getCategories({ includeArchived: true }),
     getAllKeywords(),
+    getRules(),
+    getMembers(),
+    getCurrentMember(),
   ])
 
+  // Archived categories are managed here but can't be picked
+  const categories = allCategories.filter((category) => !category.archived_at)
+  const subcategoryIds = new Set(
+    buildCategoryGroups(allCategories).flatMap(({ children }) => children.map((child) => child.id))
+  )
+  const groups = categories
+    .filter((category) => !category.parent_id)
+    .map((category) => ({ id: category.id, name: category.name }))
+
   return (
     <main className="container mx-auto p-4 max-w-2xl">
       <div className="mb-6">
@@ -48,11 +68,25 @@ export default async function SettingsPage() {
         <CardContent>
           <div className="space-y-6">
             <AutoRolloverToggle />
+            <ZeroBasedToggle />
             <TimezoneSelector />
           </div>
         </CardContent>
       </Card>
 
+      {/* Household Members */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Household Members</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MemberManagement members={members} currentMemberId={currentMember?.id ?? null} />
+          <Link href="/activity" className="block mt-4 text-sm text-muted-foreground hover:underline">
+            See who changed what →
+          </Link>
+        </CardContent>
+      </Card>
+
       {/* Change PIN */}
       <Card className="mb-6">
         <CardHeader>
@@ -63,37 +97,62 @@ export default async function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Backup & Restore */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Backup &amp; Restore</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BackupRestore />
+        </CardContent>
+      </Card>
+
       {/* Manage Categories */}
       <Card className="mb-6">
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Manage Categories</CardTitle>
-          <CategoryForm trigger={<Button size="sm">+ Add</Button>} />
+          <CategoryForm groups={groups} trigger={<Button size="sm">+ Add</Button>} />
         </CardHeader>
         <CardContent>
-          {categories.length === 0 ? (
+          {allCategories.length === 0 ? (
             <p className="text-muted-foreground">No categories yet.</p>
           ) : (
             <div className="space-y-2">
-              {categories.map((category) => (
+              {allCategories.map((category) => (
                 <div
                   key={category.id}
                   className="flex items-center justify-between py-2 border-b last:border-0"
                 >
-                  <div className="flex items-center gap-2">
+                  <div className={`flex items-center gap-2 ${subcategoryIds.has(category.id) ? 'pl-6' : ''}`}>
                     <div
                       className="w-3 h-3 rounded-full"
                       style={{ backgroundColor: category.color }}
                     />
                     <span>{category.name}</span>
+                    {category.archived_at && <Badge variant="secondary">Archived</Badge>}
+                  </div>
+                  <div className="flex">
+                    <CategoryArchiveButton
+                      categoryId={category.id}
+                      categoryName={category.name}
+                      archived={!!category.archived_at}
+                    />
+                    <CategoryForm
+                      category={category}
+                      groups={groups}
+                      trigger={<Button variant="ghost" size="sm">Edit</Button>}
+                    />
                   </div>
-                  <CategoryForm
-                    category={category}
-                    trigger={<Button variant="ghost" size="sm">Edit</Button>}
-                  />
                 </div>
               ))}
             </div>
           )}
+          <p className="text-sm text-muted-foreground mt-4">
+            Archived categories are hidden from pickers and the budget but stay on their transactions and in reports.
+          </p>
+          <Link href="/trash" className="block mt-2 text-sm text-muted-foreground hover:underline">
+            Deleted categories and transactions →
+          </Link>
         </CardContent>
       </Card>
 
@@ -105,13 +164,17 @@ export default async function SettingsPage() {
         <CardContent>
           <div className="mb-4">
             <p className="text-sm text-muted-foreground">
-              Configure keywords to automatically categorize transactions when importing CSV files.
-              Keywords are matched against transaction descriptions to suggest categories.
+              Configure rules and keywords to automatically categorize transactions.
+              Rules apply to new and imported transactions; keywords suggest categories when importing CSV files.
             </p>
+            <Link href="/patterns" className="text-sm text-muted-foreground hover:underline">
+              Review learned merchants →
+            </Link>
           </div>
           <KeywordManagement
             categories={categories}
             keywordsByCategory={keywordsByCategory}
+            rules={rules}
           />
         </CardContent>
       </Card>
@@ -0,0 +1,43 @@
+import { getSession } from '@/lib/auth'
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { getTransactionHistory } from '@/lib/actions/audit'
+import { getAccounts } from '@/lib/actions/accounts'
+import { getCategories } from '@/lib/actions/categories'
+import { getMembers } from '@/lib/actions/members'
+import { ActivityLog } from '@/components/activity-log'
+
+export default async function TransactionHistoryPage({ params }: { params: Promise<{ id: string }> }) {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  const { id } = await params
+  const [history, accounts, categories, members] = await Promise.all([
+    getTransactionHistory(id),
+    getAccounts(),
+    getCategories({ includeArchived: true }),
+    getMembers(),
+  ])
+  if (history.length === 0) notFound()
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/transactions" className="text-sm text-muted-foreground hover:underline">
+          ← Transactions
+        </Link>
+        <h1 className="text-2xl font-bold">Transaction History</h1>
+        <p className="text-muted-foreground">
+          Every change to this transaction, oldest first.
+        </p>
+      </div>
+
+      <ActivityLog
+        entries={history}
+        accounts={accounts}
+        categories={categories}
+        members={members}
+      />
+    </main>
+  )
+}
@@ -1,29 +1,63 @@
 import { getSession } from '@/lib/auth'
 import { redirect } from 'next/navigation'
-import { getTransactions } from '@/lib/actions/transactions'
+import { searchTransactions } from '@/lib/actions/transactions'
 import { getCategories } from '@/lib/actions/categories'
 import { getBudgetDataForWarnings } from '@/lib/actions/budgets'
 import { getAllKeywords } from '@/lib/actions/keywords'
-import { getMerchantPatterns } from '@/lib/actions/csv-import'
+import { getMerchantPatterns, getSavedColumnMappings } from '@/lib/actions/csv-import'
+import { getRules } from '@/lib/actions/rules'
+import { getMerchantAliases } from '@/lib/actions/merchant-aliases'
+import { getAccounts } from '@/lib/actions/accounts'
+import { getMembers } from '@/lib/actions/members'
 import { TransactionForm } from '@/components/transaction-form'
 import { TransactionList } from '@/components/transaction-list'
+import { TransactionFilters } from '@/components/transaction-filters'
 import { ImportButton } from '@/components/import-button'
 import { Button } from '@/components/ui/button'
+import { formatMoney } from '@/lib/utils/money'
+import {
+  hasActiveFilters,
+  parseTransactionSearchParams,
+  toTransactionSearchQuery,
+} from '@/lib/utils/transaction-search'
 import Link from 'next/link'
 
-export default async function TransactionsPage() {
+export default async function TransactionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
   const session = await getSession()
   if (!session) redirect('/')
 
-  const [transactions, categories, budgetData, keywordsByCategory, merchantPatterns] = await Promise.all([
-    getTransactions(),
+  const filters = parseTransactionSearchParams(await searchParams)
+
+  const [
+    results,
+    categories,
+    budgetData,
+    keywordsByCategory,
+    merchantPatterns,
+    merchantAliases,
+    savedMappings,
+    rules,
+    accounts,
+    members,
+  ] = await Promise.all([
+    searchTransactions(filters),
     getCategories(),
     getBudgetDataForWarnings(),
     getAllKeywords(),
     getMerchantPatterns(),
+    getMerchantAliases(),
+    getSavedColumnMappings(),
+    getRules(),
+    getAccounts(),
+    getMembers(),
   ])
 
-  const total = transactions.reduce((sum, t) => sum + t.amount, 0)
+  const query = toTransactionSearchQuery({ ...filters, cursor: undefined })
+  const isFiltered = hasActiveFilters(filters)
 
   return (
     <main className="container mx-auto p-4 max-w-2xl">
@@ -33,19 +67,31 @@ export default async function TransactionsPage() {
             ← Dashboard
           </Link>
           <h1 className="text-2xl font-bold">Transactions</h1>
-          <p className="text-muted-foreground">
-            Total: ${total.toFixed(2)}
-          </p>
+          <div className="flex gap-3">
+            <Link href="/imports" className="text-sm text-muted-foreground hover:underline">
+              Import history
+            </Link>
+            <Link href="/activity" className="text-sm text-muted-foreground hover:underline">
+              Activity
+            </Link>
+            <Link href="/trash" className="text-sm text-muted-foreground hover:underline">
+              Trash
+            </Link>
+          </div>
         </div>
         <div className="flex gap-2">
           <ImportButton
             categories={categories}
             keywordsByCategory={keywordsByCategory}
             merchantPatterns={merchantPatterns}
-            existingTransactions={transactions}
+            merchantAliases={merchantAliases}
+            rules={rules}
+            savedMappings={savedMappings}
+            accounts={accounts}
           />
           <TransactionForm
             categories={categories}
+            accounts={accounts}
             trigger={<Button>+ Add Transaction</Button>}
             budgetMap={budgetData.budgetMap}
             spentMap={budgetData.spentMap}
@@ -53,12 +99,53 @@ export default async function TransactionsPage() {
         </div>
       </div>
 
+      {/* Remount on navigation so the inputs show the URL's filters */}
+      <TransactionFilters key={query} filters={filters} categories={categories} />
+
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <p className="text-sm text-muted-foreground">
+          {results.totalCount} {results.totalCount === 1 ? 'transaction' : 'transactions'}
+          {isFiltered && ' matching'} · Income {formatMoney(results.incomeCents)} · Spending{' '}
+          {formatMoney(results.expenseCents)}
+        </p>
+        {results.totalCount > 0 && (
+          <div className="flex gap-1 shrink-0">
+            <Button variant="ghost" size="sm" asChild>
+              <a href={`/api/export/transactions?${query ? `${query}&` : ''}format=csv`}>Export CSV</a>
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <a href={`/api/export/transactions?${query ? `${query}&` : ''}format=json`}>JSON</a>
+            </Button>
+          </div>
+        )}
+      </div>
+
       <TransactionList
-        transactions={transactions}
+        transactions={results.transactions}
         categories={categories}
+        accounts={accounts}
+        members={members}
         budgetMap={budgetData.budgetMap}
         spentMap={budgetData.spentMap}
+        emptyMessage={isFiltered ? 'No transactions match these filters.' : undefined}
       />
+
+      {(filters.cursor || results.nextCursor) && (
+        <div className="flex justify-between mt-4">
+          {filters.cursor ? (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={query ? `/transactions?${query}` : '/transactions'}>← First page</Link>
+            </Button>
+          ) : <span />}
+          {results.nextCursor && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/transactions?${toTransactionSearchQuery({ ...filters, cursor: results.nextCursor })}`}>
+                Next page →
+              </Link>
+            </Button>
+          )}
+        </div>
+      )}
     </main>
   )
 }
@@ -0,0 +1,32 @@
+import { getSession } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { getTrash, purgeExpiredTrash } from '@/lib/actions/trash'
+import { TrashList } from '@/components/trash-list'
+import { TRASH_RETENTION_DAYS } from '@/lib/utils/trash'
+
+export default async function TrashPage() {
+  const session = await getSession()
+  if (!session) redirect('/')
+
+  // Don't show anything that's already due to go
+  await purgeExpiredTrash()
+  const trash = await getTrash()
+
+  return (
+    <main className="container mx-auto p-4 max-w-2xl">
+      <div className="mb-6">
+        <Link href="/transactions" className="text-sm text-muted-foreground hover:underline">
+          ← Transactions
+        </Link>
+        <h1 className="text-2xl font-bold">Trash</h1>
+        <p className="text-muted-foreground">
+          Deleted transactions and categories stay here for {TRASH_RETENTION_DAYS} days before
+          they are deleted for good.
+        </p>
+      </div>
+
+      <TrashList transactions={trash.transactions} categories={trash.categories} />
+    </main>
+  )
+}
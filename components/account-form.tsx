@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { createAccount, updateAccount } from '@/lib/actions/accounts'
+import { ACCOUNT_TYPES, ACCOUNT_TYPE_LABELS, type AccountType } from '@/lib/utils/accounts'
+import type { Account } from '@/lib/types'
+
+interface AccountFormProps {
+  account?: Account
+  trigger: React.ReactNode
+}
+
+export function AccountForm({ account, trigger }: AccountFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState(account?.name ?? '')
+  const [type, setType] = useState<AccountType>((account?.type as AccountType) ?? 'checking')
+  const [openingBalance, setOpeningBalance] = useState(account?.opening_balance?.toString() ?? '0')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const isEditing = !!account
+
+  const resetForm = () => {
+    setName('')
+    setType('checking')
+    setOpeningBalance('0')
+    setError('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!name.trim()) {
+      setError('Please enter a name')
+      return
+    }
+
+    const parsedBalance = openingBalance.trim() === '' ? 0 : parseFloat(openingBalance)
+    if (isNaN(parsedBalance)) {
+      setError('Enter a valid opening balance')
+      return
+    }
+
+    setLoading(true)
+
+    const input = { name: name.trim(), type, openingBalance: parsedBalance }
+
+    try {
+      if (isEditing) {
+        await updateAccount(account.id, input)
+      } else {
+        await createAccount(input)
+      }
+      setOpen(false)
+      if (!isEditing) resetForm()
+      toast.success(isEditing ? 'Account updated' : 'Account created')
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Something went wrong'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Account' : 'New Account'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Name</Label>
+            <Input
+              id="account-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Joint checking"
+              maxLength={50}
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="account-type">Type</Label>
+              <Select value={type} onValueChange={(v) => setType(v as AccountType)}>
+                <SelectTrigger id="account-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCOUNT_TYPES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {ACCOUNT_TYPE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-opening">Opening balance</Label>
+              <Input
+                id="account-opening"
+                type="number"
+                step="0.01"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            For a credit card, enter what you owe as a negative balance.
+          </p>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Account'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
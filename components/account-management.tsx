@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { AccountForm } from '@/components/account-form'
+import { TransferForm } from '@/components/transfer-form'
+import { deleteAccount, setDefaultAccount, type AccountWithBalance } from '@/lib/actions/accounts'
+import { ACCOUNT_TYPE_LABELS, type AccountType } from '@/lib/utils/accounts'
+import { formatMoney } from '@/lib/utils/money'
+
+interface AccountManagementProps {
+  accounts: AccountWithBalance[]
+}
+
+export function AccountManagement({ accounts }: AccountManagementProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState<string | null>(null)
+
+  const run = async (id: string, action: () => Promise<void>, success: string) => {
+    setLoading(id)
+    try {
+      await action()
+      toast.success(success)
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="py-4 px-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="font-semibold">Accounts</h2>
+          <div className="flex gap-2">
+            {accounts.length > 1 && (
+              <TransferForm
+                accounts={accounts}
+                trigger={<Button size="sm" variant="outline">Transfer</Button>}
+              />
+            )}
+            <AccountForm trigger={<Button size="sm">+ Add Account</Button>} />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {accounts.map((account) => (
+            <div
+              key={account.id}
+              className="flex items-start justify-between gap-2 pb-3 border-b last:border-0 last:pb-0"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">{account.name}</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  <Badge variant="outline">
+                    {ACCOUNT_TYPE_LABELS[account.type as AccountType] ?? account.type}
+                  </Badge>
+                  {account.is_default && <Badge variant="secondary">Default</Badge>}
+                </div>
+              </div>
+              <div className="flex flex-col items-end shrink-0">
+                <span className={`font-semibold ${account.balanceCents < 0 ? 'text-destructive' : ''}`}>
+                  {formatMoney(account.balanceCents)}
+                </span>
+                <div className="flex">
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href={`/accounts/${account.id}/reconcile`}>Reconcile</Link>
+                  </Button>
+                  {!account.is_default && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={loading === account.id}
+                      onClick={() => run(account.id, () => setDefaultAccount(account.id), 'Default account updated')}
+                    >
+                      Make default
+                    </Button>
+                  )}
+                  <AccountForm
+                    account={account}
+                    trigger={<Button variant="ghost" size="sm">Edit</Button>}
+                  />
+                  {!account.is_default && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={loading === account.id}
+                      onClick={() => run(account.id, () => deleteAccount(account.id), 'Account deleted')}
+                      aria-label={`Delete account ${account.name}`}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
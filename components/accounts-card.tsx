@@ -0,0 +1,33 @@
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { AccountWithBalance } from '@/lib/actions/accounts'
+import { formatMoney } from '@/lib/utils/money'
+
+interface AccountsCardProps {
+  accounts: AccountWithBalance[]
+}
+
+export function AccountsCard({ accounts }: AccountsCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-sm font-medium">Accounts</CardTitle>
+        <Link href="/accounts" className="text-sm text-primary hover:underline">
+          Manage
+        </Link>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {accounts.map((account) => (
+            <div key={account.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">{account.name}</span>
+              <span className={`font-medium shrink-0 ${account.balanceCents < 0 ? 'text-destructive' : ''}`}>
+                {formatMoney(account.balanceCents)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
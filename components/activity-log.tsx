@@ -0,0 +1,128 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { restoreDeletedTransaction } from '@/lib/actions/audit'
+import type { MemberSummary } from '@/lib/actions/members'
+import type { Account, AuditLogEntry, Category } from '@/lib/types'
+import {
+  AUDIT_TABLE_LABELS,
+  describeAuditRecord,
+  getAuditActionLabel,
+  getAuditActorName,
+  getAuditChanges,
+  type AuditTable,
+} from '@/lib/utils/audit'
+
+interface ActivityLogProps {
+  entries: AuditLogEntry[]
+  accounts: Account[]
+  categories: Category[]
+  members: MemberSummary[]
+  /** Link transaction entries to their history */
+  showHistoryLinks?: boolean
+  /** Shown instead of the log when there are no entries */
+  emptyMessage?: string
+}
+
+export function ActivityLog({
+  entries,
+  accounts,
+  categories,
+  members,
+  showHistoryLinks = false,
+  emptyMessage = 'No activity yet.',
+}: ActivityLogProps) {
+  const router = useRouter()
+  const [restoring, setRestoring] = useState<string | null>(null)
+  const lookups = {
+    accountNames: new Map(accounts.map((account) => [account.id, account.name])),
+    categoryNames: new Map(categories.map((category) => [category.id, category.name])),
+    memberNames: new Map(members.map((member) => [member.id, member.name])),
+  }
+
+  const handleRestore = async (entryId: string) => {
+    setRestoring(entryId)
+    try {
+      await restoreDeletedTransaction(entryId)
+      toast.success('Transaction restored')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to restore transaction')
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">{emptyMessage}</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => {
+        const changes = getAuditChanges(entry, lookups)
+        const isTransaction = entry.table_name === 'transactions'
+
+        return (
+          <Card key={entry.id}>
+            <CardContent className="py-3 px-4 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.action === 'delete' ? 'destructive' : 'secondary'}>
+                      {getAuditActionLabel(entry)}
+                    </Badge>
+                    <span className="text-sm text-muted-foreground">
+                      {AUDIT_TABLE_LABELS[entry.table_name as AuditTable] ?? entry.table_name}
+                    </span>
+                  </div>
+                  <p className="font-medium truncate mt-1">{describeAuditRecord(entry, lookups)}</p>
+                </div>
+                <div className="flex shrink-0">
+                  {isTransaction && showHistoryLinks && entry.action !== 'delete' && (
+                    <Button variant="ghost" size="sm" asChild>
+                      <Link href={`/transactions/${entry.record_id}/history`}>History</Link>
+                    </Button>
+                  )}
+                  {isTransaction && entry.action === 'delete' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={restoring === entry.id}
+                      onClick={() => handleRestore(entry.id)}
+                    >
+                      {restoring === entry.id ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {changes.length > 0 && (
+                <ul className="text-sm">
+                  {changes.map((change) => (
+                    <li key={change.label}>
+                      <span className="text-muted-foreground">{change.label}:</span>{' '}
+                      <span className="line-through text-muted-foreground">{change.before}</span>
+                      {' → '}
+                      {change.after}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                {getAuditActorName(entry, lookups)} • {new Date(entry.created_at).toLocaleString()}
+              </p>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -13,20 +13,24 @@ export function AppShell({ children, quickAdd }: AppShellProps) {
     return (
         <div className="min-h-screen bg-background font-sans antialiased">
             {/* Desktop Sidebar */}
-            <NavSidebar />
+            <div className="print:hidden">
+                <NavSidebar />
+            </div>
 
             {/* Main Content Area */}
-            <div className="flex flex-col md:pl-64 lg:pl-72 min-h-screen">
-                <main className="flex-1 pb-20 md:pb-8">
+            <div className="flex flex-col md:pl-64 lg:pl-72 print:pl-0 min-h-screen">
+                <main className="flex-1 pb-20 md:pb-8 print:pb-0">
                     <SessionMonitor />
                     {children}
                 </main>
             </div>
 
             {/* Mobile Bottom Nav */}
-            <NavMobile>
-                {quickAdd}
-            </NavMobile>
+            <div className="print:hidden">
+                <NavMobile>
+                    {quickAdd}
+                </NavMobile>
+            </div>
         </div>
     )
 }
@@ -0,0 +1,87 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+
+export function BackupRestore() {
+  const router = useRouter()
+  const [file, setFile] = useState<File | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+    setError('')
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/backup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        const errorMsg = data.error || 'Failed to restore backup'
+        setError(errorMsg)
+        toast.error(errorMsg)
+        return
+      }
+
+      setFile(null)
+      toast.success(`Backup restored (${data.transactions} transactions)`)
+      router.refresh()
+    } catch {
+      const errorMsg = 'Failed to connect. Please try again.'
+      setError(errorMsg)
+      toast.error(errorMsg)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Download everything in this household as one JSON file: settings, accounts, categories,
+          keywords, learned merchants, budgets, rules, aliases, schedules, subscriptions, goals and
+          transactions.
+        </p>
+        <Button variant="outline" asChild>
+          <a href="/api/backup">Download backup</a>
+        </Button>
+      </div>
+
+      <form onSubmit={handleRestore} className="space-y-2 border-t pt-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <Label htmlFor="backupFile">Restore from backup</Label>
+        <p className="text-sm text-muted-foreground">
+          Only works in a new household with no categories or transactions yet.
+        </p>
+        <Input
+          id="backupFile"
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          disabled={loading}
+        />
+        <Button type="submit" disabled={!file || loading}>
+          {loading ? 'Restoring...' : 'Restore'}
+        </Button>
+      </form>
+    </div>
+  )
+}
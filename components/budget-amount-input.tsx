@@ -4,17 +4,23 @@ import { useState } from 'react'
 import { toast } from 'sonner'
 import { Input } from '@/components/ui/input'
 import { setBudgetAmount } from '@/lib/actions/budgets'
+import { wouldOverAssign, type AssignmentStatus } from '@/lib/utils/budget-warnings'
 
 interface BudgetAmountInputProps {
   categoryId: string
   month: string
   initialAmount: number
+  /** In zero-based budgeting, warns when raising the amount would over-assign */
+  assignment?: AssignmentStatus | null
 }
 
-export function BudgetAmountInput({ categoryId, month, initialAmount }: BudgetAmountInputProps) {
+export function BudgetAmountInput({ categoryId, month, initialAmount, assignment }: BudgetAmountInputProps) {
   const [amount, setAmount] = useState(initialAmount.toString())
   const [saving, setSaving] = useState(false)
 
+  const increase = (parseFloat(amount) || 0) - initialAmount
+  const overAssigned = assignment && increase > 0 ? wouldOverAssign(increase, assignment) : null
+
   const handleBlur = async () => {
     const numAmount = parseFloat(amount) || 0
     if (numAmount === initialAmount) return
@@ -33,18 +39,25 @@ export function BudgetAmountInput({ categoryId, month, initialAmount }: BudgetAm
   }
 
   return (
-    <div className="flex items-center gap-1">
-      <span className="text-muted-foreground">$</span>
-      <Input
-        type="number"
-        step="0.01"
-        min="0"
-        value={amount}
-        onChange={(e) => setAmount(e.target.value)}
-        onBlur={handleBlur}
-        className="w-24 h-8"
-        disabled={saving}
-      />
+    <div className="flex flex-col items-end">
+      <div className="flex items-center gap-1">
+        <span className="text-muted-foreground">$</span>
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          onBlur={handleBlur}
+          className="w-24 h-8"
+          disabled={saving}
+        />
+      </div>
+      {overAssigned?.wouldExceed && (
+        <span className="text-xs text-destructive">
+          ${overAssigned.overage.toFixed(2)} more than you have to assign
+        </span>
+      )}
     </div>
   )
 }
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { ChevronDown, ChevronRight, GripVertical } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { CategoryForm } from '@/components/category-form'
+import { CategoryDeleteButton } from '@/components/category-delete-button'
+import { BudgetAmountInput } from '@/components/budget-amount-input'
+import { reorderCategories } from '@/lib/actions/categories'
+import type { Category } from '@/lib/types'
+import type { CategoryGroup } from '@/lib/utils/category-groups'
+import type { AssignmentStatus } from '@/lib/utils/budget-warnings'
+import { formatMoney, dollarsToCents } from '@/lib/utils/money'
+
+interface BudgetCategoryGroupsProps {
+  groups: CategoryGroup<Category>[]
+  /** Groups a category can be moved into */
+  groupOptions: { id: string; name: string }[]
+  /** This month's budget per category, in dollars */
+  budgets: Record<string, number>
+  month: string
+  /** Set in zero-based budgeting */
+  assignment?: AssignmentStatus | null
+}
+
+// What's being dragged, and the siblings it can be dropped among
+type DragState = { id: string; siblingIds: string[] }
+
+export function BudgetCategoryGroups({
+  groups,
+  groupOptions,
+  budgets,
+  month,
+  assignment,
+}: BudgetCategoryGroupsProps) {
+  const router = useRouter()
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [dragging, setDragging] = useState<DragState | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const toggle = (id: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleDrop = async (targetId: string) => {
+    const drag = dragging
+    setDragging(null)
+    if (!drag || drag.id === targetId || !drag.siblingIds.includes(targetId)) return
+
+    // Put the dragged category where the target was
+    const order = drag.siblingIds.filter((id) => id !== drag.id)
+    const targetIndex = drag.siblingIds.indexOf(targetId)
+    order.splice(targetIndex, 0, drag.id)
+
+    setSaving(true)
+    try {
+      await reorderCategories({ categoryIds: order })
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reorder categories')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderRow = (category: Category, siblingIds: string[], isChild: boolean) => (
+    <div
+      key={category.id}
+      draggable={!saving}
+      onDragStart={(e) => {
+        e.stopPropagation()
+        e.dataTransfer.effectAllowed = 'move'
+        setDragging({ id: category.id, siblingIds })
+      }}
+      onDragOver={(e) => {
+        if (dragging && dragging.siblingIds.includes(category.id)) {
+          e.preventDefault()
+          e.stopPropagation()
+        }
+      }}
+      onDrop={(e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        handleDrop(category.id)
+      }}
+      onDragEnd={() => setDragging(null)}
+      className={`flex items-center justify-between gap-2 ${isChild ? 'py-2 pl-8' : ''} ${dragging?.id === category.id ? 'opacity-50' : ''}`}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <GripVertical
+          className="w-4 h-4 shrink-0 cursor-grab text-muted-foreground"
+          aria-label={`Drag to reorder ${category.name}`}
+        />
+        <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: category.color }} />
+        <span className={`truncate ${isChild ? '' : 'font-medium'}`}>{category.name}</span>
+        <CategoryForm
+          category={category}
+          groups={groupOptions}
+          trigger={
+            <button className="text-muted-foreground hover:text-foreground transition-colors">
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" />
+                <path d="m15 5 4 4" />
+              </svg>
+            </button>
+          }
+        />
+        <CategoryDeleteButton categoryId={category.id} categoryName={category.name} />
+      </div>
+      <BudgetAmountInput
+        // Start over when the saved amount changes, e.g. after moving money
+        key={budgets[category.id] ?? 0}
+        categoryId={category.id}
+        month={month}
+        initialAmount={budgets[category.id] ?? 0}
+        assignment={assignment}
+      />
+    </div>
+  )
+
+  const topLevelIds = groups.map(({ category }) => category.id)
+
+  return (
+    <div className="space-y-2">
+      {groups.map(({ category, children }) => {
+        const isCollapsed = collapsed.has(category.id)
+        const childIds = children.map((child) => child.id)
+        const totalCents = [category.id, ...childIds]
+          .reduce((sum, id) => sum + dollarsToCents(budgets[id] ?? 0), 0)
+
+        return (
+          <Card key={category.id}>
+            <CardContent className="py-3">
+              {renderRow(category, topLevelIds, false)}
+              {children.length > 0 && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => toggle(category.id)}
+                    aria-expanded={!isCollapsed}
+                    className="flex items-center gap-1 mt-2 text-sm text-muted-foreground hover:text-foreground"
+                  >
+                    {isCollapsed
+                      ? <ChevronRight className="w-4 h-4" aria-hidden="true" />
+                      : <ChevronDown className="w-4 h-4" aria-hidden="true" />}
+                    {children.length} {children.length === 1 ? 'subcategory' : 'subcategories'} ·{' '}
+                    {formatMoney(totalCents)} budgeted in all
+                  </button>
+                  {!isCollapsed && (
+                    <div className="mt-1 divide-y">
+                      {children.map((child) => renderRow(child, childIds, true))}
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  bulkEditTransactions,
+  type BulkEditResult,
+  type TransactionWithCategory,
+} from '@/lib/actions/transactions'
+import type { BulkTransactionEditInput } from '@/lib/schemas/transaction'
+import { formatMoney, dollarsToCents } from '@/lib/utils/money'
+import { TRASH_RETENTION_DAYS } from '@/lib/utils/trash'
+import type { Category } from '@/lib/types'
+
+interface BulkEditBarProps {
+  selected: TransactionWithCategory[]
+  categories: Category[]
+  onClear: () => void
+  /** Rows that couldn't be changed, so the list can point them out */
+  onRejected: (ids: string[]) => void
+}
+
+function pluralize(count: number): string {
+  return `${count} ${count === 1 ? 'transaction' : 'transactions'}`
+}
+
+export function BulkEditBar({ selected, categories, onClear, onRejected }: BulkEditBarProps) {
+  const [loading, setLoading] = useState(false)
+  const [days, setDays] = useState('')
+
+  const totalCents = selected.reduce(
+    (sum, t) => sum + (t.amount_cents ?? dollarsToCents(t.amount)),
+    0
+  )
+
+  const run = async (change: BulkTransactionEditInput['change'], success: string) => {
+    setLoading(true)
+    try {
+      const result: BulkEditResult = await bulkEditTransactions({
+        items: selected.map((t) => ({
+          id: t.id,
+          expectedUpdatedAt: t.updated_at ?? t.created_at ?? '',
+        })),
+        change,
+      })
+
+      if (result.success) {
+        toast.success(success)
+        onClear()
+        return
+      }
+
+      onRejected([...result.conflicts, ...result.locked])
+      if (result.conflicts.length > 0) {
+        toast.error(
+          `${pluralize(result.conflicts.length)} changed by someone else. Nothing was saved; refresh and try again.`
+        )
+      } else {
+        toast.error(`${pluralize(result.locked.length)} reconciled. Unlock them first; nothing was saved.`)
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleShift = () => {
+    const shift = parseInt(days, 10)
+    if (!Number.isInteger(shift) || shift === 0) {
+      toast.error('Enter a number of days, e.g. -1 or 3')
+      return
+    }
+    const unit = Math.abs(shift) === 1 ? 'day' : 'days'
+    run({ action: 'shift_date', days: shift }, `Moved ${pluralize(selected.length)} by ${shift} ${unit}`)
+  }
+
+  return (
+    <Card className="sticky top-2 z-10 mb-2">
+      <CardContent className="py-3 px-4 space-y-2">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="font-medium">
+            {selected.length} selected · {formatMoney(totalCents)}
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={loading}>
+            Clear
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value=""
+            onValueChange={(categoryId) => run(
+              { action: 'recategorize', categoryId },
+              `Recategorized ${pluralize(selected.length)}`
+            )}
+            disabled={loading}
+          >
+            <SelectTrigger className="w-44 h-8" aria-label="Recategorize">
+              <SelectValue placeholder="Recategorize…" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((cat) => (
+                <SelectItem key={cat.id} value={cat.id}>
+                  {cat.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value=""
+            onValueChange={(type) => run(
+              { action: 'set_type', type: type as 'income' | 'expense' },
+              `Changed ${pluralize(selected.length)} to ${type}`
+            )}
+            disabled={loading}
+          >
+            <SelectTrigger className="w-32 h-8" aria-label="Change type">
+              <SelectValue placeholder="Set type…" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="expense">Expense</SelectItem>
+              <SelectItem value="income">Income</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              step="1"
+              className="w-20 h-8"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              placeholder="± days"
+              aria-label="Days to shift by"
+            />
+            <Button variant="outline" size="sm" onClick={handleShift} disabled={loading || days === ''}>
+              Shift dates
+            </Button>
+          </div>
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="text-destructive" disabled={loading}>
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {pluralize(selected.length)}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This will move {pluralize(selected.length)} totaling{' '}
+                  {formatMoney(totalCents)} to the trash, where they can be restored for {TRASH_RETENTION_DAYS} days.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => run({ action: 'delete' }, `Moved ${pluralize(selected.length)} to the trash`)}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { setCategoryArchived } from '@/lib/actions/categories'
+
+interface CategoryArchiveButtonProps {
+  categoryId: string
+  categoryName: string
+  archived: boolean
+}
+
+export function CategoryArchiveButton({ categoryId, categoryName, archived }: CategoryArchiveButtonProps) {
+  const router = useRouter()
+  const [saving, setSaving] = useState(false)
+
+  const handleClick = async () => {
+    setSaving(true)
+    try {
+      await setCategoryArchived(categoryId, !archived)
+      toast.success(archived ? `"${categoryName}" unarchived` : `"${categoryName}" archived`)
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update category')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Button variant="ghost" size="sm" disabled={saving} onClick={handleClick}>
+      {archived ? 'Unarchive' : 'Archive'}
+    </Button>
+  )
+}
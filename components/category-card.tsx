@@ -17,21 +17,28 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
 import { CategoryForm } from './category-form'
+import { RolloverHistory } from './rollover-history'
 import { deleteCategory } from '@/lib/actions/categories'
 import { Category, MonthlyBudget } from '@/lib/types'
+import { TRASH_RETENTION_DAYS } from '@/lib/utils/trash'
+import type { RolloverEntry } from '@/lib/utils/rollover'
 
 interface CategoryCardProps {
   category: Category
   budget?: MonthlyBudget
   spent: number
+  /** Ledger from getCategoryRollovers, ending with this month */
+  rolloverHistory?: RolloverEntry[]
 }
 
-export function CategoryCard({ category, budget, spent }: CategoryCardProps) {
+export function CategoryCard({ category, budget, spent, rolloverHistory }: CategoryCardProps) {
   const [deleting, setDeleting] = useState(false)
 
   const budgeted = budget?.budgeted_amount ?? 0
-  const remaining = budgeted - spent
-  const percentUsed = budgeted > 0 ? Math.min((spent / budgeted) * 100, 100) : 0
+  const carryover = (rolloverHistory?.[rolloverHistory.length - 1]?.carryoverCents ?? 0) / 100
+  const available = budgeted + carryover
+  const remaining = available - spent
+  const percentUsed = available > 0 ? Math.min((spent / available) * 100, 100) : 0
 
   const getProgressColor = () => {
     if (percentUsed >= 100) return '#ef4444'
@@ -43,7 +50,7 @@ export function CategoryCard({ category, budget, spent }: CategoryCardProps) {
     setDeleting(true)
     try {
       await deleteCategory(category.id)
-      toast.success(`Category "${category.name}" deleted`)
+      toast.success(`Category "${category.name}" moved to the trash`)
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to delete'
       toast.error(message)
@@ -90,8 +97,8 @@ export function CategoryCard({ category, budget, spent }: CategoryCardProps) {
                     Delete &quot;{category.name}&quot;?
                   </AlertDialogTitle>
                   <AlertDialogDescription>
-                    Any transactions using this category will become uncategorized.
-                    This action cannot be undone.
+                    It moves to the trash for {TRASH_RETENTION_DAYS} days, where it can be restored.
+                    After that, transactions using it become uncategorized.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -114,6 +121,22 @@ export function CategoryCard({ category, budget, spent }: CategoryCardProps) {
             <span>${spent.toFixed(2)} spent</span>
             <span>${budgeted.toFixed(2)} budgeted</span>
           </div>
+          {rolloverHistory && carryover !== 0 && (
+            <RolloverHistory
+              categoryName={category.name}
+              history={rolloverHistory}
+              trigger={
+                <button
+                  type="button"
+                  className={`text-sm hover:underline ${carryover < 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+                >
+                  {carryover > 0
+                    ? `+$${carryover.toFixed(2)} rolled over`
+                    : `-$${Math.abs(carryover).toFixed(2)} overspent last month`}
+                </button>
+              }
+            />
+          )}
           <Progress value={percentUsed} className="h-2" style={{ ['--progress-color' as string]: getProgressColor() }} />
           <p className={`text-sm ${remaining < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
             ${Math.abs(remaining).toFixed(2)} {remaining < 0 ? 'over budget' : 'remaining'}
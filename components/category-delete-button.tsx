@@ -15,6 +15,7 @@ import {
     AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
 import { deleteCategory } from '@/lib/actions/categories'
+import { TRASH_RETENTION_DAYS } from '@/lib/utils/trash'
 
 interface CategoryDeleteButtonProps {
     categoryId: string
@@ -27,10 +28,8 @@ export function CategoryDeleteButton({ categoryId, categoryName }: CategoryDelet
     const handleDelete = async () => {
         setDeleting(true)
         try {
-            const result = await deleteCategory(categoryId)
-            const count = result?.affectedTransactions ?? 0
-            const suffix = count === 1 ? '1 transaction moved' : `${count} transactions moved`
-            toast.success(`Category "${categoryName}" deleted. ${suffix} to Uncategorized.`)
+            await deleteCategory(categoryId)
+            toast.success(`Category "${categoryName}" moved to the trash`)
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Failed to delete category'
             toast.error(message)
@@ -56,8 +55,8 @@ export function CategoryDeleteButton({ categoryId, categoryName }: CategoryDelet
                         Delete &quot;{categoryName}&quot;?
                     </AlertDialogTitle>
                     <AlertDialogDescription>
-                        Any transactions using this category will become uncategorized.
-                        This action cannot be undone.
+                        It moves to the trash for {TRASH_RETENTION_DAYS} days, where it can be restored.
+                        After that, transactions using it become uncategorized.
                     </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -12,7 +12,15 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { createCategory, updateCategory } from '@/lib/actions/categories'
+import { ROLLOVER_POLICIES, ROLLOVER_POLICY_LABELS, type RolloverPolicy } from '@/lib/utils/rollover'
 
 const COLORS = [
   '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6',
@@ -20,18 +28,39 @@ const COLORS = [
 ]
 
 interface CategoryFormProps {
-  category?: { id: string; name: string; color: string }
+  category?: {
+    id: string
+    name: string
+    color: string
+    rollover_policy?: string
+    rollover_cap_cents?: number | null
+    parent_id?: string | null
+  }
+  /** Groups it can go inside; the group picker is hidden without them */
+  groups?: { id: string; name: string }[]
   trigger: React.ReactNode
   onSuccess?: () => void
 }
 
-export function CategoryForm({ category, trigger, onSuccess }: CategoryFormProps) {
+// Select value for "not in a group"
+const NO_GROUP = 'none'
+
+export function CategoryForm({ category, groups, trigger, onSuccess }: CategoryFormProps) {
   const [open, setOpen] = useState(false)
   const [name, setName] = useState(category?.name ?? '')
   const [color, setColor] = useState(category?.color ?? COLORS[0])
+  const [rolloverPolicy, setRolloverPolicy] = useState<RolloverPolicy>(
+    (category?.rollover_policy as RolloverPolicy) ?? 'reset'
+  )
+  const [rolloverCap, setRolloverCap] = useState(
+    category?.rollover_cap_cents != null ? (category.rollover_cap_cents / 100).toString() : ''
+  )
+  const [parentId, setParentId] = useState(category?.parent_id ?? NO_GROUP)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
+  const groupOptions = groups?.filter((group) => group.id !== category?.id)
+
   const isEditing = !!category
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -43,17 +72,31 @@ export function CategoryForm({ category, trigger, onSuccess }: CategoryFormProps
       return
     }
 
+    const capAmount = rolloverPolicy === 'cap' ? parseFloat(rolloverCap) : null
+    if (capAmount !== null && (isNaN(capAmount) || capAmount < 0)) {
+      setError('Enter a rollover limit of zero or more')
+      return
+    }
+
     setLoading(true)
 
     try {
+      const rollover = { policy: rolloverPolicy, capAmount }
+      // Left alone when there was no group picker
+      const parent = groupOptions ? (parentId === NO_GROUP ? null : parentId) : undefined
       if (isEditing) {
-        await updateCategory(category.id, name.trim(), color)
+        await updateCategory(category.id, name.trim(), color, rollover, parent)
       } else {
-        await createCategory(name.trim(), color)
+        await createCategory(name.trim(), color, rollover, parent)
       }
       setOpen(false)
       setName('')
       setColor(COLORS[0])
+      if (!isEditing) {
+        setRolloverPolicy('reset')
+        setRolloverCap('')
+        setParentId(NO_GROUP)
+      }
       toast.success(isEditing ? 'Category updated' : 'Category created')
       onSuccess?.()
     } catch (err) {
@@ -105,6 +148,58 @@ export function CategoryForm({ category, trigger, onSuccess }: CategoryFormProps
             </div>
           </div>
 
+          {groupOptions && (
+            <div className="space-y-2">
+              <Label>Group</Label>
+              <Select value={parentId} onValueChange={setParentId}>
+                <SelectTrigger aria-label="Group">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_GROUP}>None (top level)</SelectItem>
+                  {groupOptions.map((group) => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>At month end</Label>
+            <Select
+              value={rolloverPolicy}
+              onValueChange={(value) => setRolloverPolicy(value as RolloverPolicy)}
+            >
+              <SelectTrigger aria-label="Rollover policy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLLOVER_POLICIES.map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {ROLLOVER_POLICY_LABELS[policy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {rolloverPolicy === 'cap' && (
+              <div className="flex items-center gap-1">
+                <span className="text-muted-foreground">$</span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={rolloverCap}
+                  onChange={(e) => setRolloverCap(e.target.value)}
+                  placeholder="Most to carry forward"
+                  aria-label="Rollover limit"
+                />
+              </div>
+            )}
+          </div>
+
           <Button type="submit" className="w-full" disabled={loading}>
             {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Category'}
           </Button>
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, fireEvent, screen, waitFor } from '@testing-library/react'
+import { Step1ColumnMapping } from '../step1-column-mapping'
+
+vi.mock('@/lib/actions/csv-import', () => ({
+  saveColumnMapping: vi.fn(),
+}))
+
+vi.mock('sonner', () => ({
+  toast: { error: vi.fn() },
+}))
+
+describe('Step1ColumnMapping', () => {
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const rows = [
+    ['Txn Date', 'Payee', 'Amount', 'Notes'],
+    ['01/15/2024', 'COFFEE SHOP', '-4.50', 'latte'],
+  ]
+
+  it('previews the first rows of the file', () => {
+    render(<Step1ColumnMapping rows={rows} onComplete={vi.fn()} onBack={vi.fn()} />)
+
+    expect(screen.getByText('COFFEE SHOP')).toBeTruthy()
+    expect(screen.getByText('latte')).toBeTruthy()
+  })
+
+  it('parses with the guessed mapping and saves it for the header layout', async () => {
+    const { saveColumnMapping } = await import('@/lib/actions/csv-import')
+    const onComplete = vi.fn()
+
+    render(<Step1ColumnMapping rows={rows} onComplete={onComplete} onBack={vi.fn()} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /continue to review/i }))
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled())
+
+    expect(saveColumnMapping).toHaveBeenCalledWith(
+      'headers:txn date|payee|amount|notes',
+      expect.objectContaining({
+        dateColumn: 'Txn Date',
+        amountColumn: 'Amount',
+        descriptionColumn: 'Payee',
+        memoColumn: 'Notes',
+        dateFormat: 'MM/DD/YYYY',
+      })
+    )
+    expect(onComplete.mock.calls[0][0].transactions[0]).toEqual({
+      date: '2024-01-15',
+      amount: -4.5,
+      description: 'COFFEE SHOP',
+      memo: 'latte',
+      rowNumber: 2,
+    })
+  })
+})
@@ -11,6 +11,7 @@ describe('Step3Duplicates', () => {
         description: 'A',
         categoryId: 'c1',
         matchType: 'none',
+        kind: 'expense',
         rowNumber: 2,
       },
       {
@@ -19,6 +20,7 @@ describe('Step3Duplicates', () => {
         description: 'B',
         categoryId: 'c1',
         matchType: 'none',
+        kind: 'expense',
         rowNumber: 3,
       },
       {
@@ -27,6 +29,7 @@ describe('Step3Duplicates', () => {
         description: 'C',
         categoryId: 'c1',
         matchType: 'none',
+        kind: 'expense',
         rowNumber: 4,
       },
     ]
@@ -75,4 +78,61 @@ describe('Step3Duplicates', () => {
     expect(passed).toHaveLength(1)
     expect(passed[0].description).toBe('C')
   })
+
+  it('skips rows that were already imported without asking', async () => {
+    const transactions = [
+      {
+        date: '2024-01-01',
+        amount: -10,
+        description: 'A',
+        categoryId: 'c1',
+        matchType: 'none',
+        kind: 'expense',
+        sourceFingerprint: 'ext:1',
+        rowNumber: 1,
+      },
+      {
+        date: '2024-01-02',
+        amount: -20,
+        description: 'B',
+        categoryId: 'c1',
+        matchType: 'none',
+        kind: 'expense',
+        sourceFingerprint: 'ext:2',
+        rowNumber: 2,
+      },
+    ]
+    const existing = [
+      {
+        id: 'e1',
+        household_id: 'h',
+        category_id: 'c1',
+        amount: 10,
+        amount_cents: 1000,
+        description: 'A',
+        date: '2024-01-01',
+        created_at: null,
+        type: 'expense',
+        source_fingerprint: 'ext:1',
+      },
+    ]
+    const onComplete = vi.fn()
+
+    render(
+      <Step3Duplicates
+        transactions={transactions}
+        existingTransactions={existing}
+        onComplete={onComplete}
+        onBack={vi.fn()}
+      />
+    )
+
+    await waitFor(() => {
+      expect(onComplete).toHaveBeenCalledTimes(1)
+    })
+
+    const passed = onComplete.mock.calls[0][0]
+    expect(passed).toHaveLength(1)
+    expect(passed[0].description).toBe('B')
+  })
 })
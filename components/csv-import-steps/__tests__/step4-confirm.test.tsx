@@ -33,11 +33,13 @@ describe('Step4Confirm', () => {
             description: 'A',
             categoryId: 'c1',
             matchType: 'keyword',
+            kind: 'expense',
+            sourceFingerprint: 'hash:00000000',
             rowNumber: 2,
           },
         ]}
         categories={[
-          { id: 'c1', name: 'Cat', color: '#000', household_id: 'h', created_at: '' },
+          { id: 'c1', name: 'Cat', color: '#000', household_id: 'h', created_at: '', rollover_policy: 'reset', rollover_cap_cents: null, updated_by: null, deleted_at: null, archived_at: null, parent_id: null, sort_order: 0 },
         ]}
         onComplete={vi.fn()}
         onBack={vi.fn()}
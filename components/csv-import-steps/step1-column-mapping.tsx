@@ -0,0 +1,342 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Alert } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { saveColumnMapping } from '@/lib/actions/csv-import'
+import {
+  DATE_FORMATS,
+  getHeaderSignature,
+  getPositionalColumnName,
+  inferDateFormat,
+  findColumnIndex,
+  type ColumnMapping,
+  type DateFormat,
+  type SignConvention,
+} from '@/lib/utils/bank-formats'
+import { CUSTOM_MAPPING_FORMAT, parseCSVRows, type ParseResult } from '@/lib/utils/csv-parser'
+
+const NONE = '__none__'
+const PREVIEW_ROWS = 5
+
+interface Step1ColumnMappingProps {
+  rows: string[][]
+  onComplete: (result: ParseResult) => void
+  onBack: () => void
+}
+
+function getColumnNames(rows: string[][], hasHeader: boolean): string[] {
+  const firstRow = rows[0] ?? []
+  return hasHeader
+    ? firstRow.map((header) => header.trim())
+    : firstRow.map((_, index) => getPositionalColumnName(index))
+}
+
+function guessColumn(columns: string[], pattern: RegExp): string {
+  return columns.find((column) => column && pattern.test(column)) ?? NONE
+}
+
+function inferFormatForColumn(rows: string[][], hasHeader: boolean, column: string): DateFormat {
+  const columns = getColumnNames(rows, hasHeader)
+  const index = findColumnIndex(columns, column)
+  if (index === -1) return 'YYYY-MM-DD'
+
+  const dataRows = hasHeader ? rows.slice(1) : rows
+  return inferDateFormat(dataRows.slice(0, 20).map((row) => row[index] ?? '')) ?? 'YYYY-MM-DD'
+}
+
+export function Step1ColumnMapping({ rows, onComplete, onBack }: Step1ColumnMappingProps) {
+  const initialColumns = getColumnNames(rows, true)
+  const initialDateColumn = guessColumn(initialColumns, /^(?!.*post).*date/i)
+
+  const [hasHeader, setHasHeader] = useState(true)
+  const [dateColumn, setDateColumn] = useState(initialDateColumn)
+  const [postedDateColumn, setPostedDateColumn] = useState(guessColumn(initialColumns, /post(ed|ing)? date/i))
+  const [descriptionColumn, setDescriptionColumn] = useState(
+    guessColumn(initialColumns, /description|payee|merchant|name/i)
+  )
+  const [amountMode, setAmountMode] = useState<'single' | 'split'>(
+    guessColumn(initialColumns, /debit|withdrawal/i) !== NONE ? 'split' : 'single'
+  )
+  const [amountColumn, setAmountColumn] = useState(guessColumn(initialColumns, /amount/i))
+  const [debitColumn, setDebitColumn] = useState(guessColumn(initialColumns, /debit|withdrawal/i))
+  const [creditColumn, setCreditColumn] = useState(guessColumn(initialColumns, /credit|deposit/i))
+  const [memoColumn, setMemoColumn] = useState(guessColumn(initialColumns, /memo|note/i))
+  const [dateFormat, setDateFormat] = useState<DateFormat>(
+    initialDateColumn !== NONE ? inferFormatForColumn(rows, true, initialDateColumn) : 'YYYY-MM-DD'
+  )
+  const [signConvention, setSignConvention] = useState<SignConvention>('negative-is-debit')
+  const [remember, setRemember] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const columns = useMemo(() => getColumnNames(rows, hasHeader), [rows, hasHeader])
+  const previewRows = useMemo(
+    () => (hasHeader ? rows.slice(1) : rows).slice(0, PREVIEW_ROWS),
+    [rows, hasHeader]
+  )
+
+  const handleHeaderToggle = (checked: boolean) => {
+    // Column names change when the header row is toggled, so start over
+    setHasHeader(checked)
+    setDateColumn(NONE)
+    setPostedDateColumn(NONE)
+    setDescriptionColumn(NONE)
+    setAmountColumn(NONE)
+    setDebitColumn(NONE)
+    setCreditColumn(NONE)
+    setMemoColumn(NONE)
+  }
+
+  const handleDateColumnChange = (column: string) => {
+    setDateColumn(column)
+    if (column !== NONE) {
+      setDateFormat(inferFormatForColumn(rows, hasHeader, column))
+    }
+  }
+
+  const buildMapping = (): ColumnMapping | null => {
+    if (dateColumn === NONE || descriptionColumn === NONE) {
+      setError('Choose a date column and a description column')
+      return null
+    }
+    if (amountMode === 'single' && amountColumn === NONE) {
+      setError('Choose an amount column')
+      return null
+    }
+    if (amountMode === 'split' && debitColumn === NONE && creditColumn === NONE) {
+      setError('Choose a debit column, a credit column, or both')
+      return null
+    }
+
+    return {
+      hasHeader,
+      dateColumn,
+      descriptionColumn,
+      dateFormat,
+      signConvention,
+      ...(amountMode === 'single'
+        ? { amountColumn }
+        : {
+            ...(debitColumn !== NONE && { debitColumn }),
+            ...(creditColumn !== NONE && { creditColumn }),
+          }),
+      ...(postedDateColumn !== NONE && { postedDateColumn }),
+      ...(memoColumn !== NONE && { memoColumn }),
+    }
+  }
+
+  const handleContinue = async () => {
+    setError(null)
+    const mapping = buildMapping()
+    if (!mapping) return
+
+    let result: ParseResult
+    try {
+      result = parseCSVRows(rows, mapping)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to parse CSV')
+      return
+    }
+
+    if (result.transactions.length === 0) {
+      const firstError = result.errors[0]
+      setError(
+        firstError
+          ? `No valid transactions found with this mapping. Row ${firstError.rowNumber}: ${firstError.message}`
+          : 'No valid transactions found with this mapping'
+      )
+      return
+    }
+
+    if (remember) {
+      setSaving(true)
+      try {
+        await saveColumnMapping(getHeaderSignature(rows, hasHeader), mapping)
+      } catch {
+        // Saving is a convenience; the import can still continue
+        toast.error('Could not save this column mapping')
+      } finally {
+        setSaving(false)
+      }
+    }
+
+    onComplete({ ...result, format: CUSTOM_MAPPING_FORMAT })
+  }
+
+  const renderColumnSelect = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    optional = false
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="w-full">
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>{optional ? 'None' : 'Select column'}</SelectItem>
+          {columns.map((column, index) =>
+            column ? (
+              <SelectItem key={`${column}-${index}`} value={column}>
+                {column}
+              </SelectItem>
+            ) : null
+          )}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2">Map Columns</h2>
+        <p className="text-muted-foreground">
+          This file&apos;s layout wasn&apos;t recognized. Tell us which columns hold each field.
+        </p>
+      </div>
+
+      {/* Preview */}
+      <div className="border border-border rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-foreground">
+            <thead className="bg-muted">
+              <tr>
+                {columns.map((column, index) => (
+                  <th key={index} className="p-2 text-left text-sm font-semibold whitespace-nowrap">
+                    {column || getPositionalColumnName(index)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-border">
+                  {columns.map((_, index) => (
+                    <td key={index} className="p-2 text-sm whitespace-nowrap">
+                      {row[index]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="has-header"
+          checked={hasHeader}
+          onCheckedChange={(checked) => handleHeaderToggle(checked === true)}
+        />
+        <Label htmlFor="has-header">First row contains column names</Label>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {renderColumnSelect('map-date', 'Date', dateColumn, handleDateColumnChange)}
+        {renderColumnSelect('map-description', 'Description', descriptionColumn, setDescriptionColumn)}
+
+        <div className="space-y-2">
+          <Label htmlFor="map-amount-mode">Amounts</Label>
+          <Select
+            value={amountMode}
+            onValueChange={(value) => setAmountMode(value as 'single' | 'split')}
+          >
+            <SelectTrigger id="map-amount-mode" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="single">One amount column</SelectItem>
+              <SelectItem value="split">Separate debit and credit columns</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {amountMode === 'single' ? (
+          <>
+            {renderColumnSelect('map-amount', 'Amount', amountColumn, setAmountColumn)}
+            <div className="space-y-2">
+              <Label htmlFor="map-sign">Sign convention</Label>
+              <Select
+                value={signConvention}
+                onValueChange={(value) => setSignConvention(value as SignConvention)}
+              >
+                <SelectTrigger id="map-sign" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="negative-is-debit">Negative amounts are spending</SelectItem>
+                  <SelectItem value="positive-is-debit">Positive amounts are spending</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        ) : (
+          <>
+            {renderColumnSelect('map-debit', 'Debit (money out)', debitColumn, setDebitColumn, true)}
+            {renderColumnSelect('map-credit', 'Credit (money in)', creditColumn, setCreditColumn, true)}
+          </>
+        )}
+
+        {renderColumnSelect('map-memo', 'Memo (optional)', memoColumn, setMemoColumn, true)}
+        {renderColumnSelect('map-posted-date', 'Posted date (optional)', postedDateColumn, setPostedDateColumn, true)}
+
+        <div className="space-y-2">
+          <Label htmlFor="map-date-format">Date format</Label>
+          <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+            <SelectTrigger id="map-date-format" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>
+                  {format}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="remember-mapping"
+          checked={remember}
+          onCheckedChange={(checked) => setRemember(checked === true)}
+        />
+        <Label htmlFor="remember-mapping">Remember this mapping for files with the same columns</Label>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+
+      {/* Navigation */}
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={onBack}>
+          Back
+        </Button>
+        <Button onClick={handleContinue} disabled={saving}>
+          {saving ? 'Saving mapping...' : 'Continue to review'}
+        </Button>
+      </div>
+    </div>
+  )
+}
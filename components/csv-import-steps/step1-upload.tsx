@@ -4,21 +4,59 @@ import { useState, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Alert } from '@/components/ui/alert'
-import { parseAllyBankCSV, validateCSVFile, type ParseResult } from '@/lib/utils/csv-parser'
+import {
+  STATEMENT_FILE_ACCEPT,
+  getStatementFileType,
+  parseCSVRows,
+  readCSVRows,
+  resolveCSVMapping,
+  validateStatementFile,
+  type ParseResult,
+} from '@/lib/utils/csv-parser'
+import { parseOFX } from '@/lib/utils/ofx-parser'
+import { parseQIF } from '@/lib/utils/qif-parser'
+import { BANK_FORMAT_PROFILES, type SavedColumnMapping } from '@/lib/utils/bank-formats'
 
 interface Step1UploadProps {
-  onComplete: (result: ParseResult) => void
+  savedMappings: SavedColumnMapping[]
+  onComplete: (result: ParseResult, fileName: string) => void
+  /** Called with the raw rows when the file's layout is not recognized */
+  onNeedsMapping: (rows: string[][], fileName: string) => void
 }
 
-export function Step1Upload({ onComplete }: Step1UploadProps) {
+export function Step1Upload({ savedMappings, onComplete, onNeedsMapping }: Step1UploadProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [file, setFile] = useState<File | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [parsing, setParsing] = useState(false)
 
+  // Returns null when the CSV layout needs to be mapped by hand
+  const parseContent = useCallback((fileName: string, content: string): ParseResult | null => {
+    const fileType = getStatementFileType(fileName)
+    if (fileType === 'ofx') return parseOFX(content)
+    if (fileType === 'qif') return parseQIF(content)
+
+    const rows = readCSVRows(content)
+    if (rows.length === 0) {
+      throw new Error('CSV file is empty')
+    }
+
+    // Detect which bank exported it, falling back to a saved mapping
+    const resolved = resolveCSVMapping(rows, savedMappings)
+    if (!resolved) {
+      onNeedsMapping(rows, fileName)
+      return null
+    }
+
+    return {
+      ...parseCSVRows(rows, resolved.mapping),
+      format: resolved.format,
+    }
+  }, [onNeedsMapping, savedMappings])
+
   const processFile = useCallback(async (selectedFile: File) => {
     // Validate file
-    const validation = validateCSVFile(selectedFile)
+    const validation = validateStatementFile(selectedFile)
     if (!validation.valid) {
       setError(validation.error || 'Invalid file')
       setFile(null)
@@ -32,23 +70,26 @@ export function Step1Upload({ onComplete }: Step1UploadProps) {
       // Read file content
       const content = await selectedFile.text()
 
-      // Parse CSV
-      const result = parseAllyBankCSV(content)
+      const result = parseContent(selectedFile.name, content)
+      if (!result) {
+        setParsing(false)
+        return
+      }
 
       // Check if any transactions were parsed
       if (result.transactions.length === 0) {
-        setError('No valid transactions found in CSV')
+        setError('No valid transactions found in file')
         setParsing(false)
         return
       }
 
       // Pass to next step
-      onComplete(result)
+      onComplete(result, selectedFile.name)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse CSV')
+      setError(err instanceof Error ? err.message : 'Failed to parse file')
       setParsing(false)
     }
-  }, [onComplete])
+  }, [onComplete, parseContent])
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -82,9 +123,9 @@ export function Step1Upload({ onComplete }: Step1UploadProps) {
   return (
     <div className="space-y-6">
       <div>
-        <h2 className="text-2xl font-semibold mb-2">Upload CSV File</h2>
+        <h2 className="text-2xl font-semibold mb-2">Upload Statement File</h2>
         <p className="text-muted-foreground">
-          Import transactions from your Ally Bank CSV export
+          Import transactions from your bank&apos;s CSV, OFX/QFX or QIF export
         </p>
       </div>
 
@@ -124,7 +165,7 @@ export function Step1Upload({ onComplete }: Step1UploadProps) {
                 id="file-upload"
                 name="file-upload"
                 type="file"
-                accept=".csv"
+                accept={STATEMENT_FILE_ACCEPT}
                 className="sr-only"
                 onChange={handleFileInput}
                 disabled={parsing}
@@ -134,7 +175,7 @@ export function Step1Upload({ onComplete }: Step1UploadProps) {
           </div>
 
           <p className="text-xs text-muted-foreground">
-            CSV file up to 5MB
+            CSV, OFX, QFX or QIF file up to 5MB
           </p>
 
           {file && !parsing && !error && (
@@ -145,7 +186,7 @@ export function Step1Upload({ onComplete }: Step1UploadProps) {
 
           {parsing && (
             <div className="mt-4 text-sm text-primary">
-              Parsing CSV...
+              Parsing file...
             </div>
           )}
         </div>
@@ -158,13 +199,17 @@ export function Step1Upload({ onComplete }: Step1UploadProps) {
       )}
 
       <div className="space-y-2 text-sm text-muted-foreground">
-        <p className="font-medium">Expected CSV format:</p>
+        <p className="font-medium">Supported formats:</p>
         <ul className="list-disc list-inside space-y-1 ml-2">
-          <li>Columns: Date, Amount, Description (minimum required)</li>
-          <li>Date format: YYYY-MM-DD</li>
-          <li>Amount: positive numbers (debits will be converted to positive)</li>
-          <li>Description: transaction details (max 100 characters)</li>
+          <li>OFX/QFX and Quicken QIF statements from any bank</li>
+          {BANK_FORMAT_PROFILES.map((profile) => (
+            <li key={profile.id}>{profile.name} CSV</li>
+          ))}
         </ul>
+        <p>
+          CSV formats are detected automatically from the file&apos;s columns. Other layouts can be
+          mapped by hand, and the mapping is remembered for next time.
+        </p>
       </div>
     </div>
   )
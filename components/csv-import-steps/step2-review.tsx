@@ -15,11 +15,28 @@ import { InlineCategoryCreate } from '@/components/inline-category-create'
 import { matchCategory, type MatchType } from '@/lib/utils/category-matcher'
 import { suggestCategoryName } from '@/lib/utils/category-name-suggester'
 import type { ParsedTransaction } from '@/lib/utils/csv-parser'
-import type { Category, CategoryKeyword, MerchantPattern } from '@/lib/types'
+import { classifyImportedTransaction, type ImportKind } from '@/lib/utils/transaction-helpers'
+import { assignSourceFingerprints } from '@/lib/utils/fingerprint'
+import { applyRules } from '@/lib/utils/rule-engine'
+import type { CategorizationRule, Category, CategoryKeyword, MerchantAlias, MerchantPattern } from '@/lib/types'
 
 export type ReviewedTransaction = ParsedTransaction & {
   categoryId: string | null
   matchType: MatchType
+  kind: ImportKind
+  /** Stable ID for the statement row, used to skip re-imports */
+  sourceFingerprint: string
+}
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  expense: 'Expense',
+  income: 'Income',
+  refund: 'Refund',
+}
+
+/** Only regular expenses must have a category, matching createTransaction */
+function needsCategory(txn: ReviewedTransaction): boolean {
+  return txn.kind === 'expense' && !txn.categoryId
 }
 
 interface Step2ReviewProps {
@@ -27,6 +44,8 @@ interface Step2ReviewProps {
   categories: Category[]
   keywordsByCategory: Record<string, CategoryKeyword[]>
   merchantPatterns: MerchantPattern[]
+  merchantAliases: MerchantAlias[]
+  rules: CategorizationRule[]
   onComplete: (transactions: ReviewedTransaction[]) => void
   onBack: () => void
   onCategoryCreated: (category: Category) => void
@@ -37,6 +56,8 @@ export function Step2Review({
   categories,
   keywordsByCategory,
   merchantPatterns,
+  merchantAliases,
+  rules,
   onComplete,
   onBack,
   onCategoryCreated,
@@ -51,19 +72,35 @@ export function Step2Review({
 
   // Auto-match categories on mount (only when transactions change, not when categories update)
   useEffect(() => {
-    const matched = transactions.map((txn) => {
-      const match = matchCategory(
-        txn.description,
-        keywordsByCategory,
-        merchantPatterns
-      )
-      return {
-        ...txn,
-        categoryId: match.categoryId,
-        matchType: match.matchType,
-      }
+    let cancelled = false
+
+    assignSourceFingerprints(transactions).then((fingerprints) => {
+      if (cancelled) return
+      const matched = transactions.map((txn, index) => {
+        const kind = classifyImportedTransaction(txn)
+        // Rules run first; keywords and history only fill in a missing category
+        const ruleResult = applyRules(
+          { description: txn.description, amount: txn.amount, type: kind === 'income' ? 'income' : 'expense' },
+          rules
+        )
+        const match = ruleResult.categoryId
+          ? { categoryId: ruleResult.categoryId, matchType: 'rule' as MatchType }
+          : matchCategory(txn.description, keywordsByCategory, merchantPatterns, merchantAliases)
+        return {
+          ...txn,
+          description: ruleResult.renameTo ?? txn.description,
+          categoryId: match.categoryId,
+          matchType: match.matchType,
+          kind,
+          sourceFingerprint: fingerprints[index],
+        }
+      })
+      setReviewedTransactions(matched)
     })
-    setReviewedTransactions(matched)
+
+    return () => {
+      cancelled = true
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [transactions])
 
@@ -84,6 +121,12 @@ export function Step2Review({
     )
   }
 
+  const handleKindChange = (index: number, kind: ImportKind) => {
+    setReviewedTransactions((prev) =>
+      prev.map((txn, i) => (i === index ? { ...txn, kind } : txn))
+    )
+  }
+
   const handleCategoryCreated = (newCategory: Category) => {
     // Notify parent to update categories list
     onCategoryCreated(newCategory)
@@ -150,6 +193,8 @@ export function Step2Review({
 
   const getRowColor = (matchType: MatchType) => {
     switch (matchType) {
+      case 'rule':
+        return 'bg-purple-50 dark:bg-purple-950/20'
       case 'keyword':
         return 'bg-green-50 dark:bg-green-950/20'
       case 'historical':
@@ -182,7 +227,7 @@ export function Step2Review({
     return filtered
   }, [reviewedTransactions, filter, searchQuery])
 
-  const allCategorized = reviewedTransactions.every((txn) => txn.categoryId)
+  const allCategorized = reviewedTransactions.every((txn) => !needsCategory(txn))
   const hasSelections = selectedRows.size > 0
 
   // Generate suggested name for category creation
@@ -195,12 +240,16 @@ export function Step2Review({
       <div>
         <h2 className="text-2xl font-semibold mb-2">Review & Categorize</h2>
         <p className="text-muted-foreground">
-          {reviewedTransactions.length} transactions found. Assign categories before importing.
+          {reviewedTransactions.length} transactions found. Check each type and assign categories before importing.
         </p>
       </div>
 
       {/* Legend */}
       <div className="flex gap-4 text-sm">
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 rounded bg-purple-100 dark:bg-purple-950/40 border border-purple-200 dark:border-purple-800" />
+          <span className="text-muted-foreground">Rule match</span>
+        </div>
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 rounded bg-green-100 dark:bg-green-950/40 border border-green-200 dark:border-green-800" />
           <span className="text-muted-foreground">Keyword match</span>
@@ -317,6 +366,7 @@ export function Step2Review({
                 <th className="p-2 text-left text-sm font-semibold text-foreground">Date</th>
                 <th className="p-2 text-left text-sm font-semibold text-foreground">Description</th>
                 <th className="p-2 text-right text-sm font-semibold text-foreground">Amount</th>
+                <th className="p-2 text-left text-sm font-semibold text-foreground">Type</th>
                 <th className="p-2 text-left text-sm font-semibold text-foreground">Category</th>
               </tr>
             </thead>
@@ -335,9 +385,37 @@ export function Step2Review({
                     />
                   </td>
                   <td className="p-2 text-sm">{txn.date}</td>
-                  <td className="p-2 text-sm">{txn.description}</td>
-                  <td className="p-2 text-sm text-right">
-                    ${txn.amount.toFixed(2)}
+                  <td className="p-2 text-sm">
+                    {txn.description}
+                    {txn.memo && (
+                      <div className="text-xs text-muted-foreground">{txn.memo}</div>
+                    )}
+                  </td>
+                  <td
+                    className={`p-2 text-sm text-right ${
+                      txn.amount > 0 ? 'text-green-600 dark:text-green-400' : ''
+                    }`}
+                  >
+                    {txn.amount < 0 ? '-' : '+'}${Math.abs(txn.amount).toFixed(2)}
+                  </td>
+                  <td className="p-2">
+                    <Select
+                      value={txn.kind}
+                      onValueChange={(value) =>
+                        handleKindChange(index, value as ImportKind)
+                      }
+                    >
+                      <SelectTrigger className="w-28" aria-label={`Type for row ${txn.rowNumber}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(KIND_LABELS) as ImportKind[]).map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {KIND_LABELS[kind]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </td>
                   <td className="p-2">
                     <Select
@@ -347,7 +425,7 @@ export function Step2Review({
                       }
                     >
                       <SelectTrigger className="w-40">
-                        <SelectValue placeholder="Select..." />
+                        <SelectValue placeholder={txn.kind === 'expense' ? 'Select...' : 'Optional'} />
                       </SelectTrigger>
                       <SelectContent>
                         {categories.map((cat) => (
@@ -387,7 +465,7 @@ export function Step2Review({
         >
           {allCategorized
             ? 'Continue to duplicates check'
-            : 'All transactions must have a category'}
+            : 'All expenses must have a category'}
         </Button>
       </div>
 
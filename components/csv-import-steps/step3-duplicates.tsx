@@ -5,9 +5,13 @@ import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Checkbox } from '@/components/ui/checkbox'
 import { findDuplicates, type DuplicateMatch } from '@/lib/utils/duplicate-detector'
+import { toStoredTransaction } from '@/lib/utils/transaction-helpers'
 import type { Transaction } from '@/lib/types'
 import type { ReviewedTransaction } from './step2-review'
 
+/** Also flag likely duplicates posted this many days apart */
+export const DUPLICATE_DATE_WINDOW_DAYS = 3
+
 interface Step3DuplicatesProps {
   transactions: ReviewedTransaction[]
   existingTransactions: Transaction[]
@@ -25,21 +29,54 @@ export function Step3Duplicates({
   const [rememberChoice, setRememberChoice] = useState<'skip' | 'import' | null>(null)
   const [currentIndex, setCurrentIndex] = useState(0)
 
+  // Compare the amounts as they will be stored, not the statement's signs
+  const storedTransactions = useMemo(
+    () =>
+      transactions.map((txn) => ({
+        ...txn,
+        amount: toStoredTransaction(txn.amount, txn.kind).amount,
+      })),
+    [transactions]
+  )
+
+  const allDuplicates = useMemo(
+    () =>
+      findDuplicates(storedTransactions, existingTransactions, 80, {
+        dateWindowDays: DUPLICATE_DATE_WINDOW_DAYS,
+      }),
+    [storedTransactions, existingTransactions]
+  )
+
+  // Rows with a matching source fingerprint were already imported, so they
+  // are skipped without asking; only fuzzy matches need a decision
+  const alreadyImported = useMemo(
+    () =>
+      new Set(
+        allDuplicates
+          .filter((dup) => dup.matchType === 'fingerprint')
+          .map((dup) => dup.importIndex)
+      ),
+    [allDuplicates]
+  )
   const duplicates = useMemo(
-    () => findDuplicates(transactions, existingTransactions),
-    [transactions, existingTransactions]
+    () => allDuplicates.filter((dup) => dup.matchType !== 'fingerprint'),
+    [allDuplicates]
+  )
+  const newTransactions = useMemo(
+    () => transactions.filter((_, index) => !alreadyImported.has(index)),
+    [transactions, alreadyImported]
   )
 
-  // Auto-skip this step if no duplicates
+  // Auto-skip this step if no duplicates need review
   useEffect(() => {
     if (duplicates.length === 0) {
-      onComplete(transactions)
+      onComplete(newTransactions)
     }
-  }, [duplicates.length, onComplete, transactions])
+  }, [duplicates.length, onComplete, newTransactions])
 
   const currentDuplicate = duplicates[currentIndex]
   const currentTransaction = currentDuplicate
-    ? transactions[currentDuplicate.importIndex]
+    ? storedTransactions[currentDuplicate.importIndex]
     : null
 
   const handleDecision = (decision: 'skip' | 'import', remember: boolean) => {
@@ -91,9 +128,9 @@ export function Step3Duplicates({
         .map(([index]) => parseInt(index))
     )
 
-    // Filter out skipped transactions
+    // Filter out skipped and already-imported transactions
     const transactionsToImport = transactions.filter(
-      (_, index) => !skipIndices.has(index)
+      (_, index) => !skipIndices.has(index) && !alreadyImported.has(index)
     )
 
     onComplete(transactionsToImport)
@@ -114,6 +151,12 @@ export function Step3Duplicates({
         <p className="text-muted-foreground">
           Found {total} potential duplicate{total !== 1 ? 's' : ''}. Review each one.
         </p>
+        {alreadyImported.size > 0 && (
+          <p className="text-sm text-muted-foreground mt-1">
+            {alreadyImported.size} transaction{alreadyImported.size !== 1 ? 's were' : ' was'} already
+            imported from an earlier statement and will be skipped.
+          </p>
+        )}
       </div>
 
       {/* Progress */}
@@ -176,6 +219,12 @@ export function Step3Duplicates({
                   {currentDuplicate.similarity}%
                 </span>
               </div>
+              {currentDuplicate.matchType === 'date-window' && (
+                <div className="text-amber-600 dark:text-amber-400">
+                  Dates are {currentDuplicate.dayDifference} day
+                  {currentDuplicate.dayDifference !== 1 ? 's' : ''} apart (pending vs. posted?)
+                </div>
+              )}
             </div>
           </Card>
         </div>
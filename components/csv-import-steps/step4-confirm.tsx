@@ -7,14 +7,17 @@ import { Progress } from '@/components/ui/progress'
 import { Alert } from '@/components/ui/alert'
 import {
   bulkImportTransactions,
-  learnMerchantPattern,
   type BulkImportTransaction,
+  type ImportSource,
 } from '@/lib/actions/csv-import'
 import type { Category } from '@/lib/types'
+import { toStoredTransaction } from '@/lib/utils/transaction-helpers'
 import type { ReviewedTransaction } from './step2-review'
 
 interface Step4ConfirmProps {
   transactions: ReviewedTransaction[]
+  /** Recorded on the import batch so the import can be undone later */
+  source?: ImportSource
   categories: Category[]
   onComplete: () => void
   onBack: () => void
@@ -22,6 +25,7 @@ interface Step4ConfirmProps {
 
 export function Step4Confirm({
   transactions,
+  source,
   categories,
   onComplete,
   onBack,
@@ -33,6 +37,8 @@ export function Step4Confirm({
     imported: number
     failed: number
     errors: Array<{ index: number; message: string }>
+    skipped?: number
+    skippedIndexes?: number[]
   } | null>(null)
 
   const progressIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
@@ -63,6 +69,12 @@ export function Step4Confirm({
   const summary = useMemo(() => {
     const total = transactions.length
 
+    // Count by import kind
+    const byKind = { expense: 0, income: 0, refund: 0 }
+    transactions.forEach((txn) => {
+      byKind[txn.kind] += 1
+    })
+
     // Count by category
     const byCategory: Record<string, number> = {}
     transactions.forEach((txn) => {
@@ -87,22 +99,12 @@ export function Step4Confirm({
 
     return {
       total,
+      byKind,
       categoryBreakdown,
     }
   }, [transactions, categories])
 
   // Extract merchant name from description
-  const extractMerchantName = (description: string): string => {
-    // Remove common payment processors
-    const cleaned = description.replace(/^(PAYPAL \*|KLARNA\*|DD \*)/i, '')
-
-    // Take first part before common separators
-    const parts = cleaned.split(/[\s-]+/)
-
-    // Return first 1-2 words as merchant name
-    return parts.slice(0, 2).join(' ').trim().toLowerCase()
-  }
-
   const handleImport = async () => {
     setImporting(true)
     setProgress(0)
@@ -112,10 +114,11 @@ export function Step4Confirm({
     try {
       // Convert to import format
       const importData: BulkImportTransaction[] = transactions.map((txn) => ({
-        categoryId: txn.categoryId!,
-        amount: txn.amount,
+        categoryId: txn.categoryId,
+        ...toStoredTransaction(txn.amount, txn.kind),
         description: txn.description,
         date: txn.date,
+        sourceFingerprint: txn.sourceFingerprint,
       }))
 
       // Simulate progress during import
@@ -125,36 +128,17 @@ export function Step4Confirm({
       }, 200)
 
       // Import transactions
-      const importResult = await bulkImportTransactions(importData)
+      const importResult = await bulkImportTransactions(importData, source)
 
       if (!mountedRef.current) return
 
       clearProgressInterval()
-      setProgress(95)
-
-      // Learn patterns for manually categorized transactions
-      const manualTransactions = transactions.filter(
-        (txn) => txn.matchType === 'none' && txn.categoryId
-      )
-
-      for (const txn of manualTransactions) {
-        try {
-          const merchantName = extractMerchantName(txn.description)
-          if (merchantName) {
-            await learnMerchantPattern(merchantName, txn.categoryId!)
-          }
-        } catch (err) {
-          // Ignore individual pattern learning errors
-          console.error('Failed to learn pattern:', err)
-        }
-        if (!mountedRef.current) return
-      }
-
       setProgress(100)
       setResult(importResult)
 
-      // Auto-close on success after 1 second
-      if (importResult.success) {
+      // Auto-close on success after 1 second, unless there are skipped
+      // rows to look over
+      if (importResult.success && !importResult.skippedIndexes?.length) {
         autoCloseTimeoutRef.current = setTimeout(() => {
           if (mountedRef.current) {
             onComplete()
@@ -199,6 +183,11 @@ export function Step4Confirm({
           <div>
             <div className="text-sm text-muted-foreground">Total transactions</div>
             <div className="text-2xl font-bold">{summary.total}</div>
+            <div className="text-sm text-muted-foreground">
+              {summary.byKind.expense} expense{summary.byKind.expense !== 1 ? 's' : ''},{' '}
+              {summary.byKind.income} income, {summary.byKind.refund} refund
+              {summary.byKind.refund !== 1 ? 's' : ''}
+            </div>
           </div>
 
           <div>
@@ -227,9 +216,7 @@ export function Step4Confirm({
           <h3 className="font-semibold mb-4">Importing...</h3>
           <Progress value={progress} className="w-full" />
           <p className="text-sm text-muted-foreground mt-2">
-            {progress < 95
-              ? 'Importing transactions...'
-              : 'Learning merchant patterns...'}
+            Importing transactions...
           </p>
         </Card>
       )}
@@ -243,7 +230,24 @@ export function Step4Confirm({
                 <p className="font-semibold">Import successful!</p>
                 <p className="text-sm">
                   Imported {result.imported} transaction{result.imported !== 1 ? 's' : ''}.
+                  {!!result.skipped &&
+                    ` Skipped ${result.skipped} already imported.`}
                 </p>
+                {!!result.skippedIndexes?.length && (
+                  <ul className="mt-2 text-sm space-y-1">
+                    {result.skippedIndexes.slice(0, 5).map((index) => {
+                      const txn = transactions[index]
+                      return txn && (
+                        <li key={index}>
+                          {txn.date} · {txn.description} · ${Math.abs(txn.amount).toFixed(2)}
+                        </li>
+                      )
+                    })}
+                    {result.skippedIndexes.length > 5 && (
+                      <li>...and {result.skippedIndexes.length - 5} more</li>
+                    )}
+                  </ul>
+                )}
               </>
             ) : (
               <>
@@ -275,13 +279,13 @@ export function Step4Confirm({
           Back
         </Button>
         <Button
-          onClick={handleImport}
-          disabled={importing || result?.success}
+          onClick={result?.success ? onComplete : handleImport}
+          disabled={importing}
         >
           {importing
             ? 'Importing...'
             : result?.success
-            ? 'Import complete'
+            ? 'Done'
             : 'Confirm & Import'}
         </Button>
       </div>
@@ -7,12 +7,24 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Step1Upload } from '@/components/csv-import-steps/step1-upload'
+import { Step1ColumnMapping } from '@/components/csv-import-steps/step1-column-mapping'
 import { Step2Review, type ReviewedTransaction } from '@/components/csv-import-steps/step2-review'
-import { Step3Duplicates } from '@/components/csv-import-steps/step3-duplicates'
+import { Step3Duplicates, DUPLICATE_DATE_WINDOW_DAYS } from '@/components/csv-import-steps/step3-duplicates'
 import { Step4Confirm } from '@/components/csv-import-steps/step4-confirm'
+import { getTransactions } from '@/lib/actions/transactions'
+import { addDays } from '@/lib/utils/schedule'
 import type { ParseResult } from '@/lib/utils/csv-parser'
-import type { Category, CategoryKeyword, MerchantPattern, Transaction } from '@/lib/types'
+import type { SavedColumnMapping } from '@/lib/utils/bank-formats'
+import type { Account, CategorizationRule, Category, CategoryKeyword, MerchantAlias, MerchantPattern, Transaction } from '@/lib/types'
 
 interface CSVImportWizardProps {
   open: boolean
@@ -20,7 +32,11 @@ interface CSVImportWizardProps {
   categories: Category[]
   keywordsByCategory: Record<string, CategoryKeyword[]>
   merchantPatterns: MerchantPattern[]
-  existingTransactions: Transaction[]
+  merchantAliases: MerchantAlias[]
+  rules: CategorizationRule[]
+  savedMappings: SavedColumnMapping[]
+  /** Choosing an account is only offered when there's more than one */
+  accounts?: Account[]
 }
 
 export function CSVImportWizard({
@@ -29,12 +45,22 @@ export function CSVImportWizard({
   categories,
   keywordsByCategory,
   merchantPatterns,
-  existingTransactions,
+  merchantAliases,
+  rules,
+  savedMappings,
+  accounts = [],
 }: CSVImportWizardProps) {
-  const [step, setStep] = useState<1 | 2 | 3 | 4>(1)
+  const defaultAccountId = accounts.find((account) => account.is_default)?.id ?? ''
+  const [step, setStep] = useState<1 | 'mapping' | 2 | 3 | 4>(1)
+  const [mappingRows, setMappingRows] = useState<string[][]>([])
+  const [fileName, setFileName] = useState('')
   const [parseResult, setParseResult] = useState<ParseResult | null>(null)
   const [reviewedTransactions, setReviewedTransactions] = useState<ReviewedTransaction[]>([])
   const [transactionsToImport, setTransactionsToImport] = useState<ReviewedTransaction[]>([])
+  const [existingTransactions, setExistingTransactions] = useState<Transaction[]>([])
+  // Chosen before the duplicate check: a row is only already imported if
+  // it's in the same account
+  const [accountId, setAccountId] = useState(defaultAccountId)
 
   // Local mutable categories list (starts from props, can be updated during import)
   const [localCategories, setLocalCategories] = useState<Category[]>(categories)
@@ -44,13 +70,38 @@ export function CSVImportWizard({
     setLocalCategories(categories)
   }, [categories])
 
-  const handleStep1Complete = (result: ParseResult) => {
+  const handleStep1Complete = (result: ParseResult, uploadedFileName?: string) => {
+    if (uploadedFileName) setFileName(uploadedFileName)
     setParseResult(result)
     setStep(2)
   }
 
-  const handleStep2Complete = (transactions: ReviewedTransaction[]) => {
+  const handleNeedsMapping = (rows: string[][], uploadedFileName: string) => {
+    setFileName(uploadedFileName)
+    setMappingRows(rows)
+    setStep('mapping')
+  }
+
+  const handleStep2Complete = async (transactions: ReviewedTransaction[]) => {
     setReviewedTransactions(transactions)
+
+    // Only transactions around the statement's dates can be duplicates
+    const dates = transactions.map((txn) => txn.date).sort()
+    try {
+      setExistingTransactions(
+        dates.length > 0
+          ? await getTransactions({
+              accountId: accountId || undefined,
+              startDate: addDays(dates[0], -DUPLICATE_DATE_WINDOW_DAYS),
+              endDate: addDays(dates[dates.length - 1], DUPLICATE_DATE_WINDOW_DAYS),
+            })
+          : []
+      )
+    } catch (err) {
+      // The import itself still skips rows that were already imported
+      console.error('Failed to load transactions for duplicate check:', err)
+      setExistingTransactions([])
+    }
     setStep(3)
   }
 
@@ -71,9 +122,13 @@ export function CSVImportWizard({
   const handleClose = () => {
     // Reset state when closing
     setStep(1)
+    setMappingRows([])
+    setFileName('')
     setParseResult(null)
     setReviewedTransactions([])
     setTransactionsToImport([])
+    setExistingTransactions([])
+    setAccountId(defaultAccountId)
     setLocalCategories(categories) // Reset to original categories
     onOpenChange(false)
   }
@@ -82,20 +137,54 @@ export function CSVImportWizard({
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Import CSV</DialogTitle>
+          <DialogTitle>Import Transactions</DialogTitle>
         </DialogHeader>
 
         <div className="mt-4">
           {/* Step 1: Upload CSV file */}
-          {step === 1 && <Step1Upload onComplete={handleStep1Complete} />}
+          {step === 1 && (
+            <Step1Upload
+              savedMappings={savedMappings}
+              onComplete={handleStep1Complete}
+              onNeedsMapping={handleNeedsMapping}
+            />
+          )}
 
-          {/* Step 2: Review and categorize transactions */}
+          {/* Step 1b: Map columns for an unrecognized layout */}
+          {step === 'mapping' && (
+            <Step1ColumnMapping
+              rows={mappingRows}
+              onComplete={handleStep1Complete}
+              onBack={() => setStep(1)}
+            />
+          )}
+
+          {/* Step 2: Choose the account, then review and categorize transactions */}
+          {step === 2 && accounts.length > 1 && (
+            <div className="space-y-2 mb-6">
+              <Label>Import into account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           {step === 2 && parseResult && (
             <Step2Review
               transactions={parseResult.transactions}
               categories={localCategories}
               keywordsByCategory={keywordsByCategory}
               merchantPatterns={merchantPatterns}
+              merchantAliases={merchantAliases}
+              rules={rules}
               onComplete={handleStep2Complete}
               onBack={() => setStep(1)}
               onCategoryCreated={handleCategoryCreated}
@@ -116,6 +205,7 @@ export function CSVImportWizard({
           {step === 4 && (
             <Step4Confirm
               transactions={transactionsToImport}
+              source={{ fileName, format: parseResult?.format, accountId: accountId || undefined }}
               categories={localCategories}
               onComplete={handleStep4Complete}
               onBack={() => setStep(3)}
@@ -1,16 +1,26 @@
 import Link from 'next/link'
 import { getCategories } from '@/lib/actions/categories'
-import { getMonthlyBudgets, autoRolloverIfNeeded } from '@/lib/actions/budgets'
+import { getMonthlyBudgets, autoRolloverIfNeeded, getCategoryRollovers } from '@/lib/actions/budgets'
 import { getTransactionsByMonth } from '@/lib/actions/transactions'
+import { postDueScheduledTransactions, getUpcomingScheduledTransactions } from '@/lib/actions/scheduled-transactions'
+import { applyGoalBudgets, getSavingsGoals } from '@/lib/actions/goals'
+import { getAccounts } from '@/lib/actions/accounts'
+import { purgeExpiredTrash } from '@/lib/actions/trash'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { TransactionForm } from './transaction-form'
 import { RecentTransactions } from './recent-transactions'
 import { CategoryForm } from './category-form'
+import { RolloverHistory } from './rollover-history'
+import { UpcomingTransactions } from './upcoming-transactions'
+import { SavingsGoalsCard } from './savings-goals-card'
+import { AccountsCard } from './accounts-card'
 import { getCurrentMonth } from '@/lib/utils/date'
-import { isIncomeTransaction } from '@/lib/utils/transaction-helpers'
+import { getCategoryAllocations, isExpenseTransaction, isIncomeTransaction } from '@/lib/utils/transaction-helpers'
 import { formatMoney, dollarsToCents } from '@/lib/utils/money'
+import { buildCategoryGroups, rollUpToGroups } from '@/lib/utils/category-groups'
+import type { Category } from '@/lib/types'
 import { getHouseholdTimezone } from '@/lib/actions/settings'
 
 export async function Dashboard() {
@@ -20,12 +30,33 @@ export async function Dashboard() {
   // Auto-rollover budget from previous month if enabled and needed
   await autoRolloverIfNeeded(currentMonth)
 
-  const [categories, budgets, transactions] = await Promise.all([
+  // Budget this month's savings goal contributions
+  await applyGoalBudgets(currentMonth)
+
+  // Post scheduled transactions that fell due since the last visit
+  await postDueScheduledTransactions()
+
+  // Delete for good whatever has been in the trash too long
+  await purgeExpiredTrash()
+
+  const [categories, budgets, transactions, rollovers, upcoming, goals, accounts] = await Promise.all([
     getCategories(),
     getMonthlyBudgets(currentMonth),
     getTransactionsByMonth(currentMonth),
+    getCategoryRollovers(currentMonth),
+    getUpcomingScheduledTransactions(),
+    getSavingsGoals(),
+    getAccounts(),
   ])
 
+  // Carryover into this month per category - in CENTS
+  const carryoverByCategory = new Map(
+    Object.entries(rollovers).map(([categoryId, history]) => [
+      categoryId,
+      history[history.length - 1]?.carryoverCents ?? 0,
+    ])
+  )
+
   const budgetMap = new Map(budgets.map((b) => [
     b.category_id,
     b.budgeted_amount_cents ?? dollarsToCents(b.budgeted_amount)
@@ -33,24 +64,36 @@ export async function Dashboard() {
 
   // Separate income and expenses
   const incomeTransactions = transactions.filter(isIncomeTransaction)
-  const expenseTransactions = transactions.filter((t) => !isIncomeTransaction(t))
+  const expenseTransactions = transactions.filter(isExpenseTransaction)
 
-  // Calculate spent per category (expenses only) - in CENTS
+  // Calculate spent per category (expenses only, split lines by their own category) - in CENTS
   const spentByCategory = new Map<string, number>()
   expenseTransactions.forEach((t) => {
-    if (t.category_id) {
-      const amountCents = t.amount_cents ?? dollarsToCents(t.amount)
-      spentByCategory.set(
-        t.category_id,
-        (spentByCategory.get(t.category_id) ?? 0) + amountCents
-      )
-    }
+    getCategoryAllocations(t).forEach(({ categoryId, amountCents }) => {
+      if (categoryId) {
+        spentByCategory.set(
+          categoryId,
+          (spentByCategory.get(categoryId) ?? 0) + amountCents
+        )
+      }
+    })
   })
 
+  // Group totals include their subcategories - in CENTS
+  const groups = buildCategoryGroups(categories)
+  const groupBudgeted = rollUpToGroups(budgetMap, categories)
+  const groupCarryover = rollUpToGroups(carryoverByCategory, categories)
+  const groupSpent = rollUpToGroups(spentByCategory, categories)
+  const groupOptions = categories
+    .filter((category) => !category.parent_id)
+    .map((category) => ({ id: category.id, name: category.name }))
+
   // Calculate totals in CENTS
   const totalBudgetedCents = budgets.reduce((sum, b) =>
     sum + (b.budgeted_amount_cents ?? dollarsToCents(b.budgeted_amount)), 0
   )
+  const totalCarryoverCents = Array.from(carryoverByCategory.values()).reduce((sum, c) => sum + c, 0)
+  const totalAvailableCents = totalBudgetedCents + totalCarryoverCents
   const totalIncomeCents = incomeTransactions.reduce((sum, t) =>
     sum + (t.amount_cents ?? dollarsToCents(t.amount)), 0
   )
@@ -64,6 +107,80 @@ export async function Dashboard() {
     year: 'numeric',
   })
 
+  const getPercentUsed = (availableCents: number, spentCents: number) =>
+    availableCents > 0
+      ? Math.min((spentCents / availableCents) * 100, 100)
+      : spentCents > 0 ? 100 : 0
+
+  const getProgressColor = (percentUsed: number) =>
+    percentUsed >= 100 ? '#ef4444' :
+      percentUsed >= 75 ? '#eab308' : '#22c55e'
+
+  const renderEditButton = (category: Category) => (
+    <CategoryForm
+      category={category}
+      groups={groupOptions}
+      trigger={
+        <Button variant="ghost" size="icon" className="h-6 w-6 -mr-2 text-muted-foreground hover:text-foreground">
+          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" /><path d="m15 5 4 4" /></svg>
+          <span className="sr-only">Edit {category.name}</span>
+        </Button>
+      }
+    />
+  )
+
+  const renderCategory = (category: Category) => {
+    const budgetedCents = budgetMap.get(category.id) ?? 0
+    const carryoverCents = carryoverByCategory.get(category.id) ?? 0
+    const availableCents = budgetedCents + carryoverCents
+    const spentCents = spentByCategory.get(category.id) ?? 0
+    const remainingCents = availableCents - spentCents
+    const percentUsed = getPercentUsed(availableCents, spentCents)
+    const history = rollovers[category.id]
+
+    return (
+      <div key={category.id} className="rounded-lg border bg-card p-3 shadow-sm transition-all hover:shadow-md">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full shadow-sm" style={{ backgroundColor: category.color }} />
+            <span className="font-medium text-sm">{category.name}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className={`text-xs font-medium ${remainingCents < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {formatMoney(remainingCents)} left
+            </span>
+            {renderEditButton(category)}
+          </div>
+        </div>
+        <Progress
+          value={percentUsed}
+          className="h-1.5"
+          style={{ ['--progress-color' as string]: getProgressColor(percentUsed) }}
+        />
+        <div className="flex justify-between text-[10px] text-muted-foreground mt-1.5 uppercase tracking-wider font-medium">
+          <span>{formatMoney(spentCents)} spent</span>
+          <span>{formatMoney(availableCents)} limit</span>
+        </div>
+        {history && carryoverCents !== 0 && (
+          <RolloverHistory
+            categoryName={category.name}
+            history={history}
+            trigger={
+              <button
+                type="button"
+                className={`text-[10px] mt-1 hover:underline ${carryoverCents < 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+              >
+                {carryoverCents > 0
+                  ? `Includes ${formatMoney(carryoverCents)} rolled over`
+                  : `Includes ${formatMoney(-carryoverCents)} overspent last month`}
+              </button>
+            }
+          />
+        )}
+      </div>
+    )
+  }
+
   return (
     <main className="container mx-auto p-4 md:p-8 max-w-7xl">
       <div className="flex items-center justify-between mb-8">
@@ -74,6 +191,7 @@ export async function Dashboard() {
         <div className="hidden md:block">
           <TransactionForm
             categories={categories}
+            accounts={accounts}
             trigger={<Button>+ Add Transaction</Button>}
           />
         </div>
@@ -132,28 +250,42 @@ export async function Dashboard() {
               <CardContent>
                 <div className="flex justify-between items-center mb-2">
                   <span className="text-sm text-muted-foreground">
-                    {formatMoney(totalExpensesCents)} of {formatMoney(totalBudgetedCents)}
+                    {formatMoney(totalExpensesCents)} of {formatMoney(totalAvailableCents)}
                   </span>
-                  <span className={`text-xs font-medium ${totalBudgetedCents - totalExpensesCents < 0 ? 'text-destructive' : 'text-primary'}`}>
-                    {Math.round((totalExpensesCents / totalBudgetedCents) * 100)}%
+                  <span className={`text-xs font-medium ${totalAvailableCents - totalExpensesCents < 0 ? 'text-destructive' : 'text-primary'}`}>
+                    {totalAvailableCents > 0 ? Math.round((totalExpensesCents / totalAvailableCents) * 100) : 100}%
                   </span>
                 </div>
                 <Progress
-                  value={Math.min((totalExpensesCents / totalBudgetedCents) * 100, 100)}
+                  value={totalAvailableCents > 0 ? Math.min((totalExpensesCents / totalAvailableCents) * 100, 100) : 100}
                   className="h-2"
                   style={{
                     ['--progress-color' as string]:
-                      totalExpensesCents > totalBudgetedCents ? '#ef4444' :
-                        totalExpensesCents > totalBudgetedCents * 0.75 ? '#eab308' : '#22c55e'
+                      totalExpensesCents > totalAvailableCents ? '#ef4444' :
+                        totalExpensesCents > totalAvailableCents * 0.75 ? '#eab308' : '#22c55e'
                   }}
                 />
-                <p className={`text-xs mt-2 ${totalBudgetedCents - totalExpensesCents < 0 ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
-                  {formatMoney(Math.abs(totalBudgetedCents - totalExpensesCents))} {totalBudgetedCents - totalExpensesCents >= 0 ? 'remaining' : 'over budget'}
+                <p className={`text-xs mt-2 ${totalAvailableCents - totalExpensesCents < 0 ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                  {formatMoney(Math.abs(totalAvailableCents - totalExpensesCents))} {totalAvailableCents - totalExpensesCents >= 0 ? 'remaining' : 'over budget'}
                 </p>
+                {totalCarryoverCents !== 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Includes {formatMoney(totalCarryoverCents)} carried over from last month
+                  </p>
+                )}
               </CardContent>
             </Card>
           )}
 
+          {/* Accounts */}
+          <AccountsCard accounts={accounts} />
+
+          {/* Scheduled Transactions */}
+          <UpcomingTransactions occurrences={upcoming} />
+
+          {/* Savings Goals */}
+          <SavingsGoalsCard goals={goals} />
+
           {/* Categories List */}
           <div>
             <div className="flex items-center justify-between mb-4">
@@ -175,46 +307,35 @@ export async function Dashboard() {
               </Card>
             ) : (
               <div className="space-y-3">
-                {categories.map((category) => {
-                  const budgetedCents = budgetMap.get(category.id) ?? 0
-                  const spentCents = spentByCategory.get(category.id) ?? 0
-                  const remainingCents = budgetedCents - spentCents
-                  const percentUsed = budgetedCents > 0 ? Math.min((spentCents / budgetedCents) * 100, 100) : 0
+                {groups.map(({ category, children }) => {
+                  if (children.length === 0) return renderCategory(category)
+
+                  const availableCents = (groupBudgeted.get(category.id) ?? 0) + (groupCarryover.get(category.id) ?? 0)
+                  const spentCents = groupSpent.get(category.id) ?? 0
+                  const remainingCents = availableCents - spentCents
+                  const percentUsed = getPercentUsed(availableCents, spentCents)
 
                   return (
-                    <div key={category.id} className="rounded-lg border bg-card p-3 shadow-sm transition-all hover:shadow-md">
-                      <div className="flex items-center justify-between mb-2">
+                    <div key={category.id} className="space-y-2">
+                      <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
                           <div className="w-3 h-3 rounded-full shadow-sm" style={{ backgroundColor: category.color }} />
-                          <span className="font-medium text-sm">{category.name}</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <span className={`text-xs font-medium ${remainingCents < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
-                            {formatMoney(remainingCents)} left
-                          </span>
-                          <CategoryForm
-                            category={category}
-                            trigger={
-                              <Button variant="ghost" size="icon" className="h-6 w-6 -mr-2 text-muted-foreground hover:text-foreground">
-                                <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" /><path d="m15 5 4 4" /></svg>
-                                <span className="sr-only">Edit {category.name}</span>
-                              </Button>
-                            }
-                          />
+                          <span className="font-semibold text-sm">{category.name}</span>
+                          {renderEditButton(category)}
                         </div>
+                        <span className={`text-xs font-medium ${remainingCents < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {formatMoney(remainingCents)} left of {formatMoney(availableCents)}
+                        </span>
                       </div>
                       <Progress
                         value={percentUsed}
-                        className="h-1.5"
-                        style={{
-                          ['--progress-color' as string]:
-                            percentUsed >= 100 ? '#ef4444' :
-                              percentUsed >= 75 ? '#eab308' : '#22c55e'
-                        }}
+                        className="h-1"
+                        style={{ ['--progress-color' as string]: getProgressColor(percentUsed) }}
                       />
-                      <div className="flex justify-between text-[10px] text-muted-foreground mt-1.5 uppercase tracking-wider font-medium">
-                        <span>{formatMoney(spentCents)} spent</span>
-                        <span>{formatMoney(budgetedCents)} limit</span>
+                      <div className="space-y-2 pl-4 border-l">
+                        {/* Budget or spending on the group itself */}
+                        {(budgetMap.has(category.id) || carryoverByCategory.get(category.id) || spentByCategory.has(category.id)) && renderCategory(category)}
+                        {children.map((child) => renderCategory(child))}
                       </div>
                     </div>
                   )
@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { addGoalContribution, type SavingsGoalWithProgress } from '@/lib/actions/goals'
+
+interface GoalContributionFormProps {
+  goal: SavingsGoalWithProgress
+  trigger: React.ReactNode
+}
+
+export function GoalContributionForm({ goal, trigger }: GoalContributionFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [direction, setDirection] = useState<'add' | 'withdraw'>('add')
+  const [amount, setAmount] = useState('')
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0])
+  const [note, setNote] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const isWithdrawal = direction === 'withdraw'
+
+  const resetForm = () => {
+    setDirection('add')
+    setAmount('')
+    setDate(new Date().toISOString().split('T')[0])
+    setNote('')
+    setError('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const parsedAmount = parseFloat(amount)
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError('Enter an amount greater than zero')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      await addGoalContribution({
+        goalId: goal.id,
+        amount: isWithdrawal ? -parsedAmount : parsedAmount,
+        date,
+        note: note.trim() || undefined,
+      })
+      setOpen(false)
+      resetForm()
+      toast.success(isWithdrawal ? 'Withdrawal recorded' : 'Money added')
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Something went wrong'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{goal.name}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex rounded-lg border p-1 gap-1">
+            <button
+              type="button"
+              onClick={() => setDirection('add')}
+              className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${!isWithdrawal
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+                }`}
+            >
+              Add money
+            </button>
+            <button
+              type="button"
+              onClick={() => setDirection('withdraw')}
+              className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${isWithdrawal
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+                }`}
+            >
+              Withdraw
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="contribution-amount">Amount</Label>
+              <Input
+                id="contribution-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contribution-date">Date</Label>
+              <Input
+                id="contribution-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contribution-note">Note (optional)</Label>
+            <Input
+              id="contribution-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : isWithdrawal ? 'Record Withdrawal' : 'Add Money'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,7 +4,8 @@ import { useState } from 'react'
 import dynamic from 'next/dynamic'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
-import type { Category, CategoryKeyword, MerchantPattern, Transaction } from '@/lib/types'
+import type { Account, CategorizationRule, Category, CategoryKeyword, MerchantAlias, MerchantPattern } from '@/lib/types'
+import type { SavedColumnMapping } from '@/lib/utils/bank-formats'
 
 // Lazy load CSV import wizard - only loads when user clicks Import button
 const CSVImportWizard = dynamic(
@@ -19,14 +20,20 @@ interface ImportButtonProps {
   categories: Category[]
   keywordsByCategory: Record<string, CategoryKeyword[]>
   merchantPatterns: MerchantPattern[]
-  existingTransactions: Transaction[]
+  merchantAliases: MerchantAlias[]
+  rules: CategorizationRule[]
+  savedMappings: SavedColumnMapping[]
+  accounts?: Account[]
 }
 
 export function ImportButton({
   categories,
   keywordsByCategory,
   merchantPatterns,
-  existingTransactions,
+  merchantAliases,
+  rules,
+  savedMappings,
+  accounts,
 }: ImportButtonProps) {
   const [open, setOpen] = useState(false)
   const hasNoCategories = categories.length === 0
@@ -39,7 +46,7 @@ export function ImportButton({
         disabled={hasNoCategories}
         title={hasNoCategories ? 'You must create at least one category before importing transactions. Go to Settings to add categories.' : undefined}
       >
-        Import CSV
+        Import
       </Button>
       <CSVImportWizard
         open={open}
@@ -47,7 +54,10 @@ export function ImportButton({
         categories={categories}
         keywordsByCategory={keywordsByCategory}
         merchantPatterns={merchantPatterns}
-        existingTransactions={existingTransactions}
+        merchantAliases={merchantAliases}
+        rules={rules}
+        savedMappings={savedMappings}
+        accounts={accounts}
       />
     </>
   )
@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { rollbackImportBatch } from '@/lib/actions/import-batches'
+import type { ImportBatch } from '@/lib/types'
+
+interface ImportHistoryProps {
+  batches: ImportBatch[]
+}
+
+function formatDateRange(batch: ImportBatch): string | null {
+  if (!batch.start_date || !batch.end_date) return null
+  const start = new Date(batch.start_date).toLocaleDateString()
+  const end = new Date(batch.end_date).toLocaleDateString()
+  return start === end ? start : `${start} – ${end}`
+}
+
+export function ImportHistory({ batches }: ImportHistoryProps) {
+  const [undoing, setUndoing] = useState<string | null>(null)
+
+  const handleUndo = async (batch: ImportBatch) => {
+    setUndoing(batch.id)
+    try {
+      const { deleted } = await rollbackImportBatch(batch.id)
+      toast.success(`Import undone. ${deleted} transaction${deleted !== 1 ? 's' : ''} removed.`)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to undo import'
+      toast.error(message)
+    } finally {
+      setUndoing(null)
+    }
+  }
+
+  if (batches.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        No imports yet. Import a bank statement from the Transactions page.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {batches.map((batch) => {
+        const rolledBack = batch.status === 'rolled_back'
+        const dateRange = formatDateRange(batch)
+
+        return (
+          <Card key={batch.id}>
+            <CardContent className="flex items-center justify-between gap-4 py-4 px-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate">{batch.file_name}</p>
+                  {rolledBack && <Badge variant="secondary">Undone</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {batch.row_count} transaction{batch.row_count !== 1 ? 's' : ''}
+                  {dateRange && ` • ${dateRange}`}
+                  {batch.format && ` • ${batch.format}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Imported {batch.created_at ? new Date(batch.created_at).toLocaleString() : ''}
+                  {rolledBack && batch.rolled_back_at &&
+                    ` • Undone ${new Date(batch.rolled_back_at).toLocaleString()}`}
+                </p>
+              </div>
+              {!rolledBack && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={undoing === batch.id}
+                      aria-label={`Undo import: ${batch.file_name}`}
+                    >
+                      {undoing === batch.id ? 'Undoing...' : 'Undo'}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Undo this import?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This will permanently delete the {batch.row_count} transaction
+                        {batch.row_count !== 1 ? 's' : ''} imported from &quot;{batch.file_name}&quot;,
+                        including any edits made to them since. This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleUndo(batch)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Undo Import
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,13 +1,35 @@
 'use client'
 
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
 import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
 import type { RecurringCharge } from '@/lib/actions/insights'
+import {
+  acceptSubscriptionPrice,
+  cancelSubscription,
+  deleteSubscription,
+  dismissRecurringCharge,
+  resumeSubscription,
+  trackRecurringCharge,
+  type SubscriptionWithStatus,
+} from '@/lib/actions/subscriptions'
 
 interface RecurringCardProps {
-  charge: RecurringCharge
+  /** A detected charge to review, or a subscription already tracked */
+  charge: RecurringCharge | SubscriptionWithStatus
+}
+
+function isSubscription(charge: RecurringCharge | SubscriptionWithStatus): charge is SubscriptionWithStatus {
+  return 'id' in charge
 }
 
 export function RecurringCard({ charge }: RecurringCardProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+  const subscription = isSubscription(charge) ? charge : null
+
   const frequencyLabels = {
     weekly: 'Weekly',
     monthly: 'Monthly',
@@ -21,12 +43,34 @@ export function RecurringCard({ charge }: RecurringCardProps) {
   }
 
   const formatDate = (dateStr: string) => {
-    return new Date(dateStr).toLocaleDateString('en-US', {
+    return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
     })
   }
 
+  const run = async (action: () => Promise<void>, success: string) => {
+    setLoading(true)
+    try {
+      await action()
+      toast.success(success)
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const review = {
+    merchant: charge.merchant,
+    displayName: charge.displayName,
+    amount: charge.amount,
+    frequency: charge.frequency,
+    lastChargeDate: charge.lastChargeDate,
+    categoryId: charge.category?.id ?? null,
+  }
+
   return (
     <Card className={!charge.isActive ? 'opacity-60' : ''}>
       <CardContent className="pt-4">
@@ -61,17 +105,107 @@ export function RecurringCard({ charge }: RecurringCardProps) {
             <span className="text-sm text-gray-500 dark:text-gray-400">Last Charge</span>
             <span className="text-sm text-gray-900 dark:text-gray-100">{formatDate(charge.lastChargeDate)}</span>
           </div>
+          {subscription?.nextExpectedDate && (
+            <div className="flex justify-between">
+              <span className="text-sm text-gray-500 dark:text-gray-400">Next Expected</span>
+              <span className="text-sm text-gray-900 dark:text-gray-100">{formatDate(subscription.nextExpectedDate)}</span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-sm text-gray-500 dark:text-gray-400">Occurrences</span>
             <span className="text-sm text-gray-900 dark:text-gray-100">{charge.transactionCount}</span>
           </div>
         </div>
 
-        {!charge.isActive && (
+        {subscription?.priceChange && (
+          <div className="mt-3 text-xs text-amber-600 dark:text-amber-400 flex items-center justify-between gap-2">
+            <span>
+              Price changed from ${subscription.priceChange.previousAmount.toFixed(2)} to ${subscription.priceChange.newAmount.toFixed(2)}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              disabled={loading}
+              onClick={() => run(
+                () => acceptSubscriptionPrice(subscription.id, subscription.priceChange!.newAmount),
+                'Price updated'
+              )}
+            >
+              Accept
+            </Button>
+          </div>
+        )}
+
+        {subscription?.state === 'missed' && (
+          <div className="mt-3 text-xs text-amber-600 dark:text-amber-400">
+            Missed charge: expected {formatDate(subscription.nextExpectedDate!)}
+          </div>
+        )}
+
+        {subscription?.state === 'cancelled' && (
+          <div className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            {subscription.isMarkedCancelled ? 'Cancelled' : 'Looks cancelled (no charges for two periods)'}
+          </div>
+        )}
+
+        {!subscription && !charge.isActive && (
           <div className="mt-3 text-xs text-amber-600 dark:text-amber-400">
             Possibly cancelled (no recent charges)
           </div>
         )}
+
+        <div className="mt-3 flex justify-end gap-1">
+          {subscription ? (
+            <>
+              {subscription.isMarkedCancelled ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={loading}
+                  onClick={() => run(() => resumeSubscription(subscription.id), 'Tracking again')}
+                >
+                  Resume
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={loading}
+                  onClick={() => run(() => cancelSubscription(subscription.id), 'Marked as cancelled')}
+                >
+                  Mark cancelled
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={loading}
+                onClick={() => run(() => deleteSubscription(subscription.id), 'Stopped tracking')}
+              >
+                Stop tracking
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={loading}
+                onClick={() => run(() => dismissRecurringCharge(review), 'Dismissed')}
+              >
+                Not a subscription
+              </Button>
+              <Button
+                size="sm"
+                disabled={loading}
+                onClick={() => run(() => trackRecurringCharge(review), 'Subscription tracked')}
+              >
+                Track
+              </Button>
+            </>
+          )}
+        </div>
       </CardContent>
     </Card>
   )
@@ -4,18 +4,21 @@ import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
+import { RuleManagement } from '@/components/rule-management'
 import { addKeyword, deleteKeyword } from '@/lib/actions/keywords'
-import type { Category, CategoryKeyword } from '@/lib/types'
+import type { CategorizationRule, Category, CategoryKeyword } from '@/lib/types'
 import { useRouter } from 'next/navigation'
 
 interface KeywordManagementProps {
   categories: Category[]
   keywordsByCategory: Record<string, CategoryKeyword[]>
+  rules: CategorizationRule[]
 }
 
 export function KeywordManagement({
   categories,
   keywordsByCategory,
+  rules,
 }: KeywordManagementProps) {
   const router = useRouter()
   const [newKeywords, setNewKeywords] = useState<Record<string, string>>({})
@@ -63,6 +66,10 @@ export function KeywordManagement({
 
   return (
     <div className="space-y-6">
+      <RuleManagement categories={categories} rules={rules} />
+
+      <h3 className="font-semibold border-t pt-6">Keywords</h3>
+
       {error && (
         <div className="text-sm text-red-500 bg-red-50 dark:bg-red-950/20 p-3 rounded-lg">
           {error}
@@ -149,7 +156,9 @@ export function KeywordManagement({
       <div className="text-sm text-muted-foreground bg-muted p-4 rounded-lg">
         <p className="font-medium mb-2">How keyword matching works:</p>
         <ul className="list-disc list-inside space-y-1">
-          <li>Keywords are matched case-insensitively against transaction descriptions</li>
+          <li>Keywords are matched case-insensitively against whole words in transaction descriptions</li>
+          <li>When several keywords match, the longest one wins</li>
+          <li>Rules run first; use them for partial words, amounts, or renaming</li>
           <li>Add common merchants, stores, or description patterns</li>
           <li>Examples: &quot;starbucks&quot;, &quot;amazon&quot;, &quot;gas&quot;, &quot;grocery&quot;</li>
           <li>Keywords help auto-categorize imported transactions</li>
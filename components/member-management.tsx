@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { addMember, renameMember, removeMember, type MemberSummary } from '@/lib/actions/members'
+
+interface MemberManagementProps {
+  members: MemberSummary[]
+  /** The signed-in member, who can't remove themselves */
+  currentMemberId: string | null
+}
+
+export function MemberManagement({ members, currentMemberId }: MemberManagementProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+  const [name, setName] = useState('')
+  const [pin, setPin] = useState('')
+
+  const run = async (id: string, action: () => Promise<void>, success: string) => {
+    setLoading(id)
+    try {
+      await action()
+      toast.success(success)
+      router.refresh()
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Something went wrong')
+      return false
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const handleRename = async (id: string) => {
+    if (await run(id, () => renameMember(id, editName), 'Member renamed')) {
+      setEditingId(null)
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await run('new', () => addMember({ name, pin }), 'Member added')) {
+      setName('')
+      setPin('')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Everyone signs in with their own PIN, so transactions show who entered them.
+      </p>
+
+      <div className="space-y-3">
+        {members.map((member) => (
+          <div
+            key={member.id}
+            className="flex items-center justify-between gap-2 pb-3 border-b last:border-0 last:pb-0"
+          >
+            {editingId === member.id ? (
+              <div className="flex flex-1 gap-2">
+                <Input
+                  aria-label="Member name"
+                  value={editName}
+                  maxLength={50}
+                  onChange={(e) => setEditName(e.target.value)}
+                />
+                <Button size="sm" disabled={loading === member.id} onClick={() => handleRename(member.id)}>
+                  Save
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium truncate">{member.name}</span>
+                  {member.id === currentMemberId && <Badge variant="secondary">You</Badge>}
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditingId(member.id)
+                      setEditName(member.name)
+                    }}
+                  >
+                    Rename
+                  </Button>
+                  {member.id !== currentMemberId && members.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={loading === member.id}
+                      onClick={() => run(member.id, () => removeMember(member.id), 'Member removed')}
+                      aria-label={`Remove member ${member.name}`}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2">
+        <div className="space-y-2 flex-1 min-w-32">
+          <Label htmlFor="memberName">Name</Label>
+          <Input
+            id="memberName"
+            value={name}
+            maxLength={50}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2 w-28">
+          <Label htmlFor="memberPin">PIN</Label>
+          <Input
+            id="memberPin"
+            type="password"
+            inputMode="numeric"
+            maxLength={6}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          />
+        </div>
+        <Button type="submit" disabled={loading === 'new' || !name.trim() || pin.length < 4}>
+          {loading === 'new' ? 'Adding...' : '+ Add Member'}
+        </Button>
+      </form>
+    </div>
+  )
+}
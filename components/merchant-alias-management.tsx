@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import { addMerchantAlias, deleteMerchantAlias } from '@/lib/actions/merchant-aliases'
+import type { MerchantAlias } from '@/lib/types'
+
+interface MerchantAliasManagementProps {
+  aliases: MerchantAlias[]
+}
+
+export function MerchantAliasManagement({ aliases }: MerchantAliasManagementProps) {
+  const router = useRouter()
+  const [matchText, setMatchText] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [loading, setLoading] = useState<string | null>(null)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading('add')
+    try {
+      await addMerchantAlias(matchText, displayName)
+      toast.success('Alias saved')
+      setMatchText('')
+      setDisplayName('')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save alias')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const handleDelete = async (alias: MerchantAlias) => {
+    setLoading(alias.id)
+    try {
+      await deleteMerchantAlias(alias.id)
+      toast.success('Alias removed')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove alias')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="py-4 px-4 space-y-4">
+        <div>
+          <h2 className="font-semibold">Merchant aliases</h2>
+          <p className="text-sm text-muted-foreground">
+            Group merchants that show up under different names. Paste a description as it
+            appears on your statement and choose the name to show instead.
+          </p>
+        </div>
+
+        <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={matchText}
+            onChange={(e) => setMatchText(e.target.value)}
+            placeholder="e.g. AMZN MKTP US*1A2B3"
+            aria-label="Statement description"
+            maxLength={100}
+          />
+          <Input
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="e.g. Amazon"
+            aria-label="Display name"
+            maxLength={100}
+          />
+          <Button
+            type="submit"
+            disabled={loading === 'add' || !matchText.trim() || !displayName.trim()}
+          >
+            {loading === 'add' ? 'Saving...' : 'Add'}
+          </Button>
+        </form>
+
+        {aliases.length > 0 && (
+          <div className="space-y-2">
+            {aliases.map((alias) => (
+              <div
+                key={alias.id}
+                className="flex items-center justify-between gap-2 py-2 border-b last:border-0 text-sm"
+              >
+                <span className="min-w-0">
+                  <span className="font-mono text-muted-foreground">{alias.match_text}</span>
+                  {' → '}
+                  <span className="font-medium">{alias.display_name}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(alias)}
+                  disabled={loading === alias.id}
+                  aria-label={`Remove alias for ${alias.match_text}`}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import {
+  deleteMerchantPattern,
+  pruneMerchantPatterns,
+  updateMerchantPattern,
+} from '@/lib/actions/merchant-patterns'
+import type { Category, MerchantPattern } from '@/lib/types'
+
+interface MerchantPatternManagementProps {
+  patterns: MerchantPattern[]
+  categories: Category[]
+}
+
+export function MerchantPatternManagement({ patterns, categories }: MerchantPatternManagementProps) {
+  const router = useRouter()
+  const [searchQuery, setSearchQuery] = useState('')
+  const [loading, setLoading] = useState<string | null>(null)
+
+  // One card per merchant, with its categories from most to least used
+  const merchants = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    const grouped = new Map<string, MerchantPattern[]>()
+
+    for (const pattern of patterns) {
+      if (query && !pattern.merchant_name.includes(query)) continue
+      const list = grouped.get(pattern.merchant_name) ?? []
+      list.push(pattern)
+      grouped.set(pattern.merchant_name, list)
+    }
+
+    return Array.from(grouped.entries())
+      .map(([merchantName, list]) => ({
+        merchantName,
+        patterns: list.sort((a, b) =>
+          b.match_count - a.match_count || b.last_used_at.localeCompare(a.last_used_at)
+        ),
+      }))
+      .sort((a, b) => a.merchantName.localeCompare(b.merchantName))
+  }, [patterns, searchQuery])
+
+  const handleCategoryChange = async (pattern: MerchantPattern, categoryId: string) => {
+    setLoading(pattern.id)
+    try {
+      await updateMerchantPattern(pattern.id, categoryId)
+      toast.success('Pattern updated')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update pattern')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const handleDelete = async (pattern: MerchantPattern) => {
+    setLoading(pattern.id)
+    try {
+      await deleteMerchantPattern(pattern.id)
+      toast.success('Pattern removed')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove pattern')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const handlePrune = async () => {
+    setLoading('prune')
+    try {
+      const { deleted } = await pruneMerchantPatterns()
+      toast.success(`Removed ${deleted} unused pattern${deleted !== 1 ? 's' : ''}`)
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to prune patterns')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  if (patterns.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        Nothing learned yet. Categorize transactions and merchants will show up here.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search merchants..."
+        />
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" disabled={loading === 'prune'}>
+              {loading === 'prune' ? 'Pruning...' : 'Prune'}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Prune learned merchants?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This removes every pattern that was only used once and hasn&apos;t been used in
+                the last 90 days.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handlePrune}>Prune</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {merchants.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          No merchants match your search.
+        </p>
+      ) : (
+        merchants.map(({ merchantName, patterns: merchantPatterns }) => (
+          <Card key={merchantName}>
+            <CardContent className="py-4 px-4 space-y-2">
+              <p className="font-medium">{merchantName}</p>
+              {merchantPatterns.map((pattern) => (
+                <div key={pattern.id} className="flex items-center gap-2">
+                  <Select
+                    value={pattern.category_id}
+                    onValueChange={(value) => handleCategoryChange(pattern, value)}
+                    disabled={loading === pattern.id}
+                  >
+                    <SelectTrigger
+                      className="w-48"
+                      aria-label={`Category for ${merchantName}`}
+                    >
+                      <SelectValue placeholder="Unknown category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="flex-1 text-sm text-muted-foreground">
+                    Used {pattern.match_count} time{pattern.match_count !== 1 ? 's' : ''} • last{' '}
+                    {new Date(pattern.last_used_at).toLocaleDateString()}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(pattern)}
+                    disabled={loading === pattern.id}
+                    aria-label={`Remove pattern for ${merchantName}`}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { moveBudgetMoney } from '@/lib/actions/budgets'
+
+interface MoveBudgetMoneyFormProps {
+  month: string
+  categories: { id: string; name: string }[]
+  /** Each category's budget for the month, in dollars */
+  budgets: Record<string, number>
+  trigger: React.ReactNode
+}
+
+export function MoveBudgetMoneyForm({ month, categories, budgets, trigger }: MoveBudgetMoneyFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [fromCategoryId, setFromCategoryId] = useState('')
+  const [toCategoryId, setToCategoryId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [note, setNote] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Money can only come from a category that has some budgeted
+  const fundedCategories = categories.filter((category) => (budgets[category.id] ?? 0) > 0)
+  const fromBudget = budgets[fromCategoryId] ?? 0
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const numAmount = parseFloat(amount)
+    if (!fromCategoryId || !toCategoryId) {
+      setError('Choose where to move the money from and to')
+      return
+    }
+    if (!numAmount || numAmount <= 0) {
+      setError('Amount must be greater than zero')
+      return
+    }
+    if (numAmount > fromBudget) {
+      setError(`Only $${fromBudget.toFixed(2)} is budgeted there`)
+      return
+    }
+
+    setLoading(true)
+    try {
+      await moveBudgetMoney({
+        month,
+        fromCategoryId,
+        toCategoryId,
+        amount: numAmount,
+        note: note.trim() || undefined,
+      })
+      setOpen(false)
+      setFromCategoryId('')
+      setToCategoryId('')
+      setAmount('')
+      setNote('')
+      toast.success('Money moved')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move money')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move Money</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Select value={fromCategoryId} onValueChange={setFromCategoryId}>
+              <SelectTrigger aria-label="Move from">
+                <SelectValue placeholder="Choose a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {fundedCategories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name} (${(budgets[category.id] ?? 0).toFixed(2)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Select value={toCategoryId} onValueChange={setToCategoryId}>
+              <SelectTrigger aria-label="Move to">
+                <SelectValue placeholder="Choose a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories
+                  .filter((category) => category.id !== fromCategoryId)
+                  .map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="move-amount">Amount</Label>
+            <Input
+              id="move-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="move-note">Note (optional)</Label>
+            <Input
+              id="move-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g., Covering the car repair"
+              maxLength={200}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Moving...' : 'Move Money'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -19,7 +19,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { createTransaction } from '@/lib/actions/transactions'
-import { Category } from '@/lib/types'
+import { Account, Category } from '@/lib/types'
 import { BudgetWarning } from '@/components/budget-warning'
 import {
   wouldExceedBudget,
@@ -28,14 +28,17 @@ import {
 
 interface QuickAddButtonProps {
   categories: Category[]
+  accounts?: Account[]
   budgetMap: Record<string, number>
   spentMap: Record<string, number>
 }
 
-export function QuickAddButton({ categories, budgetMap, spentMap }: QuickAddButtonProps) {
+export function QuickAddButton({ categories, accounts = [], budgetMap, spentMap }: QuickAddButtonProps) {
   const [open, setOpen] = useState(false)
   const [amount, setAmount] = useState('')
   const [categoryId, setCategoryId] = useState('')
+  const defaultAccountId = accounts.find((account) => account.is_default)?.id ?? ''
+  const [accountId, setAccountId] = useState(defaultAccountId)
   const [description, setDescription] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
@@ -101,6 +104,7 @@ export function QuickAddButton({ categories, budgetMap, spentMap }: QuickAddButt
   const resetForm = () => {
     setAmount('')
     setCategoryId('')
+    setAccountId(defaultAccountId)
     setDescription('')
     setError('')
     setShowWarning(false)
@@ -118,8 +122,9 @@ export function QuickAddButton({ categories, budgetMap, spentMap }: QuickAddButt
       return
     }
 
-    if (!categoryId) {
-      setError('Please select a category')
+    // Without a category, the household's rules pick one from the description
+    if (!categoryId && !description.trim()) {
+      setError('Please select a category, or describe it for your rules to match')
       return
     }
 
@@ -127,10 +132,11 @@ export function QuickAddButton({ categories, budgetMap, spentMap }: QuickAddButt
 
     try {
       await createTransaction({
-        categoryId,
+        categoryId: categoryId || undefined,
         amount: numAmount,
         description: description.trim() || undefined,
         date: new Date().toISOString().split('T')[0],
+        accountId: accountId || undefined,
       })
       setOpen(false)
       resetForm()
@@ -246,6 +252,24 @@ export function QuickAddButton({ categories, budgetMap, spentMap }: QuickAddButt
               />
             )}
 
+            {accounts.length > 1 && (
+              <div className="space-y-2">
+                <Label>Account</Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="quick-description">Description (optional)</Label>
               <Input
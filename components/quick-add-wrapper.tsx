@@ -1,5 +1,6 @@
 import { getCategories } from '@/lib/actions/categories'
 import { getBudgetDataForWarnings } from '@/lib/actions/budgets'
+import { getAccounts } from '@/lib/actions/accounts'
 import { getSession } from '@/lib/auth'
 import { QuickAddButton } from './quick-add-button'
 
@@ -9,9 +10,10 @@ export async function QuickAddWrapper() {
   // Only show if authenticated
   if (!session) return null
 
-  const [categories, budgetData] = await Promise.all([
+  const [categories, budgetData, accounts] = await Promise.all([
     getCategories(),
     getBudgetDataForWarnings(),
+    getAccounts(),
   ])
 
   // Only show if there are categories
@@ -20,6 +22,7 @@ export async function QuickAddWrapper() {
   return (
     <QuickAddButton
       categories={categories}
+      accounts={accounts}
       budgetMap={budgetData.budgetMap}
       spentMap={budgetData.spentMap}
     />
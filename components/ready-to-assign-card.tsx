@@ -0,0 +1,73 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { ReadyToAssign } from '@/lib/actions/budgets'
+import type { BudgetMove } from '@/lib/types'
+
+interface ReadyToAssignCardProps {
+  status: ReadyToAssign
+  /** Money moved between categories this month */
+  moves: BudgetMove[]
+  categoryNames: Map<string, string>
+}
+
+const INDICATOR_CLASSES = {
+  green: 'text-green-600 dark:text-green-400',
+  yellow: 'text-yellow-600 dark:text-yellow-400',
+  red: 'text-destructive',
+}
+
+const money = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+
+export function ReadyToAssignCard({ status, moves, categoryNames }: ReadyToAssignCardProps) {
+  const categoryName = (id: string | null) => (id && categoryNames.get(id)) || 'Removed category'
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Ready to Assign</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className={`text-3xl font-bold ${INDICATOR_CLASSES[status.indicator]}`}>
+          {money(status.readyToAssign)}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {status.indicator === 'green' && 'Every dollar has a job.'}
+          {status.indicator === 'yellow' && 'Assign the rest to categories to balance the month.'}
+          {status.indicator === 'red' &&
+            `You've assigned ${money(-status.readyToAssign)} more than you have. Lower some budgets or move money.`}
+        </p>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Income this month</span>
+            <span>{money(status.income)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Carried over</span>
+            <span className={status.carryover < 0 ? 'text-destructive' : ''}>{money(status.carryover)}</span>
+          </div>
+          <div className="flex justify-between border-t pt-1">
+            <span className="text-muted-foreground">Assigned</span>
+            <span>-{money(status.assigned)}</span>
+          </div>
+        </div>
+
+        {moves.length > 0 && (
+          <div className="border-t pt-3">
+            <p className="text-sm font-medium mb-1">Moved this month</p>
+            <ul className="space-y-1 text-sm">
+              {moves.map((move) => (
+                <li key={move.id} className="flex justify-between gap-2">
+                  <span className="truncate">
+                    {categoryName(move.from_category_id)} → {categoryName(move.to_category_id)}
+                    {move.note && <span className="text-muted-foreground"> · {move.note}</span>}
+                  </span>
+                  <span className="shrink-0">{money(move.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,10 +10,12 @@ interface Transaction {
   amount_cents?: number
   description: string | null
   date: string
+  type?: string
   category: {
     name: string
     color: string
   } | null
+  splits?: unknown[]
 }
 
 interface RecentTransactionsProps {
@@ -91,7 +93,7 @@ export function RecentTransactions({ transactions }: RecentTransactionsProps) {
                           {txn.description || txn.category?.name || 'Transaction'}
                         </p>
                         <p className="text-xs text-muted-foreground">
-                          {txn.category?.name || 'Uncategorized'}
+                          {txn.type === 'transfer' ? 'Transfer' : txn.splits?.length ? 'Split' : txn.category?.name || 'Uncategorized'}
                         </p>
                       </div>
                     </div>
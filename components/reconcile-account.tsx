@@ -0,0 +1,175 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { reconcileAccount, type ReconciliationState } from '@/lib/actions/reconciliations'
+import { getBalanceChange } from '@/lib/utils/accounts'
+import { getClearedBalance } from '@/lib/utils/reconciliation'
+import { formatMoney, parseDollarsToCents } from '@/lib/utils/money'
+
+interface ReconcileAccountProps {
+  state: ReconciliationState
+}
+
+export function ReconcileAccount({ state }: ReconcileAccountProps) {
+  const router = useRouter()
+  const { account, transactions, reconciledBalanceCents } = state
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0])
+  const [statementBalance, setStatementBalance] = useState('')
+  const [clearedIds, setClearedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Transactions after the statement date can't have cleared on it
+  const eligible = useMemo(
+    () => transactions.filter((t) => t.date <= statementDate),
+    [transactions, statementDate]
+  )
+  const checked = useMemo(
+    () => new Set(eligible.filter((t) => clearedIds.has(t.id)).map((t) => t.id)),
+    [eligible, clearedIds]
+  )
+
+  const clearedCents = getClearedBalance(reconciledBalanceCents, eligible, account.id, checked)
+  const statementCents = parseDollarsToCents(statementBalance)
+  const differenceCents = statementCents === null ? null : statementCents - clearedCents
+
+  const toggle = (id: string, isChecked: boolean) => {
+    setClearedIds((prev) => {
+      const next = new Set(prev)
+      if (isChecked) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }
+
+  const handleFinish = async () => {
+    setError('')
+
+    if (statementCents === null) {
+      setError('Enter the ending balance from your statement')
+      return
+    }
+
+    setLoading(true)
+    try {
+      await reconcileAccount({
+        accountId: account.id,
+        statementDate,
+        statementBalance: statementCents / 100,
+        transactionIds: [...checked],
+      })
+      toast.success(`${account.name} reconciled`)
+      setClearedIds(new Set())
+      setStatementBalance('')
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Something went wrong'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="py-4 px-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="statement-date">Statement date</Label>
+              <Input
+                id="statement-date"
+                type="date"
+                value={statementDate}
+                onChange={(e) => setStatementDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-balance">Ending balance</Label>
+              <Input
+                id="statement-balance"
+                type="number"
+                step="0.01"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <div>
+              <p className="text-muted-foreground">Cleared balance</p>
+              <p className="font-semibold">{formatMoney(clearedCents)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Statement</p>
+              <p className="font-semibold">{statementCents === null ? '—' : formatMoney(statementCents)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Difference</p>
+              <p className={`font-semibold ${differenceCents === 0 ? 'text-green-600 dark:text-green-400' : differenceCents === null ? '' : 'text-destructive'}`}>
+                {differenceCents === null ? '—' : formatMoney(differenceCents)}
+              </p>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button
+            className="w-full"
+            onClick={handleFinish}
+            disabled={loading || differenceCents !== 0}
+          >
+            {loading ? 'Saving...' : 'Finish Reconciling'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="py-4 px-4 space-y-2">
+          <h2 className="font-semibold">Check off cleared transactions</h2>
+          {eligible.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing left to reconcile up to this date.
+            </p>
+          ) : (
+            eligible.map((transaction) => (
+              <label
+                key={transaction.id}
+                className="flex items-center gap-3 py-2 border-b last:border-0 cursor-pointer"
+              >
+                <Checkbox
+                  checked={checked.has(transaction.id)}
+                  onCheckedChange={(value) => toggle(transaction.id, value === true)}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {transaction.description || transaction.category?.name || (transaction.type === 'transfer' ? 'Transfer' : 'Transaction')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(`${transaction.date}T00:00:00`).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className="text-sm font-semibold">
+                  {formatMoney(getBalanceChange(transaction, account.id))}
+                </span>
+              </label>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+
+export function PrintButton() {
+  return (
+    <Button onClick={() => window.print()}>
+      Print / Save as PDF
+    </Button>
+  )
+}
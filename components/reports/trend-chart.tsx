@@ -9,6 +9,7 @@ interface TrendChartProps {
     month: string
     spent: number
     budgeted: number
+    groups?: Array<{ groupId: string; name: string; color: string; spent: number }>
   }>
 }
 
@@ -18,8 +19,18 @@ export const TrendChart = memo(function TrendChart({ data }: TrendChartProps) {
     month: new Date(item.month + '-01').toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
     spent: item.spent,
     budgeted: item.budgeted,
+    ...Object.fromEntries((item.groups ?? []).map((group) => [`group-${group.groupId}`, group.spent])),
   })), [data])
 
+  // One line per group that had spending in any month
+  const groups = useMemo(() => {
+    const byId = new Map<string, { groupId: string; name: string; color: string }>()
+    data.forEach((item) => item.groups?.forEach((group) => {
+      if (group.spent > 0) byId.set(group.groupId, group)
+    }))
+    return Array.from(byId.values())
+  }, [data])
+
   return (
     <Card>
       <CardHeader>
@@ -66,6 +77,18 @@ export const TrendChart = memo(function TrendChart({ data }: TrendChartProps) {
               strokeWidth={2}
               name="Spent"
             />
+            {groups.map((group) => (
+              <Line
+                key={group.groupId}
+                type="monotone"
+                dataKey={`group-${group.groupId}`}
+                stroke={group.color}
+                strokeWidth={1}
+                dot={false}
+                connectNulls
+                name={group.name}
+              />
+            ))}
           </LineChart>
         </ResponsiveContainer>
       </CardContent>
@@ -0,0 +1,66 @@
+'use client'
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { formatMonth } from '@/lib/utils/date'
+import { formatMoney } from '@/lib/utils/money'
+import type { RolloverEntry } from '@/lib/utils/rollover'
+
+interface RolloverHistoryProps {
+  categoryName: string
+  history: RolloverEntry[]
+  trigger: React.ReactNode
+}
+
+/**
+ * Month-by-month breakdown of how a category's available balance was derived.
+ */
+export function RolloverHistory({ categoryName, history, trigger }: RolloverHistoryProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{categoryName} balance history</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Available = carried in + budgeted − spent. What carries into the next month
+          depends on the category&apos;s rollover setting.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-2 px-2 font-semibold">Month</th>
+                <th className="text-right py-2 px-2 font-semibold">Carried in</th>
+                <th className="text-right py-2 px-2 font-semibold">Budgeted</th>
+                <th className="text-right py-2 px-2 font-semibold">Spent</th>
+                <th className="text-right py-2 px-2 font-semibold">Available</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...history].reverse().map((entry) => (
+                <tr key={entry.month} className="border-b border-border">
+                  <td className="py-2 px-2">{formatMonth(entry.month)}</td>
+                  <td className={`text-right py-2 px-2 ${entry.carryoverCents < 0 ? 'text-destructive' : ''}`}>
+                    {formatMoney(entry.carryoverCents)}
+                  </td>
+                  <td className="text-right py-2 px-2">{formatMoney(entry.budgetedCents)}</td>
+                  <td className="text-right py-2 px-2">{formatMoney(entry.spentCents)}</td>
+                  <td className={`text-right py-2 px-2 font-medium ${entry.availableCents < 0 ? 'text-destructive' : ''}`}>
+                    {formatMoney(entry.availableCents)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
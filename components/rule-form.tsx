@@ -0,0 +1,263 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { createRule, updateRule } from '@/lib/actions/rules'
+import {
+  RULE_MATCH_TYPES,
+  RULE_MATCH_TYPE_LABELS,
+  type RuleMatchType,
+} from '@/lib/utils/rule-engine'
+import type { CategorizationRule, Category } from '@/lib/types'
+
+const ANY = '__any__'
+const NONE = '__none__'
+
+interface RuleFormProps {
+  categories: Category[]
+  rule?: CategorizationRule
+  /** Priority suggested for a new rule (runs after existing rules) */
+  defaultPriority?: number
+  trigger: React.ReactNode
+}
+
+function parseAmount(value: string): number | null {
+  if (!value.trim()) return null
+  const amount = parseFloat(value)
+  return isNaN(amount) ? null : amount
+}
+
+export function RuleForm({ categories, rule, defaultPriority = 0, trigger }: RuleFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [priority, setPriority] = useState(String(rule?.priority ?? defaultPriority))
+  const [matchType, setMatchType] = useState<RuleMatchType>(
+    (rule?.match_type as RuleMatchType) ?? 'whole_word'
+  )
+  const [pattern, setPattern] = useState(rule?.pattern ?? '')
+  const [transactionType, setTransactionType] = useState(rule?.transaction_type ?? ANY)
+  const [minAmount, setMinAmount] = useState(rule?.min_amount?.toString() ?? '')
+  const [maxAmount, setMaxAmount] = useState(rule?.max_amount?.toString() ?? '')
+  const [categoryId, setCategoryId] = useState(rule?.category_id ?? NONE)
+  const [renameTo, setRenameTo] = useState(rule?.rename_to ?? '')
+  const [enabled, setEnabled] = useState(rule?.enabled ?? true)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const isEditing = !!rule
+
+  const resetForm = () => {
+    setPriority(String(defaultPriority))
+    setMatchType('whole_word')
+    setPattern('')
+    setTransactionType(ANY)
+    setMinAmount('')
+    setMaxAmount('')
+    setCategoryId(NONE)
+    setRenameTo('')
+    setEnabled(true)
+    setError('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!pattern.trim()) {
+      setError('Pattern is required')
+      return
+    }
+
+    if (categoryId === NONE && !renameTo.trim()) {
+      setError('Choose a category or a new description')
+      return
+    }
+
+    setLoading(true)
+
+    const input = {
+      priority: parseInt(priority, 10) || 0,
+      matchType,
+      pattern: pattern.trim(),
+      minAmount: parseAmount(minAmount),
+      maxAmount: parseAmount(maxAmount),
+      transactionType: transactionType === ANY ? null : transactionType as 'income' | 'expense',
+      categoryId: categoryId === NONE ? null : categoryId,
+      renameTo: renameTo.trim() || null,
+      enabled,
+    }
+
+    try {
+      if (isEditing) {
+        await updateRule(rule.id, input)
+      } else {
+        await createRule(input)
+      }
+      setOpen(false)
+      if (!isEditing) resetForm()
+      toast.success(isEditing ? 'Rule updated' : 'Rule created')
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Something went wrong'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Rule' : 'New Rule'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="grid grid-cols-[1fr_2fr] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="rule-match-type">Description</Label>
+              <Select value={matchType} onValueChange={(v) => setMatchType(v as RuleMatchType)}>
+                <SelectTrigger id="rule-match-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_MATCH_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {RULE_MATCH_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-pattern">Pattern</Label>
+              <Input
+                id="rule-pattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder={matchType === 'regex' ? 'e.g., ^SQ \\*' : 'e.g., shell'}
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="rule-type">Type</Label>
+              <Select value={transactionType} onValueChange={setTransactionType}>
+                <SelectTrigger id="rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-min">Min amount</Label>
+              <Input
+                id="rule-min"
+                type="number"
+                step="0.01"
+                min="0"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max">Max amount</Label>
+              <Input
+                id="rule-max"
+                type="number"
+                step="0.01"
+                min="0"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-category">Set category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger id="rule-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Don&apos;t change</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-rename">Rename description to</Label>
+            <Input
+              id="rule-rename"
+              value={renameTo}
+              onChange={(e) => setRenameTo(e.target.value)}
+              placeholder="Leave empty to keep the description"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority">Priority</Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                min="0"
+                step="1"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="rule-enabled" checked={enabled} onCheckedChange={setEnabled} />
+              <Label htmlFor="rule-enabled">Enabled</Label>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Lower numbers run first. Amounts are compared without their sign.
+          </p>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Rule'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
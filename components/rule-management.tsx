@@ -0,0 +1,269 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { RuleForm } from '@/components/rule-form'
+import { applyRuleRun, deleteRule, previewRuleRun, type RuleRunChange } from '@/lib/actions/rules'
+import { RULE_MATCH_TYPE_LABELS, sortRules, type RuleMatchType } from '@/lib/utils/rule-engine'
+import { dollarsToCents, formatMoney } from '@/lib/utils/money'
+import type { CategorizationRule, Category } from '@/lib/types'
+
+interface RuleManagementProps {
+  categories: Category[]
+  rules: CategorizationRule[]
+}
+
+function describeConditions(rule: CategorizationRule): string[] {
+  const conditions: string[] = []
+  if (rule.transaction_type) {
+    conditions.push(rule.transaction_type === 'income' ? 'Income only' : 'Expenses only')
+  }
+  if (rule.min_amount !== null && rule.max_amount !== null) {
+    conditions.push(`${formatMoney(dollarsToCents(rule.min_amount))}–${formatMoney(dollarsToCents(rule.max_amount))}`)
+  } else if (rule.min_amount !== null) {
+    conditions.push(`≥ ${formatMoney(dollarsToCents(rule.min_amount))}`)
+  } else if (rule.max_amount !== null) {
+    conditions.push(`≤ ${formatMoney(dollarsToCents(rule.max_amount))}`)
+  }
+  return conditions
+}
+
+export function RuleManagement({ categories, rules }: RuleManagementProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [previewOpen, setPreviewOpen] = useState(false)
+  const [changes, setChanges] = useState<RuleRunChange[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  const sortedRules = sortRules(rules)
+  const nextPriority = sortedRules.length > 0
+    ? sortedRules[sortedRules.length - 1].priority + 10
+    : 10
+
+  const categoryName = (id: string | null) =>
+    id ? categories.find((c) => c.id === id)?.name ?? 'Unknown' : 'Uncategorized'
+
+  const handleDelete = async (ruleId: string) => {
+    setLoading(ruleId)
+    setError(null)
+
+    try {
+      await deleteRule(ruleId)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const handlePreview = async () => {
+    setLoading('preview')
+    setError(null)
+
+    try {
+      const preview = await previewRuleRun()
+      setChanges(preview)
+      setSelected(new Set(preview.map((c) => c.transactionId)))
+      setPreviewOpen(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview rules')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const handleApply = async () => {
+    setLoading('apply')
+
+    try {
+      const result = await applyRuleRun(changes.filter((c) => selected.has(c.transactionId)))
+      if (!result.success) {
+        const count = result.conflicts.length + result.locked.length
+        toast.error(
+          `${count} transaction${count !== 1 ? 's' : ''} changed since the preview. Nothing was saved; preview again.`
+        )
+        return
+      }
+      toast.success(`Updated ${result.updated} transaction${result.updated !== 1 ? 's' : ''}`)
+      setPreviewOpen(false)
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to apply rules')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const toggleSelected = (transactionId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const updated = new Set(prev)
+      if (checked) {
+        updated.add(transactionId)
+      } else {
+        updated.delete(transactionId)
+      }
+      return updated
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 dark:bg-red-950/20 p-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold">Rules</h3>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handlePreview}
+            disabled={rules.length === 0 || loading === 'preview'}
+          >
+            {loading === 'preview' ? 'Checking...' : 'Re-run on existing'}
+          </Button>
+          <RuleForm
+            categories={categories}
+            defaultPriority={nextPriority}
+            trigger={<Button size="sm">+ Add Rule</Button>}
+          />
+        </div>
+      </div>
+
+      {sortedRules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No rules yet. Rules run before keywords and can also rename descriptions.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {sortedRules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between gap-2 py-2 border-b last:border-0 ${rule.enabled ? '' : 'opacity-60'}`}
+            >
+              <div className="min-w-0 text-sm">
+                <p>
+                  <span className="text-muted-foreground">#{rule.priority} </span>
+                  {RULE_MATCH_TYPE_LABELS[rule.match_type as RuleMatchType] ?? rule.match_type}{' '}
+                  <span className="font-mono">&quot;{rule.pattern}&quot;</span>
+                </p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {rule.category_id && (
+                    <Badge variant="secondary">→ {categoryName(rule.category_id)}</Badge>
+                  )}
+                  {rule.rename_to && (
+                    <Badge variant="secondary">Rename to &quot;{rule.rename_to}&quot;</Badge>
+                  )}
+                  {describeConditions(rule).map((condition) => (
+                    <Badge key={condition} variant="outline">{condition}</Badge>
+                  ))}
+                  {!rule.enabled && <Badge variant="outline">Disabled</Badge>}
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                <RuleForm
+                  categories={categories}
+                  rule={rule}
+                  trigger={<Button variant="ghost" size="sm">Edit</Button>}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(rule.id)}
+                  disabled={loading === rule.id}
+                  aria-label={`Delete rule ${rule.pattern}`}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={previewOpen} onOpenChange={setPreviewOpen}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Re-run rules on existing transactions</DialogTitle>
+          </DialogHeader>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Your rules wouldn&apos;t change any existing transactions.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {changes.length} transaction{changes.length !== 1 ? 's' : ''} would change.
+                Uncheck any you want to leave as they are.
+              </p>
+              <div className="space-y-2">
+                {changes.map((change) => (
+                  <label
+                    key={change.transactionId}
+                    className="flex items-start gap-3 py-2 border-b last:border-0 text-sm"
+                  >
+                    <Checkbox
+                      checked={selected.has(change.transactionId)}
+                      onCheckedChange={(checked) => toggleSelected(change.transactionId, checked === true)}
+                      aria-label={`Apply rules to ${change.description ?? 'transaction'}`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-muted-foreground">
+                        {new Date(change.date + 'T00:00:00').toLocaleDateString()} •{' '}
+                        {formatMoney(dollarsToCents(change.amount))}
+                      </p>
+                      {change.newDescription !== change.description && (
+                        <p>
+                          <span className="line-through text-muted-foreground">{change.description}</span>
+                          {' → '}
+                          {change.newDescription}
+                        </p>
+                      )}
+                      {change.newDescription === change.description && <p>{change.description}</p>}
+                      {change.newCategoryId !== change.currentCategoryId && (
+                        <p>
+                          <span className="line-through text-muted-foreground">
+                            {categoryName(change.currentCategoryId)}
+                          </span>
+                          {' → '}
+                          {categoryName(change.newCategoryId)}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setPreviewOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleApply}
+                  disabled={selected.size === 0 || loading === 'apply'}
+                >
+                  {loading === 'apply' ? 'Applying...' : `Apply to ${selected.size}`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
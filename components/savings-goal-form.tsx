@@ -0,0 +1,199 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  createSavingsGoal,
+  updateSavingsGoal,
+  type SavingsGoalWithProgress,
+} from '@/lib/actions/goals'
+import type { Category } from '@/lib/types'
+
+// Select items can't have an empty value
+const NO_CATEGORY = 'none'
+
+interface SavingsGoalFormProps {
+  categories: Category[]
+  goal?: SavingsGoalWithProgress
+  trigger: React.ReactNode
+}
+
+export function SavingsGoalForm({ categories, goal, trigger }: SavingsGoalFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState(goal?.name ?? '')
+  const [targetAmount, setTargetAmount] = useState(goal?.target_amount?.toString() ?? '')
+  const [targetDate, setTargetDate] = useState(goal?.target_date ?? '')
+  const [categoryId, setCategoryId] = useState(goal?.category_id ?? NO_CATEGORY)
+  const [autoBudget, setAutoBudget] = useState(goal?.auto_budget ?? false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const isEditing = !!goal
+  const hasCategory = categoryId !== NO_CATEGORY
+
+  const resetForm = () => {
+    setName('')
+    setTargetAmount('')
+    setTargetDate('')
+    setCategoryId(NO_CATEGORY)
+    setAutoBudget(false)
+    setError('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!name.trim()) {
+      setError('Please enter a name')
+      return
+    }
+
+    const parsedAmount = parseFloat(targetAmount)
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError('Enter a target greater than zero')
+      return
+    }
+
+    if (!targetDate) {
+      setError('Please choose a target date')
+      return
+    }
+
+    setLoading(true)
+
+    const input = {
+      name: name.trim(),
+      targetAmount: parsedAmount,
+      targetDate,
+      categoryId: hasCategory ? categoryId : null,
+      autoBudget: hasCategory && autoBudget,
+    }
+
+    try {
+      if (isEditing) {
+        await updateSavingsGoal(goal.id, input)
+      } else {
+        await createSavingsGoal(input)
+      }
+      setOpen(false)
+      if (!isEditing) resetForm()
+      toast.success(isEditing ? 'Goal updated' : 'Goal created')
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Something went wrong'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Goal' : 'New Savings Goal'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="space-y-2">
+            <Label htmlFor="goal-name">Name</Label>
+            <Input
+              id="goal-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Summer vacation"
+              maxLength={50}
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="goal-target">Target</Label>
+              <Input
+                id="goal-target"
+                type="number"
+                step="0.01"
+                min="0"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-date">By</Label>
+              <Input
+                id="goal-date"
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="goal-category">Savings category (optional)</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger id="goal-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CATEGORY}>None</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Spending in this category counts toward the goal, e.g. transfers to a savings account.
+            </p>
+          </div>
+
+          {hasCategory && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="goal-auto-budget" className="font-normal">
+                Budget the monthly contribution in this category
+              </Label>
+              <Switch
+                id="goal-auto-budget"
+                checked={autoBudget}
+                onCheckedChange={setAutoBudget}
+              />
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Goal'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
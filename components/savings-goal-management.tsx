@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { SavingsGoalForm } from '@/components/savings-goal-form'
+import { GoalContributionForm } from '@/components/goal-contribution-form'
+import { deleteSavingsGoal, type SavingsGoalWithProgress } from '@/lib/actions/goals'
+import { GOAL_STATUS_COLORS, GOAL_STATUS_LABELS } from '@/lib/utils/goals'
+import { formatMoney } from '@/lib/utils/money'
+import type { Category } from '@/lib/types'
+
+interface SavingsGoalManagementProps {
+  categories: Category[]
+  goals: SavingsGoalWithProgress[]
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+export function SavingsGoalManagement({ categories, goals }: SavingsGoalManagementProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState<string | null>(null)
+
+  const handleDelete = async (goal: SavingsGoalWithProgress) => {
+    setLoading(goal.id)
+    try {
+      await deleteSavingsGoal(goal.id)
+      toast.success('Goal deleted')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete goal')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="py-4 px-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="font-semibold">Goals</h2>
+          <SavingsGoalForm
+            categories={categories}
+            trigger={<Button size="sm">+ Add Goal</Button>}
+          />
+        </div>
+
+        {goals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No savings goals yet. Set a target and a date and we&apos;ll work out what to put
+            aside each month.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {goals.map((goal) => {
+              const { plan } = goal
+              const status = plan.status
+
+              return (
+                <div key={goal.id} className="space-y-2 pb-4 border-b last:border-0 last:pb-0">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{goal.name}</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        <Badge
+                          variant="outline"
+                          style={{ borderColor: GOAL_STATUS_COLORS[status], color: GOAL_STATUS_COLORS[status] }}
+                        >
+                          {GOAL_STATUS_LABELS[status]}
+                        </Badge>
+                        <Badge variant="outline">By {formatDate(goal.target_date)}</Badge>
+                        {goal.category && (
+                          <Badge variant="outline">{goal.category.name}</Badge>
+                        )}
+                        {goal.auto_budget && (
+                          <Badge variant="secondary">Auto-budgeted</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0">
+                      <GoalContributionForm
+                        goal={goal}
+                        trigger={<Button variant="ghost" size="sm">Add money</Button>}
+                      />
+                      <SavingsGoalForm
+                        categories={categories}
+                        goal={goal}
+                        trigger={<Button variant="ghost" size="sm">Edit</Button>}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(goal)}
+                        disabled={loading === goal.id}
+                        aria-label={`Delete goal ${goal.name}`}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Progress
+                    value={plan.progressPercent}
+                    className="h-2"
+                    style={{ ['--progress-color' as string]: GOAL_STATUS_COLORS[status] }}
+                  />
+
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {formatMoney(plan.savedCents)} of {formatMoney(goal.target_amount_cents)}
+                    </span>
+                    {status === 'complete' ? (
+                      <span className="text-green-600 dark:text-green-400 font-medium">Reached</span>
+                    ) : status === 'overdue' ? (
+                      <span className="text-destructive font-medium">
+                        {formatMoney(plan.remainingCents)} to go
+                      </span>
+                    ) : (
+                      <span className="font-medium">
+                        {formatMoney(plan.requiredMonthlyCents)}/month
+                        <span className="text-muted-foreground font-normal">
+                          {' '}for {plan.monthsLeft} {plan.monthsLeft === 1 ? 'month' : 'months'}
+                        </span>
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,57 @@
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import type { SavingsGoalWithProgress } from '@/lib/actions/goals'
+import { GOAL_STATUS_COLORS, GOAL_STATUS_LABELS } from '@/lib/utils/goals'
+import { formatMoney } from '@/lib/utils/money'
+
+interface SavingsGoalsCardProps {
+  goals: SavingsGoalWithProgress[]
+}
+
+export function SavingsGoalsCard({ goals }: SavingsGoalsCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-sm font-medium">Savings Goals</CardTitle>
+        <Link href="/goals" className="text-sm text-primary hover:underline">
+          Manage
+        </Link>
+      </CardHeader>
+      <CardContent>
+        {goals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No goals yet. Save toward a trip, a car or a rainy-day fund.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {goals.map((goal) => (
+              <div key={goal.id} className="space-y-1 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">{goal.name}</span>
+                  <span
+                    className="text-xs font-medium shrink-0"
+                    style={{ color: GOAL_STATUS_COLORS[goal.plan.status] }}
+                  >
+                    {GOAL_STATUS_LABELS[goal.plan.status]}
+                  </span>
+                </div>
+                <Progress
+                  value={goal.plan.progressPercent}
+                  className="h-2"
+                  style={{ ['--progress-color' as string]: GOAL_STATUS_COLORS[goal.plan.status] }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {formatMoney(goal.plan.savedCents)} of {formatMoney(goal.target_amount_cents)}
+                  {goal.plan.requiredMonthlyCents > 0 && goal.plan.status !== 'overdue' && (
+                    <> · {formatMoney(goal.plan.requiredMonthlyCents)} this month</>
+                  )}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
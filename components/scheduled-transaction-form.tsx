@@ -0,0 +1,280 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  createScheduledTransaction,
+  updateScheduledTransaction,
+  type ScheduledTransactionWithCategory,
+} from '@/lib/actions/scheduled-transactions'
+import {
+  SCHEDULE_FREQUENCIES,
+  SCHEDULE_FREQUENCY_LABELS,
+  type ScheduleFrequency,
+} from '@/lib/utils/schedule'
+import type { Category } from '@/lib/types'
+
+interface ScheduledTransactionFormProps {
+  categories: Category[]
+  schedule?: ScheduledTransactionWithCategory
+  trigger: React.ReactNode
+}
+
+export function ScheduledTransactionForm({ categories, schedule, trigger }: ScheduledTransactionFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [transactionType, setTransactionType] = useState<'income' | 'expense'>(
+    (schedule?.type as 'income' | 'expense') ?? 'expense'
+  )
+  const [amount, setAmount] = useState(schedule?.amount?.toString() ?? '')
+  const [categoryId, setCategoryId] = useState(schedule?.category_id ?? '')
+  const [description, setDescription] = useState(schedule?.description ?? '')
+  const [frequency, setFrequency] = useState<ScheduleFrequency>(
+    (schedule?.frequency as ScheduleFrequency) ?? 'monthly'
+  )
+  const [dayOfMonth, setDayOfMonth] = useState(schedule?.day_of_month?.toString() ?? '1')
+  const [startDate, setStartDate] = useState(
+    schedule?.start_date ?? new Date().toISOString().split('T')[0]
+  )
+  const [endDate, setEndDate] = useState(schedule?.end_date ?? '')
+  const [mode, setMode] = useState<'auto' | 'confirm'>(
+    (schedule?.mode as 'auto' | 'confirm') ?? 'auto'
+  )
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const isEditing = !!schedule
+  const isIncome = transactionType === 'income'
+
+  const resetForm = () => {
+    setTransactionType('expense')
+    setAmount('')
+    setCategoryId('')
+    setDescription('')
+    setFrequency('monthly')
+    setDayOfMonth('1')
+    setStartDate(new Date().toISOString().split('T')[0])
+    setEndDate('')
+    setMode('auto')
+    setError('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const parsedAmount = parseFloat(amount)
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError('Enter an amount greater than zero')
+      return
+    }
+
+    if (!isIncome && !categoryId) {
+      setError('Please select a category')
+      return
+    }
+
+    setLoading(true)
+
+    const input = {
+      categoryId: categoryId || null,
+      amount: parsedAmount,
+      description: description.trim() || null,
+      type: transactionType,
+      frequency,
+      dayOfMonth: frequency === 'monthly' ? parseInt(dayOfMonth, 10) : null,
+      startDate,
+      endDate: endDate || null,
+      mode,
+    }
+
+    try {
+      if (isEditing) {
+        await updateScheduledTransaction(schedule.id, input)
+      } else {
+        await createScheduledTransaction(input)
+      }
+      setOpen(false)
+      if (!isEditing) resetForm()
+      toast.success(isEditing ? 'Schedule updated' : 'Schedule created')
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Something went wrong'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Schedule' : 'New Schedule'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex rounded-lg border p-1 gap-1">
+            <button
+              type="button"
+              onClick={() => setTransactionType('expense')}
+              className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${!isIncome
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+                }`}
+            >
+              Expense
+            </button>
+            <button
+              type="button"
+              onClick={() => setTransactionType('income')}
+              className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${isIncome
+                ? 'bg-green-600 text-white'
+                : 'text-muted-foreground hover:text-foreground'
+                }`}
+            >
+              Income
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-amount">Amount</Label>
+              <Input
+                id="schedule-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-category">Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger id="schedule-category">
+                  <SelectValue placeholder={isIncome ? 'None' : 'Select category'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-description">Description</Label>
+            <Input
+              id="schedule-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Rent"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid grid-cols-[2fr_1fr] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-frequency">Repeats</Label>
+              <Select value={frequency} onValueChange={(v) => setFrequency(v as ScheduleFrequency)}>
+                <SelectTrigger id="schedule-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULE_FREQUENCIES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {SCHEDULE_FREQUENCY_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {frequency === 'monthly' && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-day">Day</Label>
+                <Input
+                  id="schedule-day"
+                  type="number"
+                  min="1"
+                  max="31"
+                  step="1"
+                  value={dayOfMonth}
+                  onChange={(e) => setDayOfMonth(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-start">Starts</Label>
+              <Input
+                id="schedule-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-end">Ends (optional)</Label>
+              <Input
+                id="schedule-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-mode">When it&apos;s due</Label>
+            <Select value={mode} onValueChange={(v) => setMode(v as 'auto' | 'confirm')}>
+              <SelectTrigger id="schedule-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Post it automatically</SelectItem>
+                <SelectItem value="confirm">Remind me to confirm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Days past the end of a short month fall on its last day.
+          </p>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Schedule'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { ScheduledTransactionForm } from '@/components/scheduled-transaction-form'
+import {
+  deleteScheduledTransaction,
+  type ScheduledTransactionWithCategory,
+} from '@/lib/actions/scheduled-transactions'
+import { SCHEDULE_FREQUENCY_LABELS, type ScheduleFrequency } from '@/lib/utils/schedule'
+import { dollarsToCents, formatMoney } from '@/lib/utils/money'
+import type { Category } from '@/lib/types'
+
+interface ScheduledTransactionManagementProps {
+  categories: Category[]
+  schedules: ScheduledTransactionWithCategory[]
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+function describeFrequency(schedule: ScheduledTransactionWithCategory): string {
+  const label = SCHEDULE_FREQUENCY_LABELS[schedule.frequency as ScheduleFrequency] ?? schedule.frequency
+  return schedule.frequency === 'monthly' ? `${label} ${schedule.day_of_month}` : label
+}
+
+export function ScheduledTransactionManagement({ categories, schedules }: ScheduledTransactionManagementProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState<string | null>(null)
+
+  const handleDelete = async (schedule: ScheduledTransactionWithCategory) => {
+    setLoading(schedule.id)
+    try {
+      await deleteScheduledTransaction(schedule.id)
+      toast.success('Schedule deleted')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete schedule')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="py-4 px-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="font-semibold">Schedules</h2>
+          <ScheduledTransactionForm
+            categories={categories}
+            trigger={<Button size="sm">+ Add Schedule</Button>}
+          />
+        </div>
+
+        {schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No scheduled transactions yet. Add rent, bills or paychecks once and they&apos;ll
+            be entered for you.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => {
+              const hasEnded = !!schedule.end_date && schedule.next_date > schedule.end_date
+              const amountCents = schedule.amount_cents ?? dollarsToCents(schedule.amount)
+
+              return (
+                <div
+                  key={schedule.id}
+                  className={`flex items-center justify-between gap-2 py-2 border-b last:border-0 ${hasEnded ? 'opacity-60' : ''}`}
+                >
+                  <div className="min-w-0 text-sm">
+                    <p>
+                      <span className="font-medium">{schedule.description || schedule.category?.name || 'Scheduled'}</span>{' '}
+                      <span className={schedule.type === 'income' ? 'text-green-600 dark:text-green-400' : ''}>
+                        {schedule.type === 'income' ? '+' : ''}{formatMoney(amountCents)}
+                      </span>
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant="secondary">{describeFrequency(schedule)}</Badge>
+                      {schedule.category && (
+                        <Badge variant="outline">{schedule.category.name}</Badge>
+                      )}
+                      {schedule.mode === 'confirm' && (
+                        <Badge variant="outline">Confirm first</Badge>
+                      )}
+                      {hasEnded ? (
+                        <Badge variant="outline">Ended</Badge>
+                      ) : (
+                        <Badge variant="outline">Next {formatDate(schedule.next_date)}</Badge>
+                      )}
+                      {schedule.end_date && !hasEnded && (
+                        <Badge variant="outline">Until {formatDate(schedule.end_date)}</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0">
+                    <ScheduledTransactionForm
+                      categories={categories}
+                      schedule={schedule}
+                      trigger={<Button variant="ghost" size="sm">Edit</Button>}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(schedule)}
+                      disabled={loading === schedule.id}
+                      aria-label={`Delete schedule ${schedule.description ?? ''}`.trim()}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { formatMoney } from '@/lib/utils/money'
+import { Category } from '@/lib/types'
+
+export type SplitDraft = {
+  categoryId: string
+  amount: string
+  memo: string
+}
+
+/**
+ * Cents still to allocate across split lines; blank or invalid amounts count as zero.
+ */
+export function getUnallocatedCents(totalCents: number, splits: SplitDraft[]): number {
+  const allocated = splits.reduce((sum, split) => {
+    const value = parseFloat(split.amount)
+    return sum + (isNaN(value) ? 0 : Math.round(value * 100))
+  }, 0)
+  return totalCents - allocated
+}
+
+interface SplitEditorProps {
+  categories: Category[]
+  splits: SplitDraft[]
+  totalCents: number
+  onChange: (splits: SplitDraft[]) => void
+}
+
+export function SplitEditor({ categories, splits, totalCents, onChange }: SplitEditorProps) {
+  const unallocatedCents = getUnallocatedCents(totalCents, splits)
+
+  const updateSplit = (index: number, changes: Partial<SplitDraft>) => {
+    onChange(splits.map((split, i) => (i === index ? { ...split, ...changes } : split)))
+  }
+
+  const removeSplit = (index: number) => {
+    onChange(splits.filter((_, i) => i !== index))
+  }
+
+  const addSplit = () => {
+    // Pre-fill the new line with whatever is left to allocate
+    const amount = unallocatedCents !== 0 ? (unallocatedCents / 100).toFixed(2) : ''
+    onChange([...splits, { categoryId: '', amount, memo: '' }])
+  }
+
+  return (
+    <div className="space-y-2">
+      {splits.map((split, index) => (
+        <div key={index} className="space-y-1 rounded-lg border p-2">
+          <div className="flex gap-2">
+            <Select
+              value={split.categoryId}
+              onValueChange={(value) => updateSplit(index, { categoryId: value })}
+            >
+              <SelectTrigger className="flex-1" aria-label={`Split ${index + 1} category`}>
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((cat) => (
+                  <SelectItem key={cat.id} value={cat.id}>
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: cat.color }}
+                      />
+                      {cat.name}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.01"
+              className="w-28"
+              value={split.amount}
+              onChange={(e) => updateSplit(index, { amount: e.target.value })}
+              placeholder="0.00"
+              aria-label={`Split ${index + 1} amount`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeSplit(index)}
+              disabled={splits.length <= 2}
+              aria-label={`Remove split ${index + 1}`}
+            >
+              ✕
+            </Button>
+          </div>
+          <Input
+            value={split.memo}
+            onChange={(e) => updateSplit(index, { memo: e.target.value })}
+            placeholder="Memo (optional)"
+            maxLength={100}
+            aria-label={`Split ${index + 1} memo`}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addSplit}>
+          + Add line
+        </Button>
+        {unallocatedCents === 0 ? (
+          <span className="text-sm text-green-600">Splits add up</span>
+        ) : (
+          <span className="text-sm text-destructive">
+            {unallocatedCents > 0
+              ? `${formatMoney(unallocatedCents)} left to allocate`
+              : `${formatMoney(-unallocatedCents)} over the total`}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
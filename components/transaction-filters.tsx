@@ -0,0 +1,168 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  TRANSACTION_SORTS,
+  TRANSACTION_SORT_LABELS,
+  hasActiveFilters,
+  toTransactionSearchQuery,
+  type TransactionSearchParams,
+  type TransactionSort,
+} from '@/lib/utils/transaction-search'
+import type { Category } from '@/lib/types'
+
+interface TransactionFiltersProps {
+  filters: TransactionSearchParams
+  categories: Category[]
+}
+
+// Radix Select items can't have an empty value
+const ANY = 'any'
+
+export function TransactionFilters({ filters, categories }: TransactionFiltersProps) {
+  const router = useRouter()
+  const [search, setSearch] = useState(filters.search ?? '')
+  const [startDate, setStartDate] = useState(filters.startDate ?? '')
+  const [endDate, setEndDate] = useState(filters.endDate ?? '')
+  const [categoryId, setCategoryId] = useState(filters.categoryId ?? ANY)
+  const [type, setType] = useState<string>(filters.type ?? ANY)
+  const [minAmount, setMinAmount] = useState(filters.minAmount?.toString() ?? '')
+  const [maxAmount, setMaxAmount] = useState(filters.maxAmount?.toString() ?? '')
+
+  // Any change starts again from the first page
+  const navigate = (next: TransactionSearchParams) => {
+    const query = toTransactionSearchQuery({ ...next, cursor: undefined })
+    router.push(query ? `/transactions?${query}` : '/transactions')
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    navigate({
+      search: search.trim() || undefined,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      categoryId: categoryId === ANY ? undefined : categoryId,
+      type: type === ANY ? undefined : (type as TransactionSearchParams['type']),
+      minAmount: minAmount === '' ? undefined : parseFloat(minAmount),
+      maxAmount: maxAmount === '' ? undefined : parseFloat(maxAmount),
+      sort: filters.sort,
+    })
+  }
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="py-4 px-4">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              aria-label="Search descriptions"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search descriptions"
+              maxLength={100}
+            />
+            <Select
+              value={filters.sort ?? 'date_desc'}
+              onValueChange={(value) => navigate({ ...filters, sort: value as TransactionSort })}
+            >
+              <SelectTrigger className="w-40 shrink-0" aria-label="Sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSACTION_SORTS.map((sort) => (
+                  <SelectItem key={sort} value={sort}>
+                    {TRANSACTION_SORT_LABELS[sort]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="filter-from" className="text-xs">From</Label>
+              <Input id="filter-from" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-to" className="text-xs">To</Label>
+              <Input id="filter-to" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All categories</SelectItem>
+                  <SelectItem value="uncategorized">Uncategorized</SelectItem>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      {cat.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All types</SelectItem>
+                  <SelectItem value="expense">Expenses</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                  <SelectItem value="transfer">Transfers</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-min" className="text-xs">Min amount</Label>
+              <Input
+                id="filter-min"
+                type="number"
+                step="0.01"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-max" className="text-xs">Max amount</Label>
+              <Input
+                id="filter-max"
+                type="number"
+                step="0.01"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {hasActiveFilters(filters) && (
+              <Button type="button" variant="ghost" size="sm" asChild>
+                <Link href="/transactions">Clear</Link>
+              </Button>
+            )}
+            <Button type="submit" size="sm">Apply</Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
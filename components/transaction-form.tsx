@@ -21,8 +21,9 @@ import {
 } from '@/components/ui/select'
 import { createTransaction, updateTransaction, TransactionWithCategory } from '@/lib/actions/transactions'
 import { createCategory } from '@/lib/actions/categories'
-import { Category } from '@/lib/types'
+import { Account, Category } from '@/lib/types'
 import { BudgetWarning } from '@/components/budget-warning'
+import { SplitEditor, getUnallocatedCents, type SplitDraft } from '@/components/split-editor'
 import {
   wouldExceedBudget,
   getSortedCategorySuggestions,
@@ -30,6 +31,8 @@ import {
 
 interface TransactionFormProps {
   categories: Category[]
+  /** Choosing an account is only offered when there's more than one */
+  accounts?: Account[]
   transaction?: TransactionWithCategory
   trigger: React.ReactNode
   onSuccess?: () => void
@@ -37,13 +40,22 @@ interface TransactionFormProps {
   spentMap?: Record<string, number>
 }
 
-export function TransactionForm({ categories, transaction, trigger, onSuccess, budgetMap, spentMap }: TransactionFormProps) {
+export function TransactionForm({ categories, accounts = [], transaction, trigger, onSuccess, budgetMap, spentMap }: TransactionFormProps) {
   const [open, setOpen] = useState(false)
   const [transactionType, setTransactionType] = useState<'income' | 'expense'>(
     (transaction?.type as 'income' | 'expense') ?? 'expense'
   )
   const [amount, setAmount] = useState(transaction?.amount?.toString() ?? '')
   const [categoryId, setCategoryId] = useState(transaction?.category_id ?? '')
+  const defaultAccountId = accounts.find((account) => account.is_default)?.id ?? ''
+  const [accountId, setAccountId] = useState(transaction?.account_id ?? defaultAccountId)
+  const [splits, setSplits] = useState<SplitDraft[]>(
+    transaction?.splits?.map((split) => ({
+      categoryId: split.category_id ?? '',
+      amount: split.amount.toString(),
+      memo: split.memo ?? '',
+    })) ?? []
+  )
   const [description, setDescription] = useState(transaction?.description ?? '')
   const [date, setDate] = useState(
     transaction?.date ?? new Date().toISOString().split('T')[0]
@@ -61,6 +73,8 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
 
   const isEditing = !!transaction
   const isIncome = transactionType === 'income'
+  const isSplit = !isIncome && splits.length > 0
+  const amountCents = Math.round((parseFloat(amount) || 0) * 100)
 
   // Reset warning dismissed flag when category changes
   useEffect(() => {
@@ -69,8 +83,8 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
 
   // Check for budget warnings when amount or category changes (expenses only)
   useEffect(() => {
-    // Only check warnings for expenses with budgetMap and spentMap
-    if (isIncome || !budgetMap || !spentMap) {
+    // Only check warnings for unsplit expenses with budgetMap and spentMap
+    if (isIncome || isSplit || !budgetMap || !spentMap) {
       setShowWarning(false)
       setWarningData(null)
       return
@@ -119,7 +133,7 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
       setShowWarning(false)
       setWarningData(null)
     }
-  }, [amount, categoryId, budgetMap, spentMap, categories, warningDismissed, isIncome])
+  }, [amount, categoryId, budgetMap, spentMap, categories, warningDismissed, isIncome, isSplit])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -131,12 +145,33 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
       return
     }
 
-    // Category required for expenses only
-    if (!isIncome && !categoryId) {
-      setError('Please select a category')
+    if (isSplit) {
+      if (splits.some((split) => !split.categoryId)) {
+        setError('Please select a category for each split')
+        return
+      }
+      if (splits.some((split) => !parseFloat(split.amount))) {
+        setError('Each split needs a non-zero amount')
+        return
+      }
+      if (getUnallocatedCents(amountCents, splits) !== 0) {
+        setError('Splits must add up to the transaction amount')
+        return
+      }
+    } else if (!isIncome && !categoryId && (isEditing || !description.trim())) {
+      // Category required for expenses only; a new one's rules can pick it
+      setError(isEditing ? 'Please select a category' : 'Please select a category, or describe it for your rules to match')
       return
     }
 
+    const splitInput = isSplit
+      ? splits.map((split) => ({
+          categoryId: split.categoryId,
+          amount: parseFloat(split.amount),
+          memo: split.memo.trim() || undefined,
+        }))
+      : undefined
+
     setLoading(true)
 
     try {
@@ -148,19 +183,23 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
         }
 
         await updateTransaction(transaction.id, {
-          categoryId: isIncome ? undefined : categoryId,
+          categoryId: isIncome || isSplit ? undefined : categoryId,
           amount: numAmount,
           description: description.trim() || undefined,
           date,
           type: transactionType,
+          splits: splitInput,
+          accountId: accountId || undefined,
         }, expectedUpdatedAt)
       } else {
         await createTransaction({
-          categoryId: isIncome ? undefined : categoryId,
+          categoryId: isIncome || isSplit ? undefined : categoryId || undefined,
           amount: numAmount,
           description: description.trim() || undefined,
           date,
           type: transactionType,
+          splits: splitInput,
+          accountId: accountId || undefined,
         })
       }
       setOpen(false)
@@ -199,6 +238,19 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
     // Warning will automatically update via useEffect
   }
 
+  const handleStartSplit = () => {
+    // Start with the whole amount on the current category and an empty second line
+    setSplits([
+      { categoryId, amount, memo: '' },
+      { categoryId: '', amount: '', memo: '' },
+    ])
+  }
+
+  const handleCancelSplit = () => {
+    setCategoryId(splits[0]?.categoryId ?? categoryId)
+    setSplits([])
+  }
+
   const handleKeepCategory = () => {
     setShowWarning(false)
     setWarningDismissed(true)
@@ -208,6 +260,8 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
     setTransactionType('expense')
     setAmount('')
     setCategoryId('')
+    setAccountId(defaultAccountId)
+    setSplits([])
     setDescription('')
     setDate(new Date().toISOString().split('T')[0])
     setError('')
@@ -277,10 +331,33 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
             <p className="text-xs text-muted-foreground">Use a negative amount for refunds.</p>
           </div>
 
+          {/* Split lines - only for expenses */}
+          {isSplit && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Split</Label>
+                <Button type="button" variant="ghost" size="sm" onClick={handleCancelSplit}>
+                  Don&apos;t split
+                </Button>
+              </div>
+              <SplitEditor
+                categories={categories}
+                splits={splits}
+                totalCents={amountCents}
+                onChange={setSplits}
+              />
+            </div>
+          )}
+
           {/* Category - only for expenses */}
-          {!isIncome && (
+          {!isIncome && !isSplit && (
             <div className="space-y-2">
-              <Label>Category</Label>
+              <div className="flex items-center justify-between">
+                <Label>Category</Label>
+                <Button type="button" variant="ghost" size="sm" onClick={handleStartSplit}>
+                  Split
+                </Button>
+              </div>
               {showNewCategory ? (
                 <div className="flex gap-2">
                   <Input
@@ -336,6 +413,24 @@ export function TransactionForm({ categories, transaction, trigger, onSuccess, b
             />
           )}
 
+          {accounts.length > 1 && (
+            <div className="space-y-2">
+              <Label>Account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="description">Description (optional)</Label>
             <Input
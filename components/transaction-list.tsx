@@ -1,10 +1,12 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { toast } from 'sonner'
 import { formatMoney, dollarsToCents } from '@/lib/utils/money'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,24 +19,42 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
 import { TransactionForm } from './transaction-form'
+import { BulkEditBar } from './bulk-edit-bar'
 import { deleteTransaction, TransactionWithCategory } from '@/lib/actions/transactions'
-import { Category } from '@/lib/types'
+import { unlockTransaction } from '@/lib/actions/reconciliations'
+import type { MemberSummary } from '@/lib/actions/members'
+import { Account, Category } from '@/lib/types'
+import { isTransferTransaction } from '@/lib/utils/transaction-helpers'
+import { isReconciled } from '@/lib/utils/reconciliation'
+import { TRASH_RETENTION_DAYS } from '@/lib/utils/trash'
 
 interface TransactionListProps {
   transactions: TransactionWithCategory[]
   categories: Category[]
+  accounts?: Account[]
+  /** Household members, to show who entered each transaction */
+  members?: MemberSummary[]
   budgetMap?: Record<string, number>
   spentMap?: Record<string, number>
+  /** Shown instead of the list when there are no transactions */
+  emptyMessage?: string
 }
 
-export function TransactionList({ transactions, categories, budgetMap, spentMap }: TransactionListProps) {
+export function TransactionList({ transactions, categories, accounts = [], members = [], budgetMap, spentMap, emptyMessage }: TransactionListProps) {
   const [deleting, setDeleting] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // Rows a bulk edit couldn't change, until the selection changes
+  const [rejectedIds, setRejectedIds] = useState<Set<string>>(new Set())
+  const accountNames = new Map(accounts.map((account) => [account.id, account.name]))
+  const showAccounts = accounts.length > 1
+  const memberNames = new Map(members.map((member) => [member.id, member.name]))
+  const showMembers = members.length > 1
 
   const handleDelete = async (id: string) => {
     setDeleting(id)
     try {
       await deleteTransaction(id)
-      toast.success('Transaction deleted')
+      toast.success('Transaction moved to the trash')
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to delete'
       toast.error(message)
@@ -43,20 +63,79 @@ export function TransactionList({ transactions, categories, budgetMap, spentMap
     }
   }
 
+  const handleUnlock = async (id: string) => {
+    setDeleting(id)
+    try {
+      await unlockTransaction(id)
+      toast.success('Transaction unlocked')
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to unlock'
+      toast.error(message)
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  // Drop selections for rows no longer on the page (deleted, or filtered out)
+  const selected = transactions.filter((t) => selectedIds.has(t.id))
+  const allSelected = selected.length === transactions.length
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds)
+    if (checked) {
+      next.add(id)
+    } else {
+      next.delete(id)
+    }
+    setSelectedIds(next)
+    setRejectedIds(new Set())
+  }
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(transactions.map((t) => t.id)) : new Set())
+    setRejectedIds(new Set())
+  }
+
+  const clearSelection = () => {
+    setSelectedIds(new Set())
+    setRejectedIds(new Set())
+  }
+
   if (transactions.length === 0) {
     return (
       <p className="text-center text-muted-foreground py-8">
-        No transactions yet. Add your first one!
+        {emptyMessage ?? 'No transactions yet. Add your first one!'}
       </p>
     )
   }
 
   return (
     <div className="space-y-2">
+      <div className="flex items-center gap-2 px-4 text-sm text-muted-foreground">
+        <Checkbox
+          id="select-all-transactions"
+          checked={allSelected}
+          onCheckedChange={(checked) => toggleAll(checked === true)}
+        />
+        <label htmlFor="select-all-transactions">Select all</label>
+      </div>
+      {selected.length > 0 && (
+        <BulkEditBar
+          selected={selected}
+          categories={categories}
+          onClear={clearSelection}
+          onRejected={(ids) => setRejectedIds(new Set(ids))}
+        />
+      )}
       {transactions.map((transaction) => (
-        <Card key={transaction.id}>
+        <Card key={transaction.id} className={rejectedIds.has(transaction.id) ? 'border-destructive' : undefined}>
           <CardContent className="flex items-center justify-between py-4 px-4">
             <div className="flex items-center gap-3">
+              <Checkbox
+                checked={selectedIds.has(transaction.id)}
+                onCheckedChange={(checked) => toggleSelected(transaction.id, checked === true)}
+                aria-label={`Select transaction: ${formatMoney(transaction.amount_cents ?? dollarsToCents(transaction.amount))}`}
+              />
               <div
                 className="w-3 h-3 rounded-full flex-shrink-0"
                 style={{ backgroundColor: transaction.category?.color ?? '#64748b' }}
@@ -72,54 +151,86 @@ export function TransactionList({ transactions, categories, budgetMap, spentMap
                   )}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  {transaction.category?.name ?? 'Uncategorized'} •{' '}
+                  {isTransferTransaction(transaction)
+                    ? `Transfer: ${accountNames.get(transaction.account_id) ?? 'Account'} → ${accountNames.get(transaction.transfer_account_id ?? '') ?? 'Account'}`
+                    : transaction.splits?.length
+                      ? `Split across ${transaction.splits.length} categories`
+                      : transaction.category?.name ?? 'Uncategorized'} •{' '}
+                  {showAccounts && !isTransferTransaction(transaction) && (
+                    <>{accountNames.get(transaction.account_id)} •{' '}</>
+                  )}
                   {new Date(transaction.date).toLocaleDateString()}
+                  {showMembers && transaction.created_by && memberNames.has(transaction.created_by) && (
+                    <> • by {memberNames.get(transaction.created_by)}</>
+                  )}
                 </p>
               </div>
             </div>
             <div className="flex gap-1">
-              <TransactionForm
-                categories={categories}
-                transaction={transaction}
-                trigger={
-                  <Button variant="ghost" size="sm" aria-label={`Edit transaction: ${formatMoney(transaction.amount_cents ?? dollarsToCents(transaction.amount))}`}>
-                    Edit
-                  </Button>
-                }
-                budgetMap={budgetMap}
-                spentMap={spentMap}
-              />
-              <AlertDialog>
-                <AlertDialogTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    disabled={deleting === transaction.id}
-                    aria-label={`Delete transaction: ${formatMoney(transaction.amount_cents ?? dollarsToCents(transaction.amount))}`}
-                  >
-                    {deleting === transaction.id ? 'Deleting...' : 'Delete'}
-                  </Button>
-                </AlertDialogTrigger>
-                <AlertDialogContent>
-                  <AlertDialogHeader>
-                    <AlertDialogTitle>Delete Transaction?</AlertDialogTitle>
-                    <AlertDialogDescription>
-                      This will permanently delete the {formatMoney(transaction.amount_cents ?? dollarsToCents(transaction.amount))} transaction
-                      {transaction.description ? ` for "${transaction.description}"` : ''}.
-                      This action cannot be undone.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    <AlertDialogAction
-                      onClick={() => handleDelete(transaction.id)}
-                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                    >
-                      Delete
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href={`/transactions/${transaction.id}/history`}>History</Link>
+              </Button>
+              {isReconciled(transaction) ? (
+                // Reconciled against a statement: locked until unlocked
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={deleting === transaction.id}
+                  onClick={() => handleUnlock(transaction.id)}
+                  title="Reconciled. Unlock to edit or delete."
+                >
+                  Unlock
+                </Button>
+              ) : (
+                <>
+                  {/* Transfers are deleted and re-entered rather than edited */}
+                  {!isTransferTransaction(transaction) && (
+                    <TransactionForm
+                      categories={categories}
+                      accounts={accounts}
+                      transaction={transaction}
+                      trigger={
+                        <Button variant="ghost" size="sm" aria-label={`Edit transaction: ${formatMoney(transaction.amount_cents ?? dollarsToCents(transaction.amount))}`}>
+                          Edit
+                        </Button>
+                      }
+                      budgetMap={budgetMap}
+                      spentMap={spentMap}
+                    />
+                  )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleting === transaction.id}
+                        aria-label={`Delete transaction: ${formatMoney(transaction.amount_cents ?? dollarsToCents(transaction.amount))}`}
+                      >
+                        {deleting === transaction.id ? 'Deleting...' : 'Delete'}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Transaction?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This will move the {formatMoney(transaction.amount_cents ?? dollarsToCents(transaction.amount))} transaction
+                          {transaction.description ? ` for "${transaction.description}"` : ''} to the trash,
+                          where it can be restored for {TRASH_RETENTION_DAYS} days.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDelete(transaction.id)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -0,0 +1,176 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { emptyTrash, restoreFromTrash, type TrashTable } from '@/lib/actions/trash'
+import type { TransactionWithCategory } from '@/lib/actions/transactions'
+import type { Category } from '@/lib/types'
+import { formatMoney, dollarsToCents } from '@/lib/utils/money'
+import { getDaysUntilPurge } from '@/lib/utils/trash'
+
+interface TrashListProps {
+  transactions: TransactionWithCategory[]
+  categories: Category[]
+}
+
+// Everything in the trash has a deletion time
+const purgeNote = (deletedAt: string | null) => {
+  const days = deletedAt ? getDaysUntilPurge(deletedAt) : 0
+  if (days === 0) return 'Deleted for good soon'
+  return days === 1 ? 'Deleted for good tomorrow' : `Deleted for good in ${days} days`
+}
+
+export function TrashList({ transactions, categories }: TrashListProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState<string | null>(null)
+  const isEmpty = transactions.length === 0 && categories.length === 0
+
+  const handleRestore = async (table: TrashTable, id: string) => {
+    setLoading(id)
+    try {
+      await restoreFromTrash(table, id)
+      toast.success(table === 'transactions' ? 'Transaction restored' : 'Category restored')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to restore')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const handleEmpty = async () => {
+    setLoading('empty')
+    try {
+      await emptyTrash()
+      toast.success('Trash emptied')
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to empty trash')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  if (isEmpty) {
+    return <p className="text-center text-muted-foreground py-8">The trash is empty.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" className="text-destructive" disabled={loading === 'empty'}>
+              {loading === 'empty' ? 'Emptying...' : 'Empty Trash'}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Everything in the trash will be deleted for good. Transactions in a deleted
+                category become uncategorized, and its budgets and keywords are removed.
+                This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleEmpty}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Empty Trash
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {categories.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {categories.map((category) => (
+              <div
+                key={category.id}
+                className="flex items-center justify-between gap-2 pb-3 border-b last:border-0 last:pb-0"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: category.color }}
+                      aria-hidden="true"
+                    />
+                    <span className="font-medium truncate">{category.name}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{purgeNote(category.deleted_at)}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={loading === category.id}
+                  onClick={() => handleRestore('categories', category.id)}
+                >
+                  {loading === category.id ? 'Restoring...' : 'Restore'}
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {transactions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Transactions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {transactions.map((transaction) => (
+              <div
+                key={transaction.id}
+                className="flex items-center justify-between gap-2 pb-3 border-b last:border-0 last:pb-0"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {transaction.description || 'Transaction'} ·{' '}
+                    {formatMoney(transaction.amount_cents ?? dollarsToCents(transaction.amount))}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {transaction.date}
+                    {transaction.category && ` • ${transaction.category.name}`} •{' '}
+                    {purgeNote(transaction.deleted_at)}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={loading === transaction.id}
+                  onClick={() => handleRestore('transactions', transaction.id)}
+                >
+                  {loading === transaction.id ? 'Restoring...' : 'Restore'}
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  confirmScheduledOccurrence,
+  skipScheduledOccurrence,
+  type UpcomingOccurrence,
+} from '@/lib/actions/scheduled-transactions'
+import { dollarsToCents, formatMoney } from '@/lib/utils/money'
+
+interface UpcomingTransactionsProps {
+  occurrences: UpcomingOccurrence[]
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export function UpcomingTransactions({ occurrences }: UpcomingTransactionsProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState<string | null>(null)
+
+  const handle = async (occurrence: UpcomingOccurrence, action: 'confirm' | 'skip') => {
+    setLoading(`${occurrence.scheduleId}:${occurrence.date}`)
+    try {
+      if (action === 'confirm') {
+        await confirmScheduledOccurrence(occurrence.scheduleId, occurrence.date)
+        toast.success('Transaction added')
+      } else {
+        await skipScheduledOccurrence(occurrence.scheduleId, occurrence.date)
+        toast.success('Skipped')
+      }
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-sm font-medium">Upcoming</CardTitle>
+        <Link href="/scheduled" className="text-sm text-primary hover:underline">
+          Manage
+        </Link>
+      </CardHeader>
+      <CardContent>
+        {occurrences.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing scheduled in the next two weeks.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {occurrences.map((occurrence) => {
+              const key = `${occurrence.scheduleId}:${occurrence.date}`
+              const amountCents = dollarsToCents(occurrence.amount)
+
+              return (
+                <div key={key} className="text-sm py-1 border-b last:border-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {occurrence.category && (
+                        <div
+                          className="w-2 h-2 rounded-full shrink-0"
+                          style={{ backgroundColor: occurrence.category.color }}
+                        />
+                      )}
+                      <span className="truncate">
+                        {occurrence.description || occurrence.category?.name || 'Scheduled'}
+                      </span>
+                    </div>
+                    <span className={`shrink-0 font-medium ${occurrence.type === 'income' ? 'text-green-600 dark:text-green-400' : ''}`}>
+                      {occurrence.type === 'income' ? '+' : ''}{formatMoney(amountCents)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className={occurrence.isDue ? 'text-destructive font-medium' : ''}>
+                      {occurrence.isDue ? `Due ${formatDate(occurrence.date)}` : formatDate(occurrence.date)}
+                      {!occurrence.isDue && occurrence.mode === 'confirm' && ' · needs confirming'}
+                    </span>
+                    {occurrence.isDue && (
+                      <span className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2"
+                          onClick={() => handle(occurrence, 'skip')}
+                          disabled={loading === key}
+                        >
+                          Skip
+                        </Button>
+                        <Button
+                          size="sm"
+                          className="h-6 px-2"
+                          onClick={() => handle(occurrence, 'confirm')}
+                          disabled={loading === key}
+                        >
+                          Confirm
+                        </Button>
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
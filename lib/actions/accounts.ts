@@ -0,0 +1,255 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import { accountSchema, transferSchema, AccountInput, TransferInput } from '@/lib/schemas/account'
+import { dollarsToCents } from '@/lib/utils/money'
+import type { Account } from '@/lib/types'
+
+// Account with its current balance
+export type AccountWithBalance = Account & {
+  /** Opening balance plus every transaction in or out, in cents */
+  balanceCents: number
+}
+
+function revalidateAccountPaths(): void {
+  revalidatePath('/')
+  revalidatePath('/accounts')
+  revalidatePath('/transactions')
+}
+
+/**
+ * Get the household's accounts with their balances, default account first.
+ */
+export async function getAccounts(): Promise<AccountWithBalance[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const [accountsResult, balancesResult] = await Promise.all([
+    supabaseAdmin
+      .from('accounts')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('is_default', { ascending: false })
+      .order('name'),
+    supabaseAdmin.rpc('get_account_balances', { p_household_id: householdId }),
+  ])
+
+  if (accountsResult.error) {
+    throw new Error(`Failed to fetch accounts: ${accountsResult.error.message}`)
+  }
+  if (balancesResult.error) {
+    throw new Error(`Failed to fetch account balances: ${balancesResult.error.message}`)
+  }
+
+  const balances = new Map((balancesResult.data ?? []).map((row) => [row.account_id, row.balance_cents]))
+
+  return (accountsResult.data ?? []).map((account) => ({
+    ...account,
+    balanceCents: balances.get(account.id) ?? account.opening_balance_cents,
+  }))
+}
+
+function toAccountRow(input: AccountInput) {
+  const validated = accountSchema.parse(input)
+  return {
+    name: validated.name,
+    type: validated.type,
+    opening_balance: validated.openingBalance,
+    opening_balance_cents: dollarsToCents(validated.openingBalance),
+  }
+}
+
+/**
+ * Create an account
+ */
+export async function createAccount(input: AccountInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const row = toAccountRow(input)
+
+  const { error } = await supabaseAdmin
+    .from('accounts')
+    .insert({ ...row, household_id: householdId })
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('An account with this name already exists')
+    }
+    throw new Error(`Failed to create account: ${error.message}`)
+  }
+
+  revalidateAccountPaths()
+}
+
+/**
+ * Update an account's name, type or opening balance
+ */
+export async function updateAccount(id: string, input: AccountInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Account ID is required')
+  }
+
+  const row = toAccountRow(input)
+
+  const { error } = await supabaseAdmin
+    .from('accounts')
+    .update({ ...row, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('An account with this name already exists')
+    }
+    throw new Error(`Failed to update account: ${error.message}`)
+  }
+
+  revalidateAccountPaths()
+}
+
+/**
+ * Make an account the one transactions go to when none is chosen
+ */
+export async function setDefaultAccount(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Account ID is required')
+  }
+
+  const { data: account, error: fetchError } = await supabaseAdmin
+    .from('accounts')
+    .select('id')
+    .eq('id', id)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch account: ${fetchError.message}`)
+  }
+  if (!account) {
+    throw new Error('Account not found')
+  }
+
+  // Clear the old default first: only one is allowed at a time
+  const { error: clearError } = await supabaseAdmin
+    .from('accounts')
+    .update({ is_default: false })
+    .eq('household_id', householdId)
+    .eq('is_default', true)
+
+  if (clearError) {
+    throw new Error(`Failed to update default account: ${clearError.message}`)
+  }
+
+  const { error } = await supabaseAdmin
+    .from('accounts')
+    .update({ is_default: true, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to update default account: ${error.message}`)
+  }
+
+  revalidateAccountPaths()
+}
+
+/**
+ * Delete an account. The default account, and accounts that still have
+ * transactions, can't be deleted.
+ */
+export async function deleteAccount(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Account ID is required')
+  }
+
+  const { data: account, error: fetchError } = await supabaseAdmin
+    .from('accounts')
+    .select('is_default')
+    .eq('id', id)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch account: ${fetchError.message}`)
+  }
+  if (!account) {
+    throw new Error('Account not found')
+  }
+  if (account.is_default) {
+    throw new Error('Choose another default account before deleting this one')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('accounts')
+    .delete()
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    // Transactions still reference the account
+    if (error.code === '23503') {
+      throw new Error('Move or delete the transactions in this account before deleting it')
+    }
+    throw new Error(`Failed to delete account: ${error.message}`)
+  }
+
+  revalidateAccountPaths()
+}
+
+/**
+ * Move money from one account to another. A transfer is recorded as one
+ * transaction that counts as neither spending nor income.
+ */
+export async function createTransfer(input: TransferInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  const validated = transferSchema.parse(input)
+
+  const { data: accounts, error: fetchError } = await supabaseAdmin
+    .from('accounts')
+    .select('id')
+    .eq('household_id', householdId)
+    .in('id', [validated.fromAccountId, validated.toAccountId])
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch accounts: ${fetchError.message}`)
+  }
+  if (!accounts || accounts.length !== 2) {
+    throw new Error('Account not found')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('transactions')
+    .insert({
+      household_id: householdId,
+      account_id: validated.fromAccountId,
+      transfer_account_id: validated.toAccountId,
+      category_id: null,
+      amount: validated.amount,
+      amount_cents: dollarsToCents(validated.amount),
+      description: validated.description?.trim() || null,
+      date: validated.date,
+      type: 'transfer',
+      updated_by: memberId,
+    })
+
+  if (error) {
+    throw new Error(`Failed to create transfer: ${error.message}`)
+  }
+
+  revalidateAccountPaths()
+}
@@ -0,0 +1,103 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import type { AuditLogEntry } from '@/lib/types'
+
+const ACTIVITY_PAGE_SIZE = 50
+
+// A page of the activity feed, newest first
+export type ActivityPage = {
+  entries: AuditLogEntry[]
+  /** Pass as `before` to load the next page; null on the last page */
+  nextBefore: number | null
+}
+
+/**
+ * Get the household's audit log, newest first, a page at a time.
+ *
+ * @param before - Only entries logged before this one (its seq)
+ */
+export async function getActivityFeed(before?: number): Promise<ActivityPage> {
+  const householdId = await getSession()
+  if (!householdId) return { entries: [], nextBefore: null }
+
+  let query = supabaseAdmin
+    .from('audit_log')
+    .select('*')
+    .eq('household_id', householdId)
+
+  if (before !== undefined) {
+    query = query.lt('seq', before)
+  }
+
+  // One extra row tells whether there is another page
+  const { data, error } = await query
+    .order('seq', { ascending: false })
+    .limit(ACTIVITY_PAGE_SIZE + 1)
+
+  if (error) {
+    throw new Error(`Failed to fetch activity: ${error.message}`)
+  }
+
+  const entries = (data ?? []).slice(0, ACTIVITY_PAGE_SIZE)
+  return {
+    entries,
+    nextBefore: (data?.length ?? 0) > ACTIVITY_PAGE_SIZE ? entries[entries.length - 1].seq : null,
+  }
+}
+
+/**
+ * Get every change to one transaction, oldest first
+ */
+export async function getTransactionHistory(transactionId: string): Promise<AuditLogEntry[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('audit_log')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('table_name', 'transactions')
+    .eq('record_id', transactionId)
+    .order('seq')
+
+  if (error) {
+    throw new Error(`Failed to fetch transaction history: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+/**
+ * Put a deleted transaction back as it was, from the log entry of its delete.
+ * Runs in the restore_deleted_transaction Postgres function so the
+ * transaction and its split lines come back together.
+ */
+export async function restoreDeletedTransaction(entryId: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  if (!entryId || entryId.trim() === '') {
+    throw new Error('Log entry ID is required')
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('restore_deleted_transaction', {
+    p_household_id: householdId,
+    p_entry_id: entryId,
+    p_member_id: memberId ?? undefined,
+  })
+
+  if (error) throw new Error(`Failed to restore transaction: ${error.message}`)
+
+  const result = data as { success: boolean; error?: string }
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to restore transaction')
+  }
+
+  revalidatePath('/')
+  revalidatePath('/transactions')
+  revalidatePath('/activity')
+}
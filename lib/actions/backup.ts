@@ -0,0 +1,111 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession } from '@/lib/auth'
+import { householdBackupSchema, type HouseholdBackup } from '@/lib/schemas/backup'
+import { buildHouseholdBackup, toRestoreRows } from '@/lib/utils/backup'
+import { fetchAllPages } from '@/lib/utils/pagination'
+
+/**
+ * Back up the whole household: settings, member names, accounts,
+ * categories, keywords, merchant patterns, monthly budgets and budget moves,
+ * rules, merchant aliases, scheduled transactions, subscriptions, goals with
+ * their contributions, and transactions with their splits.
+ */
+export async function createHouseholdBackup(): Promise<HouseholdBackup> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const { data: household, error } = await supabaseAdmin
+    .from('households')
+    .select('name, timezone, auto_rollover_budget, zero_based_start_month')
+    .eq('id', householdId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to fetch household: ${error.message}`)
+  }
+
+  const [
+    members, accounts, categories, keywords, merchantPatterns, monthlyBudgets, budgetMoves, rules, merchantAliases,
+    scheduledTransactions, subscriptions, goals, goalContributions, transactions, splits,
+  ] = await Promise.all([
+    // Never the PIN hashes
+    fetchAllPages('members', (from, to) =>
+      supabaseAdmin.from('household_members').select('id, name').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('accounts', (from, to) =>
+      supabaseAdmin.from('accounts').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('categories', (from, to) =>
+      supabaseAdmin.from('categories').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('keywords', (from, to) =>
+      supabaseAdmin.from('category_keywords').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('merchant patterns', (from, to) =>
+      supabaseAdmin.from('merchant_patterns').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('budgets', (from, to) =>
+      supabaseAdmin.from('monthly_budgets').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('budget moves', (from, to) =>
+      supabaseAdmin.from('budget_moves').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('rules', (from, to) =>
+      supabaseAdmin.from('categorization_rules').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('merchant aliases', (from, to) =>
+      supabaseAdmin.from('merchant_aliases').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('scheduled transactions', (from, to) =>
+      supabaseAdmin.from('scheduled_transactions').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('subscriptions', (from, to) =>
+      supabaseAdmin.from('subscriptions').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('goals', (from, to) =>
+      supabaseAdmin.from('savings_goals').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('goal contributions', (from, to) =>
+      supabaseAdmin.from('goal_contributions').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('transactions', (from, to) =>
+      supabaseAdmin.from('transactions').select('*').eq('household_id', householdId).order('id').range(from, to)),
+    fetchAllPages('transaction splits', (from, to) =>
+      supabaseAdmin.from('transaction_splits').select('*').eq('household_id', householdId).order('id').range(from, to)),
+  ])
+
+  return buildHouseholdBackup(
+    {
+      household, members, accounts, categories, keywords, merchantPatterns, monthlyBudgets, budgetMoves, rules,
+      merchantAliases, scheduledTransactions, subscriptions, goals, goalContributions, transactions, splits,
+    },
+    new Date().toISOString()
+  )
+}
+
+/**
+ * Restore a backup archive into this household, which must be empty.
+ * Every row gets a new ID. Who entered what is kept for members whose
+ * names match this household's members. Nothing is restored if any part fails.
+ *
+ * @returns The number of transactions restored
+ */
+export async function restoreHouseholdBackup(archive: unknown): Promise<{ transactions: number }> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const parsed = householdBackupSchema.safeParse(archive)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const path = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : ''
+    throw new Error(`Invalid backup${path}: ${issue.message}`)
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('restore_household_backup', {
+    p_household_id: householdId,
+    p_rows: toRestoreRows(parsed.data),
+  })
+
+  if (error) {
+    throw new Error(`Failed to restore backup: ${error.message}`)
+  }
+
+  const result = data as { success: boolean; error?: string; transactions?: number }
+  if (!result.success) {
+    throw new Error(result.error ?? 'Failed to restore backup')
+  }
+
+  revalidatePath('/', 'layout')
+
+  return { transactions: result.transactions ?? 0 }
+}
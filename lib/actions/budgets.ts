@@ -2,18 +2,35 @@
 
 import { revalidatePath } from 'next/cache'
 import { supabaseAdmin } from '@/lib/supabase-server'
-import { getSession } from '@/lib/auth'
-import { getAutoRolloverSetting, getHouseholdTimezone } from '@/lib/actions/settings'
-import { MonthlyBudget } from '@/lib/types'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import { getAutoRolloverSetting, getHouseholdTimezone, getZeroBasedStartMonth } from '@/lib/actions/settings'
+import { BudgetMove, MonthlyBudget } from '@/lib/types'
 import { validateMonth } from '@/lib/utils/validators'
 import { dollarsToCents, centsToDollars } from '@/lib/utils/money'
-import { getCurrentMonth } from '@/lib/utils/date'
+import { getCurrentMonth, getPreviousMonth } from '@/lib/utils/date'
+import { getCategoryAllocations, isExpenseTransaction } from '@/lib/utils/transaction-helpers'
+import { buildRolloverLedger, type RolloverEntry, type RolloverPolicy } from '@/lib/utils/rollover'
+import { calculateAssignmentStatus, type AssignmentStatus } from '@/lib/utils/budget-warnings'
 import {
   setBudgetSchema,
   copyBudgetSchema,
-  SetBudgetInput
+  moveBudgetMoneySchema,
+  SetBudgetInput,
+  MoveBudgetMoneyInput
 } from '@/lib/schemas/budget'
 
+/**
+ * A month's ready-to-assign balance in zero-based budgeting, in dollars
+ */
+export type ReadyToAssign = AssignmentStatus & {
+  /** First month of zero-based budgeting */
+  startMonth: string
+  /** Income received this month */
+  income: number
+  /** Left unassigned (or over-assigned, when negative) in earlier months */
+  carryover: number
+}
+
 export async function getMonthlyBudgets(month: string, endMonth?: string): Promise<MonthlyBudget[]> {
   validateMonth(month)
   if (endMonth) validateMonth(endMonth)
@@ -45,6 +62,7 @@ export async function getMonthlyBudgets(month: string, endMonth?: string): Promi
 export async function setBudgetAmount(categoryId: string, month: string, amount: number): Promise<void> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   // Validate using Zod
   const validated = setBudgetSchema.parse({
@@ -63,6 +81,7 @@ export async function setBudgetAmount(categoryId: string, month: string, amount:
         month: validated.month,
         budgeted_amount: validated.amount,
         budgeted_amount_cents: dollarsToCents(validated.amount),
+        updated_by: memberId,
       },
       { onConflict: 'household_id,category_id,month' }
     )
@@ -76,6 +95,7 @@ export async function setBudgetAmount(categoryId: string, month: string, amount:
 export async function copyBudgetFromPreviousMonth(currentMonth: string): Promise<void> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   // Validate using Zod
   const validated = copyBudgetSchema.parse({ targetMonth: currentMonth })
@@ -116,6 +136,7 @@ export async function copyBudgetFromPreviousMonth(currentMonth: string): Promise
     month: monthToUse,
     budgeted_amount: b.budgeted_amount,
     budgeted_amount_cents: b.budgeted_amount_cents ?? dollarsToCents(b.budgeted_amount),
+    updated_by: memberId,
   }))
 
   const { error } = await supabaseAdmin
@@ -181,19 +202,16 @@ export async function getBudgetDataForWarnings(): Promise<{
   const { getTransactionsByMonth } = await import('./transactions')
   const transactions = await getTransactionsByMonth(currentMonth)
 
-  // Calculate spent per category (only for expense transactions with valid category_id)
-  // Exclude both income type and income category
+  // Calculate spent per category (only for expense transactions with a category or splits)
+  // Exclude income (by type or category) and transfers
   const spentMapTemp = new Map<string, number>()
   transactions
-    .filter((t): t is typeof t & { category_id: string } =>
-      t.category_id != null &&
-      (t as { type?: string }).type !== 'income' &&
-      t.category?.name?.toLowerCase() !== 'income'
-    )
+    .filter(isExpenseTransaction)
     .forEach((t) => {
-      const amountCents = t.amount_cents ?? dollarsToCents(t.amount)
-      const currentCents = spentMapTemp.get(t.category_id) ?? 0
-      spentMapTemp.set(t.category_id, currentCents + amountCents)
+      getCategoryAllocations(t).forEach(({ categoryId, amountCents }) => {
+        if (!categoryId) return
+        spentMapTemp.set(categoryId, (spentMapTemp.get(categoryId) ?? 0) + amountCents)
+      })
     })
 
   // Convert back to dollars
@@ -208,3 +226,187 @@ export async function getBudgetDataForWarnings(): Promise<{
     spentMap: Object.fromEntries(spentMapDollars),
   }
 }
+
+/**
+ * Compute envelope carryover for every category with a rollover policy.
+ *
+ * Each category's ledger starts at the first month it was ever budgeted
+ * and ends at `month`; the last entry is `month` itself. Monthly totals
+ * come from the get_category_month_totals Postgres function. Categories
+ * that reset each month (or were never budgeted by `month`) are omitted,
+ * so callers can treat a missing entry as no carryover.
+ *
+ * @returns Ledger per category ID, oldest month first
+ */
+export async function getCategoryRollovers(month: string): Promise<Record<string, RolloverEntry[]>> {
+  validateMonth(month)
+
+  const householdId = await getSession()
+  if (!householdId) return {}
+
+  const { data: categories, error } = await supabaseAdmin
+    .from('categories')
+    .select('id, rollover_policy, rollover_cap_cents')
+    .eq('household_id', householdId)
+    .neq('rollover_policy', 'reset')
+
+  if (error) {
+    throw new Error(`Failed to fetch rollover policies: ${error.message}`)
+  }
+
+  if (!categories || categories.length === 0) return {}
+
+  const { data: totals, error: totalsError } = await supabaseAdmin.rpc('get_category_month_totals', {
+    p_household_id: householdId,
+    p_end_month: month,
+  })
+
+  if (totalsError) {
+    throw new Error(`Failed to fetch budgets and spending: ${totalsError.message}`)
+  }
+
+  // Budgeted and spent cents per category, per month. Each category's
+  // months start at its first budget, so its oldest month opens the envelope.
+  const budgetedByCategory = new Map<string, Map<string, number>>()
+  const spentByCategory = new Map<string, Map<string, number>>()
+  for (const total of totals ?? []) {
+    const budgeted = budgetedByCategory.get(total.category_id) ?? new Map<string, number>()
+    const spent = spentByCategory.get(total.category_id) ?? new Map<string, number>()
+    budgeted.set(total.month, total.budgeted_cents)
+    spent.set(total.month, total.spent_cents)
+    budgetedByCategory.set(total.category_id, budgeted)
+    spentByCategory.set(total.category_id, spent)
+  }
+
+  const rollovers: Record<string, RolloverEntry[]> = {}
+  categories.forEach((category) => {
+    const budgeted = budgetedByCategory.get(category.id)
+    if (!budgeted) return
+
+    const firstFunded = [...budgeted.keys()].sort()[0]
+    const months = [month]
+    while (months[0] > firstFunded) {
+      months.unshift(getPreviousMonth(months[0]))
+    }
+
+    rollovers[category.id] = buildRolloverLedger(
+      months,
+      category.rollover_policy as RolloverPolicy,
+      category.rollover_cap_cents,
+      budgeted,
+      spentByCategory.get(category.id) ?? new Map<string, number>()
+    )
+  })
+
+  return rollovers
+}
+
+/**
+ * Work out how much of a month's money is still to be assigned, in
+ * zero-based budgeting: income since the mode was turned on, less everything
+ * budgeted since then. What earlier months left unassigned carries over.
+ *
+ * @returns null when zero-based budgeting is off or began after `month`
+ */
+export async function getReadyToAssign(month: string): Promise<ReadyToAssign | null> {
+  validateMonth(month)
+
+  const householdId = await getSession()
+  if (!householdId) return null
+
+  const startMonth = await getZeroBasedStartMonth()
+  if (!startMonth || month < startMonth) return null
+
+  const { data: totals, error } = await supabaseAdmin.rpc('get_monthly_assignment_totals', {
+    p_household_id: householdId,
+    p_start_month: startMonth,
+    p_end_month: month,
+  })
+
+  if (error) {
+    throw new Error(`Failed to fetch income and budgets: ${error.message}`)
+  }
+
+  // Split into this month and the months before it - in CENTS
+  let incomeCents = 0
+  let earlierIncomeCents = 0
+  let assignedCents = 0
+  let earlierAssignedCents = 0
+  for (const total of totals ?? []) {
+    if (total.month === month) {
+      incomeCents += total.income_cents
+      assignedCents += total.assigned_cents
+    } else {
+      earlierIncomeCents += total.income_cents
+      earlierAssignedCents += total.assigned_cents
+    }
+  }
+
+  const carryoverCents = earlierIncomeCents - earlierAssignedCents
+
+  return {
+    ...calculateAssignmentStatus(
+      centsToDollars(carryoverCents + incomeCents),
+      centsToDollars(assignedCents)
+    ),
+    startMonth,
+    income: centsToDollars(incomeCents),
+    carryover: centsToDollars(carryoverCents),
+  }
+}
+
+/**
+ * Move money from one category's budget to another's for a month, and
+ * record the move. Runs in the move_budget_money Postgres function so both
+ * budgets change together.
+ */
+export async function moveBudgetMoney(input: MoveBudgetMoneyInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  const validated = moveBudgetMoneySchema.parse(input)
+
+  const { data, error } = await supabaseAdmin.rpc('move_budget_money', {
+    p_household_id: householdId,
+    p_month: validated.month,
+    p_from_category_id: validated.fromCategoryId,
+    p_to_category_id: validated.toCategoryId,
+    p_amount_cents: dollarsToCents(validated.amount),
+    p_note: validated.note || undefined,
+    p_member_id: memberId ?? undefined,
+  })
+
+  if (error) throw new Error(`Failed to move money: ${error.message}`)
+
+  const result = data as { success: boolean; error?: string }
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to move money')
+  }
+
+  revalidatePath('/')
+  revalidatePath('/budget')
+}
+
+/**
+ * Get the money moved between categories in a month, most recent first
+ */
+export async function getBudgetMoves(month: string): Promise<BudgetMove[]> {
+  validateMonth(month)
+
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('budget_moves')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('month', month)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch budget moves: ${error.message}`)
+  }
+
+  return data ?? []
+}
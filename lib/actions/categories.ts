@@ -2,37 +2,146 @@
 
 import { revalidatePath } from 'next/cache'
 import { supabaseAdmin } from '@/lib/supabase-server'
-import { getSession } from '@/lib/auth'
+import { getSession, getSessionMemberId } from '@/lib/auth'
 import type { Category } from '@/lib/types'
 import { validateName, validateColor } from '@/lib/utils/validators'
+import { dollarsToCents } from '@/lib/utils/money'
+import { buildCategoryGroups, flattenCategoryGroups } from '@/lib/utils/category-groups'
+import {
+  createCategorySchema,
+  reorderCategoriesSchema,
+  rolloverSettingsSchema,
+  type ReorderCategoriesInput,
+  type RolloverSettingsInput,
+} from '@/lib/schemas/category'
 
-export async function getCategories(): Promise<Category[]> {
+/**
+ * Validate rollover settings and convert them to category columns
+ */
+function toRolloverColumns(rollover: RolloverSettingsInput): {
+  rollover_policy: string
+  rollover_cap_cents: number | null
+} {
+  const validated = rolloverSettingsSchema.parse(rollover)
+  return {
+    rollover_policy: validated.policy,
+    rollover_cap_cents: validated.policy === 'cap' ? dollarsToCents(validated.capAmount!) : null,
+  }
+}
+
+/**
+ * Make sure a category can go inside the given group: the group belongs to
+ * the household and is top-level, and the category isn't a group with
+ * subcategories itself.
+ */
+async function assertValidParent(householdId: string, parentId: string, categoryId?: string): Promise<void> {
+  if (parentId === categoryId) {
+    throw new Error('A category can\'t be its own group')
+  }
+
+  const { data: parent, error } = await supabaseAdmin
+    .from('categories')
+    .select('id, parent_id')
+    .eq('id', parentId)
+    .eq('household_id', householdId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to verify group: ${error.message}`)
+  if (!parent) throw new Error('Group not found')
+  if (parent.parent_id) throw new Error('Subcategories can\'t have subcategories of their own')
+
+  if (categoryId) {
+    const { count, error: childError } = await supabaseAdmin
+      .from('categories')
+      .select('id', { count: 'exact', head: true })
+      .eq('household_id', householdId)
+      .eq('parent_id', categoryId)
+      .is('deleted_at', null)
+
+    if (childError) throw new Error(`Failed to check subcategories: ${childError.message}`)
+    if (count) throw new Error('A group with subcategories can\'t go inside another group')
+  }
+}
+
+/**
+ * The position after the last of a group's subcategories (or the last
+ * top-level category)
+ */
+async function getNextSortOrder(householdId: string, parentId: string | null): Promise<number> {
+  let query = supabaseAdmin
+    .from('categories')
+    .select('sort_order')
+    .eq('household_id', householdId)
+
+  query = parentId ? query.eq('parent_id', parentId) : query.is('parent_id', null)
+
+  const { data, error } = await query
+    .order('sort_order', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to fetch category order: ${error.message}`)
+  return data ? data.sort_order + 1 : 0
+}
+
+/**
+ * Get the household's categories, leaving out those in the trash.
+ * Each group comes first, followed by its subcategories, in their saved order.
+ *
+ * @param options.includeArchived - Also return archived categories, for
+ *   reports and history that show what was spent in them
+ */
+export async function getCategories(options?: { includeArchived?: boolean }): Promise<Category[]> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
 
-  const { data, error } = await supabaseAdmin
+  let query = supabaseAdmin
     .from('categories')
     .select('*')
     .eq('household_id', householdId)
-    .order('name')
+    .is('deleted_at', null)
+
+  if (!options?.includeArchived) {
+    query = query.is('archived_at', null)
+  }
+
+  const { data, error } = await query.order('sort_order').order('name')
 
   if (error) throw new Error(`Failed to fetch categories: ${error.message}`)
-  return data || []
+  return flattenCategoryGroups(buildCategoryGroups(data || []))
 }
 
-export async function createCategory(name: string, color: string): Promise<Category> {
+/**
+ * Create a category, at the top level or inside a group
+ *
+ * @param parentId - The group to put it in
+ */
+export async function createCategory(
+  name: string,
+  color: string,
+  rollover?: RolloverSettingsInput,
+  parentId?: string | null
+): Promise<Category> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   // Validate inputs
   validateName(name)
   validateColor(color)
+  const rolloverColumns = rollover ? toRolloverColumns(rollover) : {}
+  const parent = createCategorySchema.shape.parentId.parse(parentId) ?? null
+  if (parent) {
+    await assertValidParent(householdId, parent)
+  }
 
   // Check for duplicate category name (case-insensitive)
   const { data: existing } = await supabaseAdmin
     .from('categories')
     .select('id')
     .eq('household_id', householdId)
+    .is('deleted_at', null)
     .ilike('name', name.trim())
     .maybeSingle()
 
@@ -40,12 +149,18 @@ export async function createCategory(name: string, color: string): Promise<Categ
     throw new Error('A category with this name already exists')
   }
 
+  const sortOrder = await getNextSortOrder(householdId, parent)
+
   const { data, error } = await supabaseAdmin
     .from('categories')
     .insert({
       household_id: householdId,
       name: name.trim(),
       color,
+      ...rolloverColumns,
+      parent_id: parent,
+      sort_order: sortOrder,
+      updated_by: memberId,
     })
     .select()
     .single()
@@ -56,19 +171,56 @@ export async function createCategory(name: string, color: string): Promise<Categ
   return data as Category
 }
 
-export async function updateCategory(id: string, name: string, color: string): Promise<void> {
+/**
+ * Update a category
+ *
+ * @param parentId - Move it into this group, or to the top level with null;
+ *   left where it is when undefined
+ */
+export async function updateCategory(
+  id: string,
+  name: string,
+  color: string,
+  rollover?: RolloverSettingsInput,
+  parentId?: string | null
+): Promise<void> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   // Validate inputs
   validateName(name)
   validateColor(color)
+  const rolloverColumns = rollover ? toRolloverColumns(rollover) : {}
+
+  let parentColumns = {}
+  if (parentId !== undefined) {
+    const parent = createCategorySchema.shape.parentId.parse(parentId) ?? null
+    const { data: current, error: currentError } = await supabaseAdmin
+      .from('categories')
+      .select('parent_id')
+      .eq('id', id)
+      .eq('household_id', householdId)
+      .maybeSingle()
+
+    if (currentError) throw new Error(`Failed to fetch category: ${currentError.message}`)
+    if (!current) throw new Error('Category not found')
+
+    // Moved to the end of its new group
+    if (current.parent_id !== parent) {
+      if (parent) {
+        await assertValidParent(householdId, parent, id)
+      }
+      parentColumns = { parent_id: parent, sort_order: await getNextSortOrder(householdId, parent) }
+    }
+  }
 
   // Check for duplicate category name (case-insensitive), excluding current category
   const { data: existing } = await supabaseAdmin
     .from('categories')
     .select('id')
     .eq('household_id', householdId)
+    .is('deleted_at', null)
     .ilike('name', name.trim())
     .neq('id', id)
     .maybeSingle()
@@ -81,7 +233,10 @@ export async function updateCategory(id: string, name: string, color: string): P
     .from('categories')
     .update({
       name: name.trim(),
-      color
+      color,
+      ...rolloverColumns,
+      ...parentColumns,
+      updated_by: memberId,
     })
     .eq('id', id)
     .eq('household_id', householdId)
@@ -91,36 +246,75 @@ export async function updateCategory(id: string, name: string, color: string): P
   revalidatePath('/')
 }
 
-export async function deleteCategory(id: string): Promise<{ affectedTransactions: number }> {
+/**
+ * Save a new order for sibling categories (a group's subcategories, or the
+ * top-level categories), in the order given.
+ */
+export async function reorderCategories(input: ReorderCategoriesInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  const { categoryIds } = reorderCategoriesSchema.parse(input)
+
+  const { error } = await supabaseAdmin.rpc('reorder_categories', {
+    p_household_id: householdId,
+    p_category_ids: categoryIds,
+    p_member_id: memberId ?? undefined,
+  })
+
+  if (error) throw new Error(`Failed to reorder categories: ${error.message}`)
+
+  revalidatePath('/')
+  revalidatePath('/budget')
+}
+
+/**
+ * Move a category to the trash. Its transactions, budgets and keywords are
+ * kept until the trash is emptied, so restoring it brings everything back.
+ */
+export async function deleteCategory(id: string): Promise<void> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
-  const { data: category, error: categoryError } = await supabaseAdmin
+  const { data, error } = await supabaseAdmin
     .from('categories')
-    .select('id')
+    .update({ deleted_at: new Date().toISOString(), updated_by: memberId })
     .eq('id', id)
     .eq('household_id', householdId)
+    .is('deleted_at', null)
+    .select('id')
     .maybeSingle()
 
-  if (categoryError) throw new Error(`Failed to fetch category: ${categoryError.message}`)
-  if (!category) throw new Error('Category not found')
+  if (error) throw new Error(`Failed to delete category: ${error.message}`)
+  if (!data) throw new Error('Category not found')
 
-  const { count, error: countError } = await supabaseAdmin
-    .from('transactions')
-    .select('id', { count: 'exact', head: true })
-    .eq('household_id', householdId)
-    .eq('category_id', id)
+  revalidatePath('/')
+  revalidatePath('/trash')
+}
 
-  if (countError) throw new Error(`Failed to count transactions: ${countError.message}`)
+/**
+ * Archive or unarchive a category. Archived categories are hidden from
+ * pickers and the budget but keep their transactions and history.
+ */
+export async function setCategoryArchived(id: string, archived: boolean): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
-  const { error } = await supabaseAdmin
+  const { data, error } = await supabaseAdmin
     .from('categories')
-    .delete()
+    .update({ archived_at: archived ? new Date().toISOString() : null, updated_by: memberId })
     .eq('id', id)
     .eq('household_id', householdId)
+    .is('deleted_at', null)
+    .select('id')
+    .maybeSingle()
 
-  if (error) throw new Error(`Failed to delete category: ${error.message}`)
+  if (error) throw new Error(`Failed to ${archived ? 'archive' : 'unarchive'} category: ${error.message}`)
+  if (!data) throw new Error('Category not found')
 
   revalidatePath('/')
-  return { affectedTransactions: count ?? 0 }
+  revalidatePath('/budget')
 }
@@ -2,16 +2,35 @@
 
 import { revalidatePath } from 'next/cache'
 import { supabaseAdmin } from '@/lib/supabase-server'
-import { getSession } from '@/lib/auth'
-import type { Database } from '@/lib/types'
-
-type MerchantPatternInsert = Database['public']['Tables']['merchant_patterns']['Insert']
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import { recordMerchantPatterns } from '@/lib/actions/merchant-patterns'
+import { columnMappingSchema, saveColumnMappingSchema } from '@/lib/schemas/import'
+import type { ColumnMapping, SavedColumnMapping } from '@/lib/utils/bank-formats'
 
+/**
+ * A reviewed statement row ready to import.
+ *
+ * Amounts follow createTransaction: income is positive, expenses are
+ * positive, and refunds are negative expenses (category optional).
+ */
 export type BulkImportTransaction = {
-  categoryId: string
+  categoryId: string | null
   amount: number
   description: string
   date: string
+  type: 'income' | 'expense'
+  /** Stable ID for the statement row; rows already imported are skipped */
+  sourceFingerprint?: string
+}
+
+/**
+ * Where an import came from, recorded on its import batch.
+ */
+export type ImportSource = {
+  fileName: string
+  format?: string
+  /** Account every row lands in; the household's default account when omitted */
+  accountId?: string
 }
 
 export type BulkImportResult = {
@@ -19,6 +38,12 @@ export type BulkImportResult = {
   imported: number
   failed: number
   errors: Array<{ index: number; message: string }>
+  /** Rows skipped because their source fingerprint was already imported */
+  skipped?: number
+  /** Indexes of the skipped rows in the transactions passed in */
+  skippedIndexes?: number[]
+  /** Import batch that can undo this import, when a source was given */
+  batchId?: string
 }
 
 /**
@@ -29,22 +54,33 @@ export type BulkImportResult = {
  * Validation is performed client-side first to provide better error messages.
  * If validation passes, transactions are sent to the bulk_import_transactions
  * Postgres function which handles the atomic insert.
+ *
+ * When a source is given, the same database transaction records an import
+ * batch (file name, format, row count, date range and inserted IDs) that can
+ * later be undone with rollbackImportBatch.
+ *
+ * Rows whose source fingerprint is already stored for the account are
+ * skipped rather than inserted, so importing the same statement twice is a
+ * no-op. Skipped rows are reported by index.
  */
 export async function bulkImportTransactions(
-  transactions: BulkImportTransaction[]
+  transactions: BulkImportTransaction[],
+  source?: ImportSource
 ): Promise<BulkImportResult> {
   const householdId = await getSession()
   if (!householdId) {
     throw new Error('Not authenticated')
   }
+  const memberId = await getSessionMemberId()
 
   const errors: Array<{ index: number; message: string }> = []
   const validTransactions: Array<{
-    category_id: string
+    category_id: string | null
     amount: number
     description: string
     date: string
     type: string
+    source_fingerprint?: string
   }> = []
 
   // Client-side validation first
@@ -52,15 +88,25 @@ export async function bulkImportTransactions(
     const txn = transactions[i]
 
     // Validate required fields
-    if (!txn.categoryId || txn.categoryId.trim() === '') {
-      errors.push({ index: i, message: 'Category is required' })
+    if (txn.type !== 'income' && txn.type !== 'expense') {
+      errors.push({ index: i, message: 'Invalid transaction type' })
       continue
     }
-    if (!Number.isFinite(txn.amount) || txn.amount <= 0) {
+    if (!Number.isFinite(txn.amount) || txn.amount === 0) {
       errors.push({ index: i, message: 'Invalid amount' })
       continue
     }
-    if (txn.amount > 100_000_000) {
+    if (txn.type === 'income' && txn.amount < 0) {
+      errors.push({ index: i, message: 'Income amount must be positive' })
+      continue
+    }
+    // Negative expenses are refunds, which don't need a category
+    const isRefund = txn.type === 'expense' && txn.amount < 0
+    if (txn.type === 'expense' && !isRefund && (!txn.categoryId || txn.categoryId.trim() === '')) {
+      errors.push({ index: i, message: 'Category is required' })
+      continue
+    }
+    if (Math.abs(txn.amount) > 100_000_000) {
       errors.push({ index: i, message: 'Amount exceeds maximum allowed value' })
       continue
     }
@@ -76,13 +122,18 @@ export async function bulkImportTransactions(
       errors.push({ index: i, message: 'Description must be 100 characters or less' })
       continue
     }
+    if (txn.sourceFingerprint && txn.sourceFingerprint.length > 200) {
+      errors.push({ index: i, message: 'Source fingerprint is too long' })
+      continue
+    }
 
     validTransactions.push({
-      category_id: txn.categoryId,
+      category_id: txn.categoryId || null,
       amount: txn.amount,
       description: txn.description,
       date: txn.date,
-      type: 'expense',
+      type: txn.type,
+      ...(txn.sourceFingerprint && { source_fingerprint: txn.sourceFingerprint }),
     })
   }
 
@@ -111,6 +162,14 @@ export async function bulkImportTransactions(
     const { data, error } = await supabaseAdmin.rpc('bulk_import_transactions', {
       p_household_id: householdId,
       p_transactions: validTransactions,
+      p_member_id: memberId ?? undefined,
+      ...(source && {
+        p_batch: {
+          file_name: source.fileName,
+          format: source.format ?? null,
+          ...(source.accountId && { account_id: source.accountId }),
+        },
+      }),
     })
 
     if (error) {
@@ -130,6 +189,9 @@ export async function bulkImportTransactions(
       failed: number
       errors?: Array<{ index: number; message: string }>
       error?: string
+      skipped?: number
+      skipped_indexes?: number[]
+      batch_id?: string | null
     }
 
     if (!result.success) {
@@ -141,15 +203,35 @@ export async function bulkImportTransactions(
       }
     }
 
+    // Learn merchant patterns from the categorized rows that were inserted;
+    // rows skipped as already imported were learned from the first time.
+    // Best-effort: the import has already succeeded.
+    if (result.imported > 0) {
+      const skipped = new Set(result.skipped_indexes ?? [])
+      try {
+        await recordMerchantPatterns(
+          validTransactions
+            .filter((_, index) => !skipped.has(index))
+            .map((txn) => ({ description: txn.description, categoryId: txn.category_id }))
+        )
+      } catch (err) {
+        console.error('Failed to learn merchant patterns:', err)
+      }
+    }
+
     // Revalidate paths after successful import
     revalidatePath('/')
     revalidatePath('/transactions')
+    revalidatePath('/imports')
 
     return {
       success: true,
       imported: result.imported,
       failed: 0,
       errors: [],
+      skipped: result.skipped ?? 0,
+      skippedIndexes: result.skipped_indexes ?? [],
+      ...(result.batch_id && { batchId: result.batch_id }),
     }
   } catch (error) {
     return {
@@ -183,8 +265,8 @@ export async function getMerchantPatterns() {
 }
 
 /**
- * Learn a new merchant pattern from user's manual category selection
- * Uses upsert to update last_used_at if pattern already exists
+ * Learn a merchant pattern from a single categorization
+ * Increments the pattern's usage count if it already exists
  */
 export async function learnMerchantPattern(
   merchantName: string,
@@ -206,20 +288,10 @@ export async function learnMerchantPattern(
   // Normalize merchant name (lowercase for consistency)
   const normalizedMerchantName = merchantName.trim().toLowerCase()
 
-  const patternData: MerchantPatternInsert = {
-    household_id: householdId,
-    merchant_name: normalizedMerchantName,
-    category_id: categoryId,
-    last_used_at: new Date().toISOString(),
-  }
-
-  // Upsert: insert new pattern or update last_used_at if exists
-  const { error } = await supabaseAdmin
-    .from('merchant_patterns')
-    .upsert(patternData, {
-      onConflict: 'household_id,merchant_name,category_id',
-      ignoreDuplicates: false,
-    })
+  const { error } = await supabaseAdmin.rpc('record_merchant_patterns', {
+    p_household_id: householdId,
+    p_patterns: [{ merchant_name: normalizedMerchantName, category_id: categoryId }],
+  })
 
   if (error) {
     throw new Error(`Failed to learn merchant pattern: ${error.message}`)
@@ -229,3 +301,63 @@ export async function learnMerchantPattern(
   revalidatePath('/')
   revalidatePath('/transactions')
 }
+
+/**
+ * Get column mappings saved for unrecognized CSV layouts
+ * Used by the import wizard to skip the column-mapping step
+ */
+export async function getSavedColumnMappings(): Promise<SavedColumnMapping[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('csv_column_mappings')
+    .select('header_signature, mapping')
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to fetch column mappings: ${error.message}`)
+  }
+
+  // Stored mappings are JSON; skip any that no longer fit the current shape
+  return (data ?? []).flatMap((row) => {
+    const parsed = columnMappingSchema.safeParse(row.mapping)
+    return parsed.success
+      ? [{ headerSignature: row.header_signature, mapping: parsed.data }]
+      : []
+  })
+}
+
+/**
+ * Save the column mapping chosen for a header layout
+ * Upserts so re-mapping the same layout replaces the old mapping
+ */
+export async function saveColumnMapping(
+  headerSignature: string,
+  mapping: ColumnMapping
+): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) {
+    throw new Error('Not authenticated')
+  }
+
+  const validated = saveColumnMappingSchema.parse({ headerSignature, mapping })
+
+  const { error } = await supabaseAdmin
+    .from('csv_column_mappings')
+    .upsert(
+      {
+        household_id: householdId,
+        header_signature: validated.headerSignature,
+        mapping: validated.mapping,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'household_id,header_signature' }
+    )
+
+  if (error) {
+    throw new Error(`Failed to save column mapping: ${error.message}`)
+  }
+
+  revalidatePath('/transactions')
+}
@@ -0,0 +1,65 @@
+'use server'
+
+import { getSession } from '@/lib/auth'
+import { searchTransactions, type TransactionWithCategory } from './transactions'
+import { getAccounts } from './accounts'
+import { getCategories } from './categories'
+import { getMonthlyReport, getYearSummary } from './reports'
+import type { TransactionFiltersInput } from '@/lib/schemas/transaction'
+import {
+  monthlyReportToCsv,
+  transactionsToCsv,
+  transactionsToJson,
+  yearSummaryToCsv,
+  type ExportFormat,
+} from '@/lib/utils/export'
+
+// Largest export in one file; narrow the filters for more
+const MAX_EXPORT_ROWS = 20000
+const EXPORT_PAGE_SIZE = 200
+
+/**
+ * Export every transaction matching the filters, in the filters' sort order.
+ */
+export async function exportTransactions(
+  filters: TransactionFiltersInput,
+  format: ExportFormat
+): Promise<string> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const transactions: TransactionWithCategory[] = []
+  let cursor: string | undefined
+  do {
+    const page = await searchTransactions({ ...filters, cursor, limit: EXPORT_PAGE_SIZE })
+    if (page.totalCount > MAX_EXPORT_ROWS) {
+      throw new Error(`Too many transactions to export at once (${page.totalCount}). Narrow the filters and try again.`)
+    }
+    transactions.push(...page.transactions)
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+
+  const [accounts, categories] = await Promise.all([getAccounts(), getCategories({ includeArchived: true })])
+  const lookups = {
+    accountNames: new Map(accounts.map((account) => [account.id, account.name])),
+    categoryNames: new Map(categories.map((category) => [category.id, category.name])),
+  }
+
+  return format === 'json'
+    ? transactionsToJson(transactions, lookups)
+    : transactionsToCsv(transactions, lookups)
+}
+
+/**
+ * Export a month's report as CSV
+ */
+export async function exportMonthlyReport(month: string): Promise<string> {
+  return monthlyReportToCsv(await getMonthlyReport(month))
+}
+
+/**
+ * Export a year's summary as CSV
+ */
+export async function exportYearSummary(year: number): Promise<string> {
+  return yearSummaryToCsv(year, await getYearSummary(year))
+}
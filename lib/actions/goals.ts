@@ -0,0 +1,438 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import { getTransactions } from '@/lib/actions/transactions'
+import { getHouseholdTimezone } from '@/lib/actions/settings'
+import {
+  savingsGoalSchema,
+  goalContributionSchema,
+  SavingsGoalInput,
+  GoalContributionInput,
+} from '@/lib/schemas/goal'
+import { validateDate, validateMonth } from '@/lib/utils/validators'
+import { dollarsToCents, centsToDollars } from '@/lib/utils/money'
+import { getCurrentDate, getCurrentMonth } from '@/lib/utils/date'
+import { addDays } from '@/lib/utils/schedule'
+import { computeGoalPlan, monthsBetween, type GoalPlan } from '@/lib/utils/goals'
+import { getCategoryAllocations, isExpenseTransaction } from '@/lib/utils/transaction-helpers'
+import type { SavingsGoal } from '@/lib/types'
+
+// Savings goal with joined category data and its plan for the current month
+export type SavingsGoalWithProgress = SavingsGoal & {
+  category: {
+    id: string
+    name: string
+    color: string
+  } | null
+  plan: GoalPlan
+}
+
+const GOAL_SELECT = '*, category:categories(id, name, color)'
+
+type GoalActivity = { date: string; amountCents: number }
+
+/**
+ * Money saved toward each goal between two dates: its contributions, plus
+ * spending in its linked category on or after the goal's start date.
+ */
+async function getGoalActivity(
+  householdId: string,
+  goals: Pick<SavingsGoal, 'id' | 'start_date' | 'category_id'>[],
+  startDate: string,
+  endDate: string
+): Promise<Map<string, GoalActivity[]>> {
+  const activity = new Map<string, GoalActivity[]>(goals.map((goal) => [goal.id, []]))
+  if (goals.length === 0 || endDate < startDate) return activity
+
+  const { data: contributions, error } = await supabaseAdmin
+    .from('goal_contributions')
+    .select('goal_id, amount_cents, date')
+    .eq('household_id', householdId)
+    .in('goal_id', goals.map((goal) => goal.id))
+    .gte('date', startDate)
+    .lte('date', endDate)
+
+  if (error) {
+    throw new Error(`Failed to fetch goal contributions: ${error.message}`)
+  }
+
+  for (const contribution of contributions ?? []) {
+    activity.get(contribution.goal_id)?.push({
+      date: contribution.date,
+      amountCents: contribution.amount_cents,
+    })
+  }
+
+  const linkedGoals = goals.filter((goal) => goal.category_id)
+  if (linkedGoals.length > 0) {
+    const transactions = await getTransactions({ startDate, endDate })
+    for (const t of transactions) {
+      if (!isExpenseTransaction(t)) continue
+      for (const { categoryId, amountCents } of getCategoryAllocations(t)) {
+        for (const goal of linkedGoals) {
+          if (goal.category_id === categoryId && t.date >= goal.start_date) {
+            activity.get(goal.id)!.push({ date: t.date, amountCents })
+          }
+        }
+      }
+    }
+  }
+
+  return activity
+}
+
+function sumActivity(activity: GoalActivity[], before?: string): number {
+  return activity
+    .filter((entry) => !before || entry.date < before)
+    .reduce((sum, entry) => sum + entry.amountCents, 0)
+}
+
+/**
+ * Make sure a goal's linked category belongs to the household.
+ */
+async function assertCategoryOwned(householdId: string, categoryId: string | null): Promise<void> {
+  if (!categoryId) return
+
+  const { data, error } = await supabaseAdmin
+    .from('categories')
+    .select('id')
+    .eq('id', categoryId)
+    .eq('household_id', householdId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to verify category: ${error.message}`)
+  }
+  if (!data) {
+    throw new Error('Category not found')
+  }
+}
+
+function toGoalRow(input: SavingsGoalInput) {
+  const validated = savingsGoalSchema.parse(input)
+  return {
+    name: validated.name,
+    target_amount: validated.targetAmount,
+    target_amount_cents: dollarsToCents(validated.targetAmount),
+    target_date: validated.targetDate,
+    category_id: validated.categoryId || null,
+    auto_budget: validated.autoBudget,
+  }
+}
+
+function revalidateGoalPaths(): void {
+  revalidatePath('/')
+  revalidatePath('/goals')
+  revalidatePath('/budget')
+}
+
+/**
+ * Get the household's savings goals with progress and the contribution
+ * each needs this month, nearest target date first.
+ */
+export async function getSavingsGoals(): Promise<SavingsGoalWithProgress[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data: goals, error } = await supabaseAdmin
+    .from('savings_goals')
+    .select(GOAL_SELECT)
+    .eq('household_id', householdId)
+    .order('target_date')
+
+  if (error) {
+    throw new Error(`Failed to fetch savings goals: ${error.message}`)
+  }
+  if (!goals || goals.length === 0) return []
+
+  const timezone = await getHouseholdTimezone()
+  const today = getCurrentDate(timezone)
+  const currentMonth = getCurrentMonth(timezone)
+  const earliestStart = goals.reduce((min, goal) => (goal.start_date < min ? goal.start_date : min), today)
+  const activity = await getGoalActivity(householdId, goals, earliestStart, today)
+
+  return goals.map((goal) => {
+    const entries = activity.get(goal.id) ?? []
+    return {
+      ...goal,
+      plan: computeGoalPlan({
+        targetCents: goal.target_amount_cents,
+        savedCents: sumActivity(entries),
+        savedBeforeMonthCents: sumActivity(entries, `${currentMonth}-01`),
+        startDate: goal.start_date,
+        targetDate: goal.target_date,
+      }, currentMonth),
+    }
+  })
+}
+
+/**
+ * Create a savings goal starting today
+ */
+export async function createSavingsGoal(input: SavingsGoalInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const row = toGoalRow(input)
+  await assertCategoryOwned(householdId, row.category_id)
+
+  const timezone = await getHouseholdTimezone()
+  const today = getCurrentDate(timezone)
+  if (row.target_date < today) {
+    throw new Error('Target date cannot be in the past')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('savings_goals')
+    .insert({ ...row, household_id: householdId, start_date: today })
+
+  if (error) {
+    throw new Error(`Failed to create savings goal: ${error.message}`)
+  }
+
+  revalidateGoalPaths()
+}
+
+/**
+ * Update a savings goal. Its start date, and so its saved progress, is kept.
+ */
+export async function updateSavingsGoal(id: string, input: SavingsGoalInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Goal ID is required')
+  }
+
+  const row = toGoalRow(input)
+  await assertCategoryOwned(householdId, row.category_id)
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('savings_goals')
+    .select('start_date')
+    .eq('id', id)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch savings goal: ${fetchError.message}`)
+  }
+  if (!existing) {
+    throw new Error('Savings goal not found')
+  }
+  if (row.target_date < existing.start_date) {
+    throw new Error('Target date cannot be before the goal started')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('savings_goals')
+    .update({ ...row, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to update savings goal: ${error.message}`)
+  }
+
+  revalidateGoalPaths()
+}
+
+/**
+ * Delete a savings goal and its contributions. Budgets already set for its
+ * category are left as they are.
+ */
+export async function deleteSavingsGoal(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Goal ID is required')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('savings_goals')
+    .delete()
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to delete savings goal: ${error.message}`)
+  }
+
+  revalidateGoalPaths()
+}
+
+/**
+ * Put money toward a goal, or take it back out with a negative amount
+ */
+export async function addGoalContribution(input: GoalContributionInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const validated = goalContributionSchema.parse(input)
+
+  const { data: goal, error: fetchError } = await supabaseAdmin
+    .from('savings_goals')
+    .select('id')
+    .eq('id', validated.goalId)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch savings goal: ${fetchError.message}`)
+  }
+  if (!goal) {
+    throw new Error('Savings goal not found')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('goal_contributions')
+    .insert({
+      household_id: householdId,
+      goal_id: validated.goalId,
+      amount: validated.amount,
+      amount_cents: dollarsToCents(validated.amount),
+      date: validated.date,
+      note: validated.note || null,
+    })
+
+  if (error) {
+    throw new Error(`Failed to add contribution: ${error.message}`)
+  }
+
+  revalidateGoalPaths()
+}
+
+/**
+ * Budget each auto-budget goal's required contribution for `month` in its
+ * linked category. Goals that are complete, or whose saving period doesn't
+ * include the month, are left alone. Safe to call on every page load: only
+ * categories with no budget yet that month are written, so a budget someone
+ * has edited, or moved money into or out of, is kept.
+ */
+export async function applyGoalBudgets(month: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) return
+
+  validateMonth(month)
+
+  const { data: goals, error } = await supabaseAdmin
+    .from('savings_goals')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('auto_budget', true)
+    .not('category_id', 'is', null)
+
+  if (error) {
+    throw new Error(`Failed to fetch savings goals: ${error.message}`)
+  }
+
+  const activeGoals = (goals ?? []).filter((goal) =>
+    monthsBetween(goal.start_date.slice(0, 7), month) >= 0 &&
+    monthsBetween(month, goal.target_date.slice(0, 7)) >= 0
+  )
+  if (activeGoals.length === 0) return
+
+  // Only savings from before the month count, so the budget doesn't shrink
+  // as the month's contributions come in
+  const monthStart = `${month}-01`
+  const earliestStart = activeGoals.reduce(
+    (min, goal) => (goal.start_date < min ? goal.start_date : min),
+    monthStart
+  )
+  const activity = await getGoalActivity(householdId, activeGoals, earliestStart, addDays(monthStart, -1))
+
+  // One goal per category; with several, their contributions add up
+  const requiredByCategory = new Map<string, number>()
+  for (const goal of activeGoals) {
+    const savedCents = sumActivity(activity.get(goal.id) ?? [])
+    const plan = computeGoalPlan({
+      targetCents: goal.target_amount_cents,
+      savedCents,
+      savedBeforeMonthCents: savedCents,
+      startDate: goal.start_date,
+      targetDate: goal.target_date,
+    }, month)
+    if (plan.requiredMonthlyCents === 0) continue
+
+    const categoryId = goal.category_id!
+    requiredByCategory.set(categoryId, (requiredByCategory.get(categoryId) ?? 0) + plan.requiredMonthlyCents)
+  }
+  if (requiredByCategory.size === 0) return
+
+  const { data: existing, error: budgetError } = await supabaseAdmin
+    .from('monthly_budgets')
+    .select('category_id')
+    .eq('household_id', householdId)
+    .eq('month', month)
+    .in('category_id', [...requiredByCategory.keys()])
+
+  if (budgetError) {
+    throw new Error(`Failed to fetch monthly budgets: ${budgetError.message}`)
+  }
+
+  const budgeted = new Set((existing ?? []).map((b) => b.category_id))
+  const missing = [...requiredByCategory].filter(([categoryId]) => !budgeted.has(categoryId))
+  if (missing.length === 0) return
+
+  const memberId = await getSessionMemberId()
+
+  // Another page load may have budgeted it since; that one stands
+  const { error: upsertError } = await supabaseAdmin
+    .from('monthly_budgets')
+    .upsert(
+      missing.map(([categoryId, cents]) => ({
+        household_id: householdId,
+        category_id: categoryId,
+        month,
+        budgeted_amount: centsToDollars(cents),
+        budgeted_amount_cents: cents,
+        updated_by: memberId,
+      })),
+      { onConflict: 'household_id,category_id,month', ignoreDuplicates: true }
+    )
+
+  if (upsertError) {
+    throw new Error(`Failed to budget goal contributions: ${upsertError.message}`)
+  }
+}
+
+/**
+ * How much was saved toward each goal between two dates (inclusive), for
+ * goals with any savings in that range.
+ */
+export async function getGoalSavings(startDate: string, endDate: string): Promise<Array<{
+  name: string
+  saved: number
+  targetAmount: number
+}>> {
+  validateDate(startDate)
+  validateDate(endDate)
+
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data: goals, error } = await supabaseAdmin
+    .from('savings_goals')
+    .select('id, name, start_date, category_id, target_amount')
+    .eq('household_id', householdId)
+    .lte('start_date', endDate)
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to fetch savings goals: ${error.message}`)
+  }
+
+  const activity = await getGoalActivity(householdId, goals ?? [], startDate, endDate)
+
+  return (goals ?? [])
+    .map((goal) => ({
+      name: goal.name,
+      saved: centsToDollars(sumActivity(activity.get(goal.id) ?? [])),
+      targetAmount: goal.target_amount,
+    }))
+    .filter((goal) => goal.saved !== 0)
+}
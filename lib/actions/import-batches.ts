@@ -0,0 +1,59 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import type { ImportBatch } from '@/lib/types'
+
+/**
+ * Get the household's import history, newest first.
+ */
+export async function getImportBatches(): Promise<ImportBatch[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('import_batches')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch import history: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Undo an import by deleting every transaction it created.
+ *
+ * Runs in a single database transaction via the rollback_import_batch
+ * Postgres function, so either the whole batch is removed or nothing is.
+ *
+ * @returns Number of transactions deleted
+ */
+export async function rollbackImportBatch(batchId: string): Promise<{ deleted: number }> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  const { data, error } = await supabaseAdmin.rpc('rollback_import_batch', {
+    p_household_id: householdId,
+    p_batch_id: batchId,
+    p_member_id: memberId ?? undefined,
+  })
+
+  if (error) throw new Error(`Failed to undo import: ${error.message}`)
+
+  const result = data as { success: boolean; deleted?: number; error?: string }
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to undo import')
+  }
+
+  revalidatePath('/')
+  revalidatePath('/transactions')
+  revalidatePath('/imports')
+
+  return { deleted: result.deleted ?? 0 }
+}
@@ -1,8 +1,17 @@
 'use server'
 
 import { getSession } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase-server'
 import { getTransactions, TransactionWithCategory } from './transactions'
-import { isIncomeTransaction } from '@/lib/utils/transaction-helpers'
+import { getMerchantAliases } from './merchant-aliases'
+import { isExpenseTransaction } from '@/lib/utils/transaction-helpers'
+import { normalizeMerchant } from '@/lib/utils/merchant-normalizer'
+import {
+  estimateMonthlyCost,
+  isSimilarAmount,
+  type SubscriptionFrequency,
+} from '@/lib/utils/subscriptions'
+import type { MerchantAlias } from '@/lib/types'
 
 export interface MerchantInsight {
   merchant: string
@@ -22,7 +31,7 @@ export interface RecurringCharge {
   merchant: string
   displayName: string
   amount: number
-  frequency: 'weekly' | 'monthly' | 'quarterly'
+  frequency: SubscriptionFrequency
   estimatedMonthlyCost: number
   lastChargeDate: string
   transactionCount: number
@@ -34,10 +43,22 @@ export interface RecurringCharge {
   isActive: boolean
 }
 
-// Helper to normalize merchant names for grouping
-function normalizeMerchant(description: string | null): string {
-  if (!description) return 'unknown'
-  return description.trim().toLowerCase()
+// Group transactions by normalized merchant (aliases applied)
+function groupByMerchant(
+  transactions: TransactionWithCategory[],
+  aliases: MerchantAlias[]
+): Map<string, { transactions: TransactionWithCategory[]; names: string[] }> {
+  const merchantGroups = new Map<string, { transactions: TransactionWithCategory[]; names: string[] }>()
+
+  transactions.forEach(t => {
+    const { key, displayName } = normalizeMerchant(t.description, aliases)
+    const group = merchantGroups.get(key) || { transactions: [], names: [] }
+    group.transactions.push(t)
+    group.names.push(displayName)
+    merchantGroups.set(key, group)
+  })
+
+  return merchantGroups
 }
 
 // Get the most common capitalization variant
@@ -75,33 +96,26 @@ export async function getMerchantInsights(): Promise<MerchantInsight[]> {
 
   // Get last 6 months of expense transactions only (exclude income type and income category)
   const { startDate, endDate } = getLastNMonthsRange(6)
-  const allTransactions = await getTransactions({ startDate, endDate })
-  const transactions = allTransactions.filter(t => !isIncomeTransaction(t))
+  const [allTransactions, aliases] = await Promise.all([
+    getTransactions({ startDate, endDate }),
+    getMerchantAliases(),
+  ])
+  const transactions = allTransactions.filter(isExpenseTransaction)
 
   // Group by normalized merchant name
-  const merchantGroups = new Map<string, TransactionWithCategory[]>()
-
-  transactions.forEach(t => {
-    const normalized = normalizeMerchant(t.description)
-    const group = merchantGroups.get(normalized) || []
-    group.push(t)
-    merchantGroups.set(normalized, group)
-  })
+  const merchantGroups = groupByMerchant(transactions, aliases)
 
   // Build merchant insights
   const insights: MerchantInsight[] = []
 
-  merchantGroups.forEach((transactions, normalized) => {
+  merchantGroups.forEach(({ transactions, names }, normalized) => {
     const totalSpent = transactions.reduce((sum, t) => sum + t.amount, 0)
     const transactionCount = transactions.length
     const averageAmount = totalSpent / transactionCount
 
-    // Get display name (most common capitalization)
-    const variants = transactions
-      .map(t => t.description)
-      .filter((d): d is string => d !== null)
-    const displayName = variants.length > 0
-      ? getMostCommonVariant(variants)
+    // Get display name (most common cleaned name)
+    const displayName = names.length > 0
+      ? getMostCommonVariant(names)
       : normalized
 
     // Find primary category (most frequently used)
@@ -147,39 +161,49 @@ export async function getMerchantInsights(): Promise<MerchantInsight[]> {
   return insights.sort((a, b) => b.totalSpent - a.totalSpent)
 }
 
+/**
+ * Recurring charges detected in the last 6 months that the household hasn't
+ * reviewed yet. Charges already tracked as a subscription, or dismissed,
+ * are left out.
+ */
 export async function getRecurringCharges(): Promise<RecurringCharge[]> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
 
   // Get last 6 months of expense transactions only (exclude income type and income category)
   const { startDate, endDate } = getLastNMonthsRange(6)
-  const allTransactions = await getTransactions({ startDate, endDate })
-  const transactions = allTransactions.filter(t => !isIncomeTransaction(t))
+  const [allTransactions, aliases, reviewed] = await Promise.all([
+    getTransactions({ startDate, endDate }),
+    getMerchantAliases(),
+    supabaseAdmin
+      .from('subscriptions')
+      .select('merchant')
+      .eq('household_id', householdId),
+  ])
+
+  if (reviewed.error) {
+    throw new Error(`Failed to fetch subscriptions: ${reviewed.error.message}`)
+  }
+  const transactions = allTransactions.filter(isExpenseTransaction)
 
   // Group by normalized merchant name
-  const merchantGroups = new Map<string, TransactionWithCategory[]>()
-
-  transactions.forEach(t => {
-    const normalized = normalizeMerchant(t.description)
-    const group = merchantGroups.get(normalized) || []
-    group.push(t)
-    merchantGroups.set(normalized, group)
-  })
+  const merchantGroups = groupByMerchant(transactions, aliases)
 
   const recurring: RecurringCharge[] = []
   const now = new Date()
   const sixtyDaysAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000)
 
-  merchantGroups.forEach((transactions, normalized) => {
+  merchantGroups.forEach(({ transactions, names }, normalized) => {
     // Need at least 2 transactions to detect a pattern
     if (transactions.length < 2) return
 
+    // Already tracked or dismissed. A tracked merchant's new price is
+    // flagged on its subscription rather than suggested again.
+    if (reviewed.data?.some((r) => r.merchant === normalized)) return
+
     // Get display name
-    const variants = transactions
-      .map(t => t.description)
-      .filter((d): d is string => d !== null)
-    const displayName = variants.length > 0
-      ? getMostCommonVariant(variants)
+    const displayName = names.length > 0
+      ? getMostCommonVariant(names)
       : normalized
 
     // Group transactions by similar amounts (within ±10%)
@@ -188,9 +212,7 @@ export async function getRecurringCharges(): Promise<RecurringCharge[]> {
     transactions.forEach(t => {
       let foundGroup = false
       for (const group of amountGroups) {
-        const groupAmount = group[0].amount
-        const tolerance = groupAmount * 0.1
-        if (Math.abs(t.amount - groupAmount) <= tolerance) {
+        if (isSimilarAmount(t.amount, group[0].amount)) {
           group.push(t)
           foundGroup = true
           break
@@ -243,18 +265,7 @@ export async function getRecurringCharges(): Promise<RecurringCharge[]> {
       const avgAmount = group.reduce((sum, t) => sum + t.amount, 0) / group.length
 
       // Calculate estimated monthly cost
-      let estimatedMonthlyCost: number
-      switch (frequency) {
-        case 'weekly':
-          estimatedMonthlyCost = avgAmount * 4.33
-          break
-        case 'monthly':
-          estimatedMonthlyCost = avgAmount
-          break
-        case 'quarterly':
-          estimatedMonthlyCost = avgAmount / 3
-          break
-      }
+      const estimatedMonthlyCost = estimateMonthlyCost(avgAmount, frequency)
 
       // Get primary category
       const categoryCounts = new Map<string, { count: number; category: TransactionWithCategory['category'] }>()
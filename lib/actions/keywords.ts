@@ -2,7 +2,7 @@
 
 import { revalidatePath } from 'next/cache'
 import { supabaseAdmin } from '@/lib/supabase-server'
-import { getSession } from '@/lib/auth'
+import { getSession, getSessionMemberId } from '@/lib/auth'
 import type { CategoryKeyword } from '@/lib/types'
 
 /**
@@ -80,6 +80,7 @@ export async function getAllKeywords(): Promise<Record<string, CategoryKeyword[]
 export async function addKeyword(categoryId: string, keyword: string): Promise<CategoryKeyword> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   // Validate inputs
   if (!categoryId || categoryId.trim() === '') {
@@ -110,6 +111,7 @@ export async function addKeyword(categoryId: string, keyword: string): Promise<C
       household_id: householdId,
       category_id: categoryId,
       keyword: normalizedKeyword,
+      updated_by: memberId,
     })
     .select()
     .single()
@@ -128,16 +130,18 @@ export async function addKeyword(categoryId: string, keyword: string): Promise<C
 export async function deleteKeyword(keywordId: string): Promise<void> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   if (!keywordId || keywordId.trim() === '') {
     throw new Error('Keyword ID is required')
   }
 
-  const { error } = await supabaseAdmin
-    .from('category_keywords')
-    .delete()
-    .eq('id', keywordId)
-    .eq('household_id', householdId)
+  const { error } = await supabaseAdmin.rpc('delete_household_record', {
+    p_household_id: householdId,
+    p_table: 'category_keywords',
+    p_id: keywordId,
+    p_member_id: memberId ?? undefined,
+  })
 
   if (error) {
     throw new Error(`Failed to delete keyword: ${error.message}`)
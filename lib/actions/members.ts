@@ -0,0 +1,184 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import {
+  getSession,
+  getSessionMemberId,
+  hashPin,
+  findMemberByPin,
+  getClientIp,
+  checkAuthRateLimit,
+  recordAuthFailure,
+} from '@/lib/auth'
+import { addMemberSchema, renameMemberSchema, AddMemberInput } from '@/lib/schemas/member'
+import type { HouseholdMember } from '@/lib/types'
+
+// A member as shown in the app, without their PIN hash
+export type MemberSummary = Pick<HouseholdMember, 'id' | 'name' | 'created_at'>
+
+// Doesn't say whether the name or the PIN was taken
+const MEMBER_TAKEN_MESSAGE = 'Choose a different name or PIN'
+
+function revalidateMemberPaths(): void {
+  revalidatePath('/settings')
+  revalidatePath('/transactions')
+}
+
+/**
+ * Get the household's members, oldest first
+ */
+export async function getMembers(): Promise<MemberSummary[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('household_members')
+    .select('id, name, created_at')
+    .eq('household_id', householdId)
+    .order('created_at')
+
+  if (error) {
+    throw new Error(`Failed to fetch household members: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+/**
+ * Get the signed-in member. Returns null for sessions from before members existed.
+ */
+export async function getCurrentMember(): Promise<MemberSummary | null> {
+  const householdId = await getSession()
+  const memberId = await getSessionMemberId()
+  if (!householdId || !memberId) return null
+
+  const { data, error } = await supabaseAdmin
+    .from('household_members')
+    .select('id, name, created_at')
+    .eq('id', memberId)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch household member: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Add a member who signs in with their own PIN
+ */
+export async function addMember(input: AddMemberInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const validated = addMemberSchema.parse(input)
+
+  // Checking a PIN is taken is as good as trying it at sign-in, so it
+  // counts against the same rate limit
+  const ip = getClientIp(await headers())
+  const rateLimit = await checkAuthRateLimit(ip)
+  if (rateLimit.blocked) {
+    throw new Error(`Too many attempts. Try again in ${rateLimit.waitSeconds} seconds.`)
+  }
+
+  // A PIN signs in its member, so no two members can share one
+  if (await findMemberByPin(householdId, validated.pin)) {
+    await recordAuthFailure(ip)
+    throw new Error(MEMBER_TAKEN_MESSAGE)
+  }
+
+  const { error } = await supabaseAdmin
+    .from('household_members')
+    .insert({
+      household_id: householdId,
+      name: validated.name,
+      pin_hash: await hashPin(validated.pin),
+    })
+
+  if (error) {
+    if (error.code === '23505') {
+      await recordAuthFailure(ip)
+      throw new Error(MEMBER_TAKEN_MESSAGE)
+    }
+    throw new Error(`Failed to add household member: ${error.message}`)
+  }
+
+  revalidateMemberPaths()
+}
+
+/**
+ * Rename a household member
+ */
+export async function renameMember(id: string, name: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Member ID is required')
+  }
+
+  const validated = renameMemberSchema.parse({ name })
+
+  const { error } = await supabaseAdmin
+    .from('household_members')
+    .update({ name: validated.name, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('A member with this name already exists')
+    }
+    throw new Error(`Failed to rename household member: ${error.message}`)
+  }
+
+  revalidateMemberPaths()
+}
+
+/**
+ * Remove a household member. Their transactions and budgets stay, no longer
+ * attributed to anyone. Members can't remove themselves or the last member.
+ */
+export async function removeMember(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Member ID is required')
+  }
+
+  if (id === await getSessionMemberId()) {
+    throw new Error("You can't remove yourself")
+  }
+
+  const { data: members, error: fetchError } = await supabaseAdmin
+    .from('household_members')
+    .select('id')
+    .eq('household_id', householdId)
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch household members: ${fetchError.message}`)
+  }
+  if (!members?.some((member) => member.id === id)) {
+    throw new Error('Member not found')
+  }
+  if (members.length === 1) {
+    throw new Error('A household needs at least one member')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('household_members')
+    .delete()
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to remove household member: ${error.message}`)
+  }
+
+  revalidateMemberPaths()
+}
@@ -0,0 +1,95 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession } from '@/lib/auth'
+import { normalizeMerchantKey } from '@/lib/utils/merchant-normalizer'
+import type { MerchantAlias } from '@/lib/types'
+
+/**
+ * Get the household's merchant aliases
+ */
+export async function getMerchantAliases(): Promise<MerchantAlias[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('merchant_aliases')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('display_name')
+
+  if (error) {
+    throw new Error(`Failed to fetch merchant aliases: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Add a merchant alias
+ * The match text is normalized the same way descriptions are, so a raw
+ * description such as "AMAZON MKTPL*1A2B3" can be pasted in as-is.
+ */
+export async function addMerchantAlias(matchText: string, displayName: string): Promise<MerchantAlias> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!matchText || matchText.trim() === '') {
+    throw new Error('Merchant text is required')
+  }
+  if (!displayName || displayName.trim() === '') {
+    throw new Error('Display name is required')
+  }
+  if (matchText.length > 100 || displayName.length > 100) {
+    throw new Error('Alias must be 100 characters or less')
+  }
+
+  const normalizedMatchText = normalizeMerchantKey(matchText)
+
+  const { data, error } = await supabaseAdmin
+    .from('merchant_aliases')
+    .upsert(
+      {
+        household_id: householdId,
+        match_text: normalizedMatchText,
+        display_name: displayName.trim(),
+      },
+      { onConflict: 'household_id,match_text' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save merchant alias: ${error.message}`)
+  }
+
+  revalidatePath('/patterns')
+  revalidatePath('/insights')
+  return data as MerchantAlias
+}
+
+/**
+ * Delete a merchant alias
+ */
+export async function deleteMerchantAlias(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Alias ID is required')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('merchant_aliases')
+    .delete()
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to delete merchant alias: ${error.message}`)
+  }
+
+  revalidatePath('/patterns')
+  revalidatePath('/insights')
+}
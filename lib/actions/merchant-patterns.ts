@@ -0,0 +1,198 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession } from '@/lib/auth'
+import { getMerchantAliases } from '@/lib/actions/merchant-aliases'
+import { extractMerchantName } from '@/lib/utils/category-matcher'
+
+/** Single-use patterns older than this are removed by pruning */
+const PRUNE_AFTER_DAYS = 90
+
+/**
+ * Record categorized transactions as merchant patterns.
+ *
+ * Each entry bumps the usage count of its merchant/category pair (creating
+ * it if needed) in one round trip. Entries without a category or a usable
+ * merchant name are ignored.
+ *
+ * @returns Number of patterns created or updated
+ */
+export async function recordMerchantPatterns(
+  entries: Array<{ description: string | null | undefined; categoryId: string | null | undefined }>
+): Promise<number> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const categorized = entries.filter((entry) => entry.categoryId && entry.description)
+  if (categorized.length === 0) return 0
+
+  // Key patterns exactly as the matcher looks them up, aliases included
+  const aliases = await getMerchantAliases()
+
+  const patterns = categorized
+    .map((entry) => ({
+      merchant_name: extractMerchantName(entry.description!, aliases),
+      category_id: entry.categoryId!,
+    }))
+    .filter((pattern) => pattern.merchant_name)
+
+  if (patterns.length === 0) return 0
+
+  const { data, error } = await supabaseAdmin.rpc('record_merchant_patterns', {
+    p_household_id: householdId,
+    p_patterns: patterns,
+  })
+
+  if (error) {
+    throw new Error(`Failed to learn merchant patterns: ${error.message}`)
+  }
+
+  const result = data as { success: boolean; recorded?: number }
+  return result.recorded ?? 0
+}
+
+/**
+ * Correct a learned pattern by moving it to another category.
+ * If the merchant already has a pattern for that category, the two are merged.
+ */
+export async function updateMerchantPattern(id: string, categoryId: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Pattern ID is required')
+  }
+  if (!categoryId || categoryId.trim() === '') {
+    throw new Error('Category is required')
+  }
+
+  const { data: pattern, error: fetchError } = await supabaseAdmin
+    .from('merchant_patterns')
+    .select('*')
+    .eq('id', id)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch merchant pattern: ${fetchError.message}`)
+  }
+  if (!pattern) {
+    throw new Error('Merchant pattern not found')
+  }
+  if (pattern.category_id === categoryId) return
+
+  const { data: category } = await supabaseAdmin
+    .from('categories')
+    .select('id')
+    .eq('id', categoryId)
+    .eq('household_id', householdId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (!category) {
+    throw new Error('Category not found')
+  }
+
+  const { data: existing } = await supabaseAdmin
+    .from('merchant_patterns')
+    .select('id, match_count')
+    .eq('household_id', householdId)
+    .eq('merchant_name', pattern.merchant_name)
+    .eq('category_id', categoryId)
+    .maybeSingle()
+
+  const now = new Date().toISOString()
+
+  if (existing) {
+    // Merge into the existing pattern for that category
+    const { error: mergeError } = await supabaseAdmin
+      .from('merchant_patterns')
+      .update({ match_count: existing.match_count + pattern.match_count, updated_at: now })
+      .eq('id', existing.id)
+      .eq('household_id', householdId)
+
+    if (mergeError) {
+      throw new Error(`Failed to update merchant pattern: ${mergeError.message}`)
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('merchant_patterns')
+      .delete()
+      .eq('id', id)
+      .eq('household_id', householdId)
+
+    if (deleteError) {
+      throw new Error(`Failed to update merchant pattern: ${deleteError.message}`)
+    }
+  } else {
+    const { error } = await supabaseAdmin
+      .from('merchant_patterns')
+      .update({ category_id: categoryId, updated_at: now })
+      .eq('id', id)
+      .eq('household_id', householdId)
+
+    if (error) {
+      throw new Error(`Failed to update merchant pattern: ${error.message}`)
+    }
+  }
+
+  revalidatePath('/patterns')
+  revalidatePath('/transactions')
+}
+
+/**
+ * Delete a learned pattern
+ */
+export async function deleteMerchantPattern(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Pattern ID is required')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('merchant_patterns')
+    .delete()
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to delete merchant pattern: ${error.message}`)
+  }
+
+  revalidatePath('/patterns')
+  revalidatePath('/transactions')
+}
+
+/**
+ * Remove patterns that were only used once and not for a while.
+ * These are most often one-off mistakes that would otherwise keep
+ * influencing suggestions.
+ *
+ * @returns Number of patterns removed
+ */
+export async function pruneMerchantPatterns(): Promise<{ deleted: number }> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const cutoff = new Date(Date.now() - PRUNE_AFTER_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabaseAdmin
+    .from('merchant_patterns')
+    .delete()
+    .eq('household_id', householdId)
+    .eq('match_count', 1)
+    .lt('last_used_at', cutoff)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to prune merchant patterns: ${error.message}`)
+  }
+
+  revalidatePath('/patterns')
+  revalidatePath('/transactions')
+
+  return { deleted: data?.length ?? 0 }
+}
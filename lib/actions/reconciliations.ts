@@ -0,0 +1,159 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import type { TransactionWithCategory } from './transactions'
+import { reconciliationSchema, ReconciliationInput } from '@/lib/schemas/account'
+import { dollarsToCents, formatMoney } from '@/lib/utils/money'
+import { validateUUID } from '@/lib/utils/validation'
+import { fetchAllPages } from '@/lib/utils/pagination'
+import type { Account, Reconciliation } from '@/lib/types'
+
+// Everything needed to reconcile an account against a statement
+export type ReconciliationState = {
+  account: Account
+  lastReconciliation: Reconciliation | null
+  /** Opening balance plus every transaction already reconciled, in cents */
+  reconciledBalanceCents: number
+  /** Transactions in the account not yet reconciled, newest first */
+  transactions: TransactionWithCategory[]
+}
+
+async function getOwnedAccount(householdId: string, accountId: string): Promise<Account | null> {
+  const { data, error } = await supabaseAdmin
+    .from('accounts')
+    .select('*')
+    .eq('id', accountId)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch account: ${error.message}`)
+  }
+  return data
+}
+
+/**
+ * Get an account's reconciled balance and the transactions still to check
+ * off, or null when the account doesn't exist.
+ */
+export async function getReconciliationState(accountId: string): Promise<ReconciliationState | null> {
+  const householdId = await getSession()
+  if (!householdId) return null
+
+  validateUUID(accountId, 'Account ID')
+
+  const account = await getOwnedAccount(householdId, accountId)
+  if (!account) return null
+
+  const [transactions, balanceResult, lastResult] = await Promise.all([
+    // Not yet reconciled in this account: a transfer into it on its receiving side
+    fetchAllPages<TransactionWithCategory>('transactions', (from, to) =>
+      supabaseAdmin
+        .from('transactions')
+        .select('*, category:categories(id, name, color), splits:transaction_splits(id, category_id, amount, amount_cents, memo)')
+        .eq('household_id', householdId)
+        .is('deleted_at', null)
+        .or(
+          `and(type.eq.transfer,transfer_account_id.eq.${accountId},transfer_reconciliation_id.is.null),` +
+          `and(account_id.eq.${accountId},reconciliation_id.is.null)`
+        )
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false })
+        .order('id')
+        .range(from, to)),
+    supabaseAdmin.rpc('get_reconciled_balance', { p_household_id: householdId, p_account_id: accountId }),
+    supabaseAdmin
+      .from('reconciliations')
+      .select('*')
+      .eq('household_id', householdId)
+      .eq('account_id', accountId)
+      .order('statement_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
+
+  if (balanceResult.error) {
+    throw new Error(`Failed to fetch reconciled balance: ${balanceResult.error.message}`)
+  }
+  if (lastResult.error) {
+    throw new Error(`Failed to fetch reconciliations: ${lastResult.error.message}`)
+  }
+
+  return {
+    account,
+    lastReconciliation: lastResult.data,
+    reconciledBalanceCents: balanceResult.data ?? account.opening_balance_cents,
+    transactions,
+  }
+}
+
+/**
+ * Reconcile an account against a statement. The checked-off transactions,
+ * together with those reconciled before, must add up to the statement's
+ * ending balance; they are then locked from edits. Checked and saved in a
+ * single database transaction by the reconcile_account Postgres function.
+ */
+export async function reconcileAccount(input: ReconciliationInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  const validated = reconciliationSchema.parse(input)
+
+  const { data, error } = await supabaseAdmin.rpc('reconcile_account', {
+    p_household_id: householdId,
+    p_account_id: validated.accountId,
+    p_statement_date: validated.statementDate,
+    p_statement_balance: validated.statementBalance,
+    p_statement_balance_cents: dollarsToCents(validated.statementBalance),
+    p_transaction_ids: validated.transactionIds,
+    p_member_id: memberId ?? undefined,
+  })
+
+  if (error) {
+    throw new Error(`Failed to save reconciliation: ${error.message}`)
+  }
+
+  const result = data as { success: boolean; error?: string; difference_cents?: number }
+  if (!result.success) {
+    if (result.difference_cents !== undefined) {
+      throw new Error(
+        `Cleared transactions are ${formatMoney(result.difference_cents)} off the statement balance`
+      )
+    }
+    throw new Error(result.error || 'Failed to save reconciliation')
+  }
+
+  revalidatePath('/accounts')
+  revalidatePath('/transactions')
+}
+
+/**
+ * Unlock a reconciled transaction so it can be edited or deleted. It leaves
+ * its reconciliation and has to be checked off again next time.
+ */
+export async function unlockTransaction(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  if (!id || id.trim() === '') {
+    throw new Error('Transaction ID is required')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('transactions')
+    .update({ reconciliation_id: null, transfer_reconciliation_id: null, updated_by: memberId })
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to unlock transaction: ${error.message}`)
+  }
+
+  revalidatePath('/accounts')
+  revalidatePath('/transactions')
+}
@@ -3,16 +3,45 @@
 import { getSession } from '@/lib/auth'
 import { getTransactions } from './transactions'
 import { getCategories } from './categories'
-import { getMonthlyBudgets } from './budgets'
+import { getMonthlyBudgets, getCategoryRollovers } from './budgets'
+import { getGoalSavings } from './goals'
 
-import { isIncomeTransaction } from '@/lib/utils/transaction-helpers'
+import { getCategoryAllocations, isExpenseTransaction, isIncomeTransaction } from '@/lib/utils/transaction-helpers'
 import { dollarsToCents, centsToDollars, addCents } from '@/lib/utils/money'
+import { buildCategoryGroups, getGroupIds, rollUpToGroups } from '@/lib/utils/category-groups'
+import type { RolloverEntry } from '@/lib/utils/rollover'
 
 export interface CategoryReport {
   categoryId: string
   categoryName: string
   categoryColor: string
+  /** The group it's a subcategory of, if any */
+  parentId: string | null
   budgeted: number
+  /** Balance carried in from the previous month (negative = overspending carried as debt) */
+  carryover: number
+  /** budgeted + carryover */
+  available: number
+  spent: number
+  remaining: number
+  percentUsed: number
+  transactionCount: number
+  /** How the available balance was derived, month by month; empty when the category resets */
+  rolloverHistory: RolloverEntry[]
+}
+
+/**
+ * A group's totals: the group itself plus all of its subcategories
+ */
+export interface CategoryGroupReport {
+  groupId: string
+  groupName: string
+  groupColor: string
+  /** The group and its subcategories that appear in the report, in order */
+  categoryIds: string[]
+  budgeted: number
+  carryover: number
+  available: number
   spent: number
   remaining: number
   percentUsed: number
@@ -22,35 +51,53 @@ export interface CategoryReport {
 export interface MonthlyReport {
   month: string
   totalBudgeted: number
+  totalCarryover: number
   totalIncome: number
   totalSpent: number
   totalRemaining: number
   netCashFlow: number
   savingsRate: number
   categories: CategoryReport[]
+  groups: CategoryGroupReport[]
   transactionsByDay: { date: string; amount: number }[]
   topTransactions: Array<{ id: string; amount: number; description: string; date: string; categoryName: string }>
 }
 
+export interface YearSummary {
+  totalBudgeted: number
+  totalSpent: number
+  totalSaved: number
+  averageMonthlySpend: number
+  highestSpendMonth: { month: string; amount: number }
+  lowestSpendMonth: { month: string; amount: number }
+  categoryTotals: Array<{ name: string; color: string; total: number }>
+  /** Saved toward each savings goal during the year */
+  goalSavings: Array<{ name: string; saved: number; targetAmount: number }>
+  totalGoalSavings: number
+}
+
 export interface TrendData {
   month: string
   spent: number
   budgeted: number
+  /** Spending and budget per category group */
+  groups: Array<{ groupId: string; name: string; color: string; spent: number; budgeted: number }>
 }
 
 export async function getMonthlyReport(month: string): Promise<MonthlyReport> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
 
-  const [categories, budgets, allTransactions] = await Promise.all([
-    getCategories(),
+  const [categories, budgets, allTransactions, rollovers] = await Promise.all([
+    getCategories({ includeArchived: true }),
     getMonthlyBudgets(month),
     getTransactions({ startDate: `${month}-01`, endDate: `${month}-31` }),
+    getCategoryRollovers(month),
   ])
 
   // Separate income and expenses
   const incomeTransactions = allTransactions.filter(isIncomeTransaction)
-  const expenseTransactions = allTransactions.filter(t => !isIncomeTransaction(t))
+  const expenseTransactions = allTransactions.filter(isExpenseTransaction)
 
   const budgetMap = new Map(budgets.map((b) => [
     b.category_id,
@@ -58,36 +105,98 @@ export async function getMonthlyReport(month: string): Promise<MonthlyReport> {
   ]))
   const categoryMap = new Map(categories.map((c) => [c.id, c]))
 
-  // Calculate spending by category (expenses only)
+  const groupIds = getGroupIds(categories)
+
+  // Calculate spending by category (expenses only), attributing splits to their own categories
   const categorySpending = new Map<string, number>()
   const categoryTransactionCount = new Map<string, number>()
+  const groupTransactionCount = new Map<string, number>()
 
   expenseTransactions.forEach((t) => {
-    if (t.category_id) {
-      const amountCents = t.amount_cents ?? dollarsToCents(t.amount)
-      categorySpending.set(t.category_id, (categorySpending.get(t.category_id) || 0) + amountCents)
-      categoryTransactionCount.set(t.category_id, (categoryTransactionCount.get(t.category_id) || 0) + 1)
-    }
+    const countedCategories = new Set<string>()
+    const countedGroups = new Set<string>()
+    getCategoryAllocations(t).forEach(({ categoryId, amountCents }) => {
+      if (!categoryId) return
+      categorySpending.set(categoryId, (categorySpending.get(categoryId) || 0) + amountCents)
+      if (!countedCategories.has(categoryId)) {
+        countedCategories.add(categoryId)
+        categoryTransactionCount.set(categoryId, (categoryTransactionCount.get(categoryId) || 0) + 1)
+      }
+      // A split across one group's subcategories is still one transaction in the group
+      const groupId = groupIds.get(categoryId)
+      if (groupId && !countedGroups.has(groupId)) {
+        countedGroups.add(groupId)
+        groupTransactionCount.set(groupId, (groupTransactionCount.get(groupId) || 0) + 1)
+      }
+    })
   })
 
-  // Build category reports
-  const categoryReports: CategoryReport[] = categories.map((cat) => {
-    const budgetedCents = budgetMap.get(cat.id) || 0
-    const spentCents = categorySpending.get(cat.id) || 0
-    const remainingCents = budgetedCents - spentCents
-    const percentUsed = budgetedCents > 0 ? (spentCents / budgetedCents) * 100 : 0
-
-    return {
-      categoryId: cat.id,
-      categoryName: cat.name,
-      categoryColor: cat.color,
-      budgeted: centsToDollars(budgetedCents),
-      spent: centsToDollars(spentCents),
-      remaining: centsToDollars(remainingCents),
-      percentUsed,
-      transactionCount: categoryTransactionCount.get(cat.id) || 0,
-    }
-  })
+  // Build category reports, with archived categories only where they had activity
+  const categoryReports: CategoryReport[] = categories
+    .filter((cat) => !cat.archived_at || budgetMap.has(cat.id) || categorySpending.has(cat.id))
+    .map((cat) => {
+      const budgetedCents = budgetMap.get(cat.id) || 0
+      const history = rollovers[cat.id] ?? []
+      const carryoverCents = history[history.length - 1]?.carryoverCents ?? 0
+      const availableCents = budgetedCents + carryoverCents
+      const spentCents = categorySpending.get(cat.id) || 0
+      const remainingCents = availableCents - spentCents
+      const percentUsed = availableCents > 0 ? (spentCents / availableCents) * 100 : 0
+
+      return {
+        categoryId: cat.id,
+        categoryName: cat.name,
+        categoryColor: cat.color,
+        parentId: cat.parent_id,
+        budgeted: centsToDollars(budgetedCents),
+        carryover: centsToDollars(carryoverCents),
+        available: centsToDollars(availableCents),
+        spent: centsToDollars(spentCents),
+        remaining: centsToDollars(remainingCents),
+        percentUsed,
+        transactionCount: categoryTransactionCount.get(cat.id) || 0,
+        rolloverHistory: history,
+      }
+    })
+
+  // Roll subcategories up into their groups
+  const carryoverByCategory = new Map(
+    Object.entries(rollovers).map(([categoryId, history]) => [
+      categoryId,
+      history[history.length - 1]?.carryoverCents ?? 0,
+    ])
+  )
+  const groupBudgeted = rollUpToGroups(budgetMap, categories)
+  const groupCarryover = rollUpToGroups(carryoverByCategory, categories)
+  const groupSpent = rollUpToGroups(categorySpending, categories)
+  const reportedIds = new Set(categoryReports.map((report) => report.categoryId))
+
+  const groupReports: CategoryGroupReport[] = buildCategoryGroups(categories)
+    .map(({ category, children }) => ({
+      category,
+      categoryIds: [category, ...children].map((c) => c.id).filter((id) => reportedIds.has(id)),
+    }))
+    .filter(({ categoryIds }) => categoryIds.length > 0)
+    .map(({ category, categoryIds }) => {
+      const budgetedCents = groupBudgeted.get(category.id) || 0
+      const carryoverCents = groupCarryover.get(category.id) || 0
+      const availableCents = budgetedCents + carryoverCents
+      const spentCents = groupSpent.get(category.id) || 0
+
+      return {
+        groupId: category.id,
+        groupName: category.name,
+        groupColor: category.color,
+        categoryIds,
+        budgeted: centsToDollars(budgetedCents),
+        carryover: centsToDollars(carryoverCents),
+        available: centsToDollars(availableCents),
+        spent: centsToDollars(spentCents),
+        remaining: centsToDollars(availableCents - spentCents),
+        percentUsed: availableCents > 0 ? (spentCents / availableCents) * 100 : 0,
+        transactionCount: groupTransactionCount.get(category.id) || 0,
+      }
+    })
 
   // Calculate daily spending (expenses only) - Using Cents internally
   const dailySpending = new Map<string, number>()
@@ -111,13 +220,17 @@ export async function getMonthlyReport(month: string): Promise<MonthlyReport> {
       amount: centsToDollars(t.amount_cents ?? dollarsToCents(t.amount)), // Normalize to dollars from cents
       description: t.description || 'No description',
       date: t.date,
-      categoryName: t.category?.name || 'Uncategorized',
+      categoryName: t.splits?.length ? 'Split' : t.category?.name || 'Uncategorized',
     }))
 
   const totalBudgetedCents = budgets.reduce((sum, b) => sum + (b.budgeted_amount_cents ?? dollarsToCents(b.budgeted_amount)), 0)
   const totalIncomeCents = incomeTransactions.reduce((sum, t) => sum + (t.amount_cents ?? dollarsToCents(t.amount)), 0)
   const totalSpentCents = expenseTransactions.reduce((sum, t) => sum + (t.amount_cents ?? dollarsToCents(t.amount)), 0)
-  const totalRemainingCents = totalBudgetedCents - totalSpentCents
+  const totalCarryoverCents = Object.values(rollovers).reduce(
+    (sum, history) => sum + (history[history.length - 1]?.carryoverCents ?? 0),
+    0
+  )
+  const totalRemainingCents = totalBudgetedCents + totalCarryoverCents - totalSpentCents
   const netCashFlowCents = totalIncomeCents - totalSpentCents
 
   // Ratios match regardless of units
@@ -126,12 +239,14 @@ export async function getMonthlyReport(month: string): Promise<MonthlyReport> {
   return {
     month,
     totalBudgeted: centsToDollars(totalBudgetedCents),
+    totalCarryover: centsToDollars(totalCarryoverCents),
     totalIncome: centsToDollars(totalIncomeCents),
     totalSpent: centsToDollars(totalSpentCents),
     totalRemaining: centsToDollars(totalRemainingCents),
     netCashFlow: centsToDollars(netCashFlowCents),
     savingsRate,
     categories: categoryReports,
+    groups: groupReports,
     transactionsByDay,
     topTransactions,
   }
@@ -149,7 +264,8 @@ export async function getMultiMonthTrend(months: string[]): Promise<TrendData[]>
   const endMonth = sortedMonths[sortedMonths.length - 1]
 
   // Fetch all data in bulk with single queries
-  const [allBudgets, allTransactions] = await Promise.all([
+  const [categories, allBudgets, allTransactions] = await Promise.all([
+    getCategories({ includeArchived: true }),
     getMonthlyBudgets(startMonth, endMonth),
     getTransactions({
       startDate: `${startMonth}-01`,
@@ -158,29 +274,58 @@ export async function getMultiMonthTrend(months: string[]): Promise<TrendData[]>
   ])
 
   // Filter out income
-  const expenses = allTransactions.filter(t => !isIncomeTransaction(t))
+  const expenses = allTransactions.filter(isExpenseTransaction)
 
-  // Group budgets by month
+  // Add an amount to a month's per-category totals
+  const addToMonth = (totals: Map<string, Map<string, number>>, month: string, categoryId: string, cents: number) => {
+    const monthTotals = totals.get(month) ?? new Map<string, number>()
+    monthTotals.set(categoryId, (monthTotals.get(categoryId) || 0) + cents)
+    totals.set(month, monthTotals)
+  }
+
+  // Group budgets by month, and by category within each month
   const budgetsByMonth = new Map<string, number>()
+  const categoryBudgetsByMonth = new Map<string, Map<string, number>>()
   allBudgets.forEach((b) => {
     const amt = b.budgeted_amount_cents ?? dollarsToCents(b.budgeted_amount)
     budgetsByMonth.set(b.month, (budgetsByMonth.get(b.month) || 0) + amt)
+    addToMonth(categoryBudgetsByMonth, b.month, b.category_id, amt)
   })
 
-  // Group expenses by month (extract YYYY-MM from date)
+  // Group expenses by month (extract YYYY-MM from date), and by category within each month
   const expensesByMonth = new Map<string, number>()
+  const categoryExpensesByMonth = new Map<string, Map<string, number>>()
   expenses.forEach((t) => {
     const month = t.date.slice(0, 7) // Extract YYYY-MM
     const amt = t.amount_cents ?? dollarsToCents(t.amount)
     expensesByMonth.set(month, (expensesByMonth.get(month) || 0) + amt)
+    getCategoryAllocations(t).forEach(({ categoryId, amountCents }) => {
+      if (categoryId) addToMonth(categoryExpensesByMonth, month, categoryId, amountCents)
+    })
   })
 
+  const groups = buildCategoryGroups(categories).map(({ category }) => category)
+
   // Build result for each requested month
-  const data = months.map((month) => ({
-    month,
-    spent: centsToDollars(expensesByMonth.get(month) || 0),
-    budgeted: centsToDollars(budgetsByMonth.get(month) || 0),
-  }))
+  const data = months.map((month) => {
+    const groupSpent = rollUpToGroups(categoryExpensesByMonth.get(month) ?? new Map(), categories)
+    const groupBudgeted = rollUpToGroups(categoryBudgetsByMonth.get(month) ?? new Map(), categories)
+
+    return {
+      month,
+      spent: centsToDollars(expensesByMonth.get(month) || 0),
+      budgeted: centsToDollars(budgetsByMonth.get(month) || 0),
+      groups: groups
+        .filter((group) => groupSpent.has(group.id) || groupBudgeted.has(group.id))
+        .map((group) => ({
+          groupId: group.id,
+          name: group.name,
+          color: group.color,
+          spent: centsToDollars(groupSpent.get(group.id) || 0),
+          budgeted: centsToDollars(groupBudgeted.get(group.id) || 0),
+        })),
+    }
+  })
 
   return data.sort((a, b) => a.month.localeCompare(b.month))
 }
@@ -200,7 +345,7 @@ export async function getForecast(currentMonth: string): Promise<{
   ])
 
   // Filter out income
-  const expenses = allTransactions.filter(t => !isIncomeTransaction(t))
+  const expenses = allTransactions.filter(isExpenseTransaction)
 
   const totalBudgetedCents = budgets.reduce((sum, b) => sum + (b.budgeted_amount_cents ?? dollarsToCents(b.budgeted_amount)), 0)
   const totalSpentCents = expenses.reduce((sum, t) => sum + (t.amount_cents ?? dollarsToCents(t.amount)), 0)
@@ -228,15 +373,7 @@ export async function getForecast(currentMonth: string): Promise<{
   }
 }
 
-export async function getYearSummary(year: number): Promise<{
-  totalBudgeted: number
-  totalSpent: number
-  totalSaved: number
-  averageMonthlySpend: number
-  highestSpendMonth: { month: string; amount: number }
-  lowestSpendMonth: { month: string; amount: number }
-  categoryTotals: Array<{ name: string; color: string; total: number }>
-}> {
+export async function getYearSummary(year: number): Promise<YearSummary> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
 
@@ -245,17 +382,18 @@ export async function getYearSummary(year: number): Promise<{
   )
 
   // Fetch all data for the year in bulk (2 queries instead of 24+)
-  const [categories, yearBudgets, yearTransactions] = await Promise.all([
-    getCategories(),
+  const [categories, yearBudgets, yearTransactions, goalSavings] = await Promise.all([
+    getCategories({ includeArchived: true }),
     getMonthlyBudgets(`${year}-01`, `${year}-12`),
     getTransactions({
       startDate: `${year}-01-01`,
       endDate: `${year}-12-31`
     }),
+    getGoalSavings(`${year}-01-01`, `${year}-12-31`),
   ])
 
   // Filter out income
-  const expenses = yearTransactions.filter(t => !isIncomeTransaction(t))
+  const expenses = yearTransactions.filter(isExpenseTransaction)
 
   // Group budgets by month
   const budgetsByMonth = new Map<string, number>()
@@ -297,10 +435,11 @@ export async function getYearSummary(year: number): Promise<{
   // Calculate category totals from all expenses
   const categoryTotals = new Map<string, number>()
   expenses.forEach((t) => {
-    if (t.category_id) {
-      const amt = t.amount_cents ?? dollarsToCents(t.amount)
-      categoryTotals.set(t.category_id, (categoryTotals.get(t.category_id) || 0) + amt)
-    }
+    getCategoryAllocations(t).forEach(({ categoryId, amountCents }) => {
+      if (categoryId) {
+        categoryTotals.set(categoryId, (categoryTotals.get(categoryId) || 0) + amountCents)
+      }
+    })
   })
 
   const categoryTotalsArray = categories
@@ -320,5 +459,9 @@ export async function getYearSummary(year: number): Promise<{
     highestSpendMonth: { month: highestSpendMonth.month, amount: centsToDollars(highestSpendMonth.spent) },
     lowestSpendMonth: { month: lowestSpendMonth.month, amount: centsToDollars(lowestSpendMonth.spent) },
     categoryTotals: categoryTotalsArray,
+    goalSavings,
+    totalGoalSavings: centsToDollars(
+      goalSavings.reduce((sum, goal) => addCents(sum, dollarsToCents(goal.saved)), 0)
+    ),
   }
 }
@@ -0,0 +1,295 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import { ruleSchema, RuleInput } from '@/lib/schemas/rule'
+import { applyRules } from '@/lib/utils/rule-engine'
+import { fetchAllPages } from '@/lib/utils/pagination'
+import type { CategorizationRule } from '@/lib/types'
+
+/**
+ * A change that re-running the rules would make to an existing transaction.
+ */
+export type RuleRunChange = {
+  transactionId: string
+  date: string
+  amount: number
+  description: string | null
+  currentCategoryId: string | null
+  /** When the transaction was last changed, to catch edits made since the preview */
+  updatedAt: string
+  /** Category after the run (unchanged if no rule sets one) */
+  newCategoryId: string | null
+  /** Description after the run (unchanged if no rule renames) */
+  newDescription: string | null
+}
+
+/**
+ * What happened to a rule run. When any transaction was changed by someone
+ * else since the preview, or is reconciled, nothing is saved and those
+ * transactions are listed.
+ */
+export type RuleRunResult = {
+  success: boolean
+  updated: number
+  conflicts: string[]
+  locked: string[]
+}
+
+/**
+ * Get the household's categorization rules in the order they run.
+ */
+export async function getRules(): Promise<CategorizationRule[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('categorization_rules')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('priority')
+    .order('created_at')
+
+  if (error) {
+    throw new Error(`Failed to fetch rules: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Make sure a rule's category belongs to the household.
+ */
+async function assertCategoryOwned(householdId: string, categoryId: string | null | undefined): Promise<void> {
+  if (!categoryId) return
+
+  const { data, error } = await supabaseAdmin
+    .from('categories')
+    .select('id')
+    .eq('id', categoryId)
+    .eq('household_id', householdId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to verify category: ${error.message}`)
+  }
+  if (!data) {
+    throw new Error('Category not found')
+  }
+}
+
+function toRuleRow(input: RuleInput) {
+  const validated = ruleSchema.parse(input)
+  return {
+    priority: validated.priority,
+    match_type: validated.matchType,
+    pattern: validated.pattern,
+    min_amount: validated.minAmount ?? null,
+    max_amount: validated.maxAmount ?? null,
+    transaction_type: validated.transactionType ?? null,
+    category_id: validated.categoryId || null,
+    rename_to: validated.renameTo || null,
+    enabled: validated.enabled,
+  }
+}
+
+/**
+ * Create a categorization rule
+ */
+export async function createRule(input: RuleInput): Promise<CategorizationRule> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const row = toRuleRow(input)
+  await assertCategoryOwned(householdId, row.category_id)
+
+  const { data, error } = await supabaseAdmin
+    .from('categorization_rules')
+    .insert({ household_id: householdId, ...row })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create rule: ${error.message}`)
+  }
+
+  revalidatePath('/settings')
+  return data as CategorizationRule
+}
+
+/**
+ * Update a categorization rule
+ */
+export async function updateRule(id: string, input: RuleInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Rule ID is required')
+  }
+
+  const row = toRuleRow(input)
+  await assertCategoryOwned(householdId, row.category_id)
+
+  const { error } = await supabaseAdmin
+    .from('categorization_rules')
+    .update({ ...row, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to update rule: ${error.message}`)
+  }
+
+  revalidatePath('/settings')
+}
+
+/**
+ * Delete a categorization rule
+ */
+export async function deleteRule(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Rule ID is required')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('categorization_rules')
+    .delete()
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to delete rule: ${error.message}`)
+  }
+
+  revalidatePath('/settings')
+}
+
+/**
+ * Work out what the current rules would change across all transactions.
+ *
+ * Transfers and reconciled transactions are left alone, and split
+ * transactions are only ever renamed: their categories are on the splits.
+ */
+async function computeRuleRunChanges(householdId: string): Promise<RuleRunChange[]> {
+  const { data: rules, error: rulesError } = await supabaseAdmin
+    .from('categorization_rules')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('enabled', true)
+
+  if (rulesError) {
+    throw new Error(`Failed to fetch rules: ${rulesError.message}`)
+  }
+  if (!rules || rules.length === 0) return []
+
+  const transactions = await fetchAllPages('transactions', (from, to) =>
+    supabaseAdmin
+      .from('transactions')
+      .select('id, date, amount, description, type, category_id, created_at, updated_at, reconciliation_id, transfer_reconciliation_id, splits:transaction_splits(id)')
+      .eq('household_id', householdId)
+      .is('deleted_at', null)
+      .neq('type', 'transfer')
+      .is('reconciliation_id', null)
+      .is('transfer_reconciliation_id', null)
+      .order('date', { ascending: false })
+      .order('id')
+      .range(from, to))
+
+  const changes: RuleRunChange[] = []
+
+  for (const txn of transactions) {
+    const result = applyRules(
+      {
+        description: txn.description ?? '',
+        amount: txn.amount,
+        type: txn.type === 'income' ? 'income' : 'expense',
+      },
+      rules
+    )
+
+    const isSplit = txn.splits.length > 0
+    const newCategoryId = isSplit ? txn.category_id : result.categoryId ?? txn.category_id
+    const newDescription = result.renameTo ?? txn.description
+
+    if (newCategoryId !== txn.category_id || newDescription !== txn.description) {
+      changes.push({
+        transactionId: txn.id,
+        date: txn.date,
+        amount: txn.amount,
+        description: txn.description,
+        currentCategoryId: txn.category_id,
+        updatedAt: txn.updated_at ?? txn.created_at ?? '',
+        newCategoryId,
+        newDescription,
+      })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Preview re-running the rules on existing transactions.
+ * Nothing is written; the result lists every transaction that would change.
+ */
+export async function previewRuleRun(): Promise<RuleRunChange[]> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  return computeRuleRunChanges(householdId)
+}
+
+/**
+ * Re-run the rules on existing transactions and save the changes.
+ *
+ * Changes are recomputed on the server rather than trusted from the client,
+ * and saved in a single database transaction by the apply_rule_changes
+ * Postgres function.
+ *
+ * @param selection - The previewed changes to apply, with the timestamps
+ *   they were previewed at; every change when omitted
+ */
+export async function applyRuleRun(
+  selection?: Pick<RuleRunChange, 'transactionId' | 'updatedAt'>[]
+): Promise<RuleRunResult> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  const previewedAt = selection
+    ? new Map(selection.map((change) => [change.transactionId, change.updatedAt]))
+    : null
+  const changes = (await computeRuleRunChanges(householdId))
+    .filter((change) => !previewedAt || previewedAt.has(change.transactionId))
+
+  const { data, error } = await supabaseAdmin.rpc('apply_rule_changes', {
+    p_household_id: householdId,
+    p_items: changes.map((change) => ({
+      id: change.transactionId,
+      expected_updated_at: previewedAt?.get(change.transactionId) ?? change.updatedAt,
+      category_id: change.newCategoryId,
+      description: change.newDescription,
+    })),
+    p_member_id: memberId ?? undefined,
+  })
+
+  if (error) {
+    throw new Error(`Failed to apply rules: ${error.message}`)
+  }
+
+  const result = data as RuleRunResult
+
+  if (result.updated > 0) {
+    revalidatePath('/')
+    revalidatePath('/transactions')
+    revalidatePath('/insights')
+  }
+
+  return result
+}
@@ -0,0 +1,415 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession } from '@/lib/auth'
+import { insertTransaction } from '@/lib/actions/transactions'
+import { getHouseholdTimezone } from '@/lib/actions/settings'
+import { scheduledTransactionSchema, ScheduledTransactionInput } from '@/lib/schemas/scheduled-transaction'
+import { dollarsToCents } from '@/lib/utils/money'
+import { getCurrentDate } from '@/lib/utils/date'
+import {
+  addDays,
+  getFirstOccurrence,
+  getNextOccurrence,
+  listOccurrences,
+  type ScheduleFrequency,
+  type ScheduleRule,
+} from '@/lib/utils/schedule'
+import type { ScheduledTransaction } from '@/lib/types'
+
+// Most occurrences of one schedule posted in a single pass (a daily
+// schedule that nobody looked at for a month still catches up)
+const MAX_CATCH_UP_OCCURRENCES = 31
+
+// How far ahead the dashboard looks
+const UPCOMING_DAYS = 14
+
+// Scheduled transaction with joined category data
+export type ScheduledTransactionWithCategory = ScheduledTransaction & {
+  category: {
+    id: string
+    name: string
+    color: string
+  } | null
+}
+
+/**
+ * One date on which a schedule falls due.
+ */
+export type UpcomingOccurrence = {
+  scheduleId: string
+  date: string
+  amount: number
+  description: string | null
+  type: 'income' | 'expense'
+  mode: 'auto' | 'confirm'
+  category: ScheduledTransactionWithCategory['category']
+  /** The schedule's next occurrence, and it is due today or earlier */
+  isDue: boolean
+}
+
+const SCHEDULE_SELECT = '*, category:categories(id, name, color)'
+
+function toScheduleRule(schedule: Pick<ScheduledTransaction, 'frequency' | 'day_of_month' | 'start_date'>): ScheduleRule {
+  return {
+    frequency: schedule.frequency as ScheduleFrequency,
+    dayOfMonth: schedule.day_of_month,
+    startDate: schedule.start_date,
+  }
+}
+
+function toScheduleRow(input: ScheduledTransactionInput) {
+  const validated = scheduledTransactionSchema.parse(input)
+  return {
+    category_id: validated.categoryId || null,
+    amount: validated.amount,
+    amount_cents: dollarsToCents(validated.amount),
+    description: validated.description || null,
+    type: validated.type,
+    frequency: validated.frequency,
+    day_of_month: validated.frequency === 'monthly' ? validated.dayOfMonth ?? null : null,
+    start_date: validated.startDate,
+    end_date: validated.endDate || null,
+    mode: validated.mode,
+  }
+}
+
+/**
+ * Make sure a schedule's category belongs to the household.
+ */
+async function assertCategoryOwned(householdId: string, categoryId: string | null): Promise<void> {
+  if (!categoryId) return
+
+  const { data, error } = await supabaseAdmin
+    .from('categories')
+    .select('id')
+    .eq('id', categoryId)
+    .eq('household_id', householdId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to verify category: ${error.message}`)
+  }
+  if (!data) {
+    throw new Error('Category not found')
+  }
+}
+
+async function getToday(): Promise<string> {
+  const timezone = await getHouseholdTimezone()
+  return getCurrentDate(timezone)
+}
+
+function revalidateSchedulePaths(): void {
+  revalidatePath('/')
+  revalidatePath('/scheduled')
+}
+
+/**
+ * Get the household's scheduled transactions, soonest first.
+ */
+export async function getScheduledTransactions(): Promise<ScheduledTransactionWithCategory[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('scheduled_transactions')
+    .select(SCHEDULE_SELECT)
+    .eq('household_id', householdId)
+    .order('next_date')
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled transactions: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+/**
+ * Create a scheduled transaction
+ */
+export async function createScheduledTransaction(input: ScheduledTransactionInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const row = toScheduleRow(input)
+  await assertCategoryOwned(householdId, row.category_id)
+
+  const { error } = await supabaseAdmin
+    .from('scheduled_transactions')
+    .insert({
+      household_id: householdId,
+      ...row,
+      next_date: getFirstOccurrence(toScheduleRule(row), row.start_date),
+    })
+
+  if (error) {
+    throw new Error(`Failed to create scheduled transaction: ${error.message}`)
+  }
+
+  revalidateSchedulePaths()
+}
+
+/**
+ * Update a scheduled transaction.
+ *
+ * Occurrences that were already posted or skipped stay that way: the next
+ * occurrence is recalculated from the current one onwards.
+ */
+export async function updateScheduledTransaction(id: string, input: ScheduledTransactionInput): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Scheduled transaction ID is required')
+  }
+
+  const row = toScheduleRow(input)
+  await assertCategoryOwned(householdId, row.category_id)
+
+  const { data: current, error: fetchError } = await supabaseAdmin
+    .from('scheduled_transactions')
+    .select('next_date')
+    .eq('id', id)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to load scheduled transaction: ${fetchError.message}`)
+  }
+  if (!current) {
+    throw new Error('Scheduled transaction not found')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('scheduled_transactions')
+    .update({
+      ...row,
+      next_date: getFirstOccurrence(toScheduleRule(row), current.next_date),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to update scheduled transaction: ${error.message}`)
+  }
+
+  revalidateSchedulePaths()
+}
+
+/**
+ * Delete a scheduled transaction. Transactions it already posted are kept.
+ */
+export async function deleteScheduledTransaction(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Scheduled transaction ID is required')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('scheduled_transactions')
+    .delete()
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to delete scheduled transaction: ${error.message}`)
+  }
+
+  revalidateSchedulePaths()
+}
+
+/**
+ * Move a schedule past `date`. Only moves it if `date` is still its next
+ * occurrence, so a concurrent post or skip can't advance it twice.
+ */
+async function advanceSchedule(householdId: string, schedule: ScheduledTransaction, date: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('scheduled_transactions')
+    .update({
+      next_date: getNextOccurrence(toScheduleRule(schedule), date),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', schedule.id)
+    .eq('household_id', householdId)
+    .eq('next_date', date)
+
+  if (error) {
+    throw new Error(`Failed to advance scheduled transaction: ${error.message}`)
+  }
+}
+
+/**
+ * Post one occurrence as a real transaction, then advance the schedule.
+ *
+ * Goes through the same insert as createTransaction so categorization rules
+ * and merchant learning behave exactly as for a hand-entered transaction,
+ * but revalidates nothing: the dashboard posts while it renders. The
+ * occurrence is stamped on the transaction, and the database refuses a
+ * second row for it, so retrying after a failure between the two steps is
+ * safe.
+ */
+async function postOccurrence(householdId: string, schedule: ScheduledTransaction, date: string): Promise<void> {
+  await insertTransaction({
+    categoryId: schedule.category_id ?? undefined,
+    amount: schedule.amount,
+    description: schedule.description ?? undefined,
+    date,
+    type: schedule.type === 'income' ? 'income' : 'expense',
+    scheduledTransactionId: schedule.id,
+    scheduledDate: date,
+  })
+
+  await advanceSchedule(householdId, schedule, date)
+}
+
+/**
+ * Post every due occurrence of the household's auto-post schedules,
+ * using today's date in the household timezone.
+ *
+ * A schedule that fails to post (e.g. its category was deleted) is left
+ * where it is and retried next time; the others still post.
+ *
+ * @returns Number of transactions posted
+ */
+export async function postDueScheduledTransactions(): Promise<{ posted: number }> {
+  const householdId = await getSession()
+  if (!householdId) return { posted: 0 }
+
+  const today = await getToday()
+
+  const { data: schedules, error } = await supabaseAdmin
+    .from('scheduled_transactions')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('mode', 'auto')
+    .lte('next_date', today)
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled transactions: ${error.message}`)
+  }
+
+  let posted = 0
+  for (const schedule of schedules ?? []) {
+    const dates = listOccurrences(
+      toScheduleRule(schedule),
+      schedule.next_date,
+      today,
+      schedule.end_date,
+      MAX_CATCH_UP_OCCURRENCES
+    )
+
+    for (const date of dates) {
+      try {
+        await postOccurrence(householdId, schedule, date)
+        posted++
+      } catch (err) {
+        console.error(`Failed to post scheduled transaction ${schedule.id} for ${date}:`, err)
+        break
+      }
+    }
+  }
+
+  return { posted }
+}
+
+/**
+ * Load a schedule whose next occurrence is `date`.
+ * Returns null when that occurrence was already posted or skipped.
+ */
+async function getPendingSchedule(householdId: string, id: string, date: string): Promise<ScheduledTransaction | null> {
+  if (!id || id.trim() === '') {
+    throw new Error('Scheduled transaction ID is required')
+  }
+
+  const { data: schedule, error } = await supabaseAdmin
+    .from('scheduled_transactions')
+    .select('*')
+    .eq('id', id)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load scheduled transaction: ${error.message}`)
+  }
+  if (!schedule) {
+    throw new Error('Scheduled transaction not found')
+  }
+
+  return schedule.next_date === date ? schedule : null
+}
+
+/**
+ * Post a "remind me to confirm" occurrence.
+ * Confirming an occurrence that was already handled does nothing.
+ */
+export async function confirmScheduledOccurrence(id: string, date: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const schedule = await getPendingSchedule(householdId, id, date)
+  if (!schedule) return
+
+  await postOccurrence(householdId, schedule, date)
+  revalidateSchedulePaths()
+  revalidatePath('/transactions')
+  revalidatePath('/insights')
+}
+
+/**
+ * Skip an occurrence without posting it.
+ */
+export async function skipScheduledOccurrence(id: string, date: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const schedule = await getPendingSchedule(householdId, id, date)
+  if (!schedule) return
+
+  await advanceSchedule(householdId, schedule, date)
+  revalidateSchedulePaths()
+}
+
+/**
+ * Occurrences due over the next two weeks, plus any earlier ones still
+ * waiting to be confirmed, soonest first.
+ */
+export async function getUpcomingScheduledTransactions(): Promise<UpcomingOccurrence[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const today = await getToday()
+  const through = addDays(today, UPCOMING_DAYS)
+  const schedules = await getScheduledTransactions()
+
+  const occurrences: UpcomingOccurrence[] = []
+  for (const schedule of schedules) {
+    const dates = listOccurrences(
+      toScheduleRule(schedule),
+      schedule.next_date,
+      through,
+      schedule.end_date,
+      MAX_CATCH_UP_OCCURRENCES
+    )
+
+    for (const date of dates) {
+      occurrences.push({
+        scheduleId: schedule.id,
+        date,
+        amount: schedule.amount,
+        description: schedule.description,
+        type: schedule.type === 'income' ? 'income' : 'expense',
+        mode: schedule.mode === 'confirm' ? 'confirm' : 'auto',
+        category: schedule.category,
+        isDue: date === schedule.next_date && date <= today,
+      })
+    }
+  }
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date))
+}
@@ -3,6 +3,7 @@
 import { revalidatePath } from 'next/cache'
 import { supabaseAdmin } from '@/lib/supabase-server'
 import { getSession } from '@/lib/auth'
+import { getCurrentMonth } from '@/lib/utils/date'
 
 export async function getAutoRolloverSetting(): Promise<boolean> {
   const householdId = await getSession()
@@ -34,6 +35,45 @@ export async function setAutoRolloverSetting(enabled: boolean): Promise<void> {
   revalidatePath('/')
 }
 
+/**
+ * The first month of zero-based budgeting, or null when it's off
+ */
+export async function getZeroBasedStartMonth(): Promise<string | null> {
+  const householdId = await getSession()
+  if (!householdId) return null
+
+  const { data } = await supabaseAdmin
+    .from('households')
+    .select('zero_based_start_month')
+    .eq('id', householdId)
+    .maybeSingle()
+
+  return data?.zero_based_start_month ?? null
+}
+
+/**
+ * Turn zero-based budgeting on or off. Turning it on starts counting income
+ * from the current month; earlier months aren't expected to balance.
+ */
+export async function setZeroBasedBudgeting(enabled: boolean): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const startMonth = enabled ? getCurrentMonth(await getHouseholdTimezone()) : null
+
+  const { error } = await supabaseAdmin
+    .from('households')
+    .update({ zero_based_start_month: startMonth })
+    .eq('id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to update setting: ${error.message}`)
+  }
+
+  revalidatePath('/settings')
+  revalidatePath('/budget')
+}
+
 export async function getHouseholdTimezone(): Promise<string> {
   const householdId = await getSession()
   if (!householdId) return 'UTC'
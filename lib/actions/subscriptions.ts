@@ -0,0 +1,233 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession } from '@/lib/auth'
+import { getTransactions } from './transactions'
+import { getMerchantAliases } from './merchant-aliases'
+import { getHouseholdTimezone } from './settings'
+import type { RecurringCharge } from './insights'
+import {
+  recurringChargeReviewSchema,
+  subscriptionPriceSchema,
+  RecurringChargeReviewInput,
+} from '@/lib/schemas/subscription'
+import { dollarsToCents } from '@/lib/utils/money'
+import { getCurrentDate } from '@/lib/utils/date'
+import { addMonths } from '@/lib/utils/schedule'
+import { normalizeMerchant } from '@/lib/utils/merchant-normalizer'
+import { isExpenseTransaction } from '@/lib/utils/transaction-helpers'
+import {
+  estimateMonthlyCost,
+  findLatestScheduledCharge,
+  getSubscriptionState,
+  isSimilarAmount,
+  type SubscriptionFrequency,
+  type SubscriptionState,
+} from '@/lib/utils/subscriptions'
+import type { Subscription } from '@/lib/types'
+
+/**
+ * A tracked subscription with its charges checked against today.
+ * Shares the detected-charge shape so the same card can show either.
+ */
+export type SubscriptionWithStatus = RecurringCharge & {
+  id: string
+  state: SubscriptionState
+  /** The household marked it cancelled (rather than charges stopping) */
+  isMarkedCancelled: boolean
+  nextExpectedDate: string | null
+  /** Latest charge is outside the ±10% of the confirmed price */
+  priceChange: { previousAmount: number; newAmount: number } | null
+}
+
+/**
+ * Get tracked and cancelled subscriptions, each checked against the
+ * household's charges from the last 6 months.
+ */
+export async function getSubscriptions(): Promise<SubscriptionWithStatus[]> {
+  const householdId = await getSession()
+  if (!householdId) return []
+
+  const { data: subscriptions, error } = await supabaseAdmin
+    .from('subscriptions')
+    .select('*, category:categories(id, name, color)')
+    .eq('household_id', householdId)
+    .in('status', ['tracked', 'cancelled'])
+    .order('display_name')
+
+  if (error) {
+    throw new Error(`Failed to fetch subscriptions: ${error.message}`)
+  }
+  if (!subscriptions || subscriptions.length === 0) return []
+
+  const timezone = await getHouseholdTimezone()
+  const today = getCurrentDate(timezone)
+  const [transactions, aliases] = await Promise.all([
+    getTransactions({ startDate: addMonths(today, -6), endDate: today }),
+    getMerchantAliases(),
+  ])
+
+  // Expense charges per merchant, oldest first
+  const chargesByMerchant = new Map<string, { date: string; amount: number }[]>()
+  for (const t of [...transactions].reverse()) {
+    if (!isExpenseTransaction(t)) continue
+    const { key } = normalizeMerchant(t.description, aliases)
+    const charges = chargesByMerchant.get(key) ?? []
+    charges.push({ date: t.date, amount: t.amount })
+    chargesByMerchant.set(key, charges)
+  }
+
+  return subscriptions.map((subscription) => {
+    const frequency = subscription.frequency as SubscriptionFrequency
+
+    const charges = chargesByMerchant.get(subscription.merchant) ?? []
+    const latest = findLatestScheduledCharge(
+      charges,
+      frequency,
+      subscription.amount,
+      subscription.last_charge_date,
+      today
+    )
+
+    const lastChargeDate = latest?.date ?? subscription.last_charge_date
+    const currentAmount = latest?.amount ?? subscription.amount
+    const isMarkedCancelled = subscription.status === 'cancelled'
+    const { state, nextExpectedDate } = getSubscriptionState(frequency, lastChargeDate, isMarkedCancelled, today)
+
+    return {
+      id: subscription.id,
+      merchant: subscription.merchant,
+      displayName: subscription.display_name,
+      amount: subscription.amount,
+      frequency,
+      estimatedMonthlyCost: Math.round(estimateMonthlyCost(currentAmount, frequency) * 100) / 100,
+      lastChargeDate,
+      transactionCount: charges.length,
+      category: subscription.category,
+      isActive: state !== 'cancelled',
+      state,
+      isMarkedCancelled,
+      nextExpectedDate,
+      priceChange: isSimilarAmount(currentAmount, subscription.amount)
+        ? null
+        : { previousAmount: subscription.amount, newAmount: currentAmount },
+    }
+  })
+}
+
+async function saveReview(input: RecurringChargeReviewInput, status: 'tracked' | 'dismissed'): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  const validated = recurringChargeReviewSchema.parse(input)
+
+  // A merchant has one row; reviewing it again replaces the earlier review
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .upsert({
+      household_id: householdId,
+      merchant: validated.merchant,
+      display_name: validated.displayName,
+      amount: validated.amount,
+      amount_cents: dollarsToCents(validated.amount),
+      frequency: validated.frequency,
+      status,
+      category_id: validated.categoryId || null,
+      last_charge_date: validated.lastChargeDate,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'household_id,merchant' })
+
+  if (error) {
+    throw new Error(`Failed to save subscription: ${error.message}`)
+  }
+
+  revalidatePath('/insights')
+}
+
+/**
+ * Confirm a detected recurring charge as a tracked subscription
+ */
+export async function trackRecurringCharge(input: RecurringChargeReviewInput): Promise<void> {
+  await saveReview(input, 'tracked')
+}
+
+/**
+ * Dismiss a detected recurring charge so it is never suggested again
+ */
+export async function dismissRecurringCharge(input: RecurringChargeReviewInput): Promise<void> {
+  await saveReview(input, 'dismissed')
+}
+
+async function updateSubscription(
+  id: string,
+  changes: Partial<Pick<Subscription, 'status' | 'amount' | 'amount_cents'>>
+): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Subscription ID is required')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to update subscription: ${error.message}`)
+  }
+
+  revalidatePath('/insights')
+}
+
+/**
+ * Mark a subscription cancelled. It stays listed, without missed-charge alerts.
+ */
+export async function cancelSubscription(id: string): Promise<void> {
+  await updateSubscription(id, { status: 'cancelled' })
+}
+
+/**
+ * Track a cancelled subscription again
+ */
+export async function resumeSubscription(id: string): Promise<void> {
+  await updateSubscription(id, { status: 'tracked' })
+}
+
+/**
+ * Accept a subscription's new price so it stops being flagged as a change
+ */
+export async function acceptSubscriptionPrice(id: string, amount: number): Promise<void> {
+  const validated = subscriptionPriceSchema.parse({ amount })
+  await updateSubscription(id, {
+    amount: validated.amount,
+    amount_cents: dollarsToCents(validated.amount),
+  })
+}
+
+/**
+ * Stop tracking a subscription. Its charges may be suggested again.
+ */
+export async function deleteSubscription(id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+
+  if (!id || id.trim() === '') {
+    throw new Error('Subscription ID is required')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .delete()
+    .eq('id', id)
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to delete subscription: ${error.message}`)
+  }
+
+  revalidatePath('/insights')
+}
@@ -2,16 +2,34 @@
 
 import { revalidatePath } from 'next/cache'
 import { supabaseAdmin } from '@/lib/supabase-server'
-import { getSession } from '@/lib/auth'
-import { Transaction } from '@/lib/types'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import { Transaction, TransactionSplit } from '@/lib/types'
 import { validateDate, validateMonth } from '@/lib/utils/validators'
+import { validateUUID } from '@/lib/utils/validation'
 import { dollarsToCents } from '@/lib/utils/money'
+import { applyRules } from '@/lib/utils/rule-engine'
+import { isReconciled } from '@/lib/utils/reconciliation'
+import { recordMerchantPatterns } from '@/lib/actions/merchant-patterns'
 import {
   createTransactionSchema,
   updateTransactionSchema,
   CreateTransactionInput,
-  UpdateTransactionInput
+  UpdateTransactionInput,
+  TransactionSplitInput,
+  transactionFiltersSchema,
+  TransactionFiltersInput,
+  bulkTransactionEditSchema,
+  BulkTransactionEditInput,
 } from '@/lib/schemas/transaction'
+import {
+  decodeCursor,
+  encodeCursor,
+  escapeLikePattern,
+  type TransactionCursor,
+} from '@/lib/utils/transaction-search'
+
+// Split line as joined onto a transaction
+export type TransactionSplitLine = Pick<TransactionSplit, 'id' | 'category_id' | 'amount' | 'amount_cents' | 'memo'>
 
 // Transaction with joined category data
 export type TransactionWithCategory = Transaction & {
@@ -20,10 +38,44 @@ export type TransactionWithCategory = Transaction & {
     name: string
     color: string
   } | null
+  splits?: TransactionSplitLine[]
+}
+
+// Reconciled transactions are locked until unlocked from the account
+const RECONCILED_MESSAGE = 'This transaction has been reconciled. Unlock it before changing it.'
+
+const TRANSACTION_SELECT = '*, category:categories(id, name, color), splits:transaction_splits(id, category_id, amount, amount_cents, memo)'
+
+/**
+ * Split lines as the create_transaction and update_transaction functions
+ * take them. An empty list means no split.
+ */
+function toSplitRows(splits: TransactionSplitInput[] = []) {
+  return splits.map((split) => ({
+    category_id: split.categoryId,
+    amount: split.amount,
+    memo: split.memo?.trim() || null,
+  }))
+}
+
+/**
+ * Feed a categorization into the merchant patterns. Best-effort: a failure
+ * here must not fail the save that triggered it.
+ */
+async function learnFromCategorization(description: string | null, categoryId: string | null): Promise<void> {
+  if (!description || !categoryId) return
+
+  try {
+    await recordMerchantPatterns([{ description, categoryId }])
+  } catch (err) {
+    console.error('Failed to learn merchant pattern:', err)
+  }
 }
 
 export async function getTransactions(filters?: {
   categoryId?: string
+  /** Transactions in the account, including transfers into it */
+  accountId?: string
   startDate?: string
   endDate?: string
   type?: 'income' | 'expense'
@@ -43,14 +95,19 @@ export async function getTransactions(filters?: {
 
   let query = supabaseAdmin
     .from('transactions')
-    .select('*, category:categories(id, name, color)')
+    .select(TRANSACTION_SELECT)
     .eq('household_id', householdId)
+    .is('deleted_at', null)
     .order('date', { ascending: false })
     .order('created_at', { ascending: false })
 
   if (filters?.categoryId) {
     query = query.eq('category_id', filters.categoryId)
   }
+  if (filters?.accountId) {
+    validateUUID(filters.accountId, 'Account ID')
+    query = query.or(`account_id.eq.${filters.accountId},transfer_account_id.eq.${filters.accountId}`)
+  }
   if (filters?.startDate) {
     query = query.gte('date', filters.startDate)
   }
@@ -76,6 +133,91 @@ export async function getTransactions(filters?: {
   return data ?? []
 }
 
+// One page of search results, with totals for everything that matched
+export type TransactionSearchResult = {
+  transactions: TransactionWithCategory[]
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null
+  totalCount: number
+  /** Income and spending (net of refunds) across every match; transfers count toward neither */
+  incomeCents: number
+  expenseCents: number
+}
+
+/**
+ * Search the household's transactions by date range, category (or
+ * uncategorized), type, amount range and description, one page at a time.
+ * Totals cover every match, not just the page.
+ */
+export async function searchTransactions(
+  filters: TransactionFiltersInput = {}
+): Promise<TransactionSearchResult> {
+  const householdId = await getSession()
+  if (!householdId) {
+    return { transactions: [], nextCursor: null, totalCount: 0, incomeCents: 0, expenseCents: 0 }
+  }
+
+  const validated = transactionFiltersSchema.parse(filters)
+
+  const cursor = validated.cursor ? decodeCursor(validated.cursor) : null
+  if (validated.cursor && !cursor) {
+    throw new Error('Invalid page cursor')
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('search_transactions', {
+    p_household_id: householdId,
+    p_filters: {
+      start_date: validated.startDate,
+      end_date: validated.endDate,
+      category_id: validated.categoryId,
+      type: validated.type,
+      min_amount_cents: validated.minAmount === undefined ? undefined : dollarsToCents(validated.minAmount),
+      max_amount_cents: validated.maxAmount === undefined ? undefined : dollarsToCents(validated.maxAmount),
+      search: validated.search ? escapeLikePattern(validated.search) : undefined,
+    },
+    p_sort: validated.sort,
+    p_cursor: cursor,
+    p_limit: validated.limit,
+  })
+
+  if (error) {
+    throw new Error(`Failed to search transactions: ${error.message}`)
+  }
+
+  const result = data as {
+    ids: string[]
+    next_cursor: TransactionCursor | null
+    total_count: number
+    income_cents: number
+    expense_cents: number
+  }
+
+  let transactions: TransactionWithCategory[] = []
+  if (result.ids.length > 0) {
+    const { data: rows, error: rowsError } = await supabaseAdmin
+      .from('transactions')
+      .select(TRANSACTION_SELECT)
+      .eq('household_id', householdId)
+      .in('id', result.ids)
+
+    if (rowsError) {
+      throw new Error(`Failed to fetch transactions: ${rowsError.message}`)
+    }
+
+    // Keep the search's order
+    const byId = new Map((rows ?? []).map((row) => [row.id, row]))
+    transactions = result.ids.flatMap((id) => byId.get(id) ?? [])
+  }
+
+  return {
+    transactions,
+    nextCursor: result.next_cursor ? encodeCursor(result.next_cursor) : null,
+    totalCount: result.total_count,
+    incomeCents: result.income_cents,
+    expenseCents: result.expense_cents,
+  }
+}
+
 export async function getTransactionsByMonth(month: string): Promise<TransactionWithCategory[]> {
   validateMonth(month)
 
@@ -89,8 +231,9 @@ export async function getTransactionsByMonth(month: string): Promise<Transaction
 
   const { data, error } = await supabaseAdmin
     .from('transactions')
-    .select('*, category:categories(id, name, color)')
+    .select(TRANSACTION_SELECT)
     .eq('household_id', householdId)
+    .is('deleted_at', null)
     .gte('date', startDate)
     .lte('date', endDate)
     .order('date', { ascending: false })
@@ -103,15 +246,40 @@ export async function getTransactionsByMonth(month: string): Promise<Transaction
   return data ?? []
 }
 
-export async function createTransaction(data: {
+type NewTransactionData = {
   categoryId?: string
+  accountId?: string
   amount: number
   description?: string
   date: string
   type?: 'income' | 'expense'
-}): Promise<void> {
+  splits?: TransactionSplitInput[]
+  scheduledTransactionId?: string
+  scheduledDate?: string
+}
+
+export async function createTransaction(data: NewTransactionData): Promise<void> {
+  const saved = await insertTransaction(data)
+  if (!saved) return
+
+  revalidatePath('/')
+  revalidatePath('/transactions')
+  revalidatePath('/insights')
+}
+
+/**
+ * Save a new transaction without revalidating any page.
+ *
+ * For saves made while a page renders, where revalidatePath throws: the
+ * dashboard posts due scheduled transactions this way. Everywhere else,
+ * use createTransaction.
+ *
+ * @returns false when nothing was saved because it already had been
+ */
+export async function insertTransaction(data: NewTransactionData): Promise<boolean> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   // Validate using Zod
   const validated = createTransactionSchema.parse(data)
@@ -129,44 +297,88 @@ export async function createTransaction(data: {
 
     // If key exists (isNew === false), we skip insertion (idempotent success)
     if (isNew === false) {
-      return
+      return false
     }
   }
 
-  const { error } = await supabaseAdmin
-    .from('transactions')
-    .insert({
-      household_id: householdId,
-      category_id: validated.categoryId || null,
+  // Categorization rules may rename the description, and pick a category
+  // when none was chosen. An explicitly chosen category always wins.
+  const { data: rules, error: rulesError } = await supabaseAdmin
+    .from('categorization_rules')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('enabled', true)
+
+  if (rulesError) {
+    throw new Error(`Failed to fetch rules: ${rulesError.message}`)
+  }
+
+  const ruleResult = applyRules(
+    { description: validated.description ?? '', amount: validated.amount, type: validated.type },
+    rules || []
+  )
+
+  // A split transaction has no category of its own
+  const isSplit = !!validated.splits?.length
+  const categoryId = isSplit ? null : validated.categoryId || ruleResult.categoryId || null
+
+  // The schema leaves a described expense's category to the rules
+  if (validated.type === 'expense' && !validated.isRefund && !isSplit && !categoryId) {
+    throw new Error('Choose a category; no rule matches this description')
+  }
+
+  const description = ruleResult.renameTo || validated.description || null
+
+  // The row and its split lines are saved together, or not at all
+  const { data: created, error } = await supabaseAdmin.rpc('create_transaction', {
+    p_household_id: householdId,
+    p_transaction: {
+      // Left out, the database fills in the household's default account
+      account_id: validated.accountId || null,
+      category_id: categoryId,
       amount: validated.amount,
       amount_cents: dollarsToCents(validated.amount),
-      description: validated.description || null,
+      description,
       date: validated.date,
       type: validated.type,
-    })
+      scheduled_transaction_id: validated.scheduledTransactionId ?? null,
+      scheduled_date: validated.scheduledDate ?? null,
+    },
+    p_splits: toSplitRows(validated.splits),
+    p_member_id: memberId ?? undefined,
+  })
 
   if (error) {
     throw new Error(`Failed to create transaction: ${error.message}`)
   }
 
-  revalidatePath('/')
-  revalidatePath('/transactions')
-  revalidatePath('/insights')
+  // A second post of the same scheduled occurrence: it is already
+  // recorded, so this is a no-op
+  const result = created as { success: boolean; created?: boolean }
+  if (!result.created) {
+    return false
+  }
+
+  await learnFromCategorization(description, categoryId)
+  return true
 }
 
 export async function updateTransaction(
   id: string,
   data: {
     categoryId?: string
+    accountId?: string
     amount: number
     description?: string
     date: string
     type?: 'income' | 'expense'
+    splits?: TransactionSplitInput[]
   },
   expectedUpdatedAt: string
 ): Promise<void> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   // Validate ID
   if (!id || id.trim() === '') {
@@ -177,9 +389,10 @@ export async function updateTransaction(
 
   const { data: current, error: fetchError } = await supabaseAdmin
     .from('transactions')
-    .select('id, updated_at')
+    .select('id, updated_at, category_id, description, reconciliation_id, transfer_reconciliation_id')
     .eq('id', id)
     .eq('household_id', householdId)
+    .is('deleted_at', null)
     .maybeSingle()
 
   if (fetchError) {
@@ -190,33 +403,56 @@ export async function updateTransaction(
     throw new Error('Transaction not found')
   }
 
+  if (isReconciled(current)) {
+    throw new Error(RECONCILED_MESSAGE)
+  }
+
   if (current.updated_at !== validated.expectedUpdatedAt) {
     throw new Error('This transaction was modified by someone else. Please refresh and try again.')
   }
 
-  const { data: updated, error } = await supabaseAdmin
-    .from('transactions')
-    .update({
-      category_id: validated.categoryId || null,
+  const isSplit = !!validated.splits?.length
+
+  // Rules only categorize new transactions
+  if (validated.type === 'expense' && !validated.isRefund && !isSplit && !validated.categoryId) {
+    throw new Error('Category is required for expenses')
+  }
+
+  // The row and its split lines are saved together, or not at all.
+  // Saving without splits clears any the transaction had.
+  const { data: updated, error } = await supabaseAdmin.rpc('update_transaction', {
+    p_household_id: householdId,
+    p_transaction_id: id,
+    p_expected_updated_at: validated.expectedUpdatedAt,
+    p_changes: {
+      account_id: validated.accountId || null,
+      category_id: isSplit ? null : validated.categoryId || null,
       amount: validated.amount,
       amount_cents: dollarsToCents(validated.amount),
       description: validated.description || null,
       date: validated.date,
       type: validated.type,
-    })
-    .eq('id', id)
-    .eq('household_id', householdId)
-    .eq('updated_at', validated.expectedUpdatedAt)
-    .select('id')
+    },
+    p_splits: toSplitRows(validated.splits),
+    p_member_id: memberId ?? undefined,
+  })
 
   if (error) {
     throw new Error(`Failed to update transaction: ${error.message}`)
   }
 
-  if (!updated || updated.length === 0) {
+  const result = updated as { success: boolean; conflict?: boolean }
+  if (!result.success) {
     throw new Error('This transaction was modified by someone else. Please refresh and try again.')
   }
 
+  // Only a changed category or description is new information to learn from
+  const categoryId = isSplit ? null : validated.categoryId || null
+  const description = validated.description || null
+  if (categoryId !== current.category_id || description !== current.description) {
+    await learnFromCategorization(description, categoryId)
+  }
+
   revalidatePath('/')
   revalidatePath('/transactions')
   revalidatePath('/insights')
@@ -225,17 +461,35 @@ export async function updateTransaction(
 export async function deleteTransaction(id: string): Promise<void> {
   const householdId = await getSession()
   if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
 
   // Validate ID
   if (!id || id.trim() === '') {
     throw new Error('Transaction ID is required')
   }
 
+  const { data: current, error: fetchError } = await supabaseAdmin
+    .from('transactions')
+    .select('reconciliation_id, transfer_reconciliation_id')
+    .eq('id', id)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to load transaction: ${fetchError.message}`)
+  }
+
+  if (current && isReconciled(current)) {
+    throw new Error(RECONCILED_MESSAGE)
+  }
+
+  // Moved to the trash, where it can be restored until the trash is emptied
   const { error } = await supabaseAdmin
     .from('transactions')
-    .delete()
+    .update({ deleted_at: new Date().toISOString(), updated_by: memberId })
     .eq('id', id)
     .eq('household_id', householdId)
+    .is('deleted_at', null)
 
   if (error) {
     throw new Error(`Failed to delete transaction: ${error.message}`)
@@ -243,4 +497,59 @@ export async function deleteTransaction(id: string): Promise<void> {
 
   revalidatePath('/')
   revalidatePath('/transactions')
+  revalidatePath('/trash')
+}
+
+// Outcome of a bulk edit. Nothing is changed when any row conflicts.
+export type BulkEditResult = {
+  success: boolean
+  /** Rows changed or deleted */
+  updated: number
+  /** Rows someone else changed or deleted since they were loaded */
+  conflicts: string[]
+  /** Reconciled rows that have to be unlocked first */
+  locked: string[]
+}
+
+/**
+ * Recategorize, delete, shift the date of, or change the type of many
+ * transactions at once. Runs in a single database transaction via the
+ * bulk_update_transactions Postgres function: if any row was changed by
+ * someone else since it was loaded, or is reconciled, nothing is changed
+ * and those rows are reported back.
+ */
+export async function bulkEditTransactions(input: BulkTransactionEditInput): Promise<BulkEditResult> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  const { items, change } = bulkTransactionEditSchema.parse(input)
+
+  const params =
+    change.action === 'recategorize' ? { category_id: change.categoryId }
+      : change.action === 'shift_date' ? { days: change.days }
+        : change.action === 'set_type' ? { type: change.type }
+          : {}
+
+  const { data, error } = await supabaseAdmin.rpc('bulk_update_transactions', {
+    p_household_id: householdId,
+    p_action: change.action,
+    p_items: items.map((item) => ({ id: item.id, expected_updated_at: item.expectedUpdatedAt })),
+    p_params: params,
+    p_member_id: memberId ?? undefined,
+  })
+
+  if (error) {
+    throw new Error(`Failed to update transactions: ${error.message}`)
+  }
+
+  const result = data as BulkEditResult
+
+  if (result.success) {
+    revalidatePath('/')
+    revalidatePath('/transactions')
+    revalidatePath('/insights')
+  }
+
+  return result
 }
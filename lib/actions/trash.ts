@@ -0,0 +1,157 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getSession, getSessionMemberId } from '@/lib/auth'
+import type { Category } from '@/lib/types'
+import type { TransactionWithCategory } from './transactions'
+import { getTrashPurgeCutoff } from '@/lib/utils/trash'
+
+// What can be in the trash
+export type TrashTable = 'transactions' | 'categories'
+
+export type TrashContents = {
+  transactions: TransactionWithCategory[]
+  categories: Category[]
+}
+
+/**
+ * Get the household's deleted transactions and categories, most recently
+ * deleted first.
+ */
+export async function getTrash(): Promise<TrashContents> {
+  const householdId = await getSession()
+  if (!householdId) return { transactions: [], categories: [] }
+
+  const [transactionsResult, categoriesResult] = await Promise.all([
+    supabaseAdmin
+      .from('transactions')
+      .select('*, category:categories(id, name, color), splits:transaction_splits(id, category_id, amount, amount_cents, memo)')
+      .eq('household_id', householdId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false }),
+    supabaseAdmin
+      .from('categories')
+      .select('*')
+      .eq('household_id', householdId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false }),
+  ])
+
+  if (transactionsResult.error) {
+    throw new Error(`Failed to fetch trash: ${transactionsResult.error.message}`)
+  }
+  if (categoriesResult.error) {
+    throw new Error(`Failed to fetch trash: ${categoriesResult.error.message}`)
+  }
+
+  return {
+    transactions: transactionsResult.data ?? [],
+    categories: categoriesResult.data ?? [],
+  }
+}
+
+/**
+ * Take a transaction or category back out of the trash.
+ */
+export async function restoreFromTrash(table: TrashTable, id: string): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  if (table !== 'transactions' && table !== 'categories') {
+    throw new Error('Unknown trash item')
+  }
+  if (!id || id.trim() === '') {
+    throw new Error('ID is required')
+  }
+
+  if (table === 'categories') {
+    const { data: category, error: fetchError } = await supabaseAdmin
+      .from('categories')
+      .select('name')
+      .eq('id', id)
+      .eq('household_id', householdId)
+      .maybeSingle()
+
+    if (fetchError) throw new Error(`Failed to fetch category: ${fetchError.message}`)
+
+    // A category with its name may have been created since it was deleted
+    if (category) {
+      const { data: existing } = await supabaseAdmin
+        .from('categories')
+        .select('id')
+        .eq('household_id', householdId)
+        .is('deleted_at', null)
+        .ilike('name', category.name)
+        .maybeSingle()
+
+      if (existing) {
+        throw new Error(`A category named "${category.name}" already exists. Rename it first.`)
+      }
+    }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .update({ deleted_at: null, updated_by: memberId })
+    .eq('id', id)
+    .eq('household_id', householdId)
+    .not('deleted_at', 'is', null)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    // The same statement row or scheduled occurrence was recorded again since
+    if (error.code === '23505' && table === 'transactions') {
+      throw new Error('A matching transaction has been added since this one was deleted')
+    }
+    throw new Error(`Failed to restore from trash: ${error.message}`)
+  }
+  if (!data) throw new Error('Not found in the trash')
+
+  revalidatePath('/')
+  revalidatePath('/transactions')
+  revalidatePath('/trash')
+}
+
+/**
+ * Permanently delete everything in the trash.
+ *
+ * @returns How many transactions and categories were deleted
+ */
+export async function emptyTrash(): Promise<{ transactions: number; categories: number }> {
+  const householdId = await getSession()
+  if (!householdId) throw new Error('Not authenticated')
+  const memberId = await getSessionMemberId()
+
+  const { data, error } = await supabaseAdmin.rpc('empty_trash', {
+    p_household_id: householdId,
+    p_member_id: memberId ?? undefined,
+  })
+
+  if (error) throw new Error(`Failed to empty trash: ${error.message}`)
+
+  const result = data as { transactions: number; categories: number }
+
+  revalidatePath('/')
+  revalidatePath('/transactions')
+  revalidatePath('/trash')
+  return { transactions: result.transactions, categories: result.categories }
+}
+
+/**
+ * Permanently delete whatever has been in the trash longer than the
+ * retention period. Safe to call on every page load.
+ */
+export async function purgeExpiredTrash(): Promise<void> {
+  const householdId = await getSession()
+  if (!householdId) return
+
+  const { error } = await supabaseAdmin.rpc('empty_trash', {
+    p_household_id: householdId,
+    p_deleted_before: getTrashPurgeCutoff(),
+  })
+
+  if (error) throw new Error(`Failed to purge trash: ${error.message}`)
+}
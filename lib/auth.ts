@@ -1,4 +1,5 @@
 import bcrypt from 'bcryptjs'
+import { cache } from 'react'
 import { cookies } from 'next/headers'
 import { SignJWT, jwtVerify, JWTPayload } from 'jose'
 import { supabaseAdmin } from './supabase-server'
@@ -30,6 +31,8 @@ function getSecretKey(): Uint8Array {
 
 interface SessionPayload extends JWTPayload {
   householdId: string
+  // Missing from sessions created before household members existed
+  memberId?: string
 }
 
 export async function hashPin(pin: string): Promise<string> {
@@ -40,11 +43,105 @@ export async function verifyPin(pin: string, hash: string): Promise<boolean> {
   return bcrypt.compare(pin, hash)
 }
 
-export async function createSession(householdId: string): Promise<void> {
+/**
+ * Find the household member whose PIN this is.
+ * Members' PINs are unique within a household, so at most one matches.
+ *
+ * @param excludeMemberId Skip this member, to check a new PIN is not taken
+ */
+export async function findMemberByPin(
+  householdId: string,
+  pin: string,
+  excludeMemberId?: string
+): Promise<string | null> {
+  const { data: members, error } = await supabaseAdmin
+    .from('household_members')
+    .select('id, pin_hash')
+    .eq('household_id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to fetch household members: ${error.message}`)
+  }
+
+  for (const member of members ?? []) {
+    if (member.id === excludeMemberId) continue
+    if (await verifyPin(pin, member.pin_hash)) return member.id
+  }
+  return null
+}
+
+/**
+ * The address PIN attempts are counted against.
+ */
+export function getClientIp(headers: Pick<Headers, 'get'>): string {
+  return headers.get('x-forwarded-for') ?? headers.get('cf-connecting-ip') ?? 'unknown'
+}
+
+/**
+ * Check rate limit using database-backed auth_attempts table.
+ * Works correctly on serverless (Vercel) unlike in-memory rate limiting.
+ *
+ * Every check of a PIN goes through this, not just signing in: adding a
+ * member or changing a PIN also reveals whether a PIN is taken.
+ */
+export async function checkAuthRateLimit(ip: string): Promise<{ blocked: boolean; waitSeconds: number }> {
+  try {
+    const { data, error } = await supabaseAdmin.rpc('check_auth_rate_limit', {
+      p_ip_address: ip,
+    })
+
+    if (error) {
+      console.error('Rate limit check error:', error)
+      // Fail open - allow request but log the error
+      return { blocked: false, waitSeconds: 0 }
+    }
+
+    const result = data?.[0]
+    if (!result) {
+      return { blocked: false, waitSeconds: 0 }
+    }
+
+    return {
+      blocked: result.is_blocked,
+      waitSeconds: result.wait_seconds || 0,
+    }
+  } catch (error) {
+    console.error('Rate limit check exception:', error)
+    return { blocked: false, waitSeconds: 0 }
+  }
+}
+
+/**
+ * Record a failed auth attempt in the database.
+ */
+export async function recordAuthFailure(ip: string): Promise<void> {
+  try {
+    await supabaseAdmin.rpc('record_auth_failure', {
+      p_ip_address: ip,
+    })
+  } catch (error) {
+    console.error('Failed to record auth failure:', error)
+  }
+}
+
+/**
+ * Clear auth attempts on successful login.
+ */
+export async function clearAuthAttempts(ip: string): Promise<void> {
+  try {
+    await supabaseAdmin.rpc('clear_auth_attempts', {
+      p_ip_address: ip,
+    })
+  } catch (error) {
+    console.error('Failed to clear auth attempts:', error)
+  }
+}
+
+export async function createSession(householdId: string, memberId?: string): Promise<void> {
   const cookieStore = await cookies()
 
-  // Create signed JWT with householdId
-  const token = await new SignJWT({ householdId })
+  // Create signed JWT with householdId and the signed-in member
+  const token = await new SignJWT({ householdId, memberId })
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
     .setExpirationTime('30d')
@@ -59,21 +156,59 @@ export async function createSession(householdId: string): Promise<void> {
   })
 }
 
-export async function getSession(): Promise<string | null> {
+/**
+ * Whether a member still belongs to the household, so a removed member's
+ * session stops working at once rather than when it expires.
+ * Looked up once per request.
+ */
+const isCurrentMember = cache(async (householdId: string, memberId: string): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin
+    .from('household_members')
+    .select('id')
+    .eq('id', memberId)
+    .eq('household_id', householdId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to verify household member: ${error.message}`)
+  }
+  return !!data
+})
+
+async function getSessionPayload(): Promise<SessionPayload | null> {
   const cookieStore = await cookies()
   const token = cookieStore.get(COOKIE_NAME)?.value
 
   if (!token) return null
 
+  let payload: SessionPayload
   try {
     // Verify JWT signature and expiration
-    const { payload } = await jwtVerify(token, getSecretKey())
-    const sessionPayload = payload as SessionPayload
-    return sessionPayload.householdId ?? null
+    const verified = await jwtVerify(token, getSecretKey())
+    payload = verified.payload as SessionPayload
   } catch {
     // Invalid or expired token
     return null
   }
+
+  if (payload.householdId && payload.memberId && !(await isCurrentMember(payload.householdId, payload.memberId))) {
+    return null
+  }
+  return payload
+}
+
+export async function getSession(): Promise<string | null> {
+  const payload = await getSessionPayload()
+  return payload?.householdId ?? null
+}
+
+/**
+ * Get the signed-in household member.
+ * Returns null without a session, or for sessions from before members existed.
+ */
+export async function getSessionMemberId(): Promise<string | null> {
+  const payload = await getSessionPayload()
+  return payload?.householdId ? payload.memberId ?? null : null
 }
 
 /**
@@ -157,13 +292,13 @@ export async function isSessionExpiringSoon(): Promise<boolean> {
  * Phase 1.1: Session refresh mechanism
  */
 export async function refreshSession(): Promise<{ success: boolean; expiresIn?: number; error?: string }> {
-  const householdId = await getSession()
+  const payload = await getSessionPayload()
 
-  if (!householdId) {
+  if (!payload?.householdId) {
     return { success: false, error: 'No active session to refresh' }
   }
 
-  await createSession(householdId)
+  await createSession(payload.householdId, payload.memberId)
 
   return { success: true, expiresIn: COOKIE_MAX_AGE }
 }
@@ -14,6 +14,97 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          created_at: string | null
+          household_id: string
+          id: string
+          is_default: boolean
+          name: string
+          opening_balance: number
+          opening_balance_cents: number
+          type: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          household_id: string
+          id?: string
+          is_default?: boolean
+          name: string
+          opening_balance?: number
+          opening_balance_cents?: number
+          type?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          household_id?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          opening_balance?: number
+          opening_balance_cents?: number
+          type?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          after_values: Json | null
+          before_values: Json | null
+          created_at: string
+          household_id: string
+          id: string
+          record_id: string
+          seq: number
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          after_values?: Json | null
+          before_values?: Json | null
+          created_at?: string
+          household_id: string
+          id?: string
+          record_id: string
+          seq?: never
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          after_values?: Json | null
+          before_values?: Json | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          record_id?: string
+          seq?: never
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       auth_attempts: {
         Row: {
           attempt_count: number
@@ -41,70 +132,676 @@ export type Database = {
         }
         Relationships: []
       }
+      budget_moves: {
+        Row: {
+          amount: number
+          amount_cents: number
+          created_at: string | null
+          created_by: string | null
+          from_category_id: string | null
+          household_id: string
+          id: string
+          month: string
+          note: string | null
+          to_category_id: string | null
+        }
+        Insert: {
+          amount: number
+          amount_cents: number
+          created_at?: string | null
+          created_by?: string | null
+          from_category_id?: string | null
+          household_id: string
+          id?: string
+          month: string
+          note?: string | null
+          to_category_id?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_cents?: number
+          created_at?: string | null
+          created_by?: string | null
+          from_category_id?: string | null
+          household_id?: string
+          id?: string
+          month?: string
+          note?: string | null
+          to_category_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_moves_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "household_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_moves_from_category_id_fkey"
+            columns: ["from_category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_moves_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_moves_to_category_id_fkey"
+            columns: ["to_category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
+          archived_at: string | null
           color: string
           created_at: string | null
+          deleted_at: string | null
           household_id: string
           id: string
           name: string
+          parent_id: string | null
+          rollover_cap_cents: number | null
+          rollover_policy: string
+          sort_order: number
+          updated_by: string | null
         }
         Insert: {
+          archived_at?: string | null
           color?: string
           created_at?: string | null
+          deleted_at?: string | null
           household_id: string
           id?: string
           name: string
+          parent_id?: string | null
+          rollover_cap_cents?: number | null
+          rollover_policy?: string
+          sort_order?: number
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          color?: string
+          created_at?: string | null
+          deleted_at?: string | null
+          household_id?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          rollover_cap_cents?: number | null
+          rollover_policy?: string
+          sort_order?: number
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "household_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categorization_rules: {
+        Row: {
+          category_id: string | null
+          created_at: string | null
+          enabled: boolean
+          household_id: string
+          id: string
+          match_type: string
+          max_amount: number | null
+          min_amount: number | null
+          pattern: string
+          priority: number
+          rename_to: string | null
+          transaction_type: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string | null
+          enabled?: boolean
+          household_id: string
+          id?: string
+          match_type: string
+          max_amount?: number | null
+          min_amount?: number | null
+          pattern: string
+          priority?: number
+          rename_to?: string | null
+          transaction_type?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string | null
+          enabled?: boolean
+          household_id?: string
+          id?: string
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          pattern?: string
+          priority?: number
+          rename_to?: string | null
+          transaction_type?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_keywords: {
+        Row: {
+          category_id: string
+          created_at: string
+          household_id: string
+          id: string
+          keyword: string
+          updated_by: string | null
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          household_id: string
+          id?: string
+          keyword: string
+          updated_by?: string | null
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          household_id?: string
+          id?: string
+          keyword?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_keywords_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_keywords_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_keywords_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "household_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      csv_column_mappings: {
+        Row: {
+          created_at: string | null
+          header_signature: string
+          household_id: string
+          id: string
+          mapping: Json
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          header_signature: string
+          household_id: string
+          id?: string
+          mapping: Json
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          header_signature?: string
+          household_id?: string
+          id?: string
+          mapping?: Json
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "csv_column_mappings_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_contributions: {
+        Row: {
+          amount: number
+          amount_cents: number
+          created_at: string | null
+          date: string
+          goal_id: string
+          household_id: string
+          id: string
+          note: string | null
+        }
+        Insert: {
+          amount: number
+          amount_cents: number
+          created_at?: string | null
+          date: string
+          goal_id: string
+          household_id: string
+          id?: string
+          note?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_cents?: number
+          created_at?: string | null
+          date?: string
+          goal_id?: string
+          household_id?: string
+          id?: string
+          note?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contributions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_members: {
+        Row: {
+          created_at: string | null
+          household_id: string
+          id: string
+          name: string
+          pin_hash: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          household_id: string
+          id?: string
+          name: string
+          pin_hash: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          household_id?: string
+          id?: string
+          name?: string
+          pin_hash?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_members_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      households: {
+        Row: {
+          auto_rollover_budget: boolean
+          created_at: string | null
+          id: string
+          name: string
+          pin_hash: string
+          timezone: string
+          zero_based_start_month: string | null
+        }
+        Insert: {
+          auto_rollover_budget?: boolean
+          created_at?: string | null
+          id?: string
+          name?: string
+          pin_hash: string
+          timezone?: string
+          zero_based_start_month?: string | null
+        }
+        Update: {
+          auto_rollover_budget?: boolean
+          created_at?: string | null
+          id?: string
+          name?: string
+          pin_hash?: string
+          timezone?: string
+          zero_based_start_month?: string | null
+        }
+        Relationships: []
+      }
+      idempotency_keys: {
+        Row: {
+          created_at: string | null
+          expires_at: string
+          household_id: string
+          id: string
+          key: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at: string
+          household_id: string
+          id?: string
+          key: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string
+          household_id?: string
+          id?: string
+          key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idempotency_keys_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batches: {
+        Row: {
+          account_id: string | null
+          created_at: string | null
+          end_date: string | null
+          file_name: string
+          format: string | null
+          household_id: string
+          id: string
+          rolled_back_at: string | null
+          row_count: number
+          start_date: string | null
+          status: string
+          transaction_ids: string[]
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string | null
+          end_date?: string | null
+          file_name: string
+          format?: string | null
+          household_id: string
+          id?: string
+          rolled_back_at?: string | null
+          row_count?: number
+          start_date?: string | null
+          status?: string
+          transaction_ids?: string[]
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string | null
+          end_date?: string | null
+          file_name?: string
+          format?: string | null
+          household_id?: string
+          id?: string
+          rolled_back_at?: string | null
+          row_count?: number
+          start_date?: string | null
+          status?: string
+          transaction_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_batches_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      merchant_aliases: {
+        Row: {
+          created_at: string | null
+          display_name: string
+          household_id: string
+          id: string
+          match_text: string
+        }
+        Insert: {
+          created_at?: string | null
+          display_name: string
+          household_id: string
+          id?: string
+          match_text: string
+        }
+        Update: {
+          created_at?: string | null
+          display_name?: string
+          household_id?: string
+          id?: string
+          match_text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "merchant_aliases_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      merchant_patterns: {
+        Row: {
+          category_id: string
+          created_at: string | null
+          household_id: string
+          id: string
+          last_used_at: string
+          match_count: number
+          merchant_name: string
+          updated_at: string | null
+        }
+        Insert: {
+          category_id: string
+          created_at?: string | null
+          household_id: string
+          id?: string
+          last_used_at?: string
+          match_count?: number
+          merchant_name: string
+          updated_at?: string | null
+        }
+        Update: {
+          category_id?: string
+          created_at?: string | null
+          household_id?: string
+          id?: string
+          last_used_at?: string
+          match_count?: number
+          merchant_name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "merchant_patterns_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "merchant_patterns_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      monthly_budgets: {
+        Row: {
+          budgeted_amount: number
+          budgeted_amount_cents: number
+          category_id: string
+          created_at: string | null
+          created_by: string | null
+          household_id: string
+          id: string
+          month: string
+          updated_by: string | null
+        }
+        Insert: {
+          budgeted_amount?: number
+          budgeted_amount_cents: number
+          category_id: string
+          created_at?: string | null
+          created_by?: string | null
+          household_id: string
+          id?: string
+          month: string
+          updated_by?: string | null
         }
         Update: {
-          color?: string
+          budgeted_amount?: number
+          budgeted_amount_cents?: number
+          category_id?: string
           created_at?: string | null
+          created_by?: string | null
           household_id?: string
           id?: string
-          name?: string
+          month?: string
+          updated_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "categories_household_id_fkey"
+            foreignKeyName: "monthly_budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "monthly_budgets_household_id_fkey"
             columns: ["household_id"]
             isOneToOne: false
             referencedRelation: "households"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "monthly_budgets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "household_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "monthly_budgets_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "household_members"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      category_keywords: {
+      reconciliations: {
         Row: {
-          category_id: string
-          created_at: string
+          account_id: string
+          created_at: string | null
           household_id: string
           id: string
-          keyword: string
+          statement_balance: number
+          statement_balance_cents: number
+          statement_date: string
         }
         Insert: {
-          category_id: string
-          created_at?: string
+          account_id: string
+          created_at?: string | null
           household_id: string
           id?: string
-          keyword: string
+          statement_balance: number
+          statement_balance_cents: number
+          statement_date: string
         }
         Update: {
-          category_id?: string
-          created_at?: string
+          account_id?: string
+          created_at?: string | null
           household_id?: string
           id?: string
-          keyword?: string
+          statement_balance?: number
+          statement_balance_cents?: number
+          statement_date?: string
         }
         Relationships: [
           {
-            foreignKeyName: "category_keywords_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "reconciliations_account_id_fkey"
+            columns: ["account_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "category_keywords_household_id_fkey"
+            foreignKeyName: "reconciliations_household_id_fkey"
             columns: ["household_id"]
             isOneToOne: false
             referencedRelation: "households"
@@ -112,58 +809,125 @@ export type Database = {
           },
         ]
       }
-      households: {
+      savings_goals: {
         Row: {
-          auto_rollover_budget: boolean
+          auto_budget: boolean
+          category_id: string | null
           created_at: string | null
+          household_id: string
           id: string
           name: string
-          pin_hash: string
-          timezone: string
+          start_date: string
+          target_amount: number
+          target_amount_cents: number
+          target_date: string
+          updated_at: string | null
         }
         Insert: {
-          auto_rollover_budget?: boolean
+          auto_budget?: boolean
+          category_id?: string | null
           created_at?: string | null
+          household_id: string
           id?: string
-          name?: string
-          pin_hash: string
-          timezone?: string
+          name: string
+          start_date?: string
+          target_amount: number
+          target_amount_cents: number
+          target_date: string
+          updated_at?: string | null
         }
         Update: {
-          auto_rollover_budget?: boolean
+          auto_budget?: boolean
+          category_id?: string | null
           created_at?: string | null
+          household_id?: string
           id?: string
           name?: string
-          pin_hash?: string
-          timezone?: string
+          start_date?: string
+          target_amount?: number
+          target_amount_cents?: number
+          target_date?: string
+          updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "savings_goals_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "savings_goals_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      idempotency_keys: {
+      scheduled_transactions: {
         Row: {
+          amount: number
+          amount_cents: number
+          category_id: string | null
           created_at: string | null
-          expires_at: string
+          day_of_month: number | null
+          description: string | null
+          end_date: string | null
+          frequency: string
           household_id: string
           id: string
-          key: string
+          mode: string
+          next_date: string
+          start_date: string
+          type: string
+          updated_at: string | null
         }
         Insert: {
+          amount: number
+          amount_cents: number
+          category_id?: string | null
           created_at?: string | null
-          expires_at: string
+          day_of_month?: number | null
+          description?: string | null
+          end_date?: string | null
+          frequency: string
           household_id: string
           id?: string
-          key: string
+          mode?: string
+          next_date: string
+          start_date: string
+          type?: string
+          updated_at?: string | null
         }
         Update: {
+          amount?: number
+          amount_cents?: number
+          category_id?: string | null
           created_at?: string | null
-          expires_at?: string
+          day_of_month?: number | null
+          description?: string | null
+          end_date?: string | null
+          frequency?: string
           household_id?: string
           id?: string
-          key?: string
+          mode?: string
+          next_date?: string
+          start_date?: string
+          type?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "idempotency_keys_household_id_fkey"
+            foreignKeyName: "scheduled_transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_transactions_household_id_fkey"
             columns: ["household_id"]
             isOneToOne: false
             referencedRelation: "households"
@@ -171,38 +935,59 @@ export type Database = {
           },
         ]
       }
-      merchant_patterns: {
+      subscriptions: {
         Row: {
-          category_id: string
+          amount: number
+          amount_cents: number
+          category_id: string | null
+          created_at: string | null
+          display_name: string
+          frequency: string
           household_id: string
           id: string
-          last_used_at: string
-          merchant_name: string
+          last_charge_date: string
+          merchant: string
+          status: string
+          updated_at: string | null
         }
         Insert: {
-          category_id: string
+          amount: number
+          amount_cents: number
+          category_id?: string | null
+          created_at?: string | null
+          display_name: string
+          frequency: string
           household_id: string
           id?: string
-          last_used_at?: string
-          merchant_name: string
+          last_charge_date: string
+          merchant: string
+          status?: string
+          updated_at?: string | null
         }
         Update: {
-          category_id?: string
+          amount?: number
+          amount_cents?: number
+          category_id?: string | null
+          created_at?: string | null
+          display_name?: string
+          frequency?: string
           household_id?: string
           id?: string
-          last_used_at?: string
-          merchant_name?: string
+          last_charge_date?: string
+          merchant?: string
+          status?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "merchant_patterns_category_id_fkey"
+            foreignKeyName: "subscriptions_category_id_fkey"
             columns: ["category_id"]
             isOneToOne: false
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "merchant_patterns_household_id_fkey"
+            foreignKeyName: "subscriptions_household_id_fkey"
             columns: ["household_id"]
             isOneToOne: false
             referencedRelation: "households"
@@ -210,87 +995,127 @@ export type Database = {
           },
         ]
       }
-      monthly_budgets: {
+      transaction_splits: {
         Row: {
-          budgeted_amount: number
-          budgeted_amount_cents: number
-          category_id: string
+          amount: number
+          amount_cents: number
+          category_id: string | null
           created_at: string | null
           household_id: string
           id: string
-          month: string
+          memo: string | null
+          transaction_id: string
         }
         Insert: {
-          budgeted_amount?: number
-          budgeted_amount_cents: number
-          category_id: string
+          amount: number
+          amount_cents: number
+          category_id?: string | null
           created_at?: string | null
           household_id: string
           id?: string
-          month: string
+          memo?: string | null
+          transaction_id: string
         }
         Update: {
-          budgeted_amount?: number
-          budgeted_amount_cents?: number
-          category_id?: string
+          amount?: number
+          amount_cents?: number
+          category_id?: string | null
           created_at?: string | null
           household_id?: string
           id?: string
-          month?: string
+          memo?: string | null
+          transaction_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "monthly_budgets_category_id_fkey"
+            foreignKeyName: "transaction_splits_category_id_fkey"
             columns: ["category_id"]
             isOneToOne: false
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "monthly_budgets_household_id_fkey"
+            foreignKeyName: "transaction_splits_household_id_fkey"
             columns: ["household_id"]
             isOneToOne: false
             referencedRelation: "households"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       transactions: {
         Row: {
+          account_id: string
           amount: number
           amount_cents: number
           category_id: string | null
           created_at: string | null
-          updated_at: string | null
+          created_by: string | null
           date: string
+          deleted_at: string | null
           description: string | null
           household_id: string
           id: string
+          reconciliation_id: string | null
+          scheduled_date: string | null
+          scheduled_transaction_id: string | null
+          source_fingerprint: string | null
+          transfer_account_id: string | null
+          transfer_reconciliation_id: string | null
           type: string
+          updated_at: string | null
+          updated_by: string | null
         }
         Insert: {
+          account_id?: string
           amount: number
           amount_cents: number
           category_id?: string | null
           created_at?: string | null
-          updated_at?: string | null
+          created_by?: string | null
           date?: string
+          deleted_at?: string | null
           description?: string | null
           household_id: string
           id?: string
+          reconciliation_id?: string | null
+          scheduled_date?: string | null
+          scheduled_transaction_id?: string | null
+          source_fingerprint?: string | null
+          transfer_account_id?: string | null
+          transfer_reconciliation_id?: string | null
           type?: string
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Update: {
+          account_id?: string
           amount?: number
           amount_cents?: number
           category_id?: string | null
           created_at?: string | null
-          updated_at?: string | null
+          created_by?: string | null
           date?: string
+          deleted_at?: string | null
           description?: string | null
           household_id?: string
           id?: string
+          reconciliation_id?: string | null
+          scheduled_date?: string | null
+          scheduled_transaction_id?: string | null
+          source_fingerprint?: string | null
+          transfer_account_id?: string | null
+          transfer_reconciliation_id?: string | null
           type?: string
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Relationships: [
           {
@@ -307,6 +1132,55 @@ export type Database = {
             referencedRelation: "households"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_scheduled_transaction_id_fkey"
+            columns: ["scheduled_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_transfer_account_id_fkey"
+            columns: ["transfer_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_reconciliation_id_fkey"
+            columns: ["reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_transfer_reconciliation_id_fkey"
+            columns: ["transfer_reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "household_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "household_members"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -314,8 +1188,31 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_rule_changes: {
+        Args: {
+          p_household_id: string
+          p_items: Json
+          p_member_id?: string
+        }
+        Returns: Json
+      }
       bulk_import_transactions: {
-        Args: { p_household_id: string; p_transactions: Json }
+        Args: {
+          p_batch?: Json
+          p_household_id: string
+          p_member_id?: string
+          p_transactions: Json
+        }
+        Returns: Json
+      }
+      bulk_update_transactions: {
+        Args: {
+          p_action: string
+          p_household_id: string
+          p_items: Json
+          p_member_id?: string
+          p_params?: Json
+        }
         Returns: Json
       }
       check_auth_rate_limit: {
@@ -336,6 +1233,88 @@ export type Database = {
         Args: { p_ip_address: string }
         Returns: undefined
       }
+      create_transaction: {
+        Args: {
+          p_household_id: string
+          p_member_id?: string
+          p_splits: Json
+          p_transaction: Json
+        }
+        Returns: Json
+      }
+      delete_household_record: {
+        Args: {
+          p_household_id: string
+          p_id: string
+          p_member_id?: string
+          p_table: string
+        }
+        Returns: Json
+      }
+      empty_trash: {
+        Args: {
+          p_deleted_before?: string
+          p_household_id: string
+          p_member_id?: string
+        }
+        Returns: Json
+      }
+      get_account_balances: {
+        Args: { p_household_id: string }
+        Returns: {
+          account_id: string
+          balance_cents: number
+        }[]
+      }
+      get_category_month_totals: {
+        Args: { p_end_month: string; p_household_id: string }
+        Returns: {
+          budgeted_cents: number
+          category_id: string
+          month: string
+          spent_cents: number
+        }[]
+      }
+      get_monthly_assignment_totals: {
+        Args: {
+          p_end_month: string
+          p_household_id: string
+          p_start_month: string
+        }
+        Returns: {
+          assigned_cents: number
+          income_cents: number
+          month: string
+        }[]
+      }
+      get_reconciled_balance: {
+        Args: { p_account_id: string; p_household_id: string }
+        Returns: number
+      }
+      move_budget_money: {
+        Args: {
+          p_amount_cents: number
+          p_from_category_id: string
+          p_household_id: string
+          p_member_id?: string
+          p_month: string
+          p_note?: string
+          p_to_category_id: string
+        }
+        Returns: Json
+      }
+      reconcile_account: {
+        Args: {
+          p_account_id: string
+          p_household_id: string
+          p_member_id?: string
+          p_statement_balance: number
+          p_statement_balance_cents: number
+          p_statement_date: string
+          p_transaction_ids: string[]
+        }
+        Returns: Json
+      }
       record_auth_failure: {
         Args: { p_ip_address: string }
         Returns: {
@@ -343,6 +1322,70 @@ export type Database = {
           new_count: number
         }[]
       }
+      record_merchant_patterns: {
+        Args: { p_household_id: string; p_patterns: Json }
+        Returns: Json
+      }
+      reorder_categories: {
+        Args: {
+          p_category_ids: string[]
+          p_household_id: string
+          p_member_id?: string
+        }
+        Returns: Json
+      }
+      restore_deleted_transaction: {
+        Args: {
+          p_entry_id: string
+          p_household_id: string
+          p_member_id?: string
+        }
+        Returns: Json
+      }
+      restore_household_backup: {
+        Args: {
+          p_household_id: string
+          p_rows: Json
+        }
+        Returns: Json
+      }
+      rollback_import_batch: {
+        Args: {
+          p_batch_id: string
+          p_household_id: string
+          p_member_id?: string
+        }
+        Returns: Json
+      }
+      search_transactions: {
+        Args: {
+          p_cursor?: Json
+          p_filters?: Json
+          p_household_id: string
+          p_limit?: number
+          p_sort?: string
+        }
+        Returns: Json
+      }
+      set_transaction_splits: {
+        Args: {
+          p_household_id: string
+          p_splits: Json
+          p_transaction_id: string
+        }
+        Returns: Json
+      }
+      update_transaction: {
+        Args: {
+          p_changes: Json
+          p_expected_updated_at: string
+          p_household_id: string
+          p_member_id?: string
+          p_splits: Json
+          p_transaction_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
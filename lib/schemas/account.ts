@@ -0,0 +1,67 @@
+/**
+ * Zod schemas for account and transfer validation.
+ */
+import { z } from 'zod'
+
+// UUID regex pattern
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+// Custom UUID validator
+const uuid = z.string().regex(uuidRegex, 'Must be a valid UUID')
+
+// Date string validator (YYYY-MM-DD)
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Expected YYYY-MM-DD')
+
+/**
+ * Schema for creating or updating an account
+ */
+export const accountSchema = z.object({
+    name: z.string()
+        .trim()
+        .min(1, 'Account name is required')
+        .max(50, 'Account name must be 50 characters or less'),
+    type: z.enum(['checking', 'savings', 'credit_card', 'cash']),
+    // Negative for money owed, e.g. a credit card balance
+    openingBalance: z.number()
+        .finite('Opening balance must be a finite number')
+        .refine((value) => Math.abs(value) <= 100_000_000, 'Opening balance exceeds maximum allowed value')
+        .default(0),
+})
+
+/**
+ * Schema for moving money between two accounts
+ */
+export const transferSchema = z.object({
+    fromAccountId: uuid,
+    toAccountId: uuid,
+    amount: z.number()
+        .finite('Amount must be a finite number')
+        .positive('Amount must be greater than zero')
+        .max(100_000_000, 'Amount exceeds maximum allowed value'),
+    date: dateString,
+    description: z.string()
+        .max(100, 'Description must be 100 characters or less')
+        .optional(),
+}).refine(
+    (data) => data.fromAccountId !== data.toAccountId,
+    { message: 'Choose two different accounts', path: ['toAccountId'] }
+)
+
+/**
+ * Schema for reconciling an account against a bank statement
+ */
+export const reconciliationSchema = z.object({
+    accountId: uuid,
+    statementDate: dateString,
+    // Negative for money owed, e.g. a credit card statement
+    statementBalance: z.number()
+        .finite('Statement balance must be a finite number')
+        .refine((value) => Math.abs(value) <= 100_000_000, 'Statement balance exceeds maximum allowed value'),
+    // Transactions checked off as cleared on this statement
+    transactionIds: z.array(uuid).max(5000, 'Too many transactions in one reconciliation'),
+})
+
+// Export types
+export type AccountInput = z.input<typeof accountSchema>
+export type TransferInput = z.input<typeof transferSchema>
+export type ReconciliationInput = z.input<typeof reconciliationSchema>
@@ -0,0 +1,214 @@
+/**
+ * Zod schema for a household backup archive.
+ *
+ * Each section reuses the fields of the schema that validates the same
+ * data when it is entered in the app, so a restore accepts what the app does.
+ */
+import { z } from 'zod'
+import { dollarsToCents } from '@/lib/utils/money'
+import { accountSchema } from './account'
+import { createCategorySchema, rolloverSettingsSchema } from './category'
+import { getBudgetsSchema, moveBudgetMoneySchema, setBudgetSchema } from './budget'
+import { createTransactionSchema, transactionSplitSchema } from './transaction'
+import { ruleSchema } from './rule'
+import { scheduledTransactionSchema } from './scheduled-transaction'
+import { recurringChargeReviewSchema } from './subscription'
+import { goalContributionSchema, savingsGoalSchema } from './goal'
+import { renameMemberSchema } from './member'
+
+// UUID regex pattern
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+// Custom UUID validator
+const uuid = z.string().regex(uuidRegex, 'Must be a valid UUID')
+
+// Date string validator (YYYY-MM-DD)
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Expected YYYY-MM-DD')
+
+/**
+ * Archive format version. Bump it when the archive's shape changes, and
+ * teach the restore to upgrade older versions.
+ *
+ * Version 2 added rules, merchant aliases, scheduled transactions,
+ * subscriptions, goals, budget moves, members and the zero-based setting.
+ * Version 1 archives restore with those sections empty.
+ */
+export const BACKUP_SCHEMA_VERSION = 2
+
+const backupTransactionSchema = z.object({
+    id: uuid,
+    accountId: uuid,
+    // Receiving account, for transfers only
+    transferAccountId: uuid.optional(),
+    // Missing for income, transfers, splits and expenses whose category was deleted
+    categoryId: uuid.optional(),
+    amount: createTransactionSchema.shape.amount,
+    description: createTransactionSchema.shape.description,
+    date: createTransactionSchema.shape.date,
+    type: z.enum(['income', 'expense', 'transfer']),
+    sourceFingerprint: z.string().max(500).optional(),
+    // The schedule and occurrence a transaction was posted from
+    scheduledTransactionId: uuid.optional(),
+    scheduledDate: dateString.optional(),
+    // Members who entered and last changed it
+    createdBy: uuid.optional(),
+    updatedBy: uuid.optional(),
+    splits: z.array(transactionSplitSchema.extend({
+        // Missing when the line's category was deleted
+        categoryId: uuid.optional(),
+    })).optional(),
+}).superRefine((t, ctx) => {
+    if ((t.type === 'transfer') !== (t.transferAccountId !== undefined)) {
+        ctx.addIssue({ code: 'custom', message: 'Only transfers have a receiving account', path: ['transferAccountId'] })
+    }
+    if (t.type === 'transfer' && (t.amount <= 0 || t.categoryId || t.transferAccountId === t.accountId)) {
+        ctx.addIssue({ code: 'custom', message: 'A transfer is a positive amount between two accounts, with no category', path: ['type'] })
+    }
+    if (!t.splits?.length) return
+    if (t.type !== 'expense' || t.categoryId) {
+        ctx.addIssue({ code: 'custom', message: 'Only uncategorized expenses can be split', path: ['splits'] })
+    }
+    const totalCents = t.splits.reduce((sum, split) => sum + dollarsToCents(split.amount), 0)
+    if (t.splits.length < 2 || totalCents !== dollarsToCents(t.amount)) {
+        ctx.addIssue({ code: 'custom', message: 'Splits must have two or more lines adding up to the amount', path: ['splits'] })
+    }
+})
+
+/**
+ * Schema for a whole-household backup archive
+ */
+export const householdBackupSchema = z.object({
+    schemaVersion: z.literal([1, BACKUP_SCHEMA_VERSION], {
+        error: `Unsupported backup version. Expected version ${BACKUP_SCHEMA_VERSION} or older`,
+    }),
+    exportedAt: z.string(),
+    settings: z.object({
+        name: z.string().trim().min(1).max(100),
+        timezone: z.string().min(1).max(100),
+        autoRolloverBudget: z.boolean(),
+        // First month of zero-based budgeting; missing when it's off
+        zeroBasedStartMonth: getBudgetsSchema.shape.month.optional(),
+    }),
+    // Names only: PINs stay out of the archive, so a restore matches
+    // members by name to the ones already in the household
+    members: z.array(renameMemberSchema.extend({ id: uuid })).default([]),
+    accounts: z.array(accountSchema.extend({
+        id: uuid,
+        isDefault: z.boolean(),
+    })).min(1, 'A backup needs at least one account'),
+    categories: z.array(createCategorySchema.extend({
+        id: uuid,
+        rollover: rolloverSettingsSchema,
+        // Hidden from pickers, kept for history
+        archived: z.boolean().optional(),
+        // Position among its siblings; missing in older backups
+        sortOrder: z.number().int().min(0).optional(),
+    })),
+    keywords: z.array(z.object({
+        categoryId: uuid,
+        keyword: z.string().trim().min(1).max(100),
+    })),
+    merchantPatterns: z.array(z.object({
+        categoryId: uuid,
+        merchantName: z.string().trim().min(1).max(200),
+        matchCount: z.number().int().min(1),
+        lastUsedAt: z.string(),
+    })),
+    monthlyBudgets: z.array(setBudgetSchema.extend({
+        createdBy: uuid.optional(),
+        updatedBy: uuid.optional(),
+    })),
+    budgetMoves: z.array(z.object({
+        month: moveBudgetMoneySchema.shape.month,
+        // Missing when that side's category was deleted
+        fromCategoryId: uuid.optional(),
+        toCategoryId: uuid.optional(),
+        amount: moveBudgetMoneySchema.shape.amount,
+        note: moveBudgetMoneySchema.shape.note,
+        createdBy: uuid.optional(),
+        createdAt: z.string(),
+    })).default([]),
+    rules: z.array(ruleSchema).default([]),
+    merchantAliases: z.array(z.object({
+        matchText: z.string().trim().min(1).max(100),
+        displayName: z.string().trim().min(1).max(100),
+    })).default([]),
+    scheduledTransactions: z.array(scheduledTransactionSchema.safeExtend({
+        id: uuid,
+        nextDate: dateString,
+    })).default([]),
+    subscriptions: z.array(recurringChargeReviewSchema.extend({
+        status: z.enum(['tracked', 'cancelled', 'dismissed']),
+    })).default([]),
+    goals: z.array(savingsGoalSchema.safeExtend({
+        id: uuid,
+        startDate: dateString,
+    })).default([]),
+    goalContributions: z.array(goalContributionSchema).default([]),
+    transactions: z.array(backupTransactionSchema),
+}).superRefine((backup, ctx) => {
+    const accountIds = new Set(backup.accounts.map((account) => account.id))
+    const categoryIds = new Set(backup.categories.map((category) => category.id))
+    const memberIds = new Set(backup.members.map((member) => member.id))
+    const scheduleIds = new Set(backup.scheduledTransactions.map((schedule) => schedule.id))
+    const goalIds = new Set(backup.goals.map((goal) => goal.id))
+
+    if (backup.accounts.filter((account) => account.isDefault).length !== 1) {
+        ctx.addIssue({ code: 'custom', message: 'A backup needs exactly one default account', path: ['accounts'] })
+    }
+
+    // Everything must point at a row in the same archive
+    const checkReference = (ids: Set<string>, message: string) =>
+        (id: string | null | undefined, path: (string | number)[]) => {
+            if (id != null && !ids.has(id)) {
+                ctx.addIssue({ code: 'custom', message, path })
+            }
+        }
+    const checkCategory = checkReference(categoryIds, 'Unknown category')
+    const checkMember = checkReference(memberIds, 'Unknown member')
+    // Groups are one level deep
+    const parentIds = new Map(backup.categories.map((category) => [category.id, category.parentId ?? null]))
+    backup.categories.forEach((category, i) => {
+        if (!category.parentId) return
+        checkCategory(category.parentId, ['categories', i, 'parentId'])
+        if (category.parentId === category.id || parentIds.get(category.parentId)) {
+            ctx.addIssue({ code: 'custom', message: 'Subcategories must be inside a top-level category', path: ['categories', i, 'parentId'] })
+        }
+    })
+    backup.keywords.forEach((k, i) => checkCategory(k.categoryId, ['keywords', i, 'categoryId']))
+    backup.merchantPatterns.forEach((p, i) => checkCategory(p.categoryId, ['merchantPatterns', i, 'categoryId']))
+    backup.monthlyBudgets.forEach((b, i) => {
+        checkCategory(b.categoryId, ['monthlyBudgets', i, 'categoryId'])
+        checkMember(b.createdBy, ['monthlyBudgets', i, 'createdBy'])
+        checkMember(b.updatedBy, ['monthlyBudgets', i, 'updatedBy'])
+    })
+    backup.budgetMoves.forEach((m, i) => {
+        checkCategory(m.fromCategoryId, ['budgetMoves', i, 'fromCategoryId'])
+        checkCategory(m.toCategoryId, ['budgetMoves', i, 'toCategoryId'])
+        checkMember(m.createdBy, ['budgetMoves', i, 'createdBy'])
+    })
+    backup.rules.forEach((r, i) => checkCategory(r.categoryId, ['rules', i, 'categoryId']))
+    backup.scheduledTransactions.forEach((s, i) => checkCategory(s.categoryId, ['scheduledTransactions', i, 'categoryId']))
+    backup.subscriptions.forEach((s, i) => checkCategory(s.categoryId, ['subscriptions', i, 'categoryId']))
+    backup.goals.forEach((g, i) => checkCategory(g.categoryId, ['goals', i, 'categoryId']))
+    backup.goalContributions.forEach((c, i) =>
+        checkReference(goalIds, 'Unknown goal')(c.goalId, ['goalContributions', i, 'goalId']))
+    backup.transactions.forEach((t, i) => {
+        checkCategory(t.categoryId, ['transactions', i, 'categoryId'])
+        checkReference(scheduleIds, 'Unknown scheduled transaction')(
+            t.scheduledTransactionId, ['transactions', i, 'scheduledTransactionId'])
+        checkMember(t.createdBy, ['transactions', i, 'createdBy'])
+        checkMember(t.updatedBy, ['transactions', i, 'updatedBy'])
+        t.splits?.forEach((split, j) => checkCategory(split.categoryId, ['transactions', i, 'splits', j, 'categoryId']))
+        for (const key of ['accountId', 'transferAccountId'] as const) {
+            const id = t[key]
+            if (id !== undefined && !accountIds.has(id)) {
+                ctx.addIssue({ code: 'custom', message: 'Unknown account', path: ['transactions', i, key] })
+            }
+        }
+    })
+})
+
+// Export types
+export type HouseholdBackup = z.infer<typeof householdBackupSchema>
+export type BackupTransaction = z.infer<typeof backupTransactionSchema>
@@ -44,6 +44,24 @@ export const copyBudgetSchema = z.object({
     targetMonth: monthString,
 })
 
+/**
+ * Schema for moving money from one category's budget to another's
+ */
+export const moveBudgetMoneySchema = z.object({
+    month: monthString,
+    fromCategoryId: uuid,
+    toCategoryId: uuid,
+    amount: z.number()
+        .finite('Amount must be a finite number')
+        .positive('Amount must be greater than zero')
+        .max(100_000_000, 'Amount exceeds maximum allowed value'),
+    note: z.string().trim().max(200, 'Note must be 200 characters or less').optional(),
+}).refine((move) => move.fromCategoryId !== move.toCategoryId, {
+    message: 'Choose two different categories',
+    path: ['toCategoryId'],
+})
+
 // Export types
 export type SetBudgetInput = z.infer<typeof setBudgetSchema>
 export type GetBudgetsInput = z.infer<typeof getBudgetsSchema>
+export type MoveBudgetMoneyInput = z.infer<typeof moveBudgetMoneySchema>
@@ -21,6 +21,8 @@ export const createCategorySchema = z.object({
         .max(100, 'Category name must be 100 characters or less')
         .transform((val) => val.trim()),
     color: hexColor,
+    // The group it belongs to; missing or null at the top level
+    parentId: uuid.nullable().optional(),
 })
 
 /**
@@ -30,6 +32,31 @@ export const updateCategorySchema = createCategorySchema.extend({
     id: uuid,
 })
 
+/**
+ * Schema for a category's rollover policy
+ */
+export const rolloverSettingsSchema = z.object({
+    policy: z.enum(['reset', 'carry_surplus', 'carry_both', 'cap']),
+    capAmount: z.number()
+        .finite('Rollover limit must be a finite number')
+        .min(0, 'Rollover limit cannot be negative')
+        .max(100_000_000, 'Rollover limit exceeds maximum allowed value')
+        .nullable()
+        .optional(),
+}).refine(
+    (data) => data.policy !== 'cap' || (data.capAmount !== null && data.capAmount !== undefined),
+    { message: 'A rollover limit is required', path: ['capAmount'] }
+)
+
+/**
+ * Schema for a new order of sibling categories
+ */
+export const reorderCategoriesSchema = z.object({
+    categoryIds: z.array(uuid)
+        .min(1, 'Nothing to reorder')
+        .max(500, 'Too many categories to reorder at once'),
+})
+
 /**
  * Schema for deleting a category
  */
@@ -40,3 +67,5 @@ export const deleteCategorySchema = z.object({
 // Export types
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>
 export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>
+export type RolloverSettingsInput = z.infer<typeof rolloverSettingsSchema>
+export type ReorderCategoriesInput = z.infer<typeof reorderCategoriesSchema>
@@ -0,0 +1,53 @@
+/**
+ * Zod schemas for savings goal validation.
+ */
+import { z } from 'zod'
+
+// UUID regex pattern
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+// Custom UUID validator
+const uuid = z.string().regex(uuidRegex, 'Must be a valid UUID')
+
+// Date string validator (YYYY-MM-DD)
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Expected YYYY-MM-DD')
+
+/**
+ * Schema for creating or updating a savings goal
+ */
+export const savingsGoalSchema = z.object({
+    name: z.string()
+        .trim()
+        .min(1, 'Goal name is required')
+        .max(50, 'Goal name must be 50 characters or less'),
+    targetAmount: z.number()
+        .finite('Target must be a finite number')
+        .positive('Target must be greater than zero')
+        .max(100_000_000, 'Target exceeds maximum allowed value'),
+    targetDate: dateString,
+    categoryId: uuid.nullable().optional(),
+    autoBudget: z.boolean().default(false),
+}).refine(
+    (data) => !data.autoBudget || !!data.categoryId,
+    { message: 'Link a category to budget the monthly contribution', path: ['categoryId'] }
+)
+
+/**
+ * Schema for adding money to (or taking it out of) a goal
+ */
+export const goalContributionSchema = z.object({
+    goalId: uuid,
+    amount: z.number()
+        .finite('Amount must be a finite number')
+        .refine((value) => value !== 0, 'Amount must be non-zero')
+        .refine((value) => Math.abs(value) <= 100_000_000, 'Amount exceeds maximum allowed value'),
+    date: dateString,
+    note: z.string()
+        .trim()
+        .max(100, 'Note must be 100 characters or less')
+        .optional(),
+})
+
+// Export types
+export type SavingsGoalInput = z.input<typeof savingsGoalSchema>
+export type GoalContributionInput = z.input<typeof goalContributionSchema>
@@ -0,0 +1,41 @@
+/**
+ * Zod schemas for statement import validation.
+ */
+import { z } from 'zod'
+
+const columnName = z.string()
+    .trim()
+    .min(1, 'Column name cannot be empty')
+    .max(100, 'Column name must be 100 characters or less')
+
+/**
+ * Schema for a CSV column mapping chosen in the import wizard
+ */
+export const columnMappingSchema = z.object({
+    hasHeader: z.boolean(),
+    dateColumn: columnName,
+    postedDateColumn: columnName.optional(),
+    descriptionColumn: columnName,
+    amountColumn: columnName.optional(),
+    debitColumn: columnName.optional(),
+    creditColumn: columnName.optional(),
+    memoColumn: columnName.optional(),
+    dateFormat: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'MM/DD/YY', 'DD/MM/YYYY']),
+    signConvention: z.enum(['negative-is-debit', 'positive-is-debit']),
+}).refine(
+    (data) => Boolean(data.amountColumn || data.debitColumn || data.creditColumn),
+    { message: 'Map an amount column or debit/credit columns', path: ['amountColumn'] }
+)
+
+/**
+ * Schema for saving a column mapping for a header layout
+ */
+export const saveColumnMappingSchema = z.object({
+    headerSignature: z.string()
+        .min(1, 'Header signature cannot be empty')
+        .max(2000, 'Header signature is too long'),
+    mapping: columnMappingSchema,
+})
+
+// Export types
+export type SaveColumnMappingInput = z.infer<typeof saveColumnMappingSchema>
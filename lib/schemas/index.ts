@@ -4,3 +4,11 @@
 export * from './transaction'
 export * from './category'
 export * from './budget'
+export * from './import'
+export * from './rule'
+export * from './scheduled-transaction'
+export * from './subscription'
+export * from './goal'
+export * from './account'
+export * from './backup'
+export * from './member'
@@ -0,0 +1,27 @@
+/**
+ * Zod schemas for household member validation.
+ */
+import { z } from 'zod'
+
+const memberName = z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be 50 characters or less')
+
+/**
+ * Schema for adding a household member with their own PIN
+ */
+export const addMemberSchema = z.object({
+    name: memberName,
+    pin: z.string().regex(/^\d{4,6}$/, 'PIN must be 4-6 digits'),
+})
+
+/**
+ * Schema for renaming a household member
+ */
+export const renameMemberSchema = z.object({
+    name: memberName,
+})
+
+// Export types
+export type AddMemberInput = z.input<typeof addMemberSchema>
@@ -0,0 +1,50 @@
+/**
+ * Zod schemas for categorization rule validation.
+ */
+import { z } from 'zod'
+import { compileRulePattern } from '@/lib/utils/rule-engine'
+
+// UUID regex pattern
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+// Custom UUID validator
+const uuid = z.string().regex(uuidRegex, 'Must be a valid UUID')
+
+const amountBound = z.number()
+    .finite('Amount must be a finite number')
+    .min(0, 'Amount must be zero or more')
+    .max(100_000_000, 'Amount exceeds maximum allowed value')
+
+/**
+ * Schema for creating or updating a categorization rule
+ */
+export const ruleSchema = z.object({
+    priority: z.number().int('Priority must be a whole number').min(0).max(10_000).default(0),
+    matchType: z.enum(['contains', 'starts_with', 'exact', 'regex', 'whole_word']),
+    pattern: z.string()
+        .trim()
+        .min(1, 'Pattern cannot be empty')
+        .max(200, 'Pattern must be 200 characters or less'),
+    minAmount: amountBound.nullable().optional(),
+    maxAmount: amountBound.nullable().optional(),
+    transactionType: z.enum(['income', 'expense']).nullable().optional(),
+    categoryId: uuid.nullable().optional(),
+    renameTo: z.string()
+        .trim()
+        .max(100, 'New description must be 100 characters or less')
+        .nullable()
+        .optional(),
+    enabled: z.boolean().default(true),
+}).refine(
+    (data) => data.matchType !== 'regex' || compileRulePattern(data.pattern) !== null,
+    { message: 'Pattern is not a valid regular expression', path: ['pattern'] }
+).refine(
+    (data) => data.minAmount == null || data.maxAmount == null || data.minAmount <= data.maxAmount,
+    { message: 'Minimum amount must not exceed maximum amount', path: ['maxAmount'] }
+).refine(
+    (data) => !!data.categoryId || !!data.renameTo,
+    { message: 'Rule must set a category or rename the description', path: ['categoryId'] }
+)
+
+// Export types
+export type RuleInput = z.input<typeof ruleSchema>
@@ -0,0 +1,52 @@
+/**
+ * Zod schemas for scheduled transaction validation.
+ */
+import { z } from 'zod'
+
+// UUID regex pattern
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+// Custom UUID validator
+const uuid = z.string().regex(uuidRegex, 'Must be a valid UUID')
+
+// Date string validator (YYYY-MM-DD)
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Expected YYYY-MM-DD')
+
+/**
+ * Schema for creating or updating a scheduled transaction
+ */
+export const scheduledTransactionSchema = z.object({
+    categoryId: uuid.nullable().optional(),
+    amount: z.number()
+        .finite('Amount must be a finite number')
+        .positive('Amount must be greater than zero')
+        .max(100_000_000, 'Amount exceeds maximum allowed value'),
+    description: z.string()
+        .trim()
+        .max(100, 'Description must be 100 characters or less')
+        .nullable()
+        .optional(),
+    type: z.enum(['income', 'expense']).default('expense'),
+    frequency: z.enum(['daily', 'weekly', 'biweekly', 'monthly', 'last_business_day', 'yearly']),
+    dayOfMonth: z.number()
+        .int('Day of month must be a whole number')
+        .min(1, 'Day of month must be between 1 and 31')
+        .max(31, 'Day of month must be between 1 and 31')
+        .nullable()
+        .optional(),
+    startDate: dateString,
+    endDate: dateString.nullable().optional(),
+    mode: z.enum(['auto', 'confirm']).default('auto'),
+}).refine(
+    (data) => data.type === 'income' || !!data.categoryId,
+    { message: 'Category is required for expenses', path: ['categoryId'] }
+).refine(
+    (data) => data.frequency !== 'monthly' || data.dayOfMonth != null,
+    { message: 'Choose the day of the month', path: ['dayOfMonth'] }
+).refine(
+    (data) => !data.endDate || data.endDate >= data.startDate,
+    { message: 'End date must be on or after the start date', path: ['endDate'] }
+)
+
+// Export types
+export type ScheduledTransactionInput = z.input<typeof scheduledTransactionSchema>
@@ -0,0 +1,46 @@
+/**
+ * Zod schemas for subscription validation.
+ */
+import { z } from 'zod'
+
+// UUID regex pattern
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+// Custom UUID validator
+const uuid = z.string().regex(uuidRegex, 'Must be a valid UUID')
+
+// Date string validator (YYYY-MM-DD)
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Expected YYYY-MM-DD')
+
+const subscriptionAmount = z.number()
+    .finite('Amount must be a finite number')
+    .positive('Amount must be greater than zero')
+    .max(100_000_000, 'Amount exceeds maximum allowed value')
+
+/**
+ * Schema for tracking or dismissing a detected recurring charge
+ */
+export const recurringChargeReviewSchema = z.object({
+    merchant: z.string()
+        .trim()
+        .min(1, 'Merchant is required')
+        .max(100, 'Merchant must be 100 characters or less'),
+    displayName: z.string()
+        .trim()
+        .min(1, 'Name is required')
+        .max(100, 'Name must be 100 characters or less'),
+    amount: subscriptionAmount,
+    frequency: z.enum(['weekly', 'monthly', 'quarterly']),
+    lastChargeDate: dateString,
+    categoryId: uuid.nullable().optional(),
+})
+
+/**
+ * Schema for accepting a subscription's new price
+ */
+export const subscriptionPriceSchema = z.object({
+    amount: subscriptionAmount,
+})
+
+// Export types
+export type RecurringChargeReviewInput = z.input<typeof recurringChargeReviewSchema>
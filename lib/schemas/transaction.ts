@@ -5,6 +5,8 @@
  * at API boundaries.
  */
 import { z } from 'zod'
+import { dollarsToCents } from '@/lib/utils/money'
+import { TRANSACTION_SORTS } from '@/lib/utils/transaction-search'
 
 // UUID regex pattern
 const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
@@ -18,11 +20,26 @@ const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format.
 // Month string validator (YYYY-MM)
 const monthString = z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month format. Expected YYYY-MM')
 
+/**
+ * Schema for one line of a split transaction
+ */
+export const transactionSplitSchema = z.object({
+    categoryId: uuid,
+    amount: z.number()
+        .finite('Split amount must be a finite number')
+        .refine((value) => value !== 0, 'Split amount must be non-zero'),
+    memo: z.string()
+        .max(100, 'Memo must be 100 characters or less')
+        .optional(),
+})
+
 /**
  * Schema for creating a transaction
  */
 export const createTransactionSchema = z.object({
     categoryId: uuid.optional(),
+    // The household's default account when omitted
+    accountId: uuid.optional(),
     amount: z.number()
         .finite('Amount must be a finite number')
         .refine((value) => value !== 0, 'Amount must be non-zero')
@@ -34,15 +51,35 @@ export const createTransactionSchema = z.object({
     type: z.enum(['income', 'expense']).default('expense'),
     isRefund: z.boolean().optional(),
     idempotencyKey: z.string().optional(),
+    splits: z.array(transactionSplitSchema).optional(),
+    scheduledTransactionId: uuid.optional(),
+    scheduledDate: dateString.optional(),
 }).refine(
     (data) => {
-        // Category required for expenses that aren't refunds
-        if (data.type === 'expense' && !data.isRefund && !data.categoryId) {
+        // Category required for expenses that aren't refunds or splits,
+        // unless there's a description for categorization rules to match
+        if (data.type === 'expense' && !data.isRefund && !data.categoryId && !data.splits?.length && !data.description?.trim()) {
             return false
         }
         return true
     },
     { message: 'Category is required for expenses', path: ['categoryId'] }
+).refine(
+    (data) => !data.splits?.length || data.type === 'expense',
+    { message: 'Only expenses can be split', path: ['splits'] }
+).refine(
+    (data) => !data.splits?.length || data.splits.length >= 2,
+    { message: 'A split needs at least two lines', path: ['splits'] }
+).refine(
+    (data) => {
+        if (!data.splits?.length) return true
+        const totalCents = data.splits.reduce((sum, split) => sum + dollarsToCents(split.amount), 0)
+        return totalCents === dollarsToCents(data.amount)
+    },
+    { message: 'Splits must add up to the transaction amount', path: ['splits'] }
+).refine(
+    (data) => !data.scheduledTransactionId === !data.scheduledDate,
+    { message: 'A scheduled occurrence needs both its schedule and date', path: ['scheduledDate'] }
 )
 
 /**
@@ -54,13 +91,25 @@ export const updateTransactionSchema = createTransactionSchema.extend({
 })
 
 /**
- * Schema for transaction filters
+ * Schema for searching transactions: filters, sort order and page cursor
  */
 export const transactionFiltersSchema = z.object({
-    categoryId: uuid.optional(),
+    // A category, or 'uncategorized' for unsplit expenses without one
+    categoryId: z.union([uuid, z.literal('uncategorized')]).optional(),
     startDate: dateString.optional(),
     endDate: dateString.optional(),
-    type: z.enum(['income', 'expense']).optional(),
+    type: z.enum(['income', 'expense', 'transfer']).optional(),
+    minAmount: z.number().finite('Minimum amount must be a finite number').optional(),
+    maxAmount: z.number().finite('Maximum amount must be a finite number').optional(),
+    // Matched anywhere in the description, ignoring case
+    search: z.string()
+        .trim()
+        .max(100, 'Search must be 100 characters or less')
+        .optional(),
+    sort: z.enum(TRANSACTION_SORTS).default('date_desc'),
+    // Opaque cursor returned with the previous page
+    cursor: z.string().max(500, 'Invalid cursor').optional(),
+    limit: z.number().int().min(1).max(200).default(50),
 }).refine(
     (data) => {
         if (data.startDate && data.endDate && data.startDate > data.endDate) {
@@ -69,8 +118,37 @@ export const transactionFiltersSchema = z.object({
         return true
     },
     { message: 'Start date must be before end date' }
+).refine(
+    (data) => data.minAmount === undefined || data.maxAmount === undefined || data.minAmount <= data.maxAmount,
+    { message: 'Minimum amount must not be more than the maximum' }
 )
 
+/**
+ * Schema for one change applied to many transactions at once. Each
+ * transaction carries the updated_at it was loaded with, as for a single edit.
+ */
+export const bulkTransactionEditSchema = z.object({
+    items: z.array(z.object({
+        id: uuid,
+        expectedUpdatedAt: z.string().min(1, 'Expected updated timestamp is required'),
+    }))
+        .min(1, 'Select at least one transaction')
+        .max(500, 'Select at most 500 transactions at a time'),
+    change: z.discriminatedUnion('action', [
+        z.object({ action: z.literal('recategorize'), categoryId: uuid }),
+        z.object({ action: z.literal('delete') }),
+        z.object({
+            action: z.literal('shift_date'),
+            days: z.number()
+                .int('Days must be a whole number')
+                .min(-366, 'Shift by at most a year')
+                .max(366, 'Shift by at most a year')
+                .refine((days) => days !== 0, 'Days must be non-zero'),
+        }),
+        z.object({ action: z.literal('set_type'), type: z.enum(['income', 'expense']) }),
+    ]),
+})
+
 /**
  * Schema for month parameter
  */
@@ -79,6 +157,9 @@ export const monthParamSchema = z.object({
 })
 
 // Export types for use in server actions
+export type TransactionSplitInput = z.infer<typeof transactionSplitSchema>
 export type CreateTransactionInput = z.infer<typeof createTransactionSchema>
 export type UpdateTransactionInput = z.infer<typeof updateTransactionSchema>
 export type TransactionFilters = z.infer<typeof transactionFiltersSchema>
+export type TransactionFiltersInput = z.input<typeof transactionFiltersSchema>
+export type BulkTransactionEditInput = z.input<typeof bulkTransactionEditSchema>
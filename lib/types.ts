@@ -9,10 +9,23 @@ import type { Database } from './database.types'
 export type Household = Database['public']['Tables']['households']['Row']
 export type Category = Database['public']['Tables']['categories']['Row']
 export type Transaction = Database['public']['Tables']['transactions']['Row']
+export type TransactionSplit = Database['public']['Tables']['transaction_splits']['Row']
 export type MonthlyBudget = Database['public']['Tables']['monthly_budgets']['Row']
+export type BudgetMove = Database['public']['Tables']['budget_moves']['Row']
 export type CategoryKeyword = Database['public']['Tables']['category_keywords']['Row']
 export type MerchantPattern = Database['public']['Tables']['merchant_patterns']['Row']
+export type MerchantAlias = Database['public']['Tables']['merchant_aliases']['Row']
 export type AuthAttempt = Database['public']['Tables']['auth_attempts']['Row']
+export type ImportBatch = Database['public']['Tables']['import_batches']['Row']
+export type CategorizationRule = Database['public']['Tables']['categorization_rules']['Row']
+export type ScheduledTransaction = Database['public']['Tables']['scheduled_transactions']['Row']
+export type Subscription = Database['public']['Tables']['subscriptions']['Row']
+export type SavingsGoal = Database['public']['Tables']['savings_goals']['Row']
+export type GoalContribution = Database['public']['Tables']['goal_contributions']['Row']
+export type Account = Database['public']['Tables']['accounts']['Row']
+export type Reconciliation = Database['public']['Tables']['reconciliations']['Row']
+export type HouseholdMember = Database['public']['Tables']['household_members']['Row']
+export type AuditLogEntry = Database['public']['Tables']['audit_log']['Row']
 
 /**
  * Standardized return type for server actions.
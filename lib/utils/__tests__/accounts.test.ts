@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { getBalanceChange } from '../accounts'
+
+describe('getBalanceChange', () => {
+  it('adds income and subtracts expenses in their own account', () => {
+    expect(getBalanceChange({ account_id: 'a', type: 'income', amount: 10, amount_cents: 1000 }, 'a')).toBe(1000)
+    expect(getBalanceChange({ account_id: 'a', type: 'expense', amount: 10, amount_cents: 1000 }, 'a')).toBe(-1000)
+    expect(getBalanceChange({ account_id: 'a', type: 'expense', amount: 10, amount_cents: 1000 }, 'b')).toBe(0)
+  })
+
+  it('adds refunds back', () => {
+    expect(getBalanceChange({ account_id: 'a', type: 'expense', amount: -5, amount_cents: -500 }, 'a')).toBe(500)
+  })
+
+  it('moves a transfer out of one account and into the other', () => {
+    const transfer = { account_id: 'a', transfer_account_id: 'b', type: 'transfer', amount: 25, amount_cents: 2500 }
+    expect(getBalanceChange(transfer, 'a')).toBe(-2500)
+    expect(getBalanceChange(transfer, 'b')).toBe(2500)
+    expect(getBalanceChange(transfer, 'c')).toBe(0)
+  })
+
+  it('falls back to the dollar amount when cents are missing', () => {
+    expect(getBalanceChange({ account_id: 'a', type: 'expense', amount: 12.34, amount_cents: null }, 'a')).toBe(-1234)
+  })
+})
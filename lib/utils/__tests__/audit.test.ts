@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { describeAuditRecord, getAuditActionLabel, getAuditActorName, getAuditChanges } from '../audit'
+import type { AuditLogEntry } from '@/lib/types'
+
+function entry(overrides: Partial<AuditLogEntry>): AuditLogEntry {
+  return {
+    id: 'entry-1',
+    seq: 1,
+    household_id: 'household-1',
+    table_name: 'transactions',
+    record_id: 'txn-1',
+    action: 'update',
+    before_values: null,
+    after_values: null,
+    actor_id: 'member-1',
+    created_at: '2026-03-04T12:00:00Z',
+    ...overrides,
+  }
+}
+
+const lookups = {
+  accountNames: new Map([['checking', 'Checking']]),
+  categoryNames: new Map([['cat-groceries', 'Groceries'], ['cat-home', 'Home']]),
+  memberNames: new Map([['member-1', 'Alex']]),
+}
+
+const transaction = {
+  id: 'txn-1',
+  date: '2026-03-04',
+  description: 'GROCERY STORE',
+  amount: 42.5,
+  amount_cents: 4250,
+  type: 'expense',
+  category_id: 'cat-groceries',
+  account_id: 'checking',
+  transfer_account_id: null,
+  updated_at: '2026-03-04T12:00:00Z',
+}
+
+describe('getAuditChanges', () => {
+  it('lists the shown fields an update changed, with names in place of IDs', () => {
+    const changes = getAuditChanges(entry({
+      before_values: transaction,
+      after_values: { ...transaction, amount_cents: 5000, category_id: 'cat-home', updated_at: '2026-03-05T00:00:00Z' },
+    }), lookups)
+
+    expect(changes).toEqual([
+      { label: 'Amount', before: '$42.50', after: '$50.00' },
+      { label: 'Category', before: 'Groceries', after: 'Home' },
+    ])
+  })
+
+  it('has no changes for creates and deletes', () => {
+    expect(getAuditChanges(entry({ action: 'create', after_values: transaction }), lookups)).toEqual([])
+    expect(getAuditChanges(entry({ action: 'delete', before_values: transaction }), lookups)).toEqual([])
+  })
+
+  it('names a category that has since been deleted', () => {
+    const changes = getAuditChanges(entry({
+      before_values: { ...transaction, category_id: 'cat-gone' },
+      after_values: { ...transaction, category_id: null },
+    }), lookups)
+
+    expect(changes).toEqual([{ label: 'Category', before: 'Deleted category', after: '—' }])
+  })
+})
+
+describe('describeAuditRecord', () => {
+  it('describes a deleted transaction from its last values', () => {
+    expect(describeAuditRecord(entry({ action: 'delete', before_values: transaction }), lookups))
+      .toBe('GROCERY STORE · $42.50 on 2026-03-04')
+  })
+
+  it('describes a budget by category and month', () => {
+    expect(describeAuditRecord(entry({
+      table_name: 'monthly_budgets',
+      action: 'create',
+      after_values: { category_id: 'cat-home', month: '2026-03', budgeted_amount_cents: 10000 },
+    }), lookups)).toBe('Home budget for 2026-03')
+  })
+})
+
+describe('getAuditActorName', () => {
+  it('names the member, a removed member, or nobody', () => {
+    expect(getAuditActorName(entry({}), lookups)).toBe('Alex')
+    expect(getAuditActorName(entry({ actor_id: 'member-gone' }), lookups)).toBe('A removed member')
+    expect(getAuditActorName(entry({ actor_id: null }), lookups)).toBe('Someone')
+  })
+})
+
+describe('getAuditActionLabel', () => {
+  it('tells trashing and restoring apart from other changes', () => {
+    const live = { ...transaction, deleted_at: null }
+    const trashed = { ...transaction, deleted_at: '2026-03-05T12:00:00Z' }
+
+    expect(getAuditActionLabel(entry({ before_values: live, after_values: trashed }))).toBe('Moved to trash')
+    expect(getAuditActionLabel(entry({ before_values: trashed, after_values: live }))).toBe('Restored')
+    expect(getAuditActionLabel(entry({ before_values: live, after_values: { ...live, date: '2026-03-05' } }))).toBe('Changed')
+    expect(getAuditActionLabel(entry({ action: 'delete', before_values: trashed }))).toBe('Deleted')
+  })
+})
@@ -0,0 +1,286 @@
+import { describe, it, expect } from 'vitest'
+import { buildHouseholdBackup, toRestoreRows, type HouseholdRows } from '../backup'
+import { BACKUP_SCHEMA_VERSION, householdBackupSchema } from '@/lib/schemas/backup'
+
+const checkingId = '11111111-1111-4111-8111-111111111111'
+const savingsId = '22222222-2222-4222-8222-222222222222'
+const groceriesId = '33333333-3333-4333-8333-333333333333'
+const homeId = '44444444-4444-4444-8444-444444444444'
+const splitTxnId = '55555555-5555-4555-8555-555555555555'
+const transferId = '66666666-6666-4666-8666-666666666666'
+const memberId = '77777777-7777-4777-8777-777777777777'
+const rentId = '88888888-8888-4888-8888-888888888888'
+const vacationId = '99999999-9999-4999-8999-999999999999'
+
+const rows = {
+  household: { name: 'Home', timezone: 'America/Chicago', auto_rollover_budget: true, zero_based_start_month: null },
+  members: [{ id: memberId, name: 'Sam' }],
+  accounts: [
+    { id: checkingId, name: 'Checking', type: 'checking', opening_balance_cents: 10000, is_default: true },
+    { id: savingsId, name: 'Savings', type: 'savings', opening_balance_cents: 0, is_default: false },
+  ],
+  categories: [
+    { id: groceriesId, name: 'Groceries', color: '#22c55e', rollover_policy: 'cap', rollover_cap_cents: 5000 },
+    { id: homeId, name: 'Home', color: '#3b82f6', rollover_policy: 'reset', rollover_cap_cents: null },
+  ],
+  keywords: [{ category_id: groceriesId, keyword: 'aldi' }],
+  merchantPatterns: [
+    { category_id: groceriesId, merchant_name: 'ALDI', match_count: 3, last_used_at: '2026-03-01T00:00:00Z' },
+  ],
+  monthlyBudgets: [{ category_id: groceriesId, month: '2026-03', budgeted_amount_cents: 40000 }],
+  budgetMoves: [],
+  rules: [],
+  merchantAliases: [],
+  scheduledTransactions: [],
+  subscriptions: [],
+  goals: [],
+  goalContributions: [],
+  transactions: [
+    {
+      id: splitTxnId, account_id: checkingId, transfer_account_id: null, category_id: null,
+      amount_cents: 4250, description: 'TARGET', date: '2026-03-04', type: 'expense', source_fingerprint: 'hash:abc',
+    },
+    {
+      id: transferId, account_id: checkingId, transfer_account_id: savingsId, category_id: null,
+      amount_cents: 20000, description: null, date: '2026-03-05', type: 'transfer', source_fingerprint: null,
+    },
+  ],
+  splits: [
+    { transaction_id: splitTxnId, category_id: groceriesId, amount_cents: 3000, memo: 'Food' },
+    { transaction_id: splitTxnId, category_id: null, amount_cents: 1250, memo: null },
+  ],
+} as unknown as HouseholdRows
+
+describe('household backups', () => {
+  it('builds an archive that passes validation', () => {
+    const backup = buildHouseholdBackup(rows, '2026-03-10T00:00:00.000Z')
+    const parsed = householdBackupSchema.parse(JSON.parse(JSON.stringify(backup)))
+
+    expect(parsed.categories[0].rollover).toEqual({ policy: 'cap', capAmount: 50 })
+    expect(parsed.transactions[0].splits).toEqual([
+      { categoryId: groceriesId, amount: 30, memo: 'Food' },
+      { amount: 12.5 },
+    ])
+  })
+
+  it('gives every row a new ID and keeps references pointing at the same rows', () => {
+    const backup = householdBackupSchema.parse(buildHouseholdBackup(rows, '2026-03-10T00:00:00.000Z'))
+    let next = 0
+    const restored = toRestoreRows(backup, () => `new-${++next}`)
+
+    const newIds = new Map([
+      ...restored.accounts.map((a) => [a.name, a.id] as const),
+      ...restored.categories.map((c) => [c.name, c.id] as const),
+    ])
+
+    expect([...newIds.values()].some((id) => [checkingId, groceriesId].includes(id))).toBe(false)
+    expect(restored.keywords[0].category_id).toBe(newIds.get('Groceries'))
+    expect(restored.monthly_budgets[0]).toMatchObject({ category_id: newIds.get('Groceries'), budgeted_amount_cents: 40000 })
+    expect(restored.transactions[1]).toMatchObject({
+      account_id: newIds.get('Checking'),
+      transfer_account_id: newIds.get('Savings'),
+      amount_cents: 20000,
+    })
+    expect(restored.splits.map((s) => [s.transaction_id, s.category_id])).toEqual([
+      [restored.transactions[0].id, newIds.get('Groceries')],
+      [restored.transactions[0].id, null],
+    ])
+  })
+
+  it('round-trips rules, aliases, schedules, subscriptions, goals, moves, members and settings', () => {
+    const full = {
+      ...rows,
+      household: { ...rows.household, zero_based_start_month: '2026-01' },
+      monthlyBudgets: [{ ...rows.monthlyBudgets[0], created_by: memberId, updated_by: null }],
+      budgetMoves: [{
+        month: '2026-03', from_category_id: homeId, to_category_id: groceriesId, amount_cents: 2500,
+        note: 'Party', created_by: memberId, created_at: '2026-03-02T00:00:00Z',
+      }],
+      rules: [{
+        priority: 1, match_type: 'contains', pattern: 'aldi', min_amount: null, max_amount: 200,
+        transaction_type: 'expense', category_id: groceriesId, rename_to: null, enabled: true,
+      }],
+      merchantAliases: [{ match_text: 'AMZN MKTP', display_name: 'Amazon' }],
+      scheduledTransactions: [{
+        id: rentId, category_id: homeId, amount_cents: 150000, description: 'Rent', type: 'expense',
+        frequency: 'monthly', day_of_month: 1, start_date: '2026-01-01', end_date: null, next_date: '2026-04-01', mode: 'auto',
+      }],
+      subscriptions: [{
+        merchant: 'NETFLIX', display_name: 'Netflix', amount_cents: 1549, frequency: 'monthly',
+        status: 'tracked', category_id: homeId, last_charge_date: '2026-03-03',
+      }],
+      goals: [{
+        id: vacationId, name: 'Vacation', target_amount_cents: 300000, start_date: '2026-01-01',
+        target_date: '2026-12-31', category_id: groceriesId, auto_budget: true,
+      }],
+      goalContributions: [{ goal_id: vacationId, amount_cents: -5000, date: '2026-03-06', note: null }],
+      transactions: [
+        { ...rows.transactions[0], created_by: memberId, updated_by: memberId },
+        { ...rows.transactions[1], scheduled_transaction_id: rentId, scheduled_date: '2026-03-01' },
+      ],
+    } as unknown as HouseholdRows
+
+    const archive = householdBackupSchema.parse(
+      JSON.parse(JSON.stringify(buildHouseholdBackup(full, '2026-03-10T00:00:00.000Z')))
+    )
+    expect(archive.schemaVersion).toBe(BACKUP_SCHEMA_VERSION)
+    expect(archive.members).toEqual([{ id: memberId, name: 'Sam' }])
+
+    let next = 0
+    const restored = toRestoreRows(archive, () => `new-${++next}`)
+    const newId = (name: string) => restored.categories.find((c) => c.name === name)!.id
+    const newMemberId = restored.members[0].id
+
+    expect(restored.settings.zero_based_start_month).toBe('2026-01')
+    expect(restored.members).toEqual([{ id: newMemberId, name: 'Sam' }])
+    expect(restored.monthly_budgets[0]).toMatchObject({ created_by: newMemberId, updated_by: null })
+    expect(restored.budget_moves).toEqual([{
+      month: '2026-03', from_category_id: newId('Home'), to_category_id: newId('Groceries'),
+      amount: 25, amount_cents: 2500, note: 'Party', created_by: newMemberId, created_at: '2026-03-02T00:00:00Z',
+    }])
+    expect(restored.rules).toEqual([{
+      priority: 1, match_type: 'contains', pattern: 'aldi', min_amount: null, max_amount: 200,
+      transaction_type: 'expense', category_id: newId('Groceries'), rename_to: null, enabled: true,
+    }])
+    expect(restored.merchant_aliases).toEqual([{ match_text: 'AMZN MKTP', display_name: 'Amazon' }])
+    expect(restored.scheduled_transactions[0]).toMatchObject({
+      category_id: newId('Home'), amount_cents: 150000, day_of_month: 1, next_date: '2026-04-01', mode: 'auto',
+    })
+    expect(restored.subscriptions[0]).toMatchObject({
+      merchant: 'NETFLIX', amount_cents: 1549, status: 'tracked', category_id: newId('Home'),
+    })
+    expect(restored.savings_goals[0]).toMatchObject({
+      name: 'Vacation', target_amount_cents: 300000, category_id: newId('Groceries'), auto_budget: true,
+    })
+    expect(restored.goal_contributions).toEqual([{
+      goal_id: restored.savings_goals[0].id, amount: -50, amount_cents: -5000, date: '2026-03-06', note: null,
+    }])
+    expect(restored.transactions[0]).toMatchObject({ created_by: newMemberId, updated_by: newMemberId })
+    expect(restored.transactions[1]).toMatchObject({
+      scheduled_transaction_id: restored.scheduled_transactions[0].id,
+      scheduled_date: '2026-03-01',
+    })
+    expect(Object.values(restored).flat().some((row) =>
+      Object.values(row).some((value) => [memberId, rentId, vacationId].includes(value as string))
+    )).toBe(false)
+  })
+
+  it('restores version 1 archives with the newer sections empty', () => {
+    const { members: _members, ...v1 } = buildHouseholdBackup(rows, '2026-03-10T00:00:00.000Z')
+    const archive = householdBackupSchema.parse({
+      ...v1,
+      schemaVersion: 1,
+      settings: { name: 'Home', timezone: 'America/Chicago', autoRolloverBudget: true },
+      budgetMoves: undefined,
+      rules: undefined,
+      merchantAliases: undefined,
+      scheduledTransactions: undefined,
+      subscriptions: undefined,
+      goals: undefined,
+      goalContributions: undefined,
+    })
+
+    const restored = toRestoreRows(archive)
+    expect(restored.settings.zero_based_start_month).toBeNull()
+    expect(restored.members).toEqual([])
+    expect(restored.rules).toEqual([])
+    expect(restored.savings_goals).toEqual([])
+    expect(restored.transactions).toHaveLength(2)
+  })
+
+  it('leaves out rules and schedules that need a trashed category', () => {
+    const withTrash = {
+      ...rows,
+      categories: [rows.categories[0], { ...rows.categories[1], deleted_at: '2026-03-09T00:00:00Z' }],
+      rules: [
+        { priority: 0, match_type: 'contains', pattern: 'ikea', category_id: homeId, rename_to: null, enabled: true },
+        { priority: 0, match_type: 'contains', pattern: 'ikea', category_id: homeId, rename_to: 'IKEA', enabled: true },
+      ],
+      scheduledTransactions: [{
+        id: rentId, category_id: homeId, amount_cents: 150000, description: 'Rent', type: 'expense',
+        frequency: 'monthly', day_of_month: 1, start_date: '2026-01-01', end_date: null, next_date: '2026-04-01', mode: 'auto',
+      }],
+      goals: [{
+        id: vacationId, name: 'Vacation', target_amount_cents: 300000, start_date: '2026-01-01',
+        target_date: '2026-12-31', category_id: homeId, auto_budget: true,
+      }],
+      transactions: [{ ...rows.transactions[0], scheduled_transaction_id: rentId, scheduled_date: '2026-03-01' }],
+    } as unknown as HouseholdRows
+
+    const backup = householdBackupSchema.parse(buildHouseholdBackup(withTrash, '2026-03-10T00:00:00.000Z'))
+
+    expect(backup.rules).toEqual([expect.objectContaining({ categoryId: null, renameTo: 'IKEA' })])
+    expect(backup.scheduledTransactions).toEqual([])
+    expect(backup.goals).toEqual([expect.objectContaining({ categoryId: null, autoBudget: false })])
+    expect(backup.transactions[0].scheduledTransactionId).toBeUndefined()
+  })
+
+  it('leaves out the trash and keeps archived categories archived', () => {
+    const withTrash = {
+      ...rows,
+      categories: [
+        { ...rows.categories[0], deleted_at: '2026-03-09T00:00:00Z' },
+        { ...rows.categories[1], archived_at: '2026-03-08T00:00:00Z' },
+      ],
+      transactions: [rows.transactions[0], { ...rows.transactions[1], deleted_at: '2026-03-09T00:00:00Z' }],
+    } as HouseholdRows
+
+    const backup = householdBackupSchema.parse(buildHouseholdBackup(withTrash, '2026-03-10T00:00:00.000Z'))
+
+    expect(backup.categories).toEqual([expect.objectContaining({ name: 'Home', archived: true })])
+    expect(backup.keywords).toEqual([])
+    expect(backup.monthlyBudgets).toEqual([])
+    expect(backup.transactions.map((t) => t.id)).toEqual([splitTxnId])
+    expect(backup.transactions[0].splits).toEqual([{ amount: 30, memo: 'Food' }, { amount: 12.5 }])
+    expect(toRestoreRows(backup).categories[0].archived_at).toBe('2026-03-10T00:00:00.000Z')
+  })
+
+  it('keeps subcategories in their groups and in order', () => {
+    const grouped = {
+      ...rows,
+      categories: [
+        { ...rows.categories[0], parent_id: homeId, sort_order: 1 },
+        { ...rows.categories[1], parent_id: null, sort_order: 0 },
+      ],
+    } as HouseholdRows
+
+    const backup = householdBackupSchema.parse(buildHouseholdBackup(grouped, '2026-03-10T00:00:00.000Z'))
+    expect(backup.categories[0]).toMatchObject({ parentId: homeId, sortOrder: 1 })
+
+    let next = 0
+    const restored = toRestoreRows(backup, () => `new-${++next}`)
+    const home = restored.categories.find((c) => c.name === 'Home')!
+    expect(restored.categories.find((c) => c.name === 'Groceries')).toMatchObject({ parent_id: home.id, sort_order: 1 })
+    expect(home).toMatchObject({ parent_id: null, sort_order: 0 })
+  })
+
+  it('rejects subcategories nested more than one level deep', () => {
+    const backup = buildHouseholdBackup(rows, '2026-03-10T00:00:00.000Z')
+    backup.categories[0].parentId = homeId
+    backup.categories[1].parentId = groceriesId
+
+    const result = householdBackupSchema.safeParse(backup)
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(['categories', 0, 'parentId'])
+  })
+
+  it('rejects references to rows missing from the archive', () => {
+    const backup = buildHouseholdBackup(rows, '2026-03-10T00:00:00.000Z')
+    backup.keywords[0].categoryId = '77777777-7777-4777-8777-777777777777'
+
+    const result = householdBackupSchema.safeParse(backup)
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0]).toMatchObject({ message: 'Unknown category', path: ['keywords', 0, 'categoryId'] })
+  })
+
+  it('rejects other schema versions and unbalanced splits', () => {
+    const backup = buildHouseholdBackup(rows, '2026-03-10T00:00:00.000Z')
+
+    expect(householdBackupSchema.safeParse({ ...backup, schemaVersion: BACKUP_SCHEMA_VERSION + 1 }).success).toBe(false)
+
+    backup.transactions[0].splits![1].amount = 10
+    expect(householdBackupSchema.safeParse(backup).success).toBe(false)
+  })
+})
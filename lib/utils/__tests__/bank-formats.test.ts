@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectBankFormat,
+  findSavedMapping,
+  getHeaderSignature,
+  inferDateFormat,
+  parseAmountString,
+  parseDateString,
+} from '../bank-formats'
+import { parseBankCSV, parseCSVWithMapping } from '../csv-parser'
+
+describe('parseDateString', () => {
+  it('should parse ISO dates', () => {
+    expect(parseDateString('2024-01-15', 'YYYY-MM-DD')).toBe('2024-01-15')
+  })
+
+  it('should parse US dates with single-digit month and day', () => {
+    expect(parseDateString('1/5/2024', 'MM/DD/YYYY')).toBe('2024-01-05')
+  })
+
+  it('should parse two-digit years', () => {
+    expect(parseDateString('01/15/24', 'MM/DD/YY')).toBe('2024-01-15')
+  })
+
+  it('should parse day-first dates', () => {
+    expect(parseDateString('15/01/2024', 'DD/MM/YYYY')).toBe('2024-01-15')
+  })
+
+  it('should reject values in a different format', () => {
+    expect(parseDateString('2024-01-15', 'MM/DD/YYYY')).toBeNull()
+    expect(parseDateString('01/15/2024', 'YYYY-MM-DD')).toBeNull()
+  })
+
+  it('should reject out-of-range months', () => {
+    expect(parseDateString('15/01/2024', 'MM/DD/YYYY')).toBeNull()
+  })
+
+  it('should reject days past the end of the month', () => {
+    expect(parseDateString('02/31/2024', 'MM/DD/YYYY')).toBeNull()
+    expect(parseDateString('31/04/2024', 'DD/MM/YYYY')).toBeNull()
+    expect(parseDateString('02/29/23', 'MM/DD/YY')).toBeNull()
+    expect(parseDateString('02/29/2024', 'MM/DD/YYYY')).toBe('2024-02-29')
+  })
+})
+
+describe('parseAmountString', () => {
+  it('should strip currency symbols and thousands separators', () => {
+    expect(parseAmountString('$1,234.50')).toBe(1234.5)
+  })
+
+  it('should treat parentheses as negative', () => {
+    expect(parseAmountString('(12.00)')).toBe(-12)
+  })
+
+  it('should return NaN for non-numeric values', () => {
+    expect(parseAmountString('abc')).toBeNaN()
+    expect(parseAmountString('')).toBeNaN()
+  })
+})
+
+describe('inferDateFormat', () => {
+  it('should prefer month-first when ambiguous', () => {
+    expect(inferDateFormat(['01/02/2024', '03/04/2024'])).toBe('MM/DD/YYYY')
+  })
+
+  it('should detect day-first when a day exceeds 12', () => {
+    expect(inferDateFormat(['01/02/2024', '25/04/2024'])).toBe('DD/MM/YYYY')
+  })
+
+  it('should return null when no format fits', () => {
+    expect(inferDateFormat(['yesterday'])).toBeNull()
+  })
+})
+
+describe('detectBankFormat', () => {
+  it.each([
+    [['Date', ' Time', ' Amount', ' Type', ' Description'], 'ally'],
+    [['Transaction Date', 'Post Date', 'Description', 'Category', 'Type', 'Amount', 'Memo'], 'chase-credit'],
+    [['Details', 'Posting Date', 'Description', 'Amount', 'Type', 'Balance', 'Check or Slip #'], 'chase-checking'],
+    [['Transaction Date', 'Posted Date', 'Card No.', 'Description', 'Category', 'Debit', 'Credit'], 'capital-one'],
+    [['Trans. Date', 'Post Date', 'Description', 'Amount', 'Category'], 'discover'],
+    [['Date', 'Description', 'Card Member', 'Account #', 'Amount'], 'amex'],
+    [['01/15/2024', '-45.67', '*', '', 'PURCHASE AUTHORIZED ON 01/14'], 'wells-fargo'],
+    [['Date', 'Description', 'Debit', 'Credit'], 'generic-debit-credit'],
+    [['Date', 'Amount', 'Description'], 'generic'],
+  ])('should detect %j as %s', (firstRow, expectedId) => {
+    expect(detectBankFormat([firstRow])?.profile.id).toBe(expectedId)
+  })
+
+  it('should return null for unknown layouts', () => {
+    expect(detectBankFormat([['Foo', 'Bar']])).toBeNull()
+  })
+
+  it('should leave the minimal Amex header to be mapped by hand', () => {
+    // Amex signs purchases positive; the generic layout would read them as income
+    expect(detectBankFormat([['Date', 'Description', 'Amount'], ['01/15/2024', '45.67', 'STARBUCKS']])).toBeNull()
+    expect(detectBankFormat([['Date', 'Description', 'Amount', 'Balance']])?.profile.id).toBe('generic')
+  })
+
+  it('should infer the date format for generic layouts', () => {
+    const detected = detectBankFormat([
+      ['Date', 'Amount', 'Description'],
+      ['01/15/2024', '-5.00', 'COFFEE'],
+    ])
+
+    expect(detected?.mapping.dateFormat).toBe('MM/DD/YYYY')
+  })
+})
+
+describe('parseBankCSV', () => {
+  it('should parse a Chase credit card export', () => {
+    const csv = `Transaction Date,Post Date,Description,Category,Type,Amount,Memo
+01/15/2024,01/16/2024,STARBUCKS,Food & Drink,Sale,-5.75,`
+
+    const result = parseBankCSV(csv)
+
+    expect(result.format).toBe('Chase Credit Card')
+    expect(result.transactions[0]).toEqual({
+      date: '2024-01-15',
+      postedDate: '2024-01-16',
+      amount: -5.75,
+      description: 'STARBUCKS',
+      rowNumber: 2,
+    })
+  })
+
+  it('should parse Capital One debit and credit columns', () => {
+    const csv = `Transaction Date,Posted Date,Card No.,Description,Category,Debit,Credit
+2024-01-15,2024-01-16,1234,TARGET,Merchandise,42.10,
+2024-01-17,2024-01-17,1234,PAYMENT,Payment,,100.00`
+
+    const result = parseBankCSV(csv)
+
+    expect(result.format).toBe('Capital One')
+    expect(result.transactions.map(t => t.amount)).toEqual([-42.1, 100])
+  })
+
+  it('should flip positive-is-debit amounts so purchases are negative', () => {
+    const csv = `Trans. Date,Post Date,Description,Amount,Category
+01/15/2024,01/16/2024,GROCERY,54.20,Supermarkets
+01/20/2024,01/20/2024,STATEMENT CREDIT,-10.00,Awards and Rebate Credits`
+
+    const result = parseBankCSV(csv)
+
+    expect(result.format).toBe('Discover')
+    expect(result.transactions.map(t => t.amount)).toEqual([-54.2, 10])
+  })
+
+  it('should parse headerless Wells Fargo exports from the first row', () => {
+    const csv = `"01/15/2024","-45.67","*","","PURCHASE AUTHORIZED ON 01/14 SAFEWAY"
+"01/16/2024","1200.00","*","","PAYROLL DEPOSIT"`
+
+    const result = parseBankCSV(csv)
+
+    expect(result.format).toBe('Wells Fargo')
+    expect(result.transactions).toHaveLength(2)
+    expect(result.transactions[0].rowNumber).toBe(1)
+    expect(result.transactions[0].date).toBe('2024-01-15')
+  })
+
+  it('should throw for unrecognized layouts', () => {
+    const csv = `Foo,Bar
+1,2`
+
+    expect(() => parseBankCSV(csv)).toThrow('Unrecognized CSV format')
+  })
+
+  it('should throw for empty files', () => {
+    expect(() => parseBankCSV('')).toThrow('CSV file is empty')
+  })
+})
+
+describe('parseCSVWithMapping', () => {
+  it('should report a row error when both debit and credit are empty', () => {
+    const csv = `Date,Description,Debit,Credit
+2024-01-15,MYSTERY,,`
+
+    const result = parseCSVWithMapping(csv, {
+      hasHeader: true,
+      dateColumn: 'Date',
+      descriptionColumn: 'Description',
+      debitColumn: 'Debit',
+      creditColumn: 'Credit',
+      dateFormat: 'YYYY-MM-DD',
+      signConvention: 'negative-is-debit',
+    })
+
+    expect(result.errors).toEqual([{ rowNumber: 2, message: 'Missing amount' }])
+  })
+})
+
+describe('getHeaderSignature', () => {
+  it('should normalize header names', () => {
+    expect(getHeaderSignature([[' Posted ', 'PAYEE', 'Amount']], true)).toBe('headers:posted|payee|amount')
+  })
+
+  it('should key headerless files by what each column holds', () => {
+    expect(getHeaderSignature([
+      ['01/15/2024', '-5.00', '', 'COFFEE'],
+      ['01/16/2024', '1,200.00', '', 'PAYROLL'],
+    ], false)).toBe('columns:date|amount|empty|text')
+  })
+})
+
+describe('findSavedMapping', () => {
+  const mapping = {
+    hasHeader: true,
+    dateColumn: 'Posted',
+    amountColumn: 'Amount',
+    descriptionColumn: 'Payee',
+    dateFormat: 'MM/DD/YYYY' as const,
+    signConvention: 'negative-is-debit' as const,
+  }
+
+  it('should find a mapping saved for the same header layout', () => {
+    const saved = [{ headerSignature: 'headers:posted|payee|amount', mapping }]
+
+    expect(findSavedMapping([['Posted', 'Payee', 'Amount']], saved)).toEqual(saved[0])
+  })
+
+  it('should not apply a headerless mapping to another layout with as many columns', () => {
+    const saved = [{
+      headerSignature: 'columns:date|amount|text',
+      mapping: { ...mapping, hasHeader: false, dateColumn: 'Column 1', amountColumn: 'Column 2', descriptionColumn: 'Column 3' },
+    }]
+
+    expect(findSavedMapping([['01/15/2024', '-5.00', 'COFFEE']], saved)).toEqual(saved[0])
+    expect(findSavedMapping([['COFFEE', '01/15/2024', '-5.00']], saved)).toBeNull()
+  })
+
+  it('should return null when no saved mapping matches', () => {
+    const saved = [{ headerSignature: 'headers:posted|payee|amount', mapping }]
+
+    expect(findSavedMapping([['Posted', 'Payee', 'Amount', 'Balance']], saved)).toBeNull()
+  })
+})
+
+describe('parseBankCSV with saved mappings', () => {
+  it('should use a saved mapping for an unrecognized layout', () => {
+    const csv = `Posted,Payee,Amount,Notes
+01/15/2024,COFFEE SHOP,-4.50,latte`
+
+    const result = parseBankCSV(csv, [{
+      headerSignature: 'headers:posted|payee|amount|notes',
+      mapping: {
+        hasHeader: true,
+        dateColumn: 'Posted',
+        amountColumn: 'Amount',
+        descriptionColumn: 'Payee',
+        memoColumn: 'Notes',
+        dateFormat: 'MM/DD/YYYY',
+        signConvention: 'negative-is-debit',
+      },
+    }])
+
+    expect(result.format).toBe('Saved column mapping')
+    expect(result.transactions[0]).toEqual({
+      date: '2024-01-15',
+      amount: -4.5,
+      description: 'COFFEE SHOP',
+      memo: 'latte',
+      rowNumber: 2,
+    })
+  })
+})
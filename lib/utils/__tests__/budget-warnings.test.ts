@@ -1,8 +1,10 @@
 import { describe, it, expect } from 'vitest'
 import {
+  calculateAssignmentStatus,
   calculateBudgetStatus,
   getSortedCategorySuggestions,
   wouldExceedBudget,
+  wouldOverAssign,
 } from '../budget-warnings'
 import type { Category } from '@/lib/types'
 
@@ -13,6 +15,13 @@ const createCategory = (overrides: Partial<Category> = {}): Category => ({
   name: 'Test Category',
   color: '#3B82F6',
   created_at: new Date().toISOString(),
+  rollover_policy: 'reset',
+  rollover_cap_cents: null,
+  updated_by: null,
+  deleted_at: null,
+  archived_at: null,
+  parent_id: null,
+  sort_order: 0,
   ...overrides,
 })
 
@@ -314,3 +323,35 @@ describe('wouldExceedBudget', () => {
     expect(result.overage).toBeCloseTo(5.50, 2)
   })
 })
+
+describe('calculateAssignmentStatus', () => {
+  it('should be green when every dollar is assigned', () => {
+    const result = calculateAssignmentStatus(2500.3, 2500.3)
+
+    expect(result.readyToAssign).toBe(0)
+    expect(result.indicator).toBe('green')
+  })
+
+  it('should be yellow when money is left to assign', () => {
+    const result = calculateAssignmentStatus(2500, 2199.9)
+
+    expect(result.readyToAssign).toBe(300.1)
+    expect(result.indicator).toBe('yellow')
+  })
+
+  it('should be red when more is assigned than available', () => {
+    const result = calculateAssignmentStatus(-50, 100)
+
+    expect(result.readyToAssign).toBe(-150)
+    expect(result.indicator).toBe('red')
+  })
+})
+
+describe('wouldOverAssign', () => {
+  it('should warn only for the amount past what is ready to assign', () => {
+    const status = calculateAssignmentStatus(1000, 900)
+
+    expect(wouldOverAssign(100, status)).toEqual({ wouldExceed: false, overage: 0 })
+    expect(wouldOverAssign(100.01, status)).toEqual({ wouldExceed: true, overage: 0.01 })
+  })
+})
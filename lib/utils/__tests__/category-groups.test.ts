@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCategoryGroups,
+  flattenCategoryGroups,
+  getGroupIds,
+  rollUpToGroups,
+} from '../category-groups'
+
+const category = (id: string, sort_order: number, parent_id: string | null = null) => ({
+  id,
+  name: id,
+  sort_order,
+  parent_id,
+})
+
+const categories = [
+  category('Food', 1),
+  category('Housing', 0),
+  category('Utilities', 1, 'Housing'),
+  category('Rent', 0, 'Housing'),
+  category('Groceries', 0, 'Food'),
+  category('Fun', 2),
+]
+
+describe('category groups', () => {
+  it('puts subcategories inside their groups, each in saved order', () => {
+    const groups = buildCategoryGroups(categories)
+
+    expect(groups.map((g) => [g.category.id, g.children.map((c) => c.id)])).toEqual([
+      ['Housing', ['Rent', 'Utilities']],
+      ['Food', ['Groceries']],
+      ['Fun', []],
+    ])
+    expect(flattenCategoryGroups(groups).map((c) => c.id)).toEqual([
+      'Housing', 'Rent', 'Utilities', 'Food', 'Groceries', 'Fun',
+    ])
+  })
+
+  it('breaks ties in the saved order by name', () => {
+    const groups = buildCategoryGroups([category('b', 0), category('a', 0)])
+
+    expect(groups.map((g) => g.category.id)).toEqual(['a', 'b'])
+  })
+
+  it('shows a subcategory at the top level when its group is missing', () => {
+    const groups = buildCategoryGroups([category('Rent', 0, 'Housing'), category('Fun', 1)])
+
+    expect(groups.map((g) => g.category.id)).toEqual(['Rent', 'Fun'])
+    expect(getGroupIds([category('Rent', 0, 'Housing')]).get('Rent')).toBe('Rent')
+  })
+
+  it('adds subcategory amounts into their group', () => {
+    const totals = rollUpToGroups(
+      new Map([['Housing', 100], ['Rent', 1500], ['Utilities', 200], ['Fun', 50], ['Deleted', 10]]),
+      categories
+    )
+
+    expect(Object.fromEntries(totals)).toEqual({ Housing: 1800, Fun: 50 })
+  })
+})
@@ -9,6 +9,7 @@ const createKeyword = (categoryId: string, keyword: string): CategoryKeyword =>
   keyword,
   household_id: 'test-household',
   created_at: new Date().toISOString(),
+  updated_by: null,
 })
 
 // Helper to create mock merchant pattern
@@ -18,6 +19,7 @@ const createPattern = (categoryId: string, merchantName: string): MerchantPatter
   merchant_name: merchantName,
   household_id: 'test-household',
   match_count: 1,
+  last_used_at: new Date().toISOString(),
   created_at: new Date().toISOString(),
   updated_at: new Date().toISOString(),
 })
@@ -58,7 +60,7 @@ describe('matchCategory', () => {
       expect(result.matchType).toBe('keyword')
     })
 
-    it('should match first keyword found when multiple categories match', () => {
+    it('should prefer the longest keyword when multiple categories match', () => {
       const keywords: Record<string, CategoryKeyword[]> = {
         'cat-first': [createKeyword('cat-first', 'store')],
         'cat-second': [createKeyword('cat-second', 'grocery')],
@@ -66,8 +68,19 @@ describe('matchCategory', () => {
 
       const result = matchCategory('GROCERY STORE', keywords, [])
 
-      // Should match 'store' from first category due to iteration order
-      expect(result.categoryId).toBe('cat-first')
+      // 'grocery' is more specific than 'store', regardless of category order
+      expect(result.categoryId).toBe('cat-second')
+    })
+
+    it('should not match a keyword inside a longer word', () => {
+      const keywords: Record<string, CategoryKeyword[]> = {
+        'cat-gas': [createKeyword('cat-gas', 'shell')],
+      }
+
+      const result = matchCategory('SHELLFISH SHACK', keywords, [])
+
+      expect(result.categoryId).toBeNull()
+      expect(result.matchType).toBe('none')
     })
 
     it('should match any keyword from a category', () => {
@@ -151,6 +164,28 @@ describe('matchCategory', () => {
 
       expect(result.categoryId).toBe('cat-shopping')
     })
+
+    it('should prefer the category used most often for a merchant', () => {
+      const patterns: MerchantPattern[] = [
+        { ...createPattern('cat-groceries', 'costco'), match_count: 2 },
+        { ...createPattern('cat-gas', 'costco'), id: 'pat-costco-gas', match_count: 7 },
+      ]
+
+      const result = matchCategory('COSTCO WHOLESALE', {}, patterns)
+
+      expect(result.categoryId).toBe('cat-gas')
+    })
+
+    it('should break ties by the most recently used category', () => {
+      const patterns: MerchantPattern[] = [
+        { ...createPattern('cat-old', 'target'), last_used_at: '2024-01-01T00:00:00Z' },
+        { ...createPattern('cat-new', 'target'), id: 'pat-target-new', last_used_at: '2024-06-01T00:00:00Z' },
+      ]
+
+      const result = matchCategory('TARGET 00012', {}, patterns)
+
+      expect(result.categoryId).toBe('cat-new')
+    })
   })
 
   describe('priority: keyword over historical', () => {
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { parseAllyBankCSV, validateCSVFile } from '../csv-parser'
+import { getStatementFileType, parseAllyBankCSV, validateStatementFile } from '../csv-parser'
 
 describe('parseAllyBankCSV', () => {
   describe('valid CSV parsing', () => {
@@ -33,13 +33,22 @@ describe('parseAllyBankCSV', () => {
       })
     })
 
-    it('should convert negative amounts to positive', () => {
+    it('should keep negative amounts signed', () => {
       const csv = `Date,Amount,Description
 2024-01-15,-75.00,WITHDRAWAL`
 
       const result = parseAllyBankCSV(csv)
 
-      expect(result.transactions[0].amount).toBe(75.00)
+      expect(result.transactions[0].amount).toBe(-75.00)
+    })
+
+    it('should reject negative amounts beyond the maximum', () => {
+      const csv = `Date,Amount,Description
+2024-01-15,-100000001,TEST`
+
+      const result = parseAllyBankCSV(csv)
+
+      expect(result.errors[0].message).toBe('Amount exceeds maximum allowed value')
     })
 
     it('should handle extra whitespace in headers', () => {
@@ -291,7 +300,7 @@ invalid-date,25.00,INVALID DATE`
   })
 })
 
-describe('validateCSVFile', () => {
+describe('validateStatementFile', () => {
   const createMockFile = (name: string, size: number): File => {
     const blob = new Blob(['x'.repeat(size)])
     return new File([blob], name)
@@ -299,23 +308,30 @@ describe('validateCSVFile', () => {
 
   it('should accept valid CSV file', () => {
     const file = createMockFile('transactions.csv', 1000)
-    const result = validateCSVFile(file)
+    const result = validateStatementFile(file)
 
     expect(result.valid).toBe(true)
     expect(result.error).toBeUndefined()
   })
 
-  it('should reject non-CSV file', () => {
+  it.each(['statement.ofx', 'statement.QFX', 'statement.qif'])('should accept %s', (name) => {
+    const file = createMockFile(name, 1000)
+    const result = validateStatementFile(file)
+
+    expect(result.valid).toBe(true)
+  })
+
+  it('should reject unsupported file types', () => {
     const file = createMockFile('document.xlsx', 1000)
-    const result = validateCSVFile(file)
+    const result = validateStatementFile(file)
 
     expect(result.valid).toBe(false)
-    expect(result.error).toBe('Please upload a CSV file')
+    expect(result.error).toBe('Please upload a CSV, OFX, QFX or QIF file')
   })
 
   it('should reject file larger than 5MB', () => {
     const file = createMockFile('large.csv', 5 * 1024 * 1024 + 1)
-    const result = validateCSVFile(file)
+    const result = validateStatementFile(file)
 
     expect(result.valid).toBe(false)
     expect(result.error).toContain('File too large')
@@ -323,16 +339,26 @@ describe('validateCSVFile', () => {
 
   it('should accept file exactly at 5MB limit', () => {
     const file = createMockFile('exact.csv', 5 * 1024 * 1024)
-    const result = validateCSVFile(file)
+    const result = validateStatementFile(file)
 
     expect(result.valid).toBe(true)
   })
 
   it('should reject empty file', () => {
     const file = createMockFile('empty.csv', 0)
-    const result = validateCSVFile(file)
+    const result = validateStatementFile(file)
 
     expect(result.valid).toBe(false)
-    expect(result.error).toBe('CSV file is empty')
+    expect(result.error).toBe('File is empty')
+  })
+})
+
+describe('getStatementFileType', () => {
+  it('should treat QFX as OFX', () => {
+    expect(getStatementFileType('bank.qfx')).toBe('ofx')
+  })
+
+  it('should return null for unsupported extensions', () => {
+    expect(getStatementFileType('bank.pdf')).toBeNull()
   })
 })
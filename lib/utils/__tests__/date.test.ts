@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest'
 import {
     getCurrentMonth,
+    getCurrentDate,
     formatMonth,
     getPreviousMonth,
     getLastNMonths,
@@ -42,6 +43,23 @@ describe('Date Utilities', () => {
         })
     })
 
+    describe('getCurrentDate', () => {
+        it('returns the UTC date in YYYY-MM-DD format', () => {
+            vi.setSystemTime(new Date('2026-03-09T12:00:00Z'))
+            expect(getCurrentDate()).toBe('2026-03-09')
+        })
+
+        it('returns the date in the provided timezone', () => {
+            vi.setSystemTime(new Date('2026-01-01T00:30:00Z'))
+            expect(getCurrentDate('America/Los_Angeles')).toBe('2025-12-31')
+        })
+
+        it('falls back to UTC for invalid timezone', () => {
+            vi.setSystemTime(new Date('2026-01-01T00:30:00Z'))
+            expect(getCurrentDate('Invalid/Zone')).toBe('2026-01-01')
+        })
+    })
+
     describe('getPreviousMonth', () => {
         it('returns previous month for regular month', () => {
             expect(getPreviousMonth('2024-02')).toBe('2024-01')
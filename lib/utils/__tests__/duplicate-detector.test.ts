@@ -126,6 +126,25 @@ describe('findDuplicates', () => {
       const lenientResult = findDuplicates(newTxns, existing, 50)
       expect(lenientResult).toHaveLength(1)
     })
+
+    it('should treat descriptions that differ only by reference code as the same merchant', () => {
+      const existing: Transaction[] = [
+        createTransaction({
+          date: '2024-01-15',
+          amount: 50.0,
+          description: 'AMAZON MKTPL*1A2B3C4D5',
+        }),
+      ]
+
+      const newTxns = [
+        { date: '2024-01-15', amount: 50.0, description: 'AMAZON MKTPL*9Z8Y7X6W5' },
+      ]
+
+      const result = findDuplicates(newTxns, existing, 95)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].similarity).toBe(100)
+    })
   })
 
   describe('non-duplicates', () => {
@@ -301,6 +320,104 @@ describe('findDuplicates', () => {
       expect(result).toHaveLength(0)
     })
   })
+
+  describe('source fingerprints', () => {
+    it('should match an already-imported row by fingerprint regardless of description', () => {
+      const existing: Transaction[] = [
+        createTransaction({
+          date: '2024-01-15',
+          amount: 50.0,
+          description: 'Groceries (edited)',
+          source_fingerprint: 'ext:ABC123',
+        }),
+      ]
+
+      const newTxns = [
+        { date: '2024-01-15', amount: 50.0, description: 'WALMART', sourceFingerprint: 'ext:ABC123' },
+      ]
+
+      const result = findDuplicates(newTxns, existing)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].matchType).toBe('fingerprint')
+    })
+
+    it('should report same-day fuzzy matches as exact', () => {
+      const existing: Transaction[] = [
+        createTransaction({ date: '2024-01-15', amount: 50.0, description: 'WALMART' }),
+      ]
+
+      const result = findDuplicates(
+        [{ date: '2024-01-15', amount: 50.0, description: 'WALMART', sourceFingerprint: 'hash:00000000' }],
+        existing
+      )
+
+      expect(result[0].matchType).toBe('exact')
+      expect(result[0].dayDifference).toBe(0)
+    })
+  })
+
+  describe('date window', () => {
+    const existing: Transaction[] = [
+      createTransaction({ date: '2024-01-15', amount: 50.0, description: 'WALMART PURCHASE' }),
+    ]
+
+    it('should match rows a few days apart within the window', () => {
+      const newTxns = [
+        { date: '2024-01-17', amount: 50.0, description: 'WALMART PURCHASE' },
+      ]
+
+      const result = findDuplicates(newTxns, existing, 80, { dateWindowDays: 3 })
+
+      expect(result).toHaveLength(1)
+      expect(result[0].matchType).toBe('date-window')
+      expect(result[0].dayDifference).toBe(2)
+    })
+
+    it('should not match rows outside the window', () => {
+      const newTxns = [
+        { date: '2024-01-20', amount: 50.0, description: 'WALMART PURCHASE' },
+      ]
+
+      expect(findDuplicates(newTxns, existing, 80, { dateWindowDays: 3 })).toHaveLength(0)
+    })
+
+    it('should compare the posted date as well as the transaction date', () => {
+      const newTxns = [
+        { date: '2024-01-10', postedDate: '2024-01-15', amount: 50.0, description: 'WALMART PURCHASE' },
+      ]
+
+      const result = findDuplicates(newTxns, existing)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].matchType).toBe('exact')
+    })
+
+    it('should ignore pending markers when comparing descriptions', () => {
+      const newTxns = [
+        { date: '2024-01-16', amount: 50.0, description: 'PENDING WALMART PURCHASE' },
+      ]
+
+      const result = findDuplicates(newTxns, existing, 95, { dateWindowDays: 3 })
+
+      expect(result).toHaveLength(1)
+      expect(result[0].similarity).toBe(100)
+    })
+
+    it('should prefer the closest-dated match', () => {
+      const twoDaysApart = createTransaction({ date: '2024-01-13', amount: 50.0, description: 'WALMART PURCHASE' })
+      const sameDay = createTransaction({ date: '2024-01-15', amount: 50.0, description: 'WALMART PURCHASE' })
+
+      const result = findDuplicates(
+        [{ date: '2024-01-15', amount: 50.0, description: 'WALMART PURCHASE' }],
+        [twoDaysApart, sameDay],
+        80,
+        { dateWindowDays: 3 }
+      )
+
+      expect(result[0].existingTransaction).toBe(sameDay)
+    })
+  })
 })
 
 describe('filterDuplicates', () => {
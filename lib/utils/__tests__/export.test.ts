@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { toCsv, transactionsToCsv, transactionsToJson, monthlyReportToCsv } from '../export'
+import { parseBankCSV } from '../csv-parser'
+import type { TransactionWithCategory } from '@/lib/actions/transactions'
+import type { MonthlyReport } from '@/lib/actions/reports'
+
+function transaction(overrides: Partial<TransactionWithCategory>): TransactionWithCategory {
+  return {
+    id: 'txn-1',
+    household_id: 'household-1',
+    account_id: 'checking',
+    transfer_account_id: null,
+    category_id: 'cat-groceries',
+    amount: 42.5,
+    amount_cents: 4250,
+    description: 'GROCERY STORE',
+    date: '2026-03-04',
+    type: 'expense',
+    created_at: null,
+    updated_at: null,
+    created_by: null,
+    updated_by: null,
+    deleted_at: null,
+    reconciliation_id: null,
+    transfer_reconciliation_id: null,
+    scheduled_date: null,
+    scheduled_transaction_id: null,
+    source_fingerprint: null,
+    category: { id: 'cat-groceries', name: 'Groceries', color: '#22c55e' },
+    splits: [],
+    ...overrides,
+  }
+}
+
+const lookups = {
+  accountNames: new Map([['checking', 'Checking'], ['savings', 'Savings']]),
+  categoryNames: new Map([['cat-groceries', 'Groceries'], ['cat-home', 'Home']]),
+}
+
+describe('toCsv', () => {
+  it('quotes commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines']])).toBe('"a,b","say ""hi""","two\nlines"\r\n')
+  })
+
+  it('defuses text a spreadsheet would run as a formula, but not negative numbers', () => {
+    expect(toCsv([['=SUM(A1)', '-12.50', '@cmd']])).toBe("'=SUM(A1),-12.50,'@cmd\r\n")
+  })
+})
+
+describe('transactionsToCsv', () => {
+  it('round-trips through the import parser', () => {
+    const csv = transactionsToCsv([
+      transaction({ description: 'COFFEE, "LARGE"' }),
+      transaction({ id: 'txn-2', type: 'income', amount: 1000, amount_cents: 100000, description: 'PAYROLL', category: null }),
+      transaction({ id: 'txn-3', amount: -5, amount_cents: -500, description: 'STORE REFUND' }),
+    ], lookups)
+
+    const result = parseBankCSV(csv)
+
+    expect(result.format).toBe('Generic (Date, Amount, Description)')
+    expect(result.errors).toHaveLength(0)
+    expect(result.transactions.map((t) => [t.date, t.amount, t.description])).toEqual([
+      ['2026-03-04', -42.5, 'COFFEE, "LARGE"'],
+      ['2026-03-04', 1000, 'PAYROLL'],
+      ['2026-03-04', 5, 'STORE REFUND'],
+    ])
+  })
+
+  it('names split categories and leaves transfers out', () => {
+    const csv = transactionsToCsv([
+      transaction({
+        category: null,
+        category_id: null,
+        splits: [
+          { id: 's1', category_id: 'cat-groceries', amount: 30, amount_cents: 3000, memo: null },
+          { id: 's2', category_id: 'cat-home', amount: 12.5, amount_cents: 1250, memo: null },
+        ],
+      }),
+      transaction({ id: 'txn-2', type: 'transfer', transfer_account_id: 'savings', category: null, description: null }),
+    ], lookups)
+
+    const lines = csv.trim().split('\r\n')
+    expect(lines).toEqual([
+      'Date,Description,Amount,Type,Category,Account',
+      '2026-03-04,GROCERY STORE,-42.50,expense,Groceries | Home,Checking',
+    ])
+  })
+})
+
+describe('transactionsToJson', () => {
+  it('includes split lines with category names', () => {
+    const json = JSON.parse(transactionsToJson([
+      transaction({
+        splits: [{ id: 's1', category_id: 'cat-home', amount: 42.5, amount_cents: 4250, memo: 'Lamp' }],
+      }),
+    ], lookups))
+
+    expect(json[0]).toMatchObject({
+      amount: '42.50',
+      account: 'Checking',
+      splits: [{ category: 'Home', amount: '42.50', memo: 'Lamp' }],
+    })
+  })
+})
+
+describe('monthlyReportToCsv', () => {
+  it('lists totals, then a row per category', () => {
+    const report = {
+      month: '2026-03',
+      totalBudgeted: 500,
+      totalCarryover: 0,
+      totalIncome: 2000,
+      totalSpent: 320.1,
+      totalRemaining: 179.9,
+      netCashFlow: 1679.9,
+      savingsRate: 83.995,
+      categories: [{
+        categoryId: 'cat-groceries',
+        categoryName: 'Groceries',
+        categoryColor: '#22c55e',
+        parentId: null,
+        budgeted: 500,
+        carryover: 0,
+        available: 500,
+        spent: 320.1,
+        remaining: 179.9,
+        percentUsed: 64.02,
+        transactionCount: 7,
+        rolloverHistory: [],
+      }],
+      groups: [],
+      transactionsByDay: [],
+      topTransactions: [],
+    } satisfies MonthlyReport
+
+    const lines = monthlyReportToCsv(report).trim().split('\r\n')
+
+    expect(lines).toContain('Total Spent,320.10')
+    expect(lines).toContain('Savings Rate,84.0%')
+    expect(lines[lines.length - 1]).toBe('Groceries,500.00,0.00,500.00,320.10,179.90,64%,7')
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assignSourceFingerprints,
+  computeSourceFingerprint,
+  normalizeDescriptionForFingerprint,
+} from '../fingerprint'
+
+describe('normalizeDescriptionForFingerprint', () => {
+  it('should ignore case, punctuation and extra spaces', () => {
+    expect(normalizeDescriptionForFingerprint('  Coffee-Shop  #12 ')).toBe('coffee shop 12')
+  })
+})
+
+describe('computeSourceFingerprint', () => {
+  it('should use the bank transaction ID when present', async () => {
+    expect(
+      await computeSourceFingerprint({ date: '2024-01-15', amount: -4.5, description: 'COFFEE', externalId: ' 2024011501 ' })
+    ).toBe('ext:2024011501')
+  })
+
+  it('should hash date, amount and description otherwise', async () => {
+    const fingerprint = await computeSourceFingerprint({ date: '2024-01-15', amount: -4.5, description: 'COFFEE' })
+
+    expect(fingerprint).toMatch(/^sha256:[0-9a-f]{64}$/)
+  })
+
+  it('should be stable across cosmetic description differences', async () => {
+    expect(
+      await computeSourceFingerprint({ date: '2024-01-15', amount: -4.5, description: 'Coffee  Shop' })
+    ).toBe(await computeSourceFingerprint({ date: '2024-01-15', amount: -4.5, description: 'COFFEE SHOP' }))
+  })
+
+  it('should change when the date or amount changes', async () => {
+    const base = await computeSourceFingerprint({ date: '2024-01-15', amount: -4.5, description: 'COFFEE' })
+
+    expect(await computeSourceFingerprint({ date: '2024-01-16', amount: -4.5, description: 'COFFEE' })).not.toBe(base)
+    expect(await computeSourceFingerprint({ date: '2024-01-15', amount: 4.5, description: 'COFFEE' })).not.toBe(base)
+  })
+})
+
+describe('assignSourceFingerprints', () => {
+  it('should number identical rows within one statement', async () => {
+    const row = { date: '2024-01-15', amount: -3, description: 'COFFEE' }
+    const [first, second] = await assignSourceFingerprints([row, row])
+
+    expect(second).toBe(`${first}#2`)
+  })
+
+  it('should produce the same fingerprints for the same statement', async () => {
+    const rows = [
+      { date: '2024-01-15', amount: -3, description: 'COFFEE' },
+      { date: '2024-01-15', amount: -3, description: 'COFFEE' },
+      { date: '2024-01-16', amount: 1200, description: 'PAYROLL' },
+    ]
+
+    expect(await assignSourceFingerprints(rows)).toEqual(await assignSourceFingerprints(rows))
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { computeGoalPlan, monthsBetween } from '../goals'
+
+const goal = {
+  targetCents: 120000,
+  savedCents: 0,
+  savedBeforeMonthCents: 0,
+  startDate: '2026-01-10',
+  targetDate: '2026-12-31',
+}
+
+describe('monthsBetween', () => {
+  it('counts months across years', () => {
+    expect(monthsBetween('2025-11', '2026-02')).toBe(3)
+    expect(monthsBetween('2026-03', '2026-03')).toBe(0)
+    expect(monthsBetween('2026-03', '2026-01')).toBe(-2)
+  })
+})
+
+describe('computeGoalPlan', () => {
+  it('spreads the target over every month including the target month', () => {
+    const plan = computeGoalPlan(goal, '2026-01')
+    expect(plan.monthsLeft).toBe(12)
+    expect(plan.requiredMonthlyCents).toBe(10000)
+    expect(plan.status).toBe('on_track')
+  })
+
+  it('rounds the monthly contribution up so the target is met', () => {
+    const plan = computeGoalPlan({ ...goal, targetCents: 100000, targetDate: '2026-03-31' }, '2026-01')
+    expect(plan.requiredMonthlyCents).toBe(33334)
+  })
+
+  it('keeps this month\'s contribution fixed as money comes in', () => {
+    const plan = computeGoalPlan({ ...goal, savedCents: 25000, savedBeforeMonthCents: 20000 }, '2026-03')
+    // 100000 left at the start of March, over March..December
+    expect(plan.requiredMonthlyCents).toBe(10000)
+    expect(plan.remainingCents).toBe(95000)
+  })
+
+  it('is behind when savings trail the straight-line share', () => {
+    const plan = computeGoalPlan({ ...goal, savedCents: 15000, savedBeforeMonthCents: 15000 }, '2026-03')
+    expect(plan.expectedCents).toBe(20000)
+    expect(plan.status).toBe('behind')
+    expect(plan.requiredMonthlyCents).toBe(10500)
+  })
+
+  it('is complete once the target is reached', () => {
+    const plan = computeGoalPlan({ ...goal, savedCents: 130000, savedBeforeMonthCents: 130000 }, '2026-06')
+    expect(plan.status).toBe('complete')
+    expect(plan.requiredMonthlyCents).toBe(0)
+    expect(plan.progressPercent).toBe(100)
+  })
+
+  it('asks for the whole remainder once the target date has passed', () => {
+    const plan = computeGoalPlan({ ...goal, savedCents: 100000, savedBeforeMonthCents: 100000 }, '2027-02')
+    expect(plan.status).toBe('overdue')
+    expect(plan.monthsLeft).toBe(0)
+    expect(plan.requiredMonthlyCents).toBe(20000)
+  })
+})
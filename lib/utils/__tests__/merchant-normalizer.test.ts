@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  cleanMerchantDescription,
+  normalizeMerchant,
+  normalizeMerchantKey,
+} from '../merchant-normalizer'
+import type { MerchantAlias } from '@/lib/types'
+
+const createAlias = (matchText: string, displayName: string): MerchantAlias => ({
+  id: `alias-${matchText}`,
+  household_id: 'test-household',
+  match_text: matchText,
+  display_name: displayName,
+  created_at: new Date().toISOString(),
+})
+
+describe('cleanMerchantDescription', () => {
+  it('should strip reference codes after an asterisk', () => {
+    expect(cleanMerchantDescription('AMAZON MKTPL*1A2B3')).toBe('AMAZON MKTPL')
+  })
+
+  it('should strip processor prefixes, store numbers and city/state', () => {
+    expect(cleanMerchantDescription('SQ *BLUE BOTTLE #12 OAKLAND CA')).toBe('BLUE BOTTLE')
+    expect(cleanMerchantDescription('POS DEBIT TARGET STORE 0042 SAN JOSE CA')).toBe('TARGET')
+  })
+
+  it('should strip card suffixes', () => {
+    expect(cleanMerchantDescription('NETFLIX.COM CARD 1234')).toBe('NETFLIX.COM')
+    expect(cleanMerchantDescription('SPOTIFY XXXX5678')).toBe('SPOTIFY')
+  })
+
+  it('should keep short names that look like a location', () => {
+    expect(cleanMerchantDescription('BEST BUY CO')).toBe('BEST BUY')
+    expect(cleanMerchantDescription('SHELL OIL')).toBe('SHELL OIL')
+  })
+
+  it('should never return an empty name', () => {
+    expect(cleanMerchantDescription('#1234')).toBe('#1234')
+  })
+})
+
+describe('normalizeMerchant', () => {
+  it('should give the same key to the same merchant with different reference codes', () => {
+    expect(normalizeMerchantKey('AMAZON MKTPL*1A2B3')).toBe(normalizeMerchantKey('AMAZON MKTPL*9Z8Y7'))
+  })
+
+  it('should apply the longest matching alias', () => {
+    const aliases = [
+      createAlias('amazon', 'Amazon'),
+      createAlias('amazon prime', 'Prime Video'),
+    ]
+
+    expect(normalizeMerchant('AMAZON MKTPL*1A2B3', aliases)).toEqual({
+      key: 'amazon',
+      displayName: 'Amazon',
+      aliasId: 'alias-amazon',
+    })
+    expect(normalizeMerchant('AMAZON PRIME*XY12', aliases).displayName).toBe('Prime Video')
+  })
+
+  it('should only match aliases on whole words', () => {
+    const aliases = [createAlias('amazon', 'Amazon')]
+
+    expect(normalizeMerchant('AMAZONIA CAFE', aliases).aliasId).toBeNull()
+  })
+
+  it('should handle empty descriptions', () => {
+    expect(normalizeMerchant('')).toEqual({ key: 'unknown', displayName: 'Unknown', aliasId: null })
+    expect(normalizeMerchant(null).key).toBe('unknown')
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { parseOFX, parseOFXDate } from '../ofx-parser'
+
+const sgmlStatement = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<BANKTRANLIST>
+<DTSTART>20240101
+<DTEND>20240131
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000.000[-5:EST]
+<TRNAMT>-4.50
+<FITID>2024011501
+<NAME>COFFEE SHOP
+<MEMO>POS PURCHASE
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240116
+<TRNAMT>1200.00
+<FITID>2024011602
+<NAME>PAYROLL &amp; BONUS
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`
+
+describe('parseOFXDate', () => {
+  it('should parse dates with time and timezone suffixes', () => {
+    expect(parseOFXDate('20240115120000.000[-5:EST]')).toBe('2024-01-15')
+  })
+
+  it('should reject invalid dates', () => {
+    expect(parseOFXDate('20241315')).toBeNull()
+    expect(parseOFXDate(undefined)).toBeNull()
+  })
+})
+
+describe('parseOFX', () => {
+  it('should parse SGML statements and keep the FITID', () => {
+    const result = parseOFX(sgmlStatement)
+
+    expect(result.errors).toHaveLength(0)
+    expect(result.transactions).toEqual([
+      {
+        date: '2024-01-15',
+        amount: -4.5,
+        description: 'COFFEE SHOP',
+        memo: 'POS PURCHASE',
+        rowNumber: 1,
+        externalId: '2024011501',
+      },
+      {
+        date: '2024-01-16',
+        amount: 1200,
+        description: 'PAYROLL & BONUS',
+        rowNumber: 2,
+        externalId: '2024011602',
+      },
+    ])
+  })
+
+  it('should parse XML statements', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240201</DTPOSTED><TRNAMT>-25.00</TRNAMT><FITID>ABC123</FITID><NAME>BOOKSTORE</NAME></STMTTRN>
+</BANKTRANLIST></CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`
+
+    const result = parseOFX(xml)
+
+    expect(result.transactions[0]).toMatchObject({
+      date: '2024-02-01',
+      amount: -25,
+      description: 'BOOKSTORE',
+      externalId: 'ABC123',
+    })
+  })
+
+  it('should use DTUSER as the date and keep DTPOSTED as the posted date', () => {
+    const ofx = `<OFX><STMTTRN><DTUSER>20240112<DTPOSTED>20240115<TRNAMT>-20.00<FITID>9<NAME>HARDWARE STORE</STMTTRN></OFX>`
+
+    const result = parseOFX(ofx)
+
+    expect(result.transactions[0]).toMatchObject({
+      date: '2024-01-12',
+      postedDate: '2024-01-15',
+    })
+  })
+
+  it('should fall back to MEMO when NAME is missing', () => {
+    const ofx = `<OFX><STMTTRN><DTPOSTED>20240115<TRNAMT>-9.99<FITID>1<MEMO>STREAMING SERVICE</STMTTRN></OFX>`
+
+    const result = parseOFX(ofx)
+
+    expect(result.transactions[0].description).toBe('STREAMING SERVICE')
+    expect(result.transactions[0].memo).toBeUndefined()
+  })
+
+  it('should collect errors for invalid entries', () => {
+    const ofx = `<OFX><STMTTRN><DTPOSTED>bad<TRNAMT>-1.00<NAME>X</STMTTRN><STMTTRN><DTPOSTED>20240115<NAME>Y</STMTTRN></OFX>`
+
+    const result = parseOFX(ofx)
+
+    expect(result.errors).toEqual([
+      { rowNumber: 1, message: 'Invalid date format. Expected YYYYMMDD' },
+      { rowNumber: 2, message: 'Missing amount' },
+    ])
+    expect(result.summary).toEqual({ total: 2, success: 0, failed: 2 })
+  })
+
+  it('should throw for non-OFX content', () => {
+    expect(() => parseOFX('Date,Amount,Description')).toThrow('not a valid OFX')
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fetchAllPages, PAGE_SIZE } from '../pagination'
+
+describe('fetchAllPages', () => {
+  it('keeps fetching until a page comes back short', async () => {
+    const rows = Array.from({ length: PAGE_SIZE * 2 + 5 }, (_, i) => i)
+    const fetchPage = vi.fn(async (from: number, to: number) => ({ data: rows.slice(from, to + 1), error: null }))
+
+    await expect(fetchAllPages('rows', fetchPage)).resolves.toEqual(rows)
+    expect(fetchPage).toHaveBeenCalledTimes(3)
+    expect(fetchPage).toHaveBeenLastCalledWith(PAGE_SIZE * 2, PAGE_SIZE * 3 - 1)
+  })
+
+  it('stops after one request when everything fits', async () => {
+    const fetchPage = vi.fn(async () => ({ data: [1, 2], error: null }))
+
+    await expect(fetchAllPages('rows', fetchPage)).resolves.toEqual([1, 2])
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('names what failed', async () => {
+    const fetchPage = async () => ({ data: null, error: { message: 'timeout' } })
+
+    await expect(fetchAllPages('transactions', fetchPage)).rejects.toThrow('Failed to fetch transactions: timeout')
+  })
+})
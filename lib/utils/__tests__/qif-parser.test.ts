@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { parseQIF, parseQIFDate } from '../qif-parser'
+
+describe('parseQIFDate', () => {
+  it.each([
+    ["1/15'24", '2024-01-15'],
+    ["1/ 5'24", '2024-01-05'],
+    ['01/15/2024', '2024-01-15'],
+    ['1/15/98', '1998-01-15'],
+    ['01-15-2024', '2024-01-15'],
+  ])('should parse %s', (value, expected) => {
+    expect(parseQIFDate(value)).toBe(expected)
+  })
+
+  it('should reject invalid dates', () => {
+    expect(parseQIFDate('2024-01-15')).toBeNull()
+    expect(parseQIFDate('13/01/2024')).toBeNull()
+  })
+})
+
+describe('parseQIF', () => {
+  it('should parse bank records', () => {
+    const qif = `!Type:Bank
+D1/15'24
+T-4.50
+PCOFFEE SHOP
+MLATTE
+^
+D1/16'24
+T1,200.00
+PPAYROLL
+^`
+
+    const result = parseQIF(qif)
+
+    expect(result.errors).toHaveLength(0)
+    expect(result.transactions).toEqual([
+      { date: '2024-01-15', amount: -4.5, description: 'COFFEE SHOP', memo: 'LATTE', rowNumber: 1 },
+      { date: '2024-01-16', amount: 1200, description: 'PAYROLL', rowNumber: 2 },
+    ])
+  })
+
+  it('should keep the first amount for split transactions', () => {
+    const qif = `!Type:CCard
+D02/01/2024
+T-30.00
+PSUPERMARKET
+SGroceries
+$-20.00
+SHousehold
+$-10.00
+^`
+
+    const result = parseQIF(qif)
+
+    expect(result.transactions[0].amount).toBe(-30)
+  })
+
+  it('should report errors per record', () => {
+    const qif = `!Type:Bank
+Dnot a date
+T-1.00
+PX
+^`
+
+    const result = parseQIF(qif)
+
+    expect(result.errors).toEqual([
+      { rowNumber: 1, message: 'Invalid date format. Expected MM/DD/YYYY' },
+    ])
+  })
+
+  it('should reject investment accounts', () => {
+    expect(() => parseQIF('!Type:Invst\nD1/15/2024\n^')).toThrow('not supported')
+  })
+
+  it('should reject files without a type header', () => {
+    expect(() => parseQIF('Date,Amount')).toThrow('not a valid QIF')
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { getClearedBalance, isReconciled, isReconciledIn } from '../reconciliation'
+
+const transfer = {
+  id: 't-transfer',
+  account_id: 'checking',
+  transfer_account_id: 'savings',
+  reconciliation_id: 'rec-checking',
+  transfer_reconciliation_id: null,
+  type: 'transfer',
+  amount: 50,
+  amount_cents: 5000,
+}
+
+describe('isReconciledIn', () => {
+  it('tracks each side of a transfer separately', () => {
+    expect(isReconciledIn(transfer, 'checking')).toBe(true)
+    expect(isReconciledIn(transfer, 'savings')).toBe(false)
+    expect(isReconciledIn({ ...transfer, transfer_reconciliation_id: 'rec-savings' }, 'savings')).toBe(true)
+  })
+
+  it('is false for an account the transaction is not in', () => {
+    expect(isReconciledIn({ ...transfer, type: 'expense', transfer_account_id: null }, 'savings')).toBe(false)
+  })
+})
+
+describe('isReconciled', () => {
+  it('locks a transaction reconciled on either side', () => {
+    expect(isReconciled({ reconciliation_id: null, transfer_reconciliation_id: null })).toBe(false)
+    expect(isReconciled({ reconciliation_id: null, transfer_reconciliation_id: 'rec-1' })).toBe(true)
+    expect(isReconciled({ reconciliation_id: 'rec-1' })).toBe(true)
+  })
+})
+
+describe('getClearedBalance', () => {
+  const transactions = [
+    transfer,
+    { id: 't-1', account_id: 'checking', type: 'expense', amount: 25, amount_cents: 2500 },
+    { id: 't-2', account_id: 'checking', type: 'income', amount: 100, amount_cents: 10000 },
+  ]
+
+  it('counts reconciled and checked-off transactions only', () => {
+    expect(getClearedBalance(100000, transactions, 'checking', new Set())).toBe(95000)
+    expect(getClearedBalance(100000, transactions, 'checking', new Set(['t-1']))).toBe(92500)
+    expect(getClearedBalance(100000, transactions, 'checking', new Set(['t-1', 't-2']))).toBe(102500)
+  })
+
+  it('adds a transfer in once it is checked off in the receiving account', () => {
+    expect(getClearedBalance(0, transactions, 'savings', new Set())).toBe(0)
+    expect(getClearedBalance(0, transactions, 'savings', new Set(['t-transfer']))).toBe(5000)
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { buildRolloverLedger, computeCarryover } from '../rollover'
+
+const months = ['2024-01', '2024-02', '2024-03']
+const budgeted = new Map([['2024-01', 10000], ['2024-02', 10000], ['2024-03', 10000]])
+
+describe('computeCarryover', () => {
+  it('should carry nothing when resetting', () => {
+    expect(computeCarryover('reset', null, 2500)).toBe(0)
+    expect(computeCarryover('reset', null, -2500)).toBe(0)
+  })
+
+  it('should carry only surplus with carry_surplus', () => {
+    expect(computeCarryover('carry_surplus', null, 2500)).toBe(2500)
+    expect(computeCarryover('carry_surplus', null, -2500)).toBe(0)
+  })
+
+  it('should carry surplus and debt with carry_both', () => {
+    expect(computeCarryover('carry_both', null, 2500)).toBe(2500)
+    expect(computeCarryover('carry_both', null, -2500)).toBe(-2500)
+  })
+
+  it('should cap the surplus and drop debt with cap', () => {
+    expect(computeCarryover('cap', 5000, 8000)).toBe(5000)
+    expect(computeCarryover('cap', 5000, 3000)).toBe(3000)
+    expect(computeCarryover('cap', 5000, -3000)).toBe(0)
+  })
+})
+
+describe('buildRolloverLedger', () => {
+  it('should start the first month with no carryover', () => {
+    const ledger = buildRolloverLedger(months, 'carry_surplus', null, budgeted, new Map())
+
+    expect(ledger[0]).toEqual({
+      month: '2024-01',
+      carryoverCents: 0,
+      budgetedCents: 10000,
+      spentCents: 0,
+      availableCents: 10000,
+    })
+  })
+
+  it('should accumulate unspent money month over month', () => {
+    const spent = new Map([['2024-01', 6000], ['2024-02', 7000]])
+    const ledger = buildRolloverLedger(months, 'carry_surplus', null, budgeted, spent)
+
+    expect(ledger.map((entry) => entry.carryoverCents)).toEqual([0, 4000, 7000])
+    expect(ledger[2].availableCents).toBe(17000)
+  })
+
+  it('should carry overspending as debt with carry_both', () => {
+    const spent = new Map([['2024-01', 12500]])
+    const ledger = buildRolloverLedger(months, 'carry_both', null, budgeted, spent)
+
+    expect(ledger[1].carryoverCents).toBe(-2500)
+    expect(ledger[1].availableCents).toBe(7500)
+  })
+
+  it('should treat months without a budget as zero budgeted', () => {
+    const ledger = buildRolloverLedger(['2023-12', ...months], 'carry_surplus', null, budgeted, new Map())
+
+    expect(ledger[0].availableCents).toBe(0)
+    expect(ledger[1].carryoverCents).toBe(0)
+  })
+
+  it('should never carry anything when resetting', () => {
+    const ledger = buildRolloverLedger(months, 'reset', null, budgeted, new Map([['2024-01', 1000]]))
+
+    expect(ledger.every((entry) => entry.carryoverCents === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { applyRules, containsWholeWord, ruleMatches } from '../rule-engine'
+import type { CategorizationRule } from '@/lib/types'
+
+// Helper to create mock rule
+const createRule = (overrides: Partial<CategorizationRule>): CategorizationRule => ({
+  id: `rule-${overrides.pattern ?? 'x'}`,
+  household_id: 'test-household',
+  priority: 0,
+  match_type: 'contains',
+  pattern: 'x',
+  min_amount: null,
+  max_amount: null,
+  transaction_type: null,
+  category_id: 'cat-default',
+  rename_to: null,
+  enabled: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const expense = (description: string, amount = 10) => ({ description, amount, type: 'expense' as const })
+
+describe('containsWholeWord', () => {
+  it('should match whole words only', () => {
+    expect(containsWholeWord('SHELL OIL 123', 'shell')).toBe(true)
+    expect(containsWholeWord('SHELLFISH SHACK', 'shell')).toBe(false)
+  })
+
+  it('should treat regex characters literally', () => {
+    expect(containsWholeWord('AMZN MKTP US*2K', 'us*2k')).toBe(true)
+    expect(containsWholeWord('AMZN MKTP USS2K', 'us*2k')).toBe(false)
+  })
+})
+
+describe('ruleMatches', () => {
+  it('should support each match type', () => {
+    const txn = expense('SHELL OIL 57442')
+
+    expect(ruleMatches(createRule({ match_type: 'contains', pattern: 'oil' }), txn)).toBe(true)
+    expect(ruleMatches(createRule({ match_type: 'starts_with', pattern: 'shell' }), txn)).toBe(true)
+    expect(ruleMatches(createRule({ match_type: 'starts_with', pattern: 'oil' }), txn)).toBe(false)
+    expect(ruleMatches(createRule({ match_type: 'exact', pattern: 'shell oil 57442' }), txn)).toBe(true)
+    expect(ruleMatches(createRule({ match_type: 'exact', pattern: 'shell oil' }), txn)).toBe(false)
+    expect(ruleMatches(createRule({ match_type: 'whole_word', pattern: 'shell' }), txn)).toBe(true)
+    expect(ruleMatches(createRule({ match_type: 'regex', pattern: '^shell oil \\d+$' }), txn)).toBe(true)
+  })
+
+  it('should not match invalid regex patterns', () => {
+    expect(ruleMatches(createRule({ match_type: 'regex', pattern: '([' }), expense('ANY'))).toBe(false)
+  })
+
+  it('should check amount range against the absolute amount', () => {
+    const rule = createRule({ pattern: 'amazon', min_amount: 10, max_amount: 50 })
+
+    expect(ruleMatches(rule, expense('AMAZON', 25))).toBe(true)
+    expect(ruleMatches(rule, expense('AMAZON', -25))).toBe(true)
+    expect(ruleMatches(rule, expense('AMAZON', 75))).toBe(false)
+    expect(ruleMatches(rule, expense('AMAZON', 5))).toBe(false)
+  })
+
+  it('should check the transaction type', () => {
+    const rule = createRule({ pattern: 'venmo', transaction_type: 'income' })
+
+    expect(ruleMatches(rule, { description: 'VENMO', amount: 20, type: 'income' })).toBe(true)
+    expect(ruleMatches(rule, expense('VENMO'))).toBe(false)
+  })
+
+  it('should never match disabled rules', () => {
+    expect(ruleMatches(createRule({ pattern: 'shell', enabled: false }), expense('SHELL'))).toBe(false)
+  })
+})
+
+describe('applyRules', () => {
+  it('should apply the lowest priority number first', () => {
+    const rules = [
+      createRule({ id: 'late', pattern: 'shell', priority: 20, category_id: 'cat-late' }),
+      createRule({ id: 'early', pattern: 'shell', priority: 10, category_id: 'cat-early' }),
+    ]
+
+    const result = applyRules(expense('SHELL OIL'), rules)
+
+    expect(result.categoryId).toBe('cat-early')
+    expect(result.ruleIds).toEqual(['early'])
+  })
+
+  it('should combine a rename from one rule with a category from another', () => {
+    const rules = [
+      createRule({ id: 'rename', pattern: 'sq *blue bottle', priority: 1, category_id: null, rename_to: 'Blue Bottle Coffee' }),
+      createRule({ id: 'coffee', pattern: 'blue bottle', priority: 2, category_id: 'cat-coffee' }),
+    ]
+
+    const result = applyRules(expense('SQ *BLUE BOTTLE 0421'), rules)
+
+    expect(result.renameTo).toBe('Blue Bottle Coffee')
+    expect(result.categoryId).toBe('cat-coffee')
+    expect(result.ruleIds).toEqual(['rename', 'coffee'])
+  })
+
+  it('should return no changes when nothing matches', () => {
+    const result = applyRules(expense('SHELLFISH SHACK'), [
+      createRule({ match_type: 'whole_word', pattern: 'shell', category_id: 'cat-gas' }),
+    ])
+
+    expect(result).toEqual({ categoryId: null, renameTo: null, ruleIds: [] })
+  })
+})
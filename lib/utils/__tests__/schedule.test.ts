@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addDays,
+  getFirstOccurrence,
+  getNextOccurrence,
+  listOccurrences,
+  type ScheduleRule,
+} from '../schedule'
+
+const rule = (overrides: Partial<ScheduleRule>): ScheduleRule => ({
+  frequency: 'monthly',
+  dayOfMonth: null,
+  startDate: '2026-01-01',
+  ...overrides,
+})
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2026-01-31', 1)).toBe('2026-02-01')
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01')
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28')
+  })
+})
+
+describe('getFirstOccurrence', () => {
+  it('starts interval schedules on their start date', () => {
+    expect(getFirstOccurrence(rule({ frequency: 'weekly', startDate: '2026-03-04' }), '2026-03-04')).toBe('2026-03-04')
+  })
+
+  it('keeps interval schedules on their cadence', () => {
+    const biweekly = rule({ frequency: 'biweekly', startDate: '2026-03-06' })
+    expect(getFirstOccurrence(biweekly, '2026-03-10')).toBe('2026-03-20')
+    expect(getFirstOccurrence(biweekly, '2026-03-20')).toBe('2026-03-20')
+  })
+
+  it('never returns a date before the start date', () => {
+    expect(getFirstOccurrence(rule({ frequency: 'daily', startDate: '2026-05-01' }), '2026-04-01')).toBe('2026-05-01')
+  })
+
+  it('moves a monthly schedule to next month when its day has passed', () => {
+    const monthly = rule({ dayOfMonth: 1, startDate: '2026-03-15' })
+    expect(getFirstOccurrence(monthly, '2026-03-15')).toBe('2026-04-01')
+  })
+
+  it('uses the day of month in the start month when it is still ahead', () => {
+    const monthly = rule({ dayOfMonth: 20, startDate: '2026-03-15' })
+    expect(getFirstOccurrence(monthly, '2026-03-15')).toBe('2026-03-20')
+  })
+
+  it('finds the last weekday of the month', () => {
+    // 2026-05-31 is a Sunday
+    expect(getFirstOccurrence(rule({ frequency: 'last_business_day', startDate: '2026-05-01' }), '2026-05-01')).toBe('2026-05-29')
+  })
+
+  it('rolls yearly schedules into the next year', () => {
+    const yearly = rule({ frequency: 'yearly', startDate: '2025-06-15' })
+    expect(getFirstOccurrence(yearly, '2026-07-01')).toBe('2027-06-15')
+  })
+})
+
+describe('getNextOccurrence', () => {
+  it('clamps monthly days to short months', () => {
+    const monthly = rule({ dayOfMonth: 31 })
+    expect(getNextOccurrence(monthly, '2026-01-31')).toBe('2026-02-28')
+    expect(getNextOccurrence(monthly, '2026-02-28')).toBe('2026-03-31')
+  })
+
+  it('keeps a Feb 29 yearly schedule on Feb 29 in leap years', () => {
+    const yearly = rule({ frequency: 'yearly', startDate: '2024-02-29' })
+    expect(getNextOccurrence(yearly, '2024-02-29')).toBe('2025-02-28')
+    expect(getNextOccurrence(yearly, '2027-02-28')).toBe('2028-02-29')
+  })
+
+  it('steps weekly schedules by seven days', () => {
+    expect(getNextOccurrence(rule({ frequency: 'weekly', startDate: '2026-03-04' }), '2026-03-04')).toBe('2026-03-11')
+  })
+})
+
+describe('listOccurrences', () => {
+  it('lists due dates through the given day', () => {
+    const weekly = rule({ frequency: 'weekly', startDate: '2026-03-02' })
+    expect(listOccurrences(weekly, '2026-03-02', '2026-03-20', null, 10)).toEqual([
+      '2026-03-02',
+      '2026-03-09',
+      '2026-03-16',
+    ])
+  })
+
+  it('stops at the end date', () => {
+    const daily = rule({ frequency: 'daily', startDate: '2026-03-01' })
+    expect(listOccurrences(daily, '2026-03-01', '2026-03-31', '2026-03-03', 10)).toEqual([
+      '2026-03-01',
+      '2026-03-02',
+      '2026-03-03',
+    ])
+  })
+
+  it('respects the limit', () => {
+    const daily = rule({ frequency: 'daily', startDate: '2026-03-01' })
+    expect(listOccurrences(daily, '2026-03-01', '2026-12-31', null, 2)).toHaveLength(2)
+  })
+
+  it('returns nothing when the next date is still ahead', () => {
+    expect(listOccurrences(rule({ dayOfMonth: 1 }), '2026-04-01', '2026-03-31', null, 10)).toEqual([])
+  })
+})
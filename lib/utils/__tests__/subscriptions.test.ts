@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addBillingPeriod,
+  estimateMonthlyCost,
+  findLatestScheduledCharge,
+  getSubscriptionState,
+  isSimilarAmount,
+} from '../subscriptions'
+
+describe('isSimilarAmount', () => {
+  it('accepts amounts within 10% of the reference', () => {
+    expect(isSimilarAmount(10.99, 10)).toBe(true)
+    expect(isSimilarAmount(9, 10)).toBe(true)
+  })
+
+  it('rejects amounts beyond 10% of the reference', () => {
+    expect(isSimilarAmount(11.5, 10)).toBe(false)
+    expect(isSimilarAmount(8.99, 10)).toBe(false)
+  })
+})
+
+describe('addBillingPeriod', () => {
+  it('adds a week, month or quarter', () => {
+    expect(addBillingPeriod('2026-01-28', 'weekly')).toBe('2026-02-04')
+    expect(addBillingPeriod('2026-01-31', 'monthly')).toBe('2026-02-28')
+    expect(addBillingPeriod('2026-11-15', 'quarterly')).toBe('2027-02-15')
+  })
+})
+
+describe('findLatestScheduledCharge', () => {
+  it('follows the charges on the billing schedule', () => {
+    const charges = [
+      { date: '2026-01-05', amount: 14.99 },
+      { date: '2026-02-06', amount: 14.99 },
+      { date: '2026-03-04', amount: 16.99 },
+    ]
+
+    expect(findLatestScheduledCharge(charges, 'monthly', 14.99, '2026-01-05', '2026-03-10')).toEqual(charges[2])
+  })
+
+  it('ignores other purchases and refunds from the same merchant', () => {
+    const charges = [
+      { date: '2026-01-05', amount: 14.99 },
+      { date: '2026-01-21', amount: 62.4 },
+      { date: '2026-01-24', amount: -62.4 },
+      { date: '2026-02-05', amount: 14.99 },
+      { date: '2026-02-19', amount: 8.5 },
+    ]
+
+    expect(findLatestScheduledCharge(charges, 'monthly', 14.99, '2026-01-05', '2026-02-25')).toEqual(charges[3])
+  })
+
+  it('follows a charge at the usual price when the billing day moves', () => {
+    const charges = [{ date: '2026-01-20', amount: 15.49 }]
+
+    expect(findLatestScheduledCharge(charges, 'monthly', 15.49, '2026-01-05', '2026-02-01')).toEqual(charges[0])
+  })
+
+  it('finds nothing when no charge has arrived since the last one', () => {
+    const charges = [{ date: '2026-02-18', amount: 40 }]
+
+    expect(findLatestScheduledCharge(charges, 'monthly', 14.99, '2026-01-05', '2026-03-10')).toBeNull()
+  })
+})
+
+describe('getSubscriptionState', () => {
+  it('is active until the expected charge is overdue', () => {
+    expect(getSubscriptionState('monthly', '2026-01-05', false, '2026-02-10')).toEqual({
+      state: 'active',
+      nextExpectedDate: '2026-02-05',
+    })
+  })
+
+  it('flags a missed charge once the grace period has passed', () => {
+    expect(getSubscriptionState('monthly', '2026-01-05', false, '2026-02-13')).toEqual({
+      state: 'missed',
+      nextExpectedDate: '2026-02-05',
+    })
+  })
+
+  it('treats two missed charges as cancelled', () => {
+    expect(getSubscriptionState('monthly', '2026-01-05', false, '2026-03-13').state).toBe('cancelled')
+  })
+
+  it('respects a subscription marked cancelled', () => {
+    expect(getSubscriptionState('weekly', '2026-03-01', true, '2026-03-02')).toEqual({
+      state: 'cancelled',
+      nextExpectedDate: null,
+    })
+  })
+})
+
+describe('estimateMonthlyCost', () => {
+  it('scales by frequency', () => {
+    expect(estimateMonthlyCost(10, 'weekly')).toBeCloseTo(43.3)
+    expect(estimateMonthlyCost(10, 'monthly')).toBe(10)
+    expect(estimateMonthlyCost(30, 'quarterly')).toBe(10)
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  classifyImportedTransaction,
+  getCategoryAllocations,
+  isExpenseTransaction,
+  isIncomeTransaction,
+  toStoredTransaction,
+} from '../transaction-helpers'
+
+describe('income, expense and transfer', () => {
+  it('should count transfers as neither income nor spending', () => {
+    const transfer = { type: 'transfer', category: null }
+    expect(isIncomeTransaction(transfer)).toBe(false)
+    expect(isExpenseTransaction(transfer)).toBe(false)
+  })
+
+  it('should count income by type or by an Income category', () => {
+    expect(isIncomeTransaction({ type: 'income', category: null })).toBe(true)
+    expect(isIncomeTransaction({ type: 'expense', category: { name: 'Income' } })).toBe(true)
+    expect(isExpenseTransaction({ type: 'expense', category: { name: 'Food' } })).toBe(true)
+  })
+})
+
+describe('classifyImportedTransaction', () => {
+  it('should classify money out as an expense', () => {
+    expect(classifyImportedTransaction({ amount: -42.5, description: 'GROCERY STORE' })).toBe('expense')
+  })
+
+  it('should classify money in as income', () => {
+    expect(classifyImportedTransaction({ amount: 1200, description: 'PAYROLL DEPOSIT' })).toBe('income')
+  })
+
+  it('should classify money in that looks like a refund as a refund', () => {
+    expect(classifyImportedTransaction({ amount: 19.99, description: 'AMAZON REFUND' })).toBe('refund')
+    expect(classifyImportedTransaction({ amount: 5, description: 'Return - Target' })).toBe('refund')
+  })
+})
+
+describe('toStoredTransaction', () => {
+  it('should store expenses as positive amounts', () => {
+    expect(toStoredTransaction(-42.5, 'expense')).toEqual({ amount: 42.5, type: 'expense' })
+  })
+
+  it('should store income as positive amounts', () => {
+    expect(toStoredTransaction(1200, 'income')).toEqual({ amount: 1200, type: 'income' })
+  })
+
+  it('should store refunds as negative expenses', () => {
+    expect(toStoredTransaction(19.99, 'refund')).toEqual({ amount: -19.99, type: 'expense' })
+  })
+})
+
+describe('getCategoryAllocations', () => {
+  it('should attribute an unsplit transaction to its category', () => {
+    expect(getCategoryAllocations({ category_id: 'cat-1', amount: 42.5, amount_cents: 4250 })).toEqual([
+      { categoryId: 'cat-1', amountCents: 4250 },
+    ])
+  })
+
+  it('should fall back to the dollar amount when cents are missing', () => {
+    expect(getCategoryAllocations({ category_id: 'cat-1', amount: 19.99, splits: [] })).toEqual([
+      { categoryId: 'cat-1', amountCents: 1999 },
+    ])
+  })
+
+  it('should attribute a split transaction by its split lines', () => {
+    expect(getCategoryAllocations({
+      category_id: null,
+      amount: 100,
+      amount_cents: 10000,
+      splits: [
+        { category_id: 'groceries', amount_cents: 6000 },
+        { category_id: 'household', amount_cents: 4000 },
+      ],
+    })).toEqual([
+      { categoryId: 'groceries', amountCents: 6000 },
+      { categoryId: 'household', amountCents: 4000 },
+    ])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodeCursor,
+  encodeCursor,
+  escapeLikePattern,
+  hasActiveFilters,
+  parseTransactionSearchParams,
+  toTransactionSearchQuery,
+} from '../transaction-search'
+
+describe('parseTransactionSearchParams', () => {
+  it('reads every filter from the URL', () => {
+    expect(parseTransactionSearchParams({
+      q: ' coffee ',
+      from: '2026-01-01',
+      to: '2026-01-31',
+      category: 'uncategorized',
+      type: 'expense',
+      min: '5',
+      max: '20.5',
+      sort: 'amount_desc',
+      cursor: 'abc',
+    })).toEqual({
+      search: 'coffee',
+      startDate: '2026-01-01',
+      endDate: '2026-01-31',
+      categoryId: 'uncategorized',
+      type: 'expense',
+      minAmount: 5,
+      maxAmount: 20.5,
+      sort: 'amount_desc',
+      cursor: 'abc',
+    })
+  })
+
+  it('drops values that do not parse', () => {
+    expect(parseTransactionSearchParams({
+      from: 'yesterday',
+      type: 'bogus',
+      min: 'lots',
+      sort: 'random',
+      q: ['tea', 'coffee'],
+    })).toEqual({ search: 'tea' })
+  })
+})
+
+describe('toTransactionSearchQuery', () => {
+  it('round-trips through the URL', () => {
+    const filters = { search: 'rent & fees', minAmount: 100, type: 'expense' as const, sort: 'date_asc' as const }
+    const query = toTransactionSearchQuery(filters)
+    expect(parseTransactionSearchParams(Object.fromEntries(new URLSearchParams(query)))).toEqual(filters)
+  })
+
+  it('leaves out empty values and the default sort', () => {
+    expect(toTransactionSearchQuery({ search: '', sort: 'date_desc' })).toBe('')
+  })
+})
+
+describe('hasActiveFilters', () => {
+  it('ignores sort and cursor', () => {
+    expect(hasActiveFilters({ sort: 'amount_asc', cursor: 'abc' })).toBe(false)
+    expect(hasActiveFilters({ categoryId: 'uncategorized' })).toBe(true)
+  })
+})
+
+describe('escapeLikePattern', () => {
+  it('matches wildcards literally', () => {
+    expect(escapeLikePattern('50%_off\\')).toBe('50\\%\\_off\\\\')
+  })
+})
+
+describe('cursors', () => {
+  const cursor = {
+    id: '11111111-1111-4111-8111-111111111111',
+    date: '2026-01-15',
+    created_at: '2026-01-15T10:00:00+00:00',
+    amount_cents: 1234,
+  }
+
+  it('round-trips a page position', () => {
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor)
+  })
+
+  it('rejects tampered cursors', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull()
+    expect(decodeCursor(encodeCursor({ ...cursor, id: "x') OR 1=1" }))).toBeNull()
+  })
+})
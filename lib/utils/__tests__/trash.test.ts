@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest'
+import { getDaysUntilPurge, getTrashPurgeCutoff, TRASH_RETENTION_DAYS } from '../trash'
+
+const now = new Date('2026-03-31T12:00:00.000Z')
+
+describe('trash retention', () => {
+  it('purges what was deleted more than the retention period ago', () => {
+    expect(TRASH_RETENTION_DAYS).toBe(30)
+    expect(getTrashPurgeCutoff(now)).toBe('2026-03-01T12:00:00.000Z')
+  })
+
+  it('counts down the days until an item is purged', () => {
+    expect(getDaysUntilPurge('2026-03-31T12:00:00.000Z', now)).toBe(30)
+    expect(getDaysUntilPurge('2026-03-02T00:00:00.000Z', now)).toBe(1)
+    expect(getDaysUntilPurge('2026-02-01T00:00:00.000Z', now)).toBe(0)
+  })
+})
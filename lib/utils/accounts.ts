@@ -0,0 +1,44 @@
+/**
+ * Account balances: how each transaction moves money in or out of the
+ * accounts it touches.
+ */
+import { dollarsToCents } from '@/lib/utils/money'
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash'
+
+export const ACCOUNT_TYPES: AccountType[] = ['checking', 'savings', 'credit_card', 'cash']
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit_card: 'Credit card',
+  cash: 'Cash',
+}
+
+type BalanceTransaction = {
+  account_id: string
+  transfer_account_id?: string | null
+  type: string
+  amount: number
+  amount_cents?: number | null
+}
+
+/**
+ * How much a transaction changes an account's balance, in cents.
+ * Income adds, expenses subtract (so refunds, being negative, add back),
+ * and a transfer leaves its account and arrives in transfer_account_id.
+ *
+ * @returns 0 when the transaction doesn't touch the account
+ */
+export function getBalanceChange(transaction: BalanceTransaction, accountId: string): number {
+  const cents = transaction.amount_cents ?? dollarsToCents(transaction.amount)
+
+  if (transaction.type === 'transfer') {
+    if (transaction.account_id === accountId) return -cents
+    if (transaction.transfer_account_id === accountId) return cents
+    return 0
+  }
+
+  if (transaction.account_id !== accountId) return 0
+  return transaction.type === 'income' ? cents : -cents
+}
@@ -0,0 +1,177 @@
+/**
+ * Describing audit log entries: what was changed, by whom, and how.
+ *
+ * Entries keep whole rows, so the fields shown here can grow without
+ * touching the log.
+ */
+
+import { formatMoney, dollarsToCents } from './money'
+import type { AuditLogEntry } from '@/lib/types'
+
+export type AuditTable = 'transactions' | 'monthly_budgets' | 'categories' | 'category_keywords'
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  transactions: 'Transaction',
+  monthly_budgets: 'Budget',
+  categories: 'Category',
+  category_keywords: 'Keyword',
+}
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  create: 'Added',
+  update: 'Changed',
+  delete: 'Deleted',
+}
+
+/**
+ * Names to show in place of IDs.
+ */
+export type AuditLookups = {
+  accountNames: Map<string, string>
+  categoryNames: Map<string, string>
+  memberNames: Map<string, string>
+}
+
+type FieldKind = 'text' | 'money' | 'account' | 'category'
+
+// The fields worth showing in a change, per table
+const AUDITED_FIELDS: Record<AuditTable, { key: string; label: string; kind: FieldKind }[]> = {
+  transactions: [
+    { key: 'date', label: 'Date', kind: 'text' },
+    { key: 'description', label: 'Description', kind: 'text' },
+    { key: 'amount_cents', label: 'Amount', kind: 'money' },
+    { key: 'type', label: 'Type', kind: 'text' },
+    { key: 'category_id', label: 'Category', kind: 'category' },
+    { key: 'account_id', label: 'Account', kind: 'account' },
+    { key: 'transfer_account_id', label: 'To account', kind: 'account' },
+  ],
+  monthly_budgets: [
+    { key: 'month', label: 'Month', kind: 'text' },
+    { key: 'budgeted_amount_cents', label: 'Budgeted', kind: 'money' },
+    { key: 'category_id', label: 'Category', kind: 'category' },
+  ],
+  categories: [
+    { key: 'name', label: 'Name', kind: 'text' },
+    { key: 'color', label: 'Color', kind: 'text' },
+    { key: 'rollover_policy', label: 'Rollover', kind: 'text' },
+    { key: 'rollover_cap_cents', label: 'Rollover cap', kind: 'money' },
+  ],
+  category_keywords: [
+    { key: 'keyword', label: 'Keyword', kind: 'text' },
+    { key: 'category_id', label: 'Category', kind: 'category' },
+  ],
+}
+
+type AuditRow = Record<string, unknown>
+
+const asRow = (values: AuditLogEntry['before_values']): AuditRow | null =>
+  values && typeof values === 'object' && !Array.isArray(values) ? (values as AuditRow) : null
+
+/**
+ * The row as it was before the change (missing for creates)
+ */
+export function getBeforeRow(entry: AuditLogEntry): AuditRow | null {
+  return asRow(entry.before_values)
+}
+
+/**
+ * The row as it was after the change (missing for deletes)
+ */
+export function getAfterRow(entry: AuditLogEntry): AuditRow | null {
+  return asRow(entry.after_values)
+}
+
+// Updates that move a record in or out of the trash or the archive
+const STATE_CHANGE_LABELS: { key: string; set: string; cleared: string }[] = [
+  { key: 'deleted_at', set: 'Moved to trash', cleared: 'Restored' },
+  { key: 'archived_at', set: 'Archived', cleared: 'Unarchived' },
+]
+
+/**
+ * What an entry did, in words. Trashing, restoring and archiving are
+ * updates to the row, but are told apart from other changes.
+ */
+export function getAuditActionLabel(entry: AuditLogEntry): string {
+  const before = getBeforeRow(entry)
+  const after = getAfterRow(entry)
+  if (entry.action === 'update' && before && after) {
+    for (const { key, set, cleared } of STATE_CHANGE_LABELS) {
+      const wasSet = before[key] != null
+      const isSet = after[key] != null
+      if (wasSet !== isSet) return isSet ? set : cleared
+    }
+  }
+  return AUDIT_ACTION_LABELS[entry.action] ?? entry.action
+}
+
+function formatValue(kind: FieldKind, value: unknown, lookups: AuditLookups): string {
+  if (value === null || value === undefined || value === '') return '—'
+  switch (kind) {
+    case 'money':
+      return formatMoney(Number(value))
+    case 'account':
+      return lookups.accountNames.get(String(value)) ?? 'Deleted account'
+    case 'category':
+      return lookups.categoryNames.get(String(value)) ?? 'Deleted category'
+    default:
+      return String(value)
+  }
+}
+
+export type AuditChange = {
+  label: string
+  before: string
+  after: string
+}
+
+/**
+ * The shown fields an update changed, with their old and new values.
+ * Creates and deletes have none: the whole record is described instead.
+ */
+export function getAuditChanges(entry: AuditLogEntry, lookups: AuditLookups): AuditChange[] {
+  const before = getBeforeRow(entry)
+  const after = getAfterRow(entry)
+  const fields = AUDITED_FIELDS[entry.table_name as AuditTable]
+  if (!before || !after || !fields) return []
+
+  return fields
+    .filter(({ key }) => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null))
+    .map(({ key, label, kind }) => ({
+      label,
+      before: formatValue(kind, before[key], lookups),
+      after: formatValue(kind, after[key], lookups),
+    }))
+}
+
+/**
+ * A short description of the record an entry is about, as it was last seen
+ */
+export function describeAuditRecord(entry: AuditLogEntry, lookups: AuditLookups): string {
+  const row = getAfterRow(entry) ?? getBeforeRow(entry)
+  if (!row) return AUDIT_TABLE_LABELS[entry.table_name as AuditTable] ?? entry.table_name
+
+  const category = formatValue('category', row.category_id, lookups)
+  switch (entry.table_name as AuditTable) {
+    case 'transactions': {
+      const cents = typeof row.amount_cents === 'number' ? row.amount_cents : dollarsToCents(Number(row.amount))
+      return `${row.description || 'Transaction'} · ${formatMoney(cents)} on ${row.date}`
+    }
+    case 'monthly_budgets':
+      return `${category} budget for ${row.month}`
+    case 'categories':
+      return String(row.name)
+    case 'category_keywords':
+      return `"${row.keyword}" for ${category}`
+    default:
+      return entry.table_name
+  }
+}
+
+/**
+ * Who made a change. Changes from before household members existed, and
+ * ones the app made on its own, have no actor.
+ */
+export function getAuditActorName(entry: AuditLogEntry, { memberNames }: AuditLookups): string {
+  if (!entry.actor_id) return 'Someone'
+  return memberNames.get(entry.actor_id) ?? 'A removed member'
+}
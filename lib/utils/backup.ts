@@ -0,0 +1,376 @@
+/**
+ * Converting between a household's rows and a backup archive.
+ *
+ * Restores give every row a new ID, so an archive can be restored next to
+ * the household it came from (or twice) without clashing primary keys.
+ */
+
+import { dollarsToCents, centsToDollars } from './money'
+import { BACKUP_SCHEMA_VERSION, type HouseholdBackup } from '@/lib/schemas/backup'
+import type {
+  Account,
+  BudgetMove,
+  CategorizationRule,
+  Category,
+  CategoryKeyword,
+  GoalContribution,
+  Household,
+  HouseholdMember,
+  MerchantAlias,
+  MerchantPattern,
+  MonthlyBudget,
+  SavingsGoal,
+  ScheduledTransaction,
+  Subscription,
+  Transaction,
+  TransactionSplit,
+} from '@/lib/types'
+
+/**
+ * Everything a backup is built from.
+ */
+export type HouseholdRows = {
+  household: Pick<Household, 'name' | 'timezone' | 'auto_rollover_budget' | 'zero_based_start_month'>
+  members: Pick<HouseholdMember, 'id' | 'name'>[]
+  accounts: Account[]
+  categories: Category[]
+  keywords: CategoryKeyword[]
+  merchantPatterns: MerchantPattern[]
+  monthlyBudgets: MonthlyBudget[]
+  budgetMoves: BudgetMove[]
+  rules: CategorizationRule[]
+  merchantAliases: MerchantAlias[]
+  scheduledTransactions: ScheduledTransaction[]
+  subscriptions: Subscription[]
+  goals: SavingsGoal[]
+  goalContributions: GoalContribution[]
+  transactions: Transaction[]
+  splits: TransactionSplit[]
+}
+
+// Omit nulls: the archive's optional fields are absent rather than null
+const optional = <T>(value: T | null): T | undefined => value ?? undefined
+
+/**
+ * Build a backup archive from a household's rows. What's in the trash is
+ * left out, along with anything that only belongs to a trashed category:
+ * rules that would do nothing and scheduled expenses that need one.
+ * Goals linked to a trashed category stop budgeting for it.
+ */
+export function buildHouseholdBackup(rows: HouseholdRows, exportedAt: string): HouseholdBackup {
+  const categories = rows.categories.filter((category) => !category.deleted_at)
+  const categoryIds = new Set(categories.map((category) => category.id))
+  const keptCategory = (id: string | null) => (id !== null && categoryIds.has(id) ? id : undefined)
+  const memberIds = new Set(rows.members.map((member) => member.id))
+  const keptMember = (id: string | null) => (id !== null && memberIds.has(id) ? id : undefined)
+
+  const scheduledTransactions = rows.scheduledTransactions.filter(
+    (schedule) => schedule.type === 'income' || keptCategory(schedule.category_id)
+  )
+  const scheduleIds = new Set(scheduledTransactions.map((schedule) => schedule.id))
+
+  const splitsByTransaction = new Map<string, TransactionSplit[]>()
+  for (const split of rows.splits) {
+    const lines = splitsByTransaction.get(split.transaction_id) ?? []
+    lines.push(split)
+    splitsByTransaction.set(split.transaction_id, lines)
+  }
+
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt,
+    settings: {
+      name: rows.household.name,
+      timezone: rows.household.timezone,
+      autoRolloverBudget: rows.household.auto_rollover_budget,
+      zeroBasedStartMonth: optional(rows.household.zero_based_start_month ?? null),
+    },
+    members: rows.members.map((member) => ({ id: member.id, name: member.name })),
+    accounts: rows.accounts.map((account) => ({
+      id: account.id,
+      name: account.name,
+      type: account.type as HouseholdBackup['accounts'][number]['type'],
+      openingBalance: centsToDollars(account.opening_balance_cents),
+      isDefault: account.is_default,
+    })),
+    categories: categories.map((category) => ({
+      id: category.id,
+      name: category.name,
+      color: category.color,
+      rollover: {
+        policy: category.rollover_policy as HouseholdBackup['categories'][number]['rollover']['policy'],
+        capAmount: category.rollover_cap_cents === null ? null : centsToDollars(category.rollover_cap_cents),
+      },
+      ...(category.archived_at && { archived: true }),
+      parentId: keptCategory(category.parent_id),
+      sortOrder: category.sort_order,
+    })),
+    keywords: rows.keywords.filter((keyword) => categoryIds.has(keyword.category_id)).map((keyword) => ({
+      categoryId: keyword.category_id,
+      keyword: keyword.keyword,
+    })),
+    merchantPatterns: rows.merchantPatterns.filter((pattern) => categoryIds.has(pattern.category_id)).map((pattern) => ({
+      categoryId: pattern.category_id,
+      merchantName: pattern.merchant_name,
+      matchCount: pattern.match_count,
+      lastUsedAt: pattern.last_used_at,
+    })),
+    monthlyBudgets: rows.monthlyBudgets.filter((budget) => categoryIds.has(budget.category_id)).map((budget) => ({
+      categoryId: budget.category_id,
+      month: budget.month,
+      amount: centsToDollars(budget.budgeted_amount_cents),
+      createdBy: keptMember(budget.created_by),
+      updatedBy: keptMember(budget.updated_by),
+    })),
+    budgetMoves: rows.budgetMoves.map((move) => ({
+      month: move.month,
+      fromCategoryId: keptCategory(move.from_category_id),
+      toCategoryId: keptCategory(move.to_category_id),
+      amount: centsToDollars(move.amount_cents),
+      note: optional(move.note),
+      createdBy: keptMember(move.created_by),
+      createdAt: move.created_at ?? exportedAt,
+    })),
+    rules: rows.rules.filter((rule) => keptCategory(rule.category_id) || rule.rename_to).map((rule) => ({
+      priority: rule.priority,
+      matchType: rule.match_type as HouseholdBackup['rules'][number]['matchType'],
+      pattern: rule.pattern,
+      minAmount: rule.min_amount,
+      maxAmount: rule.max_amount,
+      transactionType: rule.transaction_type as HouseholdBackup['rules'][number]['transactionType'],
+      categoryId: keptCategory(rule.category_id) ?? null,
+      renameTo: rule.rename_to,
+      enabled: rule.enabled,
+    })),
+    merchantAliases: rows.merchantAliases.map((alias) => ({
+      matchText: alias.match_text,
+      displayName: alias.display_name,
+    })),
+    scheduledTransactions: scheduledTransactions.map((schedule) => ({
+      id: schedule.id,
+      categoryId: keptCategory(schedule.category_id) ?? null,
+      amount: centsToDollars(schedule.amount_cents),
+      description: schedule.description,
+      type: schedule.type as HouseholdBackup['scheduledTransactions'][number]['type'],
+      frequency: schedule.frequency as HouseholdBackup['scheduledTransactions'][number]['frequency'],
+      dayOfMonth: schedule.day_of_month,
+      startDate: schedule.start_date,
+      endDate: schedule.end_date,
+      nextDate: schedule.next_date,
+      mode: schedule.mode as HouseholdBackup['scheduledTransactions'][number]['mode'],
+    })),
+    subscriptions: rows.subscriptions.map((subscription) => ({
+      merchant: subscription.merchant,
+      displayName: subscription.display_name,
+      amount: centsToDollars(subscription.amount_cents),
+      frequency: subscription.frequency as HouseholdBackup['subscriptions'][number]['frequency'],
+      lastChargeDate: subscription.last_charge_date,
+      categoryId: keptCategory(subscription.category_id) ?? null,
+      status: subscription.status as HouseholdBackup['subscriptions'][number]['status'],
+    })),
+    goals: rows.goals.map((goal) => ({
+      id: goal.id,
+      name: goal.name,
+      targetAmount: centsToDollars(goal.target_amount_cents),
+      startDate: goal.start_date,
+      targetDate: goal.target_date,
+      categoryId: keptCategory(goal.category_id) ?? null,
+      autoBudget: goal.auto_budget && keptCategory(goal.category_id) !== undefined,
+    })),
+    goalContributions: rows.goalContributions.map((contribution) => ({
+      goalId: contribution.goal_id,
+      amount: centsToDollars(contribution.amount_cents),
+      date: contribution.date,
+      note: optional(contribution.note),
+    })),
+    transactions: rows.transactions.filter((t) => !t.deleted_at).map((t) => {
+      const splits = splitsByTransaction.get(t.id)
+      return {
+        id: t.id,
+        accountId: t.account_id,
+        transferAccountId: optional(t.transfer_account_id),
+        categoryId: keptCategory(t.category_id),
+        amount: centsToDollars(t.amount_cents),
+        description: optional(t.description),
+        date: t.date,
+        type: t.type as HouseholdBackup['transactions'][number]['type'],
+        sourceFingerprint: optional(t.source_fingerprint),
+        scheduledTransactionId:
+          t.scheduled_transaction_id !== null && scheduleIds.has(t.scheduled_transaction_id)
+            ? t.scheduled_transaction_id
+            : undefined,
+        scheduledDate: optional(t.scheduled_date),
+        createdBy: keptMember(t.created_by),
+        updatedBy: keptMember(t.updated_by),
+        splits: splits?.map((split) => ({
+          categoryId: keptCategory(split.category_id),
+          amount: centsToDollars(split.amount_cents),
+          memo: optional(split.memo),
+        })),
+      }
+    }),
+  }
+}
+
+/**
+ * A validated archive as rows for the restore_household_backup function,
+ * with every ID replaced and references updated to match. Members get new
+ * IDs too; the function swaps them for the household's members of the
+ * same name.
+ *
+ * @param newId Generates the replacement IDs
+ */
+export function toRestoreRows(backup: HouseholdBackup, newId: () => string = () => crypto.randomUUID()) {
+  const ids = new Map<string, string>()
+  const remap = (id: string) => {
+    let mapped = ids.get(id)
+    if (!mapped) {
+      mapped = newId()
+      ids.set(id, mapped)
+    }
+    return mapped
+  }
+  const remapOptional = (id: string | null | undefined) => (id == null ? null : remap(id))
+
+  const transactions = backup.transactions.map((t) => ({ ...t, id: remap(t.id) }))
+
+  return {
+    settings: {
+      name: backup.settings.name,
+      timezone: backup.settings.timezone,
+      auto_rollover_budget: backup.settings.autoRolloverBudget,
+      zero_based_start_month: backup.settings.zeroBasedStartMonth ?? null,
+    },
+    members: backup.members.map((member) => ({ id: remap(member.id), name: member.name })),
+    accounts: backup.accounts.map((account) => ({
+      id: remap(account.id),
+      name: account.name,
+      type: account.type,
+      opening_balance: account.openingBalance,
+      opening_balance_cents: dollarsToCents(account.openingBalance),
+      is_default: account.isDefault,
+    })),
+    categories: backup.categories.map((category) => ({
+      id: remap(category.id),
+      name: category.name,
+      color: category.color,
+      rollover_policy: category.rollover.policy,
+      rollover_cap_cents:
+        category.rollover.policy === 'cap' && category.rollover.capAmount != null
+          ? dollarsToCents(category.rollover.capAmount)
+          : null,
+      archived_at: category.archived ? backup.exportedAt : null,
+      parent_id: remapOptional(category.parentId ?? undefined),
+      sort_order: category.sortOrder ?? 0,
+    })),
+    keywords: backup.keywords.map((keyword) => ({
+      category_id: remap(keyword.categoryId),
+      keyword: keyword.keyword.toLowerCase(),
+    })),
+    merchant_patterns: backup.merchantPatterns.map((pattern) => ({
+      category_id: remap(pattern.categoryId),
+      merchant_name: pattern.merchantName,
+      match_count: pattern.matchCount,
+      last_used_at: pattern.lastUsedAt,
+    })),
+    monthly_budgets: backup.monthlyBudgets.map((budget) => ({
+      category_id: remap(budget.categoryId),
+      month: budget.month,
+      budgeted_amount: budget.amount,
+      budgeted_amount_cents: dollarsToCents(budget.amount),
+      created_by: remapOptional(budget.createdBy),
+      updated_by: remapOptional(budget.updatedBy),
+    })),
+    budget_moves: backup.budgetMoves.map((move) => ({
+      month: move.month,
+      from_category_id: remapOptional(move.fromCategoryId),
+      to_category_id: remapOptional(move.toCategoryId),
+      amount: move.amount,
+      amount_cents: dollarsToCents(move.amount),
+      note: move.note ?? null,
+      created_by: remapOptional(move.createdBy),
+      created_at: move.createdAt,
+    })),
+    rules: backup.rules.map((rule) => ({
+      priority: rule.priority,
+      match_type: rule.matchType,
+      pattern: rule.pattern,
+      min_amount: rule.minAmount ?? null,
+      max_amount: rule.maxAmount ?? null,
+      transaction_type: rule.transactionType ?? null,
+      category_id: remapOptional(rule.categoryId),
+      rename_to: rule.renameTo || null,
+      enabled: rule.enabled,
+    })),
+    merchant_aliases: backup.merchantAliases.map((alias) => ({
+      match_text: alias.matchText,
+      display_name: alias.displayName,
+    })),
+    scheduled_transactions: backup.scheduledTransactions.map((schedule) => ({
+      id: remap(schedule.id),
+      category_id: remapOptional(schedule.categoryId),
+      amount: schedule.amount,
+      amount_cents: dollarsToCents(schedule.amount),
+      description: schedule.description || null,
+      type: schedule.type,
+      frequency: schedule.frequency,
+      day_of_month: schedule.dayOfMonth ?? null,
+      start_date: schedule.startDate,
+      end_date: schedule.endDate ?? null,
+      next_date: schedule.nextDate,
+      mode: schedule.mode,
+    })),
+    subscriptions: backup.subscriptions.map((subscription) => ({
+      merchant: subscription.merchant,
+      display_name: subscription.displayName,
+      amount: subscription.amount,
+      amount_cents: dollarsToCents(subscription.amount),
+      frequency: subscription.frequency,
+      status: subscription.status,
+      category_id: remapOptional(subscription.categoryId),
+      last_charge_date: subscription.lastChargeDate,
+    })),
+    savings_goals: backup.goals.map((goal) => ({
+      id: remap(goal.id),
+      name: goal.name,
+      target_amount: goal.targetAmount,
+      target_amount_cents: dollarsToCents(goal.targetAmount),
+      start_date: goal.startDate,
+      target_date: goal.targetDate,
+      category_id: remapOptional(goal.categoryId),
+      auto_budget: goal.autoBudget,
+    })),
+    goal_contributions: backup.goalContributions.map((contribution) => ({
+      goal_id: remap(contribution.goalId),
+      amount: contribution.amount,
+      amount_cents: dollarsToCents(contribution.amount),
+      date: contribution.date,
+      note: contribution.note || null,
+    })),
+    transactions: transactions.map((t) => ({
+      id: t.id,
+      account_id: remap(t.accountId),
+      transfer_account_id: remapOptional(t.transferAccountId),
+      category_id: remapOptional(t.categoryId),
+      amount: t.amount,
+      amount_cents: dollarsToCents(t.amount),
+      description: t.description ?? null,
+      date: t.date,
+      type: t.type,
+      source_fingerprint: t.sourceFingerprint ?? null,
+      scheduled_transaction_id: remapOptional(t.scheduledTransactionId),
+      scheduled_date: t.scheduledDate ?? null,
+      created_by: remapOptional(t.createdBy),
+      updated_by: remapOptional(t.updatedBy),
+    })),
+    splits: transactions.flatMap((t) => (t.splits ?? []).map((split) => ({
+      transaction_id: t.id,
+      category_id: remapOptional(split.categoryId),
+      amount: split.amount,
+      amount_cents: dollarsToCents(split.amount),
+      memo: split.memo ?? null,
+    }))),
+  }
+}
+
+export type RestoreRows = ReturnType<typeof toRestoreRows>
@@ -0,0 +1,424 @@
+/**
+ * Date layouts found in bank CSV exports.
+ */
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'MM/DD/YY' | 'DD/MM/YYYY'
+
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'MM/DD/YY', 'DD/MM/YYYY']
+
+/**
+ * How a bank signs its single amount column.
+ * - `negative-is-debit`: money leaving the account is negative (Ally, Chase)
+ * - `positive-is-debit`: purchases are positive, payments negative (Amex, Discover)
+ */
+export type SignConvention = 'negative-is-debit' | 'positive-is-debit'
+
+/**
+ * Describes where each field lives in a CSV layout.
+ *
+ * Column names are matched case-insensitively against the header row. For
+ * files without a header row, columns are named `Column 1`, `Column 2`, ...
+ * Either `amountColumn` or at least one of `debitColumn`/`creditColumn` must be set.
+ */
+export type ColumnMapping = {
+  /** Whether the first row is a header row */
+  hasHeader: boolean
+  dateColumn: string
+  /** Date the bank posted the transaction, when it differs from `dateColumn` */
+  postedDateColumn?: string
+  descriptionColumn: string
+  /** Single signed amount column */
+  amountColumn?: string
+  /** Separate column for money leaving the account */
+  debitColumn?: string
+  /** Separate column for money entering the account */
+  creditColumn?: string
+  /** Optional extra details kept alongside the description */
+  memoColumn?: string
+  dateFormat: DateFormat
+  /** Only used with `amountColumn`; debit/credit columns are unsigned */
+  signConvention: SignConvention
+}
+
+/**
+ * A known bank export layout.
+ */
+export type BankFormatProfile = {
+  id: string
+  /** Human-readable name shown in the import wizard */
+  name: string
+  mapping: ColumnMapping
+  /**
+   * Returns true when the first row of the file looks like this bank's export.
+   * For header-based profiles this is the header row; for headerless profiles
+   * it is the first data row.
+   */
+  detect: (firstRow: string[]) => boolean
+}
+
+/**
+ * A column mapping the household saved for a header layout.
+ */
+export type SavedColumnMapping = {
+  /** Identifies the header layout; see `getHeaderSignature` */
+  headerSignature: string
+  mapping: ColumnMapping
+}
+
+/**
+ * Result of auto-detecting a file's layout.
+ */
+export type DetectedFormat = {
+  profile: BankFormatProfile
+  /** The profile's mapping, with the date format inferred for generic profiles */
+  mapping: ColumnMapping
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase()
+
+function hasHeaders(row: string[], required: string[]): boolean {
+  const headers = new Set(row.map(normalizeHeader))
+  return required.every(header => headers.has(header.toLowerCase()))
+}
+
+/**
+ * Whether a header row is American Express's minimal export: exactly
+ * Date, Description, Amount. Amex signs purchases positive, while other
+ * banks' files with the same columns sign them negative, and nothing in the
+ * file tells which it is. Guessing wrong imports every purchase as income,
+ * so these files go to the mapping step, where the sign is chosen.
+ */
+function isAmbiguousSignLayout(row: string[]): boolean {
+  return row.map(normalizeHeader).join('|') === 'date|description|amount'
+}
+
+/**
+ * Name given to a column in a file without a header row.
+ */
+export function getPositionalColumnName(index: number): string {
+  return `Column ${index + 1}`
+}
+
+/**
+ * Built-in bank export layouts, checked in order during auto-detection.
+ * Specific banks come first; the generic layouts are fallbacks.
+ */
+export const BANK_FORMAT_PROFILES: BankFormatProfile[] = [
+  {
+    id: 'ally',
+    name: 'Ally Bank',
+    mapping: {
+      hasHeader: true,
+      dateColumn: 'Date',
+      amountColumn: 'Amount',
+      descriptionColumn: 'Description',
+      dateFormat: 'YYYY-MM-DD',
+      signConvention: 'negative-is-debit',
+    },
+    detect: (row) => hasHeaders(row, ['Date', 'Time', 'Amount', 'Type', 'Description']),
+  },
+  {
+    id: 'chase-credit',
+    name: 'Chase Credit Card',
+    mapping: {
+      hasHeader: true,
+      dateColumn: 'Transaction Date',
+      postedDateColumn: 'Post Date',
+      amountColumn: 'Amount',
+      descriptionColumn: 'Description',
+      dateFormat: 'MM/DD/YYYY',
+      signConvention: 'negative-is-debit',
+    },
+    detect: (row) => hasHeaders(row, ['Transaction Date', 'Post Date', 'Description', 'Amount']),
+  },
+  {
+    id: 'chase-checking',
+    name: 'Chase Checking',
+    mapping: {
+      hasHeader: true,
+      dateColumn: 'Posting Date',
+      amountColumn: 'Amount',
+      descriptionColumn: 'Description',
+      dateFormat: 'MM/DD/YYYY',
+      signConvention: 'negative-is-debit',
+    },
+    detect: (row) => hasHeaders(row, ['Details', 'Posting Date', 'Description', 'Amount']),
+  },
+  {
+    id: 'capital-one',
+    name: 'Capital One',
+    mapping: {
+      hasHeader: true,
+      dateColumn: 'Transaction Date',
+      postedDateColumn: 'Posted Date',
+      debitColumn: 'Debit',
+      creditColumn: 'Credit',
+      descriptionColumn: 'Description',
+      dateFormat: 'YYYY-MM-DD',
+      signConvention: 'negative-is-debit',
+    },
+    detect: (row) => hasHeaders(row, ['Transaction Date', 'Posted Date', 'Description', 'Debit', 'Credit']),
+  },
+  {
+    id: 'discover',
+    name: 'Discover',
+    mapping: {
+      hasHeader: true,
+      dateColumn: 'Trans. Date',
+      postedDateColumn: 'Post Date',
+      amountColumn: 'Amount',
+      descriptionColumn: 'Description',
+      dateFormat: 'MM/DD/YYYY',
+      signConvention: 'positive-is-debit',
+    },
+    detect: (row) => hasHeaders(row, ['Trans. Date', 'Post Date', 'Description', 'Amount']),
+  },
+  {
+    id: 'amex',
+    name: 'American Express',
+    mapping: {
+      hasHeader: true,
+      dateColumn: 'Date',
+      amountColumn: 'Amount',
+      descriptionColumn: 'Description',
+      dateFormat: 'MM/DD/YYYY',
+      signConvention: 'positive-is-debit',
+    },
+    // Only Card Member sets Amex apart; its minimal export is mapped by hand
+    // (see isAmbiguousSignLayout)
+    detect: (row) => hasHeaders(row, ['Date', 'Description', 'Amount', 'Card Member']),
+  },
+  {
+    id: 'wells-fargo',
+    name: 'Wells Fargo',
+    // Wells Fargo exports have no header row:
+    // "01/15/2024","-45.67","*","","PURCHASE AUTHORIZED ON 01/14 ..."
+    mapping: {
+      hasHeader: false,
+      dateColumn: getPositionalColumnName(0),
+      amountColumn: getPositionalColumnName(1),
+      descriptionColumn: getPositionalColumnName(4),
+      dateFormat: 'MM/DD/YYYY',
+      signConvention: 'negative-is-debit',
+    },
+    detect: (row) =>
+      row.length === 5 &&
+      parseDateString(row[0], 'MM/DD/YYYY') !== null &&
+      !isNaN(parseAmountString(row[1])) &&
+      row[2].trim() === '*',
+  },
+  {
+    id: 'generic-debit-credit',
+    name: 'Generic (Date, Description, Debit, Credit)',
+    mapping: {
+      hasHeader: true,
+      dateColumn: 'Date',
+      debitColumn: 'Debit',
+      creditColumn: 'Credit',
+      descriptionColumn: 'Description',
+      dateFormat: 'YYYY-MM-DD',
+      signConvention: 'negative-is-debit',
+    },
+    detect: (row) => hasHeaders(row, ['Date', 'Description', 'Debit', 'Credit']),
+  },
+  {
+    id: 'generic',
+    name: 'Generic (Date, Amount, Description)',
+    mapping: {
+      hasHeader: true,
+      dateColumn: 'Date',
+      amountColumn: 'Amount',
+      descriptionColumn: 'Description',
+      dateFormat: 'YYYY-MM-DD',
+      signConvention: 'negative-is-debit',
+    },
+    detect: (row) => hasHeaders(row, ['Date', 'Amount', 'Description']) && !isAmbiguousSignLayout(row),
+  },
+]
+
+const GENERIC_PROFILE_IDS = new Set(['generic', 'generic-debit-credit'])
+
+/**
+ * Find the column index for a mapped column name, or -1 if absent.
+ */
+export function findColumnIndex(headers: string[], column: string): number {
+  const target = normalizeHeader(column)
+  return headers.findIndex(header => normalizeHeader(header) === target)
+}
+
+/**
+ * Parse a date string in the given format into YYYY-MM-DD.
+ *
+ * Returns null if the value does not match the format or isn't a real
+ * calendar date (e.g. 02/31).
+ *
+ * @example
+ * ```typescript
+ * parseDateString('1/5/2024', 'MM/DD/YYYY') // '2024-01-05'
+ * parseDateString('2024-01-05', 'MM/DD/YYYY') // null
+ * ```
+ */
+export function parseDateString(value: string, format: DateFormat): string | null {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+
+  if (format === 'YYYY-MM-DD') {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed)
+    if (!match) return null
+    // Matches the original Ally parser, which lets Date roll over values like Feb 30
+    if (isNaN(new Date(trimmed).getTime())) return null
+    return trimmed
+  }
+
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(trimmed)
+  if (!match) return null
+
+  const [, first, second, yearPart] = match
+  if (format === 'MM/DD/YY' ? yearPart.length !== 2 : yearPart.length !== 4) {
+    return null
+  }
+
+  const year = yearPart.length === 2 ? 2000 + parseInt(yearPart, 10) : parseInt(yearPart, 10)
+  const dayFirst = format === 'DD/MM/YYYY'
+  const month = parseInt(dayFirst ? second : first, 10)
+  const day = parseInt(dayFirst ? first : second, 10)
+
+  // Days past the end of the month (02/31) would roll over into the next
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) return null
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Parse a bank amount string into a signed number.
+ *
+ * Strips currency symbols, thousands separators and whitespace, and treats
+ * accounting-style parentheses as negative. Returns NaN when unparseable.
+ *
+ * @example
+ * ```typescript
+ * parseAmountString('$1,234.50') // 1234.5
+ * parseAmountString('(12.00)') // -12
+ * ```
+ */
+export function parseAmountString(value: string): number {
+  let cleaned = value?.toString().trim().replace(/[$,\s]/g, '') ?? ''
+  let negative = false
+
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true
+    cleaned = cleaned.slice(1, -1)
+  }
+
+  if (!cleaned || !/^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    return NaN
+  }
+
+  const amount = Number(cleaned)
+  return negative ? -amount : amount
+}
+
+/**
+ * Guess the date format used by a set of sample values.
+ *
+ * Prefers MM/DD/YYYY over DD/MM/YYYY unless a day greater than 12 appears
+ * in the first position. Returns null if no format fits every sample.
+ */
+export function inferDateFormat(samples: string[]): DateFormat | null {
+  const values = samples.map(sample => sample?.trim()).filter(Boolean)
+  if (values.length === 0) return null
+
+  return DATE_FORMATS.find(format =>
+    values.every(value => parseDateString(value, format) !== null)
+  ) ?? null
+}
+
+/**
+ * Detect which bank produced a CSV file from its parsed rows.
+ *
+ * @param rows - Raw CSV rows (header row first, if any)
+ * @returns The matching profile and mapping, or null if no profile matches
+ *
+ * @example
+ * ```typescript
+ * const detected = detectBankFormat([['Transaction Date', 'Post Date', 'Description', 'Category', 'Type', 'Amount']])
+ * // detected.profile.id === 'chase-credit'
+ * ```
+ */
+export function detectBankFormat(rows: string[][]): DetectedFormat | null {
+  if (rows.length === 0) return null
+
+  const profile = BANK_FORMAT_PROFILES.find(candidate => candidate.detect(rows[0]))
+  if (!profile) return null
+
+  if (!GENERIC_PROFILE_IDS.has(profile.id)) {
+    return { profile, mapping: profile.mapping }
+  }
+
+  // Generic exports come from many banks, so infer the date format from the data
+  const dateIndex = findColumnIndex(rows[0], profile.mapping.dateColumn)
+  const samples = rows.slice(1, 21).map(row => row[dateIndex] ?? '')
+  const dateFormat = inferDateFormat(samples) ?? profile.mapping.dateFormat
+
+  return { profile, mapping: { ...profile.mapping, dateFormat } }
+}
+
+// Data rows sampled to key a headerless layout
+const SIGNATURE_SAMPLE_ROWS = 20
+
+/**
+ * What a headerless column holds, judged from a sample of its values.
+ */
+function getColumnKind(values: string[]): 'date' | 'amount' | 'text' | 'empty' {
+  const filled = values.map(value => value.trim()).filter(Boolean)
+  if (filled.length === 0) return 'empty'
+  if (inferDateFormat(filled)) return 'date'
+  if (filled.every(value => !isNaN(parseAmountString(value)))) return 'amount'
+  return 'text'
+}
+
+/**
+ * Build a stable key for a file's layout.
+ *
+ * Files with a header row are keyed by their normalized column names. Files
+ * without one have only data to go on, so they are keyed by what each column
+ * holds in the first rows: two banks' headerless files with the same number
+ * of columns rarely put dates, amounts and text in the same places.
+ *
+ * @example
+ * ```typescript
+ * getHeaderSignature([['Posted', ' Payee ', 'Amount']], true) // 'headers:posted|payee|amount'
+ * getHeaderSignature([['01/15/2024', '-5.00', '', 'COFFEE']], false) // 'columns:date|amount|empty|text'
+ * ```
+ */
+export function getHeaderSignature(rows: string[][], hasHeader: boolean): string {
+  const firstRow = rows[0] ?? []
+  if (hasHeader) {
+    return `headers:${firstRow.map(normalizeHeader).join('|')}`
+  }
+
+  const sample = rows.slice(0, SIGNATURE_SAMPLE_ROWS)
+  return `columns:${firstRow.map((_, index) => getColumnKind(sample.map(row => row[index] ?? ''))).join('|')}`
+}
+
+/**
+ * Find a saved mapping matching a file's layout.
+ *
+ * Header-based mappings are preferred over headerless ones, which match on
+ * the kind of data in each column.
+ */
+export function findSavedMapping(
+  rows: string[][],
+  savedMappings: SavedColumnMapping[]
+): SavedColumnMapping | null {
+  if (rows.length === 0) return null
+
+  const withHeader = getHeaderSignature(rows, true)
+  const withoutHeader = getHeaderSignature(rows, false)
+
+  return (
+    savedMappings.find(saved => saved.mapping.hasHeader && saved.headerSignature === withHeader) ??
+    savedMappings.find(saved => !saved.mapping.hasHeader && saved.headerSignature === withoutHeader) ??
+    null
+  )
+}
@@ -1,4 +1,5 @@
 import { Category } from '@/lib/types'
+import { centsToDollars, dollarsToCents } from '@/lib/utils/money'
 
 /**
  * Budget status for a single category.
@@ -141,3 +142,58 @@ export function wouldExceedBudget(
 
   return { wouldExceed, overage }
 }
+
+/**
+ * How much of the money on hand is assigned to categories, for zero-based
+ * budgeting.
+ */
+export type AssignmentStatus = {
+  /** Income for the month plus what was left unassigned before it */
+  available: number
+  /** Budgeted to categories for the month */
+  assigned: number
+  /** Still to assign (negative when more is assigned than there is) */
+  readyToAssign: number
+  /** Visual indicator: green (all assigned), yellow (money left to assign), red (over-assigned) */
+  indicator: 'green' | 'yellow' | 'red'
+}
+
+/**
+ * Calculate how much money is left to assign.
+ *
+ * @param available - Income plus carryover
+ * @param assigned - Total budgeted to categories
+ * @returns Assignment status with the ready-to-assign balance and indicator
+ */
+export function calculateAssignmentStatus(available: number, assigned: number): AssignmentStatus {
+  // Work in cents so the balance can land on exactly zero
+  const readyToAssignCents = dollarsToCents(available) - dollarsToCents(assigned)
+
+  return {
+    available,
+    assigned,
+    readyToAssign: centsToDollars(readyToAssignCents),
+    indicator: readyToAssignCents < 0 ? 'red' : readyToAssignCents > 0 ? 'yellow' : 'green',
+  }
+}
+
+/**
+ * Check if assigning more money would assign more than is available.
+ * Assigning is spending from the ready-to-assign balance, so this is
+ * wouldExceedBudget with the available money as the budget.
+ *
+ * @param amount - Additional amount to assign
+ * @param status - Current assignment status
+ * @returns Whether it would over-assign and by how much
+ */
+export function wouldOverAssign(
+  amount: number,
+  status: AssignmentStatus
+): { wouldExceed: boolean; overage: number } {
+  const { wouldExceed, overage } = wouldExceedBudget(
+    dollarsToCents(amount),
+    dollarsToCents(status.available),
+    dollarsToCents(status.assigned)
+  )
+  return { wouldExceed, overage: centsToDollars(overage) }
+}
@@ -0,0 +1,75 @@
+/**
+ * Category groups: top-level categories and the subcategories inside them.
+ *
+ * Groups are one level deep. A subcategory whose group isn't in the list
+ * (e.g. it's archived) is shown as a group of its own.
+ */
+
+import type { Category } from '@/lib/types'
+
+type GroupableCategory = Pick<Category, 'id' | 'name' | 'parent_id' | 'sort_order'>
+
+export type CategoryGroup<T extends GroupableCategory> = {
+  category: T
+  /** Subcategories, in their saved order */
+  children: T[]
+}
+
+/**
+ * Saved order first, then by name for categories that share a position
+ */
+export function compareCategories(a: GroupableCategory, b: GroupableCategory): number {
+  return a.sort_order - b.sort_order || a.name.localeCompare(b.name)
+}
+
+/**
+ * Arrange categories into groups, each in their saved order
+ */
+export function buildCategoryGroups<T extends GroupableCategory>(categories: T[]): CategoryGroup<T>[] {
+  const ids = new Set(categories.map((category) => category.id))
+  const sorted = [...categories].sort(compareCategories)
+  const isTopLevel = (category: T) => !category.parent_id || !ids.has(category.parent_id)
+
+  return sorted.filter(isTopLevel).map((category) => ({
+    category,
+    children: sorted.filter((child) => !isTopLevel(child) && child.parent_id === category.id),
+  }))
+}
+
+/**
+ * The group each category counts toward: its parent, or itself at the top level
+ */
+export function getGroupIds(categories: GroupableCategory[]): Map<string, string> {
+  const groupIds = new Map<string, string>()
+  for (const { category, children } of buildCategoryGroups(categories)) {
+    groupIds.set(category.id, category.id)
+    children.forEach((child) => groupIds.set(child.id, category.id))
+  }
+  return groupIds
+}
+
+/**
+ * Add each subcategory's amount into its group's. Groups without
+ * subcategories keep their own amount.
+ *
+ * @returns Amounts keyed by group ID
+ */
+export function rollUpToGroups(
+  amountsByCategory: Map<string, number>,
+  categories: GroupableCategory[]
+): Map<string, number> {
+  const groupIds = getGroupIds(categories)
+  const totals = new Map<string, number>()
+  amountsByCategory.forEach((amount, categoryId) => {
+    const groupId = groupIds.get(categoryId)
+    if (groupId) totals.set(groupId, (totals.get(groupId) ?? 0) + amount)
+  })
+  return totals
+}
+
+/**
+ * Flatten groups back into a list: each group followed by its subcategories
+ */
+export function flattenCategoryGroups<T extends GroupableCategory>(groups: CategoryGroup<T>[]): T[] {
+  return groups.flatMap(({ category, children }) => [category, ...children])
+}
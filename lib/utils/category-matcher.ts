@@ -1,7 +1,9 @@
-import type { CategoryKeyword, MerchantPattern } from '@/lib/types'
+import type { CategoryKeyword, MerchantAlias, MerchantPattern } from '@/lib/types'
+import { containsWholeWord } from './rule-engine'
+import { normalizeMerchantKey } from './merchant-normalizer'
 
 /** How a category was matched to a transaction */
-export type MatchType = 'keyword' | 'historical' | 'none'
+export type MatchType = 'rule' | 'keyword' | 'historical' | 'none'
 
 /**
  * Result of matching a transaction to a category.
@@ -11,43 +13,70 @@ export type CategoryMatch = {
   categoryId: string | null
   /** How the match was found */
   matchType: MatchType
-  /** Confidence level: high (keyword), medium (historical), low (none) */
+  /** Confidence level: high (rule, keyword), medium (historical), low (none) */
   confidence: 'high' | 'medium' | 'low'
 }
 
 /**
- * Match a transaction description to a category using keywords
+ * Match a transaction description to a category using keywords.
+ * Keywords match whole words only, and the longest matching keyword wins
+ * so the result doesn't depend on category order.
  */
 function matchByKeyword(
   description: string,
   keywordsByCategory: Record<string, CategoryKeyword[]>
 ): string | null {
-  const normalizedDesc = description.toLowerCase()
+  let best: { categoryId: string; length: number } | null = null
 
   for (const [categoryId, keywords] of Object.entries(keywordsByCategory)) {
     for (const keywordObj of keywords) {
-      if (normalizedDesc.includes(keywordObj.keyword.toLowerCase())) {
-        return categoryId
+      const keyword = keywordObj.keyword.trim()
+      if (keyword.length <= (best?.length ?? 0)) continue
+      if (containsWholeWord(description, keyword)) {
+        best = { categoryId, length: keyword.length }
       }
     }
   }
 
-  return null
+  return best?.categoryId ?? null
 }
 
 /**
  * Extract merchant name from transaction description
- * Simple heuristic: first word/phrase before common separators
+ * Normalizes the description (see merchant-normalizer.ts) and keeps the
+ * first 1-2 words, so "WHOLE FOODS MKT" and "WHOLE FOODS MARKET" share a key.
+ *
+ * Shared with the server so learned patterns use the same key the matcher
+ * looks up. Changing the key strands existing patterns: re-key them in a
+ * migration, as 20260304_rekey_merchant_patterns.sql does.
  */
-function extractMerchantName(description: string): string {
-  // Remove common payment processors
-  const cleaned = description.replace(/^(PAYPAL \*|KLARNA\*|DD \*)/i, '')
+export function extractMerchantName(description: string, aliases: MerchantAlias[] = []): string {
+  if (!description.trim()) return ''
 
-  // Take first part before common separators
-  const parts = cleaned.split(/[\s-]+/)
+  const parts = normalizeMerchantKey(description, aliases).split(/[\s-]+/)
 
   // Return first 1-2 words as merchant name
-  return parts.slice(0, 2).join(' ').trim().toLowerCase()
+  return parts.slice(0, 2).join(' ').trim()
+}
+
+/**
+ * Pick the best of several patterns for a merchant: the category used most
+ * often, breaking ties by the most recently used.
+ */
+function pickBestPattern(patterns: MerchantPattern[]): MerchantPattern | null {
+  let best: MerchantPattern | null = null
+
+  for (const pattern of patterns) {
+    if (
+      !best ||
+      pattern.match_count > best.match_count ||
+      (pattern.match_count === best.match_count && pattern.last_used_at > best.last_used_at)
+    ) {
+      best = pattern
+    }
+  }
+
+  return best
 }
 
 /**
@@ -55,22 +84,23 @@ function extractMerchantName(description: string): string {
  */
 function matchByHistory(
   description: string,
-  merchantPatterns: MerchantPattern[]
+  merchantPatterns: MerchantPattern[],
+  aliases: MerchantAlias[]
 ): string | null {
-  const merchantName = extractMerchantName(description)
+  const merchantName = extractMerchantName(description, aliases)
   if (!merchantName) return null
 
-  // Find exact match first
-  const exactMatch = merchantPatterns.find(
+  // Find exact matches first
+  const exactMatch = pickBestPattern(merchantPatterns.filter(
     p => p.merchant_name.toLowerCase() === merchantName
-  )
+  ))
   if (exactMatch) return exactMatch.category_id
 
-  // Find partial match (merchant name contains pattern or vice versa)
-  const partialMatch = merchantPatterns.find(
+  // Find partial matches (merchant name contains pattern or vice versa)
+  const partialMatch = pickBestPattern(merchantPatterns.filter(
     p => merchantName.includes(p.merchant_name.toLowerCase()) ||
          p.merchant_name.toLowerCase().includes(merchantName)
-  )
+  ))
 
   return partialMatch?.category_id || null
 }
@@ -79,13 +109,18 @@ function matchByHistory(
  * Match a transaction description to a category.
  *
  * Matching priority:
- * 1. Keyword match (high confidence) - checks if description contains any configured keyword
- * 2. Historical match (medium confidence) - checks merchant patterns from past categorizations
+ * 1. Keyword match (high confidence) - checks if description contains any configured keyword as a whole word
+ * 2. Historical match (medium confidence) - checks merchant patterns from past categorizations,
+ *    preferring the category used most often (then most recently) for the merchant
  * 3. No match (low confidence) - returns null categoryId
  *
+ * Categorization rules (see rule-engine.ts) take precedence over both and are
+ * applied by callers before falling back to this function.
+ *
  * @param description - Transaction description to match
  * @param keywordsByCategory - Map of category IDs to their keywords
  * @param merchantPatterns - Historical merchant-to-category patterns
+ * @param aliases - Household merchant aliases, applied before pattern lookup
  * @returns Match result with categoryId, matchType, and confidence
  *
  * @example
@@ -99,7 +134,8 @@ function matchByHistory(
 export function matchCategory(
   description: string,
   keywordsByCategory: Record<string, CategoryKeyword[]>,
-  merchantPatterns: MerchantPattern[]
+  merchantPatterns: MerchantPattern[],
+  aliases: MerchantAlias[] = []
 ): CategoryMatch {
   // Try keyword matching first (higher confidence)
   const keywordMatch = matchByKeyword(description, keywordsByCategory)
@@ -112,7 +148,7 @@ export function matchCategory(
   }
 
   // Try historical matching
-  const historyMatch = matchByHistory(description, merchantPatterns)
+  const historyMatch = matchByHistory(description, merchantPatterns, aliases)
   if (historyMatch) {
     return {
       categoryId: historyMatch,
@@ -135,16 +171,19 @@ export function matchCategory(
  * @param transactions - Array of objects with description property
  * @param keywordsByCategory - Map of category IDs to their keywords
  * @param merchantPatterns - Historical merchant-to-category patterns
+ * @param aliases - Household merchant aliases
  * @returns Array of match results in same order as input transactions
  */
 export function matchCategories(
   transactions: Array<{ description: string }>,
   keywordsByCategory: Record<string, CategoryKeyword[]>,
-  merchantPatterns: MerchantPattern[]
+  merchantPatterns: MerchantPattern[],
+  aliases: MerchantAlias[] = []
 ): CategoryMatch[] {
   return transactions.map(t => matchCategory(
     t.description,
     keywordsByCategory,
-    merchantPatterns
+    merchantPatterns,
+    aliases
   ))
 }
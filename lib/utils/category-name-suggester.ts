@@ -1,6 +1,7 @@
 /**
  * Suggests a category name based on merchant/transaction description
  */
+import { cleanMerchantDescription } from './merchant-normalizer'
 
 // Common merchant keywords to category name mappings
 const MERCHANT_KEYWORDS: Record<string, string> = {
@@ -93,7 +94,8 @@ const MERCHANT_KEYWORDS: Record<string, string> = {
  * Cleans up a merchant name by removing common suffixes and special characters
  */
 function cleanMerchantName(description: string): string {
-  let cleaned = description
+  // Strip processor prefixes, store numbers and locations first
+  let cleaned = cleanMerchantDescription(description)
     // Remove common suffixes
     .replace(/\b(LLC|Inc|Corp|Ltd|Co|Company)\b/gi, '')
     // Remove numbers (often store numbers like "Safeway #1234")
@@ -123,7 +125,7 @@ function cleanMerchantName(description: string): string {
  * 3. If no match, clean up the merchant name and return it
  */
 export function suggestCategoryName(description: string): string {
-  const lowerDesc = description.toLowerCase()
+  const lowerDesc = cleanMerchantDescription(description).toLowerCase()
 
   // Check for merchant keyword matches
   for (const [keyword, categoryName] of Object.entries(MERCHANT_KEYWORDS)) {
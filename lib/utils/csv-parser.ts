@@ -1,21 +1,47 @@
 import Papa from 'papaparse'
+import {
+  BANK_FORMAT_PROFILES,
+  detectBankFormat,
+  findColumnIndex,
+  findSavedMapping,
+  getPositionalColumnName,
+  parseAmountString,
+  parseDateString,
+  type ColumnMapping,
+  type SavedColumnMapping,
+} from './bank-formats'
+
+/** Format name reported for files read with a household's saved mapping */
+export const SAVED_MAPPING_FORMAT = 'Saved column mapping'
+
+/** Format name reported for files read with a mapping chosen during import */
+export const CUSTOM_MAPPING_FORMAT = 'Custom column mapping'
 
 /**
- * A successfully parsed transaction from CSV import.
+ * A successfully parsed transaction from a statement import.
  */
 export type ParsedTransaction = {
   /** Transaction date in YYYY-MM-DD format */
   date: string
-  /** Transaction amount as a positive number */
+  /** Date the bank posted the transaction (YYYY-MM-DD), when the statement has one */
+  postedDate?: string
+  /** Signed transaction amount: negative = money out, positive = money in */
   amount: number
   /** Transaction description/merchant name */
   description: string
-  /** Original row number in CSV (1-indexed, including header) */
+  /**
+   * Original row number in CSV (1-indexed, including header).
+   * For OFX and QIF files, the entry's 1-indexed position in the statement.
+   */
   rowNumber: number
+  /** Extra details from the mapped memo column, if any */
+  memo?: string
+  /** Bank-assigned transaction ID (OFX FITID), if the format provides one */
+  externalId?: string
 }
 
 /**
- * Result of parsing a CSV file.
+ * Result of parsing a statement file.
  */
 export type ParseResult = {
   /** Successfully parsed transactions */
@@ -28,6 +54,8 @@ export type ParseResult = {
     success: number
     failed: number
   }
+  /** Name of the detected bank format, when auto-detected */
+  format?: string
 }
 
 /**
@@ -35,7 +63,7 @@ export type ParseResult = {
  *
  * Expected CSV format with headers: Date, Amount, Description
  * - Date must be in YYYY-MM-DD format
- * - Amount can be positive or negative (will be converted to positive)
+ * - Amount is kept signed: negative = money out, positive = money in
  * - Description is required and limited to 100 characters
  *
  * @param fileContent - Raw CSV file content as string
@@ -51,69 +79,177 @@ export type ParseResult = {
  * ```
  */
 export function parseAllyBankCSV(fileContent: string): ParseResult {
-  const transactions: ParsedTransaction[] = []
-  const errors: Array<{ rowNumber: number; message: string }> = []
+  const ally = BANK_FORMAT_PROFILES.find(profile => profile.id === 'ally')!
+  return parseCSVWithMapping(fileContent, ally.mapping)
+}
+
+/**
+ * Parse a bank CSV file, auto-detecting which bank produced it.
+ *
+ * Supports every layout in `BANK_FORMAT_PROFILES` (Ally, Chase, Capital One,
+ * Amex, Discover, Wells Fargo, and generic debit/credit exports).
+ *
+ * @param fileContent - Raw CSV file content as string
+ * @returns Parsed transactions, errors, summary counts, and the detected format name
+ * @throws Error if the file is empty or its layout is not recognized
+ *
+ * @example
+ * ```typescript
+ * const csv = `Transaction Date,Post Date,Description,Category,Type,Amount
+ * 01/15/2024,01/16/2024,STARBUCKS,Food & Drink,Sale,-5.75`
+ * const result = parseBankCSV(csv)
+ * // result.format === 'Chase Credit Card'
+ * ```
+ */
+export function parseBankCSV(
+  fileContent: string,
+  savedMappings: SavedColumnMapping[] = []
+): ParseResult {
+  const rows = readCSVRows(fileContent)
+  if (rows.length === 0) {
+    throw new Error('CSV file is empty')
+  }
+
+  const resolved = resolveCSVMapping(rows, savedMappings)
+  if (!resolved) {
+    const supported = BANK_FORMAT_PROFILES.map(profile => profile.name).join(', ')
+    throw new Error(`Unrecognized CSV format. Supported formats: ${supported}`)
+  }
 
-  const parseResult = Papa.parse(fileContent, {
-    header: true,
+  return {
+    ...parseCSVRows(rows, resolved.mapping),
+    format: resolved.format,
+  }
+}
+
+/**
+ * Work out how to read a file: a known bank profile first, then a mapping
+ * the household saved for the same header layout.
+ *
+ * @returns The mapping and a format name, or null if the layout is unknown
+ */
+export function resolveCSVMapping(
+  rows: string[][],
+  savedMappings: SavedColumnMapping[] = []
+): { mapping: ColumnMapping; format: string } | null {
+  const detected = detectBankFormat(rows)
+  if (detected) {
+    return { mapping: detected.mapping, format: detected.profile.name }
+  }
+
+  const saved = findSavedMapping(rows, savedMappings)
+  if (saved) {
+    return { mapping: saved.mapping, format: SAVED_MAPPING_FORMAT }
+  }
+
+  return null
+}
+
+/**
+ * Parse a CSV file using an explicit column mapping.
+ *
+ * Amounts are normalized using the mapping's sign convention (or debit/credit
+ * columns) so that negative always means money out.
+ *
+ * @param fileContent - Raw CSV file content as string
+ * @param mapping - Where each field lives and how dates and signs are formatted
+ * @returns Parsed transactions, errors, and summary counts
+ * @throws Error if mapped columns are missing from the header row
+ */
+export function parseCSVWithMapping(fileContent: string, mapping: ColumnMapping): ParseResult {
+  return parseCSVRows(readCSVRows(fileContent), mapping)
+}
+
+/**
+ * Split CSV content into raw rows without interpreting a header.
+ * Used to preview unknown layouts before a mapping is chosen.
+ */
+export function readCSVRows(fileContent: string): string[][] {
+  const parseResult = Papa.parse<string[]>(fileContent, {
+    header: false,
     skipEmptyLines: true,
-    transformHeader: (header) => header.trim(),
   })
+  return parseResult.data
+}
+
+/**
+ * Parse already-split CSV rows using an explicit column mapping.
+ *
+ * @see parseCSVWithMapping
+ */
+export function parseCSVRows(rows: string[][], mapping: ColumnMapping): ParseResult {
+  const transactions: ParsedTransaction[] = []
+  const errors: Array<{ rowNumber: number; message: string }> = []
+
+  const headers = mapping.hasHeader
+    ? (rows[0] ?? []).map(header => header.trim())
+    : (rows[0] ?? []).map((_, index) => getPositionalColumnName(index))
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows
+  const headerOffset = mapping.hasHeader ? 2 : 1 // 1-indexed, plus the header row if present
 
   // Validate required columns exist
-  const requiredColumns = ['Date', 'Amount', 'Description']
-  const headers = parseResult.meta.fields || []
-  const missingColumns = requiredColumns.filter(col => !headers.includes(col))
+  const requiredColumns = [
+    mapping.dateColumn,
+    mapping.amountColumn,
+    mapping.debitColumn,
+    mapping.creditColumn,
+    mapping.descriptionColumn,
+    mapping.memoColumn,
+  ].filter((column): column is string => Boolean(column))
+  const missingColumns = requiredColumns.filter(col => findColumnIndex(headers, col) === -1)
 
   if (missingColumns.length > 0) {
     throw new Error(`CSV must have ${requiredColumns.join(', ')} columns. Missing: ${missingColumns.join(', ')}`)
   }
 
+  const columnValue = (row: string[], column?: string) => {
+    if (!column) return ''
+    return row[findColumnIndex(headers, column)]?.toString().trim() ?? ''
+  }
+
   // Parse each row
-  parseResult.data.forEach((row: any, index: number) => {
-    const rowNumber = index + 2 // +2 because: +1 for header, +1 for 1-indexed
+  dataRows.forEach((row, index) => {
+    const rowNumber = index + headerOffset
 
     try {
-      // Validate date (YYYY-MM-DD format)
-      const dateStr = row.Date?.trim()
-      if (!dateStr || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-        throw new Error('Invalid date format. Expected YYYY-MM-DD')
-      }
-
-      const date = new Date(dateStr)
-      if (isNaN(date.getTime())) {
-        throw new Error('Invalid date value')
+      const date = parseDateString(columnValue(row, mapping.dateColumn), mapping.dateFormat)
+      if (!date) {
+        throw new Error(`Invalid date format. Expected ${mapping.dateFormat}`)
       }
 
-      // Validate amount (convert to positive number)
-      const amountStr = row.Amount?.toString().trim()
-      if (!amountStr) {
-        throw new Error('Missing amount')
+      // Normalize to negative = money out
+      let signedAmount: number
+      if (mapping.amountColumn) {
+        const amountStr = columnValue(row, mapping.amountColumn)
+        if (!amountStr) {
+          throw new Error('Missing amount')
+        }
+        const parsed = parseAmountString(amountStr)
+        signedAmount = mapping.signConvention === 'positive-is-debit' ? -parsed : parsed
+      } else {
+        const debitStr = columnValue(row, mapping.debitColumn)
+        const creditStr = columnValue(row, mapping.creditColumn)
+        if (!debitStr && !creditStr) {
+          throw new Error('Missing amount')
+        }
+        signedAmount = debitStr
+          ? -Math.abs(parseAmountString(debitStr))
+          : Math.abs(parseAmountString(creditStr))
       }
 
-      const amount = Math.abs(parseFloat(amountStr))
-      if (isNaN(amount) || amount <= 0) {
-        throw new Error('Invalid amount')
-      }
-      if (amount > 100_000_000) {
-        throw new Error('Amount exceeds maximum allowed value')
-      }
-
-      // Get description (required)
-      const description = row.Description?.trim()
-      if (!description) {
-        throw new Error('Missing description')
-      }
-      if (description.length > 100) {
-        throw new Error('Description must be 100 characters or less')
-      }
+      // Posted date is informational, so an unreadable value is ignored
+      const postedDate = mapping.postedDateColumn
+        ? parseDateString(columnValue(row, mapping.postedDateColumn), mapping.dateFormat)
+        : null
 
-      transactions.push({
-        date: dateStr,
-        amount,
-        description,
+      transactions.push(toParsedTransaction({
+        date,
+        postedDate: postedDate ?? undefined,
+        signedAmount,
+        description: columnValue(row, mapping.descriptionColumn),
         rowNumber,
-      })
+        memo: columnValue(row, mapping.memoColumn),
+      }))
     } catch (error) {
       errors.push({
         rowNumber,
@@ -126,7 +262,7 @@ export function parseAllyBankCSV(fileContent: string): ParseResult {
     transactions,
     errors,
     summary: {
-      total: parseResult.data.length,
+      total: dataRows.length,
       success: transactions.length,
       failed: errors.length,
     },
@@ -134,10 +270,92 @@ export function parseAllyBankCSV(fileContent: string): ParseResult {
 }
 
 /**
- * Validate a file before CSV parsing.
+ * Normalized fields for one statement entry, before validation.
+ */
+export type StatementEntry = {
+  /** Date already converted to YYYY-MM-DD */
+  date: string
+  postedDate?: string
+  /** Amount where negative means money left the account */
+  signedAmount: number
+  description: string
+  rowNumber: number
+  memo?: string
+  externalId?: string
+}
+
+/**
+ * Validate a normalized statement entry and build a ParsedTransaction.
+ *
+ * Shared by the CSV, OFX and QFX/QIF parsers so every format applies the
+ * same amount and description rules.
+ *
+ * @throws Error with a user-facing message when a field is invalid
+ */
+export function toParsedTransaction(entry: StatementEntry): ParsedTransaction {
+  const amount = entry.signedAmount
+  if (isNaN(amount) || amount === 0) {
+    throw new Error('Invalid amount')
+  }
+  if (Math.abs(amount) > 100_000_000) {
+    throw new Error('Amount exceeds maximum allowed value')
+  }
+
+  // Get description (required)
+  const description = entry.description?.trim()
+  if (!description) {
+    throw new Error('Missing description')
+  }
+  if (description.length > 100) {
+    throw new Error('Description must be 100 characters or less')
+  }
+
+  const memo = entry.memo?.trim()
+  const externalId = entry.externalId?.trim()
+
+  return {
+    date: entry.date,
+    ...(entry.postedDate && entry.postedDate !== entry.date && { postedDate: entry.postedDate }),
+    amount,
+    description,
+    rowNumber: entry.rowNumber,
+    ...(memo && { memo }),
+    ...(externalId && { externalId }),
+  }
+}
+
+/**
+ * Statement file types the importer can read.
+ */
+export type StatementFileType = 'csv' | 'ofx' | 'qif'
+
+const STATEMENT_EXTENSIONS: Record<string, StatementFileType> = {
+  '.csv': 'csv',
+  '.ofx': 'ofx',
+  '.qfx': 'ofx',
+  '.qif': 'qif',
+}
+
+/** Accept attribute for statement file inputs */
+export const STATEMENT_FILE_ACCEPT = Object.keys(STATEMENT_EXTENSIONS).join(',')
+
+/**
+ * Determine a statement file's type from its extension.
+ *
+ * QFX is Quicken's branded OFX and is parsed the same way.
+ *
+ * @returns The file type, or null for unsupported extensions
+ */
+export function getStatementFileType(fileName: string): StatementFileType | null {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase()
+  return STATEMENT_EXTENSIONS[extension] ?? null
+}
+
+/**
+ * Validate a statement file before parsing.
  *
  * Checks:
- * - File extension is .csv
+ * - File extension is .csv, .ofx, .qfx or .qif
  * - File size is under 5MB
  * - File is not empty
  *
@@ -146,16 +364,16 @@ export function parseAllyBankCSV(fileContent: string): ParseResult {
  *
  * @example
  * ```typescript
- * const validation = validateCSVFile(file)
+ * const validation = validateStatementFile(file)
  * if (!validation.valid) {
  *   alert(validation.error)
  * }
  * ```
  */
-export function validateCSVFile(file: File): { valid: boolean; error?: string } {
+export function validateStatementFile(file: File): { valid: boolean; error?: string } {
   // Check file type
-  if (!file.name.endsWith('.csv')) {
-    return { valid: false, error: 'Please upload a CSV file' }
+  if (!getStatementFileType(file.name)) {
+    return { valid: false, error: 'Please upload a CSV, OFX, QFX or QIF file' }
   }
 
   // Check file size (5MB limit)
@@ -166,7 +384,7 @@ export function validateCSVFile(file: File): { valid: boolean; error?: string }
 
   // Check if file is empty
   if (file.size === 0) {
-    return { valid: false, error: 'CSV file is empty' }
+    return { valid: false, error: 'File is empty' }
   }
 
   return { valid: true }
@@ -23,6 +23,26 @@ export function getCurrentMonth(timezone?: string): string {
     }
 }
 
+/**
+ * Gets today's date in YYYY-MM-DD format.
+ * If a timezone is provided, computes the date in that timezone.
+ */
+export function getCurrentDate(timezone?: string): string {
+    const now = new Date()
+
+    if (!timezone || timezone === 'UTC') {
+        return now.toISOString().slice(0, 10)
+    }
+
+    try {
+        const localized = now.toLocaleString('en-US', { timeZone: timezone })
+        const date = new Date(localized)
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+    } catch {
+        return now.toISOString().slice(0, 10)
+    }
+}
+
 /**
  * Formats a YYYY-MM month string to a human-readable format (e.g., "January 2024").
  */
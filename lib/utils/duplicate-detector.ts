@@ -1,5 +1,14 @@
 import { ratio } from 'fuzzball'
 import type { Transaction } from '@/lib/types'
+import { normalizeMerchantKey } from './merchant-normalizer'
+
+/**
+ * How a duplicate was found:
+ * - fingerprint: the row was already imported (same source fingerprint)
+ * - exact: same date, amount and similar description
+ * - date-window: same amount and similar description a few days apart
+ */
+export type DuplicateMatchType = 'fingerprint' | 'exact' | 'date-window'
 
 /**
  * Information about a detected duplicate transaction.
@@ -11,33 +20,98 @@ export type DuplicateMatch = {
   existingTransaction: Transaction
   /** Similarity score 0-100 (100 = identical descriptions) */
   similarity: number
+  /** How the duplicate was found */
+  matchType: DuplicateMatchType
+  /** Days between the closest import date and the existing date */
+  dayDifference: number
+}
+
+/**
+ * A transaction being imported, as seen by the duplicate detector.
+ */
+export type DuplicateCandidate = {
+  date: string
+  amount: number
+  description: string
+  /** Date the bank posted the transaction, when the statement has one */
+  postedDate?: string
+  /** Source fingerprint from lib/utils/fingerprint */
+  sourceFingerprint?: string
+}
+
+/**
+ * Options for findDuplicates.
+ */
+export type FindDuplicatesOptions = {
+  /**
+   * Also match rows up to this many days apart (default 0 = same day only).
+   * Catches a pending charge entered by hand that later posts on another day.
+   */
+  dateWindowDays?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Markers banks add to authorizations that are not yet posted
+const PENDING_MARKERS = /\b(pending|preauth(orization)?|pre-auth|temp(orary)? auth(orization)?|auth(orized)? on \d{1,2}\/\d{1,2})\b/gi
+
+/**
+ * Strip pending/authorization markers so a pending description compares
+ * equal to the posted one.
+ */
+function stripPendingMarkers(description: string): string {
+  return description.replace(PENDING_MARKERS, ' ').replace(/\s+/g, ' ').trim()
 }
 
 /**
  * Calculate similarity between two descriptions (0-100 percentage)
+ * Uses the better of the raw comparison and the normalized merchant
+ * comparison, so reference codes and store numbers don't hide a match.
  */
 function calculateSimilarity(desc1: string, desc2: string): number {
-  return ratio(desc1.toLowerCase(), desc2.toLowerCase())
+  const clean1 = stripPendingMarkers(desc1)
+  const clean2 = stripPendingMarkers(desc2)
+  const rawSimilarity = ratio(clean1.toLowerCase(), clean2.toLowerCase())
+  if (!clean1 || !clean2) return rawSimilarity
+
+  return Math.max(
+    rawSimilarity,
+    ratio(normalizeMerchantKey(clean1), normalizeMerchantKey(clean2))
+  )
+}
+
+/**
+ * Whole days between two YYYY-MM-DD dates
+ */
+function daysBetween(date1: string, date2: string): number {
+  const diff = Date.parse(`${date1}T00:00:00Z`) - Date.parse(`${date2}T00:00:00Z`)
+  return Math.abs(Math.round(diff / DAY_MS))
 }
 
 /**
  * Check if two transactions are potential duplicates
- * Criteria: same date + same amount + similar description (80% threshold)
+ * Criteria: date within the window (of either the transaction or posted
+ * date) + same amount + similar description (80% threshold)
  */
 function isPotentialDuplicate(
-  newTx: { date: string; amount: number; description: string },
+  newTx: DuplicateCandidate,
   existingTx: Transaction,
-  similarityThreshold: number = 80
-): { isDuplicate: boolean; similarity: number } {
-  // Must have same date
-  if (newTx.date !== existingTx.date) {
-    return { isDuplicate: false, similarity: 0 }
+  similarityThreshold: number = 80,
+  dateWindowDays: number = 0
+): { isDuplicate: boolean; similarity: number; dayDifference: number } {
+  // Must be within the date window of the transaction or posted date
+  const dayDifference = Math.min(
+    daysBetween(newTx.date, existingTx.date),
+    newTx.postedDate ? daysBetween(newTx.postedDate, existingTx.date) : Infinity
+  )
+  if (dayDifference > dateWindowDays) {
+    return { isDuplicate: false, similarity: 0, dayDifference }
   }
 
   // Must have same amount (with small tolerance for floating point)
   const amountDiff = Math.abs(newTx.amount - existingTx.amount)
   if (amountDiff > 0.01) {
-    return { isDuplicate: false, similarity: 0 }
+    return { isDuplicate: false, similarity: 0, dayDifference }
   }
 
   // Check description similarity
@@ -48,20 +122,25 @@ function isPotentialDuplicate(
 
   const isDuplicate = similarity >= similarityThreshold
 
-  return { isDuplicate, similarity }
+  return { isDuplicate, similarity, dayDifference }
 }
 
 /**
  * Find potential duplicates in a batch of transactions.
  *
- * A transaction is considered a duplicate if it has:
- * - Same date as an existing transaction
+ * A transaction is a duplicate if its source fingerprint matches an existing
+ * transaction's. Otherwise it is a potential duplicate if it has:
+ * - A date (or posted date) within `dateWindowDays` of an existing transaction
  * - Same amount (within $0.01 tolerance)
- * - Similar description (default 80% similarity threshold)
+ * - Similar description (default 80% similarity threshold), ignoring
+ *   pending/authorization markers
+ *
+ * Same-day matches are preferred over matches further apart.
  *
  * @param newTransactions - Transactions to check for duplicates
  * @param existingTransactions - Existing transactions to compare against
  * @param similarityThreshold - Minimum description similarity (0-100), default 80
+ * @param options - Date window for near-date matches
  * @returns Array of duplicate matches found
  *
  * @example
@@ -72,31 +151,61 @@ function isPotentialDuplicate(
  * ```
  */
 export function findDuplicates(
-  newTransactions: Array<{ date: string; amount: number; description: string }>,
+  newTransactions: DuplicateCandidate[],
   existingTransactions: Transaction[],
-  similarityThreshold: number = 80
+  similarityThreshold: number = 80,
+  options: FindDuplicatesOptions = {}
 ): DuplicateMatch[] {
+  const dateWindowDays = Math.max(0, options.dateWindowDays ?? 0)
   const duplicates: DuplicateMatch[] = []
 
+  const byFingerprint = new Map<string, Transaction>()
+  for (const existingTx of existingTransactions) {
+    if (existingTx.source_fingerprint) {
+      byFingerprint.set(existingTx.source_fingerprint, existingTx)
+    }
+  }
+
   newTransactions.forEach((newTx, importIndex) => {
-    // Find all potential matches for this transaction
+    // Already imported from a statement: certain duplicate
+    const imported = newTx.sourceFingerprint
+      ? byFingerprint.get(newTx.sourceFingerprint)
+      : undefined
+    if (imported) {
+      duplicates.push({
+        importIndex,
+        existingTransaction: imported,
+        similarity: 100,
+        matchType: 'fingerprint',
+        dayDifference: daysBetween(newTx.date, imported.date),
+      })
+      return
+    }
+
+    // Otherwise take the closest-dated potential match
+    let best: Omit<DuplicateMatch, 'importIndex' | 'matchType'> | null = null
     for (const existingTx of existingTransactions) {
-      const { isDuplicate, similarity } = isPotentialDuplicate(
+      const { isDuplicate, similarity, dayDifference } = isPotentialDuplicate(
         newTx,
         existingTx,
-        similarityThreshold
+        similarityThreshold,
+        dateWindowDays
       )
 
-      if (isDuplicate) {
-        duplicates.push({
-          importIndex,
-          existingTransaction: existingTx,
-          similarity,
-        })
-        // Only report first match per import transaction
-        break
+      if (isDuplicate && (!best || dayDifference < best.dayDifference)) {
+        best = { existingTransaction: existingTx, similarity, dayDifference }
+        // A same-day match can't be beaten
+        if (dayDifference === 0) break
       }
     }
+
+    if (best) {
+      duplicates.push({
+        importIndex,
+        ...best,
+        matchType: best.dayDifference === 0 ? 'exact' : 'date-window',
+      })
+    }
   })
 
   return duplicates
@@ -0,0 +1,172 @@
+/**
+ * Turning transactions and reports into downloadable CSV and JSON.
+ *
+ * Transaction CSVs use the generic Date, Description, Amount layout with
+ * money out as a negative amount, so the import wizard recognizes them.
+ * Importing one reads only those three columns: types are guessed again
+ * and categories suggested again, and transfers, which would come back as
+ * expenses, aren't exported to CSV.
+ */
+
+import { formatCentsAsString, dollarsToCents } from './money'
+import { isTransferTransaction } from './transaction-helpers'
+import type { TransactionWithCategory } from '@/lib/actions/transactions'
+import type { MonthlyReport, YearSummary } from '@/lib/actions/reports'
+
+export type ExportFormat = 'csv' | 'json'
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?%?$/
+
+function toCsvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  if (FORMULA_PREFIX.test(text) && !NUMBER_PATTERN.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Join rows into CSV text, quoting cells that need it.
+ *
+ * Text that a spreadsheet would run as a formula is prefixed with `'`.
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Names to show in place of account and category IDs.
+ */
+export type ExportLookups = {
+  accountNames: Map<string, string>
+  categoryNames: Map<string, string>
+}
+
+const signedCents = (t: TransactionWithCategory) => {
+  const cents = t.amount_cents ?? dollarsToCents(t.amount)
+  // Income is money in; expenses are money out
+  return t.type === 'income' ? cents : -cents
+}
+
+function categoryLabel(t: TransactionWithCategory, { categoryNames }: ExportLookups): string {
+  if (t.splits?.length) {
+    return t.splits
+      .map((split) => (split.category_id && categoryNames.get(split.category_id)) || 'Uncategorized')
+      .join(' | ')
+  }
+  return t.category?.name ?? ''
+}
+
+/**
+ * Income and expenses as CSV that can be imported again. Split
+ * transactions list each line's category in the Category column.
+ *
+ * Transfers are left out: the JSON export has them.
+ */
+export function transactionsToCsv(
+  transactions: TransactionWithCategory[],
+  lookups: ExportLookups
+): string {
+  const { accountNames } = lookups
+  return toCsv([
+    ['Date', 'Description', 'Amount', 'Type', 'Category', 'Account'],
+    ...transactions
+      .filter((t) => !isTransferTransaction(t))
+      .map((t) => [
+        t.date,
+        t.description ?? '',
+        formatCentsAsString(signedCents(t)),
+        t.type,
+        categoryLabel(t, lookups),
+        accountNames.get(t.account_id) ?? '',
+      ]),
+  ])
+}
+
+/**
+ * Transactions as JSON, with split lines and account names.
+ */
+export function transactionsToJson(
+  transactions: TransactionWithCategory[],
+  { accountNames, categoryNames }: ExportLookups
+): string {
+  return JSON.stringify(
+    transactions.map((t) => ({
+      id: t.id,
+      date: t.date,
+      description: t.description,
+      type: t.type,
+      amount: formatCentsAsString(t.amount_cents ?? dollarsToCents(t.amount)),
+      category: t.category?.name ?? null,
+      account: accountNames.get(t.account_id) ?? null,
+      toAccount: t.transfer_account_id ? accountNames.get(t.transfer_account_id) ?? null : null,
+      splits: (t.splits ?? []).map((split) => ({
+        category: split.category_id ? categoryNames.get(split.category_id) ?? null : null,
+        amount: formatCentsAsString(split.amount_cents),
+        memo: split.memo,
+      })),
+    })),
+    null,
+    2
+  )
+}
+
+const money = (dollars: number) => formatCentsAsString(dollarsToCents(dollars))
+
+/**
+ * A month's report as CSV: totals, then one row per category.
+ */
+export function monthlyReportToCsv(report: MonthlyReport): string {
+  return toCsv([
+    ['Month', report.month],
+    ['Total Budgeted', money(report.totalBudgeted)],
+    ['Total Carried Over', money(report.totalCarryover)],
+    ['Total Income', money(report.totalIncome)],
+    ['Total Spent', money(report.totalSpent)],
+    ['Total Remaining', money(report.totalRemaining)],
+    ['Net Cash Flow', money(report.netCashFlow)],
+    ['Savings Rate', `${report.savingsRate.toFixed(1)}%`],
+    [],
+    ['Category', 'Budgeted', 'Carried Over', 'Available', 'Spent', 'Remaining', '% Used', 'Transactions'],
+    ...report.categories.map((category) => [
+      category.categoryName,
+      money(category.budgeted),
+      money(category.carryover),
+      money(category.available),
+      money(category.spent),
+      money(category.remaining),
+      `${category.percentUsed.toFixed(0)}%`,
+      category.transactionCount,
+    ]),
+  ])
+}
+
+/**
+ * A year's summary as CSV: totals, category totals and goal savings.
+ */
+export function yearSummaryToCsv(year: number, summary: YearSummary): string {
+  return toCsv([
+    ['Year', year],
+    ['Total Budgeted', money(summary.totalBudgeted)],
+    ['Total Spent', money(summary.totalSpent)],
+    ['Total Saved', money(summary.totalSaved)],
+    ['Average Monthly Spend', money(summary.averageMonthlySpend)],
+    ['Highest Spend Month', summary.highestSpendMonth.month, money(summary.highestSpendMonth.amount)],
+    ['Lowest Spend Month', summary.lowestSpendMonth.month, money(summary.lowestSpendMonth.amount)],
+    [],
+    ['Category', 'Spent'],
+    ...summary.categoryTotals.map((category) => [category.name, money(category.total)]),
+    [],
+    ['Goal', 'Saved', 'Target'],
+    ...summary.goalSavings.map((goal) => [goal.name, money(goal.saved), money(goal.targetAmount)]),
+    ['Total Saved Toward Goals', money(summary.totalGoalSavings)],
+  ])
+}
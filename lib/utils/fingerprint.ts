@@ -0,0 +1,83 @@
+import { dollarsToCents } from './money'
+
+/**
+ * Fields used to fingerprint a statement row.
+ */
+export type FingerprintSource = {
+  /** Transaction date in YYYY-MM-DD format */
+  date: string
+  /** Signed statement amount in dollars */
+  amount: number
+  description: string
+  /** Bank-assigned transaction ID (OFX FITID), if any */
+  externalId?: string
+}
+
+/**
+ * Normalize a description for hashing so cosmetic differences between
+ * exports (case, punctuation, repeated spaces) don't change the fingerprint.
+ */
+export function normalizeDescriptionForFingerprint(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * SHA-256 digest, hex encoded. The fingerprint is a unique key, so a
+ * collision would silently drop a real transaction: short hashes won't do.
+ */
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Compute a stable fingerprint for one statement row.
+ *
+ * Uses the bank's transaction ID when the format provides one
+ * (`ext:<id>`), otherwise a SHA-256 of date, amount in cents and normalized
+ * description (`sha256:<hex>`). Fingerprints are unique per account, not
+ * per household, so two accounts can share a bank transaction ID.
+ *
+ * @example
+ * ```typescript
+ * await computeSourceFingerprint({ date: '2024-01-15', amount: -4.5, description: 'COFFEE', externalId: '123' })
+ * // 'ext:123'
+ * ```
+ */
+export async function computeSourceFingerprint(source: FingerprintSource): Promise<string> {
+  const externalId = source.externalId?.trim()
+  if (externalId) {
+    return `ext:${externalId}`
+  }
+
+  const key = [
+    source.date,
+    dollarsToCents(source.amount),
+    normalizeDescriptionForFingerprint(source.description),
+  ].join('|')
+
+  return `sha256:${await sha256(key)}`
+}
+
+/**
+ * Fingerprint every row of a statement.
+ *
+ * Identical hashed rows in one file (two $3 coffees on the same day) are
+ * told apart by an occurrence suffix (`#2`, `#3`), so the same statement
+ * always produces the same set of fingerprints.
+ *
+ * @returns One fingerprint per row, in the same order
+ */
+export async function assignSourceFingerprints(rows: FingerprintSource[]): Promise<string[]> {
+  const fingerprints = await Promise.all(rows.map(computeSourceFingerprint))
+  const occurrences = new Map<string, number>()
+
+  return fingerprints.map((fingerprint) => {
+    const count = (occurrences.get(fingerprint) ?? 0) + 1
+    occurrences.set(fingerprint, count)
+    return count === 1 ? fingerprint : `${fingerprint}#${count}`
+  })
+}
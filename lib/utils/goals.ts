@@ -0,0 +1,119 @@
+/**
+ * Savings goal planning: how much to put aside each month to reach a
+ * target by its date, and whether saving so far is keeping pace.
+ */
+
+/**
+ * - `complete`: the target has been reached
+ * - `on_track`: saved at least a straight-line share of the target for the months gone by
+ * - `behind`: saved less than that share
+ * - `overdue`: the target date has passed without reaching the target
+ */
+export type GoalStatus = 'complete' | 'on_track' | 'behind' | 'overdue'
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  complete: 'Complete',
+  on_track: 'On track',
+  behind: 'Behind',
+  overdue: 'Overdue',
+}
+
+// Progress bar colors, matching the budget bar's green/yellow/red
+export const GOAL_STATUS_COLORS: Record<GoalStatus, string> = {
+  complete: '#22c55e',
+  on_track: '#3b82f6',
+  behind: '#eab308',
+  overdue: '#ef4444',
+}
+
+/**
+ * A goal's plan as of a given month, in cents.
+ */
+export type GoalPlan = {
+  savedCents: number
+  remainingCents: number
+  /** Months left to save in, counting the current month and the target month */
+  monthsLeft: number
+  /** Contribution needed this month to stay on schedule */
+  requiredMonthlyCents: number
+  /** Straight-line amount that should have been saved before this month */
+  expectedCents: number
+  progressPercent: number
+  status: GoalStatus
+}
+
+/**
+ * Whole months from one YYYY-MM month to another (negative when `to` is earlier).
+ */
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number)
+  const [toYear, toMonth] = to.split('-').map(Number)
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth)
+}
+
+/**
+ * Work out a goal's plan for `currentMonth`.
+ *
+ * The required contribution is based on what was saved before the month
+ * began, so it stays the same while money is added during the month.
+ *
+ * @example
+ * ```typescript
+ * computeGoalPlan({
+ *   targetCents: 120000,
+ *   savedCents: 30000,
+ *   savedBeforeMonthCents: 30000,
+ *   startDate: '2026-01-10',
+ *   targetDate: '2026-10-31',
+ * }, '2026-03')
+ * // requiredMonthlyCents: 11250 (90000 over 8 months), status: 'on_track'
+ * ```
+ */
+export function computeGoalPlan(
+  goal: {
+    targetCents: number
+    savedCents: number
+    savedBeforeMonthCents: number
+    startDate: string
+    targetDate: string
+  },
+  currentMonth: string
+): GoalPlan {
+  const startMonth = goal.startDate.slice(0, 7)
+  const targetMonth = goal.targetDate.slice(0, 7)
+
+  const remainingCents = Math.max(0, goal.targetCents - goal.savedCents)
+  const monthsLeft = Math.max(0, monthsBetween(currentMonth, targetMonth) + 1)
+
+  const remainingAtMonthStart = Math.max(0, goal.targetCents - goal.savedBeforeMonthCents)
+  const requiredMonthlyCents = remainingCents === 0
+    ? 0
+    : monthsLeft > 0
+      ? Math.ceil(remainingAtMonthStart / monthsLeft)
+      : remainingCents
+
+  const totalMonths = Math.max(1, monthsBetween(startMonth, targetMonth) + 1)
+  const elapsedMonths = Math.min(totalMonths, Math.max(0, monthsBetween(startMonth, currentMonth)))
+  const expectedCents = Math.round((goal.targetCents * elapsedMonths) / totalMonths)
+
+  let status: GoalStatus
+  if (goal.savedCents >= goal.targetCents) {
+    status = 'complete'
+  } else if (currentMonth > targetMonth) {
+    status = 'overdue'
+  } else if (goal.savedCents >= expectedCents) {
+    status = 'on_track'
+  } else {
+    status = 'behind'
+  }
+
+  return {
+    savedCents: goal.savedCents,
+    remainingCents,
+    monthsLeft,
+    requiredMonthlyCents,
+    expectedCents,
+    progressPercent: Math.min(100, Math.max(0, (goal.savedCents / goal.targetCents) * 100)),
+    status,
+  }
+}
@@ -0,0 +1,175 @@
+import type { MerchantAlias } from '@/lib/types'
+
+/**
+ * Result of normalizing a transaction description to a merchant.
+ */
+export type NormalizedMerchant = {
+  /** Lowercase grouping key; equal keys mean the same merchant */
+  key: string
+  /** Human-readable merchant name */
+  displayName: string
+  /** Alias that renamed the merchant, if any */
+  aliasId: string | null
+}
+
+// Payment processors and wallets that prefix the real merchant name
+const PROCESSOR_PREFIX = /^(sq|tst|sp|pp|dd|paypal|klarna|google|goog|apple pay|venmo|stripe)\s*[*#:-]\s*/i
+// Card-network wording some banks put before the merchant
+const PROCESSOR_WORDS = /^(pos debit|pos|debit card purchase|debit|checkcard \d{4}|purchase authorized on \d{1,2}\/\d{1,2}|recurring payment)\s+/i
+
+// Card suffixes such as "XXXX1234", "**1234" or "CARD 1234"
+const CARD_SUFFIX = /\b(?:x{2,}|\*{2,})\d{2,4}\b|\bcard(?:\s+ending(?:\s+in)?)?\s*#?\s*\d{4}\b/gi
+
+// Store numbers such as "#1234" or "STORE 0042"
+const STORE_NUMBER = /#\s*\d+|\b(?:store|str|unit|no)\.?\s*\d+\b/gi
+
+// Company suffixes that don't distinguish merchants
+const COMPANY_SUFFIX = /^(llc|inc|corp|ltd|co)\.?$/i
+
+const US_STATES = new Set([
+  'al', 'ak', 'az', 'ar', 'ca', 'co', 'ct', 'de', 'dc', 'fl', 'ga', 'hi', 'id', 'il', 'in',
+  'ia', 'ks', 'ky', 'la', 'me', 'md', 'ma', 'mi', 'mn', 'ms', 'mo', 'mt', 'ne', 'nv', 'nh',
+  'nj', 'nm', 'ny', 'nc', 'nd', 'oh', 'ok', 'or', 'pa', 'ri', 'sc', 'sd', 'tn', 'tx', 'ut',
+  'vt', 'va', 'wa', 'wv', 'wi', 'wy',
+])
+
+// First words of multi-word city names ("SAN JOSE CA", "NEW YORK NY")
+const CITY_PREFIXES = new Set([
+  'san', 'santa', 'los', 'las', 'new', 'fort', 'ft', 'st', 'saint', 'salt', 'palo', 'el',
+  'north', 'south', 'east', 'west', 'mount', 'mt', 'port', 'grand', 'long', 'palm', 'del',
+])
+
+/** A token that is a store or reference number rather than part of the name */
+function isNumberToken(token: string): boolean {
+  return /^[#\d-]*\d{3,}[#\d-]*$/.test(token)
+}
+
+/**
+ * Remove a trailing "CITY ST" tail. Only applies when at least one word of
+ * merchant name would remain before the city.
+ */
+function stripLocation(tokens: string[]): string[] {
+  if (tokens.length < 3) return tokens
+  const last = tokens[tokens.length - 1].toLowerCase()
+  if (!US_STATES.has(last)) return tokens
+
+  let end = tokens.length - 2 // drop state and the city word before it
+  if (end >= 2 && CITY_PREFIXES.has(tokens[end - 1].toLowerCase())) {
+    end -= 1
+  }
+  return tokens.slice(0, end)
+}
+
+/**
+ * Clean a raw bank description down to the merchant name, keeping its
+ * original capitalization.
+ *
+ * Strips payment processor prefixes (`SQ *`, `PAYPAL *`), reference codes
+ * after `*`, card suffixes, store numbers, company suffixes and trailing
+ * city/state.
+ *
+ * @example
+ * ```typescript
+ * cleanMerchantDescription('AMAZON MKTPL*1A2B3') // 'AMAZON MKTPL'
+ * cleanMerchantDescription('SQ *BLUE BOTTLE #12 OAKLAND CA') // 'BLUE BOTTLE'
+ * ```
+ */
+export function cleanMerchantDescription(description: string): string {
+  let cleaned = description.trim()
+
+  // Processor prefixes can stack ("POS DEBIT SQ *...")
+  for (let i = 0; i < 3; i++) {
+    const next = cleaned.replace(PROCESSOR_WORDS, '').replace(PROCESSOR_PREFIX, '')
+    if (next === cleaned) break
+    cleaned = next
+  }
+
+  // Anything after a remaining "*" is a reference code
+  const star = cleaned.indexOf('*')
+  if (star > 0) {
+    cleaned = cleaned.slice(0, star)
+  }
+
+  cleaned = cleaned
+    .replace(CARD_SUFFIX, ' ')
+    .replace(STORE_NUMBER, ' ')
+    .replace(/[^\w\s&'.-]/g, ' ')
+
+  let tokens = cleaned.split(/\s+/).filter((token) => token && !isNumberToken(token))
+
+  // Drop a company suffix first so "BEST BUY CO" isn't read as Colorado
+  if (tokens.length > 1 && COMPANY_SUFFIX.test(tokens[tokens.length - 1])) {
+    tokens = tokens.slice(0, -1)
+  }
+  tokens = stripLocation(tokens)
+
+  const result = tokens.join(' ').replace(/[\s.-]+$/, '').trim()
+
+  // Never clean a description away entirely
+  return result || description.trim()
+}
+
+/**
+ * Find the alias whose text matches the start of a merchant key. The
+ * longest match wins so "amazon prime" beats "amazon".
+ */
+function findAlias(key: string, aliases: MerchantAlias[]): MerchantAlias | null {
+  let best: MerchantAlias | null = null
+
+  for (const alias of aliases) {
+    const matchText = alias.match_text.trim().toLowerCase()
+    if (!matchText) continue
+    if (key === matchText || key.startsWith(`${matchText} `)) {
+      if (!best || matchText.length > best.match_text.length) {
+        best = alias
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Normalize a transaction description to a merchant.
+ *
+ * Used wherever transactions are grouped or matched by merchant (insights,
+ * recurring charges, learned patterns, category suggestions) so that
+ * "AMAZON MKTPL*1A2B3" and "AMAZON MKTPL*9Z8Y7" are the same merchant.
+ * Household aliases are applied after cleaning.
+ *
+ * @param description - Raw transaction description
+ * @param aliases - Household merchant aliases
+ */
+export function normalizeMerchant(
+  description: string | null | undefined,
+  aliases: MerchantAlias[] = []
+): NormalizedMerchant {
+  if (!description || !description.trim()) {
+    return { key: 'unknown', displayName: 'Unknown', aliasId: null }
+  }
+
+  const cleaned = cleanMerchantDescription(description)
+  const key = cleaned.toLowerCase().replace(/\s+/g, ' ')
+
+  const alias = findAlias(key, aliases)
+  if (alias) {
+    return {
+      key: alias.display_name.trim().toLowerCase(),
+      displayName: alias.display_name.trim(),
+      aliasId: alias.id,
+    }
+  }
+
+  return { key, displayName: cleaned, aliasId: null }
+}
+
+/**
+ * Lowercase grouping key for a description. Shorthand for
+ * `normalizeMerchant(description, aliases).key`.
+ */
+export function normalizeMerchantKey(
+  description: string | null | undefined,
+  aliases: MerchantAlias[] = []
+): string {
+  return normalizeMerchant(description, aliases).key
+}
@@ -0,0 +1,138 @@
+import { toParsedTransaction, type ParseResult, type ParsedTransaction } from './csv-parser'
+import { parseAmountString } from './bank-formats'
+
+/** Format name reported for OFX and QFX files */
+export const OFX_FORMAT = 'OFX/QFX'
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => ENTITIES[entity])
+}
+
+/**
+ * Read a leaf element's value from an OFX block.
+ *
+ * Works for both OFX 1.x SGML (`<NAME>COFFEE` with no closing tag) and
+ * OFX 2.x XML (`<NAME>COFFEE</NAME>`), since the value ends at the next tag
+ * or line break either way.
+ */
+function readTag(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)
+  const value = match?.[1].trim()
+  return value ? decodeEntities(value) : undefined
+}
+
+/**
+ * Split an OFX document into its STMTTRN (statement transaction) blocks.
+ * Tolerates SGML files that omit the closing `</STMTTRN>` tag.
+ */
+function splitTransactionBlocks(content: string): string[] {
+  return content
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map((chunk) => chunk.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0])
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD, optionally followed by time and timezone)
+ * into YYYY-MM-DD. Returns null if invalid.
+ *
+ * @example
+ * ```typescript
+ * parseOFXDate('20240115120000.000[-5:EST]') // '2024-01-15'
+ * ```
+ */
+export function parseOFXDate(value: string | undefined): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value?.trim() ?? '')
+  if (!match) return null
+
+  const [, year, month, day] = match
+  const monthNum = parseInt(month, 10)
+  const dayNum = parseInt(day, 10)
+  if (monthNum < 1 || monthNum > 12 || dayNum < 1 || dayNum > 31) return null
+
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Parse an OFX or QFX statement into transactions.
+ *
+ * Reads every STMTTRN entry from bank and credit card statements:
+ * - DTUSER (or DTPOSTED when missing) becomes the date; DTPOSTED is kept as `postedDate`
+ * - TRNAMT is kept signed (negative = money out)
+ * - NAME (or MEMO when NAME is missing) becomes the description
+ * - FITID is kept as `externalId` for duplicate detection
+ *
+ * @param fileContent - Raw OFX/QFX file content as string
+ * @returns Parsed transactions, errors, and summary counts
+ * @throws Error if the content is not an OFX document
+ *
+ * @example
+ * ```typescript
+ * const result = parseOFX(ofx)
+ * // result.transactions[0] = { date: '2024-01-15', amount: -4.5, description: 'COFFEE SHOP', rowNumber: 1, externalId: '2024011501' }
+ * ```
+ */
+export function parseOFX(fileContent: string): ParseResult {
+  if (!/<OFX>/i.test(fileContent)) {
+    throw new Error('File is not a valid OFX or QFX statement')
+  }
+
+  const transactions: ParsedTransaction[] = []
+  const errors: Array<{ rowNumber: number; message: string }> = []
+  const blocks = splitTransactionBlocks(fileContent)
+
+  blocks.forEach((block, index) => {
+    const rowNumber = index + 1
+
+    try {
+      // DTUSER (when the purchase happened) is optional; DTPOSTED is required
+      const postedDate = parseOFXDate(readTag(block, 'DTPOSTED'))
+      if (!postedDate) {
+        throw new Error('Invalid date format. Expected YYYYMMDD')
+      }
+      const date = parseOFXDate(readTag(block, 'DTUSER')) ?? postedDate
+
+      const amountStr = readTag(block, 'TRNAMT')
+      if (!amountStr) {
+        throw new Error('Missing amount')
+      }
+
+      const name = readTag(block, 'NAME')
+      const memo = readTag(block, 'MEMO')
+
+      transactions.push(toParsedTransaction({
+        date,
+        postedDate,
+        signedAmount: parseAmountString(amountStr),
+        description: name ?? memo ?? '',
+        rowNumber,
+        memo: name ? memo : undefined,
+        externalId: readTag(block, 'FITID'),
+      }))
+    } catch (error) {
+      errors.push({
+        rowNumber,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
+  return {
+    transactions,
+    errors,
+    summary: {
+      total: blocks.length,
+      success: transactions.length,
+      failed: errors.length,
+    },
+    format: OFX_FORMAT,
+  }
+}
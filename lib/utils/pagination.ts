@@ -0,0 +1,26 @@
+// PostgREST returns at most this many rows per request
+export const PAGE_SIZE = 1000
+
+type PageResult<T> = { data: T[] | null; error: { message: string } | null }
+
+/**
+ * Fetch every row of a query a page at a time. The query must have a stable
+ * order, or rows can be skipped or repeated between pages.
+ *
+ * @param label - What's being fetched, for the error message
+ * @param fetchPage - Runs the query for the rows from..to (inclusive)
+ */
+export async function fetchAllPages<T>(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(`Failed to fetch ${label}: ${error.message}`)
+    }
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
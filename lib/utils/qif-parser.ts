@@ -0,0 +1,155 @@
+import { toParsedTransaction, type ParseResult, type ParsedTransaction } from './csv-parser'
+import { parseAmountString } from './bank-formats'
+
+/** Format name reported for QIF files */
+export const QIF_FORMAT = 'QIF'
+
+/** QIF account types that contain ordinary bank-style transactions */
+const SUPPORTED_TYPES = new Set(['bank', 'ccard', 'cash', 'oth a', 'oth l'])
+
+/**
+ * Parse a QIF date into YYYY-MM-DD. Returns null if invalid.
+ *
+ * Quicken writes US-style dates with several separators. An apostrophe
+ * before a two-digit year means 2000 or later (`1/15'24`); a slash before a
+ * two-digit year uses a 1970 pivot (`1/15/98` is 1998).
+ *
+ * @example
+ * ```typescript
+ * parseQIFDate("1/15'24") // '2024-01-15'
+ * parseQIFDate('01/15/2024') // '2024-01-15'
+ * ```
+ */
+export function parseQIFDate(value: string): string | null {
+  const match = /^(\d{1,2})[/-](\s?\d{1,2})(['/-])\s?(\d{2}|\d{4})$/.exec(value?.trim() ?? '')
+  if (!match) return null
+
+  const [, monthStr, dayStr, separator, yearStr] = match
+  const month = parseInt(monthStr, 10)
+  const day = parseInt(dayStr.trim(), 10)
+  let year = parseInt(yearStr, 10)
+
+  if (yearStr.length === 2) {
+    year += separator === "'" || year < 70 ? 2000 : 1900
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Parse a Quicken Interchange Format (QIF) file into transactions.
+ *
+ * Reads bank, credit card and cash registers. Each record ends with `^`:
+ * - D is the date
+ * - T (or U) is the signed amount (negative = money out)
+ * - P (payee) becomes the description, falling back to M (memo)
+ *
+ * QIF has no bank transaction ID, so `externalId` is never set.
+ *
+ * @param fileContent - Raw QIF file content as string
+ * @returns Parsed transactions, errors, and summary counts
+ * @throws Error if the file has no supported `!Type:` header
+ *
+ * @example
+ * ```typescript
+ * const qif = `!Type:Bank
+ * D1/15'24
+ * T-4.50
+ * PCOFFEE SHOP
+ * ^`
+ * const result = parseQIF(qif)
+ * // result.transactions[0] = { date: '2024-01-15', amount: -4.5, description: 'COFFEE SHOP', rowNumber: 1 }
+ * ```
+ */
+export function parseQIF(fileContent: string): ParseResult {
+  const lines = fileContent.split(/\r?\n/).map((line) => line.trim())
+
+  const typeLine = lines.find((line) => /^!Type:/i.test(line))
+  if (!typeLine) {
+    throw new Error('File is not a valid QIF statement')
+  }
+  const accountType = typeLine.slice('!Type:'.length).trim().toLowerCase()
+  if (!SUPPORTED_TYPES.has(accountType)) {
+    throw new Error(`QIF account type "${typeLine.slice('!Type:'.length).trim()}" is not supported`)
+  }
+
+  // Group lines into records, each terminated by ^
+  const records: Array<Record<string, string>> = []
+  let current: Record<string, string> = {}
+  let inTransactions = false
+
+  for (const line of lines) {
+    if (!line) continue
+
+    if (line.startsWith('!')) {
+      inTransactions = /^!Type:/i.test(line)
+      continue
+    }
+    if (!inTransactions) continue
+
+    if (line === '^') {
+      if (Object.keys(current).length > 0) {
+        records.push(current)
+      }
+      current = {}
+      continue
+    }
+
+    const code = line[0]
+    // Keep the first value per field; split lines (S, E, $) repeat codes
+    if (!(code in current)) {
+      current[code] = line.slice(1).trim()
+    }
+  }
+  if (Object.keys(current).length > 0) {
+    records.push(current)
+  }
+
+  const transactions: ParsedTransaction[] = []
+  const errors: Array<{ rowNumber: number; message: string }> = []
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 1
+
+    try {
+      const date = parseQIFDate(record.D)
+      if (!date) {
+        throw new Error('Invalid date format. Expected MM/DD/YYYY')
+      }
+
+      const amountStr = record.T ?? record.U
+      if (!amountStr) {
+        throw new Error('Missing amount')
+      }
+
+      const payee = record.P
+      const memo = record.M
+
+      transactions.push(toParsedTransaction({
+        date,
+        signedAmount: parseAmountString(amountStr),
+        description: payee || memo || '',
+        rowNumber,
+        memo: payee ? memo : undefined,
+      }))
+    } catch (error) {
+      errors.push({
+        rowNumber,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
+  return {
+    transactions,
+    errors,
+    summary: {
+      total: records.length,
+      success: transactions.length,
+      failed: errors.length,
+    },
+    format: QIF_FORMAT,
+  }
+}
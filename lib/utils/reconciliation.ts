@@ -0,0 +1,63 @@
+/**
+ * Statement reconciliation: which transactions are already reconciled in an
+ * account, and how far the cleared balance is from a statement.
+ */
+import { getBalanceChange } from '@/lib/utils/accounts'
+
+type ReconcilableTransaction = {
+  id: string
+  account_id: string
+  transfer_account_id?: string | null
+  reconciliation_id?: string | null
+  transfer_reconciliation_id?: string | null
+  type: string
+  amount: number
+  amount_cents?: number | null
+}
+
+/**
+ * Whether a transaction has been reconciled in the given account. A transfer
+ * is reconciled separately in the account it leaves and the one it arrives in.
+ */
+export function isReconciledIn(transaction: ReconcilableTransaction, accountId: string): boolean {
+  if (transaction.type === 'transfer' && transaction.transfer_account_id === accountId) {
+    return !!transaction.transfer_reconciliation_id
+  }
+  return transaction.account_id === accountId && !!transaction.reconciliation_id
+}
+
+/**
+ * Whether a transaction is locked from edits: it has been reconciled in
+ * either of its accounts.
+ */
+export function isReconciled(transaction: {
+  reconciliation_id?: string | null
+  transfer_reconciliation_id?: string | null
+}): boolean {
+  return !!transaction.reconciliation_id || !!transaction.transfer_reconciliation_id
+}
+
+/**
+ * An account's cleared balance in cents: its opening balance plus every
+ * transaction already reconciled in it, plus those checked off now.
+ *
+ * @example
+ * ```typescript
+ * getClearedBalance(100000, transactions, 'checking', new Set(['t1']))
+ * // 97500 when t1 is a $25 expense and nothing was reconciled before
+ * ```
+ */
+export function getClearedBalance(
+  openingBalanceCents: number,
+  transactions: ReconcilableTransaction[],
+  accountId: string,
+  clearedIds: Set<string>
+): number {
+  let balance = openingBalanceCents
+  for (const transaction of transactions) {
+    if (isReconciledIn(transaction, accountId) || clearedIds.has(transaction.id)) {
+      balance += getBalanceChange(transaction, accountId)
+    }
+  }
+  return balance
+}
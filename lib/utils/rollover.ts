@@ -0,0 +1,92 @@
+/**
+ * Envelope rollover: how a category's unspent or overspent balance carries
+ * from one month into the next.
+ */
+
+export type RolloverPolicy = 'reset' | 'carry_surplus' | 'carry_both' | 'cap'
+
+export const ROLLOVER_POLICIES: RolloverPolicy[] = ['reset', 'carry_surplus', 'carry_both', 'cap']
+
+export const ROLLOVER_POLICY_LABELS: Record<RolloverPolicy, string> = {
+  reset: 'Reset each month',
+  carry_surplus: 'Carry unspent money',
+  carry_both: 'Carry unspent money and overspending',
+  cap: 'Carry unspent money, up to a limit',
+}
+
+/**
+ * One month of a category's envelope, in cents.
+ * `available = carryover + budgeted - spent`, and the next month's carryover
+ * is derived from `available` by the category's policy.
+ */
+export type RolloverEntry = {
+  month: string
+  carryoverCents: number
+  budgetedCents: number
+  spentCents: number
+  availableCents: number
+}
+
+/**
+ * Amount carried into the next month from a month that ended with
+ * `availableCents` left in the envelope.
+ *
+ * @example
+ * ```typescript
+ * computeCarryover('carry_surplus', null, -2500) // 0
+ * computeCarryover('carry_both', null, -2500) // -2500
+ * computeCarryover('cap', 5000, 8000) // 5000
+ * ```
+ */
+export function computeCarryover(
+  policy: RolloverPolicy,
+  capCents: number | null,
+  availableCents: number
+): number {
+  switch (policy) {
+    case 'carry_surplus':
+      return Math.max(0, availableCents)
+    case 'carry_both':
+      return availableCents
+    case 'cap':
+      return Math.min(Math.max(0, availableCents), capCents ?? 0)
+    default:
+      return 0
+  }
+}
+
+/**
+ * Walk a category's envelope month by month.
+ *
+ * The first month starts with no carryover; each later month starts with
+ * whatever the policy carries out of the month before it. The returned
+ * entries double as an audit of how each month's available balance was
+ * derived.
+ *
+ * @param months - Consecutive months (YYYY-MM), oldest first
+ * @param policy - The category's rollover policy
+ * @param capCents - Carryover limit for the `cap` policy
+ * @param budgetedByMonth - Budgeted cents per month
+ * @param spentByMonth - Spent cents per month (refunds already netted)
+ */
+export function buildRolloverLedger(
+  months: string[],
+  policy: RolloverPolicy,
+  capCents: number | null,
+  budgetedByMonth: Map<string, number>,
+  spentByMonth: Map<string, number>
+): RolloverEntry[] {
+  const entries: RolloverEntry[] = []
+  let carryoverCents = 0
+
+  for (const month of months) {
+    const budgetedCents = budgetedByMonth.get(month) ?? 0
+    const spentCents = spentByMonth.get(month) ?? 0
+    const availableCents = carryoverCents + budgetedCents - spentCents
+
+    entries.push({ month, carryoverCents, budgetedCents, spentCents, availableCents })
+    carryoverCents = computeCarryover(policy, capCents, availableCents)
+  }
+
+  return entries
+}
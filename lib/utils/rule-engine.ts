@@ -0,0 +1,159 @@
+import type { CategorizationRule } from '@/lib/types'
+
+/** How a rule's pattern is compared with a transaction description */
+export type RuleMatchType = 'contains' | 'starts_with' | 'exact' | 'regex' | 'whole_word'
+
+export const RULE_MATCH_TYPES: RuleMatchType[] = [
+  'contains',
+  'starts_with',
+  'exact',
+  'whole_word',
+  'regex',
+]
+
+export const RULE_MATCH_TYPE_LABELS: Record<RuleMatchType, string> = {
+  contains: 'Contains',
+  starts_with: 'Starts with',
+  exact: 'Is exactly',
+  whole_word: 'Contains word',
+  regex: 'Matches regex',
+}
+
+/**
+ * Transaction fields a rule can look at.
+ */
+export type RuleTarget = {
+  description: string
+  /** Amount in dollars; conditions compare the absolute value */
+  amount: number
+  type: 'income' | 'expense'
+}
+
+/**
+ * Combined outcome of running the rules over one transaction.
+ */
+export type RuleResult = {
+  /** Category from the first matching rule that sets one */
+  categoryId: string | null
+  /** New description from the first matching rule that renames */
+  renameTo: string | null
+  /** IDs of the rules that contributed, in priority order */
+  ruleIds: string[]
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Check whether `word` appears in `text` as a whole word (case-insensitive),
+ * so "shell" matches "SHELL OIL" but not "SHELLFISH SHACK".
+ */
+export function containsWholeWord(text: string, word: string): boolean {
+  const trimmed = word.trim()
+  if (!trimmed) return false
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(trimmed)}($|[^a-z0-9])`, 'i').test(text)
+}
+
+/**
+ * Compile a user-supplied regex pattern.
+ *
+ * @returns The case-insensitive RegExp, or null if the pattern is invalid
+ */
+export function compileRulePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i')
+  } catch {
+    return null
+  }
+}
+
+function matchesPattern(description: string, matchType: string, pattern: string): boolean {
+  const text = description.trim().toLowerCase()
+  const needle = pattern.trim().toLowerCase()
+  if (!needle) return false
+
+  switch (matchType) {
+    case 'contains':
+      return text.includes(needle)
+    case 'starts_with':
+      return text.startsWith(needle)
+    case 'exact':
+      return text === needle
+    case 'whole_word':
+      return containsWholeWord(text, needle)
+    case 'regex':
+      return compileRulePattern(pattern)?.test(description) ?? false
+    default:
+      return false
+  }
+}
+
+/**
+ * Check whether a single rule applies to a transaction.
+ * Disabled rules never match.
+ */
+export function ruleMatches(rule: CategorizationRule, target: RuleTarget): boolean {
+  if (!rule.enabled) return false
+
+  if (rule.transaction_type && rule.transaction_type !== target.type) {
+    return false
+  }
+
+  const amount = Math.abs(target.amount)
+  if (rule.min_amount !== null && amount < rule.min_amount) return false
+  if (rule.max_amount !== null && amount > rule.max_amount) return false
+
+  return matchesPattern(target.description, rule.match_type, rule.pattern)
+}
+
+/**
+ * Sort rules into the order they run: ascending priority, then oldest first
+ * so ties are stable.
+ */
+export function sortRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return [...rules].sort((a, b) =>
+    a.priority - b.priority ||
+    (a.created_at ?? '').localeCompare(b.created_at ?? '')
+  )
+}
+
+/**
+ * Run categorization rules over a transaction.
+ *
+ * Rules are evaluated in priority order against the original description.
+ * The first matching rule that sets a category decides the category and the
+ * first matching rule that renames decides the description, so a rename-only
+ * rule doesn't stop a later rule from categorizing.
+ *
+ * @example
+ * ```typescript
+ * const result = applyRules({ description: 'SQ *BLUE BOTTLE', amount: 4.5, type: 'expense' }, rules)
+ * if (result.categoryId) {
+ *   console.log(`Categorized by rule ${result.ruleIds[0]}`)
+ * }
+ * ```
+ */
+export function applyRules(target: RuleTarget, rules: CategorizationRule[]): RuleResult {
+  const result: RuleResult = { categoryId: null, renameTo: null, ruleIds: [] }
+
+  for (const rule of sortRules(rules)) {
+    if (result.categoryId && result.renameTo) break
+    if (!ruleMatches(rule, target)) continue
+
+    let contributed = false
+    if (!result.categoryId && rule.category_id) {
+      result.categoryId = rule.category_id
+      contributed = true
+    }
+    if (!result.renameTo && rule.rename_to?.trim()) {
+      result.renameTo = rule.rename_to.trim()
+      contributed = true
+    }
+    if (contributed) {
+      result.ruleIds.push(rule.id)
+    }
+  }
+
+  return result
+}
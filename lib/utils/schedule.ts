@@ -0,0 +1,191 @@
+/**
+ * Date arithmetic for scheduled transactions.
+ *
+ * All dates are YYYY-MM-DD strings in the household's calendar; they are
+ * handled as UTC midnights so no local timezone can shift them by a day.
+ */
+
+export type ScheduleFrequency =
+  | 'daily'
+  | 'weekly'
+  | 'biweekly'
+  | 'monthly'
+  | 'last_business_day'
+  | 'yearly'
+
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = [
+  'daily',
+  'weekly',
+  'biweekly',
+  'monthly',
+  'last_business_day',
+  'yearly',
+]
+
+export const SCHEDULE_FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+  monthly: 'Monthly on day',
+  last_business_day: 'Last business day of the month',
+  yearly: 'Yearly',
+}
+
+/**
+ * What decides when a schedule falls due.
+ * `dayOfMonth` is used by `monthly`; weekly and yearly schedules keep the
+ * weekday / calendar day of `startDate`.
+ */
+export type ScheduleRule = {
+  frequency: ScheduleFrequency
+  dayOfMonth: number | null
+  startDate: string
+}
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Add days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  const result = parseDate(date)
+  result.setUTCDate(result.getUTCDate() + days)
+  return formatDate(result)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / 86_400_000)
+}
+
+/**
+ * A day in a month, pulled back to the month's last day when it doesn't
+ * exist (the 31st in April, Feb 29 in a common year).
+ */
+function clampedDate(year: number, monthIndex: number, day: number): string {
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate()
+  return formatDate(new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay))))
+}
+
+/**
+ * Add months to a YYYY-MM-DD date, keeping the day of month where it
+ * exists (Jan 31 + 1 month is Feb 28).
+ */
+export function addMonths(date: string, months: number): string {
+  const start = parseDate(date)
+  return clampedDate(start.getUTCFullYear(), start.getUTCMonth() + months, start.getUTCDate())
+}
+
+/**
+ * Last Monday–Friday of a month. Public holidays are not considered.
+ */
+function lastBusinessDay(year: number, monthIndex: number): string {
+  const date = new Date(Date.UTC(year, monthIndex + 1, 0))
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() - 1)
+  }
+  return formatDate(date)
+}
+
+function intervalDays(frequency: ScheduleFrequency): number | null {
+  switch (frequency) {
+    case 'daily':
+      return 1
+    case 'weekly':
+      return 7
+    case 'biweekly':
+      return 14
+    default:
+      return null
+  }
+}
+
+/**
+ * The occurrence in the given month (for monthly-style rules) or year (for yearly).
+ */
+function occurrenceIn(rule: ScheduleRule, year: number, monthIndex: number): string {
+  const start = parseDate(rule.startDate)
+
+  switch (rule.frequency) {
+    case 'monthly':
+      return clampedDate(year, monthIndex, rule.dayOfMonth ?? start.getUTCDate())
+    case 'last_business_day':
+      return lastBusinessDay(year, monthIndex)
+    default:
+      return clampedDate(year, start.getUTCMonth(), start.getUTCDate())
+  }
+}
+
+/**
+ * First date on or after `from` (and never before the rule's start date)
+ * on which the schedule falls due.
+ *
+ * @example
+ * ```typescript
+ * getFirstOccurrence({ frequency: 'monthly', dayOfMonth: 1, startDate: '2026-03-15' }, '2026-03-15')
+ * // '2026-04-01'
+ * ```
+ */
+export function getFirstOccurrence(rule: ScheduleRule, from: string): string {
+  const target = from > rule.startDate ? from : rule.startDate
+  const interval = intervalDays(rule.frequency)
+
+  if (interval) {
+    // Stay on the rule's cadence, counted from its start date
+    const elapsed = daysBetween(rule.startDate, target)
+    return addDays(rule.startDate, Math.ceil(elapsed / interval) * interval)
+  }
+
+  const date = parseDate(target)
+  const year = date.getUTCFullYear()
+  const monthIndex = date.getUTCMonth()
+
+  if (rule.frequency === 'yearly') {
+    const candidate = occurrenceIn(rule, year, monthIndex)
+    return candidate >= target ? candidate : occurrenceIn(rule, year + 1, monthIndex)
+  }
+
+  const candidate = occurrenceIn(rule, year, monthIndex)
+  if (candidate >= target) return candidate
+
+  const next = new Date(Date.UTC(year, monthIndex + 1, 1))
+  return occurrenceIn(rule, next.getUTCFullYear(), next.getUTCMonth())
+}
+
+/**
+ * The occurrence that follows `date`, which must itself be an occurrence.
+ */
+export function getNextOccurrence(rule: ScheduleRule, date: string): string {
+  return getFirstOccurrence(rule, addDays(date, 1))
+}
+
+/**
+ * Occurrences from `nextDate` up to and including `through`, stopping at
+ * the schedule's end date.
+ *
+ * @param limit - Maximum number of dates returned
+ */
+export function listOccurrences(
+  rule: ScheduleRule,
+  nextDate: string,
+  through: string,
+  endDate: string | null,
+  limit: number
+): string[] {
+  const dates: string[] = []
+  let date = nextDate
+
+  while (date <= through && (!endDate || date <= endDate) && dates.length < limit) {
+    dates.push(date)
+    date = getNextOccurrence(rule, date)
+  }
+
+  return dates
+}
+
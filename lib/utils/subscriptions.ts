@@ -0,0 +1,157 @@
+/**
+ * Subscription tracking: when a recurring charge is next expected, and
+ * whether it has drifted in price, been missed, or stopped altogether.
+ */
+import { addDays, addMonths } from '@/lib/utils/schedule'
+
+export type SubscriptionFrequency = 'weekly' | 'monthly' | 'quarterly'
+
+/**
+ * Derived state of a tracked subscription.
+ * - `active`: charged on schedule
+ * - `missed`: the expected charge is overdue
+ * - `cancelled`: marked cancelled, or two expected charges never arrived
+ */
+export type SubscriptionState = 'active' | 'missed' | 'cancelled'
+
+// Charges within ±10% of each other are treated as the same price
+export const AMOUNT_TOLERANCE = 0.1
+
+// Days a charge may run late before it counts as missed
+const GRACE_DAYS: Record<SubscriptionFrequency, number> = {
+  weekly: 3,
+  monthly: 7,
+  quarterly: 14,
+}
+
+/**
+ * Whether `amount` is within the ±10% grouping of `reference`.
+ */
+export function isSimilarAmount(amount: number, reference: number): boolean {
+  return Math.abs(amount - reference) <= reference * AMOUNT_TOLERANCE
+}
+
+/**
+ * The date one billing period after `date`.
+ */
+export function addBillingPeriod(date: string, frequency: SubscriptionFrequency): string {
+  switch (frequency) {
+    case 'weekly':
+      return addDays(date, 7)
+    case 'quarterly':
+      return addMonths(date, 3)
+    default:
+      return addMonths(date, 1)
+  }
+}
+
+/**
+ * The latest charge that arrived on the subscription's schedule.
+ *
+ * Walks the billing periods from the last recorded charge up to today.
+ * Each expected date takes a charge within its grace days either side, or
+ * one at the tracked price since the charge before (billing days drift),
+ * and the schedule carries on from the charge taken. Other purchases from
+ * the same merchant and refunds are ignored, so they can't pass for a
+ * price change or keep a stopped subscription active.
+ *
+ * @param charges - The merchant's charges, oldest first
+ * @param amount - The tracked price
+ * @param lastChargeDate - Date of the last recorded charge
+ * @param today - Today's date (YYYY-MM-DD)
+ *
+ * @example
+ * ```typescript
+ * findLatestScheduledCharge(
+ *   [{ date: '2026-02-05', amount: 14.99 }, { date: '2026-02-19', amount: 62.4 }],
+ *   'monthly', 14.99, '2026-01-05', '2026-02-20'
+ * )
+ * // { date: '2026-02-05', amount: 14.99 }
+ * ```
+ */
+export function findLatestScheduledCharge<T extends { date: string; amount: number }>(
+  charges: T[],
+  frequency: SubscriptionFrequency,
+  amount: number,
+  lastChargeDate: string,
+  today: string
+): T | null {
+  const grace = GRACE_DAYS[frequency]
+  const distance = (charge: T, date: string) => Math.abs(Date.parse(charge.date) - Date.parse(date))
+
+  let latest: T | null = null
+  let expected = lastChargeDate
+  while (addDays(expected, -grace) <= today) {
+    const from = addDays(expected, -grace)
+    const through = addDays(expected, grace)
+    const after: string = latest?.date ?? lastChargeDate
+    const candidates = charges.filter((charge) =>
+      charge.amount > 0 &&
+      charge.date >= lastChargeDate &&
+      charge.date <= through &&
+      (charge.date >= from || (charge.date > after && isSimilarAmount(charge.amount, amount)))
+    )
+    // Prefer the usual price, then the charge closest to the expected date
+    const [match] = [...candidates].sort((a, b) =>
+      Number(isSimilarAmount(b.amount, amount)) - Number(isSimilarAmount(a.amount, amount)) ||
+      distance(a, expected) - distance(b, expected)
+    )
+
+    if (match) latest = match
+    expected = addBillingPeriod(match?.date ?? expected, frequency)
+  }
+
+  return latest
+}
+
+/**
+ * When the next charge is expected and what state the subscription is in.
+ *
+ * @param lastChargeDate - Date of the most recent charge
+ * @param isCancelled - The household marked the subscription cancelled
+ * @param today - Today's date (YYYY-MM-DD)
+ *
+ * @example
+ * ```typescript
+ * getSubscriptionState('monthly', '2026-01-05', false, '2026-02-20')
+ * // { state: 'missed', nextExpectedDate: '2026-02-05' }
+ * ```
+ */
+export function getSubscriptionState(
+  frequency: SubscriptionFrequency,
+  lastChargeDate: string,
+  isCancelled: boolean,
+  today: string
+): { state: SubscriptionState; nextExpectedDate: string | null } {
+  if (isCancelled) {
+    return { state: 'cancelled', nextExpectedDate: null }
+  }
+
+  const nextExpectedDate = addBillingPeriod(lastChargeDate, frequency)
+  const grace = GRACE_DAYS[frequency]
+
+  // The charge after the missed one didn't arrive either
+  if (today > addDays(addBillingPeriod(nextExpectedDate, frequency), grace)) {
+    return { state: 'cancelled', nextExpectedDate: null }
+  }
+
+  if (today > addDays(nextExpectedDate, grace)) {
+    return { state: 'missed', nextExpectedDate }
+  }
+
+  return { state: 'active', nextExpectedDate }
+}
+
+/**
+ * Approximate monthly cost of a charge at the given frequency.
+ */
+export function estimateMonthlyCost(amount: number, frequency: SubscriptionFrequency): number {
+  switch (frequency) {
+    case 'weekly':
+      return amount * 4.33
+    case 'quarterly':
+      return amount / 3
+    default:
+      return amount
+  }
+}
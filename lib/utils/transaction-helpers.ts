@@ -4,10 +4,22 @@
  */
 
 import { TransactionWithCategory } from '@/lib/actions/transactions'
+import { dollarsToCents } from '@/lib/utils/money'
+
+/**
+ * Determines if a transaction is a transfer between two of the
+ * household's accounts. Transfers are neither income nor spending.
+ *
+ * @param transaction Transaction with its type
+ * @returns true if the transaction moves money between accounts
+ */
+export function isTransferTransaction(transaction: { type?: string }): boolean {
+    return transaction.type === 'transfer'
+}
 
 /**
  * Determines if a transaction is an income transaction.
- * A transaction is considered income if:
+ * A transaction is considered income if it is not a transfer and:
  * - Its type field is explicitly 'income', OR
  * - Its category name (case-insensitive) is 'income'
  * 
@@ -20,5 +32,105 @@ export function isIncomeTransaction(
     const type = (transaction as { type?: string }).type
     const categoryName = transaction.category?.name?.toLowerCase()
 
+    if (type === 'transfer') return false
     return type === 'income' || categoryName === 'income'
 }
+
+/**
+ * Determines if a transaction is spending: anything that is neither
+ * income nor a transfer. Refunds are negative expenses.
+ *
+ * @param transaction Transaction with optional category data
+ * @returns true if the transaction counts toward spending
+ */
+export function isExpenseTransaction(
+    transaction: TransactionWithCategory | { type?: string; category?: { name?: string } | null }
+): boolean {
+    return !isTransferTransaction(transaction) && !isIncomeTransaction(transaction)
+}
+
+/**
+ * How an imported statement row is recorded:
+ * - expense: money out, stored as a positive expense
+ * - income: money in, stored as positive income
+ * - refund: money back from a merchant, stored as a negative expense
+ */
+export type ImportKind = 'expense' | 'income' | 'refund'
+
+const REFUND_PATTERN = /\b(refund|return|reversal|credit voucher)\b/i
+
+/**
+ * Guess how a parsed statement row should be imported.
+ * Money out is an expense; money in is a refund when the description
+ * looks like one, and income otherwise.
+ *
+ * @param transaction Parsed row with a signed amount (negative = money out)
+ * @returns The default import kind for the row
+ */
+export function classifyImportedTransaction(
+    transaction: { amount: number; description: string }
+): ImportKind {
+    if (transaction.amount < 0) {
+        return 'expense'
+    }
+    return REFUND_PATTERN.test(transaction.description) ? 'refund' : 'income'
+}
+
+/**
+ * Convert a statement amount and import kind into the stored amount and type,
+ * using the same sign rules as createTransaction.
+ *
+ * @param amount Signed statement amount
+ * @param kind How the row is being imported
+ * @returns Amount and transaction type to store
+ */
+export function toStoredTransaction(
+    amount: number,
+    kind: ImportKind
+): { amount: number; type: 'income' | 'expense' } {
+    const magnitude = Math.abs(amount)
+
+    switch (kind) {
+        case 'income':
+            return { amount: magnitude, type: 'income' }
+        case 'refund':
+            return { amount: -magnitude, type: 'expense' }
+        default:
+            return { amount: magnitude, type: 'expense' }
+    }
+}
+
+/**
+ * A share of a transaction's amount attributed to one category, in cents.
+ */
+export type CategoryAllocation = {
+    categoryId: string | null
+    amountCents: number
+}
+
+/**
+ * Attribute a transaction's amount to categories.
+ * A split transaction contributes each split line to that line's category;
+ * any other transaction contributes its whole amount to its own category.
+ *
+ * @param transaction Transaction with optional split lines
+ * @returns One allocation per category share
+ */
+export function getCategoryAllocations(transaction: {
+    category_id: string | null
+    amount: number
+    amount_cents?: number | null
+    splits?: Array<{ category_id: string | null; amount_cents: number }> | null
+}): CategoryAllocation[] {
+    if (transaction.splits && transaction.splits.length > 0) {
+        return transaction.splits.map((split) => ({
+            categoryId: split.category_id,
+            amountCents: split.amount_cents,
+        }))
+    }
+
+    return [{
+        categoryId: transaction.category_id,
+        amountCents: transaction.amount_cents ?? dollarsToCents(transaction.amount),
+    }]
+}
@@ -0,0 +1,167 @@
+/**
+ * Transaction search: reading filters from the /transactions URL, writing
+ * them back, and the opaque cursor that pages through results.
+ */
+
+export const TRANSACTION_SORTS = ['date_desc', 'date_asc', 'amount_desc', 'amount_asc'] as const
+
+export type TransactionSort = (typeof TRANSACTION_SORTS)[number]
+
+export const TRANSACTION_SORT_LABELS: Record<TransactionSort, string> = {
+  date_desc: 'Newest first',
+  date_asc: 'Oldest first',
+  amount_desc: 'Largest first',
+  amount_asc: 'Smallest first',
+}
+
+/**
+ * Search filters as they appear in the URL. Every field is optional; the
+ * server falls back to the newest transactions first.
+ */
+export type TransactionSearchParams = {
+  search?: string
+  startDate?: string
+  endDate?: string
+  categoryId?: string
+  type?: 'income' | 'expense' | 'transfer'
+  minAmount?: number
+  maxAmount?: number
+  sort?: TransactionSort
+  cursor?: string
+}
+
+// URL parameter for each filter
+const PARAM_NAMES: Record<keyof TransactionSearchParams, string> = {
+  search: 'q',
+  startDate: 'from',
+  endDate: 'to',
+  categoryId: 'category',
+  type: 'type',
+  minAmount: 'min',
+  maxAmount: 'max',
+  sort: 'sort',
+  cursor: 'cursor',
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TYPES = ['income', 'expense', 'transfer'] as const
+
+function first(value: string | string[] | undefined): string | undefined {
+  const text = Array.isArray(value) ? value[0] : value
+  return text?.trim() || undefined
+}
+
+function parseAmount(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const amount = Number(value)
+  return Number.isFinite(amount) ? amount : undefined
+}
+
+/**
+ * Read search filters from URL search params. Values that don't parse are
+ * dropped rather than failing the page.
+ *
+ * @example
+ * ```typescript
+ * parseTransactionSearchParams({ q: 'coffee', min: '5', type: 'bogus' })
+ * // { search: 'coffee', minAmount: 5 }
+ * ```
+ */
+export function parseTransactionSearchParams(
+  params: Record<string, string | string[] | undefined>
+): TransactionSearchParams {
+  const get = (key: keyof TransactionSearchParams) => first(params[PARAM_NAMES[key]])
+
+  const startDate = get('startDate')
+  const endDate = get('endDate')
+  const type = get('type')
+  const sort = get('sort')
+
+  const filters: TransactionSearchParams = {
+    search: get('search')?.slice(0, 100),
+    startDate: startDate && DATE_PATTERN.test(startDate) ? startDate : undefined,
+    endDate: endDate && DATE_PATTERN.test(endDate) ? endDate : undefined,
+    categoryId: get('categoryId'),
+    type: TYPES.find((t) => t === type),
+    minAmount: parseAmount(get('minAmount')),
+    maxAmount: parseAmount(get('maxAmount')),
+    sort: TRANSACTION_SORTS.find((s) => s === sort),
+    cursor: get('cursor'),
+  }
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as TransactionSearchParams
+}
+
+/**
+ * Write search filters back to a query string (without the leading '?').
+ * The default sort is left out to keep URLs short.
+ */
+export function toTransactionSearchQuery(filters: TransactionSearchParams): string {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(PARAM_NAMES) as (keyof TransactionSearchParams)[]) {
+    const value = filters[key]
+    if (value === undefined || value === '') continue
+    if (key === 'sort' && value === 'date_desc') continue
+    params.set(PARAM_NAMES[key], String(value))
+  }
+  return params.toString()
+}
+
+/**
+ * Whether any filter narrows the results (sort and cursor don't)
+ */
+export function hasActiveFilters(filters: TransactionSearchParams): boolean {
+  return Object.entries(filters).some(
+    ([key, value]) => key !== 'sort' && key !== 'cursor' && value !== undefined && value !== ''
+  )
+}
+
+/**
+ * Escape %, _ and \ so text is matched literally in an ILIKE pattern
+ */
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+// Position of the last row on a page, as returned by search_transactions
+export type TransactionCursor = {
+  id: string
+  date: string
+  created_at: string
+  amount_cents: number
+}
+
+/**
+ * Encode a page position as an opaque, URL-safe cursor
+ */
+export function encodeCursor(cursor: TransactionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * Decode a cursor from encodeCursor, or null when it has been tampered with
+ */
+export function decodeCursor(value: string): TransactionCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (
+      typeof cursor?.id === 'string' && uuid.test(cursor.id) &&
+      typeof cursor.date === 'string' && DATE_PATTERN.test(cursor.date) &&
+      typeof cursor.created_at === 'string' && !Number.isNaN(Date.parse(cursor.created_at)) &&
+      Number.isInteger(cursor.amount_cents)
+    ) {
+      return {
+        id: cursor.id,
+        date: cursor.date,
+        created_at: cursor.created_at,
+        amount_cents: cursor.amount_cents,
+      }
+    }
+  } catch {
+    // Not base64 JSON
+  }
+  return null
+}
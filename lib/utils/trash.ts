@@ -0,0 +1,23 @@
+/**
+ * How long deleted transactions and categories stay in the trash before
+ * they are deleted for good.
+ */
+
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Anything trashed before this time has been in the trash too long
+ */
+export function getTrashPurgeCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS).toISOString()
+}
+
+/**
+ * Whole days left before a trashed item is purged (0 once it's due)
+ */
+export function getDaysUntilPurge(deletedAt: string, now: Date = new Date()): number {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS))
+}
@@ -0,0 +1,17 @@
+-- Migration: Saved CSV column mappings
+-- Remembers how a household mapped an unrecognized CSV header layout so the
+-- next import of the same layout skips the column-mapping step.
+
+CREATE TABLE IF NOT EXISTS csv_column_mappings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  header_signature TEXT NOT NULL,
+  mapping JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(household_id, header_signature)
+);
+
+CREATE INDEX IF NOT EXISTS idx_csv_column_mappings_household ON csv_column_mappings(household_id);
+
+ALTER TABLE csv_column_mappings ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,114 @@
+-- Let statement imports bring in income and refunds
+-- Refunds are stored as negative expenses (matching createTransaction), so the
+-- positive-only check from convert_to_cents.sql is relaxed to non-zero.
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_amount_cents_positive;
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_amount_cents_max;
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_amount_cents_nonzero CHECK (amount_cents <> 0);
+ALTER TABLE transactions ADD CONSTRAINT transactions_amount_cents_max CHECK (ABS(amount_cents) <= 10000000000); -- $100M max
+
+-- Recreate the bulk import function to accept a type per transaction,
+-- negative refund amounts, and to populate amount_cents
+CREATE OR REPLACE FUNCTION bulk_import_transactions(
+  p_household_id UUID,
+  p_transactions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction JSONB;
+  v_imported INT := 0;
+  v_errors JSONB := '[]'::JSONB;
+  v_index INT := 0;
+  v_type TEXT;
+  v_amount DECIMAL(10,2);
+BEGIN
+  -- Validate household exists
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid household ID',
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions)
+    );
+  END IF;
+
+  -- Process each transaction in the array
+  FOR v_transaction IN SELECT * FROM jsonb_array_elements(p_transactions)
+  LOOP
+    BEGIN
+      v_type := COALESCE(v_transaction->>'type', 'expense');
+      v_amount := (v_transaction->>'amount')::DECIMAL(10,2);
+
+      IF v_type NOT IN ('income', 'expense') THEN
+        RAISE EXCEPTION 'Invalid transaction type: %', v_type;
+      END IF;
+
+      -- Only expenses can be negative (refunds)
+      IF v_amount = 0 OR (v_type = 'income' AND v_amount < 0) THEN
+        RAISE EXCEPTION 'Invalid amount';
+      END IF;
+
+      -- Category is required for expenses that aren't refunds
+      IF v_type = 'expense' AND v_amount > 0 AND v_transaction->>'category_id' IS NULL THEN
+        RAISE EXCEPTION 'Category is required for expenses';
+      END IF;
+
+      INSERT INTO transactions (
+        household_id,
+        category_id,
+        amount,
+        amount_cents,
+        description,
+        date,
+        type
+      ) VALUES (
+        p_household_id,
+        (v_transaction->>'category_id')::UUID,
+        v_amount,
+        ROUND(v_amount * 100)::BIGINT,
+        v_transaction->>'description',
+        (v_transaction->>'date')::DATE,
+        v_type
+      );
+      v_imported := v_imported + 1;
+    EXCEPTION WHEN OTHERS THEN
+      -- Collect error but continue processing to report all errors
+      v_errors := v_errors || jsonb_build_object(
+        'index', v_index,
+        'message', SQLERRM
+      );
+    END;
+    v_index := v_index + 1;
+  END LOOP;
+
+  -- If any errors occurred, rollback the entire transaction
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RAISE EXCEPTION 'Import failed with errors: %', v_errors::TEXT;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'imported', v_imported,
+    'failed', 0,
+    'errors', '[]'::JSONB
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Return error details without rolling back (the exception already did that)
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions),
+      'errors', v_errors
+    );
+END;
+$$;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB) FROM PUBLIC, anon;
@@ -0,0 +1,203 @@
+-- Migration: Import batches
+-- Records each statement import as a batch so it can be reviewed and undone.
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  format TEXT,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  start_date DATE,
+  end_date DATE,
+  transaction_ids UUID[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'imported' CHECK (status IN ('imported', 'rolled_back')),
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_household_created
+  ON import_batches(household_id, created_at DESC);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+-- Replace the two-argument bulk import with one that also records the batch
+DROP FUNCTION IF EXISTS bulk_import_transactions(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION bulk_import_transactions(
+  p_household_id UUID,
+  p_transactions JSONB,
+  p_batch JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction JSONB;
+  v_imported INT := 0;
+  v_errors JSONB := '[]'::JSONB;
+  v_index INT := 0;
+  v_type TEXT;
+  v_amount DECIMAL(10,2);
+  v_id UUID;
+  v_ids UUID[] := '{}';
+  v_batch_id UUID;
+BEGIN
+  -- Validate household exists
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid household ID',
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions)
+    );
+  END IF;
+
+  -- Process each transaction in the array
+  FOR v_transaction IN SELECT * FROM jsonb_array_elements(p_transactions)
+  LOOP
+    BEGIN
+      v_type := COALESCE(v_transaction->>'type', 'expense');
+      v_amount := (v_transaction->>'amount')::DECIMAL(10,2);
+
+      IF v_type NOT IN ('income', 'expense') THEN
+        RAISE EXCEPTION 'Invalid transaction type: %', v_type;
+      END IF;
+
+      -- Only expenses can be negative (refunds)
+      IF v_amount = 0 OR (v_type = 'income' AND v_amount < 0) THEN
+        RAISE EXCEPTION 'Invalid amount';
+      END IF;
+
+      -- Category is required for expenses that aren't refunds
+      IF v_type = 'expense' AND v_amount > 0 AND v_transaction->>'category_id' IS NULL THEN
+        RAISE EXCEPTION 'Category is required for expenses';
+      END IF;
+
+      INSERT INTO transactions (
+        household_id,
+        category_id,
+        amount,
+        amount_cents,
+        description,
+        date,
+        type
+      ) VALUES (
+        p_household_id,
+        (v_transaction->>'category_id')::UUID,
+        v_amount,
+        ROUND(v_amount * 100)::BIGINT,
+        v_transaction->>'description',
+        (v_transaction->>'date')::DATE,
+        v_type
+      )
+      RETURNING id INTO v_id;
+
+      v_ids := array_append(v_ids, v_id);
+      v_imported := v_imported + 1;
+    EXCEPTION WHEN OTHERS THEN
+      -- Collect error but continue processing to report all errors
+      v_errors := v_errors || jsonb_build_object(
+        'index', v_index,
+        'message', SQLERRM
+      );
+    END;
+    v_index := v_index + 1;
+  END LOOP;
+
+  -- If any errors occurred, rollback the entire transaction
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RAISE EXCEPTION 'Import failed with errors: %', v_errors::TEXT;
+  END IF;
+
+  -- Record the batch in the same transaction as its rows
+  IF p_batch IS NOT NULL AND v_imported > 0 THEN
+    INSERT INTO import_batches (
+      household_id,
+      file_name,
+      format,
+      row_count,
+      start_date,
+      end_date,
+      transaction_ids
+    )
+    SELECT
+      p_household_id,
+      COALESCE(NULLIF(p_batch->>'file_name', ''), 'Unknown file'),
+      p_batch->>'format',
+      v_imported,
+      MIN((t->>'date')::DATE),
+      MAX((t->>'date')::DATE),
+      v_ids
+    FROM jsonb_array_elements(p_transactions) AS t
+    RETURNING id INTO v_batch_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'imported', v_imported,
+    'failed', 0,
+    'errors', '[]'::JSONB,
+    'batch_id', v_batch_id
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Return error details without rolling back (the exception already did that)
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions),
+      'errors', v_errors
+    );
+END;
+$$;
+
+-- Undo an import: delete every transaction it created in one transaction
+CREATE OR REPLACE FUNCTION rollback_import_batch(
+  p_household_id UUID,
+  p_batch_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_batch import_batches%ROWTYPE;
+  v_deleted INT;
+BEGIN
+  -- Lock the batch so two undo requests can't race
+  SELECT * INTO v_batch
+  FROM import_batches
+  WHERE id = p_batch_id AND household_id = p_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Import batch not found');
+  END IF;
+
+  IF v_batch.status = 'rolled_back' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Import has already been undone');
+  END IF;
+
+  -- Transactions already deleted by hand are simply skipped
+  DELETE FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_batch.transaction_ids);
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  UPDATE import_batches
+  SET status = 'rolled_back',
+      rolled_back_at = NOW()
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object('success', true, 'deleted', v_deleted);
+END;
+$$;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION rollback_import_batch(UUID, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION rollback_import_batch(UUID, UUID) FROM PUBLIC, anon;
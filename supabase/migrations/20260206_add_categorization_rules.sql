@@ -0,0 +1,29 @@
+-- Migration: Categorization rules
+-- Ordered rules that match a transaction's description (and optionally its
+-- amount and type) and then set its category and/or rename its description.
+-- Rules run in ascending priority; the first rule that sets a category wins,
+-- and the first rule that renames wins.
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  priority INTEGER NOT NULL DEFAULT 0,
+  match_type TEXT NOT NULL CHECK (match_type IN ('contains', 'starts_with', 'exact', 'regex', 'whole_word')),
+  pattern TEXT NOT NULL CHECK (char_length(pattern) BETWEEN 1 AND 200),
+  min_amount DECIMAL(10,2),
+  max_amount DECIMAL(10,2),
+  transaction_type TEXT CHECK (transaction_type IN ('income', 'expense')),
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  rename_to TEXT CHECK (char_length(rename_to) <= 100),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- A rule must do something
+  CHECK (category_id IS NOT NULL OR rename_to IS NOT NULL),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_household_priority
+  ON categorization_rules(household_id, priority);
+
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,59 @@
+-- Migration: Merchant pattern usage counts
+-- Records how often each merchant has been filed under each category so the
+-- matcher can prefer the most frequent (then most recent) category, and adds
+-- a function that records many categorizations in one round trip.
+
+ALTER TABLE merchant_patterns
+  ADD COLUMN IF NOT EXISTS match_count INTEGER NOT NULL DEFAULT 1 CHECK (match_count > 0),
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Record categorizations: p_patterns is an array of
+-- { merchant_name, category_id } objects, one per categorized transaction
+CREATE OR REPLACE FUNCTION record_merchant_patterns(
+  p_household_id UUID,
+  p_patterns JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_recorded INT;
+BEGIN
+  INSERT INTO merchant_patterns (
+    household_id,
+    merchant_name,
+    category_id,
+    match_count,
+    last_used_at
+  )
+  SELECT
+    p_household_id,
+    LOWER(TRIM(p->>'merchant_name')),
+    (p->>'category_id')::UUID,
+    COUNT(*),
+    NOW()
+  FROM jsonb_array_elements(p_patterns) AS p
+  WHERE NULLIF(TRIM(p->>'merchant_name'), '') IS NOT NULL
+    AND p->>'category_id' IS NOT NULL
+    -- Only learn categories that belong to this household
+    AND EXISTS (
+      SELECT 1 FROM categories c
+      WHERE c.id = (p->>'category_id')::UUID
+        AND c.household_id = p_household_id
+    )
+  GROUP BY LOWER(TRIM(p->>'merchant_name')), (p->>'category_id')::UUID
+  ON CONFLICT (household_id, merchant_name, category_id) DO UPDATE
+    SET match_count = merchant_patterns.match_count + EXCLUDED.match_count,
+        last_used_at = EXCLUDED.last_used_at;
+
+  GET DIAGNOSTICS v_recorded = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'recorded', v_recorded);
+END;
+$$;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION record_merchant_patterns(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION record_merchant_patterns(UUID, JSONB) FROM PUBLIC, anon;
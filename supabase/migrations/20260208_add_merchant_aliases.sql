@@ -0,0 +1,17 @@
+-- Migration: Merchant aliases
+-- Household-editable names for merchants. A description whose normalized
+-- merchant name starts with match_text is treated as display_name when
+-- grouping insights and learning merchant patterns.
+
+CREATE TABLE IF NOT EXISTS merchant_aliases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  match_text TEXT NOT NULL CHECK (char_length(match_text) BETWEEN 1 AND 100),
+  display_name TEXT NOT NULL CHECK (char_length(display_name) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(household_id, match_text)
+);
+
+CREATE INDEX IF NOT EXISTS idx_merchant_aliases_household ON merchant_aliases(household_id);
+
+ALTER TABLE merchant_aliases ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,110 @@
+-- Migration: Transaction splits
+-- Lets one transaction (e.g. a Costco receipt) be spread across several
+-- categories. A split transaction has no category of its own; its split
+-- lines carry the categories and always sum to the transaction amount.
+
+CREATE TABLE IF NOT EXISTS transaction_splits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0),
+  amount_cents BIGINT NOT NULL CHECK (amount_cents <> 0),
+  memo TEXT CHECK (memo IS NULL OR char_length(memo) <= 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON transaction_splits(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_household_category ON transaction_splits(household_id, category_id);
+
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+-- Replace a transaction's split lines in one transaction.
+-- An empty array removes the splits.
+CREATE OR REPLACE FUNCTION set_transaction_splits(
+  p_household_id UUID,
+  p_transaction_id UUID,
+  p_splits JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+  v_split JSONB;
+  v_total_cents BIGINT := 0;
+  v_amount DECIMAL(10,2);
+  v_count INT := 0;
+BEGIN
+  -- Lock the parent so concurrent edits can't interleave their splits
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id AND household_id = p_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  DELETE FROM transaction_splits
+  WHERE transaction_id = p_transaction_id
+    AND household_id = p_household_id;
+
+  IF p_splits IS NULL OR jsonb_array_length(p_splits) = 0 THEN
+    RETURN jsonb_build_object('success', true, 'splits', 0);
+  END IF;
+
+  IF v_transaction.type = 'income' THEN
+    RAISE EXCEPTION 'Only expenses can be split';
+  END IF;
+
+  IF jsonb_array_length(p_splits) < 2 THEN
+    RAISE EXCEPTION 'A split needs at least two lines';
+  END IF;
+
+  FOR v_split IN SELECT * FROM jsonb_array_elements(p_splits)
+  LOOP
+    v_amount := (v_split->>'amount')::DECIMAL(10,2);
+
+    IF NOT EXISTS (
+      SELECT 1 FROM categories
+      WHERE id = (v_split->>'category_id')::UUID
+        AND household_id = p_household_id
+    ) THEN
+      RAISE EXCEPTION 'Category not found';
+    END IF;
+
+    INSERT INTO transaction_splits (
+      household_id,
+      transaction_id,
+      category_id,
+      amount,
+      amount_cents,
+      memo
+    ) VALUES (
+      p_household_id,
+      p_transaction_id,
+      (v_split->>'category_id')::UUID,
+      v_amount,
+      ROUND(v_amount * 100)::BIGINT,
+      NULLIF(v_split->>'memo', '')
+    );
+
+    v_total_cents := v_total_cents + ROUND(v_amount * 100)::BIGINT;
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_total_cents <> COALESCE(v_transaction.amount_cents, ROUND(v_transaction.amount * 100)::BIGINT) THEN
+    RAISE EXCEPTION 'Splits must add up to the transaction amount';
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'splits', v_count);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_transaction_splits(UUID, UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION set_transaction_splits(UUID, UUID, JSONB) FROM PUBLIC, anon;
@@ -0,0 +1,23 @@
+-- Migration: Category rollover policies
+-- Each category decides what happens to its envelope balance at month end:
+--   reset          - start every month from the budgeted amount
+--   carry_surplus  - unspent money carries into next month
+--   carry_both     - unspent money carries forward and overspending is carried as debt
+--   cap            - unspent money carries forward, up to rollover_cap_cents
+-- Carryover is computed from budgets and transactions, so it is never stale.
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS rollover_policy TEXT NOT NULL DEFAULT 'reset'
+    CHECK (rollover_policy IN ('reset', 'carry_surplus', 'carry_both', 'cap')),
+  ADD COLUMN IF NOT EXISTS rollover_cap_cents BIGINT
+    CHECK (rollover_cap_cents IS NULL OR rollover_cap_cents >= 0);
+
+ALTER TABLE categories
+  DROP CONSTRAINT IF EXISTS categories_rollover_cap_required;
+
+ALTER TABLE categories
+  ADD CONSTRAINT categories_rollover_cap_required
+    CHECK (rollover_policy <> 'cap' OR rollover_cap_cents IS NOT NULL);
+
+COMMENT ON COLUMN categories.rollover_policy IS 'What happens to the unspent or overspent balance at month end';
+COMMENT ON COLUMN categories.rollover_cap_cents IS 'Most that can carry forward when rollover_policy is cap';
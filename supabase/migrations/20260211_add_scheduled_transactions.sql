@@ -0,0 +1,41 @@
+-- Migration: Scheduled transactions
+-- Recurring bills and income (rent, utilities, paychecks) that turn into
+-- real transactions when they fall due. `next_date` is the next occurrence
+-- that hasn't been posted or skipped yet. In 'auto' mode due occurrences are
+-- posted automatically; in 'confirm' mode they wait for someone to confirm.
+
+CREATE TABLE IF NOT EXISTS scheduled_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  description TEXT CHECK (char_length(description) <= 100),
+  type TEXT NOT NULL DEFAULT 'expense' CHECK (type IN ('income', 'expense')),
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'biweekly', 'monthly', 'last_business_day', 'yearly')),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  next_date DATE NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'auto' CHECK (mode IN ('auto', 'confirm')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_transactions_household_next
+  ON scheduled_transactions(household_id, next_date);
+
+ALTER TABLE scheduled_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Link posted transactions to the occurrence they came from. The unique
+-- index is what guarantees an occurrence is never posted twice, even when
+-- two requests race to post it.
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS scheduled_transaction_id UUID REFERENCES scheduled_transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS scheduled_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_scheduled_occurrence
+  ON transactions(scheduled_transaction_id, scheduled_date)
+  WHERE scheduled_transaction_id IS NOT NULL;
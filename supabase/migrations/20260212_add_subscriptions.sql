@@ -0,0 +1,26 @@
+-- Migration: Subscriptions
+-- Recurring charges the household has reviewed. A detected recurring charge
+-- is either confirmed as a tracked subscription or dismissed as a false
+-- positive; either way it stops being suggested. `merchant` is the
+-- normalized merchant key used to group transactions, and `amount` is the
+-- price the household last confirmed, which price-change alerts compare to.
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  merchant TEXT NOT NULL CHECK (char_length(merchant) BETWEEN 1 AND 100),
+  display_name TEXT NOT NULL CHECK (char_length(display_name) BETWEEN 1 AND 100),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly')),
+  status TEXT NOT NULL DEFAULT 'tracked' CHECK (status IN ('tracked', 'cancelled', 'dismissed')),
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  last_charge_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_household_merchant
+  ON subscriptions(household_id, merchant);
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,43 @@
+-- Migration: Savings goals
+-- Goals to save toward (a vacation, a car, an emergency fund) by a target
+-- date. Progress is the sum of the goal's contributions plus, when the goal
+-- is linked to a category, spending in that category since the goal
+-- started (e.g. transfers to a savings account filed under "Vacation").
+-- With auto_budget on, the required monthly contribution is written into
+-- monthly_budgets for the linked category each month.
+
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  target_amount DECIMAL(10,2) NOT NULL CHECK (target_amount > 0),
+  target_amount_cents BIGINT NOT NULL CHECK (target_amount_cents > 0),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  target_date DATE NOT NULL,
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  auto_budget BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (target_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_goals_household ON savings_goals(household_id);
+
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+
+-- Money put toward (or taken back out of) a goal by hand
+CREATE TABLE IF NOT EXISTS goal_contributions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  goal_id UUID NOT NULL REFERENCES savings_goals(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0),
+  amount_cents BIGINT NOT NULL CHECK (amount_cents <> 0),
+  date DATE NOT NULL,
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_contributions_household_date ON goal_contributions(household_id, date);
+CREATE INDEX IF NOT EXISTS idx_goal_contributions_goal ON goal_contributions(goal_id);
+
+ALTER TABLE goal_contributions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,297 @@
+-- Migration: Accounts and transfers
+-- Checking, savings, credit card and cash accounts. Every transaction belongs
+-- to an account; a transfer moves money from its account to
+-- transfer_account_id and is neither spending nor income. An account's
+-- balance is its opening balance plus income, minus expenses, minus
+-- transfers out, plus transfers in.
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  type TEXT NOT NULL DEFAULT 'checking' CHECK (type IN ('checking', 'savings', 'credit_card', 'cash')),
+  -- Credit cards open with a negative balance for the amount owed
+  opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  opening_balance_cents BIGINT NOT NULL DEFAULT 0,
+  -- Used when a transaction is saved without an account (quick add, schedules)
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (household_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_household ON accounts(household_id);
+
+-- At most one default account per household
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_household_default
+  ON accounts(household_id)
+  WHERE is_default;
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+-- Every existing household starts with a default checking account
+INSERT INTO accounts (household_id, name, type, is_default)
+SELECT h.id, 'Checking', 'checking', TRUE
+FROM households h
+WHERE NOT EXISTS (SELECT 1 FROM accounts a WHERE a.household_id = h.id);
+
+-- ...and so does every new one
+CREATE OR REPLACE FUNCTION create_default_account()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO accounts (household_id, name, type, is_default)
+  VALUES (NEW.id, 'Checking', 'checking', TRUE);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS households_create_default_account ON households;
+CREATE TRIGGER households_create_default_account
+  AFTER INSERT ON households
+  FOR EACH ROW
+  EXECUTE FUNCTION create_default_account();
+
+-- Transactions belong to an account; transfers also name the receiving one.
+-- Accounts that still have transactions can't be deleted.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE RESTRICT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_account_id UUID REFERENCES accounts(id) ON DELETE RESTRICT;
+
+UPDATE transactions t
+SET account_id = a.id
+FROM accounts a
+WHERE t.account_id IS NULL
+  AND a.household_id = t.household_id
+  AND a.is_default;
+
+-- Fill in the household's default account when none is given, and make sure
+-- both accounts belong to the transaction's household
+CREATE OR REPLACE FUNCTION set_transaction_account()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.account_id IS NULL THEN
+    SELECT id INTO NEW.account_id
+    FROM accounts
+    WHERE household_id = NEW.household_id AND is_default;
+
+    IF NEW.account_id IS NULL THEN
+      RAISE EXCEPTION 'Household has no default account';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = NEW.account_id AND household_id = NEW.household_id
+  ) THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  IF NEW.transfer_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = NEW.transfer_account_id AND household_id = NEW.household_id
+  ) THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_set_account ON transactions;
+CREATE TRIGGER transactions_set_account
+  BEFORE INSERT OR UPDATE OF account_id, transfer_account_id ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_transaction_account();
+
+ALTER TABLE transactions ALTER COLUMN account_id SET NOT NULL;
+
+-- A transfer is a positive amount between two different accounts, with no category
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('income', 'expense', 'transfer'));
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transfer_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_transfer_check
+  CHECK (
+    (type = 'transfer') = (transfer_account_id IS NOT NULL)
+    AND (type <> 'transfer' OR (amount_cents > 0 AND category_id IS NULL AND transfer_account_id <> account_id))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account ON transactions(account_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_account
+  ON transactions(transfer_account_id)
+  WHERE transfer_account_id IS NOT NULL;
+
+-- Each import lands in one account
+ALTER TABLE import_batches ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+-- Recreate the bulk import function to put every row in the batch's account
+-- (the household's default account when none is given)
+CREATE OR REPLACE FUNCTION bulk_import_transactions(
+  p_household_id UUID,
+  p_transactions JSONB,
+  p_batch JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction JSONB;
+  v_imported INT := 0;
+  v_errors JSONB := '[]'::JSONB;
+  v_index INT := 0;
+  v_type TEXT;
+  v_amount DECIMAL(10,2);
+  v_id UUID;
+  v_ids UUID[] := '{}';
+  v_batch_id UUID;
+  v_skipped INT := 0;
+  v_account_id UUID;
+BEGIN
+  -- Validate household exists
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid household ID',
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions)
+    );
+  END IF;
+
+  IF NULLIF(p_batch->>'account_id', '') IS NOT NULL THEN
+    SELECT id INTO v_account_id
+    FROM accounts
+    WHERE id = (p_batch->>'account_id')::UUID AND household_id = p_household_id;
+  ELSE
+    SELECT id INTO v_account_id
+    FROM accounts
+    WHERE household_id = p_household_id AND is_default;
+  END IF;
+
+  IF v_account_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Account not found',
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions)
+    );
+  END IF;
+
+  -- Process each transaction in the array
+  FOR v_transaction IN SELECT * FROM jsonb_array_elements(p_transactions)
+  LOOP
+    BEGIN
+      v_type := COALESCE(v_transaction->>'type', 'expense');
+      v_amount := (v_transaction->>'amount')::DECIMAL(10,2);
+
+      IF v_type NOT IN ('income', 'expense') THEN
+        RAISE EXCEPTION 'Invalid transaction type: %', v_type;
+      END IF;
+
+      -- Only expenses can be negative (refunds)
+      IF v_amount = 0 OR (v_type = 'income' AND v_amount < 0) THEN
+        RAISE EXCEPTION 'Invalid amount';
+      END IF;
+
+      -- Category is required for expenses that aren't refunds
+      IF v_type = 'expense' AND v_amount > 0 AND v_transaction->>'category_id' IS NULL THEN
+        RAISE EXCEPTION 'Category is required for expenses';
+      END IF;
+
+      INSERT INTO transactions (
+        household_id,
+        account_id,
+        category_id,
+        amount,
+        amount_cents,
+        description,
+        date,
+        type,
+        source_fingerprint
+      ) VALUES (
+        p_household_id,
+        v_account_id,
+        (v_transaction->>'category_id')::UUID,
+        v_amount,
+        ROUND(v_amount * 100)::BIGINT,
+        v_transaction->>'description',
+        (v_transaction->>'date')::DATE,
+        v_type,
+        NULLIF(v_transaction->>'source_fingerprint', '')
+      )
+      ON CONFLICT (household_id, source_fingerprint) WHERE source_fingerprint IS NOT NULL
+      DO NOTHING
+      RETURNING id INTO v_id;
+
+      -- Rows already imported from an earlier statement are skipped
+      IF v_id IS NULL THEN
+        v_skipped := v_skipped + 1;
+      ELSE
+        v_ids := array_append(v_ids, v_id);
+        v_imported := v_imported + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Collect error but continue processing to report all errors
+      v_errors := v_errors || jsonb_build_object(
+        'index', v_index,
+        'message', SQLERRM
+      );
+    END;
+    v_index := v_index + 1;
+  END LOOP;
+
+  -- If any errors occurred, rollback the entire transaction
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RAISE EXCEPTION 'Import failed with errors: %', v_errors::TEXT;
+  END IF;
+
+  -- Record the batch in the same transaction as its rows
+  IF p_batch IS NOT NULL AND v_imported > 0 THEN
+    INSERT INTO import_batches (
+      household_id,
+      account_id,
+      file_name,
+      format,
+      row_count,
+      start_date,
+      end_date,
+      transaction_ids
+    )
+    SELECT
+      p_household_id,
+      v_account_id,
+      COALESCE(NULLIF(p_batch->>'file_name', ''), 'Unknown file'),
+      p_batch->>'format',
+      v_imported,
+      MIN(t.date),
+      MAX(t.date),
+      v_ids
+    FROM transactions AS t
+    WHERE t.id = ANY(v_ids)
+    RETURNING id INTO v_batch_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'imported', v_imported,
+    'failed', 0,
+    'errors', '[]'::JSONB,
+    'skipped', v_skipped,
+    'batch_id', v_batch_id
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Return error details without rolling back (the exception already did that)
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions),
+      'errors', v_errors
+    );
+END;
+$$;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB, JSONB) FROM PUBLIC, anon;
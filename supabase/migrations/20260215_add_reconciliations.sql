@@ -0,0 +1,34 @@
+-- Migration: Statement reconciliation
+-- Records each time an account is reconciled against a bank statement. The
+-- transactions cleared in a reconciliation point at it and are locked from
+-- edits until unlocked. A transfer touches two accounts, so it is reconciled
+-- separately on each side: reconciliation_id for the account it leaves,
+-- transfer_reconciliation_id for the account it arrives in.
+
+CREATE TABLE IF NOT EXISTS reconciliations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  statement_date DATE NOT NULL,
+  -- Ending balance printed on the statement
+  statement_balance DECIMAL(12,2) NOT NULL,
+  statement_balance_cents BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliations_account
+  ON reconciliations(account_id, statement_date DESC);
+
+ALTER TABLE reconciliations ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS reconciliation_id UUID REFERENCES reconciliations(id) ON DELETE SET NULL;
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transfer_reconciliation_id UUID REFERENCES reconciliations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_reconciliation
+  ON transactions(reconciliation_id)
+  WHERE reconciliation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_reconciliation
+  ON transactions(transfer_reconciliation_id)
+  WHERE transfer_reconciliation_id IS NOT NULL;
@@ -0,0 +1,149 @@
+-- Migration: Transaction search
+-- Filters, sorts and pages the household's transactions in one place so a
+-- page of results and the totals for every match always agree.
+--
+-- p_filters keys (all optional):
+--   start_date, end_date   YYYY-MM-DD, inclusive
+--   category_id            a category UUID (its own or a split line's), or
+--                          'uncategorized' for unsplit expenses without one
+--   type                   income | expense | transfer
+--   min_amount_cents, max_amount_cents
+--   search                 ILIKE pattern text for the description, with
+--                          %, _ and \ already escaped by the caller
+
+CREATE INDEX IF NOT EXISTS idx_transactions_household_date_created
+  ON transactions(household_id, date DESC, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_household_amount
+  ON transactions(household_id, amount_cents, id);
+
+CREATE OR REPLACE FUNCTION filter_transactions(
+  p_household_id UUID,
+  p_filters JSONB
+)
+RETURNS SETOF transactions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.*
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND (p_filters->>'start_date' IS NULL OR t.date >= (p_filters->>'start_date')::DATE)
+    AND (p_filters->>'end_date' IS NULL OR t.date <= (p_filters->>'end_date')::DATE)
+    AND (p_filters->>'type' IS NULL OR t.type = p_filters->>'type')
+    AND (p_filters->>'min_amount_cents' IS NULL OR t.amount_cents >= (p_filters->>'min_amount_cents')::BIGINT)
+    AND (p_filters->>'max_amount_cents' IS NULL OR t.amount_cents <= (p_filters->>'max_amount_cents')::BIGINT)
+    AND (p_filters->>'search' IS NULL OR t.description ILIKE ('%' || (p_filters->>'search') || '%'))
+    AND (
+      p_filters->>'category_id' IS NULL
+      OR (
+        p_filters->>'category_id' = 'uncategorized'
+        AND t.type = 'expense'
+        AND t.category_id IS NULL
+        AND NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+      )
+      -- Compared as text so 'uncategorized' is never cast to a UUID
+      OR t.category_id::TEXT = p_filters->>'category_id'
+      OR EXISTS (
+        SELECT 1 FROM transaction_splits s
+        WHERE s.transaction_id = t.id
+          AND s.category_id::TEXT = p_filters->>'category_id'
+      )
+    );
+$$;
+
+-- One page of matching transaction ids, plus totals for every match.
+-- p_sort is date_desc (default), date_asc, amount_desc or amount_asc.
+-- p_cursor is the next_cursor returned with the previous page.
+CREATE OR REPLACE FUNCTION search_transactions(
+  p_household_id UUID,
+  p_filters JSONB DEFAULT '{}'::JSONB,
+  p_sort TEXT DEFAULT 'date_desc',
+  p_cursor JSONB DEFAULT NULL,
+  p_limit INT DEFAULT 50
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_key TEXT;
+  v_cursor_key TEXT;
+  v_direction TEXT;
+  v_order TEXT;
+  v_where TEXT := 'TRUE';
+  v_ids UUID[];
+  v_next JSONB := NULL;
+  v_totals JSONB;
+BEGIN
+  IF p_sort NOT IN ('date_desc', 'date_asc', 'amount_desc', 'amount_asc') THEN
+    RAISE EXCEPTION 'Unknown sort: %', p_sort;
+  END IF;
+
+  -- Keyset columns: the sort column, then tie-breakers that make it unique
+  IF p_sort LIKE 'amount%' THEN
+    v_key := 'amount_cents, id';
+    v_cursor_key := '($3->>''amount_cents'')::BIGINT, ($3->>''id'')::UUID';
+    v_order := 'amount_cents %1$s, id %1$s';
+  ELSE
+    v_key := 'date, COALESCE(created_at, ''epoch''::TIMESTAMPTZ), id';
+    v_cursor_key := '($3->>''date'')::DATE, ($3->>''created_at'')::TIMESTAMPTZ, ($3->>''id'')::UUID';
+    v_order := 'date %1$s, COALESCE(created_at, ''epoch''::TIMESTAMPTZ) %1$s, id %1$s';
+  END IF;
+
+  v_direction := CASE WHEN p_sort LIKE '%_asc' THEN 'ASC' ELSE 'DESC' END;
+  v_order := format(v_order, v_direction);
+
+  IF p_cursor IS NOT NULL THEN
+    v_where := format('(%s) %s (%s)', v_key, CASE v_direction WHEN 'ASC' THEN '>' ELSE '<' END, v_cursor_key);
+  END IF;
+
+  -- One extra row tells whether there is a next page
+  EXECUTE format(
+    'SELECT array_agg(id) FROM (
+       SELECT id FROM filter_transactions($1, $2) WHERE %s ORDER BY %s LIMIT $4 + 1
+     ) page',
+    v_where, v_order
+  )
+  INTO v_ids
+  USING p_household_id, p_filters, p_cursor, p_limit;
+
+  v_ids := COALESCE(v_ids, ARRAY[]::UUID[]);
+
+  IF array_length(v_ids, 1) > p_limit THEN
+    v_ids := v_ids[1:p_limit];
+    SELECT jsonb_build_object(
+      'id', t.id,
+      'date', t.date,
+      'created_at', COALESCE(t.created_at, 'epoch'::TIMESTAMPTZ),
+      'amount_cents', t.amount_cents
+    )
+    INTO v_next
+    FROM transactions t
+    WHERE t.id = v_ids[p_limit];
+  END IF;
+
+  -- Income and spending follow the app: income by type or an "Income"
+  -- category, and transfers count toward neither
+  SELECT jsonb_build_object(
+    'total_count', COUNT(*),
+    'income_cents', COALESCE(SUM(m.amount_cents) FILTER (
+      WHERE m.type = 'income' OR (m.type <> 'transfer' AND LOWER(c.name) = 'income')
+    ), 0),
+    'expense_cents', COALESCE(SUM(m.amount_cents) FILTER (
+      WHERE m.type = 'expense' AND LOWER(COALESCE(c.name, '')) <> 'income'
+    ), 0)
+  )
+  INTO v_totals
+  FROM filter_transactions(p_household_id, p_filters) m
+  LEFT JOIN categories c ON c.id = m.category_id;
+
+  RETURN v_totals || jsonb_build_object('ids', to_jsonb(v_ids), 'next_cursor', v_next);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION filter_transactions(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION filter_transactions(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_transactions(UUID, JSONB, TEXT, JSONB, INT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION search_transactions(UUID, JSONB, TEXT, JSONB, INT) FROM PUBLIC, anon;
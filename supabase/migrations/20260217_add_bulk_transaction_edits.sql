@@ -0,0 +1,133 @@
+-- Migration: Bulk transaction edits
+-- Recategorize, delete, shift the date of, or change the type of many
+-- transactions in one database transaction. Each row carries the updated_at
+-- the client last saw; if any row was changed since (or deleted, or has
+-- been reconciled), nothing is changed and the offending rows are returned.
+--
+-- p_action / p_params:
+--   recategorize  { "category_id": UUID }   clears any split lines
+--   delete        {}
+--   shift_date    { "days": INT }
+--   set_type      { "type": "income" | "expense" }   clears split lines on income
+-- p_items: [{ "id": UUID, "expected_updated_at": TIMESTAMPTZ }, ...]
+
+CREATE OR REPLACE FUNCTION bulk_update_transactions(
+  p_household_id UUID,
+  p_action TEXT,
+  p_items JSONB,
+  p_params JSONB DEFAULT '{}'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_ids UUID[];
+  v_conflicts JSONB;
+  v_locked JSONB;
+  v_category_id UUID;
+  v_updated INT;
+BEGIN
+  IF p_action NOT IN ('recategorize', 'delete', 'shift_date', 'set_type') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  SELECT array_agg(DISTINCT (item->>'id')::UUID)
+  INTO v_ids
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_ids IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'updated', 0, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+  END IF;
+
+  -- Lock the rows so nobody else can change them between the check and the write
+  PERFORM 1
+  FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+  FOR UPDATE;
+
+  -- Changed or deleted since the client loaded them
+  SELECT COALESCE(jsonb_agg(item->>'id'), '[]'::JSONB)
+  INTO v_conflicts
+  FROM jsonb_array_elements(p_items) AS item
+  LEFT JOIN transactions t
+    ON t.id = (item->>'id')::UUID
+   AND t.household_id = p_household_id
+  WHERE t.id IS NULL
+     OR COALESCE(t.updated_at, t.created_at) IS DISTINCT FROM (item->>'expected_updated_at')::TIMESTAMPTZ;
+
+  -- Reconciled against a statement and not unlocked
+  SELECT COALESCE(jsonb_agg(t.id), '[]'::JSONB)
+  INTO v_locked
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.id = ANY(v_ids)
+    AND (t.reconciliation_id IS NOT NULL OR t.transfer_reconciliation_id IS NOT NULL);
+
+  IF jsonb_array_length(v_conflicts) > 0 OR jsonb_array_length(v_locked) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'updated', 0, 'conflicts', v_conflicts, 'locked', v_locked);
+  END IF;
+
+  IF p_action <> 'delete' AND p_action <> 'shift_date' AND EXISTS (
+    SELECT 1 FROM transactions
+    WHERE household_id = p_household_id AND id = ANY(v_ids) AND type = 'transfer'
+  ) THEN
+    RAISE EXCEPTION 'Transfers can''t be recategorized or change type';
+  END IF;
+
+  IF p_action = 'recategorize' THEN
+    v_category_id := (p_params->>'category_id')::UUID;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM categories WHERE id = v_category_id AND household_id = p_household_id
+    ) THEN
+      RAISE EXCEPTION 'Category not found';
+    END IF;
+
+    DELETE FROM transaction_splits
+    WHERE household_id = p_household_id
+      AND transaction_id = ANY(v_ids);
+
+    UPDATE transactions
+    SET category_id = v_category_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'delete' THEN
+    DELETE FROM transactions
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'shift_date' THEN
+    UPDATE transactions
+    SET date = date + (p_params->>'days')::INT
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSE
+    IF p_params->>'type' NOT IN ('income', 'expense') THEN
+      RAISE EXCEPTION 'Type must be income or expense';
+    END IF;
+
+    -- Only expenses can be split
+    IF p_params->>'type' = 'income' THEN
+      DELETE FROM transaction_splits
+      WHERE household_id = p_household_id
+        AND transaction_id = ANY(v_ids);
+    END IF;
+
+    UPDATE transactions
+    SET type = p_params->>'type'
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB) FROM PUBLIC, anon;
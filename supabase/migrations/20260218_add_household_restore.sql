@@ -0,0 +1,83 @@
+-- Migration: Household restore
+-- Restore a backup archive into an empty household in one database
+-- transaction: either everything is restored or nothing is. The app
+-- validates the archive and gives every row a new ID before calling this.
+--
+-- p_rows: { settings, accounts, categories, keywords, merchant_patterns,
+--           monthly_budgets, transactions, splits }, each a list of rows
+--           using the tables' column names (settings is one object)
+
+CREATE OR REPLACE FUNCTION restore_household_backup(
+  p_household_id UUID,
+  p_rows JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transactions INT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid household ID');
+  END IF;
+
+  -- Only restore into a fresh household, so nothing is merged or overwritten
+  IF EXISTS (SELECT 1 FROM categories WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM transactions WHERE household_id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Backups can only be restored into an empty household'
+    );
+  END IF;
+
+  UPDATE households
+  SET name = p_rows->'settings'->>'name',
+      timezone = p_rows->'settings'->>'timezone',
+      auto_rollover_budget = (p_rows->'settings'->>'auto_rollover_budget')::BOOLEAN
+  WHERE id = p_household_id;
+
+  -- Replace the default account created with the household
+  DELETE FROM accounts WHERE household_id = p_household_id;
+
+  INSERT INTO accounts (id, household_id, name, type, opening_balance, opening_balance_cents, is_default)
+  SELECT id, p_household_id, name, type, opening_balance, opening_balance_cents, is_default
+  FROM jsonb_populate_recordset(NULL::accounts, p_rows->'accounts');
+
+  INSERT INTO categories (id, household_id, name, color, rollover_policy, rollover_cap_cents)
+  SELECT id, p_household_id, name, color, rollover_policy, rollover_cap_cents
+  FROM jsonb_populate_recordset(NULL::categories, p_rows->'categories');
+
+  INSERT INTO category_keywords (household_id, category_id, keyword)
+  SELECT p_household_id, category_id, keyword
+  FROM jsonb_populate_recordset(NULL::category_keywords, p_rows->'keywords');
+
+  INSERT INTO merchant_patterns (household_id, category_id, merchant_name, match_count, last_used_at)
+  SELECT p_household_id, category_id, merchant_name, match_count, last_used_at
+  FROM jsonb_populate_recordset(NULL::merchant_patterns, p_rows->'merchant_patterns');
+
+  INSERT INTO monthly_budgets (household_id, category_id, month, budgeted_amount, budgeted_amount_cents)
+  SELECT p_household_id, category_id, month, budgeted_amount, budgeted_amount_cents
+  FROM jsonb_populate_recordset(NULL::monthly_budgets, p_rows->'monthly_budgets');
+
+  INSERT INTO transactions (
+    id, household_id, account_id, transfer_account_id, category_id,
+    amount, amount_cents, description, date, type, source_fingerprint
+  )
+  SELECT
+    id, p_household_id, account_id, transfer_account_id, category_id,
+    amount, amount_cents, description, date, type, source_fingerprint
+  FROM jsonb_populate_recordset(NULL::transactions, p_rows->'transactions');
+
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  INSERT INTO transaction_splits (household_id, transaction_id, category_id, amount, amount_cents, memo)
+  SELECT p_household_id, transaction_id, category_id, amount, amount_cents, memo
+  FROM jsonb_populate_recordset(NULL::transaction_splits, p_rows->'splits');
+
+  RETURN jsonb_build_object('success', true, 'transactions', v_transactions);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_household_backup(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION restore_household_backup(UUID, JSONB) FROM PUBLIC, anon;
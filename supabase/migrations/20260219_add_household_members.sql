@@ -0,0 +1,357 @@
+-- Migration: Household members
+-- Named members share a household, each signing in with their own PIN.
+-- The household's existing PIN becomes its first member, so nobody has to
+-- set up again. Transactions and monthly budgets record the member who
+-- created and last changed them; rows from before this migration, and
+-- rows changed from a session that predates members, have none.
+
+CREATE TABLE IF NOT EXISTS household_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  -- bcrypt, like households.pin_hash
+  pin_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (household_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_members_household ON household_members(household_id);
+
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO household_members (household_id, name, pin_hash)
+SELECT h.id, 'Member 1', h.pin_hash
+FROM households h
+WHERE NOT EXISTS (SELECT 1 FROM household_members m WHERE m.household_id = h.id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES household_members(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES household_members(id) ON DELETE SET NULL;
+
+ALTER TABLE monthly_budgets
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES household_members(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES household_members(id) ON DELETE SET NULL;
+
+-- Writes only set updated_by; a new row's creator is whoever wrote it first.
+-- Upserts leave created_by alone when they update an existing row.
+CREATE OR REPLACE FUNCTION set_created_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.created_by = COALESCE(NEW.created_by, NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_set_created_by ON transactions;
+CREATE TRIGGER transactions_set_created_by
+  BEFORE INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_created_by();
+
+DROP TRIGGER IF EXISTS monthly_budgets_set_created_by ON monthly_budgets;
+CREATE TRIGGER monthly_budgets_set_created_by
+  BEFORE INSERT ON monthly_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_created_by();
+
+-- Recreate the bulk functions to record the member making the change
+DROP FUNCTION IF EXISTS bulk_import_transactions(UUID, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION bulk_import_transactions(
+  p_household_id UUID,
+  p_transactions JSONB,
+  p_batch JSONB DEFAULT NULL,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction JSONB;
+  v_imported INT := 0;
+  v_errors JSONB := '[]'::JSONB;
+  v_index INT := 0;
+  v_type TEXT;
+  v_amount DECIMAL(10,2);
+  v_id UUID;
+  v_ids UUID[] := '{}';
+  v_batch_id UUID;
+  v_skipped INT := 0;
+  v_account_id UUID;
+BEGIN
+  -- Validate household exists
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid household ID',
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions)
+    );
+  END IF;
+
+  IF NULLIF(p_batch->>'account_id', '') IS NOT NULL THEN
+    SELECT id INTO v_account_id
+    FROM accounts
+    WHERE id = (p_batch->>'account_id')::UUID AND household_id = p_household_id;
+  ELSE
+    SELECT id INTO v_account_id
+    FROM accounts
+    WHERE household_id = p_household_id AND is_default;
+  END IF;
+
+  IF v_account_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Account not found',
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions)
+    );
+  END IF;
+
+  -- Process each transaction in the array
+  FOR v_transaction IN SELECT * FROM jsonb_array_elements(p_transactions)
+  LOOP
+    BEGIN
+      v_type := COALESCE(v_transaction->>'type', 'expense');
+      v_amount := (v_transaction->>'amount')::DECIMAL(10,2);
+
+      IF v_type NOT IN ('income', 'expense') THEN
+        RAISE EXCEPTION 'Invalid transaction type: %', v_type;
+      END IF;
+
+      -- Only expenses can be negative (refunds)
+      IF v_amount = 0 OR (v_type = 'income' AND v_amount < 0) THEN
+        RAISE EXCEPTION 'Invalid amount';
+      END IF;
+
+      -- Category is required for expenses that aren't refunds
+      IF v_type = 'expense' AND v_amount > 0 AND v_transaction->>'category_id' IS NULL THEN
+        RAISE EXCEPTION 'Category is required for expenses';
+      END IF;
+
+      INSERT INTO transactions (
+        household_id,
+        account_id,
+        category_id,
+        amount,
+        amount_cents,
+        description,
+        date,
+        type,
+        source_fingerprint,
+        updated_by
+      ) VALUES (
+        p_household_id,
+        v_account_id,
+        (v_transaction->>'category_id')::UUID,
+        v_amount,
+        ROUND(v_amount * 100)::BIGINT,
+        v_transaction->>'description',
+        (v_transaction->>'date')::DATE,
+        v_type,
+        NULLIF(v_transaction->>'source_fingerprint', ''),
+        p_member_id
+      )
+      ON CONFLICT (household_id, source_fingerprint) WHERE source_fingerprint IS NOT NULL
+      DO NOTHING
+      RETURNING id INTO v_id;
+
+      -- Rows already imported from an earlier statement are skipped
+      IF v_id IS NULL THEN
+        v_skipped := v_skipped + 1;
+      ELSE
+        v_ids := array_append(v_ids, v_id);
+        v_imported := v_imported + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Collect error but continue processing to report all errors
+      v_errors := v_errors || jsonb_build_object(
+        'index', v_index,
+        'message', SQLERRM
+      );
+    END;
+    v_index := v_index + 1;
+  END LOOP;
+
+  -- If any errors occurred, rollback the entire transaction
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RAISE EXCEPTION 'Import failed with errors: %', v_errors::TEXT;
+  END IF;
+
+  -- Record the batch in the same transaction as its rows
+  IF p_batch IS NOT NULL AND v_imported > 0 THEN
+    INSERT INTO import_batches (
+      household_id,
+      account_id,
+      file_name,
+      format,
+      row_count,
+      start_date,
+      end_date,
+      transaction_ids
+    )
+    SELECT
+      p_household_id,
+      v_account_id,
+      COALESCE(NULLIF(p_batch->>'file_name', ''), 'Unknown file'),
+      p_batch->>'format',
+      v_imported,
+      MIN(t.date),
+      MAX(t.date),
+      v_ids
+    FROM transactions AS t
+    WHERE t.id = ANY(v_ids)
+    RETURNING id INTO v_batch_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'imported', v_imported,
+    'failed', 0,
+    'errors', '[]'::JSONB,
+    'skipped', v_skipped,
+    'batch_id', v_batch_id
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Return error details without rolling back (the exception already did that)
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions),
+      'errors', v_errors
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB, JSONB, UUID) FROM PUBLIC, anon;
+
+DROP FUNCTION IF EXISTS bulk_update_transactions(UUID, TEXT, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION bulk_update_transactions(
+  p_household_id UUID,
+  p_action TEXT,
+  p_items JSONB,
+  p_params JSONB DEFAULT '{}'::JSONB,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_ids UUID[];
+  v_conflicts JSONB;
+  v_locked JSONB;
+  v_category_id UUID;
+  v_updated INT;
+BEGIN
+  IF p_action NOT IN ('recategorize', 'delete', 'shift_date', 'set_type') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  SELECT array_agg(DISTINCT (item->>'id')::UUID)
+  INTO v_ids
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_ids IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'updated', 0, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+  END IF;
+
+  -- Lock the rows so nobody else can change them between the check and the write
+  PERFORM 1
+  FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+  FOR UPDATE;
+
+  -- Changed or deleted since the client loaded them
+  SELECT COALESCE(jsonb_agg(item->>'id'), '[]'::JSONB)
+  INTO v_conflicts
+  FROM jsonb_array_elements(p_items) AS item
+  LEFT JOIN transactions t
+    ON t.id = (item->>'id')::UUID
+   AND t.household_id = p_household_id
+  WHERE t.id IS NULL
+     OR COALESCE(t.updated_at, t.created_at) IS DISTINCT FROM (item->>'expected_updated_at')::TIMESTAMPTZ;
+
+  -- Reconciled against a statement and not unlocked
+  SELECT COALESCE(jsonb_agg(t.id), '[]'::JSONB)
+  INTO v_locked
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.id = ANY(v_ids)
+    AND (t.reconciliation_id IS NOT NULL OR t.transfer_reconciliation_id IS NOT NULL);
+
+  IF jsonb_array_length(v_conflicts) > 0 OR jsonb_array_length(v_locked) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'updated', 0, 'conflicts', v_conflicts, 'locked', v_locked);
+  END IF;
+
+  IF p_action <> 'delete' AND p_action <> 'shift_date' AND EXISTS (
+    SELECT 1 FROM transactions
+    WHERE household_id = p_household_id AND id = ANY(v_ids) AND type = 'transfer'
+  ) THEN
+    RAISE EXCEPTION 'Transfers can''t be recategorized or change type';
+  END IF;
+
+  IF p_action = 'recategorize' THEN
+    v_category_id := (p_params->>'category_id')::UUID;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM categories WHERE id = v_category_id AND household_id = p_household_id
+    ) THEN
+      RAISE EXCEPTION 'Category not found';
+    END IF;
+
+    DELETE FROM transaction_splits
+    WHERE household_id = p_household_id
+      AND transaction_id = ANY(v_ids);
+
+    UPDATE transactions
+    SET category_id = v_category_id, updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'delete' THEN
+    DELETE FROM transactions
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'shift_date' THEN
+    UPDATE transactions
+    SET date = date + (p_params->>'days')::INT, updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSE
+    IF p_params->>'type' NOT IN ('income', 'expense') THEN
+      RAISE EXCEPTION 'Type must be income or expense';
+    END IF;
+
+    -- Only expenses can be split
+    IF p_params->>'type' = 'income' THEN
+      DELETE FROM transaction_splits
+      WHERE household_id = p_household_id
+        AND transaction_id = ANY(v_ids);
+    END IF;
+
+    UPDATE transactions
+    SET type = p_params->>'type', updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,462 @@
+-- Migration: Audit log
+-- An append-only history of every create, update and delete on transactions,
+-- monthly budgets, categories and keywords, with the row before and after
+-- and the household member who made the change.
+--
+-- Triggers write the log, so changes made inside database functions are
+-- recorded too. The actor is the app.member_id setting when a function sets
+-- it for its transaction (deletes carry no row to read it from), otherwise
+-- the row's updated_by.
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES household_members(id) ON DELETE SET NULL;
+
+ALTER TABLE category_keywords
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES household_members(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Orders entries, including those written by one statement at one time
+  seq BIGINT GENERATED ALWAYS AS IDENTITY,
+  household_id UUID NOT NULL REFERENCES households(id),
+  table_name TEXT NOT NULL
+    CHECK (table_name IN ('transactions', 'monthly_budgets', 'categories', 'category_keywords')),
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  before_values JSONB,
+  after_values JSONB,
+  -- Not a foreign key: removing a member must not rewrite history
+  actor_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_household_seq ON audit_log(household_id, seq DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(household_id, table_name, record_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_actor UUID := NULLIF(current_setting('app.member_id', true), '')::UUID;
+  v_old JSONB;
+  v_new JSONB;
+  -- Bookkeeping columns: a write that only changes these isn't logged,
+  -- e.g. removing a member clearing the rows they touched
+  v_ignored TEXT[] := ARRAY['updated_at', 'updated_by', 'created_by'];
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_old := to_jsonb(OLD);
+
+    -- A transaction's split lines are deleted with it; keep them so it can be restored
+    IF TG_TABLE_NAME = 'transactions' THEN
+      v_old := v_old || jsonb_build_object('splits', COALESCE(
+        (SELECT jsonb_agg(to_jsonb(s)) FROM transaction_splits s WHERE s.transaction_id = OLD.id),
+        '[]'::JSONB
+      ));
+    END IF;
+
+    INSERT INTO audit_log (household_id, table_name, record_id, action, before_values, actor_id)
+    VALUES (OLD.household_id, TG_TABLE_NAME, OLD.id, 'delete', v_old, v_actor);
+
+    RETURN OLD;
+  END IF;
+
+  v_new := to_jsonb(NEW);
+  v_actor := COALESCE(v_actor, (v_new->>'updated_by')::UUID);
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO audit_log (household_id, table_name, record_id, action, after_values, actor_id)
+    VALUES (NEW.household_id, TG_TABLE_NAME, NEW.id, 'create', v_new, v_actor);
+  ELSE
+    v_old := to_jsonb(OLD);
+
+    IF v_old - v_ignored = v_new - v_ignored THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO audit_log (household_id, table_name, record_id, action, before_values, after_values, actor_id)
+    VALUES (NEW.household_id, TG_TABLE_NAME, NEW.id, 'update', v_old, v_new, v_actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Deletes are logged before the row goes, while its split lines still exist
+DROP TRIGGER IF EXISTS transactions_audit ON transactions;
+CREATE TRIGGER transactions_audit
+  AFTER INSERT OR UPDATE ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS transactions_audit_delete ON transactions;
+CREATE TRIGGER transactions_audit_delete
+  BEFORE DELETE ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS monthly_budgets_audit ON monthly_budgets;
+CREATE TRIGGER monthly_budgets_audit
+  AFTER INSERT OR UPDATE ON monthly_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS monthly_budgets_audit_delete ON monthly_budgets;
+CREATE TRIGGER monthly_budgets_audit_delete
+  BEFORE DELETE ON monthly_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS categories_audit ON categories;
+CREATE TRIGGER categories_audit
+  AFTER INSERT OR UPDATE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS categories_audit_delete ON categories;
+CREATE TRIGGER categories_audit_delete
+  BEFORE DELETE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS category_keywords_audit ON category_keywords;
+CREATE TRIGGER category_keywords_audit
+  AFTER INSERT OR UPDATE ON category_keywords
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS category_keywords_audit_delete ON category_keywords;
+CREATE TRIGGER category_keywords_audit_delete
+  BEFORE DELETE ON category_keywords
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+-- Delete a transaction, category or keyword on behalf of a member, so the
+-- log records who deleted it (and everything the delete cascades to)
+CREATE OR REPLACE FUNCTION delete_household_record(
+  p_household_id UUID,
+  p_table TEXT,
+  p_id UUID,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_deleted INT;
+BEGIN
+  IF p_table NOT IN ('transactions', 'categories', 'category_keywords') THEN
+    RAISE EXCEPTION 'Unknown table: %', p_table;
+  END IF;
+
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  EXECUTE format('DELETE FROM %I WHERE id = $1 AND household_id = $2', p_table)
+  USING p_id, p_household_id;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'deleted', v_deleted);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_household_record(UUID, TEXT, UUID, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION delete_household_record(UUID, TEXT, UUID, UUID) FROM PUBLIC, anon;
+
+-- Put a deleted transaction back from its log entry, with its original ID
+-- and split lines. Accounts and categories deleted since are dropped (the
+-- default account stands in), and it comes back unreconciled.
+CREATE OR REPLACE FUNCTION restore_deleted_transaction(
+  p_household_id UUID,
+  p_entry_id UUID,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_entry audit_log%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_entry
+  FROM audit_log
+  WHERE id = p_entry_id
+    AND household_id = p_household_id
+    AND table_name = 'transactions'
+    AND action = 'delete';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Deleted transaction not found');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transactions WHERE id = v_entry.record_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This transaction has already been restored');
+  END IF;
+
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  v_transaction := jsonb_populate_record(NULL::transactions, v_entry.before_values - 'splits');
+
+  IF NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = v_transaction.account_id AND household_id = p_household_id
+  ) THEN
+    IF v_transaction.type = 'transfer' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'The transfer''s account no longer exists');
+    END IF;
+    -- Filled in with the default account
+    v_transaction.account_id := NULL;
+  END IF;
+
+  IF v_transaction.transfer_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = v_transaction.transfer_account_id AND household_id = p_household_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The transfer''s account no longer exists');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM categories WHERE id = v_transaction.category_id AND household_id = p_household_id
+  ) THEN
+    v_transaction.category_id := NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM scheduled_transactions WHERE id = v_transaction.scheduled_transaction_id
+  ) THEN
+    v_transaction.scheduled_transaction_id := NULL;
+    v_transaction.scheduled_date := NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM household_members WHERE id = v_transaction.created_by
+  ) THEN
+    v_transaction.created_by := NULL;
+  END IF;
+
+  v_transaction.reconciliation_id := NULL;
+  v_transaction.transfer_reconciliation_id := NULL;
+  v_transaction.updated_by := p_member_id;
+  v_transaction.updated_at := NOW();
+
+  BEGIN
+    INSERT INTO transactions SELECT (v_transaction).*;
+  EXCEPTION WHEN unique_violation THEN
+    -- The same statement row or scheduled occurrence was recorded again since
+    RETURN jsonb_build_object('success', false, 'error', 'A matching transaction has been added since this one was deleted');
+  END;
+
+  INSERT INTO transaction_splits
+  SELECT (jsonb_populate_record(
+    NULL::transaction_splits,
+    split || jsonb_build_object(
+      'category_id',
+      CASE WHEN EXISTS (
+        SELECT 1 FROM categories c
+        WHERE c.id = (split->>'category_id')::UUID AND c.household_id = p_household_id
+      ) THEN split->'category_id' ELSE 'null'::JSONB END
+    )
+  )).*
+  FROM jsonb_array_elements(COALESCE(v_entry.before_values->'splits', '[]'::JSONB)) AS split;
+
+  RETURN jsonb_build_object('success', true, 'transaction_id', v_transaction.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_deleted_transaction(UUID, UUID, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION restore_deleted_transaction(UUID, UUID, UUID) FROM PUBLIC, anon;
+
+-- Record who undid an import
+DROP FUNCTION IF EXISTS rollback_import_batch(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION rollback_import_batch(
+  p_household_id UUID,
+  p_batch_id UUID,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_batch import_batches%ROWTYPE;
+  v_deleted INT;
+BEGIN
+  -- Lock the batch so two undo requests can't race
+  SELECT * INTO v_batch
+  FROM import_batches
+  WHERE id = p_batch_id AND household_id = p_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Import batch not found');
+  END IF;
+
+  IF v_batch.status = 'rolled_back' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Import has already been undone');
+  END IF;
+
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  -- Transactions already deleted by hand are simply skipped
+  DELETE FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_batch.transaction_ids);
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  UPDATE import_batches
+  SET status = 'rolled_back',
+      rolled_back_at = NOW()
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object('success', true, 'deleted', v_deleted);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rollback_import_batch(UUID, UUID, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION rollback_import_batch(UUID, UUID, UUID) FROM PUBLIC, anon;
+
+-- Record who bulk-deleted transactions (the other bulk edits set updated_by)
+CREATE OR REPLACE FUNCTION bulk_update_transactions(
+  p_household_id UUID,
+  p_action TEXT,
+  p_items JSONB,
+  p_params JSONB DEFAULT '{}'::JSONB,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_ids UUID[];
+  v_conflicts JSONB;
+  v_locked JSONB;
+  v_category_id UUID;
+  v_updated INT;
+BEGIN
+  IF p_action NOT IN ('recategorize', 'delete', 'shift_date', 'set_type') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  SELECT array_agg(DISTINCT (item->>'id')::UUID)
+  INTO v_ids
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_ids IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'updated', 0, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+  END IF;
+
+  -- Lock the rows so nobody else can change them between the check and the write
+  PERFORM 1
+  FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+  FOR UPDATE;
+
+  -- Changed or deleted since the client loaded them
+  SELECT COALESCE(jsonb_agg(item->>'id'), '[]'::JSONB)
+  INTO v_conflicts
+  FROM jsonb_array_elements(p_items) AS item
+  LEFT JOIN transactions t
+    ON t.id = (item->>'id')::UUID
+   AND t.household_id = p_household_id
+  WHERE t.id IS NULL
+     OR COALESCE(t.updated_at, t.created_at) IS DISTINCT FROM (item->>'expected_updated_at')::TIMESTAMPTZ;
+
+  -- Reconciled against a statement and not unlocked
+  SELECT COALESCE(jsonb_agg(t.id), '[]'::JSONB)
+  INTO v_locked
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.id = ANY(v_ids)
+    AND (t.reconciliation_id IS NOT NULL OR t.transfer_reconciliation_id IS NOT NULL);
+
+  IF jsonb_array_length(v_conflicts) > 0 OR jsonb_array_length(v_locked) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'updated', 0, 'conflicts', v_conflicts, 'locked', v_locked);
+  END IF;
+
+  IF p_action <> 'delete' AND p_action <> 'shift_date' AND EXISTS (
+    SELECT 1 FROM transactions
+    WHERE household_id = p_household_id AND id = ANY(v_ids) AND type = 'transfer'
+  ) THEN
+    RAISE EXCEPTION 'Transfers can''t be recategorized or change type';
+  END IF;
+
+  IF p_action = 'recategorize' THEN
+    v_category_id := (p_params->>'category_id')::UUID;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM categories WHERE id = v_category_id AND household_id = p_household_id
+    ) THEN
+      RAISE EXCEPTION 'Category not found';
+    END IF;
+
+    DELETE FROM transaction_splits
+    WHERE household_id = p_household_id
+      AND transaction_id = ANY(v_ids);
+
+    UPDATE transactions
+    SET category_id = v_category_id, updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'delete' THEN
+    DELETE FROM transactions
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'shift_date' THEN
+    UPDATE transactions
+    SET date = date + (p_params->>'days')::INT, updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSE
+    IF p_params->>'type' NOT IN ('income', 'expense') THEN
+      RAISE EXCEPTION 'Type must be income or expense';
+    END IF;
+
+    -- Only expenses can be split
+    IF p_params->>'type' = 'income' THEN
+      DELETE FROM transaction_splits
+      WHERE household_id = p_household_id
+        AND transaction_id = ANY(v_ids);
+    END IF;
+
+    UPDATE transactions
+    SET type = p_params->>'type', updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,306 @@
+-- Migration: Trash
+-- Deleting a transaction or category moves it to the trash instead: it is
+-- hidden everywhere but can be restored until the trash is emptied, by hand
+-- or once it has been there longer than the app's retention period.
+--
+-- Archiving a category is separate from deleting it. An archived category
+-- is left out of pickers and new budgets but stays on its transactions and
+-- in reports, and is never purged.
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_trash
+  ON transactions(household_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_categories_trash
+  ON categories(household_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Search leaves out trashed transactions
+CREATE OR REPLACE FUNCTION filter_transactions(
+  p_household_id UUID,
+  p_filters JSONB
+)
+RETURNS SETOF transactions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.*
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.deleted_at IS NULL
+    AND (p_filters->>'start_date' IS NULL OR t.date >= (p_filters->>'start_date')::DATE)
+    AND (p_filters->>'end_date' IS NULL OR t.date <= (p_filters->>'end_date')::DATE)
+    AND (p_filters->>'type' IS NULL OR t.type = p_filters->>'type')
+    AND (p_filters->>'min_amount_cents' IS NULL OR t.amount_cents >= (p_filters->>'min_amount_cents')::BIGINT)
+    AND (p_filters->>'max_amount_cents' IS NULL OR t.amount_cents <= (p_filters->>'max_amount_cents')::BIGINT)
+    AND (p_filters->>'search' IS NULL OR t.description ILIKE ('%' || (p_filters->>'search') || '%'))
+    AND (
+      p_filters->>'category_id' IS NULL
+      OR (
+        p_filters->>'category_id' = 'uncategorized'
+        AND t.type = 'expense'
+        AND t.category_id IS NULL
+        AND NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+      )
+      -- Compared as text so 'uncategorized' is never cast to a UUID
+      OR t.category_id::TEXT = p_filters->>'category_id'
+      OR EXISTS (
+        SELECT 1 FROM transaction_splits s
+        WHERE s.transaction_id = t.id
+          AND s.category_id::TEXT = p_filters->>'category_id'
+      )
+    );
+$$;
+
+-- Bulk deletes move transactions to the trash, trashed transactions count
+-- as changed since they were loaded, and archived categories can't be
+-- picked for a recategorize
+CREATE OR REPLACE FUNCTION bulk_update_transactions(
+  p_household_id UUID,
+  p_action TEXT,
+  p_items JSONB,
+  p_params JSONB DEFAULT '{}'::JSONB,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_ids UUID[];
+  v_conflicts JSONB;
+  v_locked JSONB;
+  v_category_id UUID;
+  v_updated INT;
+BEGIN
+  IF p_action NOT IN ('recategorize', 'delete', 'shift_date', 'set_type') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  SELECT array_agg(DISTINCT (item->>'id')::UUID)
+  INTO v_ids
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_ids IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'updated', 0, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+  END IF;
+
+  -- Lock the rows so nobody else can change them between the check and the write
+  PERFORM 1
+  FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+  FOR UPDATE;
+
+  -- Changed or deleted since the client loaded them
+  SELECT COALESCE(jsonb_agg(item->>'id'), '[]'::JSONB)
+  INTO v_conflicts
+  FROM jsonb_array_elements(p_items) AS item
+  LEFT JOIN transactions t
+    ON t.id = (item->>'id')::UUID
+   AND t.household_id = p_household_id
+  WHERE t.id IS NULL
+     OR t.deleted_at IS NOT NULL
+     OR COALESCE(t.updated_at, t.created_at) IS DISTINCT FROM (item->>'expected_updated_at')::TIMESTAMPTZ;
+
+  -- Reconciled against a statement and not unlocked
+  SELECT COALESCE(jsonb_agg(t.id), '[]'::JSONB)
+  INTO v_locked
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.id = ANY(v_ids)
+    AND (t.reconciliation_id IS NOT NULL OR t.transfer_reconciliation_id IS NOT NULL);
+
+  IF jsonb_array_length(v_conflicts) > 0 OR jsonb_array_length(v_locked) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'updated', 0, 'conflicts', v_conflicts, 'locked', v_locked);
+  END IF;
+
+  IF p_action <> 'delete' AND p_action <> 'shift_date' AND EXISTS (
+    SELECT 1 FROM transactions
+    WHERE household_id = p_household_id AND id = ANY(v_ids) AND type = 'transfer'
+  ) THEN
+    RAISE EXCEPTION 'Transfers can''t be recategorized or change type';
+  END IF;
+
+  IF p_action = 'recategorize' THEN
+    v_category_id := (p_params->>'category_id')::UUID;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM categories
+      WHERE id = v_category_id
+        AND household_id = p_household_id
+        AND deleted_at IS NULL
+        AND archived_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Category not found';
+    END IF;
+
+    DELETE FROM transaction_splits
+    WHERE household_id = p_household_id
+      AND transaction_id = ANY(v_ids);
+
+    UPDATE transactions
+    SET category_id = v_category_id, updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'delete' THEN
+    UPDATE transactions
+    SET deleted_at = NOW(), updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'shift_date' THEN
+    UPDATE transactions
+    SET date = date + (p_params->>'days')::INT, updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSE
+    IF p_params->>'type' NOT IN ('income', 'expense') THEN
+      RAISE EXCEPTION 'Type must be income or expense';
+    END IF;
+
+    -- Only expenses can be split
+    IF p_params->>'type' = 'income' THEN
+      DELETE FROM transaction_splits
+      WHERE household_id = p_household_id
+        AND transaction_id = ANY(v_ids);
+    END IF;
+
+    UPDATE transactions
+    SET type = p_params->>'type', updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB, UUID) FROM PUBLIC, anon;
+
+-- Permanently delete what's in the trash, or only what was trashed before
+-- p_deleted_before. Categories go the way they always did: their budgets
+-- and keywords with them, and their transactions left uncategorized.
+CREATE OR REPLACE FUNCTION empty_trash(
+  p_household_id UUID,
+  p_member_id UUID DEFAULT NULL,
+  p_deleted_before TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transactions INT;
+  v_categories INT;
+BEGIN
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  DELETE FROM transactions
+  WHERE household_id = p_household_id
+    AND deleted_at IS NOT NULL
+    AND (p_deleted_before IS NULL OR deleted_at < p_deleted_before);
+
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  DELETE FROM categories
+  WHERE household_id = p_household_id
+    AND deleted_at IS NOT NULL
+    AND (p_deleted_before IS NULL OR deleted_at < p_deleted_before);
+
+  GET DIAGNOSTICS v_categories = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'transactions', v_transactions, 'categories', v_categories);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION empty_trash(UUID, UUID, TIMESTAMPTZ) TO authenticated;
+REVOKE EXECUTE ON FUNCTION empty_trash(UUID, UUID, TIMESTAMPTZ) FROM PUBLIC, anon;
+
+-- Restores keep archived categories archived. Trash isn't backed up.
+CREATE OR REPLACE FUNCTION restore_household_backup(
+  p_household_id UUID,
+  p_rows JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transactions INT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid household ID');
+  END IF;
+
+  -- Only restore into a fresh household, so nothing is merged or overwritten
+  IF EXISTS (SELECT 1 FROM categories WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM transactions WHERE household_id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Backups can only be restored into an empty household'
+    );
+  END IF;
+
+  UPDATE households
+  SET name = p_rows->'settings'->>'name',
+      timezone = p_rows->'settings'->>'timezone',
+      auto_rollover_budget = (p_rows->'settings'->>'auto_rollover_budget')::BOOLEAN
+  WHERE id = p_household_id;
+
+  -- Replace the default account created with the household
+  DELETE FROM accounts WHERE household_id = p_household_id;
+
+  INSERT INTO accounts (id, household_id, name, type, opening_balance, opening_balance_cents, is_default)
+  SELECT id, p_household_id, name, type, opening_balance, opening_balance_cents, is_default
+  FROM jsonb_populate_recordset(NULL::accounts, p_rows->'accounts');
+
+  INSERT INTO categories (id, household_id, name, color, rollover_policy, rollover_cap_cents, archived_at)
+  SELECT id, p_household_id, name, color, rollover_policy, rollover_cap_cents, archived_at
+  FROM jsonb_populate_recordset(NULL::categories, p_rows->'categories');
+
+  INSERT INTO category_keywords (household_id, category_id, keyword)
+  SELECT p_household_id, category_id, keyword
+  FROM jsonb_populate_recordset(NULL::category_keywords, p_rows->'keywords');
+
+  INSERT INTO merchant_patterns (household_id, category_id, merchant_name, match_count, last_used_at)
+  SELECT p_household_id, category_id, merchant_name, match_count, last_used_at
+  FROM jsonb_populate_recordset(NULL::merchant_patterns, p_rows->'merchant_patterns');
+
+  INSERT INTO monthly_budgets (household_id, category_id, month, budgeted_amount, budgeted_amount_cents)
+  SELECT p_household_id, category_id, month, budgeted_amount, budgeted_amount_cents
+  FROM jsonb_populate_recordset(NULL::monthly_budgets, p_rows->'monthly_budgets');
+
+  INSERT INTO transactions (
+    id, household_id, account_id, transfer_account_id, category_id,
+    amount, amount_cents, description, date, type, source_fingerprint
+  )
+  SELECT
+    id, p_household_id, account_id, transfer_account_id, category_id,
+    amount, amount_cents, description, date, type, source_fingerprint
+  FROM jsonb_populate_recordset(NULL::transactions, p_rows->'transactions');
+
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  INSERT INTO transaction_splits (household_id, transaction_id, category_id, amount, amount_cents, memo)
+  SELECT p_household_id, transaction_id, category_id, amount, amount_cents, memo
+  FROM jsonb_populate_recordset(NULL::transaction_splits, p_rows->'splits');
+
+  RETURN jsonb_build_object('success', true, 'transactions', v_transactions);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_household_backup(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION restore_household_backup(UUID, JSONB) FROM PUBLIC, anon;
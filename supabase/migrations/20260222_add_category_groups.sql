@@ -0,0 +1,188 @@
+-- Migration: Category groups
+-- Categories can sit inside a parent group (one level deep), e.g. Rent and
+-- Utilities inside Housing. A group is a category like any other: it can
+-- have its own budget and transactions, and reports add its subcategories
+-- into its totals.
+--
+-- sort_order replaces alphabetical order; siblings are ordered among
+-- themselves.
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sort_order INT NOT NULL DEFAULT 0;
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_parent_not_self;
+ALTER TABLE categories
+  ADD CONSTRAINT categories_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent ON categories(parent_id);
+
+-- Keep today's alphabetical order as the starting point
+UPDATE categories c
+SET sort_order = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY household_id ORDER BY name) - 1 AS position
+  FROM categories
+) ordered
+WHERE c.id = ordered.id;
+
+-- Reordering isn't worth a log entry per category
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_actor UUID := NULLIF(current_setting('app.member_id', true), '')::UUID;
+  v_old JSONB;
+  v_new JSONB;
+  -- Bookkeeping columns: a write that only changes these isn't logged,
+  -- e.g. removing a member clearing the rows they touched, or reordering
+  v_ignored TEXT[] := ARRAY['updated_at', 'updated_by', 'created_by', 'sort_order'];
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_old := to_jsonb(OLD);
+
+    -- A transaction's split lines are deleted with it; keep them so it can be restored
+    IF TG_TABLE_NAME = 'transactions' THEN
+      v_old := v_old || jsonb_build_object('splits', COALESCE(
+        (SELECT jsonb_agg(to_jsonb(s)) FROM transaction_splits s WHERE s.transaction_id = OLD.id),
+        '[]'::JSONB
+      ));
+    END IF;
+
+    INSERT INTO audit_log (household_id, table_name, record_id, action, before_values, actor_id)
+    VALUES (OLD.household_id, TG_TABLE_NAME, OLD.id, 'delete', v_old, v_actor);
+
+    RETURN OLD;
+  END IF;
+
+  v_new := to_jsonb(NEW);
+  v_actor := COALESCE(v_actor, (v_new->>'updated_by')::UUID);
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO audit_log (household_id, table_name, record_id, action, after_values, actor_id)
+    VALUES (NEW.household_id, TG_TABLE_NAME, NEW.id, 'create', v_new, v_actor);
+  ELSE
+    v_old := to_jsonb(OLD);
+
+    IF v_old - v_ignored = v_new - v_ignored THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO audit_log (household_id, table_name, record_id, action, before_values, after_values, actor_id)
+    VALUES (NEW.household_id, TG_TABLE_NAME, NEW.id, 'update', v_old, v_new, v_actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Save a new order for a set of sibling categories: each gets its
+-- position in p_category_ids
+CREATE OR REPLACE FUNCTION reorder_categories(
+  p_household_id UUID,
+  p_category_ids UUID[],
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_updated INT;
+BEGIN
+  UPDATE categories c
+  SET sort_order = ordered.position - 1, updated_by = p_member_id
+  FROM unnest(p_category_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE c.id = ordered.id
+    AND c.household_id = p_household_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reorder_categories(UUID, UUID[], UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION reorder_categories(UUID, UUID[], UUID) FROM PUBLIC, anon;
+
+-- Restores keep categories in their groups and order
+CREATE OR REPLACE FUNCTION restore_household_backup(
+  p_household_id UUID,
+  p_rows JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transactions INT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid household ID');
+  END IF;
+
+  -- Only restore into a fresh household, so nothing is merged or overwritten
+  IF EXISTS (SELECT 1 FROM categories WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM transactions WHERE household_id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Backups can only be restored into an empty household'
+    );
+  END IF;
+
+  UPDATE households
+  SET name = p_rows->'settings'->>'name',
+      timezone = p_rows->'settings'->>'timezone',
+      auto_rollover_budget = (p_rows->'settings'->>'auto_rollover_budget')::BOOLEAN
+  WHERE id = p_household_id;
+
+  -- Replace the default account created with the household
+  DELETE FROM accounts WHERE household_id = p_household_id;
+
+  INSERT INTO accounts (id, household_id, name, type, opening_balance, opening_balance_cents, is_default)
+  SELECT id, p_household_id, name, type, opening_balance, opening_balance_cents, is_default
+  FROM jsonb_populate_recordset(NULL::accounts, p_rows->'accounts');
+
+  INSERT INTO categories (
+    id, household_id, name, color, rollover_policy, rollover_cap_cents, archived_at, parent_id, sort_order
+  )
+  SELECT
+    id, p_household_id, name, color, rollover_policy, rollover_cap_cents, archived_at, parent_id,
+    COALESCE(sort_order, 0)
+  FROM jsonb_populate_recordset(NULL::categories, p_rows->'categories');
+
+  INSERT INTO category_keywords (household_id, category_id, keyword)
+  SELECT p_household_id, category_id, keyword
+  FROM jsonb_populate_recordset(NULL::category_keywords, p_rows->'keywords');
+
+  INSERT INTO merchant_patterns (household_id, category_id, merchant_name, match_count, last_used_at)
+  SELECT p_household_id, category_id, merchant_name, match_count, last_used_at
+  FROM jsonb_populate_recordset(NULL::merchant_patterns, p_rows->'merchant_patterns');
+
+  INSERT INTO monthly_budgets (household_id, category_id, month, budgeted_amount, budgeted_amount_cents)
+  SELECT p_household_id, category_id, month, budgeted_amount, budgeted_amount_cents
+  FROM jsonb_populate_recordset(NULL::monthly_budgets, p_rows->'monthly_budgets');
+
+  INSERT INTO transactions (
+    id, household_id, account_id, transfer_account_id, category_id,
+    amount, amount_cents, description, date, type, source_fingerprint
+  )
+  SELECT
+    id, p_household_id, account_id, transfer_account_id, category_id,
+    amount, amount_cents, description, date, type, source_fingerprint
+  FROM jsonb_populate_recordset(NULL::transactions, p_rows->'transactions');
+
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  INSERT INTO transaction_splits (household_id, transaction_id, category_id, amount, amount_cents, memo)
+  SELECT p_household_id, transaction_id, category_id, amount, amount_cents, memo
+  FROM jsonb_populate_recordset(NULL::transaction_splits, p_rows->'splits');
+
+  RETURN jsonb_build_object('success', true, 'transactions', v_transactions);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_household_backup(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION restore_household_backup(UUID, JSONB) FROM PUBLIC, anon;
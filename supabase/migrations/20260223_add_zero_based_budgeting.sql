@@ -0,0 +1,117 @@
+-- Migration: Zero-based budgeting
+-- An optional mode where every dollar of income has to be assigned to a
+-- category. zero_based_start_month is the first month counted (NULL when the
+-- mode is off): income from then on, less everything budgeted from then on,
+-- is what's left to assign.
+--
+-- budget_moves records money moved from one category's budget to another's.
+
+ALTER TABLE households
+  ADD COLUMN IF NOT EXISTS zero_based_start_month TEXT;
+
+ALTER TABLE households DROP CONSTRAINT IF EXISTS households_zero_based_start_month_format;
+ALTER TABLE households
+  ADD CONSTRAINT households_zero_based_start_month_format
+  CHECK (zero_based_start_month IS NULL OR zero_based_start_month ~ '^\d{4}-\d{2}$');
+
+COMMENT ON COLUMN households.zero_based_start_month IS 'First month of zero-based budgeting; NULL when off';
+
+CREATE TABLE IF NOT EXISTS budget_moves (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  month TEXT NOT NULL,
+  -- Kept when a category is deleted so the history still adds up
+  from_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  to_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  amount DECIMAL(12,2) NOT NULL,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  note TEXT,
+  created_by UUID REFERENCES household_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_moves_month
+  ON budget_moves(household_id, month, created_at DESC);
+
+ALTER TABLE budget_moves ENABLE ROW LEVEL SECURITY;
+
+-- Move part of one category's budget for a month to another category, in
+-- one step, and record the move. The budgets' log entries are attributed
+-- to the member.
+CREATE OR REPLACE FUNCTION move_budget_money(
+  p_household_id UUID,
+  p_month TEXT,
+  p_from_category_id UUID,
+  p_to_category_id UUID,
+  p_amount_cents BIGINT,
+  p_note TEXT DEFAULT NULL,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_from_cents BIGINT;
+  v_move_id UUID;
+BEGIN
+  IF p_from_category_id = p_to_category_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose two different categories');
+  END IF;
+
+  IF p_amount_cents <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Amount must be greater than zero');
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM categories
+    WHERE id IN (p_from_category_id, p_to_category_id)
+      AND household_id = p_household_id
+      AND deleted_at IS NULL
+  ) <> 2 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Category not found');
+  END IF;
+
+  SELECT budgeted_amount_cents INTO v_from_cents
+  FROM monthly_budgets
+  WHERE household_id = p_household_id
+    AND category_id = p_from_category_id
+    AND month = p_month
+  FOR UPDATE;
+
+  IF COALESCE(v_from_cents, 0) < p_amount_cents THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not enough budgeted in that category to move');
+  END IF;
+
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  UPDATE monthly_budgets
+  SET budgeted_amount_cents = budgeted_amount_cents - p_amount_cents,
+      budgeted_amount = (budgeted_amount_cents - p_amount_cents) / 100.0,
+      updated_by = p_member_id
+  WHERE household_id = p_household_id
+    AND category_id = p_from_category_id
+    AND month = p_month;
+
+  INSERT INTO monthly_budgets (household_id, category_id, month, budgeted_amount, budgeted_amount_cents, updated_by)
+  VALUES (p_household_id, p_to_category_id, p_month, p_amount_cents / 100.0, p_amount_cents, p_member_id)
+  ON CONFLICT (household_id, category_id, month) DO UPDATE
+  SET budgeted_amount_cents = monthly_budgets.budgeted_amount_cents + EXCLUDED.budgeted_amount_cents,
+      budgeted_amount = (monthly_budgets.budgeted_amount_cents + EXCLUDED.budgeted_amount_cents) / 100.0,
+      updated_by = EXCLUDED.updated_by;
+
+  INSERT INTO budget_moves (
+    household_id, month, from_category_id, to_category_id, amount, amount_cents, note, created_by
+  )
+  VALUES (
+    p_household_id, p_month, p_from_category_id, p_to_category_id,
+    p_amount_cents / 100.0, p_amount_cents, NULLIF(TRIM(p_note), ''), p_member_id
+  )
+  RETURNING id INTO v_move_id;
+
+  RETURN jsonb_build_object('success', true, 'move_id', v_move_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION move_budget_money(UUID, TEXT, UUID, UUID, BIGINT, TEXT, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION move_budget_money(UUID, TEXT, UUID, UUID, BIGINT, TEXT, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,196 @@
+-- Migration: Leave trashed transactions out of the unique indexes
+-- A transaction in the trash kept its source fingerprint and scheduled
+-- occurrence, so re-importing the statement row or posting the occurrence
+-- again was silently skipped, even though the wizard's duplicate check
+-- (which only sees live transactions) showed it as new. Only live rows
+-- count now.
+--
+-- Restoring a trashed row that has been recorded again since fails on
+-- the index, and is reported as such.
+
+DROP INDEX IF EXISTS idx_transactions_account_source_fingerprint;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_account_source_fingerprint
+  ON transactions(household_id, account_id, source_fingerprint)
+  WHERE source_fingerprint IS NOT NULL AND deleted_at IS NULL;
+
+DROP INDEX IF EXISTS idx_transactions_scheduled_occurrence;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_scheduled_occurrence
+  ON transactions(scheduled_transaction_id, scheduled_date)
+  WHERE scheduled_transaction_id IS NOT NULL AND deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION bulk_import_transactions(
+  p_household_id UUID,
+  p_transactions JSONB,
+  p_batch JSONB DEFAULT NULL,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction JSONB;
+  v_imported INT := 0;
+  v_errors JSONB := '[]'::JSONB;
+  v_index INT := 0;
+  v_type TEXT;
+  v_amount DECIMAL(10,2);
+  v_id UUID;
+  v_ids UUID[] := '{}';
+  v_batch_id UUID;
+  v_skipped INT[] := '{}';
+  v_account_id UUID;
+BEGIN
+  -- Validate household exists
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid household ID',
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions)
+    );
+  END IF;
+
+  IF NULLIF(p_batch->>'account_id', '') IS NOT NULL THEN
+    SELECT id INTO v_account_id
+    FROM accounts
+    WHERE id = (p_batch->>'account_id')::UUID AND household_id = p_household_id;
+  ELSE
+    SELECT id INTO v_account_id
+    FROM accounts
+    WHERE household_id = p_household_id AND is_default;
+  END IF;
+
+  IF v_account_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Account not found',
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions)
+    );
+  END IF;
+
+  -- Process each transaction in the array
+  FOR v_transaction IN SELECT * FROM jsonb_array_elements(p_transactions)
+  LOOP
+    BEGIN
+      v_type := COALESCE(v_transaction->>'type', 'expense');
+      v_amount := (v_transaction->>'amount')::DECIMAL(10,2);
+
+      IF v_type NOT IN ('income', 'expense') THEN
+        RAISE EXCEPTION 'Invalid transaction type: %', v_type;
+      END IF;
+
+      -- Only expenses can be negative (refunds)
+      IF v_amount = 0 OR (v_type = 'income' AND v_amount < 0) THEN
+        RAISE EXCEPTION 'Invalid amount';
+      END IF;
+
+      -- Category is required for expenses that aren't refunds
+      IF v_type = 'expense' AND v_amount > 0 AND v_transaction->>'category_id' IS NULL THEN
+        RAISE EXCEPTION 'Category is required for expenses';
+      END IF;
+
+      INSERT INTO transactions (
+        household_id,
+        account_id,
+        category_id,
+        amount,
+        amount_cents,
+        description,
+        date,
+        type,
+        source_fingerprint,
+        updated_by
+      ) VALUES (
+        p_household_id,
+        v_account_id,
+        (v_transaction->>'category_id')::UUID,
+        v_amount,
+        ROUND(v_amount * 100)::BIGINT,
+        v_transaction->>'description',
+        (v_transaction->>'date')::DATE,
+        v_type,
+        NULLIF(v_transaction->>'source_fingerprint', ''),
+        p_member_id
+      )
+      ON CONFLICT (household_id, account_id, source_fingerprint)
+        WHERE source_fingerprint IS NOT NULL AND deleted_at IS NULL
+      DO NOTHING
+      RETURNING id INTO v_id;
+
+      -- Rows already imported from an earlier statement, and not since
+      -- deleted, are skipped and reported so the import can say which
+      IF v_id IS NULL THEN
+        v_skipped := array_append(v_skipped, v_index);
+      ELSE
+        v_ids := array_append(v_ids, v_id);
+        v_imported := v_imported + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Collect error but continue processing to report all errors
+      v_errors := v_errors || jsonb_build_object(
+        'index', v_index,
+        'message', SQLERRM
+      );
+    END;
+    v_index := v_index + 1;
+  END LOOP;
+
+  -- If any errors occurred, rollback the entire transaction
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RAISE EXCEPTION 'Import failed with errors: %', v_errors::TEXT;
+  END IF;
+
+  -- Record the batch in the same transaction as its rows
+  IF p_batch IS NOT NULL AND v_imported > 0 THEN
+    INSERT INTO import_batches (
+      household_id,
+      account_id,
+      file_name,
+      format,
+      row_count,
+      start_date,
+      end_date,
+      transaction_ids
+    )
+    SELECT
+      p_household_id,
+      v_account_id,
+      COALESCE(NULLIF(p_batch->>'file_name', ''), 'Unknown file'),
+      p_batch->>'format',
+      v_imported,
+      MIN(t.date),
+      MAX(t.date),
+      v_ids
+    FROM transactions AS t
+    WHERE t.id = ANY(v_ids)
+    RETURNING id INTO v_batch_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'imported', v_imported,
+    'failed', 0,
+    'errors', '[]'::JSONB,
+    'skipped', COALESCE(array_length(v_skipped, 1), 0),
+    'skipped_indexes', to_jsonb(v_skipped),
+    'batch_id', v_batch_id
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Return error details without rolling back (the exception already did that)
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'imported', 0,
+      'failed', jsonb_array_length(p_transactions),
+      'errors', v_errors
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_import_transactions(UUID, JSONB, JSONB, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,113 @@
+-- Migration: Apply rule runs atomically
+-- Re-running the rules used to update transactions one at a time, so a
+-- transfer, split or reconciled row could fail the run halfway through.
+-- The changes are still worked out in the app (rule patterns use
+-- JavaScript regular expressions) but are now saved here in one
+-- transaction, with the same checks as bulk_update_transactions: if any
+-- row was changed by someone else since it was previewed, or is
+-- reconciled, nothing is changed and those rows are reported back.
+
+CREATE OR REPLACE FUNCTION apply_rule_changes(
+  p_household_id UUID,
+  p_items JSONB,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_ids UUID[];
+  v_conflicts JSONB;
+  v_locked JSONB;
+  v_updated INT;
+BEGIN
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  SELECT array_agg(DISTINCT (item->>'id')::UUID)
+  INTO v_ids
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_ids IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'updated', 0, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+  END IF;
+
+  -- Lock the rows so nobody else can change them between the check and the write
+  PERFORM 1
+  FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+  FOR UPDATE;
+
+  -- Changed or deleted since the changes were worked out
+  SELECT COALESCE(jsonb_agg(item->>'id'), '[]'::JSONB)
+  INTO v_conflicts
+  FROM jsonb_array_elements(p_items) AS item
+  LEFT JOIN transactions t
+    ON t.id = (item->>'id')::UUID
+   AND t.household_id = p_household_id
+  WHERE t.id IS NULL
+     OR t.deleted_at IS NOT NULL
+     OR COALESCE(t.updated_at, t.created_at) IS DISTINCT FROM (item->>'expected_updated_at')::TIMESTAMPTZ;
+
+  -- Reconciled against a statement and not unlocked
+  SELECT COALESCE(jsonb_agg(t.id), '[]'::JSONB)
+  INTO v_locked
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.id = ANY(v_ids)
+    AND (t.reconciliation_id IS NOT NULL OR t.transfer_reconciliation_id IS NOT NULL);
+
+  IF jsonb_array_length(v_conflicts) > 0 OR jsonb_array_length(v_locked) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'updated', 0, 'conflicts', v_conflicts, 'locked', v_locked);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE household_id = p_household_id AND id = ANY(v_ids) AND type = 'transfer'
+  ) THEN
+    RAISE EXCEPTION 'Rules don''t apply to transfers';
+  END IF;
+
+  -- A split's categories live on its splits
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    JOIN transaction_splits s
+      ON s.transaction_id = (item->>'id')::UUID
+     AND s.household_id = p_household_id
+    WHERE item->>'category_id' IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Rules can''t recategorize split transactions';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    LEFT JOIN categories c
+      ON c.id = (item->>'category_id')::UUID
+     AND c.household_id = p_household_id
+     AND c.deleted_at IS NULL
+     AND c.archived_at IS NULL
+    WHERE item->>'category_id' IS NOT NULL
+      AND c.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  UPDATE transactions t
+  SET category_id = (item->>'category_id')::UUID,
+      description = item->>'description',
+      updated_by = p_member_id
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE t.household_id = p_household_id
+    AND t.id = (item->>'id')::UUID;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_rule_changes(UUID, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION apply_rule_changes(UUID, JSONB, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,40 @@
+-- Migration: Account balances
+-- Each account's balance is its opening balance plus every live
+-- transaction that touches it: income adds, expenses subtract (so refunds,
+-- being negative, add back), and a transfer leaves account_id and arrives
+-- in transfer_account_id. Summed here rather than in the app, where the
+-- transactions came back in one request and stopped at PostgREST's row
+-- limit.
+
+CREATE OR REPLACE FUNCTION get_account_balances(p_household_id UUID)
+RETURNS TABLE (
+  account_id UUID,
+  balance_cents BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH movements AS (
+    SELECT t.account_id,
+           CASE WHEN t.type = 'income' THEN t.amount_cents ELSE -t.amount_cents END AS cents
+    FROM transactions t
+    WHERE t.household_id = p_household_id
+      AND t.deleted_at IS NULL
+    UNION ALL
+    SELECT t.transfer_account_id, t.amount_cents
+    FROM transactions t
+    WHERE t.household_id = p_household_id
+      AND t.deleted_at IS NULL
+      AND t.type = 'transfer'
+      AND t.transfer_account_id IS NOT NULL
+  )
+  SELECT a.id, (a.opening_balance_cents + COALESCE(SUM(m.cents), 0))::BIGINT
+  FROM accounts a
+  LEFT JOIN movements m ON m.account_id = a.id
+  WHERE a.household_id = p_household_id
+  GROUP BY a.id, a.opening_balance_cents;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_account_balances(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_account_balances(UUID) FROM PUBLIC, anon;
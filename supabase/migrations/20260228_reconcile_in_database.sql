@@ -0,0 +1,187 @@
+-- Migration: Reconcile in the database
+-- Reconciling used to check the statement in the app against a capped
+-- fetch of the account's transactions, then save the reconciliation and
+-- mark its transactions in separate requests. It now happens in one
+-- transaction here.
+--
+-- The lock on reconciled transactions was only checked by the app's own
+-- edit paths. A trigger now enforces it for every write: while a
+-- transaction is reconciled in either of its accounts, only its
+-- reconciliation can change (reconciling its other side, or unlocking it).
+
+-- An account's opening balance plus every transaction reconciled in it.
+-- A transfer is reconciled separately in the account it leaves and the
+-- one it arrives in.
+CREATE OR REPLACE FUNCTION get_reconciled_balance(
+  p_household_id UUID,
+  p_account_id UUID
+)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT (a.opening_balance_cents + COALESCE((
+    SELECT SUM(
+      CASE
+        WHEN t.type = 'transfer' AND t.account_id = p_account_id THEN -t.amount_cents
+        WHEN t.type = 'transfer' THEN t.amount_cents
+        WHEN t.type = 'income' THEN t.amount_cents
+        ELSE -t.amount_cents
+      END
+    )
+    FROM transactions t
+    WHERE t.household_id = p_household_id
+      AND t.deleted_at IS NULL
+      AND (
+        (t.type = 'transfer' AND t.transfer_account_id = p_account_id AND t.transfer_reconciliation_id IS NOT NULL)
+        OR (t.account_id = p_account_id AND t.reconciliation_id IS NOT NULL)
+      )
+  ), 0))::BIGINT
+  FROM accounts a
+  WHERE a.id = p_account_id
+    AND a.household_id = p_household_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_reconciled_balance(UUID, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_reconciled_balance(UUID, UUID) FROM PUBLIC, anon;
+
+-- Reconcile an account against a statement. The checked-off transactions,
+-- together with those reconciled before, must add up to the statement's
+-- ending balance. Returns difference_cents (cleared minus statement) when
+-- they don't.
+CREATE OR REPLACE FUNCTION reconcile_account(
+  p_household_id UUID,
+  p_account_id UUID,
+  p_statement_date DATE,
+  p_statement_balance NUMERIC,
+  p_statement_balance_cents BIGINT,
+  p_transaction_ids UUID[],
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_ids UUID[];
+  v_cleared_cents BIGINT;
+  v_reconciliation_id UUID;
+BEGIN
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  -- One reconciliation of an account at a time
+  PERFORM 1
+  FROM accounts
+  WHERE id = p_account_id
+    AND household_id = p_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Account not found');
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT id), '{}')
+  INTO v_ids
+  FROM unnest(p_transaction_ids) AS id;
+
+  -- Lock the rows so nobody else can change them between the check and the write
+  PERFORM 1
+  FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+  FOR UPDATE;
+
+  -- Each must be live and not yet reconciled in this account
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(v_ids) AS cleared(id)
+    LEFT JOIN transactions t
+      ON t.id = cleared.id
+     AND t.household_id = p_household_id
+     AND t.deleted_at IS NULL
+     AND (
+       (t.type = 'transfer' AND t.transfer_account_id = p_account_id AND t.transfer_reconciliation_id IS NULL)
+       OR (t.account_id = p_account_id AND t.reconciliation_id IS NULL)
+     )
+    WHERE t.id IS NULL
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found or already reconciled');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE household_id = p_household_id AND id = ANY(v_ids) AND date > p_statement_date
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only transactions up to the statement date can be cleared');
+  END IF;
+
+  SELECT get_reconciled_balance(p_household_id, p_account_id) + COALESCE(SUM(
+    CASE
+      WHEN t.type = 'transfer' AND t.account_id = p_account_id THEN -t.amount_cents
+      WHEN t.type = 'transfer' THEN t.amount_cents
+      WHEN t.type = 'income' THEN t.amount_cents
+      ELSE -t.amount_cents
+    END
+  ), 0)
+  INTO v_cleared_cents
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.id = ANY(v_ids);
+
+  IF v_cleared_cents <> p_statement_balance_cents THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'difference_cents', v_cleared_cents - p_statement_balance_cents
+    );
+  END IF;
+
+  INSERT INTO reconciliations (household_id, account_id, statement_date, statement_balance, statement_balance_cents)
+  VALUES (p_household_id, p_account_id, p_statement_date, p_statement_balance, p_statement_balance_cents)
+  RETURNING id INTO v_reconciliation_id;
+
+  -- A transfer into this account is reconciled on its receiving side
+  UPDATE transactions
+  SET transfer_reconciliation_id = v_reconciliation_id, updated_by = p_member_id
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+    AND type = 'transfer'
+    AND transfer_account_id = p_account_id;
+
+  UPDATE transactions
+  SET reconciliation_id = v_reconciliation_id, updated_by = p_member_id
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+    AND NOT (type = 'transfer' AND transfer_account_id = p_account_id);
+
+  RETURN jsonb_build_object('success', true, 'reconciliation_id', v_reconciliation_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reconcile_account(UUID, UUID, DATE, NUMERIC, BIGINT, UUID[], UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_account(UUID, UUID, DATE, NUMERIC, BIGINT, UUID[], UUID) FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION enforce_reconciliation_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (OLD.reconciliation_id IS NOT NULL OR OLD.transfer_reconciliation_id IS NOT NULL)
+     AND (NEW.reconciliation_id IS NOT NULL OR NEW.transfer_reconciliation_id IS NOT NULL)
+     AND (NEW.date, NEW.amount, NEW.amount_cents, NEW.type, NEW.account_id, NEW.transfer_account_id,
+          NEW.category_id, NEW.description, NEW.deleted_at)
+         IS DISTINCT FROM
+         (OLD.date, OLD.amount, OLD.amount_cents, OLD.type, OLD.account_id, OLD.transfer_account_id,
+          OLD.category_id, OLD.description, OLD.deleted_at)
+  THEN
+    RAISE EXCEPTION 'This transaction has been reconciled. Unlock it before changing it.';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_reconciliation_lock ON transactions;
+CREATE TRIGGER transactions_reconciliation_lock
+  BEFORE UPDATE ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_reconciliation_lock();
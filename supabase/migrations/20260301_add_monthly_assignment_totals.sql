@@ -0,0 +1,51 @@
+-- Migration: Monthly assignment totals
+-- Income and budgeted amounts per month, for zero-based budgeting's ready
+-- to assign. Summed here rather than in the app, where the transactions
+-- came back in one request and stopped at PostgREST's row limit.
+--
+-- Income is what the app counts as income: income transactions, and
+-- anything else but a transfer filed under a category named Income.
+
+CREATE OR REPLACE FUNCTION get_monthly_assignment_totals(
+  p_household_id UUID,
+  p_start_month TEXT,
+  p_end_month TEXT
+)
+RETURNS TABLE (
+  month TEXT,
+  income_cents BIGINT,
+  assigned_cents BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH income AS (
+    SELECT to_char(t.date, 'YYYY-MM') AS month, SUM(t.amount_cents) AS cents
+    FROM transactions t
+    LEFT JOIN categories c ON c.id = t.category_id
+    WHERE t.household_id = p_household_id
+      AND t.deleted_at IS NULL
+      AND t.date >= to_date(p_start_month || '-01', 'YYYY-MM-DD')
+      AND t.date < to_date(p_end_month || '-01', 'YYYY-MM-DD') + INTERVAL '1 month'
+      AND (t.type = 'income' OR (t.type <> 'transfer' AND lower(c.name) = 'income'))
+    GROUP BY 1
+  ),
+  assigned AS (
+    SELECT b.month, SUM(b.budgeted_amount_cents) AS cents
+    FROM monthly_budgets b
+    WHERE b.household_id = p_household_id
+      AND b.month >= p_start_month
+      AND b.month <= p_end_month
+    GROUP BY 1
+  )
+  SELECT COALESCE(i.month, a.month),
+         COALESCE(i.cents, 0)::BIGINT,
+         COALESCE(a.cents, 0)::BIGINT
+  FROM income i
+  FULL JOIN assigned a ON a.month = i.month
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_monthly_assignment_totals(UUID, TEXT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_monthly_assignment_totals(UUID, TEXT, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,159 @@
+-- Migration: Restore the whole household
+-- Backups now also carry rules, merchant aliases, scheduled transactions,
+-- subscriptions, goals and their contributions, budget moves, member names
+-- and the zero-based setting.
+--
+-- p_rows adds: settings.zero_based_start_month, members, budget_moves,
+--   rules, merchant_aliases, scheduled_transactions, subscriptions,
+--   savings_goals and goal_contributions.
+--
+-- PINs aren't in backups, so members aren't created. Each archived member
+-- is matched by name to a member of this household, and created_by and
+-- updated_by point at that member, or are left empty when none matches.
+
+CREATE OR REPLACE FUNCTION restore_household_backup(
+  p_household_id UUID,
+  p_rows JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transactions INT;
+  v_members JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM households WHERE id = p_household_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid household ID');
+  END IF;
+
+  -- Only restore into a fresh household, so nothing is merged or overwritten
+  IF EXISTS (SELECT 1 FROM categories WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM transactions WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM categorization_rules WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM merchant_aliases WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM scheduled_transactions WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM subscriptions WHERE household_id = p_household_id)
+     OR EXISTS (SELECT 1 FROM savings_goals WHERE household_id = p_household_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Backups can only be restored into an empty household'
+    );
+  END IF;
+
+  -- Archived member ID -> this household's member with the same name
+  SELECT COALESCE(jsonb_object_agg(m.id, hm.id), '{}'::JSONB)
+  INTO v_members
+  FROM jsonb_to_recordset(p_rows->'members') AS m(id UUID, name TEXT)
+  JOIN household_members hm ON hm.household_id = p_household_id AND hm.name = m.name;
+
+  UPDATE households
+  SET name = p_rows->'settings'->>'name',
+      timezone = p_rows->'settings'->>'timezone',
+      auto_rollover_budget = (p_rows->'settings'->>'auto_rollover_budget')::BOOLEAN,
+      zero_based_start_month = p_rows->'settings'->>'zero_based_start_month'
+  WHERE id = p_household_id;
+
+  -- Replace the default account created with the household
+  DELETE FROM accounts WHERE household_id = p_household_id;
+
+  INSERT INTO accounts (id, household_id, name, type, opening_balance, opening_balance_cents, is_default)
+  SELECT id, p_household_id, name, type, opening_balance, opening_balance_cents, is_default
+  FROM jsonb_populate_recordset(NULL::accounts, p_rows->'accounts');
+
+  INSERT INTO categories (
+    id, household_id, name, color, rollover_policy, rollover_cap_cents, archived_at, parent_id, sort_order
+  )
+  SELECT
+    id, p_household_id, name, color, rollover_policy, rollover_cap_cents, archived_at, parent_id,
+    COALESCE(sort_order, 0)
+  FROM jsonb_populate_recordset(NULL::categories, p_rows->'categories');
+
+  INSERT INTO category_keywords (household_id, category_id, keyword)
+  SELECT p_household_id, category_id, keyword
+  FROM jsonb_populate_recordset(NULL::category_keywords, p_rows->'keywords');
+
+  INSERT INTO merchant_patterns (household_id, category_id, merchant_name, match_count, last_used_at)
+  SELECT p_household_id, category_id, merchant_name, match_count, last_used_at
+  FROM jsonb_populate_recordset(NULL::merchant_patterns, p_rows->'merchant_patterns');
+
+  INSERT INTO monthly_budgets (
+    household_id, category_id, month, budgeted_amount, budgeted_amount_cents, created_by, updated_by
+  )
+  SELECT
+    p_household_id, category_id, month, budgeted_amount, budgeted_amount_cents,
+    (v_members->>created_by::TEXT)::UUID, (v_members->>updated_by::TEXT)::UUID
+  FROM jsonb_populate_recordset(NULL::monthly_budgets, p_rows->'monthly_budgets');
+
+  INSERT INTO budget_moves (
+    household_id, month, from_category_id, to_category_id, amount, amount_cents, note, created_by, created_at
+  )
+  SELECT
+    p_household_id, month, from_category_id, to_category_id, amount, amount_cents, note,
+    (v_members->>created_by::TEXT)::UUID, created_at
+  FROM jsonb_populate_recordset(NULL::budget_moves, p_rows->'budget_moves');
+
+  INSERT INTO categorization_rules (
+    household_id, priority, match_type, pattern, min_amount, max_amount,
+    transaction_type, category_id, rename_to, enabled
+  )
+  SELECT
+    p_household_id, priority, match_type, pattern, min_amount, max_amount,
+    transaction_type, category_id, rename_to, enabled
+  FROM jsonb_populate_recordset(NULL::categorization_rules, p_rows->'rules');
+
+  INSERT INTO merchant_aliases (household_id, match_text, display_name)
+  SELECT p_household_id, match_text, display_name
+  FROM jsonb_populate_recordset(NULL::merchant_aliases, p_rows->'merchant_aliases');
+
+  INSERT INTO scheduled_transactions (
+    id, household_id, category_id, amount, amount_cents, description, type,
+    frequency, day_of_month, start_date, end_date, next_date, mode
+  )
+  SELECT
+    id, p_household_id, category_id, amount, amount_cents, description, type,
+    frequency, day_of_month, start_date, end_date, next_date, mode
+  FROM jsonb_populate_recordset(NULL::scheduled_transactions, p_rows->'scheduled_transactions');
+
+  INSERT INTO subscriptions (
+    household_id, merchant, display_name, amount, amount_cents, frequency, status, category_id, last_charge_date
+  )
+  SELECT
+    p_household_id, merchant, display_name, amount, amount_cents, frequency, status, category_id, last_charge_date
+  FROM jsonb_populate_recordset(NULL::subscriptions, p_rows->'subscriptions');
+
+  INSERT INTO savings_goals (
+    id, household_id, name, target_amount, target_amount_cents, start_date, target_date, category_id, auto_budget
+  )
+  SELECT
+    id, p_household_id, name, target_amount, target_amount_cents, start_date, target_date, category_id, auto_budget
+  FROM jsonb_populate_recordset(NULL::savings_goals, p_rows->'savings_goals');
+
+  INSERT INTO goal_contributions (household_id, goal_id, amount, amount_cents, date, note)
+  SELECT p_household_id, goal_id, amount, amount_cents, date, note
+  FROM jsonb_populate_recordset(NULL::goal_contributions, p_rows->'goal_contributions');
+
+  INSERT INTO transactions (
+    id, household_id, account_id, transfer_account_id, category_id,
+    amount, amount_cents, description, date, type, source_fingerprint,
+    scheduled_transaction_id, scheduled_date, created_by, updated_by
+  )
+  SELECT
+    id, p_household_id, account_id, transfer_account_id, category_id,
+    amount, amount_cents, description, date, type, source_fingerprint,
+    scheduled_transaction_id, scheduled_date,
+    (v_members->>created_by::TEXT)::UUID, (v_members->>updated_by::TEXT)::UUID
+  FROM jsonb_populate_recordset(NULL::transactions, p_rows->'transactions');
+
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  INSERT INTO transaction_splits (household_id, transaction_id, category_id, amount, amount_cents, memo)
+  SELECT p_household_id, transaction_id, category_id, amount, amount_cents, memo
+  FROM jsonb_populate_recordset(NULL::transaction_splits, p_rows->'splits');
+
+  RETURN jsonb_build_object('success', true, 'transactions', v_transactions);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_household_backup(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION restore_household_backup(UUID, JSONB) FROM PUBLIC, anon;
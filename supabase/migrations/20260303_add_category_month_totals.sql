@@ -0,0 +1,79 @@
+-- Migration: Category month totals
+-- Budgeted and spent amounts per month for every category that carries
+-- its balance forward, from the first month the category was budgeted.
+-- Envelope ledgers are walked from there, so each month's carry-in always
+-- matches the month before's carry-out, however long ago the envelope
+-- opened. Summed here rather than in the app, where a year of transactions
+-- came back in one request and stopped at PostgREST's row limit.
+--
+-- Spending is what the app counts as spending: anything but income and
+-- transfers, split across categories by its split lines when it has them.
+
+CREATE OR REPLACE FUNCTION get_category_month_totals(
+  p_household_id UUID,
+  p_end_month TEXT
+)
+RETURNS TABLE (
+  category_id UUID,
+  month TEXT,
+  budgeted_cents BIGINT,
+  spent_cents BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH opened AS (
+    SELECT b.category_id, MIN(b.month) AS month
+    FROM monthly_budgets b
+    JOIN categories c ON c.id = b.category_id
+    WHERE b.household_id = p_household_id
+      AND c.rollover_policy <> 'reset'
+      AND b.month <= p_end_month
+    GROUP BY 1
+  ),
+  spending AS (
+    SELECT t.id, t.category_id, t.amount_cents, to_char(t.date, 'YYYY-MM') AS month
+    FROM transactions t
+    LEFT JOIN categories c ON c.id = t.category_id
+    WHERE t.household_id = p_household_id
+      AND t.deleted_at IS NULL
+      AND t.type NOT IN ('income', 'transfer')
+      AND lower(c.name) IS DISTINCT FROM 'income'
+      AND t.date >= (SELECT to_date(MIN(o.month) || '-01', 'YYYY-MM-DD') FROM opened o)
+      AND t.date < to_date(p_end_month || '-01', 'YYYY-MM-DD') + INTERVAL '1 month'
+  ),
+  allocations AS (
+    SELECT s.category_id, t.month, s.amount_cents
+    FROM spending t
+    JOIN transaction_splits s ON s.transaction_id = t.id
+    UNION ALL
+    SELECT t.category_id, t.month, t.amount_cents
+    FROM spending t
+    WHERE NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+  ),
+  spent AS (
+    SELECT a.category_id, a.month, SUM(a.amount_cents) AS cents
+    FROM allocations a
+    JOIN opened o ON o.category_id = a.category_id AND a.month >= o.month
+    GROUP BY 1, 2
+  ),
+  budgeted AS (
+    SELECT b.category_id, b.month, SUM(b.budgeted_amount_cents) AS cents
+    FROM monthly_budgets b
+    JOIN opened o ON o.category_id = b.category_id
+    WHERE b.household_id = p_household_id
+      AND b.month <= p_end_month
+    GROUP BY 1, 2
+  )
+  SELECT COALESCE(b.category_id, s.category_id),
+         COALESCE(b.month, s.month),
+         COALESCE(b.cents, 0)::BIGINT,
+         COALESCE(s.cents, 0)::BIGINT
+  FROM budgeted b
+  FULL JOIN spent s ON s.category_id = b.category_id AND s.month = b.month
+  ORDER BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_category_month_totals(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_category_month_totals(UUID, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,183 @@
+-- Migration: Re-key learned merchant patterns
+-- Patterns used to be keyed on the first two words of the raw description
+-- ("sq *blue"). The matcher now keys them on the first two words of the
+-- normalized merchant, after household aliases ("blue bottle"; see
+-- lib/utils/merchant-normalizer.ts), so old patterns stopped matching and
+-- the same merchant was learned again under its new key.
+--
+-- Each pattern gets the new key of the transactions it was learned from:
+-- the most common new key among the category's transactions whose old key
+-- is the pattern's. Patterns with no such transaction have their old key
+-- normalized instead. Patterns that end up with the same merchant and
+-- category are merged, adding up their counts.
+--
+-- merchant_pattern_key() below mirrors extractMerchantName() and is only
+-- used by this migration.
+
+CREATE OR REPLACE FUNCTION merchant_pattern_key(p_household_id UUID, p_description TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_cleaned TEXT := trim(p_description);
+  v_next TEXT;
+  v_tokens TEXT[];
+  v_end INT;
+  v_key TEXT;
+  v_alias TEXT;
+BEGIN
+  IF v_cleaned = '' THEN
+    RETURN '';
+  END IF;
+
+  -- Processor prefixes can stack ("POS DEBIT SQ *...")
+  FOR i IN 1..3 LOOP
+    v_next := regexp_replace(
+      regexp_replace(
+        v_cleaned,
+        '^(pos debit|pos|debit card purchase|debit|checkcard \d{4}|purchase authorized on \d{1,2}/\d{1,2}|recurring payment)\s+',
+        '', 'i'
+      ),
+      '^(sq|tst|sp|pp|dd|paypal|klarna|google|goog|apple pay|venmo|stripe)\s*[*#:-]\s*',
+      '', 'i'
+    );
+    EXIT WHEN v_next = v_cleaned;
+    v_cleaned := v_next;
+  END LOOP;
+
+  -- Anything after a remaining "*" is a reference code
+  IF position('*' IN v_cleaned) > 1 THEN
+    v_cleaned := left(v_cleaned, position('*' IN v_cleaned) - 1);
+  END IF;
+
+  -- Card suffixes, store numbers and punctuation
+  v_cleaned := regexp_replace(
+    v_cleaned,
+    '\y(?:x{2,}|\*{2,})\d{2,4}\y|\ycard(?:\s+ending(?:\s+in)?)?\s*#?\s*\d{4}\y',
+    ' ', 'gi'
+  );
+  v_cleaned := regexp_replace(v_cleaned, '#\s*\d+|\y(?:store|str|unit|no)\.?\s*\d+\y', ' ', 'gi');
+  v_cleaned := regexp_replace(v_cleaned, '[^\w\s&''.-]', ' ', 'g');
+
+  SELECT COALESCE(array_agg(token ORDER BY n), '{}')
+  INTO v_tokens
+  FROM regexp_split_to_table(v_cleaned, '\s+') WITH ORDINALITY AS t(token, n)
+  WHERE token <> '' AND token !~ '^[#\d-]*\d{3,}[#\d-]*$';
+
+  -- Company suffix, then a trailing "CITY ST"
+  IF cardinality(v_tokens) > 1 AND v_tokens[cardinality(v_tokens)] ~* '^(llc|inc|corp|ltd|co)\.?$' THEN
+    v_tokens := v_tokens[1:cardinality(v_tokens) - 1];
+  END IF;
+  IF cardinality(v_tokens) >= 3 AND lower(v_tokens[cardinality(v_tokens)]) = ANY (ARRAY[
+    'al', 'ak', 'az', 'ar', 'ca', 'co', 'ct', 'de', 'dc', 'fl', 'ga', 'hi', 'id', 'il', 'in',
+    'ia', 'ks', 'ky', 'la', 'me', 'md', 'ma', 'mi', 'mn', 'ms', 'mo', 'mt', 'ne', 'nv', 'nh',
+    'nj', 'nm', 'ny', 'nc', 'nd', 'oh', 'ok', 'or', 'pa', 'ri', 'sc', 'sd', 'tn', 'tx', 'ut',
+    'vt', 'va', 'wa', 'wv', 'wi', 'wy'
+  ]) THEN
+    v_end := cardinality(v_tokens) - 2;
+    IF v_end >= 2 AND lower(v_tokens[v_end]) = ANY (ARRAY[
+      'san', 'santa', 'los', 'las', 'new', 'fort', 'ft', 'st', 'saint', 'salt', 'palo', 'el',
+      'north', 'south', 'east', 'west', 'mount', 'mt', 'port', 'grand', 'long', 'palm', 'del'
+    ]) THEN
+      v_end := v_end - 1;
+    END IF;
+    v_tokens := v_tokens[1:v_end];
+  END IF;
+
+  v_cleaned := trim(regexp_replace(array_to_string(v_tokens, ' '), '[\s.-]+$', ''));
+  -- Never clean a description away entirely
+  IF v_cleaned = '' THEN
+    v_cleaned := trim(p_description);
+  END IF;
+  v_key := lower(regexp_replace(v_cleaned, '\s+', ' ', 'g'));
+
+  -- The longest alias matching the start of the key renames it
+  SELECT lower(trim(a.display_name))
+  INTO v_alias
+  FROM merchant_aliases a
+  WHERE a.household_id = p_household_id
+    AND lower(trim(a.match_text)) <> ''
+    AND (v_key = lower(trim(a.match_text)) OR v_key LIKE lower(trim(a.match_text)) || ' %')
+  ORDER BY length(trim(a.match_text)) DESC
+  LIMIT 1;
+
+  v_tokens := regexp_split_to_array(COALESCE(v_alias, v_key), '[\s-]+');
+  RETURN trim(array_to_string(v_tokens[1:2], ' '));
+END;
+$$;
+
+-- Old key: the first two words of the description, without a PayPal,
+-- Klarna or DD prefix
+CREATE TEMP TABLE learned_from AS
+SELECT
+  t.household_id,
+  t.category_id,
+  lower(trim(array_to_string(
+    (regexp_split_to_array(regexp_replace(t.description, '^(PAYPAL \*|KLARNA\*|DD \*)', '', 'i'), '[\s-]+'))[1:2],
+    ' '
+  ))) AS old_key,
+  merchant_pattern_key(t.household_id, t.description) AS new_key
+FROM transactions t
+WHERE t.category_id IS NOT NULL
+  AND t.description IS NOT NULL
+  AND trim(t.description) <> '';
+
+CREATE TEMP TABLE pattern_keys AS
+SELECT
+  p.id,
+  p.household_id,
+  p.category_id,
+  p.merchant_name,
+  COALESCE(
+    (
+      SELECT l.new_key
+      FROM learned_from l
+      WHERE l.household_id = p.household_id
+        AND l.category_id = p.category_id
+        AND l.old_key = p.merchant_name
+        AND l.new_key <> ''
+      GROUP BY l.new_key
+      ORDER BY COUNT(*) DESC, l.new_key
+      LIMIT 1
+    ),
+    NULLIF(merchant_pattern_key(p.household_id, p.merchant_name), ''),
+    p.merchant_name
+  ) AS merchant_key,
+  p.match_count,
+  p.last_used_at
+FROM merchant_patterns p;
+
+-- One row per merchant and category: the one already on the new key if
+-- there is one, holding the combined counts
+CREATE TEMP TABLE pattern_merges AS
+SELECT
+  household_id,
+  category_id,
+  merchant_key,
+  (array_agg(id ORDER BY (merchant_name = merchant_key) DESC, match_count DESC, id))[1] AS keep_id,
+  SUM(match_count)::INT AS match_count,
+  MAX(last_used_at) AS last_used_at
+FROM pattern_keys
+GROUP BY household_id, category_id, merchant_key
+HAVING COUNT(*) > 1 OR bool_or(merchant_name <> merchant_key);
+
+DELETE FROM merchant_patterns p
+USING pattern_keys k
+JOIN pattern_merges g
+  ON g.household_id = k.household_id
+  AND g.category_id = k.category_id
+  AND g.merchant_key = k.merchant_key
+WHERE p.id = k.id
+  AND p.id <> g.keep_id;
+
+UPDATE merchant_patterns p
+SET merchant_name = g.merchant_key,
+    match_count = g.match_count,
+    last_used_at = g.last_used_at,
+    updated_at = NOW()
+FROM pattern_merges g
+WHERE p.id = g.keep_id;
+
+DROP TABLE pattern_merges, pattern_keys, learned_from;
+DROP FUNCTION merchant_pattern_key(UUID, TEXT);
@@ -0,0 +1,121 @@
+-- Migration: Save transactions and their splits together
+-- Creating or editing a split transaction used to save the row, then its
+-- split lines in a second call. When the second call failed, an edit left
+-- the parent with its category cleared and its old lines, and a create had
+-- to delete the row it had just added. Both now happen in one database
+-- transaction: if the split lines are rejected, the row isn't saved either.
+--
+-- The split lines are written by set_transaction_splits, with its checks.
+
+-- p_transaction: the new row, using the transactions table's column names.
+-- Without an account_id the household's default account is used.
+-- p_splits: [{ category_id, amount, memo }], empty for an unsplit row.
+CREATE OR REPLACE FUNCTION create_transaction(
+  p_household_id UUID,
+  p_transaction JSONB,
+  p_splits JSONB,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_id UUID;
+  v_result JSONB;
+BEGIN
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  BEGIN
+    INSERT INTO transactions (
+      household_id, account_id, category_id, amount, amount_cents, description, date, type,
+      scheduled_transaction_id, scheduled_date, updated_by
+    )
+    SELECT
+      p_household_id, r.account_id, r.category_id, r.amount, r.amount_cents, r.description, r.date, r.type,
+      r.scheduled_transaction_id, r.scheduled_date, p_member_id
+    FROM jsonb_populate_record(NULL::transactions, p_transaction) AS r
+    RETURNING id INTO v_id;
+  EXCEPTION
+    -- A second post of the same scheduled occurrence: it is already recorded
+    WHEN unique_violation THEN
+      IF p_transaction->>'scheduled_transaction_id' IS NOT NULL THEN
+        RETURN jsonb_build_object('success', true, 'created', false);
+      END IF;
+      RAISE;
+  END;
+
+  IF jsonb_array_length(COALESCE(p_splits, '[]'::JSONB)) > 0 THEN
+    v_result := set_transaction_splits(p_household_id, v_id, p_splits);
+    IF NOT (v_result->>'success')::BOOLEAN THEN
+      RAISE EXCEPTION '%', v_result->>'error';
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'created', true, 'id', v_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_transaction(UUID, JSONB, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION create_transaction(UUID, JSONB, JSONB, UUID) FROM PUBLIC, anon;
+
+-- p_changes: account_id (kept when missing), category_id, amount,
+-- amount_cents, description, date and type.
+-- p_splits replaces the row's split lines; empty removes them.
+-- Reports a conflict, and changes nothing, when the row was changed or
+-- deleted since p_expected_updated_at.
+CREATE OR REPLACE FUNCTION update_transaction(
+  p_household_id UUID,
+  p_transaction_id UUID,
+  p_expected_updated_at TIMESTAMPTZ,
+  p_changes JSONB,
+  p_splits JSONB,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+  v_result JSONB;
+BEGIN
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND household_id = p_household_id
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_transaction.updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RETURN jsonb_build_object('success', false, 'conflict', true);
+  END IF;
+
+  UPDATE transactions t
+  SET account_id = COALESCE(r.account_id, t.account_id),
+      category_id = r.category_id,
+      amount = r.amount,
+      amount_cents = r.amount_cents,
+      description = r.description,
+      date = r.date,
+      type = r.type,
+      updated_by = p_member_id
+  FROM jsonb_populate_record(NULL::transactions, p_changes) AS r
+  WHERE t.id = p_transaction_id;
+
+  IF jsonb_array_length(COALESCE(p_splits, '[]'::JSONB)) > 0
+     OR EXISTS (SELECT 1 FROM transaction_splits WHERE transaction_id = p_transaction_id) THEN
+    v_result := set_transaction_splits(p_household_id, p_transaction_id, p_splits);
+    IF NOT (v_result->>'success')::BOOLEAN THEN
+      RAISE EXCEPTION '%', v_result->>'error';
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_transaction(UUID, UUID, TIMESTAMPTZ, JSONB, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION update_transaction(UUID, UUID, TIMESTAMPTZ, JSONB, JSONB, UUID) FROM PUBLIC, anon;
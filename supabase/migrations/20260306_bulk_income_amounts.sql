@@ -0,0 +1,177 @@
+-- Migration: Bulk "set type" keeps income positive and expenses categorized
+-- Refunds are stored as expenses with a negative amount. Marking them as
+-- income in bulk kept that amount, leaving income below zero, which counts
+-- against income everywhere it is summed. Rows marked as income now store
+-- the amount without its sign, as a refund imported as income would be
+-- (toStoredTransaction in lib/utils/transaction-helpers.ts). Rows marked as
+-- expenses keep their amounts, so refunds stay refunds.
+--
+-- Income marked as an expense kept its category too: none, or Income.
+-- createTransaction won't save an expense like that, so neither does this;
+-- such rows have to be recategorized first.
+--
+-- Income the old version left negative is repaired too, unless it has been
+-- reconciled since: that statement balanced with the amount as it is. No
+-- member made the repair, so it is left unattributed (the activity feed
+-- shows "Someone"): app.member_id is cleared, and so is updated_by, which
+-- the audit trigger would otherwise credit to whoever last edited the row.
+
+SELECT set_config('app.member_id', '', true);
+
+UPDATE transactions
+SET amount = ABS(amount),
+    amount_cents = ABS(amount_cents),
+    updated_by = NULL
+WHERE type = 'income'
+  AND amount_cents < 0
+  AND reconciliation_id IS NULL;
+
+CREATE OR REPLACE FUNCTION bulk_update_transactions(
+  p_household_id UUID,
+  p_action TEXT,
+  p_items JSONB,
+  p_params JSONB DEFAULT '{}'::JSONB,
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_ids UUID[];
+  v_conflicts JSONB;
+  v_locked JSONB;
+  v_category_id UUID;
+  v_updated INT;
+BEGIN
+  IF p_action NOT IN ('recategorize', 'delete', 'shift_date', 'set_type') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  PERFORM set_config('app.member_id', COALESCE(p_member_id::TEXT, ''), true);
+
+  SELECT array_agg(DISTINCT (item->>'id')::UUID)
+  INTO v_ids
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_ids IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'updated', 0, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+  END IF;
+
+  -- Lock the rows so nobody else can change them between the check and the write
+  PERFORM 1
+  FROM transactions
+  WHERE household_id = p_household_id
+    AND id = ANY(v_ids)
+  FOR UPDATE;
+
+  -- Changed or deleted since the client loaded them
+  SELECT COALESCE(jsonb_agg(item->>'id'), '[]'::JSONB)
+  INTO v_conflicts
+  FROM jsonb_array_elements(p_items) AS item
+  LEFT JOIN transactions t
+    ON t.id = (item->>'id')::UUID
+   AND t.household_id = p_household_id
+  WHERE t.id IS NULL
+     OR t.deleted_at IS NOT NULL
+     OR COALESCE(t.updated_at, t.created_at) IS DISTINCT FROM (item->>'expected_updated_at')::TIMESTAMPTZ;
+
+  -- Reconciled against a statement and not unlocked
+  SELECT COALESCE(jsonb_agg(t.id), '[]'::JSONB)
+  INTO v_locked
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.id = ANY(v_ids)
+    AND (t.reconciliation_id IS NOT NULL OR t.transfer_reconciliation_id IS NOT NULL);
+
+  IF jsonb_array_length(v_conflicts) > 0 OR jsonb_array_length(v_locked) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'updated', 0, 'conflicts', v_conflicts, 'locked', v_locked);
+  END IF;
+
+  IF p_action <> 'delete' AND p_action <> 'shift_date' AND EXISTS (
+    SELECT 1 FROM transactions
+    WHERE household_id = p_household_id AND id = ANY(v_ids) AND type = 'transfer'
+  ) THEN
+    RAISE EXCEPTION 'Transfers can''t be recategorized or change type';
+  END IF;
+
+  IF p_action = 'recategorize' THEN
+    v_category_id := (p_params->>'category_id')::UUID;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM categories
+      WHERE id = v_category_id
+        AND household_id = p_household_id
+        AND deleted_at IS NULL
+        AND archived_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Category not found';
+    END IF;
+
+    DELETE FROM transaction_splits
+    WHERE household_id = p_household_id
+      AND transaction_id = ANY(v_ids);
+
+    UPDATE transactions
+    SET category_id = v_category_id, updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'delete' THEN
+    UPDATE transactions
+    SET deleted_at = NOW(), updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSIF p_action = 'shift_date' THEN
+    UPDATE transactions
+    SET date = date + (p_params->>'days')::INT, updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+
+  ELSE
+    IF p_params->>'type' NOT IN ('income', 'expense') THEN
+      RAISE EXCEPTION 'Type must be income or expense';
+    END IF;
+
+    -- An expense needs a spending category, as in createTransaction
+    IF p_params->>'type' = 'expense' AND EXISTS (
+      SELECT 1
+      FROM transactions t
+      LEFT JOIN categories c
+        ON c.id = t.category_id
+       AND c.household_id = p_household_id
+       AND c.deleted_at IS NULL
+      WHERE t.household_id = p_household_id
+        AND t.id = ANY(v_ids)
+        AND t.type <> 'expense'
+        AND (c.id IS NULL OR lower(c.name) = 'income')
+    ) THEN
+      RAISE EXCEPTION 'Give the selected income a spending category before making it an expense';
+    END IF;
+
+    -- Only expenses can be split
+    IF p_params->>'type' = 'income' THEN
+      DELETE FROM transaction_splits
+      WHERE household_id = p_household_id
+        AND transaction_id = ANY(v_ids);
+    END IF;
+
+    -- Income is never negative: a refund marked as income keeps its size
+    UPDATE transactions
+    SET type = p_params->>'type',
+        amount = CASE WHEN p_params->>'type' = 'income' THEN ABS(amount) ELSE amount END,
+        amount_cents = CASE WHEN p_params->>'type' = 'income' THEN ABS(amount_cents) ELSE amount_cents END,
+        updated_by = p_member_id
+    WHERE household_id = p_household_id
+      AND id = ANY(v_ids);
+  END IF;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated, 'conflicts', '[]'::JSONB, 'locked', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION bulk_update_transactions(UUID, TEXT, JSONB, JSONB, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,53 @@
+-- Migration: Trashed categories' budgets aren't assigned
+-- Deleting a category moves it to the trash and keeps its budgets, so that
+-- restoring it brings them back. Ready to assign still counted them, so
+-- money budgeted to a trashed category stayed assigned, and was counted
+-- again once it was budgeted elsewhere and the category restored. Only
+-- categories outside the trash count now. Archived categories still do:
+-- their budgets are part of the months they were assigned in.
+
+CREATE OR REPLACE FUNCTION get_monthly_assignment_totals(
+  p_household_id UUID,
+  p_start_month TEXT,
+  p_end_month TEXT
+)
+RETURNS TABLE (
+  month TEXT,
+  income_cents BIGINT,
+  assigned_cents BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH income AS (
+    SELECT to_char(t.date, 'YYYY-MM') AS month, SUM(t.amount_cents) AS cents
+    FROM transactions t
+    LEFT JOIN categories c ON c.id = t.category_id
+    WHERE t.household_id = p_household_id
+      AND t.deleted_at IS NULL
+      AND t.date >= to_date(p_start_month || '-01', 'YYYY-MM-DD')
+      AND t.date < to_date(p_end_month || '-01', 'YYYY-MM-DD') + INTERVAL '1 month'
+      AND (t.type = 'income' OR (t.type <> 'transfer' AND lower(c.name) = 'income'))
+    GROUP BY 1
+  ),
+  assigned AS (
+    SELECT b.month, SUM(b.budgeted_amount_cents) AS cents
+    FROM monthly_budgets b
+    JOIN categories c ON c.id = b.category_id
+    WHERE b.household_id = p_household_id
+      AND c.deleted_at IS NULL
+      AND b.month >= p_start_month
+      AND b.month <= p_end_month
+    GROUP BY 1
+  )
+  SELECT COALESCE(i.month, a.month),
+         COALESCE(i.cents, 0)::BIGINT,
+         COALESCE(a.cents, 0)::BIGINT
+  FROM income i
+  FULL JOIN assigned a ON a.month = i.month
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_monthly_assignment_totals(UUID, TEXT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_monthly_assignment_totals(UUID, TEXT, TEXT) FROM PUBLIC, anon;
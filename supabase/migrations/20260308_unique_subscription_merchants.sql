@@ -0,0 +1,31 @@
+-- Migration: One subscription per merchant
+-- Tracking or dismissing a recurring charge inserted a new row each time,
+-- so a merchant reviewed twice (two tabs, a double click) was listed twice
+-- and counted twice in the monthly total. A household now has at most one
+-- row per merchant, whatever its status, and reviewing a merchant again
+-- updates that row.
+--
+-- The index covers every row rather than only some statuses: a dismissed
+-- merchant has to stay dismissed, and an upsert can only target an index
+-- without a WHERE clause.
+
+-- Keep one row per merchant: tracked over cancelled over dismissed, then
+-- the most recently reviewed
+WITH ranked AS (
+  SELECT id,
+         ROW_NUMBER() OVER (
+           PARTITION BY household_id, merchant
+           ORDER BY
+             CASE status WHEN 'tracked' THEN 0 WHEN 'cancelled' THEN 1 ELSE 2 END,
+             updated_at DESC NULLS LAST,
+             created_at DESC NULLS LAST
+         ) AS rn
+  FROM subscriptions
+)
+DELETE FROM subscriptions
+WHERE id IN (SELECT id FROM ranked WHERE rn > 1);
+
+DROP INDEX IF EXISTS idx_subscriptions_household_merchant;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_household_merchant
+  ON subscriptions(household_id, merchant);
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
+
+import { createTransfer, deleteAccount, getAccounts } from '@/lib/actions/accounts'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const checkingId = '11111111-1111-4111-8111-111111111111'
+const savingsId = '22222222-2222-4222-8222-222222222222'
+
+describe('accounts', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.from.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('gets each balance from the database', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: [
+        { id: checkingId, name: 'Checking', opening_balance_cents: 100000, is_default: true },
+        { id: savingsId, name: 'Savings', opening_balance_cents: 0, is_default: false },
+      ],
+      error: null,
+    }))
+    mocks.rpc.mockResolvedValue({ data: [{ account_id: checkingId, balance_cents: 118000 }], error: null })
+
+    const accounts = await getAccounts()
+
+    expect(mocks.rpc).toHaveBeenCalledWith('get_account_balances', { p_household_id: 'household-1' })
+    // An account the balances don't cover yet has its opening balance
+    expect(accounts.map((account) => account.balanceCents)).toEqual([118000, 0])
+  })
+
+  it('records a transfer as one transaction between the two accounts', async () => {
+    const insertBuilder = createQueryBuilder({ error: null })
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({
+        data: [{ id: checkingId }, { id: savingsId }],
+        error: null,
+      }))
+      .mockImplementationOnce(() => insertBuilder)
+
+    await createTransfer({
+      fromAccountId: checkingId,
+      toAccountId: savingsId,
+      amount: 200,
+      date: '2026-03-01',
+    })
+
+    expect(insertBuilder.insert).toHaveBeenCalledWith(expect.objectContaining({
+      household_id: 'household-1',
+      account_id: checkingId,
+      transfer_account_id: savingsId,
+      category_id: null,
+      amount_cents: 20000,
+      type: 'transfer',
+      updated_by: 'member-1',
+    }))
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/accounts')
+  })
+
+  it('rejects a transfer to an account outside the household', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: [{ id: checkingId }],
+      error: null,
+    }))
+
+    await expect(createTransfer({
+      fromAccountId: checkingId,
+      toAccountId: savingsId,
+      amount: 200,
+      date: '2026-03-01',
+    })).rejects.toThrow('Account not found')
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses to delete the default account', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: { is_default: true },
+      error: null,
+    }))
+
+    await expect(deleteAccount(checkingId)).rejects.toThrow(
+      'Choose another default account before deleting this one'
+    )
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
+
+import { getActivityFeed, restoreDeletedTransaction } from '@/lib/actions/audit'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const entries = (seqs: number[]) => seqs.map((seq) => ({ id: `entry-${seq}`, seq }))
+
+describe('audit log', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('pages through the activity feed by sequence number', async () => {
+    const builder = createQueryBuilder({ data: entries(Array.from({ length: 51 }, (_, i) => 200 - i)), error: null })
+    mocks.from.mockImplementationOnce(() => builder)
+
+    const page = await getActivityFeed(201)
+
+    expect(builder.lt).toHaveBeenCalledWith('seq', 201)
+    expect(builder.limit).toHaveBeenCalledWith(51)
+    expect(page.entries).toHaveLength(50)
+    expect(page.nextBefore).toBe(151)
+  })
+
+  it('has no next page after the last entry', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: entries([3, 2, 1]), error: null }))
+
+    const page = await getActivityFeed()
+
+    expect(page.entries).toHaveLength(3)
+    expect(page.nextBefore).toBeNull()
+  })
+
+  it('restores a deleted transaction on behalf of the signed-in member', async () => {
+    mocks.rpc.mockResolvedValue({ data: { success: true, transaction_id: 'txn-1' }, error: null })
+
+    await restoreDeletedTransaction('entry-1')
+
+    expect(mocks.rpc).toHaveBeenCalledWith('restore_deleted_transaction', {
+      p_household_id: 'household-1',
+      p_entry_id: 'entry-1',
+      p_member_id: 'member-1',
+    })
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/transactions')
+  })
+
+  it('reports why a transaction could not be restored', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: false, error: 'This transaction has already been restored' },
+      error: null,
+    })
+
+    await expect(restoreDeletedTransaction('entry-1')).rejects.toThrow('already been restored')
+    expect(mocks.revalidatePath).not.toHaveBeenCalled()
+  })
+})
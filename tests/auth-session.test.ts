@@ -3,6 +3,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 let cookieValue: string | undefined
 let auth: typeof import('@/lib/auth')
 const jwtVerifyMock = vi.fn()
+const memberLookup = vi.fn()
 
 const cookieStore = {
   get: vi.fn(() => (cookieValue ? { value: cookieValue } : undefined)),
@@ -18,6 +19,19 @@ vi.mock('next/headers', () => ({
   cookies: () => cookieStore,
 }))
 
+vi.mock('@/lib/supabase-server', () => ({
+  supabaseAdmin: {
+    from: () => {
+      const builder = {
+        select: () => builder,
+        eq: () => builder,
+        maybeSingle: memberLookup,
+      }
+      return builder
+    },
+  },
+}))
+
 vi.mock('jose', async () => {
   const actual = await vi.importActual<typeof import('jose')>('jose')
   return {
@@ -40,6 +54,8 @@ beforeEach(async () => {
   cookieStore.set.mockClear()
   cookieStore.delete.mockClear()
   jwtVerifyMock.mockReset()
+  memberLookup.mockReset()
+  memberLookup.mockResolvedValue({ data: { id: 'member-1' }, error: null })
   vi.useFakeTimers()
   vi.setSystemTime(new Date('2026-01-04T00:00:00Z'))
 
@@ -93,3 +109,39 @@ describe('isSessionExpiringSoon', () => {
     expect(expiringSoon).toBe(false)
   })
 })
+
+describe('getSessionMemberId', () => {
+  it('returns the member the session was created for', async () => {
+    cookieValue = 'valid-token'
+    jwtVerifyMock.mockResolvedValueOnce({ payload: { householdId: 'household-1', memberId: 'member-1' } })
+
+    expect(await auth.getSessionMemberId()).toBe('member-1')
+  })
+
+  it('returns null for sessions from before household members existed', async () => {
+    cookieValue = 'valid-token'
+    jwtVerifyMock.mockResolvedValueOnce({ payload: { householdId: 'household-1' } })
+
+    expect(await auth.getSessionMemberId()).toBeNull()
+  })
+})
+
+describe('removed members', () => {
+  it('ends the session of a member who was removed', async () => {
+    cookieValue = 'valid-token'
+    jwtVerifyMock.mockResolvedValue({ payload: { householdId: 'household-1', memberId: 'member-2' } })
+    memberLookup.mockResolvedValue({ data: null, error: null })
+
+    expect(await auth.getSession()).toBeNull()
+    expect(await auth.getSessionMemberId()).toBeNull()
+  })
+
+  it("won't refresh a removed member's session", async () => {
+    cookieValue = 'valid-token'
+    jwtVerifyMock.mockResolvedValue({ payload: { householdId: 'household-1', memberId: 'member-2' } })
+    memberLookup.mockResolvedValue({ data: null, error: null })
+
+    expect(await auth.refreshSession()).toEqual({ success: false, error: 'No active session to refresh' })
+    expect(cookieStore.set).not.toHaveBeenCalled()
+  })
+})
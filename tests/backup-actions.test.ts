@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({ getSession: mocks.getSession }))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
+
+import { createHouseholdBackup, restoreHouseholdBackup } from '@/lib/actions/backup'
+import { BACKUP_SCHEMA_VERSION } from '@/lib/schemas/backup'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const checkingId = '11111111-1111-4111-8111-111111111111'
+
+const emptyBackup = {
+  schemaVersion: 1,
+  exportedAt: '2026-03-10T00:00:00.000Z',
+  settings: { name: 'Home', timezone: 'UTC', autoRolloverBudget: false },
+  accounts: [{ id: checkingId, name: 'Checking', type: 'checking', openingBalance: 0, isDefault: true }],
+  categories: [],
+  keywords: [],
+  merchantPatterns: [],
+  monthlyBudgets: [],
+  transactions: [],
+}
+
+describe('household backup', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('reads transactions past the first page', async () => {
+    const firstPage = Array.from({ length: 1000 }, (_, i) => ({
+      id: `txn-${i}`, account_id: checkingId, transfer_account_id: null, category_id: null,
+      amount_cents: 100, description: null, date: '2026-03-01', type: 'income', source_fingerprint: null,
+    }))
+    const transactionPages = [firstPage, firstPage.slice(0, 5)]
+
+    mocks.from.mockImplementation((table: string) => {
+      if (table === 'households') {
+        return createQueryBuilder({ data: { name: 'Home', timezone: 'UTC', auto_rollover_budget: false }, error: null })
+      }
+      if (table === 'transactions') {
+        return createQueryBuilder({ data: transactionPages.shift(), error: null })
+      }
+      return createQueryBuilder({ data: [], error: null })
+    })
+
+    const backup = await createHouseholdBackup()
+
+    expect(backup.schemaVersion).toBe(BACKUP_SCHEMA_VERSION)
+    expect(backup.transactions).toHaveLength(1005)
+  })
+
+  it('reports where an invalid backup is wrong without touching the database', async () => {
+    await expect(
+      restoreHouseholdBackup({ ...emptyBackup, accounts: [{ ...emptyBackup.accounts[0], type: 'brokerage' }] })
+    ).rejects.toThrow('Invalid backup at accounts.0.type')
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+
+  it('refuses to restore into a household that already has data', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: false, error: 'Backups can only be restored into an empty household' },
+      error: null,
+    })
+
+    await expect(restoreHouseholdBackup(emptyBackup)).rejects.toThrow('empty household')
+    expect(mocks.rpc).toHaveBeenCalledWith('restore_household_backup', expect.objectContaining({
+      p_household_id: 'household-1',
+    }))
+    expect(mocks.revalidatePath).not.toHaveBeenCalled()
+  })
+})
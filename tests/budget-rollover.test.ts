@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+}))
+
+vi.mock('@/lib/actions/settings', () => ({
+  getAutoRolloverSetting: vi.fn(),
+  getHouseholdTimezone: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase-server', () => ({
+  supabaseAdmin: {
+    from: mocks.from,
+    rpc: mocks.rpc,
+  },
+}))
+
+import { getCategoryRollovers } from '@/lib/actions/budgets'
+import { createQueryBuilder } from './helpers/query-builder'
+
+describe('getCategoryRollovers', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('skips all work when every category resets', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: [], error: null }))
+
+    await expect(getCategoryRollovers('2026-03')).resolves.toEqual({})
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+
+  it('carries balances forward from the first funded month', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: [
+        { id: 'groceries', rollover_policy: 'carry_both', rollover_cap_cents: null },
+        { id: 'unfunded', rollover_policy: 'carry_surplus', rollover_cap_cents: null },
+      ],
+      error: null,
+    }))
+    mocks.rpc.mockResolvedValue({
+      data: [
+        { category_id: 'groceries', month: '2026-01', budgeted_cents: 10000, spent_cents: 8000 },
+        { category_id: 'groceries', month: '2026-02', budgeted_cents: 10000, spent_cents: 15000 },
+        { category_id: 'groceries', month: '2026-03', budgeted_cents: 10000, spent_cents: 0 },
+      ],
+      error: null,
+    })
+
+    const rollovers = await getCategoryRollovers('2026-03')
+
+    expect(Object.keys(rollovers)).toEqual(['groceries'])
+    expect(rollovers.groceries.map((entry) => entry.month)).toEqual(['2026-01', '2026-02', '2026-03'])
+    expect(rollovers.groceries.map((entry) => entry.carryoverCents)).toEqual([0, 2000, -3000])
+    expect(rollovers.groceries[2].availableCents).toBe(7000)
+    expect(mocks.rpc).toHaveBeenCalledWith('get_category_month_totals', {
+      p_household_id: 'household-1',
+      p_end_month: '2026-03',
+    })
+  })
+
+  it('follows an envelope all the way back to its first budget', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: [{ id: 'vacation', rollover_policy: 'carry_surplus', rollover_cap_cents: null }],
+      error: null,
+    }))
+    // Funded once, two years ago, then only spent from
+    mocks.rpc.mockResolvedValue({
+      data: [
+        { category_id: 'vacation', month: '2024-03', budgeted_cents: 120000, spent_cents: 0 },
+        { category_id: 'vacation', month: '2025-06', budgeted_cents: 0, spent_cents: 20000 },
+      ],
+      error: null,
+    })
+
+    const ledger = (await getCategoryRollovers('2026-03')).vacation
+
+    expect(ledger).toHaveLength(25)
+    expect(ledger[0]).toMatchObject({ month: '2024-03', carryoverCents: 0, budgetedCents: 120000 })
+    ledger.slice(1).forEach((entry, i) => {
+      expect(entry.carryoverCents).toBe(Math.max(0, ledger[i].availableCents))
+    })
+    expect(ledger[24]).toMatchObject({ month: '2026-03', carryoverCents: 100000, availableCents: 100000 })
+  })
+})
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  getZeroBasedStartMonth: vi.fn(),
+  getTransactions: vi.fn(),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+
+vi.mock('@/lib/actions/settings', () => ({
+  getAutoRolloverSetting: vi.fn(),
+  getHouseholdTimezone: vi.fn(),
+  getZeroBasedStartMonth: mocks.getZeroBasedStartMonth,
+}))
+
+vi.mock('@/lib/actions/transactions', () => ({
+  getTransactions: mocks.getTransactions,
+}))
+
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+
+vi.mock('@/lib/supabase-server', () => ({
+  supabaseAdmin: {
+    from: mocks.from,
+    rpc: mocks.rpc,
+  },
+}))
+
+import { getReadyToAssign, moveBudgetMoney } from '@/lib/actions/budgets'
+
+const groceriesId = '11111111-1111-4111-8111-111111111111'
+const diningId = '22222222-2222-4222-8222-222222222222'
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mocks.getSession.mockResolvedValue('household-1')
+})
+
+describe('getReadyToAssign', () => {
+  it('is null when zero-based budgeting is off or starts later', async () => {
+    mocks.getZeroBasedStartMonth.mockResolvedValueOnce(null)
+    await expect(getReadyToAssign('2026-03')).resolves.toBeNull()
+
+    mocks.getZeroBasedStartMonth.mockResolvedValueOnce('2026-04')
+    await expect(getReadyToAssign('2026-03')).resolves.toBeNull()
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+
+  it('carries what earlier months left unassigned into this month', async () => {
+    mocks.getZeroBasedStartMonth.mockResolvedValue('2026-02')
+    mocks.rpc.mockResolvedValue({
+      data: [
+        { month: '2026-02', income_cents: 200000, assigned_cents: 150000 },
+        { month: '2026-03', income_cents: 200000, assigned_cents: 220000 },
+      ],
+      error: null,
+    })
+
+    const status = await getReadyToAssign('2026-03')
+
+    expect(mocks.rpc).toHaveBeenCalledWith('get_monthly_assignment_totals', {
+      p_household_id: 'household-1',
+      p_start_month: '2026-02',
+      p_end_month: '2026-03',
+    })
+    expect(status).toEqual({
+      startMonth: '2026-02',
+      income: 2000,
+      carryover: 500,
+      available: 2500,
+      assigned: 2200,
+      readyToAssign: 300,
+      indicator: 'yellow',
+    })
+  })
+})
+
+describe('moveBudgetMoney', () => {
+  it('moves the amount in cents on behalf of the member', async () => {
+    mocks.rpc.mockResolvedValue({ data: { success: true, move_id: 'move-1' }, error: null })
+
+    await moveBudgetMoney({
+      month: '2026-03',
+      fromCategoryId: groceriesId,
+      toCategoryId: diningId,
+      amount: 25.5,
+      note: '  Birthday dinner ',
+    })
+
+    expect(mocks.rpc).toHaveBeenCalledWith('move_budget_money', {
+      p_household_id: 'household-1',
+      p_month: '2026-03',
+      p_from_category_id: groceriesId,
+      p_to_category_id: diningId,
+      p_amount_cents: 2550,
+      p_note: 'Birthday dinner',
+      p_member_id: 'member-1',
+    })
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/budget')
+  })
+
+  it('reports when there is not enough budgeted to move', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: false, error: 'Not enough budgeted in that category to move' },
+      error: null,
+    })
+
+    await expect(moveBudgetMoney({
+      month: '2026-03',
+      fromCategoryId: groceriesId,
+      toCategoryId: diningId,
+      amount: 1000,
+    })).rejects.toThrow('Not enough budgeted')
+    expect(mocks.revalidatePath).not.toHaveBeenCalled()
+  })
+
+  it('rejects moving money to the same category', async () => {
+    await expect(moveBudgetMoney({
+      month: '2026-03',
+      fromCategoryId: groceriesId,
+      toCategoryId: groceriesId,
+      amount: 10,
+    })).rejects.toThrow()
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+})
@@ -2,64 +2,50 @@ import { describe, it, expect, vi } from 'vitest'
 
 const mocks = vi.hoisted(() => ({
   getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
   revalidatePath: vi.fn(),
   from: vi.fn(),
+  rpc: vi.fn(),
 }))
 
-vi.mock('@/lib/auth', () => ({ getSession: mocks.getSession }))
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
 vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
-vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from } }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
 
 import { deleteCategory } from '@/lib/actions/categories'
 
-function createSelectBuilder(result: unknown) {
+function createUpdateBuilder(result: unknown) {
   return {
-    select: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
     eq: vi.fn().mockReturnThis(),
-    maybeSingle: vi.fn().mockResolvedValue(result),
-    single: vi.fn().mockResolvedValue(result),
-  }
-}
-
-function createCountBuilder(result: unknown) {
-  return {
+    is: vi.fn().mockReturnThis(),
     select: vi.fn().mockReturnThis(),
-    eq: vi.fn().mockReturnThis(),
-    then: (resolve: (value: unknown) => void, reject: (reason?: unknown) => void) => {
-      Promise.resolve(result).then(resolve, reject)
-    },
-  }
-}
-
-function createDeleteBuilder(result: unknown) {
-  return {
-    delete: vi.fn().mockReturnThis(),
-    eq: vi.fn().mockReturnThis(),
-    then: (resolve: (value: unknown) => void, reject: (reason?: unknown) => void) => {
-      Promise.resolve(result).then(resolve, reject)
-    },
+    maybeSingle: vi.fn().mockResolvedValue(result),
   }
 }
 
 describe('deleteCategory', () => {
-  it('returns affected count when deleting category', async () => {
+  it('moves the category to the trash, keeping its transactions and budgets', async () => {
     mocks.getSession.mockResolvedValue('household-1')
-    const deleteBuilder = createDeleteBuilder({ error: null })
-    mocks.from
-      .mockImplementationOnce(() => createSelectBuilder({ data: { id: 'cat-1' }, error: null }))
-      .mockImplementationOnce(() => createCountBuilder({ count: 3, error: null }))
-      .mockImplementationOnce(() => deleteBuilder)
-
-    await expect(deleteCategory('cat-1')).resolves.toEqual({ affectedTransactions: 3 })
+    const builder = createUpdateBuilder({ data: { id: 'cat-1' }, error: null })
+    mocks.from.mockImplementationOnce(() => builder)
+
+    await expect(deleteCategory('cat-1')).resolves.toBeUndefined()
+    expect(builder.update).toHaveBeenCalledWith({ deleted_at: expect.any(String), updated_by: 'member-1' })
+    expect(builder.is).toHaveBeenCalledWith('deleted_at', null)
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+    expect(mocks.rpc).not.toHaveBeenCalled()
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/trash')
   })
 
   it('throws when category does not belong to household', async () => {
     mocks.getSession.mockResolvedValue('household-1')
-    const deleteBuilder = createDeleteBuilder({ error: null })
-    mocks.from
-      .mockImplementationOnce(() => createSelectBuilder({ data: null, error: null }))
-      .mockImplementationOnce(() => deleteBuilder)
+    mocks.from.mockImplementationOnce(() => createUpdateBuilder({ data: null, error: null }))
 
     await expect(deleteCategory('cat-1')).rejects.toThrow(/not found/i)
+    expect(mocks.rpc).not.toHaveBeenCalled()
   })
 })
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
+
+import { createCategory, reorderCategories } from '@/lib/actions/categories'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const housingId = '11111111-1111-4111-8111-111111111111'
+const rentId = '22222222-2222-4222-8222-222222222222'
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mocks.getSession.mockResolvedValue('household-1')
+})
+
+describe('createCategory in a group', () => {
+  it('adds the category after the group\'s last subcategory', async () => {
+    const insert = createQueryBuilder({ data: { id: 'cat-new' }, error: null })
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: { id: housingId, parent_id: null }, error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: null, error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: { sort_order: 2 }, error: null }))
+      .mockImplementationOnce(() => insert)
+
+    await createCategory('Utilities', '#3b82f6', undefined, housingId)
+
+    expect(insert.insert).toHaveBeenCalledWith(expect.objectContaining({ parent_id: housingId, sort_order: 3 }))
+  })
+
+  it('rejects a group that is itself a subcategory', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: { id: rentId, parent_id: housingId }, error: null }))
+
+    await expect(createCategory('Deposit', '#3b82f6', undefined, rentId)).rejects.toThrow(/can't have subcategories/)
+  })
+
+  it('rejects a group from another household', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: null, error: null }))
+
+    await expect(createCategory('Utilities', '#3b82f6', undefined, housingId)).rejects.toThrow('Group not found')
+  })
+})
+
+describe('reorderCategories', () => {
+  it('saves the order given', async () => {
+    mocks.rpc.mockResolvedValue({ data: { success: true, updated: 2 }, error: null })
+
+    await reorderCategories({ categoryIds: [rentId, housingId] })
+
+    expect(mocks.rpc).toHaveBeenCalledWith('reorder_categories', {
+      p_household_id: 'household-1',
+      p_category_ids: [rentId, housingId],
+      p_member_id: 'member-1',
+    })
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/budget')
+  })
+
+  it('rejects an empty order', async () => {
+    await expect(reorderCategories({ categoryIds: [] })).rejects.toThrow()
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+})
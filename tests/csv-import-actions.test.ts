@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: mocks.revalidatePath,
+}))
+
+vi.mock('@/lib/supabase-server', () => ({
+  supabaseAdmin: {
+    from: mocks.from,
+    rpc: mocks.rpc,
+  },
+}))
+
+import { bulkImportTransactions, getSavedColumnMappings } from '@/lib/actions/csv-import'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const categoryId = '11111111-1111-4111-8111-111111111111'
+
+describe('bulkImportTransactions', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.rpc.mockReset()
+    mocks.from.mockReset()
+    mocks.from.mockImplementation(() => createQueryBuilder({ data: [], error: null }))
+    mocks.getSession.mockResolvedValue('household-1')
+    mocks.rpc.mockResolvedValue({
+      data: { success: true, imported: 3, failed: 0, errors: [] },
+      error: null,
+    })
+  })
+
+  it('sends income, expenses and refunds with their type and sign', async () => {
+    const result = await bulkImportTransactions([
+      { categoryId, amount: 25, description: 'GROCERY', date: '2024-01-15', type: 'expense' },
+      { categoryId: null, amount: 1200, description: 'PAYROLL', date: '2024-01-16', type: 'income' },
+      { categoryId: null, amount: -10, description: 'REFUND', date: '2024-01-17', type: 'expense' },
+    ])
+
+    expect(result.success).toBe(true)
+    expect(mocks.rpc).toHaveBeenCalledWith('bulk_import_transactions', {
+      p_household_id: 'household-1',
+      p_member_id: 'member-1',
+      p_transactions: [
+        { category_id: categoryId, amount: 25, description: 'GROCERY', date: '2024-01-15', type: 'expense' },
+        { category_id: null, amount: 1200, description: 'PAYROLL', date: '2024-01-16', type: 'income' },
+        { category_id: null, amount: -10, description: 'REFUND', date: '2024-01-17', type: 'expense' },
+      ],
+    })
+  })
+
+  it('requires a category for expenses that are not refunds', async () => {
+    const result = await bulkImportTransactions([
+      { categoryId: null, amount: 25, description: 'GROCERY', date: '2024-01-15', type: 'expense' },
+    ])
+
+    expect(result.success).toBe(false)
+    expect(result.errors).toEqual([{ index: 0, message: 'Category is required' }])
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+
+  it('rejects negative income', async () => {
+    const result = await bulkImportTransactions([
+      { categoryId: null, amount: -5, description: 'PAYROLL', date: '2024-01-15', type: 'income' },
+    ])
+
+    expect(result.errors).toEqual([{ index: 0, message: 'Income amount must be positive' }])
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+
+  it('records an import batch when a source is given', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: true, imported: 1, failed: 0, errors: [], batch_id: 'batch-1' },
+      error: null,
+    })
+
+    const result = await bulkImportTransactions(
+      [{ categoryId, amount: 25, description: 'GROCERY', date: '2024-01-15', type: 'expense' }],
+      { fileName: 'january.csv', format: 'Chase Credit Card' }
+    )
+
+    expect(result.batchId).toBe('batch-1')
+    expect(mocks.rpc).toHaveBeenCalledWith('bulk_import_transactions', expect.objectContaining({
+      p_batch: { file_name: 'january.csv', format: 'Chase Credit Card' },
+    }))
+  })
+
+  it('sends the chosen account with the import batch', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: true, imported: 1, failed: 0, errors: [], batch_id: 'batch-1' },
+      error: null,
+    })
+
+    await bulkImportTransactions(
+      [{ categoryId, amount: 25, description: 'GROCERY', date: '2024-01-15', type: 'expense' }],
+      { fileName: 'january.csv', accountId: 'account-1' }
+    )
+
+    expect(mocks.rpc).toHaveBeenCalledWith('bulk_import_transactions', expect.objectContaining({
+      p_batch: { file_name: 'january.csv', format: null, account_id: 'account-1' },
+    }))
+  })
+
+  it('passes source fingerprints and reports skipped rows', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: true, imported: 0, failed: 0, errors: [], skipped: 1, skipped_indexes: [0] },
+      error: null,
+    })
+
+    const result = await bulkImportTransactions([
+      {
+        categoryId,
+        amount: 25,
+        description: 'GROCERY',
+        date: '2024-01-15',
+        type: 'expense',
+        sourceFingerprint: 'ext:ABC123',
+      },
+    ])
+
+    expect(result.skipped).toBe(1)
+    expect(result.skippedIndexes).toEqual([0])
+    expect(mocks.rpc.mock.calls[0][1].p_transactions[0].source_fingerprint).toBe('ext:ABC123')
+  })
+
+  it('learns merchant patterns from categorized rows', async () => {
+    await bulkImportTransactions([
+      { categoryId, amount: 25, description: 'GROCERY OUTLET 12', date: '2024-01-15', type: 'expense' },
+      { categoryId: null, amount: -10, description: 'REFUND', date: '2024-01-17', type: 'expense' },
+    ])
+
+    expect(mocks.rpc).toHaveBeenCalledWith('record_merchant_patterns', {
+      p_household_id: 'household-1',
+      p_patterns: [{ merchant_name: 'grocery outlet', category_id: categoryId }],
+    })
+  })
+
+  it('learns only from rows that were inserted', async () => {
+    mocks.rpc.mockResolvedValueOnce({
+      data: { success: true, imported: 1, failed: 0, errors: [], skipped: 1, skipped_indexes: [0] },
+      error: null,
+    })
+
+    await bulkImportTransactions([
+      { categoryId, amount: 25, description: 'GROCERY OUTLET 12', date: '2024-01-15', type: 'expense', sourceFingerprint: 'row-1' },
+      { categoryId, amount: 9.99, description: 'SPOTIFY USA', date: '2024-01-16', type: 'expense', sourceFingerprint: 'row-2' },
+    ])
+
+    expect(mocks.rpc).toHaveBeenCalledWith('record_merchant_patterns', {
+      p_household_id: 'household-1',
+      p_patterns: [{ merchant_name: 'spotify usa', category_id: categoryId }],
+    })
+  })
+
+  it('learns aliased merchants under their alias', async () => {
+    mocks.from.mockImplementation(() => createQueryBuilder({
+      data: [
+        { id: 'alias-1', household_id: 'household-1', match_text: 'amzn mktp us', display_name: 'Amazon', created_at: '2024-01-01T00:00:00.000Z' },
+      ],
+      error: null,
+    }))
+
+    await bulkImportTransactions([
+      { categoryId, amount: 25, description: 'AMZN MKTP US*1A2B3', date: '2024-01-15', type: 'expense' },
+    ])
+
+    expect(mocks.from).toHaveBeenCalledWith('merchant_aliases')
+    expect(mocks.rpc).toHaveBeenCalledWith('record_merchant_patterns', {
+      p_household_id: 'household-1',
+      p_patterns: [{ merchant_name: 'amazon', category_id: categoryId }],
+    })
+  })
+})
+
+describe('getSavedColumnMappings', () => {
+  const mapping = {
+    hasHeader: true,
+    dateColumn: 'Posted',
+    amountColumn: 'Amount',
+    descriptionColumn: 'Payee',
+    dateFormat: 'MM/DD/YYYY',
+    signConvention: 'negative-is-debit',
+  }
+
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.from.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('drops stored mappings that no longer fit the mapping schema', async () => {
+    mocks.from.mockReturnValue(createQueryBuilder({
+      data: [
+        { header_signature: 'headers:posted|payee|amount', mapping },
+        { header_signature: 'headers:date|memo', mapping: { ...mapping, amountColumn: undefined } },
+        { header_signature: 'columns:date|amount|text', mapping: 'not a mapping' },
+      ],
+      error: null,
+    }))
+
+    const saved = await getSavedColumnMappings()
+
+    expect(mocks.from).toHaveBeenCalledWith('csv_column_mappings')
+    expect(saved).toEqual([{ headerSignature: 'headers:posted|payee|amount', mapping }])
+  })
+})
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  revalidatePath: vi.fn(),
+  getTransactions: vi.fn(),
+  from: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({ getSession: mocks.getSession, getSessionMemberId: vi.fn(async () => 'member-1') }))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/actions/transactions', () => ({ getTransactions: mocks.getTransactions }))
+vi.mock('@/lib/actions/settings', () => ({ getHouseholdTimezone: vi.fn().mockResolvedValue('UTC') }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from } }))
+
+import { applyGoalBudgets, getSavingsGoals } from '@/lib/actions/goals'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const vacation = {
+  id: 'goal-1',
+  household_id: 'household-1',
+  name: 'Vacation',
+  target_amount: 1200,
+  target_amount_cents: 120000,
+  start_date: '2026-01-10',
+  target_date: '2026-12-31',
+  category_id: 'cat-savings',
+  category: { id: 'cat-savings', name: 'Savings', color: '#22c55e' },
+  auto_budget: true,
+  created_at: null,
+  updated_at: null,
+}
+
+function transfer(date: string, amountCents: number, categoryId = 'cat-savings') {
+  return { date, amount: amountCents / 100, amount_cents: amountCents, type: 'expense', category_id: categoryId, category: null }
+}
+
+describe('savings goals', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'))
+    mocks.getSession.mockReset()
+    mocks.getTransactions.mockReset()
+    mocks.from.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('counts contributions and linked-category spending since the goal started', async () => {
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: [vacation], error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({
+        data: [{ goal_id: 'goal-1', amount_cents: 5000, date: '2026-02-14' }],
+        error: null,
+      }))
+    mocks.getTransactions.mockResolvedValue([
+      transfer('2026-03-01', 5000),
+      transfer('2026-02-01', 10000),
+      transfer('2026-02-01', 9999, 'cat-groceries'),
+    ])
+
+    const [goal] = await getSavingsGoals()
+
+    expect(goal.plan).toMatchObject({
+      savedCents: 20000,
+      // 105000 left at the start of March, over March..December
+      requiredMonthlyCents: 10500,
+      expectedCents: 20000,
+      status: 'on_track',
+    })
+  })
+
+  it('budgets the required contribution in the linked category', async () => {
+    const upsert = createQueryBuilder({ error: null })
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: [vacation], error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: [], error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: [], error: null }))
+      .mockImplementationOnce(() => upsert)
+    mocks.getTransactions.mockResolvedValue([transfer('2026-02-01', 20000)])
+
+    await applyGoalBudgets('2026-03')
+
+    expect(mocks.getTransactions).toHaveBeenCalledWith({ startDate: '2026-01-10', endDate: '2026-02-28' })
+    expect(upsert.upsert).toHaveBeenCalledWith(
+      [{
+        household_id: 'household-1',
+        category_id: 'cat-savings',
+        month: '2026-03',
+        budgeted_amount: 100,
+        budgeted_amount_cents: 10000,
+        updated_by: 'member-1',
+      }],
+      { onConflict: 'household_id,category_id,month', ignoreDuplicates: true }
+    )
+  })
+
+  it('keeps a budget someone has changed from the plan', async () => {
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: [vacation], error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: [], error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: [{ category_id: 'cat-savings' }], error: null }))
+    mocks.getTransactions.mockResolvedValue([])
+
+    await applyGoalBudgets('2026-03')
+
+    expect(mocks.from).toHaveBeenCalledTimes(3)
+  })
+
+  it('leaves a budget that already matches the plan alone', async () => {
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: [vacation], error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: [], error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({
+        data: [{ category_id: 'cat-savings', budgeted_amount: 120, budgeted_amount_cents: 12000 }],
+        error: null,
+      }))
+    mocks.getTransactions.mockResolvedValue([])
+
+    await applyGoalBudgets('2026-03')
+
+    expect(mocks.from).toHaveBeenCalledTimes(3)
+  })
+})
@@ -0,0 +1,25 @@
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { PGlite } from '@electric-sql/pglite'
+
+/**
+ * An in-memory Postgres for testing the SQL in supabase/migrations.
+ *
+ * The migrations can't be replayed onto an empty database (the base schema
+ * predates them), so each test creates just the tables it touches, with the
+ * columns it needs, and then runs the migration under test.
+ */
+export async function createTestDatabase(tables: string): Promise<PGlite> {
+  const db = new PGlite()
+  // Roles the migrations grant to and revoke from
+  await db.exec('CREATE ROLE authenticated; CREATE ROLE anon;')
+  await db.exec(tables)
+  return db
+}
+
+/**
+ * The SQL of a migration in supabase/migrations.
+ */
+export function readMigration(fileName: string): string {
+  return readFileSync(resolve(__dirname, '../../supabase/migrations', fileName), 'utf8')
+}
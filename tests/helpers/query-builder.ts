@@ -0,0 +1,26 @@
+import { vi } from 'vitest'
+
+const CHAINED_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'is', 'in', 'not', 'or', 'ilike', 'lt', 'lte', 'gte',
+  'order', 'range', 'limit',
+]
+
+/**
+ * A chainable stand-in for a `supabaseAdmin.from()` query.
+ *
+ * Every filter and modifier is a mock returning the builder, so tests can
+ * assert on how the query was built. The query resolves to the given result
+ * however it ends: awaited directly, or through single() or maybeSingle().
+ */
+export function createQueryBuilder(result: unknown) {
+  const builder: Record<string, unknown> = {}
+  for (const method of CHAINED_METHODS) {
+    builder[method] = vi.fn(() => builder)
+  }
+  builder.single = vi.fn().mockResolvedValue(result)
+  builder.maybeSingle = vi.fn().mockResolvedValue(result)
+  builder.then = (resolve: (value: unknown) => void, reject: (reason?: unknown) => void) =>
+    Promise.resolve(result).then(resolve, reject)
+  return builder
+}
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  revalidatePath: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { rpc: mocks.rpc } }))
+
+import { rollbackImportBatch } from '@/lib/actions/import-batches'
+
+describe('rollbackImportBatch', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('returns the number of deleted transactions', async () => {
+    mocks.rpc.mockResolvedValue({ data: { success: true, deleted: 12 }, error: null })
+
+    await expect(rollbackImportBatch('batch-1')).resolves.toEqual({ deleted: 12 })
+    expect(mocks.rpc).toHaveBeenCalledWith('rollback_import_batch', {
+      p_household_id: 'household-1',
+      p_batch_id: 'batch-1',
+      p_member_id: 'member-1',
+    })
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/imports')
+  })
+
+  it('throws when the batch was already undone', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: false, error: 'Import has already been undone' },
+      error: null,
+    })
+
+    await expect(rollbackImportBatch('batch-1')).rejects.toThrow('Import has already been undone')
+  })
+
+  it('throws when not authenticated', async () => {
+    mocks.getSession.mockResolvedValue(null)
+
+    await expect(rollbackImportBatch('batch-1')).rejects.toThrow('Not authenticated')
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(),
+  hashPin: vi.fn(async (pin: string) => `hashed-${pin}`),
+  findMemberByPin: vi.fn(),
+  checkAuthRateLimit: vi.fn(),
+  recordAuthFailure: vi.fn(),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+  hashPin: mocks.hashPin,
+  findMemberByPin: mocks.findMemberByPin,
+  getClientIp: () => '203.0.113.7',
+  checkAuthRateLimit: mocks.checkAuthRateLimit,
+  recordAuthFailure: mocks.recordAuthFailure,
+}))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from } }))
+
+import { addMember, removeMember } from '@/lib/actions/members'
+import { createQueryBuilder } from './helpers/query-builder'
+
+describe('household members', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.getSessionMemberId.mockReset()
+    mocks.findMemberByPin.mockReset()
+    mocks.checkAuthRateLimit.mockReset()
+    mocks.recordAuthFailure.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.from.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+    mocks.getSessionMemberId.mockResolvedValue('member-1')
+    mocks.checkAuthRateLimit.mockResolvedValue({ blocked: false, waitSeconds: 0 })
+  })
+
+  it('adds a member with their PIN hashed', async () => {
+    mocks.findMemberByPin.mockResolvedValue(null)
+    const insertBuilder = createQueryBuilder({ error: null })
+    mocks.from.mockImplementationOnce(() => insertBuilder)
+
+    await addMember({ name: ' Sam ', pin: '4321' })
+
+    expect(mocks.findMemberByPin).toHaveBeenCalledWith('household-1', '4321')
+    expect(insertBuilder.insert).toHaveBeenCalledWith({
+      household_id: 'household-1',
+      name: 'Sam',
+      pin_hash: 'hashed-4321',
+    })
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/settings')
+  })
+
+  it('rejects a PIN another member already signs in with', async () => {
+    mocks.findMemberByPin.mockResolvedValue('member-2')
+
+    await expect(addMember({ name: 'Sam', pin: '1234' })).rejects.toThrow('Choose a different name or PIN')
+    expect(mocks.recordAuthFailure).toHaveBeenCalledWith('203.0.113.7')
+    expect(mocks.from).not.toHaveBeenCalled()
+  })
+
+  it('gives a taken name the same answer as a taken PIN', async () => {
+    mocks.findMemberByPin.mockResolvedValue(null)
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ error: { code: '23505', message: 'duplicate' } }))
+
+    await expect(addMember({ name: 'Sam', pin: '1234' })).rejects.toThrow('Choose a different name or PIN')
+    expect(mocks.recordAuthFailure).toHaveBeenCalledWith('203.0.113.7')
+  })
+
+  it("won't check PINs while rate limited", async () => {
+    mocks.checkAuthRateLimit.mockResolvedValue({ blocked: true, waitSeconds: 60 })
+
+    await expect(addMember({ name: 'Sam', pin: '1234' })).rejects.toThrow('Too many attempts. Try again in 60 seconds.')
+    expect(mocks.findMemberByPin).not.toHaveBeenCalled()
+  })
+
+  it('refuses to remove the signed-in member', async () => {
+    await expect(removeMember('member-1')).rejects.toThrow("You can't remove yourself")
+    expect(mocks.from).not.toHaveBeenCalled()
+  })
+
+  it('refuses to remove the last member', async () => {
+    mocks.getSessionMemberId.mockResolvedValue(null)
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: [{ id: 'member-2' }], error: null }))
+
+    await expect(removeMember('member-2')).rejects.toThrow('A household needs at least one member')
+  })
+
+  it('removes another member', async () => {
+    const deleteBuilder = createQueryBuilder({ error: null })
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({
+        data: [{ id: 'member-1' }, { id: 'member-2' }],
+        error: null,
+      }))
+      .mockImplementationOnce(() => deleteBuilder)
+
+    await removeMember('member-2')
+
+    expect(deleteBuilder.delete).toHaveBeenCalled()
+    expect(deleteBuilder.eq).toHaveBeenCalledWith('id', 'member-2')
+    expect(deleteBuilder.eq).toHaveBeenCalledWith('household_id', 'household-1')
+  })
+})
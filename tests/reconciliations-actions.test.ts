@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
+
+import { getReconciliationState, reconcileAccount } from '@/lib/actions/reconciliations'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const checkingId = '11111111-1111-4111-8111-111111111111'
+const groceriesId = '33333333-3333-4333-8333-333333333333'
+const transferId = '44444444-4444-4444-8444-444444444444'
+
+const checking = { id: checkingId, name: 'Checking', opening_balance_cents: 100000 }
+
+describe('getReconciliationState', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('lists what is still open and takes the reconciled balance from the database', async () => {
+    const open = [{ id: groceriesId, account_id: checkingId, type: 'expense', amount: 25, amount_cents: 2500 }]
+    const transactionsBuilder = createQueryBuilder({ data: open, error: null })
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: checking, error: null }))
+      .mockImplementationOnce(() => transactionsBuilder)
+      .mockImplementationOnce(() => createQueryBuilder({ data: null, error: null }))
+    mocks.rpc.mockResolvedValue({ data: 95000, error: null })
+
+    const state = await getReconciliationState(checkingId)
+
+    expect(transactionsBuilder.or).toHaveBeenCalledWith(
+      `and(type.eq.transfer,transfer_account_id.eq.${checkingId},transfer_reconciliation_id.is.null),` +
+      `and(account_id.eq.${checkingId},reconciliation_id.is.null)`
+    )
+    expect(transactionsBuilder.range).toHaveBeenCalledWith(0, 999)
+    expect(mocks.rpc).toHaveBeenCalledWith('get_reconciled_balance', {
+      p_household_id: 'household-1',
+      p_account_id: checkingId,
+    })
+    expect(state).toMatchObject({ reconciledBalanceCents: 95000, transactions: open })
+  })
+})
+
+describe('reconcileAccount', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('checks and locks the cleared transactions in one database call', async () => {
+    mocks.rpc.mockResolvedValue({ data: { success: true, reconciliation_id: 'rec-1' }, error: null })
+
+    await reconcileAccount({
+      accountId: checkingId,
+      statementDate: '2026-03-31',
+      statementBalance: 1025.1,
+      transactionIds: [groceriesId, transferId],
+    })
+
+    expect(mocks.rpc).toHaveBeenCalledWith('reconcile_account', {
+      p_household_id: 'household-1',
+      p_account_id: checkingId,
+      p_statement_date: '2026-03-31',
+      p_statement_balance: 1025.1,
+      p_statement_balance_cents: 102510,
+      p_transaction_ids: [groceriesId, transferId],
+      p_member_id: 'member-1',
+    })
+    expect(mocks.from).not.toHaveBeenCalled()
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/accounts')
+  })
+
+  it('says how far the cleared transactions are off the statement', async () => {
+    mocks.rpc.mockResolvedValue({ data: { success: false, difference_cents: 2500 }, error: null })
+
+    await expect(reconcileAccount({
+      accountId: checkingId,
+      statementDate: '2026-03-31',
+      statementBalance: 1000,
+      transactionIds: [groceriesId, transferId],
+    })).rejects.toThrow('Cleared transactions are $25.00 off the statement balance')
+    expect(mocks.revalidatePath).not.toHaveBeenCalled()
+  })
+
+  it('passes on why the database refused', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: false, error: 'Only transactions up to the statement date can be cleared' },
+      error: null,
+    })
+
+    await expect(reconcileAccount({
+      accountId: checkingId,
+      statementDate: '2026-03-31',
+      statementBalance: 990,
+      transactionIds: [groceriesId],
+    })).rejects.toThrow('Only transactions up to the statement date can be cleared')
+  })
+})
@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
+
+import { applyRuleRun, createRule, previewRuleRun } from '@/lib/actions/rules'
+import { createTransaction } from '@/lib/actions/transactions'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const rules = [
+  {
+    id: 'rule-1',
+    household_id: 'household-1',
+    priority: 10,
+    match_type: 'whole_word',
+    pattern: 'shell',
+    min_amount: null,
+    max_amount: null,
+    transaction_type: null,
+    category_id: 'cat-gas',
+    rename_to: 'Shell',
+    enabled: true,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  },
+]
+
+const transaction = (fields: Record<string, unknown>) => ({
+  type: 'expense',
+  created_at: '2024-01-20T00:00:00Z',
+  updated_at: '2024-01-20T00:00:00Z',
+  reconciliation_id: null,
+  transfer_reconciliation_id: null,
+  splits: [],
+  ...fields,
+})
+
+const transactions = [
+  transaction({ id: 'txn-1', date: '2024-01-15', amount: 40, description: 'SHELL OIL 123', category_id: null }),
+  transaction({ id: 'txn-2', date: '2024-01-14', amount: 25, description: 'SHELLFISH SHACK', category_id: 'cat-food' }),
+  transaction({ id: 'txn-3', date: '2024-01-13', amount: 30, description: 'Shell', category_id: 'cat-gas' }),
+]
+
+describe('rule re-run', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('previews only the transactions that would change', async () => {
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: rules, error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: transactions, error: null }))
+
+    const changes = await previewRuleRun()
+
+    expect(changes).toEqual([
+      {
+        transactionId: 'txn-1',
+        date: '2024-01-15',
+        amount: 40,
+        description: 'SHELL OIL 123',
+        currentCategoryId: null,
+        updatedAt: '2024-01-20T00:00:00Z',
+        newCategoryId: 'cat-gas',
+        newDescription: 'Shell',
+      },
+    ])
+  })
+
+  it('leaves transfers and reconciled transactions out, and only renames splits', async () => {
+    const transactionsBuilder = createQueryBuilder({
+      data: [transaction({ id: 'txn-5', date: '2024-01-12', amount: 60, description: 'SHELL 9', category_id: null, splits: [{ id: 'split-1' }] })],
+      error: null,
+    })
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: rules, error: null }))
+      .mockImplementationOnce(() => transactionsBuilder)
+
+    const changes = await previewRuleRun()
+
+    expect(transactionsBuilder.neq).toHaveBeenCalledWith('type', 'transfer')
+    expect(transactionsBuilder.is).toHaveBeenCalledWith('reconciliation_id', null)
+    expect(transactionsBuilder.is).toHaveBeenCalledWith('transfer_reconciliation_id', null)
+    expect(changes).toEqual([expect.objectContaining({
+      transactionId: 'txn-5',
+      newCategoryId: null,
+      newDescription: 'Shell',
+    })])
+  })
+
+  it('reads past the first page of transactions', async () => {
+    const page = Array.from({ length: 1000 }, (_, i) =>
+      transaction({ id: `txn-page-${i}`, date: '2024-01-10', amount: 5, description: 'Shell', category_id: 'cat-gas' }))
+    const firstPage = createQueryBuilder({ data: page, error: null })
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: rules, error: null }))
+      .mockImplementationOnce(() => firstPage)
+      .mockImplementationOnce(() => createQueryBuilder({ data: transactions, error: null }))
+
+    const changes = await previewRuleRun()
+
+    expect(firstPage.range).toHaveBeenCalledWith(0, 999)
+    expect(changes.map((change) => change.transactionId)).toEqual(['txn-1'])
+  })
+
+  it('applies only the selected changes, as previewed, in one call', async () => {
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: rules, error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({
+        data: [...transactions, { ...transactions[0], id: 'txn-4' }],
+        error: null,
+      }))
+    mocks.rpc.mockResolvedValue({ data: { success: true, updated: 1, conflicts: [], locked: [] }, error: null })
+
+    const result = await applyRuleRun([{ transactionId: 'txn-4', updatedAt: '2024-01-19T00:00:00Z' }])
+
+    expect(result).toEqual({ success: true, updated: 1, conflicts: [], locked: [] })
+    expect(mocks.rpc).toHaveBeenCalledWith('apply_rule_changes', {
+      p_household_id: 'household-1',
+      p_items: [{
+        id: 'txn-4',
+        expected_updated_at: '2024-01-19T00:00:00Z',
+        category_id: 'cat-gas',
+        description: 'Shell',
+      }],
+      p_member_id: 'member-1',
+    })
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/transactions')
+  })
+
+  it('saves nothing when a transaction changed since the preview', async () => {
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: rules, error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: transactions, error: null }))
+    mocks.rpc.mockResolvedValue({ data: { success: false, updated: 0, conflicts: ['txn-1'], locked: [] }, error: null })
+
+    const result = await applyRuleRun()
+
+    expect(result).toEqual({ success: false, updated: 0, conflicts: ['txn-1'], locked: [] })
+    expect(mocks.revalidatePath).not.toHaveBeenCalled()
+  })
+})
+
+describe('createRule', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.from.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('rejects invalid regex patterns', async () => {
+    await expect(createRule({
+      matchType: 'regex',
+      pattern: '([',
+      categoryId: '11111111-1111-4111-8111-111111111111',
+    })).rejects.toThrow('Pattern is not a valid regular expression')
+    expect(mocks.from).not.toHaveBeenCalled()
+  })
+
+  it('requires a category or a new description', async () => {
+    await expect(createRule({ matchType: 'contains', pattern: 'shell' }))
+      .rejects.toThrow('Rule must set a category or rename the description')
+  })
+})
+
+describe('rules on new transactions', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('categorizes an expense entered without a category', async () => {
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: rules, error: null }))
+      .mockImplementation(() => createQueryBuilder({ data: [], error: null }))
+    mocks.rpc.mockImplementation(async (name: string) => (
+      name === 'create_transaction'
+        ? { data: { success: true, created: true, id: 'txn-new' }, error: null }
+        : { data: { success: true, recorded: 1 }, error: null }
+    ))
+
+    await createTransaction({ amount: 40, description: 'SHELL OIL 123', date: '2024-01-15', type: 'expense' })
+
+    expect(mocks.rpc).toHaveBeenCalledWith('create_transaction', expect.objectContaining({
+      p_transaction: expect.objectContaining({
+        category_id: 'cat-gas',
+        description: 'Shell',
+      }),
+    }))
+  })
+
+  it('still needs a category when no rule matches', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: rules, error: null }))
+
+    await expect(createTransaction({ amount: 12, description: 'Bakery', date: '2024-01-15', type: 'expense' }))
+      .rejects.toThrow('Choose a category; no rule matches this description')
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+  })
+})
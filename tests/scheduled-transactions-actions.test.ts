@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  revalidatePath: vi.fn(),
+  insertTransaction: vi.fn(),
+  from: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({ getSession: mocks.getSession }))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/actions/transactions', () => ({ insertTransaction: mocks.insertTransaction }))
+vi.mock('@/lib/actions/settings', () => ({ getHouseholdTimezone: vi.fn().mockResolvedValue('UTC') }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from } }))
+
+import {
+  confirmScheduledOccurrence,
+  postDueScheduledTransactions,
+} from '@/lib/actions/scheduled-transactions'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const rent = {
+  id: 'schedule-rent',
+  household_id: 'household-1',
+  category_id: '11111111-1111-4111-8111-111111111111',
+  amount: 1500,
+  amount_cents: 150000,
+  description: 'Rent',
+  type: 'expense',
+  frequency: 'monthly',
+  day_of_month: 1,
+  start_date: '2026-01-01',
+  end_date: null,
+  next_date: '2026-02-01',
+  mode: 'auto',
+  created_at: null,
+  updated_at: null,
+}
+
+describe('scheduled transaction posting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'))
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.insertTransaction.mockReset()
+    mocks.from.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+    mocks.insertTransaction.mockResolvedValue(true)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('posts every missed occurrence and advances only from the posted date', async () => {
+    const advanceBuilders = [createQueryBuilder({ error: null }), createQueryBuilder({ error: null })]
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: [rent], error: null }))
+      .mockImplementationOnce(() => advanceBuilders[0])
+      .mockImplementationOnce(() => advanceBuilders[1])
+
+    await expect(postDueScheduledTransactions()).resolves.toEqual({ posted: 2 })
+
+    expect(mocks.insertTransaction).toHaveBeenCalledTimes(2)
+    expect(mocks.insertTransaction).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      date: '2026-02-01',
+      scheduledTransactionId: 'schedule-rent',
+      scheduledDate: '2026-02-01',
+    }))
+    expect(mocks.insertTransaction).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      date: '2026-03-01',
+      scheduledDate: '2026-03-01',
+    }))
+
+    expect(advanceBuilders[0].update).toHaveBeenCalledWith(expect.objectContaining({ next_date: '2026-03-01' }))
+    expect(advanceBuilders[0].eq).toHaveBeenCalledWith('next_date', '2026-02-01')
+    expect(advanceBuilders[1].update).toHaveBeenCalledWith(expect.objectContaining({ next_date: '2026-04-01' }))
+  })
+
+  it('stops a schedule at its first failure without blocking the others', async () => {
+    const paycheck = {
+      ...rent,
+      id: 'schedule-pay',
+      category_id: null,
+      type: 'income',
+      frequency: 'biweekly',
+      day_of_month: null,
+      start_date: '2026-03-06',
+      next_date: '2026-03-06',
+    }
+    mocks.insertTransaction
+      .mockRejectedValueOnce(new Error('Category is required for expenses'))
+      .mockResolvedValueOnce(true)
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: [rent, paycheck], error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ error: null }))
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(postDueScheduledTransactions()).resolves.toEqual({ posted: 1 })
+
+    expect(mocks.insertTransaction).toHaveBeenCalledTimes(2)
+    expect(mocks.insertTransaction).toHaveBeenLastCalledWith(expect.objectContaining({
+      scheduledTransactionId: 'schedule-pay',
+      type: 'income',
+    }))
+    consoleError.mockRestore()
+  })
+
+  it('ignores confirming an occurrence that was already handled', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: { ...rent, mode: 'confirm', next_date: '2026-04-01' },
+      error: null,
+    }))
+
+    await expect(confirmScheduledOccurrence('schedule-rent', '2026-03-01')).resolves.toBeUndefined()
+
+    expect(mocks.insertTransaction).not.toHaveBeenCalled()
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+  })
+})
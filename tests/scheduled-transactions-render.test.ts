@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// next/cache is deliberately left real: outside a server action its
+// revalidatePath throws, just as it does while the dashboard renders
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+}))
+vi.mock('@/lib/actions/settings', () => ({ getHouseholdTimezone: vi.fn().mockResolvedValue('UTC') }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
+
+import { postDueScheduledTransactions } from '@/lib/actions/scheduled-transactions'
+import { createQueryBuilder } from './helpers/query-builder'
+
+const rent = {
+  id: '22222222-2222-4222-8222-222222222222',
+  household_id: 'household-1',
+  category_id: '11111111-1111-4111-8111-111111111111',
+  amount: 1500,
+  amount_cents: 150000,
+  description: 'Rent',
+  type: 'expense',
+  frequency: 'monthly',
+  day_of_month: 1,
+  start_date: '2026-01-01',
+  end_date: null,
+  next_date: '2026-02-01',
+  mode: 'auto',
+  created_at: null,
+  updated_at: null,
+}
+
+describe('posting scheduled transactions during a render', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'))
+    mocks.getSession.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+    mocks.rpc.mockImplementation(async (name: string) => (
+      name === 'create_transaction'
+        ? { data: { success: true, created: true, id: `transaction-${mocks.rpc.mock.calls.length}` }, error: null }
+        : { data: { success: true, recorded: 1 }, error: null }
+    ))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('posts and advances every missed occurrence in one pass', async () => {
+    const advances: ReturnType<typeof createQueryBuilder>[] = []
+    mocks.from.mockImplementation((table: string) => {
+      if (table === 'scheduled_transactions' && mocks.from.mock.calls.length === 1) {
+        return createQueryBuilder({ data: [rent], error: null })
+      }
+      if (table === 'scheduled_transactions') {
+        const builder = createQueryBuilder({ error: null })
+        advances.push(builder)
+        return builder
+      }
+      return createQueryBuilder({ data: [], error: null })
+    })
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(postDueScheduledTransactions()).resolves.toEqual({ posted: 2 })
+
+    expect(consoleError).not.toHaveBeenCalled()
+    const inserts = mocks.rpc.mock.calls.filter(([name]) => name === 'create_transaction')
+    expect(inserts).toHaveLength(2)
+    expect(inserts[0][1]).toEqual(expect.objectContaining({
+      p_transaction: expect.objectContaining({
+        scheduled_transaction_id: '22222222-2222-4222-8222-222222222222',
+        scheduled_date: '2026-02-01',
+      }),
+    }))
+    expect(advances).toHaveLength(2)
+    expect(advances[1].update).toHaveBeenCalledWith(expect.objectContaining({ next_date: '2026-04-01' }))
+    consoleError.mockRestore()
+  })
+})
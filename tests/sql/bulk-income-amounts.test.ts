@@ -0,0 +1,167 @@
+/* @vitest-environment node */
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { createTestDatabase, readMigration } from '../helpers/database'
+
+const HOUSEHOLD = '00000000-0000-4000-8000-000000000001'
+const MEMBER = '00000000-0000-4000-8000-0000000000a1'
+const RECONCILIATION = '00000000-0000-4000-8000-0000000000d1'
+const GROCERIES = '00000000-0000-4000-8000-0000000000c1'
+const INCOME = '00000000-0000-4000-8000-0000000000c2'
+
+const TABLES = `
+  CREATE TABLE categories (
+    id UUID PRIMARY KEY,
+    household_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    deleted_at TIMESTAMPTZ,
+    archived_at TIMESTAMPTZ
+  );
+  CREATE TABLE transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    household_id UUID NOT NULL,
+    category_id UUID,
+    amount NUMERIC(12, 2) NOT NULL,
+    amount_cents BIGINT NOT NULL,
+    description TEXT,
+    date DATE NOT NULL DEFAULT '2026-03-01',
+    type TEXT NOT NULL,
+    reconciliation_id UUID,
+    transfer_reconciliation_id UUID,
+    updated_by UUID,
+    deleted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+  );
+  CREATE TABLE transaction_splits (
+    household_id UUID NOT NULL,
+    transaction_id UUID NOT NULL
+  );
+`
+
+describe('20260306_bulk_income_amounts', () => {
+  describe('repairing negative income', () => {
+    let db: PGlite
+
+    beforeAll(async () => {
+      db = await createTestDatabase(TABLES)
+      await db.query(
+        `INSERT INTO transactions (household_id, description, amount, amount_cents, type, reconciliation_id, updated_by)
+         VALUES ($1, 'Refund marked as income', -12.5, -1250, 'income', NULL, $2),
+                ($1, 'Reconciled', -7, -700, 'income', $3, $2),
+                ($1, 'Refund', -9, -900, 'expense', NULL, $2),
+                ($1, 'Paycheck', 2000, 200000, 'income', NULL, $2)`,
+        [HOUSEHOLD, MEMBER, RECONCILIATION]
+      )
+      await db.exec(readMigration('20260306_bulk_income_amounts.sql'))
+    })
+
+    afterAll(async () => {
+      await db.close()
+    })
+
+    const row = async (description: string) =>
+      (await db.query(
+        `SELECT amount::TEXT AS amount, amount_cents, type, updated_by FROM transactions WHERE description = $1`,
+        [description]
+      )).rows[0]
+
+    it('makes negative income positive, attributed to no member', async () => {
+      expect(await row('Refund marked as income')).toEqual({
+        amount: '12.50',
+        amount_cents: 1250,
+        type: 'income',
+        updated_by: null,
+      })
+    })
+
+    it('leaves reconciled income, refunds and other income as they were', async () => {
+      expect(await row('Reconciled')).toEqual({ amount: '-7.00', amount_cents: -700, type: 'income', updated_by: MEMBER })
+      expect(await row('Refund')).toEqual({ amount: '-9.00', amount_cents: -900, type: 'expense', updated_by: MEMBER })
+      expect(await row('Paycheck')).toEqual({ amount: '2000.00', amount_cents: 200000, type: 'income', updated_by: MEMBER })
+    })
+  })
+
+  describe('bulk_update_transactions set_type', () => {
+    let db: PGlite
+
+    beforeAll(async () => {
+      db = await createTestDatabase(TABLES)
+      await db.exec(readMigration('20260306_bulk_income_amounts.sql'))
+    })
+
+    beforeEach(async () => {
+      await db.exec('TRUNCATE categories, transactions, transaction_splits')
+      await db.query(
+        `INSERT INTO categories (id, household_id, name) VALUES ($1, $3, 'Groceries'), ($2, $3, 'Income')`,
+        [GROCERIES, INCOME, HOUSEHOLD]
+      )
+    })
+
+    afterAll(async () => {
+      await db.close()
+    })
+
+    async function setType(description: string, type: 'income' | 'expense') {
+      const { rows } = await db.query<{ id: string; updated_at: string }>(
+        `SELECT id, updated_at FROM transactions WHERE description = $1`,
+        [description]
+      )
+      const items = rows.map((row) => ({ id: row.id, expected_updated_at: row.updated_at }))
+      await db.query(
+        `SELECT bulk_update_transactions($1, 'set_type', $2, $3, $4)`,
+        [HOUSEHOLD, JSON.stringify(items), JSON.stringify({ type }), MEMBER]
+      )
+      return (await db.query(
+        `SELECT amount_cents, type, category_id FROM transactions WHERE description = $1`,
+        [description]
+      )).rows[0]
+    }
+
+    it('stores a refund marked as income as positive income', async () => {
+      await db.query(
+        `INSERT INTO transactions (household_id, category_id, description, amount, amount_cents, type)
+         VALUES ($1, $2, 'Store refund', -5, -500, 'expense')`,
+        [HOUSEHOLD, GROCERIES]
+      )
+
+      expect(await setType('Store refund', 'income')).toMatchObject({ amount_cents: 500, type: 'income' })
+    })
+
+    it('keeps a refund marked as an expense negative', async () => {
+      await db.query(
+        `INSERT INTO transactions (household_id, category_id, description, amount, amount_cents, type)
+         VALUES ($1, $2, 'Store refund', -5, -500, 'expense')`,
+        [HOUSEHOLD, GROCERIES]
+      )
+
+      expect(await setType('Store refund', 'expense')).toMatchObject({ amount_cents: -500, type: 'expense' })
+    })
+
+    it('makes income with a spending category an expense', async () => {
+      await db.query(
+        `INSERT INTO transactions (household_id, category_id, description, amount, amount_cents, type)
+         VALUES ($1, $2, 'Cashback', 20, 2000, 'income')`,
+        [HOUSEHOLD, GROCERIES]
+      )
+
+      expect(await setType('Cashback', 'expense')).toEqual({ amount_cents: 2000, type: 'expense', category_id: GROCERIES })
+    })
+
+    it.each([
+      ['no category', null],
+      ['the Income category', INCOME],
+    ])('refuses to make income with %s an expense', async (_label, categoryId) => {
+      await db.query(
+        `INSERT INTO transactions (household_id, category_id, description, amount, amount_cents, type)
+         VALUES ($1, $2, 'Paycheck', 2000, 200000, 'income')`,
+        [HOUSEHOLD, categoryId]
+      )
+
+      await expect(setType('Paycheck', 'expense')).rejects.toThrow(
+        'Give the selected income a spending category before making it an expense'
+      )
+      expect((await db.query(`SELECT type FROM transactions`)).rows).toEqual([{ type: 'income' }])
+    })
+  })
+})
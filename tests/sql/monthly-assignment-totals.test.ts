@@ -0,0 +1,80 @@
+/* @vitest-environment node */
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { createTestDatabase, readMigration } from '../helpers/database'
+
+const HOUSEHOLD = '00000000-0000-4000-8000-000000000001'
+const GROCERIES = '00000000-0000-4000-8000-0000000000c1'
+const VACATION = '00000000-0000-4000-8000-0000000000c2'
+
+describe('get_monthly_assignment_totals', () => {
+  let db: PGlite
+
+  beforeAll(async () => {
+    db = await createTestDatabase(`
+      CREATE TABLE categories (
+        id UUID PRIMARY KEY,
+        household_id UUID NOT NULL,
+        name TEXT NOT NULL,
+        deleted_at TIMESTAMPTZ
+      );
+      CREATE TABLE transactions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        household_id UUID NOT NULL,
+        category_id UUID,
+        amount_cents BIGINT NOT NULL,
+        date DATE NOT NULL,
+        type TEXT NOT NULL,
+        deleted_at TIMESTAMPTZ
+      );
+      CREATE TABLE monthly_budgets (
+        household_id UUID NOT NULL,
+        category_id UUID NOT NULL,
+        month TEXT NOT NULL,
+        budgeted_amount_cents BIGINT NOT NULL
+      );
+    `)
+    await db.exec(readMigration('20260307_leave_trashed_budgets_unassigned.sql'))
+  })
+
+  beforeEach(async () => {
+    await db.exec('TRUNCATE categories, transactions, monthly_budgets')
+    await db.query(
+      `INSERT INTO categories (id, household_id, name) VALUES ($1, $3, 'Groceries'), ($2, $3, 'Vacation')`,
+      [GROCERIES, VACATION, HOUSEHOLD]
+    )
+    await db.query(
+      `INSERT INTO monthly_budgets (household_id, category_id, month, budgeted_amount_cents)
+       VALUES ($1, $2, '2026-03', 40000), ($1, $3, '2026-03', 25000)`,
+      [HOUSEHOLD, GROCERIES, VACATION]
+    )
+    await db.query(
+      `INSERT INTO transactions (household_id, amount_cents, date, type) VALUES ($1, 300000, '2026-03-01', 'income')`,
+      [HOUSEHOLD]
+    )
+  })
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  const totals = async () =>
+    (await db.query(`SELECT * FROM get_monthly_assignment_totals($1, '2026-03', '2026-03')`, [HOUSEHOLD])).rows
+
+  it('counts the budgets of every category outside the trash', async () => {
+    expect(await totals()).toEqual([{ month: '2026-03', income_cents: 300000, assigned_cents: 65000 }])
+  })
+
+  it('no longer counts the budget of a trashed category as assigned', async () => {
+    await db.query(`UPDATE categories SET deleted_at = NOW() WHERE id = $1`, [VACATION])
+
+    expect(await totals()).toEqual([{ month: '2026-03', income_cents: 300000, assigned_cents: 40000 }])
+  })
+
+  it('counts the budget once again when the category is restored', async () => {
+    await db.query(`UPDATE categories SET deleted_at = NOW() WHERE id = $1`, [VACATION])
+    await db.query(`UPDATE categories SET deleted_at = NULL WHERE id = $1`, [VACATION])
+
+    expect(await totals()).toEqual([{ month: '2026-03', income_cents: 300000, assigned_cents: 65000 }])
+  })
+})
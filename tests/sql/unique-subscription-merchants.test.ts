@@ -0,0 +1,57 @@
+/* @vitest-environment node */
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { createTestDatabase, readMigration } from '../helpers/database'
+
+const HOUSEHOLD = '00000000-0000-4000-8000-000000000001'
+
+describe('unique subscription merchants', () => {
+  let db: PGlite
+
+  beforeAll(async () => {
+    db = await createTestDatabase(`
+      CREATE TABLE subscriptions (
+        id TEXT PRIMARY KEY,
+        household_id UUID NOT NULL,
+        merchant TEXT NOT NULL,
+        amount DECIMAL(10,2) NOT NULL,
+        status TEXT NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX idx_subscriptions_household_merchant ON subscriptions(household_id, merchant);
+    `)
+    // Merchants reviewed more than once before the index existed
+    await db.query(
+      `INSERT INTO subscriptions (id, household_id, merchant, amount, status, updated_at) VALUES
+        ('netflix-dismissed', $1, 'netflix.com', 15.49, 'dismissed', '2026-03-01'),
+        ('netflix-tracked', $1, 'netflix.com', 15.49, 'tracked', '2026-01-01'),
+        ('spotify-old', $1, 'spotify usa', 9.99, 'dismissed', '2026-01-01'),
+        ('spotify-new', $1, 'spotify usa', 9.99, 'dismissed', '2026-02-01'),
+        ('hulu', $1, 'hulu', 7.99, 'cancelled', '2026-01-01')`,
+      [HOUSEHOLD]
+    )
+    await db.exec(readMigration('20260308_unique_subscription_merchants.sql'))
+  })
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  it('keeps the tracked, then the latest, review of each merchant', async () => {
+    const { rows } = await db.query('SELECT id FROM subscriptions ORDER BY id')
+
+    expect(rows).toEqual([{ id: 'hulu' }, { id: 'netflix-tracked' }, { id: 'spotify-new' }])
+  })
+
+  it('updates the existing row when a merchant is reviewed again', async () => {
+    await db.query(
+      `INSERT INTO subscriptions (id, household_id, merchant, amount, status) VALUES ('hulu-again', $1, 'hulu', 8.99, 'tracked')
+       ON CONFLICT (household_id, merchant) DO UPDATE SET amount = EXCLUDED.amount, status = EXCLUDED.status`,
+      [HOUSEHOLD]
+    )
+
+    const { rows } = await db.query(`SELECT id, amount, status FROM subscriptions WHERE merchant = 'hulu'`)
+    expect(rows).toEqual([{ id: 'hulu', amount: '8.99', status: 'tracked' }])
+  })
+})
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  revalidatePath: vi.fn(),
+  getTransactions: vi.fn(),
+  from: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({ getSession: mocks.getSession }))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/actions/transactions', () => ({ getTransactions: mocks.getTransactions }))
+vi.mock('@/lib/actions/merchant-aliases', () => ({ getMerchantAliases: vi.fn().mockResolvedValue([]) }))
+vi.mock('@/lib/actions/settings', () => ({ getHouseholdTimezone: vi.fn().mockResolvedValue('UTC') }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from } }))
+
+import { getRecurringCharges } from '@/lib/actions/insights'
+import { getSubscriptions, trackRecurringCharge } from '@/lib/actions/subscriptions'
+import { createQueryBuilder } from './helpers/query-builder'
+
+function charge(date: string, amount: number, description = 'NETFLIX.COM') {
+  return { date, amount, description, type: 'expense', category: null, category_id: null }
+}
+
+const netflix = {
+  id: 'sub-1',
+  household_id: 'household-1',
+  merchant: 'netflix.com',
+  display_name: 'Netflix',
+  amount: 15.49,
+  amount_cents: 1549,
+  frequency: 'monthly',
+  status: 'tracked',
+  category_id: null,
+  category: null,
+  last_charge_date: '2026-01-05',
+  created_at: null,
+  updated_at: null,
+}
+
+describe('subscriptions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'))
+    mocks.getSession.mockReset()
+    mocks.getTransactions.mockReset()
+    mocks.from.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('flags a price change and expects the next charge a month after the latest', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: [netflix], error: null }))
+    // Newest first, as getTransactions returns them
+    mocks.getTransactions.mockResolvedValue([
+      charge('2026-03-05', 17.99),
+      charge('2026-02-05', 15.49),
+      charge('2026-01-05', 15.49),
+    ])
+
+    const [subscription] = await getSubscriptions()
+
+    expect(subscription).toMatchObject({
+      id: 'sub-1',
+      state: 'active',
+      lastChargeDate: '2026-03-05',
+      nextExpectedDate: '2026-04-05',
+      transactionCount: 3,
+      priceChange: { previousAmount: 15.49, newAmount: 17.99 },
+    })
+  })
+
+  it('ignores an unrelated purchase from the same merchant', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: [netflix], error: null }))
+    mocks.getTransactions.mockResolvedValue([
+      charge('2026-03-08', 49.99),
+      charge('2026-03-05', 15.49),
+      charge('2026-02-21', 49.99),
+      charge('2026-02-05', 15.49),
+      charge('2026-01-05', 15.49),
+    ])
+
+    const [subscription] = await getSubscriptions()
+
+    expect(subscription).toMatchObject({
+      state: 'active',
+      lastChargeDate: '2026-03-05',
+      priceChange: null,
+    })
+  })
+
+  it('reports a missed charge', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: [netflix], error: null }))
+    mocks.getTransactions.mockResolvedValue([
+      charge('2026-01-20', 15.49),
+      charge('2025-12-20', 15.49),
+    ])
+
+    const [subscription] = await getSubscriptions()
+
+    expect(subscription.state).toBe('missed')
+    expect(subscription.nextExpectedDate).toBe('2026-02-20')
+    expect(subscription.priceChange).toBeNull()
+  })
+
+  it('stops suggesting recurring charges that were tracked or dismissed', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: [{ merchant: 'netflix.com', amount: 15.49 }],
+      error: null,
+    }))
+    mocks.getTransactions.mockResolvedValue([
+      charge('2026-03-05', 15.49),
+      charge('2026-02-05', 15.49),
+      charge('2026-03-01', 9.99, 'SPOTIFY USA'),
+      charge('2026-02-01', 9.99, 'SPOTIFY USA'),
+    ])
+
+    const recurring = await getRecurringCharges()
+
+    expect(recurring.map((r) => r.merchant)).toEqual(['spotify usa'])
+  })
+
+  it('does not suggest a tracked merchant again at a new price', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: [{ merchant: 'netflix.com' }],
+      error: null,
+    }))
+    mocks.getTransactions.mockResolvedValue([
+      charge('2026-03-05', 22.99),
+      charge('2026-02-05', 22.99),
+    ])
+
+    expect(await getRecurringCharges()).toEqual([])
+  })
+
+  it('replaces an earlier review of the same merchant', async () => {
+    const builder = createQueryBuilder({ error: null })
+    mocks.from.mockImplementationOnce(() => builder)
+
+    await trackRecurringCharge({
+      merchant: 'netflix.com',
+      displayName: 'Netflix',
+      amount: 15.49,
+      frequency: 'monthly',
+      lastChargeDate: '2026-03-05',
+    })
+
+    expect(builder.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ household_id: 'household-1', merchant: 'netflix.com', status: 'tracked' }),
+      { onConflict: 'household_id,merchant' }
+    )
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/insights')
+  })
+})
@@ -24,3 +24,55 @@ describe('transaction schema refunds', () => {
     })).toThrow()
   })
 })
+
+describe('transaction schema splits', () => {
+  const groceries = '11111111-1111-4111-8111-111111111111'
+  const household = '22222222-2222-4222-8222-222222222222'
+
+  it('accepts splits that add up without a parent category', () => {
+    const parsed = createTransactionSchema.parse({
+      amount: 100.1,
+      date: '2026-01-04',
+      type: 'expense',
+      splits: [
+        { categoryId: groceries, amount: 60.05 },
+        { categoryId: household, amount: 40.05, memo: 'Paper towels' },
+      ],
+    })
+
+    expect(parsed.splits).toHaveLength(2)
+  })
+
+  it('rejects splits that do not add up', () => {
+    expect(() => createTransactionSchema.parse({
+      amount: 100,
+      date: '2026-01-04',
+      type: 'expense',
+      splits: [
+        { categoryId: groceries, amount: 60 },
+        { categoryId: household, amount: 30 },
+      ],
+    })).toThrow(/add up/)
+  })
+
+  it('rejects a single split line', () => {
+    expect(() => createTransactionSchema.parse({
+      amount: 100,
+      date: '2026-01-04',
+      type: 'expense',
+      splits: [{ categoryId: groceries, amount: 100 }],
+    })).toThrow(/at least two/)
+  })
+
+  it('rejects split income', () => {
+    expect(() => createTransactionSchema.parse({
+      amount: 100,
+      date: '2026-01-04',
+      type: 'income',
+      splits: [
+        { categoryId: groceries, amount: 50 },
+        { categoryId: household, amount: 50 },
+      ],
+    })).toThrow(/Only expenses/)
+  })
+})
@@ -2,12 +2,15 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 const mocks = vi.hoisted(() => ({
   getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
   revalidatePath: vi.fn(),
   from: vi.fn(),
+  rpc: vi.fn(),
 }))
 
 vi.mock('@/lib/auth', () => ({
   getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
 }))
 
 vi.mock('next/cache', () => ({
@@ -17,10 +20,11 @@ vi.mock('next/cache', () => ({
 vi.mock('@/lib/supabase-server', () => ({
   supabaseAdmin: {
     from: mocks.from,
+    rpc: mocks.rpc,
   },
 }))
 
-import { updateTransaction } from '@/lib/actions/transactions'
+import { bulkEditTransactions, deleteTransaction, searchTransactions, updateTransaction } from '@/lib/actions/transactions'
 
 const baseUpdate = {
   categoryId: '11111111-1111-4111-8111-111111111111',
@@ -30,19 +34,20 @@ const baseUpdate = {
   type: 'expense' as const,
 }
 
-function createSelectBuilder(data: unknown) {
+function createAliasesBuilder() {
   return {
     select: vi.fn().mockReturnThis(),
     eq: vi.fn().mockReturnThis(),
-    maybeSingle: vi.fn().mockResolvedValue(data),
+    order: vi.fn().mockResolvedValue({ data: [], error: null }),
   }
 }
 
-function createUpdateBuilder(data: unknown, error: unknown = null) {
+function createSelectBuilder(data: unknown) {
   return {
-    update: vi.fn().mockReturnThis(),
+    select: vi.fn().mockReturnThis(),
     eq: vi.fn().mockReturnThis(),
-    select: vi.fn().mockResolvedValue({ data, error }),
+    is: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue(data),
   }
 }
 
@@ -51,6 +56,8 @@ describe('updateTransaction optimistic locking', () => {
     mocks.getSession.mockReset()
     mocks.revalidatePath.mockReset()
     mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.rpc.mockResolvedValue({ data: { success: true, recorded: 1 }, error: null })
   })
 
   it('throws when expectedUpdatedAt does not match', async () => {
@@ -79,11 +86,8 @@ describe('updateTransaction optimistic locking', () => {
       data: { id: '11111111-1111-4111-8111-111111111111', updated_at: '2026-01-04T00:00:00.000Z' },
       error: null,
     })
-    const updateBuilder = createUpdateBuilder([])
-
-    mocks.from
-      .mockImplementationOnce(() => selectBuilder)
-      .mockImplementationOnce(() => updateBuilder)
+    mocks.from.mockImplementationOnce(() => selectBuilder)
+    mocks.rpc.mockResolvedValue({ data: { success: false, conflict: true }, error: null })
 
     await expect(
       updateTransaction(
@@ -101,11 +105,182 @@ describe('updateTransaction optimistic locking', () => {
       data: { id: '11111111-1111-4111-8111-111111111111', updated_at: '2026-01-04T00:00:00.000Z' },
       error: null,
     })
-    const updateBuilder = createUpdateBuilder([{ id: '11111111-1111-4111-8111-111111111111' }])
+    mocks.from.mockImplementationOnce(() => selectBuilder)
+
+    await expect(
+      updateTransaction(
+        '11111111-1111-4111-8111-111111111111',
+        baseUpdate,
+        '2026-01-04T00:00:00.000Z'
+      )
+    ).resolves.toBeUndefined()
+    expect(mocks.rpc).toHaveBeenCalledWith('update_transaction', {
+      p_household_id: 'household-1',
+      p_transaction_id: '11111111-1111-4111-8111-111111111111',
+      p_expected_updated_at: '2026-01-04T00:00:00.000Z',
+      p_changes: {
+        account_id: null,
+        category_id: baseUpdate.categoryId,
+        amount: 12.34,
+        amount_cents: 1234,
+        description: 'Lunch',
+        date: '2026-01-04',
+        type: 'expense',
+      },
+      p_splits: [],
+      p_member_id: 'member-1',
+    })
+  })
+
+  it('learns a merchant pattern when the category changes', async () => {
+    mocks.getSession.mockResolvedValue('household-1')
 
     mocks.from
-      .mockImplementationOnce(() => selectBuilder)
-      .mockImplementationOnce(() => updateBuilder)
+      .mockImplementationOnce(() => createSelectBuilder({
+        data: {
+          id: '11111111-1111-4111-8111-111111111111',
+          updated_at: '2026-01-04T00:00:00.000Z',
+          category_id: '22222222-2222-4222-8222-222222222222',
+          description: 'Lunch',
+        },
+        error: null,
+      }))
+      .mockImplementationOnce(() => createAliasesBuilder())
+
+    await updateTransaction(
+      '11111111-1111-4111-8111-111111111111',
+      baseUpdate,
+      '2026-01-04T00:00:00.000Z'
+    )
+
+    expect(mocks.rpc).toHaveBeenCalledWith('record_merchant_patterns', {
+      p_household_id: 'household-1',
+      p_patterns: [{ merchant_name: 'lunch', category_id: baseUpdate.categoryId }],
+    })
+  })
+
+  it('does not learn when the category and description are unchanged', async () => {
+    mocks.getSession.mockResolvedValue('household-1')
+
+    mocks.from.mockImplementationOnce(() => createSelectBuilder({
+      data: {
+        id: '11111111-1111-4111-8111-111111111111',
+        updated_at: '2026-01-04T00:00:00.000Z',
+        category_id: baseUpdate.categoryId,
+        description: 'Lunch',
+      },
+      error: null,
+    }))
+
+    await updateTransaction(
+      '11111111-1111-4111-8111-111111111111',
+      { ...baseUpdate, amount: 15 },
+      '2026-01-04T00:00:00.000Z'
+    )
+
+    expect(mocks.rpc).not.toHaveBeenCalledWith('record_merchant_patterns', expect.anything())
+  })
+
+  it('saves split lines with the row and clears the parent category', async () => {
+    mocks.getSession.mockResolvedValue('household-1')
+
+    mocks.from.mockImplementationOnce(() => createSelectBuilder({
+      data: {
+        id: '11111111-1111-4111-8111-111111111111',
+        updated_at: '2026-01-04T00:00:00.000Z',
+        category_id: baseUpdate.categoryId,
+        description: 'Lunch',
+      },
+      error: null,
+    }))
+
+    await updateTransaction(
+      '11111111-1111-4111-8111-111111111111',
+      {
+        ...baseUpdate,
+        splits: [
+          { categoryId: baseUpdate.categoryId, amount: 10, memo: 'Sandwich' },
+          { categoryId: '22222222-2222-4222-8222-222222222222', amount: 2.34 },
+        ],
+      },
+      '2026-01-04T00:00:00.000Z'
+    )
+
+    expect(mocks.rpc).toHaveBeenCalledTimes(1)
+    expect(mocks.rpc).toHaveBeenCalledWith('update_transaction', expect.objectContaining({
+      p_changes: expect.objectContaining({ category_id: null }),
+      p_splits: [
+        { category_id: baseUpdate.categoryId, amount: 10, memo: 'Sandwich' },
+        { category_id: '22222222-2222-4222-8222-222222222222', amount: 2.34, memo: null },
+      ],
+    }))
+  })
+
+  it('saves nothing when the split lines are rejected', async () => {
+    mocks.getSession.mockResolvedValue('household-1')
+    mocks.rpc.mockResolvedValue({ data: null, error: { message: 'Category not found' } })
+
+    mocks.from.mockImplementationOnce(() => createSelectBuilder({
+      data: { id: '11111111-1111-4111-8111-111111111111', updated_at: '2026-01-04T00:00:00.000Z' },
+      error: null,
+    }))
+
+    await expect(
+      updateTransaction(
+        '11111111-1111-4111-8111-111111111111',
+        {
+          ...baseUpdate,
+          splits: [
+            { categoryId: baseUpdate.categoryId, amount: 10 },
+            { categoryId: '22222222-2222-4222-8222-222222222222', amount: 2.34 },
+          ],
+        },
+        '2026-01-04T00:00:00.000Z'
+      )
+    ).rejects.toThrow('Failed to update transaction: Category not found')
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+    expect(mocks.revalidatePath).not.toHaveBeenCalled()
+  })
+
+  it('clears existing splits when saved with a single category', async () => {
+    mocks.getSession.mockResolvedValue('household-1')
+
+    mocks.from
+      .mockImplementationOnce(() => createSelectBuilder({
+        data: {
+          id: '11111111-1111-4111-8111-111111111111',
+          updated_at: '2026-01-04T00:00:00.000Z',
+          category_id: null,
+          description: 'Lunch',
+        },
+        error: null,
+      }))
+      .mockImplementationOnce(() => createAliasesBuilder())
+
+    await updateTransaction(
+      '11111111-1111-4111-8111-111111111111',
+      baseUpdate,
+      '2026-01-04T00:00:00.000Z'
+    )
+
+    expect(mocks.rpc).toHaveBeenCalledWith('update_transaction', expect.objectContaining({
+      p_changes: expect.objectContaining({ category_id: baseUpdate.categoryId }),
+      p_splits: [],
+    }))
+  })
+
+  it('refuses to edit a reconciled transaction', async () => {
+    mocks.getSession.mockResolvedValue('household-1')
+
+    mocks.from.mockImplementationOnce(() => createSelectBuilder({
+      data: {
+        id: '11111111-1111-4111-8111-111111111111',
+        updated_at: '2026-01-04T00:00:00.000Z',
+        reconciliation_id: 'rec-1',
+        transfer_reconciliation_id: null,
+      },
+      error: null,
+    }))
 
     await expect(
       updateTransaction(
@@ -113,6 +288,182 @@ describe('updateTransaction optimistic locking', () => {
         baseUpdate,
         '2026-01-04T00:00:00.000Z'
       )
-    ).resolves.toBeUndefined()
+    ).rejects.toThrow(/reconciled/)
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects splits that do not add up to the amount', async () => {
+    mocks.getSession.mockResolvedValue('household-1')
+
+    await expect(
+      updateTransaction(
+        '11111111-1111-4111-8111-111111111111',
+        {
+          ...baseUpdate,
+          splits: [
+            { categoryId: baseUpdate.categoryId, amount: 10 },
+            { categoryId: baseUpdate.categoryId, amount: 1 },
+          ],
+        },
+        '2026-01-04T00:00:00.000Z'
+      )
+    ).rejects.toThrow(/add up/)
+    expect(mocks.from).not.toHaveBeenCalled()
+  })
+})
+
+describe('deleteTransaction', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.from.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('refuses to delete a reconciled transaction', async () => {
+    mocks.from.mockImplementationOnce(() => createSelectBuilder({
+      data: { reconciliation_id: null, transfer_reconciliation_id: 'rec-1' },
+      error: null,
+    }))
+
+    await expect(deleteTransaction('11111111-1111-4111-8111-111111111111')).rejects.toThrow(/Unlock it/)
+    expect(mocks.from).toHaveBeenCalledTimes(1)
+  })
+
+  it('moves the transaction to the trash on behalf of the signed-in member', async () => {
+    const update = {
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockResolvedValue({ error: null }),
+    }
+    mocks.from
+      .mockImplementationOnce(() => createSelectBuilder({
+        data: { reconciliation_id: null, transfer_reconciliation_id: null },
+        error: null,
+      }))
+      .mockImplementationOnce(() => update)
+
+    await deleteTransaction('11111111-1111-4111-8111-111111111111')
+
+    expect(update.update).toHaveBeenCalledWith({ deleted_at: expect.any(String), updated_by: 'member-1' })
+    expect(update.is).toHaveBeenCalledWith('deleted_at', null)
+    expect(mocks.rpc).not.toHaveBeenCalledWith('delete_household_record', expect.anything())
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/trash')
+  })
+})
+
+describe('searchTransactions', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('passes filters to the search and keeps its order', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: {
+        ids: ['txn-2', 'txn-1'],
+        next_cursor: {
+          id: '11111111-1111-4111-8111-111111111111',
+          date: '2026-01-02',
+          created_at: '2026-01-02T00:00:00+00:00',
+          amount_cents: 500,
+        },
+        total_count: 3,
+        income_cents: 0,
+        expense_cents: 1500,
+      },
+      error: null,
+    })
+    const rowsBuilder = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      in: vi.fn().mockResolvedValue({ data: [{ id: 'txn-1' }, { id: 'txn-2' }], error: null }),
+    }
+    mocks.from.mockImplementationOnce(() => rowsBuilder)
+
+    const result = await searchTransactions({
+      search: '100%',
+      categoryId: 'uncategorized',
+      minAmount: 5,
+      sort: 'amount_desc',
+    })
+
+    expect(mocks.rpc).toHaveBeenCalledWith('search_transactions', {
+      p_household_id: 'household-1',
+      p_filters: expect.objectContaining({
+        search: '100\\%',
+        category_id: 'uncategorized',
+        min_amount_cents: 500,
+      }),
+      p_sort: 'amount_desc',
+      p_cursor: null,
+      p_limit: 50,
+    })
+    expect(result.transactions.map((t) => t.id)).toEqual(['txn-2', 'txn-1'])
+    expect(result.totalCount).toBe(3)
+    expect(result.expenseCents).toBe(1500)
+    expect(result.nextCursor).toEqual(expect.any(String))
+  })
+
+  it('rejects a tampered cursor', async () => {
+    await expect(searchTransactions({ cursor: 'garbage' })).rejects.toThrow('Invalid page cursor')
+    expect(mocks.rpc).not.toHaveBeenCalled()
+  })
+})
+
+describe('bulkEditTransactions', () => {
+  const items = [
+    { id: '11111111-1111-4111-8111-111111111111', expectedUpdatedAt: '2026-01-01T00:00:00.000Z' },
+    { id: '22222222-2222-4222-8222-222222222222', expectedUpdatedAt: '2026-01-02T00:00:00.000Z' },
+  ]
+
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.rpc.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('sends every row with its expected timestamp in one call', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: true, updated: 2, conflicts: [], locked: [] },
+      error: null,
+    })
+
+    const result = await bulkEditTransactions({ items, change: { action: 'shift_date', days: -2 } })
+
+    expect(mocks.rpc).toHaveBeenCalledTimes(1)
+    expect(mocks.rpc).toHaveBeenCalledWith('bulk_update_transactions', {
+      p_household_id: 'household-1',
+      p_action: 'shift_date',
+      p_items: [
+        { id: items[0].id, expected_updated_at: items[0].expectedUpdatedAt },
+        { id: items[1].id, expected_updated_at: items[1].expectedUpdatedAt },
+      ],
+      p_params: { days: -2 },
+      p_member_id: 'member-1',
+    })
+    expect(result.updated).toBe(2)
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/transactions')
+  })
+
+  it('reports conflicting rows without revalidating', async () => {
+    mocks.rpc.mockResolvedValue({
+      data: { success: false, updated: 0, conflicts: [items[1].id], locked: [] },
+      error: null,
+    })
+
+    const result = await bulkEditTransactions({ items, change: { action: 'delete' } })
+
+    expect(result).toEqual({ success: false, updated: 0, conflicts: [items[1].id], locked: [] })
+    expect(mocks.revalidatePath).not.toHaveBeenCalled()
+  })
+
+  it('rejects a zero-day shift before calling the database', async () => {
+    await expect(
+      bulkEditTransactions({ items, change: { action: 'shift_date', days: 0 } })
+    ).rejects.toThrow()
+    expect(mocks.rpc).not.toHaveBeenCalled()
   })
 })
@@ -2,11 +2,15 @@ import { describe, it, expect, vi } from 'vitest'
 
 const mocks = vi.hoisted(() => ({
   getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
   rpc: vi.fn(),
   from: vi.fn(),
 }))
 
-vi.mock('@/lib/auth', () => ({ getSession: mocks.getSession }))
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
 vi.mock('@/lib/supabase-server', () => ({
   supabaseAdmin: {
     rpc: mocks.rpc,
@@ -46,4 +50,34 @@ describe('createTransaction idempotency', () => {
       idempotencyKey: 'abc',
     })).rejects.toThrow('rpc failed')
   })
+
+  it('treats a repeat post of a scheduled occurrence as already done', async () => {
+    mocks.getSession.mockResolvedValue('household-1')
+    mocks.from.mockReset()
+
+    const rulesBuilder = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      then: (resolve: (value: unknown) => void) => resolve({ data: [], error: null }),
+    }
+    mocks.from.mockImplementationOnce(() => rulesBuilder)
+    mocks.rpc.mockResolvedValue({ data: { success: true, created: false }, error: null })
+
+    await expect(createTransaction({
+      categoryId: '11111111-1111-4111-8111-111111111111',
+      amount: 1500,
+      description: 'Rent',
+      date: '2026-03-01',
+      type: 'expense',
+      scheduledTransactionId: '22222222-2222-4222-8222-222222222222',
+      scheduledDate: '2026-03-01',
+    })).resolves.toBeUndefined()
+
+    expect(mocks.rpc).toHaveBeenCalledWith('create_transaction', expect.objectContaining({
+      p_transaction: expect.objectContaining({
+        scheduled_transaction_id: '22222222-2222-4222-8222-222222222222',
+        scheduled_date: '2026-03-01',
+      }),
+    }))
+  })
 })
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  getSessionMemberId: vi.fn(async () => 'member-1'),
+  revalidatePath: vi.fn(),
+  from: vi.fn(),
+  rpc: vi.fn(),
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getSession: mocks.getSession,
+  getSessionMemberId: mocks.getSessionMemberId,
+}))
+vi.mock('next/cache', () => ({ revalidatePath: mocks.revalidatePath }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: { from: mocks.from, rpc: mocks.rpc } }))
+
+import { emptyTrash, purgeExpiredTrash, restoreFromTrash } from '@/lib/actions/trash'
+import { createQueryBuilder } from './helpers/query-builder'
+
+describe('trash', () => {
+  beforeEach(() => {
+    mocks.getSession.mockReset()
+    mocks.revalidatePath.mockReset()
+    mocks.from.mockReset()
+    mocks.rpc.mockReset()
+    mocks.getSession.mockResolvedValue('household-1')
+  })
+
+  it('restores a transaction by clearing its deletion time', async () => {
+    const builder = createQueryBuilder({ data: { id: 'txn-1' }, error: null })
+    mocks.from.mockImplementationOnce(() => builder)
+
+    await restoreFromTrash('transactions', 'txn-1')
+
+    expect(mocks.from).toHaveBeenCalledWith('transactions')
+    expect(builder.update).toHaveBeenCalledWith({ deleted_at: null, updated_by: 'member-1' })
+    expect(builder.not).toHaveBeenCalledWith('deleted_at', 'is', null)
+    expect(mocks.revalidatePath).toHaveBeenCalledWith('/trash')
+  })
+
+  it('refuses to restore a category whose name has been taken since', async () => {
+    mocks.from
+      .mockImplementationOnce(() => createQueryBuilder({ data: { name: 'Groceries' }, error: null }))
+      .mockImplementationOnce(() => createQueryBuilder({ data: { id: 'cat-2' }, error: null }))
+
+    await expect(restoreFromTrash('categories', 'cat-1')).rejects.toThrow(/"Groceries" already exists/)
+    expect(mocks.from).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports items that are no longer in the trash', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({ data: null, error: null }))
+
+    await expect(restoreFromTrash('transactions', 'txn-1')).rejects.toThrow('Not found in the trash')
+  })
+
+  it('refuses to restore a transaction that has been recorded again since', async () => {
+    mocks.from.mockImplementationOnce(() => createQueryBuilder({
+      data: null,
+      error: { code: '23505', message: 'duplicate key value violates unique constraint' },
+    }))
+
+    await expect(restoreFromTrash('transactions', 'txn-1')).rejects.toThrow('A matching transaction has been added')
+  })
+
+  it('empties the trash on behalf of the signed-in member', async () => {
+    mocks.rpc.mockResolvedValue({ data: { success: true, transactions: 4, categories: 1 }, error: null })
+
+    await expect(emptyTrash()).resolves.toEqual({ transactions: 4, categories: 1 })
+    expect(mocks.rpc).toHaveBeenCalledWith('empty_trash', {
+      p_household_id: 'household-1',
+      p_member_id: 'member-1',
+    })
+  })
+
+  it('purges only what has been in the trash past the retention period', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-31T12:00:00.000Z'))
+    mocks.rpc.mockResolvedValue({ data: { success: true, transactions: 0, categories: 0 }, error: null })
+
+    try {
+      await purgeExpiredTrash()
+    } finally {
+      vi.useRealTimers()
+    }
+
+    expect(mocks.rpc).toHaveBeenCalledWith('empty_trash', {
+      p_household_id: 'household-1',
+      p_deleted_before: '2026-03-01T12:00:00.000Z',
+    })
+  })
+})